@@ -8,6 +8,9 @@ import { PendingInvitationModal } from '@/features/organizations/components/Pend
 import { useCheckPendingInvitations } from '@/features/organizations/hooks/useCheckPendingInvitations';
 import { useAuthStore } from '@/features/auth/stores/authStore';
 import { useConversationStore } from '@/features/conversations/stores/conversationStore';
+import { useNoteMentionNotifications } from '@/features/conversations/hooks/useNoteMentionNotifications';
+import { useOutboxSync } from '@/features/conversations/hooks/useOutboxSync';
+import { GlobalShortcuts } from '@/features/keyboard-shortcuts/components/GlobalShortcuts';
 import { useIsMobile } from '@/hooks/useMediaQuery';
 import { sessionHelper } from '@/lib/sessionHelper';
 import { useAnalytics } from '@/lib/analytics';
@@ -24,6 +27,12 @@ export const DashboardLayout = () => {
   // This ensures invitations are displayed even when user navigates directly
   useCheckPendingInvitations();
 
+  // Toast when a teammate @mentions the user in a conversation's internal note
+  useNoteMentionNotifications();
+
+  // Replay messages queued while offline (IndexedDB outbox)
+  useOutboxSync();
+
   // No eager agent fetch here. Agents are loaded lazily by the components
   // that need them (GlobalAgentSelector, AgentsPage, OnboardingPromptBanner)
   // via useInfiniteAgents — pages that don't display agents pay zero cost.
@@ -100,6 +109,9 @@ export const DashboardLayout = () => {
 
       {/* Pending Invitation Modal - Auto-shows after authentication if user has pending invitations */}
       <PendingInvitationModal />
+
+      {/* Command palette (Cmd/Ctrl+K) and shortcut cheat sheet (?) */}
+      <GlobalShortcuts />
     </>
   );
 };
@@ -4,7 +4,7 @@
  * Hamburger menu only visible on mobile
  */
 
-import { Menu, X } from 'lucide-react';
+import { Menu, Search, X } from 'lucide-react';
 import { useTranslation } from 'react-i18next';
 import { useUIStore } from '@/stores/uiStore';
 import { useIsMobile } from '@/hooks/useMediaQuery';
@@ -13,6 +13,10 @@ import { AppLogo } from '@/components/ui/AppLogo';
 import GlobalAgentSelector from '@/features/agents/components/GlobalAgentSelector';
 import { ProfileDropdown } from './ProfileDropdown';
 import { HeaderContainer } from './HeaderContainer';
+import { useShortcutStore } from '@/features/keyboard-shortcuts/stores/shortcutStore';
+import { useShortcutBindings } from '@/features/keyboard-shortcuts/hooks/useKeyboardShortcuts';
+import { KeyCombo } from '@/features/keyboard-shortcuts/components/KeyCombo';
+import { IS_MAC } from '@/features/keyboard-shortcuts/utils/keyCombo';
 
 export const Header = () => {
   const { t } = useTranslation();
@@ -20,6 +24,8 @@ export const Header = () => {
   const isMobile = useIsMobile();
   const user = useAuthStore(state => state.user);
   const logout = useAuthStore(state => state.logout);
+  const setCommandPaletteOpen = useShortcutStore(state => state.setCommandPaletteOpen);
+  const { command_palette: paletteCombo } = useShortcutBindings();
 
   return (
     <HeaderContainer className="justify-between">
@@ -46,6 +52,15 @@ export const Header = () => {
 
       {/* End Side: Agent Selector + Profile */}
       <div className="ms-auto flex items-center gap-3">
+        <button
+          onClick={() => setCommandPaletteOpen(true)}
+          className="flex items-center gap-2 p-2 md:px-2.5 md:py-1.5 rounded-md md:border md:border-neutral-200 hover:bg-neutral-100 transition-colors"
+          aria-label={t('command_palette.open')}
+          title={t('command_palette.open')}
+        >
+          <Search className="w-4 h-4 text-neutral-500" />
+          {!isMobile && <KeyCombo combo={paletteCombo} isMac={IS_MAC} />}
+        </button>
         <GlobalAgentSelector />
         <ProfileDropdown user={user} onLogout={logout} />
       </div>
@@ -5,6 +5,7 @@ import type { User } from '@/features/auth/types/auth.types';
 import type { Agent } from '@/features/agents/types/agent.types';
 import { useSubscriptionStore } from '@/features/subscriptions/stores/subscriptionStore';
 import { NavigationItemComponent } from './NavigationItemComponent';
+import { isNavigationItemVisible } from './navigation.config';
 import type { NavigationItem } from './types';
 
 interface NavigationListProps {
@@ -36,20 +37,7 @@ export const NavigationList = memo(({
       aria-label={t('navigation.main_nav_aria')}
     >
       {items
-        .filter((item) => {
-          // Hide SuperAdmin-only items if user is not SuperAdmin
-          if (item.requireSuperAdmin && !isSuperAdmin) {
-            return false;
-          }
-          // Plan-gated items: SuperAdmin always bypasses. Otherwise the
-          // user must have a subscription whose planCode is in the allowlist.
-          if (item.requiredPlans && !isSuperAdmin) {
-            if (!planCode || !item.requiredPlans.includes(planCode)) {
-              return false;
-            }
-          }
-          return true;
-        })
+        .filter((item) => isNavigationItemVisible(item, { isSuperAdmin, planCode }))
         .map((item) => {
           // Check if item requires an agent and none is selected
           const isDisabled = item.requiresAgent && !currentAgent;
@@ -33,6 +33,8 @@ import {
   BadgeCheck,
   HandCoins,
   KeyRound,
+  PieChart,
+  Star,
 } from 'lucide-react';
 import { WhatsAppIcon } from './WhatsAppIcon';
 import { PlanCode } from '@/features/subscriptions/types/subscription.types';
@@ -57,6 +59,27 @@ export const navigation: NavigationItem[] = [
     requiresAgent: true,
     requireSuperAdmin: true,
   },
+  {
+    name: 'SLA Compliance',
+    translationKey: 'navigation.sla_compliance',
+    href: '/sla-compliance',
+    icon: Timer,
+    requireSuperAdmin: true,
+  },
+  {
+    name: 'Customer Satisfaction',
+    translationKey: 'navigation.csat_report',
+    href: '/csat',
+    icon: Star,
+    requireSuperAdmin: true,
+  },
+  {
+    name: 'Conversation Insights',
+    translationKey: 'navigation.conversation_insights',
+    href: '/conversation-insights',
+    icon: PieChart,
+    requireSuperAdmin: true,
+  },
   {
     name: 'Comments',
     translationKey: 'navigation.comments',
@@ -318,3 +341,25 @@ export const navigation: NavigationItem[] = [
     },
   },
 ];
+
+/**
+ * Whether a navigation item is visible to the current user.
+ * Shared by the sidebar and the command palette so both list the same pages.
+ */
+export function isNavigationItemVisible(
+  item: NavigationItem,
+  { isSuperAdmin, planCode }: { isSuperAdmin: boolean; planCode: string | undefined }
+): boolean {
+  // Hide SuperAdmin-only items if user is not SuperAdmin
+  if (item.requireSuperAdmin && !isSuperAdmin) {
+    return false;
+  }
+  // Plan-gated items: SuperAdmin always bypasses. Otherwise the
+  // user must have a subscription whose planCode is in the allowlist.
+  if (item.requiredPlans && !isSuperAdmin) {
+    if (!planCode || !item.requiredPlans.includes(planCode)) {
+      return false;
+    }
+  }
+  return true;
+}
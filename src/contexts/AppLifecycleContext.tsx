@@ -3,6 +3,8 @@ import { createContext, useContext, useEffect, useLayoutEffect, useState, useRef
 interface AppLifecycleContextValue {
   isVisible: boolean;
   isHidden: boolean;
+  /** Browser connectivity (`online` / `offline` events) */
+  isOnline: boolean;
 }
 
 const AppLifecycleContext = createContext<AppLifecycleContextValue | undefined>(undefined);
@@ -14,8 +16,9 @@ interface AppLifecycleProviderProps {
 /**
  * Global App Lifecycle Provider
  *
- * Manages a SINGLE `visibilitychange` event listener for the entire app.
- * Components subscribe to app resume/background events via hooks.
+ * Manages a SINGLE `visibilitychange` event listener (plus `online`/`offline`)
+ * for the entire app. Components subscribe to app resume/background/reconnect
+ * events via hooks.
  *
  * Benefits:
  * - Single event listener (vs multiple per-component listeners)
@@ -40,6 +43,9 @@ export function AppLifecycleProvider({ children }: AppLifecycleProviderProps) {
   const [isVisible, setIsVisible] = useState(
     typeof document !== 'undefined' ? document.visibilityState === 'visible' : true
   );
+  const [isOnline, setIsOnline] = useState(
+    typeof navigator !== 'undefined' ? navigator.onLine : true
+  );
 
   useEffect(() => {
     const handleVisibilityChange = () => {
@@ -63,18 +69,25 @@ export function AppLifecycleProvider({ children }: AppLifecycleProviderProps) {
       }
     };
 
+    const handleOnline = () => setIsOnline(true);
+    const handleOffline = () => setIsOnline(false);
+
     // Single global listener for entire app
     document.addEventListener('visibilitychange', handleVisibilityChange);
     window.addEventListener('pageshow', handlePageShow);
+    window.addEventListener('online', handleOnline);
+    window.addEventListener('offline', handleOffline);
 
     return () => {
       document.removeEventListener('visibilitychange', handleVisibilityChange);
       window.removeEventListener('pageshow', handlePageShow);
+      window.removeEventListener('online', handleOnline);
+      window.removeEventListener('offline', handleOffline);
     };
   }, []);
 
   return (
-    <AppLifecycleContext.Provider value={{ isVisible, isHidden: !isVisible }}>
+    <AppLifecycleContext.Provider value={{ isVisible, isHidden: !isVisible, isOnline }}>
       {children}
     </AppLifecycleContext.Provider>
   );
@@ -87,7 +100,7 @@ export function AppLifecycleProvider({ children }: AppLifecycleProviderProps) {
  *
  * @example
  * ```tsx
- * const { isVisible, isHidden } = useAppVisibility();
+ * const { isVisible, isHidden, isOnline } = useAppVisibility();
  * if (isVisible) {
  *   // App is in foreground
  * }
@@ -0,0 +1,59 @@
+/**
+ * Conversation labels an action applies when it fires
+ * Shared by CreateActionModal and EditActionModal; hidden until the
+ * organization has defined labels.
+ */
+
+import { useAgentContext } from '@/hooks/useAgentContext';
+import { cn } from '@/lib/utils';
+import { useConversationLabels } from '@/features/conversations/hooks/useConversationLabels';
+import { LABEL_COLOR_CLASSES } from '@/features/conversations/constants/labelColors';
+
+interface ActionLabelsFieldProps {
+  value: string[];
+  onChange: (labelIds: string[]) => void;
+}
+
+export function ActionLabelsField({ value, onChange }: ActionLabelsFieldProps) {
+  const { agent } = useAgentContext();
+  const { data: labels = [] } = useConversationLabels(agent?.organizationId);
+
+  if (labels.length === 0) return null;
+
+  const toggle = (labelId: string) => {
+    onChange(value.includes(labelId) ? value.filter((id) => id !== labelId) : [...value, labelId]);
+  };
+
+  return (
+    <div>
+      <label className="block text-sm font-medium text-neutral-700 mb-1">
+        Apply labels when this action runs
+      </label>
+      <p className="text-xs text-neutral-500 mb-2">
+        The selected labels are added to the conversation each time the AI triggers this action.
+      </p>
+      <div className="flex flex-wrap gap-1.5">
+        {labels.map((label) => {
+          const isSelected = value.includes(label.id);
+          return (
+            <button
+              key={label.id}
+              type="button"
+              onClick={() => toggle(label.id)}
+              aria-pressed={isSelected}
+              className={cn(
+                'inline-flex items-center gap-1.5 px-2 py-1 rounded-md text-xs border transition-colors',
+                isSelected
+                  ? LABEL_COLOR_CLASSES[label.color].chip
+                  : 'bg-white border-neutral-200 text-neutral-600 hover:bg-neutral-50'
+              )}
+            >
+              <span className={cn('w-2 h-2 rounded-full', LABEL_COLOR_CLASSES[label.color].dot)} />
+              {label.name}
+            </button>
+          );
+        })}
+      </div>
+    </div>
+  );
+}
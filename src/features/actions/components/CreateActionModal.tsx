@@ -12,6 +12,7 @@ import { useState, useCallback } from 'react';
 import type { CreateActionRequest } from '../types';
 import { IntegrationActionConfig, serializeIntegrationConfig } from './IntegrationActionConfig';
 import type { IntegrationConfigValue } from './IntegrationActionConfig';
+import { ActionLabelsField } from './ActionLabelsField';
 import {
   type ActionFormData,
   defaultIntegrationConfig,
@@ -45,6 +46,7 @@ export function CreateActionModal({ isOpen, onClose }: CreateActionModalProps) {
   const [jsonErrors, setJsonErrors] = useState<Record<string, string>>({});
   const [integrationConfig, setIntegrationConfig] = useState<IntegrationConfigValue>(defaultIntegrationConfig);
   const [connectionId, setConnectionId] = useState('');
+  const [applyLabelIds, setApplyLabelIds] = useState<string[]>([]);
 
   // "Allow edit" pairs a sibling update_row action with the add_row this modal creates.
   // Both share the same connection + column_mapping + target_sheet_id; only the operation
@@ -91,6 +93,7 @@ export function CreateActionModal({ isOpen, onClose }: CreateActionModalProps) {
     setJsonErrors({});
     setIntegrationConfig(defaultIntegrationConfig);
     setConnectionId('');
+    setApplyLabelIds([]);
     setAllowEdit(false);
     setUpdateTriggerPrompt(DEFAULT_UPDATE_TRIGGER_PROMPT);
     setAllowRead(false);
@@ -149,6 +152,7 @@ export function CreateActionModal({ isOpen, onClose }: CreateActionModalProps) {
       isActive: data.isActive,
       priority: data.priority,
       integrationConnectionId: isIntegration ? connectionId : undefined,
+      applyLabelIds,
     };
 
     try {
@@ -401,6 +405,9 @@ export function CreateActionModal({ isOpen, onClose }: CreateActionModalProps) {
           )}
         </div>
 
+        {/* Conversation labels applied when the action fires */}
+        <ActionLabelsField value={applyLabelIds} onChange={setApplyLabelIds} />
+
         {/* Action Configuration (JSON) — only for non-integration types */}
         {!isIntegration && (
           <div>
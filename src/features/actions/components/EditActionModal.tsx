@@ -13,6 +13,7 @@ import type { Action, UpdateActionRequest } from '../types';
 import { formatJson } from '../utils/formatting';
 import { IntegrationActionConfig, serializeIntegrationConfig, deserializeIntegrationConfig } from './IntegrationActionConfig';
 import type { IntegrationConfigValue } from './IntegrationActionConfig';
+import { ActionLabelsField } from './ActionLabelsField';
 import {
   type ActionFormData,
   defaultIntegrationConfig,
@@ -35,6 +36,7 @@ export function EditActionModal({
   const [jsonErrors, setJsonErrors] = useState<Record<string, string>>({});
   const [integrationConfig, setIntegrationConfig] = useState<IntegrationConfigValue>(defaultIntegrationConfig);
   const [connectionId, setConnectionId] = useState('');
+  const [applyLabelIds, setApplyLabelIds] = useState<string[]>([]);
 
   const {
     register,
@@ -82,6 +84,7 @@ export function EditActionModal({
         setIntegrationConfig(defaultIntegrationConfig);
         setConnectionId('');
       }
+      setApplyLabelIds(action.applyLabelIds);
     }
   }, [action, reset]);
 
@@ -89,6 +92,7 @@ export function EditActionModal({
     setJsonErrors({});
     setIntegrationConfig(defaultIntegrationConfig);
     setConnectionId('');
+    setApplyLabelIds([]);
     onClose();
   };
 
@@ -142,6 +146,7 @@ export function EditActionModal({
       isActive: data.isActive,
       priority: data.priority,
       integrationConnectionId: isIntegration ? connectionId : undefined,
+      applyLabelIds,
     };
 
     try {
@@ -274,6 +279,9 @@ export function EditActionModal({
           )}
         </div>
 
+        {/* Conversation labels applied when the action fires */}
+        <ActionLabelsField value={applyLabelIds} onChange={setApplyLabelIds} />
+
         {/* Action Configuration (JSON) — only for non-integration types */}
         {!isIntegration && (
           <div>
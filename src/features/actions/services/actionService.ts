@@ -35,6 +35,7 @@ function transformAction(apiAction: ApiActionResponse): Action {
     isActive: apiAction.is_active,
     priority: apiAction.priority,
     integrationConnectionId: apiAction.integration_connection_id,
+    applyLabelIds: apiAction.apply_label_ids ?? [],
     createdAt: apiAction.created_at,
     updatedAt: apiAction.updated_at,
   };
@@ -56,6 +57,7 @@ function transformCreateRequest(request: CreateActionRequest): Record<string, an
     is_active: request.isActive,
     priority: request.priority,
     integration_connection_id: request.integrationConnectionId,
+    apply_label_ids: request.applyLabelIds,
   };
 }
 
@@ -75,6 +77,7 @@ function transformUpdateRequest(request: UpdateActionRequest): Record<string, an
   if (request.isActive !== undefined) transformed.is_active = request.isActive;
   if (request.priority !== undefined) transformed.priority = request.priority;
   if (request.integrationConnectionId !== undefined) transformed.integration_connection_id = request.integrationConnectionId;
+  if (request.applyLabelIds !== undefined) transformed.apply_label_ids = request.applyLabelIds;
 
   return transformed;
 }
@@ -23,6 +23,8 @@ export interface Action {
   isActive: boolean;
   priority: number;
   integrationConnectionId: string | null;
+  /** Conversation labels applied whenever the action runs */
+  applyLabelIds: string[];
   createdAt: string;
   updatedAt: string;
 }
@@ -43,6 +45,7 @@ export interface ApiActionResponse {
   is_active: boolean;
   priority: number;
   integration_connection_id: string | null;
+  apply_label_ids?: string[] | null;
   created_at: string;
   updated_at: string;
 }
@@ -62,6 +65,7 @@ export interface CreateActionRequest {
   isActive: boolean;
   priority: number;
   integrationConnectionId?: string;
+  applyLabelIds?: string[];
 }
 
 /**
@@ -78,6 +82,7 @@ export interface UpdateActionRequest {
   isActive?: boolean;
   priority?: number;
   integrationConnectionId?: string;
+  applyLabelIds?: string[];
 }
 
 /**
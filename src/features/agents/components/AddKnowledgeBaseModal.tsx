@@ -1,6 +1,6 @@
 /**
  * Mojeeb Add Knowledge Base Modal Component
- * Create knowledge via manual entry or document upload
+ * Create knowledge via manual entry, document upload or website crawl
  * Features: Tab-based UI, async document processing, form validation
  */
 
@@ -8,10 +8,11 @@ import { useState } from 'react';
 import { useMutation } from '@tanstack/react-query';
 import { toast } from 'sonner';
 import { useTranslation } from 'react-i18next';
-import { FileText, Upload } from 'lucide-react';
+import { FileText, Globe, Upload } from 'lucide-react';
 import { agentService } from '../services/agentService';
 import { useUploadDocumentAsync } from '../hooks/useDocumentJobs';
 import { validateDocumentFile } from '../utils/fileValidation';
+import WebsiteCrawlForm from './WebsiteCrawlForm';
 import { analytics } from '@/lib/analytics';
 import { BaseModal } from '@/components/ui/BaseModal';
 import { Input } from '@/components/ui/Input';
@@ -20,7 +21,7 @@ import { Button } from '@/components/ui/Button';
 import { isToastHandled } from '@/lib/errors';
 import { logger } from '@/lib/logger';
 
-type Tab = 'manual' | 'document';
+type Tab = 'manual' | 'document' | 'website';
 
 interface AddKnowledgeBaseModalProps {
   isOpen: boolean;
@@ -153,6 +154,15 @@ export default function AddKnowledgeBaseModal({
     }
   };
 
+  const handleCrawlStarted = (jobId: string) => {
+    toast.success(t('website_crawl.started'));
+    if (onUploadStart) {
+      onUploadStart(jobId);
+    }
+    handleReset();
+    onClose();
+  };
+
   const handleReset = () => {
     setName('');
     setContent('');
@@ -176,7 +186,7 @@ export default function AddKnowledgeBaseModal({
       onClose={handleClose}
       title={t('knowledge_base.add_title')}
       subtitle={simplified ? t('knowledge_base.add_subtitle_simplified', 'Type or paste your business info') : t('knowledge_base.add_subtitle')}
-      maxWidth="lg"
+      maxWidth={activeTab === 'website' ? 'xl' : 'lg'}
       isLoading={isLoading}
       closable={!isLoading}
     >
@@ -203,6 +213,16 @@ export default function AddKnowledgeBaseModal({
               {t('knowledge_base.tab_document')}
             </div>
           </button>
+          <button
+            type="button"
+            onClick={() => setActiveTab('website')}
+            className={getTabClassName(activeTab === 'website')}
+          >
+            <div className="flex items-center gap-2">
+              <Globe className="w-4 h-4" />
+              {t('knowledge_base.tab_website')}
+            </div>
+          </button>
         </div>
       )}
 
@@ -260,6 +280,11 @@ export default function AddKnowledgeBaseModal({
         </form>
       )}
 
+      {/* Website Crawl Tab — hidden in simplified mode */}
+      {!simplified && activeTab === 'website' && (
+        <WebsiteCrawlForm agentId={agentId} onStarted={handleCrawlStarted} onCancel={handleClose} />
+      )}
+
       {/* Document Upload Tab — hidden in simplified mode */}
       {!simplified && activeTab === 'document' && (
         <div className="space-y-4">
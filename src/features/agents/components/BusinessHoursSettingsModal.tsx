@@ -0,0 +1,370 @@
+import { useState, useEffect, useMemo } from 'react';
+import { useMutation, useQueryClient } from '@tanstack/react-query';
+import { useTranslation } from 'react-i18next';
+import { toast } from 'sonner';
+import { Plus, Trash2, X } from 'lucide-react';
+import { BaseModal } from '@/components/ui/BaseModal';
+import { Button } from '@/components/ui/Button';
+import { Switch } from '@/components/ui/Switch';
+import { getUserTimezone } from '@/lib/timeUtils';
+import { agentService } from '../services/agentService';
+import { queryKeys } from '@/lib/queryKeys';
+import { createDefaultBusinessHours, orderWeek, validateBusinessHours } from '../utils/businessHours';
+import type { Agent } from '../types/agent.types';
+import type { BusinessHours, BusinessHoursInterval, Weekday } from '../types/businessHours.types';
+
+interface BusinessHoursSettingsModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  agent: Agent;
+}
+
+const MAX_AWAY_MESSAGE_LENGTH = 500;
+const DEFAULT_INTERVAL: BusinessHoursInterval = { start: '09:00', end: '17:00' };
+
+const INPUT_CLASS =
+  'h-9 px-2 text-sm border border-neutral-300 rounded-md bg-white focus:outline-none focus:ring-1 focus:ring-brand-mojeeb focus:border-brand-mojeeb disabled:opacity-50';
+
+function getTimezones(current: string): string[] {
+  const zones = Intl.supportedValuesOf?.('timeZone') ?? [];
+  return zones.includes(current) ? zones : [current, ...zones];
+}
+
+export default function BusinessHoursSettingsModal({
+  isOpen,
+  onClose,
+  agent,
+}: BusinessHoursSettingsModalProps) {
+  const { t, i18n } = useTranslation();
+  const queryClient = useQueryClient();
+
+  const initial = useMemo(
+    () => agent.businessHours ?? createDefaultBusinessHours(getUserTimezone()),
+    [agent.businessHours]
+  );
+  const [hours, setHours] = useState<BusinessHours>(initial);
+
+  // Re-sync when modal opens or the underlying agent value changes
+  useEffect(() => {
+    if (isOpen) setHours(initial);
+  }, [isOpen, initial]);
+
+  const timezones = useMemo(() => getTimezones(hours.timezone), [hours.timezone]);
+  const weekdayFormatter = useMemo(
+    () => new Intl.DateTimeFormat(i18n.language, { weekday: 'long', timeZone: 'UTC' }),
+    [i18n.language]
+  );
+  // 2026-03-01 is a Sunday — offset by weekday index to get each day's name
+  const weekdayName = (day: Weekday) => weekdayFormatter.format(new Date(Date.UTC(2026, 2, 1 + day)));
+  const firstDay: Weekday = i18n.language.startsWith('ar') ? 0 : 1;
+
+  const validationError = validateBusinessHours(hours);
+  const hasChanges = JSON.stringify(hours) !== JSON.stringify(initial) || !agent.businessHours;
+
+  const update = (patch: Partial<BusinessHours>) => setHours((prev) => ({ ...prev, ...patch }));
+
+  const updateDay = (day: Weekday, intervals: BusinessHoursInterval[]) =>
+    setHours((prev) => ({
+      ...prev,
+      weeklySchedule: prev.weeklySchedule.map((d) => (d.day === day ? { ...d, intervals } : d)),
+    }));
+
+  const updateException = (index: number, patch: Partial<BusinessHours['exceptions'][number]>) =>
+    setHours((prev) => ({
+      ...prev,
+      exceptions: prev.exceptions.map((e, i) => (i === index ? { ...e, ...patch } : e)),
+    }));
+
+  const addException = () =>
+    setHours((prev) => ({
+      ...prev,
+      exceptions: [...prev.exceptions, { date: new Date().toISOString().slice(0, 10), name: '', intervals: [] }],
+    }));
+
+  const removeException = (index: number) =>
+    setHours((prev) => ({ ...prev, exceptions: prev.exceptions.filter((_, i) => i !== index) }));
+
+  const saveMutation = useMutation({
+    mutationFn: () =>
+      agentService.updateAgent(agent.id, {
+        businessHours: {
+          ...hours,
+          exceptions: [...hours.exceptions].sort((a, b) => a.date.localeCompare(b.date)),
+        },
+      }),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: queryKeys.agent(agent.id) });
+      queryClient.invalidateQueries({ queryKey: queryKeys.agents() });
+      toast.success(t('business_hours.saved'));
+      onClose();
+    },
+    onError: () => {
+      toast.error(t('business_hours.save_failed'));
+    },
+  });
+
+  const isBusy = saveMutation.isPending;
+
+  return (
+    <BaseModal
+      isOpen={isOpen}
+      onClose={onClose}
+      title={t('business_hours.title')}
+      subtitle={t('business_hours.subtitle')}
+      maxWidth="lg"
+      isLoading={isBusy}
+      closable={!isBusy}
+    >
+      <div className="space-y-6">
+        {/* Master Toggle */}
+        <div className="flex items-center justify-between gap-4">
+          <div>
+            <p className="text-sm font-medium text-neutral-900">{t('business_hours.enable_label')}</p>
+            <p className="text-xs text-neutral-500 mt-0.5">{t('business_hours.enable_description')}</p>
+          </div>
+          <Switch checked={hours.enabled} onChange={(enabled) => update({ enabled })} />
+        </div>
+
+        {hours.enabled && (
+          <>
+            {/* Timezone */}
+            <div>
+              <label className="block text-sm font-medium text-neutral-700 mb-2">
+                {t('business_hours.timezone_label')}
+              </label>
+              <select
+                value={hours.timezone}
+                onChange={(e) => update({ timezone: e.target.value })}
+                disabled={isBusy}
+                className={`${INPUT_CLASS} w-full`}
+                dir="ltr"
+              >
+                {timezones.map((zone) => (
+                  <option key={zone} value={zone}>
+                    {zone}
+                  </option>
+                ))}
+              </select>
+            </div>
+
+            {/* Weekly schedule */}
+            <div>
+              <label className="block text-sm font-medium text-neutral-700 mb-2">
+                {t('business_hours.weekly_label')}
+              </label>
+              <div className="space-y-2">
+                {orderWeek(hours.weeklySchedule, firstDay).map(({ day, intervals }) => (
+                  <div key={day} className="flex items-start gap-3">
+                    <div className="flex items-center gap-2 w-32 h-9 flex-shrink-0">
+                      <Switch
+                        size="sm"
+                        checked={intervals.length > 0}
+                        onChange={(open) => updateDay(day, open ? [DEFAULT_INTERVAL] : [])}
+                      />
+                      <span className="text-sm text-neutral-900">{weekdayName(day)}</span>
+                    </div>
+                    {intervals.length === 0 ? (
+                      <span className="h-9 flex items-center text-sm text-neutral-400">{t('business_hours.closed')}</span>
+                    ) : (
+                      <IntervalList
+                        intervals={intervals}
+                        onChange={(next) => updateDay(day, next)}
+                        disabled={isBusy}
+                      />
+                    )}
+                  </div>
+                ))}
+              </div>
+            </div>
+
+            {/* Holiday / special-hours exceptions */}
+            <div>
+              <div className="flex items-center justify-between mb-2">
+                <label className="text-sm font-medium text-neutral-700">{t('business_hours.exceptions_label')}</label>
+                <button
+                  type="button"
+                  onClick={addException}
+                  disabled={isBusy}
+                  className="flex items-center gap-1 text-xs font-medium text-brand-mojeeb hover:underline disabled:opacity-50"
+                >
+                  <Plus className="w-3.5 h-3.5" />
+                  {t('business_hours.add_exception')}
+                </button>
+              </div>
+              {hours.exceptions.length === 0 ? (
+                <p className="text-xs text-neutral-500">{t('business_hours.no_exceptions')}</p>
+              ) : (
+                <div className="space-y-3">
+                  {hours.exceptions.map((exception, index) => (
+                    <div key={index} className="p-3 rounded-lg border border-neutral-200 space-y-2">
+                      <div className="flex items-center gap-2">
+                        <input
+                          type="date"
+                          value={exception.date}
+                          onChange={(e) => updateException(index, { date: e.target.value })}
+                          disabled={isBusy}
+                          className={INPUT_CLASS}
+                        />
+                        <input
+                          type="text"
+                          value={exception.name}
+                          onChange={(e) => updateException(index, { name: e.target.value })}
+                          placeholder={t('business_hours.exception_name_placeholder')}
+                          disabled={isBusy}
+                          className={`${INPUT_CLASS} flex-1 min-w-0`}
+                        />
+                        <button
+                          type="button"
+                          onClick={() => removeException(index)}
+                          disabled={isBusy}
+                          className="p-2 rounded-md text-neutral-400 hover:text-red-600 hover:bg-neutral-100"
+                          aria-label={t('business_hours.remove_exception')}
+                        >
+                          <Trash2 className="w-4 h-4" />
+                        </button>
+                      </div>
+                      <div className="flex items-start gap-3">
+                        <label className="flex items-center gap-2 h-9 flex-shrink-0 text-sm text-neutral-700">
+                          <Switch
+                            size="sm"
+                            checked={exception.intervals.length > 0}
+                            onChange={(open) => updateException(index, { intervals: open ? [DEFAULT_INTERVAL] : [] })}
+                          />
+                          {exception.intervals.length > 0 ? t('business_hours.special_hours') : t('business_hours.closed_all_day')}
+                        </label>
+                        {exception.intervals.length > 0 && (
+                          <IntervalList
+                            intervals={exception.intervals}
+                            onChange={(next) => updateException(index, { intervals: next })}
+                            disabled={isBusy}
+                          />
+                        )}
+                      </div>
+                    </div>
+                  ))}
+                </div>
+              )}
+            </div>
+
+            {/* Out-of-hours behavior */}
+            <div>
+              <label className="block text-sm font-medium text-neutral-700 mb-1">
+                {t('business_hours.away_message_label')}
+              </label>
+              <p className="text-xs text-neutral-500 mb-2">{t('business_hours.away_message_hint')}</p>
+              <textarea
+                value={hours.awayMessage ?? ''}
+                onChange={(e) => update({ awayMessage: e.target.value })}
+                maxLength={MAX_AWAY_MESSAGE_LENGTH}
+                rows={3}
+                disabled={isBusy}
+                placeholder={t('business_hours.away_message_placeholder')}
+                className="w-full px-3 py-2 text-sm border border-neutral-300 rounded-md resize-none focus:outline-none focus:ring-1 focus:ring-brand-mojeeb focus:border-brand-mojeeb"
+              />
+            </div>
+
+            <div className="flex items-center justify-between gap-4">
+              <div>
+                <p className="text-sm font-medium text-neutral-900">{t('business_hours.follow_ups_label')}</p>
+                <p className="text-xs text-neutral-500 mt-0.5">{t('business_hours.follow_ups_description')}</p>
+              </div>
+              <Switch
+                checked={hours.followUpsDuringHoursOnly}
+                onChange={(followUpsDuringHoursOnly) => update({ followUpsDuringHoursOnly })}
+              />
+            </div>
+
+            {validationError && (
+              <p className="text-xs text-red-600">{t(`business_hours.errors.${validationError}`)}</p>
+            )}
+          </>
+        )}
+
+        {/* Save Button */}
+        <div className="flex justify-end pt-2 border-t border-neutral-200">
+          <Button
+            variant="primary"
+            onClick={() => saveMutation.mutate()}
+            isLoading={saveMutation.isPending}
+            disabled={isBusy || !hasChanges || (hours.enabled && !!validationError)}
+          >
+            {t('common.save_changes')}
+          </Button>
+        </div>
+      </div>
+    </BaseModal>
+  );
+}
+
+// Interval List Sub-Component
+
+interface IntervalListProps {
+  intervals: BusinessHoursInterval[];
+  onChange: (intervals: BusinessHoursInterval[]) => void;
+  disabled: boolean;
+}
+
+function IntervalList({ intervals, onChange, disabled }: IntervalListProps) {
+  const { t } = useTranslation();
+
+  const updateInterval = (index: number, patch: Partial<BusinessHoursInterval>) =>
+    onChange(intervals.map((interval, i) => (i === index ? { ...interval, ...patch } : interval)));
+
+  const addInterval = () => {
+    // Start the new shift where the last one ends, one hour long
+    const last = intervals[intervals.length - 1];
+    const [h, m] = last.end.split(':').map(Number);
+    const end = Math.min(h * 60 + m + 60, 23 * 60 + 59);
+    const pad = (n: number) => String(n).padStart(2, '0');
+    onChange([...intervals, { start: last.end, end: `${pad(Math.floor(end / 60))}:${pad(end % 60)}` }]);
+  };
+
+  return (
+    <div className="flex-1 space-y-1.5">
+      {intervals.map((interval, index) => (
+        <div key={index} className="flex items-center gap-1.5" dir="ltr">
+          <input
+            type="time"
+            value={interval.start}
+            onChange={(e) => updateInterval(index, { start: e.target.value })}
+            disabled={disabled}
+            className={INPUT_CLASS}
+            aria-label={t('business_hours.opens')}
+          />
+          <span className="text-neutral-400">–</span>
+          <input
+            type="time"
+            value={interval.end}
+            onChange={(e) => updateInterval(index, { end: e.target.value })}
+            disabled={disabled}
+            className={INPUT_CLASS}
+            aria-label={t('business_hours.closes')}
+          />
+          {intervals.length > 1 ? (
+            <button
+              type="button"
+              onClick={() => onChange(intervals.filter((_, i) => i !== index))}
+              disabled={disabled}
+              className="p-1.5 rounded-md text-neutral-400 hover:text-red-600 hover:bg-neutral-100"
+              aria-label={t('business_hours.remove_interval')}
+            >
+              <X className="w-3.5 h-3.5" />
+            </button>
+          ) : null}
+          {index === intervals.length - 1 && (
+            <button
+              type="button"
+              onClick={addInterval}
+              disabled={disabled}
+              className="p-1.5 rounded-md text-neutral-500 hover:text-brand-mojeeb hover:bg-neutral-100"
+              aria-label={t('business_hours.add_interval')}
+              title={t('business_hours.add_interval')}
+            >
+              <Plus className="w-3.5 h-3.5" />
+            </button>
+          )}
+        </div>
+      ))}
+    </div>
+  );
+}
@@ -6,7 +6,7 @@
 
 import { useEffect } from 'react';
 import { useTranslation } from 'react-i18next';
-import { FileText, Loader2, CheckCircle2, XCircle } from 'lucide-react';
+import { FileText, Globe, Loader2, CheckCircle2, XCircle } from 'lucide-react';
 import { useDocumentJob } from '../hooks/useDocumentJobs';
 
 interface DocumentUploadProgressCardProps {
@@ -84,7 +84,11 @@ export default function DocumentUploadProgressCard({
           <div className="flex-1 min-w-0">
             {/* File name */}
             <div className="flex items-center gap-2 mb-1">
-              <FileText className="w-4 h-4 text-neutral-600 flex-shrink-0" />
+              {job.source === 'crawl' ? (
+                <Globe className="w-4 h-4 text-neutral-600 flex-shrink-0" />
+              ) : (
+                <FileText className="w-4 h-4 text-neutral-600 flex-shrink-0" />
+              )}
               <span className="text-sm font-medium text-neutral-900 truncate">
                 {job.fileName}
               </span>
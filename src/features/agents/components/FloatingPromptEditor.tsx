@@ -8,13 +8,14 @@ import { useState, useEffect, useCallback } from 'react';
 import { useTranslation } from 'react-i18next';
 import { useMutation, useQueryClient } from '@tanstack/react-query';
 import { toast } from 'sonner';
-import { X, Minimize2, Maximize2, Check, Loader2 } from 'lucide-react';
+import { X, Minimize2, Maximize2, Check, Loader2, History } from 'lucide-react';
 import type { Agent } from '../types/agent.types';
 import { agentService } from '../services/agentService';
 import { queryKeys } from '@/lib/queryKeys';
 import { Textarea } from '@/components/ui/Textarea';
 import { logger } from '@/lib/logger';
 import { cn } from '@/lib/utils';
+import PromptVersionHistoryModal from './PromptVersionHistoryModal';
 
 interface FloatingPromptEditorProps {
   agent: Agent;
@@ -32,6 +33,7 @@ export default function FloatingPromptEditor({
   const [prompt, setPrompt] = useState(agent.personaPrompt || '');
   const [isModified, setIsModified] = useState(false);
   const [lastSaved, setLastSaved] = useState<Date | null>(null);
+  const [isHistoryOpen, setIsHistoryOpen] = useState(false);
 
   // Check if data has been modified
   useEffect(() => {
@@ -51,6 +53,7 @@ export default function FloatingPromptEditor({
     onSuccess: (updatedAgent) => {
       queryClient.setQueryData(queryKeys.agent(agent.id), updatedAgent);
       queryClient.invalidateQueries({ queryKey: queryKeys.agents() });
+      queryClient.invalidateQueries({ queryKey: queryKeys.promptVersions(agent.id) });
       setIsModified(false);
       setLastSaved(new Date());
       toast.success(t('floating_prompt_editor.save_success'));
@@ -78,13 +81,13 @@ export default function FloatingPromptEditor({
   // ESC key to close
   useEffect(() => {
     const handleEsc = (e: KeyboardEvent) => {
-      if (e.key === 'Escape' && !isMinimized) {
+      if (e.key === 'Escape' && !isMinimized && !isHistoryOpen) {
         onClose();
       }
     };
     window.addEventListener('keydown', handleEsc);
     return () => window.removeEventListener('keydown', handleEsc);
-  }, [onClose, isMinimized]);
+  }, [onClose, isMinimized, isHistoryOpen]);
 
   const formatLastSaved = () => {
     if (!lastSaved) return null;
@@ -146,6 +149,13 @@ export default function FloatingPromptEditor({
 
           {/* Actions */}
           <div className="flex items-center gap-1">
+            <button
+              onClick={() => setIsHistoryOpen(true)}
+              className="p-1.5 hover:bg-neutral-200 rounded transition-colors"
+              title={t('prompt_versions.history_button')}
+            >
+              <History className="w-4 h-4 text-neutral-600" />
+            </button>
             <button
               onClick={() => setIsMinimized(true)}
               className="p-1.5 hover:bg-neutral-200 rounded transition-colors"
@@ -208,6 +218,17 @@ export default function FloatingPromptEditor({
           </div>
         </div>
       </div>
+
+      <PromptVersionHistoryModal
+        agentId={agent.id}
+        isOpen={isHistoryOpen}
+        onClose={() => setIsHistoryOpen(false)}
+        onRestored={(restoredAgent) => {
+          // Otherwise the debounced auto-save would write the old draft back over the restore
+          setName(restoredAgent.name);
+          setPrompt(restoredAgent.personaPrompt || '');
+        }}
+      />
     </div>
   );
 }
@@ -290,6 +290,13 @@ export default function FollowUpSettingsModal({
               </div>
             </div>
 
+            {/* Business hours gate — configured in the Business Hours modal */}
+            {agent.businessHours?.enabled && agent.businessHours.followUpsDuringHoursOnly && (
+              <p className="text-xs text-neutral-500 bg-neutral-50 rounded-lg px-3 py-2">
+                {t('follow_up.business_hours_hint')}
+              </p>
+            )}
+
             {/* Steps Section */}
             <div>
               <div className="flex items-center justify-between mb-3">
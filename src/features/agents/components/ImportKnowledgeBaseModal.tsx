@@ -0,0 +1,232 @@
+/**
+ * Import Knowledge Base Modal
+ * Reads a CSV / JSON / zipped Markdown bundle (the knowledge export formats),
+ * previews every entry with its duplicate status against the agent's existing
+ * knowledge, and imports it with the chosen merge strategy.
+ */
+
+import { useMemo, useState } from 'react';
+import { useTranslation } from 'react-i18next';
+import { toast } from 'sonner';
+import { BaseModal } from '@/components/ui/BaseModal';
+import { Button } from '@/components/ui/Button';
+import { cn } from '@/lib/utils';
+import { KNOWLEDGE_IMPORT_EXTENSIONS, MAX_FILE_SIZE_BYTES } from '../constants/fileValidation';
+import { useApplyKnowledgeImport, useParseKnowledgeImport } from '../hooks/useKnowledgeImport';
+import { buildImportPlan, IMPORT_STRATEGIES, summarizeImportPlan } from '../utils/knowledgeImport';
+import type { KnowledgeBase } from '../types/agent.types';
+import type {
+  KnowledgeImportAction,
+  KnowledgeImportEntry,
+  KnowledgeImportStrategy,
+} from '../types/knowledgeTransfer.types';
+
+interface ImportKnowledgeBaseModalProps {
+  agentId: string;
+  existing: KnowledgeBase[];
+  isOpen: boolean;
+  onClose: () => void;
+}
+
+const ACTION_CLASSES: Record<KnowledgeImportAction, string> = {
+  create: 'bg-green-50 text-green-700',
+  update: 'bg-amber-50 text-amber-700',
+  skip: 'bg-neutral-100 text-neutral-500',
+};
+
+export default function ImportKnowledgeBaseModal({ agentId, existing, isOpen, onClose }: ImportKnowledgeBaseModalProps) {
+  const { t } = useTranslation();
+  const parseMutation = useParseKnowledgeImport(agentId);
+  const applyMutation = useApplyKnowledgeImport(agentId);
+  const [fileName, setFileName] = useState<string | null>(null);
+  const [entries, setEntries] = useState<KnowledgeImportEntry[] | null>(null);
+  const [strategy, setStrategy] = useState<KnowledgeImportStrategy>('skip');
+
+  const plan = useMemo(
+    () => (entries ? buildImportPlan(entries, existing, strategy) : []),
+    [entries, existing, strategy]
+  );
+  const summary = summarizeImportPlan(plan);
+  const isBusy = parseMutation.isPending || applyMutation.isPending;
+
+  const handleClose = () => {
+    setFileName(null);
+    setEntries(null);
+    setStrategy('skip');
+    onClose();
+  };
+
+  const handleFileSelect = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+
+    const extension = file.name.slice(file.name.lastIndexOf('.')).toLowerCase();
+    if (!(KNOWLEDGE_IMPORT_EXTENSIONS as readonly string[]).includes(extension)) {
+      toast.error(t('knowledge_transfer.invalid_file_type'));
+      return;
+    }
+    if (file.size > MAX_FILE_SIZE_BYTES) {
+      toast.error(t('knowledge_transfer.file_too_large'));
+      return;
+    }
+
+    setFileName(file.name);
+    parseMutation.mutate(file, {
+      onSuccess: (parsed) => setEntries(parsed),
+    });
+  };
+
+  const handleImport = () => {
+    applyMutation.mutate(plan, {
+      onSuccess: (result) => {
+        const message = t('knowledge_transfer.import_done', {
+          created: result.created,
+          updated: result.updated,
+          skipped: result.skipped,
+        });
+        if (result.failed > 0) {
+          toast.warning(`${message} ${t('knowledge_transfer.import_failed_count', { count: result.failed })}`);
+        } else {
+          toast.success(message);
+        }
+        handleClose();
+      },
+    });
+  };
+
+  return (
+    <BaseModal
+      isOpen={isOpen}
+      onClose={handleClose}
+      title={t('knowledge_transfer.import_title')}
+      subtitle={t('knowledge_transfer.import_subtitle')}
+      maxWidth="2xl"
+      isLoading={applyMutation.isPending}
+      closable={!applyMutation.isPending}
+    >
+      <div className="space-y-5">
+        {/* File */}
+        <div>
+          <label className="block text-sm font-medium text-neutral-900 mb-2">
+            {t('knowledge_transfer.select_file')}
+          </label>
+          <input
+            type="file"
+            accept={KNOWLEDGE_IMPORT_EXTENSIONS.join(',')}
+            onChange={handleFileSelect}
+            disabled={isBusy}
+            className="block w-full text-sm text-neutral-600
+              file:mr-4 file:py-2 file:px-4
+              file:rounded-lg file:border file:border-neutral-300
+              file:text-sm file:font-medium
+              file:bg-white file:text-neutral-700
+              hover:file:bg-neutral-50
+              disabled:opacity-50 disabled:cursor-not-allowed"
+          />
+          <p className="mt-1 text-xs text-neutral-500">{t('knowledge_transfer.file_hint')}</p>
+        </div>
+
+        {parseMutation.isPending && <div className="h-40 bg-neutral-50 rounded-lg animate-pulse" />}
+
+        {entries && !parseMutation.isPending && (
+          entries.length === 0 ? (
+            <p className="py-8 text-center text-sm text-neutral-500">
+              {t('knowledge_transfer.no_entries', { name: fileName })}
+            </p>
+          ) : (
+            <>
+              {/* Merge strategy */}
+              <div className="space-y-2">
+                <span className="block text-sm font-medium text-neutral-700">
+                  {t('knowledge_transfer.strategy_label')}
+                </span>
+                <div className="grid grid-cols-1 sm:grid-cols-3 gap-2">
+                  {IMPORT_STRATEGIES.map((option) => (
+                    <label
+                      key={option}
+                      className={cn(
+                        'flex items-start p-3 border rounded-lg cursor-pointer transition-colors',
+                        strategy === option ? 'border-neutral-400 bg-neutral-50' : 'border-neutral-200 hover:bg-neutral-50'
+                      )}
+                    >
+                      <input
+                        type="radio"
+                        value={option}
+                        checked={strategy === option}
+                        onChange={() => setStrategy(option)}
+                        className="mt-0.5 ltr:mr-3 rtl:ml-3"
+                        disabled={isBusy}
+                      />
+                      <div>
+                        <div className="text-sm font-medium text-neutral-900">
+                          {t(`knowledge_transfer.strategy_${option}_title`)}
+                        </div>
+                        <div className="text-xs text-neutral-600">
+                          {t(`knowledge_transfer.strategy_${option}_description`)}
+                        </div>
+                      </div>
+                    </label>
+                  ))}
+                </div>
+              </div>
+
+              {/* Preview */}
+              <div className="space-y-2">
+                <p className="text-sm text-neutral-700">
+                  {t('knowledge_transfer.preview_summary', {
+                    create: summary.create,
+                    update: summary.update,
+                    skip: summary.skip,
+                  })}
+                </p>
+                <ul className="max-h-[40vh] overflow-y-auto divide-y divide-neutral-100 rounded-lg border border-neutral-200">
+                  {plan.map((item, index) => (
+                    <li key={index} className="flex items-center gap-3 px-3 py-2 text-sm">
+                      <div className="flex-1 min-w-0">
+                        <p className="font-medium text-neutral-950 truncate" dir="auto">
+                          {item.name || t('knowledge_transfer.untitled')}
+                        </p>
+                        <p className="text-xs text-neutral-500 truncate" dir="auto">
+                          {item.entry.content.slice(0, 120)}
+                        </p>
+                      </div>
+                      {item.reason !== 'new' && (
+                        <span className="flex-shrink-0 text-xs text-neutral-500">
+                          {t(`knowledge_transfer.reason_${item.reason}`)}
+                        </span>
+                      )}
+                      <span
+                        className={cn(
+                          'flex-shrink-0 px-1.5 py-0.5 rounded text-[10px] font-medium',
+                          ACTION_CLASSES[item.action]
+                        )}
+                      >
+                        {t(`knowledge_transfer.action_${item.action}`)}
+                      </span>
+                    </li>
+                  ))}
+                </ul>
+              </div>
+            </>
+          )
+        )}
+
+        <div className="flex justify-end gap-3 pt-2">
+          <Button variant="secondary" size="sm" onClick={handleClose} disabled={applyMutation.isPending}>
+            {t('common.cancel')}
+          </Button>
+          <Button
+            variant="primary"
+            size="sm"
+            onClick={handleImport}
+            disabled={summary.create + summary.update === 0 || parseMutation.isPending}
+            isLoading={applyMutation.isPending}
+          >
+            {t('knowledge_transfer.import_button', { count: summary.create + summary.update })}
+          </Button>
+        </div>
+      </div>
+    </BaseModal>
+  );
+}
@@ -8,7 +8,7 @@ import { useState, useEffect, useMemo } from 'react';
 import { useMutation } from '@tanstack/react-query';
 import { useTranslation } from 'react-i18next';
 import { toast } from 'sonner';
-import { ChevronRight, Edit2, Trash2, Check, X, FileText } from 'lucide-react';
+import { ChevronRight, Edit2, Trash2, Check, X, FileText, History, CheckCircle2 } from 'lucide-react';
 import type { KnowledgeBase } from '../types/agent.types';
 import { agentService } from '../services/agentService';
 import { useConfirm } from '@/hooks/useConfirm';
@@ -16,9 +16,12 @@ import { isToastHandled } from '@/lib/errors';
 import { logger } from '@/lib/logger';
 import { RichTextEditor } from '@/components/ui/RichTextEditor';
 import { Button } from '@/components/ui/Button';
-import { cn } from '@/lib/utils';
+import { cn, formatRelativeTime } from '@/lib/utils';
 import { plainTextToHtml } from '@/lib/textUtils';
 import { highlightPlainText, highlightHtml } from '../utils/highlightSearch';
+import { getReviewStatus, REVIEW_INTERVALS } from '../utils/knowledgeReview';
+import { useMarkKnowledgeBaseReviewed, useUpdateReviewInterval } from '../hooks/useKnowledgeReview';
+import KnowledgeBaseRevisionsModal from './KnowledgeBaseRevisionsModal';
 
 interface KnowledgeBaseItemProps {
   knowledgeBase: KnowledgeBase;
@@ -57,6 +60,10 @@ export default function KnowledgeBaseItem({
   );
   const [isModified, setIsModified] = useState(false);
   const [showSuccessMessage, setShowSuccessMessage] = useState(false);
+  const [isHistoryOpen, setIsHistoryOpen] = useState(false);
+  const reviewMutation = useMarkKnowledgeBaseReviewed(agentId);
+  const intervalMutation = useUpdateReviewInterval(agentId);
+  const isReviewDue = getReviewStatus(knowledgeBase) === 'due';
 
   // Check if KB is document-based
   const isDocumentBased = knowledgeBase.source_type === 'document';
@@ -147,6 +154,12 @@ export default function KnowledgeBaseItem({
   return (
     <>
       {ConfirmDialogComponent}
+      <KnowledgeBaseRevisionsModal
+        knowledgeBase={knowledgeBase}
+        agentId={agentId}
+        isOpen={isHistoryOpen}
+        onClose={() => setIsHistoryOpen(false)}
+      />
 
       <div className="bg-white rounded-lg border border-neutral-200 hover:border-neutral-300 transition-all duration-200 group">
         {/* Accordion Header */}
@@ -178,6 +191,12 @@ export default function KnowledgeBaseItem({
               : toTitleCase(currentName)}
           </h3>
 
+          {isReviewDue && (
+            <span className="flex-shrink-0 px-1.5 py-0.5 rounded bg-amber-50 text-amber-700 text-[10px] font-medium">
+              {t('knowledge_review.review_due')}
+            </span>
+          )}
+
           {/* Hover Actions (visible on hover or when expanded) */}
           <div className={cn(
             'flex items-center gap-1 transition-opacity',
@@ -200,6 +219,17 @@ export default function KnowledgeBaseItem({
                     <Edit2 className="w-5 h-5 sm:w-4 sm:h-4" />
                   </button>
                 )}
+                <button
+                  onClick={(e) => {
+                    e.stopPropagation();
+                    setIsHistoryOpen(true);
+                  }}
+                  className="p-2 sm:p-1.5 rounded transition-colors min-w-[44px] min-h-[44px] sm:min-w-0 sm:min-h-0 flex items-center justify-center hover:bg-neutral-100 text-neutral-600 hover:text-neutral-950"
+                  title={t('knowledge_review.history_title')}
+                  aria-label={t('knowledge_review.history_title')}
+                >
+                  <History className="w-5 h-5 sm:w-4 sm:h-4" />
+                </button>
                 <button
                   onClick={(e) => {
                     e.stopPropagation();
@@ -302,6 +332,45 @@ export default function KnowledgeBaseItem({
                     {t('knowledge_base.saved_successfully')}
                   </div>
                 )}
+
+                {/* Review */}
+                <div className="flex flex-wrap items-center gap-2 pt-3 border-t border-neutral-100 text-xs text-neutral-500">
+                  <span className={cn(isReviewDue && 'text-amber-700')}>
+                    {knowledgeBase.lastReviewedAt
+                      ? t('knowledge_review.last_reviewed', { time: formatRelativeTime(knowledgeBase.lastReviewedAt) })
+                      : t('knowledge_review.never_reviewed')}
+                  </span>
+                  <label className="ms-auto flex items-center gap-1.5">
+                    {t('knowledge_review.remind_every')}
+                    <select
+                      value={knowledgeBase.reviewIntervalDays ?? ''}
+                      onChange={(e) =>
+                        intervalMutation.mutate({
+                          knowledgeBaseId: knowledgeBase.id,
+                          reviewIntervalDays: e.target.value ? Number(e.target.value) : null,
+                        })
+                      }
+                      disabled={intervalMutation.isPending}
+                      className="px-1.5 py-1 text-xs border border-neutral-200 rounded-md bg-white focus:outline-none focus:ring-1 focus:ring-brand-mojeeb"
+                    >
+                      <option value="">{t('knowledge_review.reminder_off')}</option>
+                      {REVIEW_INTERVALS.map((days) => (
+                        <option key={days} value={days}>
+                          {t('knowledge_review.days', { count: days })}
+                        </option>
+                      ))}
+                    </select>
+                  </label>
+                  <Button
+                    variant="secondary"
+                    size="sm"
+                    onClick={() => reviewMutation.mutate(knowledgeBase.id)}
+                    isLoading={reviewMutation.isPending}
+                  >
+                    <CheckCircle2 className="w-4 h-4 me-1.5" />
+                    {t('knowledge_review.mark_reviewed')}
+                  </Button>
+                </div>
               </div>
             )}
           </div>
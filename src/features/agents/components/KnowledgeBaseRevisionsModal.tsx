@@ -0,0 +1,165 @@
+/**
+ * Knowledge Base Revisions Modal
+ * Every edit, restore or re-crawl of an entry is kept as a revision. Pick an
+ * older revision to diff it against the current content and restore it
+ * (restoring adds a new revision).
+ */
+
+import { useEffect, useMemo, useState } from 'react';
+import { useTranslation } from 'react-i18next';
+import { History, RotateCcw } from 'lucide-react';
+import { BaseModal } from '@/components/ui/BaseModal';
+import { useConfirm } from '@/hooks/useConfirm';
+import { cn, formatRelativeTime } from '@/lib/utils';
+import { formatFullDateTime } from '@/features/conversations/utils/timeFormatters';
+import { useKnowledgeBaseRevisions, useRestoreKnowledgeBaseRevision } from '../hooks/useKnowledgeReview';
+import { buildSideBySideDiff, countDiffChanges } from '../utils/promptDiff';
+import SideBySideDiff from './SideBySideDiff';
+import type { KnowledgeBase } from '../types/agent.types';
+import type { KnowledgeBaseRevision } from '../types/knowledgeReview.types';
+
+interface KnowledgeBaseRevisionsModalProps {
+  knowledgeBase: KnowledgeBase;
+  agentId: string;
+  isOpen: boolean;
+  onClose: () => void;
+}
+
+export default function KnowledgeBaseRevisionsModal({
+  knowledgeBase,
+  agentId,
+  isOpen,
+  onClose,
+}: KnowledgeBaseRevisionsModalProps) {
+  const { t } = useTranslation();
+  const { confirm, ConfirmDialogComponent } = useConfirm();
+  const { data, isLoading } = useKnowledgeBaseRevisions(isOpen ? knowledgeBase.id : undefined, agentId);
+  const revisions = useMemo(() => data ?? [], [data]);
+  const restoreMutation = useRestoreKnowledgeBaseRevision(agentId, knowledgeBase.id);
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+
+  // Default to the revision before the current one
+  useEffect(() => {
+    setSelectedId(revisions[1]?.id ?? revisions[0]?.id ?? null);
+  }, [revisions]);
+
+  const selected = revisions.find((r) => r.id === selectedId) ?? null;
+  const currentId = revisions[0]?.id;
+
+  const rows = useMemo(
+    () => (selected ? buildSideBySideDiff(selected.content ?? '', knowledgeBase.content ?? '') : []),
+    [selected, knowledgeBase.content]
+  );
+  const changes = countDiffChanges(rows);
+
+  const handleRestore = async (revision: KnowledgeBaseRevision) => {
+    const confirmed = await confirm({
+      title: t('knowledge_review.restore_confirm_title', { revision: revision.revisionNumber }),
+      message: t('knowledge_review.restore_confirm_message'),
+      confirmText: t('knowledge_review.restore'),
+      cancelText: t('common.cancel'),
+      variant: 'info',
+    });
+    if (confirmed) {
+      restoreMutation.mutate(revision.id);
+    }
+  };
+
+  return (
+    <BaseModal
+      isOpen={isOpen}
+      onClose={onClose}
+      title={t('knowledge_review.history_title')}
+      subtitle={knowledgeBase.name}
+      maxWidth="2xl"
+      className="max-w-6xl"
+      isLoading={restoreMutation.isPending}
+    >
+      {ConfirmDialogComponent}
+
+      {isLoading ? (
+        <div className="h-64 bg-neutral-50 rounded-lg animate-pulse" />
+      ) : revisions.length === 0 ? (
+        <div className="py-12 text-center text-sm text-neutral-500">
+          <History className="w-8 h-8 mx-auto mb-2 text-neutral-300" />
+          {t('knowledge_review.history_empty')}
+        </div>
+      ) : (
+        <div className="flex flex-col lg:flex-row gap-4">
+          {/* Revision list */}
+          <ul className="lg:w-64 flex-shrink-0 space-y-1 lg:max-h-[60vh] overflow-y-auto">
+            {revisions.map((revision) => (
+              <li key={revision.id}>
+                <button
+                  type="button"
+                  onClick={() => setSelectedId(revision.id)}
+                  aria-pressed={revision.id === selectedId}
+                  className={cn(
+                    'w-full text-start rounded-lg border px-3 py-2 text-sm transition-colors',
+                    revision.id === selectedId
+                      ? 'border-neutral-400 bg-neutral-50'
+                      : 'border-neutral-200 hover:bg-neutral-50'
+                  )}
+                >
+                  <div className="flex items-center gap-2">
+                    <span className="font-medium text-neutral-950">
+                      {t('knowledge_review.revision', { revision: revision.revisionNumber })}
+                    </span>
+                    {revision.id === currentId && (
+                      <span className="px-1.5 py-0.5 rounded bg-green-50 text-green-700 text-[10px] font-medium">
+                        {t('knowledge_review.current')}
+                      </span>
+                    )}
+                    <span
+                      className="ms-auto text-xs text-neutral-500"
+                      title={formatFullDateTime(revision.createdAt)}
+                    >
+                      {formatRelativeTime(revision.createdAt)}
+                    </span>
+                  </div>
+                  <p className="text-xs text-neutral-500 mt-0.5">
+                    {revision.authorName ?? t('knowledge_review.unknown_author')}
+                  </p>
+                  {revision.name !== knowledgeBase.name && (
+                    <p className="text-xs text-neutral-700 mt-1 truncate">{revision.name}</p>
+                  )}
+                </button>
+              </li>
+            ))}
+          </ul>
+
+          {/* Diff against the current content */}
+          <div className="flex-1 min-w-0 space-y-3">
+            {selected && (
+              <>
+                <div className="flex items-center gap-3">
+                  <span className="text-xs text-neutral-500">
+                    <span className="text-green-700">+{changes.added}</span>{' '}
+                    <span className="text-red-700">−{changes.removed}</span>
+                  </span>
+                  {selected.id !== currentId && (
+                    <button
+                      type="button"
+                      onClick={() => handleRestore(selected)}
+                      disabled={restoreMutation.isPending}
+                      className="ms-auto inline-flex items-center gap-1 px-2 py-1 rounded text-xs text-neutral-600 hover:bg-neutral-100 disabled:opacity-50"
+                    >
+                      <RotateCcw className="w-3 h-3" />
+                      {t('knowledge_review.restore')}
+                    </button>
+                  )}
+                </div>
+                <SideBySideDiff
+                  leftLabel={t('knowledge_review.revision', { revision: selected.revisionNumber })}
+                  rightLabel={t('knowledge_review.current')}
+                  rows={rows}
+                  emptyMessage={t('knowledge_review.no_changes')}
+                />
+              </>
+            )}
+          </div>
+        </div>
+      )}
+    </BaseModal>
+  );
+}
@@ -0,0 +1,194 @@
+/**
+ * Knowledge Health Modal
+ * Stale-content report across all of the agent's knowledge bases, opened from
+ * the Studio menu: entries due for review, not updated in N days, never cited
+ * in an answer, and duplicated or contradictory pairs of entries.
+ */
+
+import { useState } from 'react';
+import { useTranslation } from 'react-i18next';
+import { AlertTriangle, CheckCircle2, Copy, ShieldCheck } from 'lucide-react';
+import { BaseModal } from '@/components/ui/BaseModal';
+import { Button } from '@/components/ui/Button';
+import { cn, formatRelativeTime } from '@/lib/utils';
+import { formatFullDateTime } from '@/features/conversations/utils/timeFormatters';
+import { useKnowledgeHealth, useMarkKnowledgeBaseReviewed } from '../hooks/useKnowledgeReview';
+import { STALE_AFTER_OPTIONS } from '../utils/knowledgeReview';
+import type { Agent } from '../types/agent.types';
+import type { KnowledgeConflict, StaleKnowledgeEntry } from '../types/knowledgeReview.types';
+
+interface KnowledgeHealthModalProps {
+  agent: Agent;
+  isOpen: boolean;
+  onClose: () => void;
+}
+
+const ENTRY_SECTIONS = ['reviewDue', 'outdated', 'neverCited'] as const;
+
+const SECTION_TITLE_KEYS = {
+  reviewDue: 'knowledge_review.section_review_due',
+  outdated: 'knowledge_review.section_outdated',
+  neverCited: 'knowledge_review.section_never_cited',
+} as const;
+
+export default function KnowledgeHealthModal({ agent, isOpen, onClose }: KnowledgeHealthModalProps) {
+  const { t } = useTranslation();
+  const [staleAfterDays, setStaleAfterDays] = useState<number>(STALE_AFTER_OPTIONS[2]);
+  const { data: report, isLoading } = useKnowledgeHealth(isOpen ? agent.id : undefined, staleAfterDays);
+  const reviewMutation = useMarkKnowledgeBaseReviewed(agent.id);
+
+  const issueCount = report
+    ? report.reviewDue.length + report.outdated.length + report.neverCited.length + report.conflicts.length
+    : 0;
+
+  return (
+    <BaseModal
+      isOpen={isOpen}
+      onClose={onClose}
+      title={t('knowledge_review.health_title')}
+      subtitle={t('knowledge_review.health_subtitle')}
+      maxWidth="2xl"
+    >
+      <div className="space-y-5">
+        <label className="flex items-center gap-2 text-sm text-neutral-700">
+          {t('knowledge_review.stale_after')}
+          <select
+            value={staleAfterDays}
+            onChange={(e) => setStaleAfterDays(Number(e.target.value))}
+            className="px-2 py-1 text-sm border border-neutral-200 rounded-md bg-white focus:outline-none focus:ring-1 focus:ring-brand-mojeeb"
+          >
+            {STALE_AFTER_OPTIONS.map((days) => (
+              <option key={days} value={days}>
+                {t('knowledge_review.days', { count: days })}
+              </option>
+            ))}
+          </select>
+        </label>
+
+        {isLoading ? (
+          <div className="h-48 bg-neutral-50 rounded-lg animate-pulse" />
+        ) : !report ? null : issueCount === 0 ? (
+          <div className="py-12 text-center text-sm text-neutral-500">
+            <ShieldCheck className="w-8 h-8 mx-auto mb-2 text-green-500" />
+            {t('knowledge_review.health_clean')}
+          </div>
+        ) : (
+          <>
+            {ENTRY_SECTIONS.map(
+              (section) =>
+                report[section].length > 0 && (
+                  <section key={section} className="space-y-2">
+                    <h3 className="text-sm font-semibold text-neutral-950">
+                      {t(SECTION_TITLE_KEYS[section])}{' '}
+                      <span className="font-normal text-neutral-500">({report[section].length})</span>
+                    </h3>
+                    <ul className="divide-y divide-neutral-100 rounded-lg border border-neutral-200">
+                      {report[section].map((entry) => (
+                        <StaleEntryRow
+                          key={entry.knowledgeBaseId}
+                          entry={entry}
+                          isReviewing={reviewMutation.isPending && reviewMutation.variables === entry.knowledgeBaseId}
+                          onMarkReviewed={() => reviewMutation.mutate(entry.knowledgeBaseId)}
+                        />
+                      ))}
+                    </ul>
+                  </section>
+                )
+            )}
+
+            {report.conflicts.length > 0 && (
+              <section className="space-y-2">
+                <h3 className="text-sm font-semibold text-neutral-950">
+                  {t('knowledge_review.section_conflicts')}{' '}
+                  <span className="font-normal text-neutral-500">({report.conflicts.length})</span>
+                </h3>
+                <ul className="space-y-2">
+                  {report.conflicts.map((conflict) => (
+                    <ConflictCard
+                      key={`${conflict.entries[0].knowledgeBaseId}-${conflict.entries[1].knowledgeBaseId}`}
+                      conflict={conflict}
+                    />
+                  ))}
+                </ul>
+              </section>
+            )}
+
+            <p className="text-xs text-neutral-400">
+              {t('knowledge_review.generated_at', { time: formatRelativeTime(report.generatedAt) })}
+            </p>
+          </>
+        )}
+      </div>
+    </BaseModal>
+  );
+}
+
+// --- Helper Components ---
+
+interface StaleEntryRowProps {
+  entry: StaleKnowledgeEntry;
+  isReviewing: boolean;
+  onMarkReviewed: () => void;
+}
+
+function StaleEntryRow({ entry, isReviewing, onMarkReviewed }: StaleEntryRowProps) {
+  const { t } = useTranslation();
+  return (
+    <li className="flex items-center gap-3 px-3 py-2 text-sm">
+      <div className="flex-1 min-w-0">
+        <p className="font-medium text-neutral-950 truncate">{entry.name}</p>
+        <p className="text-xs text-neutral-500">
+          <span title={formatFullDateTime(entry.updatedAt)}>
+            {t('knowledge_review.updated', { time: formatRelativeTime(entry.updatedAt) })}
+          </span>
+          {' · '}
+          {entry.lastReviewedAt
+            ? t('knowledge_review.last_reviewed', { time: formatRelativeTime(entry.lastReviewedAt) })
+            : t('knowledge_review.never_reviewed')}
+          {' · '}
+          {t('knowledge_review.citations', { count: entry.citationCount })}
+        </p>
+      </div>
+      <Button variant="secondary" size="sm" onClick={onMarkReviewed} isLoading={isReviewing}>
+        <CheckCircle2 className="w-4 h-4 me-1.5" />
+        {t('knowledge_review.mark_reviewed')}
+      </Button>
+    </li>
+  );
+}
+
+function ConflictCard({ conflict }: { conflict: KnowledgeConflict }) {
+  const { t } = useTranslation();
+  const isContradiction = conflict.type === 'contradiction';
+  const Icon = isContradiction ? AlertTriangle : Copy;
+
+  return (
+    <li className="rounded-lg border border-neutral-200 p-3 space-y-2">
+      <div className="flex items-center gap-2 text-xs">
+        <span
+          className={cn(
+            'inline-flex items-center gap-1 px-1.5 py-0.5 rounded font-medium',
+            isContradiction ? 'bg-amber-50 text-amber-700' : 'bg-neutral-100 text-neutral-700'
+          )}
+        >
+          <Icon className="w-3 h-3" />
+          {isContradiction ? t('knowledge_review.contradiction') : t('knowledge_review.duplicate')}
+        </span>
+        <span className="text-neutral-500">
+          {t('knowledge_review.similarity', { percent: Math.round(conflict.similarity * 100) })}
+        </span>
+      </div>
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-2">
+        {conflict.entries.map((side) => (
+          <div key={side.knowledgeBaseId} className="rounded-md bg-neutral-50 px-3 py-2">
+            <p className="text-xs font-medium text-neutral-950 truncate">{side.name}</p>
+            <p className="text-xs text-neutral-600 mt-1 line-clamp-4" dir="auto">
+              {side.excerpt}
+            </p>
+          </div>
+        ))}
+      </div>
+      {conflict.explanation && <p className="text-xs text-neutral-700">{conflict.explanation}</p>}
+    </li>
+  );
+}
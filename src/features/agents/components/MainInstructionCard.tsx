@@ -9,12 +9,13 @@
 
 import { useState, useEffect } from 'react';
 import { useTranslation } from 'react-i18next';
-import { ChevronRight, Edit2, Trash2 } from 'lucide-react';
+import { ChevronRight, Edit2, History, Trash2 } from 'lucide-react';
 import { useQuery } from '@tanstack/react-query';
 import { useAgentContext } from '@/hooks/useAgentContext';
 import { agentService } from '../services/agentService';
 import { queryKeys } from '@/lib/queryKeys';
 import PromptEditor from './PromptEditor';
+import PromptVersionHistoryModal from './PromptVersionHistoryModal';
 import { cn } from '@/lib/utils';
 import { plainTextToHtml } from '@/lib/textUtils';
 import { highlightPlainText, highlightHtml } from '../utils/highlightSearch';
@@ -33,6 +34,7 @@ export default function MainInstructionCard({
   const { t } = useTranslation();
   const [isExpanded, setIsExpanded] = useState(false);
   const [isEditing, setIsEditing] = useState(false);
+  const [isHistoryOpen, setIsHistoryOpen] = useState(false);
 
   useEffect(() => {
     if (forceExpanded) setIsExpanded(true);
@@ -98,6 +100,17 @@ export default function MainInstructionCard({
           >
             <Edit2 className="w-5 h-5 sm:w-4 sm:h-4" />
           </button>
+          <button
+            onClick={(e) => {
+              e.stopPropagation();
+              setIsHistoryOpen(true);
+            }}
+            className="p-2 sm:p-1.5 hover:bg-neutral-100 rounded transition-colors text-neutral-600 hover:text-neutral-950 min-w-[44px] min-h-[44px] sm:min-w-0 sm:min-h-0 flex items-center justify-center"
+            title={t('prompt_versions.history_button')}
+            aria-label={t('prompt_versions.history_button')}
+          >
+            <History className="w-5 h-5 sm:w-4 sm:h-4" />
+          </button>
           <button
             disabled
             className="p-2 sm:p-1.5 rounded text-neutral-400 cursor-not-allowed min-w-[44px] min-h-[44px] sm:min-w-0 sm:min-h-0 flex items-center justify-center"
@@ -162,6 +175,12 @@ export default function MainInstructionCard({
           </div>
         </div>
       )}
+
+      <PromptVersionHistoryModal
+        agentId={agent.id}
+        isOpen={isHistoryOpen}
+        onClose={() => setIsHistoryOpen(false)}
+      />
     </div>
   );
 }
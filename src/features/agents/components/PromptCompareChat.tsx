@@ -0,0 +1,123 @@
+/**
+ * Prompt Compare Chat
+ * "Compare in test chat" mode of the version history: one test message is
+ * answered with both selected prompt versions so the replies sit side by side.
+ * Runs are one-shot and are not saved to any conversation.
+ */
+
+import { useState } from 'react';
+import { useTranslation } from 'react-i18next';
+import { Loader2, Send } from 'lucide-react';
+import { Button } from '@/components/ui/Button';
+import { useComparePromptVersions } from '../hooks/usePromptVersions';
+import type { PromptCompareResult, PromptVersion } from '../types/promptVersion.types';
+
+interface PromptCompareChatProps {
+  agentId: string;
+  base: PromptVersion;
+  target: PromptVersion;
+}
+
+const MAX_MESSAGE_LENGTH = 1000;
+
+export default function PromptCompareChat({ agentId, base, target }: PromptCompareChatProps) {
+  const { t } = useTranslation();
+  const compareMutation = useComparePromptVersions(agentId);
+  const [message, setMessage] = useState('');
+  const [sentMessage, setSentMessage] = useState<string | null>(null);
+
+  const trimmed = message.trim();
+  const results = compareMutation.data ?? [];
+
+  const handleSend = () => {
+    if (!trimmed || compareMutation.isPending) return;
+    setSentMessage(trimmed);
+    compareMutation.mutate({ message: trimmed, versionIds: [base.id, target.id] });
+  };
+
+  return (
+    <div className="space-y-3">
+      <form
+        className="flex items-end gap-2"
+        onSubmit={(e) => {
+          e.preventDefault();
+          handleSend();
+        }}
+      >
+        <textarea
+          value={message}
+          onChange={(e) => setMessage(e.target.value)}
+          onKeyDown={(e) => {
+            if (e.key === 'Enter' && !e.shiftKey) {
+              e.preventDefault();
+              handleSend();
+            }
+          }}
+          placeholder={t('prompt_versions.test_placeholder')}
+          maxLength={MAX_MESSAGE_LENGTH}
+          rows={2}
+          className="flex-1 px-3 py-2 text-sm border border-neutral-200 rounded-lg resize-none focus:outline-none focus:ring-2 focus:ring-black focus:border-transparent"
+        />
+        <Button type="submit" size="sm" disabled={!trimmed} isLoading={compareMutation.isPending}>
+          <Send className="w-4 h-4 me-1.5" />
+          {t('prompt_versions.test_send')}
+        </Button>
+      </form>
+
+      {sentMessage ? (
+        <>
+          <p className="text-xs text-neutral-500">
+            {t('prompt_versions.test_message')}: <span className="text-neutral-800">{sentMessage}</span>
+          </p>
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+            {[base, target].map((version) => (
+              <CompareColumn
+                key={version.id}
+                version={version}
+                result={results.find((r) => r.versionId === version.id)}
+                isPending={compareMutation.isPending}
+              />
+            ))}
+          </div>
+        </>
+      ) : (
+        <p className="py-8 text-center text-sm text-neutral-500">{t('prompt_versions.test_hint')}</p>
+      )}
+    </div>
+  );
+}
+
+// --- Helper Components ---
+
+interface CompareColumnProps {
+  version: PromptVersion;
+  result: PromptCompareResult | undefined;
+  isPending: boolean;
+}
+
+function CompareColumn({ version, result, isPending }: CompareColumnProps) {
+  const { t } = useTranslation();
+  return (
+    <div className="rounded-lg border border-neutral-200 overflow-hidden">
+      <div className="flex items-center justify-between px-3 py-1.5 bg-neutral-50 border-b border-neutral-200 text-xs">
+        <span className="font-medium text-neutral-700">
+          {t('prompt_versions.version', { version: version.versionNumber })}
+        </span>
+        {result?.latencyMs != null && (
+          <span className="text-neutral-500">{t('prompt_versions.latency', { ms: result.latencyMs })}</span>
+        )}
+      </div>
+      <div className="p-3 text-sm min-h-[6rem]" dir="auto">
+        {isPending ? (
+          <Loader2 className="w-4 h-4 animate-spin text-neutral-400" />
+        ) : result?.error ? (
+          <p className="text-red-600">{result.error}</p>
+        ) : result?.response ? (
+          <p className="text-neutral-800 whitespace-pre-wrap">{result.response}</p>
+        ) : (
+          <p className="text-neutral-400">{t('prompt_versions.test_no_response')}</p>
+        )}
+      </div>
+    </div>
+  );
+}
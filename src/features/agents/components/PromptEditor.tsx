@@ -2,13 +2,16 @@
  * Mojeeb Prompt Editor Component
  * Simplified interface for editing agent prompt
  * Manual save matching KB cards pattern
+ * Each saved prompt becomes a version; the optional change note is stored with it
+ * With the test gate on, a changed prompt must pass the agent's test suite first;
+ * an empty or unloadable suite blocks the save rather than letting it through untested
  */
 
 import { useState, useEffect } from 'react';
 import { useMutation, useQueryClient } from '@tanstack/react-query';
 import { toast } from 'sonner';
 import { useTranslation } from 'react-i18next';
-import { Check } from 'lucide-react';
+import { Check, History, XCircle } from 'lucide-react';
 import type { Agent } from '../types/agent.types';
 import { agentService } from '../services/agentService';
 import { queryKeys } from '@/lib/queryKeys';
@@ -17,6 +20,12 @@ import { Button } from '@/components/ui/Button';
 import { logger } from '@/lib/logger';
 import { cn } from '@/lib/utils';
 import { plainTextToHtml } from '@/lib/textUtils';
+import PromptVersionHistoryModal from './PromptVersionHistoryModal';
+import { useRunTestSuite, useTestCases } from '../hooks/useTestSuite';
+import { evaluateTestSuite } from '../utils/testSuite';
+
+/** Why the gate refused a save when no individual test failed */
+type GateNotice = 'incomplete' | 'no_tests' | 'load_failed';
 
 interface PromptEditorProps {
   agent: Agent;
@@ -31,6 +40,16 @@ export default function PromptEditor({ agent, onSave, onCancel }: PromptEditorPr
   const [editPrompt, setEditPrompt] = useState(plainTextToHtml(agent.personaPrompt || ''));
   const [isModified, setIsModified] = useState(false);
   const [showSuccessMessage, setShowSuccessMessage] = useState(false);
+  const [changeNote, setChangeNote] = useState('');
+  const [isHistoryOpen, setIsHistoryOpen] = useState(false);
+  const [failedTests, setFailedTests] = useState<string[]>([]);
+  const [gateNotice, setGateNotice] = useState<GateNotice | null>(null);
+  const {
+    data: testCases = [],
+    isLoading: isTestCasesLoading,
+    isError: isTestCasesError,
+  } = useTestCases(agent.testSuiteGateEnabled ? agent.id : undefined);
+  const runSuiteMutation = useRunTestSuite(agent.id);
 
   // Update form when agent changes (for agent switching)
   useEffect(() => {
@@ -54,13 +73,16 @@ export default function PromptEditor({ agent, onSave, onCancel }: PromptEditorPr
       return agentService.updateAgent(agent.id, {
         name: editName,
         personaPrompt: editPrompt,
+        promptChangeNote: changeNote.trim(),
       });
     },
     onSuccess: (updatedAgent) => {
       // Update cache
       queryClient.setQueryData(queryKeys.agent(agent.id), updatedAgent);
       queryClient.invalidateQueries({ queryKey: queryKeys.agents() });
+      queryClient.invalidateQueries({ queryKey: queryKeys.promptVersions(agent.id) });
       setIsModified(false);
+      setChangeNote('');
       setShowSuccessMessage(true);
 
       // Hide success message after 2 seconds
@@ -79,10 +101,39 @@ export default function PromptEditor({ agent, onSave, onCancel }: PromptEditorPr
     },
   });
 
-  const handleSave = () => {
-    if (isModified && !saveMutation.isPending) {
-      saveMutation.mutate();
+  const handleSave = async () => {
+    if (!isModified || saveMutation.isPending || runSuiteMutation.isPending || isTestCasesLoading) return;
+
+    const isPromptChanged = editPrompt !== plainTextToHtml(agent.personaPrompt || '');
+    if (agent.testSuiteGateEnabled && isPromptChanged) {
+      setFailedTests([]);
+      setGateNotice(null);
+      // Without the suite there is nothing to pass, so the gate holds instead of waving the prompt through
+      if (isTestCasesError) {
+        setGateNotice('load_failed');
+        return;
+      }
+      if (testCases.length === 0) {
+        setGateNotice('no_tests');
+        return;
+      }
+      try {
+        const outcomes = await runSuiteMutation.mutateAsync({ personaPrompt: editPrompt });
+        const failed = evaluateTestSuite(testCases, outcomes).filter((result) => !result.passed);
+        // Cases without an outcome already fail; a count mismatch means the run can't be trusted either way
+        const isIncomplete = outcomes.length !== testCases.length;
+        if (failed.length > 0 || isIncomplete) {
+          setFailedTests(failed.map((result) => result.testCase.name));
+          setGateNotice(isIncomplete ? 'incomplete' : null);
+          return;
+        }
+      } catch {
+        // useRunTestSuite already surfaced the error; never save an untested prompt
+        return;
+      }
     }
+
+    saveMutation.mutate();
   };
 
   return (
@@ -112,10 +163,37 @@ export default function PromptEditor({ agent, onSave, onCancel }: PromptEditorPr
           maxHeight={500}
           disabled={saveMutation.isPending}
         />
+
+        {isModified && (
+          <input
+            type="text"
+            value={changeNote}
+            onChange={(e) => setChangeNote(e.target.value)}
+            placeholder={t('prompt_versions.change_note_placeholder')}
+            maxLength={200}
+            disabled={saveMutation.isPending}
+            className={cn(
+              'w-full px-3 py-2 rounded-lg text-sm',
+              'bg-neutral-50 border border-neutral-200',
+              'focus:outline-none focus:ring-2 focus:ring-black focus:border-transparent',
+              'placeholder:text-neutral-400',
+              'disabled:opacity-50 disabled:cursor-not-allowed'
+            )}
+          />
+        )}
       </div>
 
       {/* Actions - GitHub Style */}
       <div className="flex items-center justify-end gap-2 pt-2">
+        <Button
+          variant="ghost"
+          size="sm"
+          onClick={() => setIsHistoryOpen(true)}
+          className="me-auto"
+        >
+          <History className="w-4 h-4 me-1.5" />
+          {t('prompt_versions.history_button')}
+        </Button>
         <Button
           variant="secondary"
           size="sm"
@@ -134,12 +212,35 @@ export default function PromptEditor({ agent, onSave, onCancel }: PromptEditorPr
           variant="primary"
           size="sm"
           onClick={handleSave}
-          disabled={!isModified || saveMutation.isPending}
+          disabled={!isModified || saveMutation.isPending || runSuiteMutation.isPending || isTestCasesLoading}
         >
-          {saveMutation.isPending ? t('prompt_editor.saving_button') : t('prompt_editor.save_button')}
+          {runSuiteMutation.isPending
+            ? t('test_suite.gate_running')
+            : saveMutation.isPending
+              ? t('prompt_editor.saving_button')
+              : t('prompt_editor.save_button')}
         </Button>
       </div>
 
+      {/* Test gate failures */}
+      {(failedTests.length > 0 || gateNotice) && (
+        <div className="rounded-lg border border-red-200 bg-red-50 px-3 py-2 text-sm text-red-700">
+          <p className="font-medium">
+            {failedTests.length > 0
+              ? t('test_suite.gate_blocked', { count: failedTests.length })
+              : t(`test_suite.gate_${gateNotice}`)}
+          </p>
+          <ul className="mt-1 space-y-0.5">
+            {failedTests.map((name) => (
+              <li key={name} className="flex items-center gap-1.5 text-xs">
+                <XCircle className="w-3.5 h-3.5 flex-shrink-0" />
+                {name}
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+
       {/* Success Message */}
       {showSuccessMessage && (
         <div className="flex items-center gap-2 text-sm text-green-600">
@@ -147,6 +248,19 @@ export default function PromptEditor({ agent, onSave, onCancel }: PromptEditorPr
           {t('prompt_editor.success_message')}
         </div>
       )}
+
+      <PromptVersionHistoryModal
+        agentId={agent.id}
+        isOpen={isHistoryOpen}
+        onClose={() => setIsHistoryOpen(false)}
+        onRestored={(restoredAgent) => {
+          setEditName(restoredAgent.name || '');
+          setEditPrompt(plainTextToHtml(restoredAgent.personaPrompt || ''));
+          setChangeNote('');
+          setFailedTests([]);
+          setGateNotice(null);
+        }}
+      />
     </div>
   );
 }
@@ -0,0 +1,231 @@
+/**
+ * Prompt Version History Modal
+ * Every saved persona prompt is kept as a version. Pick any two versions to
+ * see a side-by-side diff or to answer one test message with both; older
+ * versions can be restored in one click (restoring adds a new version).
+ */
+
+import { useEffect, useMemo, useState } from 'react';
+import { useTranslation } from 'react-i18next';
+import { History, RotateCcw } from 'lucide-react';
+import { BaseModal } from '@/components/ui/BaseModal';
+import { useConfirm } from '@/hooks/useConfirm';
+import { cn, formatRelativeTime } from '@/lib/utils';
+import { formatFullDateTime } from '@/features/conversations/utils/timeFormatters';
+import { usePromptVersions, useRestorePromptVersion } from '../hooks/usePromptVersions';
+import { buildSideBySideDiff, countDiffChanges } from '../utils/promptDiff';
+import PromptCompareChat from './PromptCompareChat';
+import SideBySideDiff from './SideBySideDiff';
+import type { Agent } from '../types/agent.types';
+import type { PromptVersion } from '../types/promptVersion.types';
+
+interface PromptVersionHistoryModalProps {
+  agentId: string;
+  isOpen: boolean;
+  onClose: () => void;
+  /** Called with the updated agent so open editors can drop their now-stale draft */
+  onRestored?: (agent: Agent) => void;
+}
+
+type Tab = 'diff' | 'test';
+
+const TABS: Tab[] = ['diff', 'test'];
+
+export default function PromptVersionHistoryModal({
+  agentId,
+  isOpen,
+  onClose,
+  onRestored,
+}: PromptVersionHistoryModalProps) {
+  const { t } = useTranslation();
+  const { confirm, ConfirmDialogComponent } = useConfirm();
+  const { data, isLoading } = usePromptVersions(isOpen ? agentId : undefined);
+  const versions = useMemo(() => data ?? [], [data]);
+  const restoreMutation = useRestorePromptVersion(agentId);
+  const [tab, setTab] = useState<Tab>('diff');
+  const [baseId, setBaseId] = useState<string | null>(null);
+  const [targetId, setTargetId] = useState<string | null>(null);
+
+  // Default to "previous vs current" whenever the list changes (open, save, restore)
+  useEffect(() => {
+    setTargetId(versions[0]?.id ?? null);
+    setBaseId(versions[1]?.id ?? versions[0]?.id ?? null);
+  }, [versions]);
+
+  const base = versions.find((v) => v.id === baseId) ?? null;
+  const target = versions.find((v) => v.id === targetId) ?? null;
+  const currentId = versions[0]?.id;
+
+  const rows = useMemo(
+    () => (base && target ? buildSideBySideDiff(base.personaPrompt, target.personaPrompt) : []),
+    [base, target]
+  );
+  const changes = countDiffChanges(rows);
+
+  const handleRestore = async (version: PromptVersion) => {
+    const confirmed = await confirm({
+      title: t('prompt_versions.restore_confirm_title', { version: version.versionNumber }),
+      message: t('prompt_versions.restore_confirm_message'),
+      confirmText: t('prompt_versions.restore'),
+      cancelText: t('common.cancel'),
+      variant: 'info',
+    });
+    if (confirmed) {
+      restoreMutation.mutate(version.id, {
+        onSuccess: (updatedAgent) => onRestored?.(updatedAgent),
+      });
+    }
+  };
+
+  return (
+    <BaseModal
+      isOpen={isOpen}
+      onClose={onClose}
+      title={t('prompt_versions.title')}
+      subtitle={t('prompt_versions.subtitle')}
+      maxWidth="2xl"
+      className="max-w-6xl"
+      isLoading={restoreMutation.isPending}
+    >
+      {ConfirmDialogComponent}
+
+      {isLoading ? (
+        <div className="h-64 bg-neutral-50 rounded-lg animate-pulse" />
+      ) : versions.length === 0 ? (
+        <div className="py-12 text-center text-sm text-neutral-500">
+          <History className="w-8 h-8 mx-auto mb-2 text-neutral-300" />
+          {t('prompt_versions.empty')}
+        </div>
+      ) : (
+        <div className="flex flex-col lg:flex-row gap-4">
+          {/* Version list */}
+          <ul className="lg:w-72 flex-shrink-0 space-y-1 lg:max-h-[60vh] overflow-y-auto">
+            {versions.map((version) => (
+              <li
+                key={version.id}
+                className={cn(
+                  'rounded-lg border px-3 py-2 text-sm',
+                  version.id === targetId || version.id === baseId
+                    ? 'border-neutral-400 bg-neutral-50'
+                    : 'border-neutral-200'
+                )}
+              >
+                <div className="flex items-center gap-2">
+                  <span className="font-medium text-neutral-950">
+                    {t('prompt_versions.version', { version: version.versionNumber })}
+                  </span>
+                  {version.id === currentId && (
+                    <span className="px-1.5 py-0.5 rounded bg-green-50 text-green-700 text-[10px] font-medium">
+                      {t('prompt_versions.current')}
+                    </span>
+                  )}
+                  <span className="ms-auto text-xs text-neutral-500" title={formatFullDateTime(version.createdAt)}>
+                    {formatRelativeTime(version.createdAt)}
+                  </span>
+                </div>
+                <p className="text-xs text-neutral-500 mt-0.5">
+                  {version.authorName ?? t('prompt_versions.unknown_author')}
+                </p>
+                {version.restoredFromVersionNumber !== null && (
+                  <p className="text-xs text-neutral-500">
+                    {t('prompt_versions.restored_from', { version: version.restoredFromVersionNumber })}
+                  </p>
+                )}
+                {version.changeNote && (
+                  <p className="text-xs text-neutral-700 mt-1 italic break-words">{version.changeNote}</p>
+                )}
+                <div className="flex items-center gap-1 mt-2">
+                  <SlotButton
+                    label={t('prompt_versions.set_base')}
+                    isActive={version.id === baseId}
+                    onClick={() => setBaseId(version.id)}
+                  />
+                  <SlotButton
+                    label={t('prompt_versions.set_target')}
+                    isActive={version.id === targetId}
+                    onClick={() => setTargetId(version.id)}
+                  />
+                  {version.id !== currentId && (
+                    <button
+                      type="button"
+                      onClick={() => handleRestore(version)}
+                      disabled={restoreMutation.isPending}
+                      className="ms-auto inline-flex items-center gap-1 px-2 py-0.5 rounded text-xs text-neutral-600 hover:bg-neutral-100 disabled:opacity-50"
+                    >
+                      <RotateCcw className="w-3 h-3" />
+                      {t('prompt_versions.restore')}
+                    </button>
+                  )}
+                </div>
+              </li>
+            ))}
+          </ul>
+
+          {/* Diff / test compare */}
+          <div className="flex-1 min-w-0 space-y-3">
+            <div className="flex items-center gap-1 border-b border-neutral-200">
+              {TABS.map((key) => (
+                <button
+                  key={key}
+                  type="button"
+                  onClick={() => setTab(key)}
+                  className={cn(
+                    'px-3 py-2 text-sm -mb-px border-b-2 transition-colors',
+                    tab === key
+                      ? 'border-neutral-950 text-neutral-950 font-medium'
+                      : 'border-transparent text-neutral-500 hover:text-neutral-800'
+                  )}
+                >
+                  {t(`prompt_versions.tab_${key}`)}
+                </button>
+              ))}
+              {tab === 'diff' && base && target && (
+                <span className="ms-auto text-xs text-neutral-500">
+                  <span className="text-green-700">+{changes.added}</span>{' '}
+                  <span className="text-red-700">−{changes.removed}</span>
+                </span>
+              )}
+            </div>
+
+            {!base || !target ? null : tab === 'diff' ? (
+              <SideBySideDiff
+                leftLabel={t('prompt_versions.version', { version: base.versionNumber })}
+                rightLabel={t('prompt_versions.version', { version: target.versionNumber })}
+                rows={rows}
+                emptyMessage={t('prompt_versions.no_changes')}
+              />
+            ) : (
+              <PromptCompareChat agentId={agentId} base={base} target={target} />
+            )}
+          </div>
+        </div>
+      )}
+    </BaseModal>
+  );
+}
+
+// --- Helper Components ---
+
+interface SlotButtonProps {
+  label: string;
+  isActive: boolean;
+  onClick: () => void;
+}
+
+function SlotButton({ label, isActive, onClick }: SlotButtonProps) {
+  return (
+    <button
+      type="button"
+      onClick={onClick}
+      aria-pressed={isActive}
+      className={cn(
+        'px-2 py-0.5 rounded text-xs border transition-colors',
+        isActive
+          ? 'bg-neutral-950 border-neutral-950 text-white'
+          : 'bg-white border-neutral-200 text-neutral-600 hover:bg-neutral-50'
+      )}
+    >
+      {label}
+    </button>
+  );
+}
@@ -0,0 +1,57 @@
+/**
+ * Side-by-side line diff (rows from utils/promptDiff). Shared by the prompt
+ * version history and knowledge base revision history.
+ */
+
+import { cn } from '@/lib/utils';
+import type { DiffCell, DiffRow } from '../utils/promptDiff';
+
+interface SideBySideDiffProps {
+  leftLabel: string;
+  rightLabel: string;
+  rows: DiffRow[];
+  /** Shown instead of the table when both sides are identical */
+  emptyMessage: string;
+}
+
+const CELL_CLASSES: Record<DiffCell['type'], string> = {
+  same: 'text-neutral-700',
+  added: 'bg-green-50 text-green-900',
+  removed: 'bg-red-50 text-red-900',
+};
+
+export default function SideBySideDiff({ leftLabel, rightLabel, rows, emptyMessage }: SideBySideDiffProps) {
+  if (rows.every((row) => row.left?.type === 'same')) {
+    return <p className="py-8 text-center text-sm text-neutral-500">{emptyMessage}</p>;
+  }
+
+  return (
+    <div className="rounded-lg border border-neutral-200 overflow-hidden">
+      <div className="grid grid-cols-2 bg-neutral-50 border-b border-neutral-200 text-xs font-medium text-neutral-600">
+        <div className="px-3 py-1.5 border-e border-neutral-200">{leftLabel}</div>
+        <div className="px-3 py-1.5">{rightLabel}</div>
+      </div>
+      <div className="max-h-[55vh] overflow-y-auto font-mono text-xs" dir="auto">
+        {rows.map((row, index) => (
+          <div key={index} className="grid grid-cols-2">
+            <DiffCellView cell={row.left} className="border-e border-neutral-200" />
+            <DiffCellView cell={row.right} />
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
+
+// --- Helper Components ---
+
+function DiffCellView({ cell, className }: { cell: DiffCell | null; className?: string }) {
+  return (
+    <div className={cn('flex min-w-0', cell ? CELL_CLASSES[cell.type] : 'bg-neutral-50', className)}>
+      <span className="w-10 flex-shrink-0 px-2 py-0.5 text-end text-neutral-400 select-none">
+        {cell?.lineNumber}
+      </span>
+      <span className="flex-1 min-w-0 px-2 py-0.5 whitespace-pre-wrap break-words">{cell?.text}</span>
+    </div>
+  );
+}
@@ -0,0 +1,220 @@
+/**
+ * Test Case Form
+ * Create / edit one regression test: the customer messages to send in order
+ * and the expectations the agent's replies must meet. Action and attachment
+ * expectations pick from the agent's own actions and attachments.
+ */
+
+import { useState } from 'react';
+import { useTranslation } from 'react-i18next';
+import { Plus, X } from 'lucide-react';
+import { Button } from '@/components/ui/Button';
+import { useAgentAttachments } from '@/features/attachments/hooks/useAgentAttachments';
+import { useInfiniteActions } from '@/features/actions/hooks/useActions';
+import { EXPECTATION_TYPES, isTestCaseComplete, VALUELESS_EXPECTATIONS } from '../utils/testSuite';
+import type {
+  CreateTestCaseRequest,
+  TestCase,
+  TestExpectation,
+  TestExpectationType,
+} from '../types/testSuite.types';
+
+interface TestCaseFormProps {
+  agentId: string;
+  testCase?: TestCase;
+  isSaving: boolean;
+  onSubmit: (request: CreateTestCaseRequest) => void;
+  onCancel: () => void;
+}
+
+const MAX_TURNS = 10;
+const MAX_NAME_LENGTH = 100;
+const MAX_TURN_LENGTH = 1000;
+
+const inputClassName =
+  'w-full px-3 py-1.5 text-sm border border-neutral-200 rounded-md focus:outline-none focus:ring-1 focus:ring-brand-mojeeb focus:border-brand-mojeeb';
+
+export default function TestCaseForm({ agentId, testCase, isSaving, onSubmit, onCancel }: TestCaseFormProps) {
+  const { t } = useTranslation();
+  const { data: actionsData } = useInfiniteActions();
+  const { data: attachments = [] } = useAgentAttachments(agentId);
+  const actions = actionsData?.actions ?? [];
+
+  const [name, setName] = useState(testCase?.name ?? '');
+  const [turns, setTurns] = useState<string[]>(testCase?.turns.length ? testCase.turns : ['']);
+  const [expectations, setExpectations] = useState<TestExpectation[]>(
+    testCase?.expectations.length ? testCase.expectations : [{ type: 'contains', value: '' }]
+  );
+
+  const draft = { name, turns, expectations };
+  const isComplete = isTestCaseComplete(draft);
+
+  const updateTurn = (index: number, value: string) => {
+    setTurns((prev) => prev.map((turn, i) => (i === index ? value : turn)));
+  };
+
+  const updateExpectation = (index: number, patch: Partial<TestExpectation>) => {
+    setExpectations((prev) => prev.map((exp, i) => (i === index ? { ...exp, ...patch } : exp)));
+  };
+
+  const handleSubmit = () => {
+    if (!isComplete) return;
+    onSubmit({
+      name: name.trim(),
+      turns: turns.map((turn) => turn.trim()).filter(Boolean),
+      expectations: expectations.map((exp) => ({
+        type: exp.type,
+        value: VALUELESS_EXPECTATIONS.includes(exp.type) ? '' : exp.value.trim(),
+      })),
+    });
+  };
+
+  return (
+    <form
+      className="space-y-5"
+      onSubmit={(e) => {
+        e.preventDefault();
+        handleSubmit();
+      }}
+    >
+      <label className="block space-y-1">
+        <span className="block text-sm font-medium text-neutral-700">{t('test_suite.case_name')}</span>
+        <input
+          type="text"
+          value={name}
+          onChange={(e) => setName(e.target.value)}
+          placeholder={t('test_suite.case_name_placeholder')}
+          maxLength={MAX_NAME_LENGTH}
+          className={inputClassName}
+        />
+      </label>
+
+      {/* Script */}
+      <div className="space-y-2">
+        <div>
+          <span className="block text-sm font-medium text-neutral-700">{t('test_suite.turns')}</span>
+          <span className="block text-xs text-neutral-500">{t('test_suite.turns_hint')}</span>
+        </div>
+        {turns.map((turn, index) => (
+          <div key={index} className="flex items-start gap-2">
+            <span className="w-6 pt-1.5 text-xs text-neutral-400 text-end">{index + 1}.</span>
+            <textarea
+              value={turn}
+              onChange={(e) => updateTurn(index, e.target.value)}
+              placeholder={t('test_suite.turn_placeholder')}
+              maxLength={MAX_TURN_LENGTH}
+              rows={2}
+              dir="auto"
+              className={`${inputClassName} resize-none`}
+            />
+            {turns.length > 1 && (
+              <button
+                type="button"
+                onClick={() => setTurns((prev) => prev.filter((_, i) => i !== index))}
+                className="p-1.5 text-neutral-400 hover:text-red-600"
+                aria-label={t('test_suite.remove_turn')}
+              >
+                <X className="w-4 h-4" />
+              </button>
+            )}
+          </div>
+        ))}
+        {turns.length < MAX_TURNS && (
+          <Button type="button" variant="ghost" size="sm" onClick={() => setTurns((prev) => [...prev, ''])}>
+            <Plus className="w-4 h-4 me-1.5" />
+            {t('test_suite.add_turn')}
+          </Button>
+        )}
+      </div>
+
+      {/* Expectations */}
+      <div className="space-y-2">
+        <span className="block text-sm font-medium text-neutral-700">{t('test_suite.expectations')}</span>
+        {expectations.map((expectation, index) => (
+          <div key={index} className="flex items-center gap-2">
+            <select
+              value={expectation.type}
+              onChange={(e) =>
+                updateExpectation(index, { type: e.target.value as TestExpectationType, value: '' })
+              }
+              className="w-48 flex-shrink-0 px-2 py-1.5 text-sm border border-neutral-200 rounded-md bg-white focus:outline-none focus:ring-1 focus:ring-brand-mojeeb"
+            >
+              {EXPECTATION_TYPES.map((type) => (
+                <option key={type} value={type}>
+                  {t(`test_suite.expectation_types.${type}`)}
+                </option>
+              ))}
+            </select>
+
+            {(expectation.type === 'contains' || expectation.type === 'not_contains') && (
+              <input
+                type="text"
+                value={expectation.value}
+                onChange={(e) => updateExpectation(index, { value: e.target.value })}
+                placeholder={t('test_suite.text_placeholder')}
+                dir="auto"
+                className={inputClassName}
+              />
+            )}
+            {expectation.type === 'action_triggered' && (
+              <select
+                value={expectation.value}
+                onChange={(e) => updateExpectation(index, { value: e.target.value })}
+                className={`${inputClassName} bg-white`}
+              >
+                <option value="">{t('test_suite.select_action')}</option>
+                {actions.map((action) => (
+                  <option key={action.id} value={action.id}>
+                    {action.name}
+                  </option>
+                ))}
+              </select>
+            )}
+            {expectation.type === 'attachment_sent' && (
+              <select
+                value={expectation.value}
+                onChange={(e) => updateExpectation(index, { value: e.target.value })}
+                className={`${inputClassName} bg-white`}
+              >
+                <option value="">{t('test_suite.select_attachment')}</option>
+                {attachments.map((attachment) => (
+                  <option key={attachment.id} value={attachment.id}>
+                    {attachment.name}
+                  </option>
+                ))}
+              </select>
+            )}
+            {VALUELESS_EXPECTATIONS.includes(expectation.type) && <div className="flex-1" />}
+
+            <button
+              type="button"
+              onClick={() => setExpectations((prev) => prev.filter((_, i) => i !== index))}
+              className="p-1.5 text-neutral-400 hover:text-red-600"
+              aria-label={t('test_suite.remove_expectation')}
+            >
+              <X className="w-4 h-4" />
+            </button>
+          </div>
+        ))}
+        <Button
+          type="button"
+          variant="ghost"
+          size="sm"
+          onClick={() => setExpectations((prev) => [...prev, { type: 'contains', value: '' }])}
+        >
+          <Plus className="w-4 h-4 me-1.5" />
+          {t('test_suite.add_expectation')}
+        </Button>
+      </div>
+
+      <div className="flex items-center justify-end gap-2 pt-2 border-t border-neutral-100">
+        <Button type="button" variant="secondary" size="sm" onClick={onCancel} disabled={isSaving}>
+          {t('common.cancel')}
+        </Button>
+        <Button type="submit" size="sm" disabled={!isComplete} isLoading={isSaving}>
+          {t('common.save')}
+        </Button>
+      </div>
+    </form>
+  );
+}
@@ -0,0 +1,356 @@
+/**
+ * Test Suite Modal
+ * Saved regression tests for the agent, opened from the Studio menu. Runs the
+ * whole suite (or one case) and shows a pass / fail report; the gate switch
+ * makes PromptEditor run the suite against a changed prompt before saving it.
+ */
+
+import { useMemo, useState } from 'react';
+import { useMutation, useQueryClient } from '@tanstack/react-query';
+import { useTranslation } from 'react-i18next';
+import { toast } from 'sonner';
+import { CheckCircle2, ChevronRight, Circle, FlaskConical, Pencil, Play, Plus, Trash2, XCircle } from 'lucide-react';
+import { BaseModal } from '@/components/ui/BaseModal';
+import { Button } from '@/components/ui/Button';
+import { Switch } from '@/components/ui/Switch';
+import { useConfirm } from '@/hooks/useConfirm';
+import { queryKeys } from '@/lib/queryKeys';
+import { logger } from '@/lib/logger';
+import { cn } from '@/lib/utils';
+import { useAgentAttachments } from '@/features/attachments/hooks/useAgentAttachments';
+import { useInfiniteActions } from '@/features/actions/hooks/useActions';
+import { agentService } from '../services/agentService';
+import {
+  useCreateTestCase,
+  useDeleteTestCase,
+  useRunTestSuite,
+  useTestCases,
+  useUpdateTestCase,
+} from '../hooks/useTestSuite';
+import { evaluateTestSuite } from '../utils/testSuite';
+import TestCaseForm from './TestCaseForm';
+import type { Agent } from '../types/agent.types';
+import type { CreateTestCaseRequest, TestCase, TestCaseResult, TestExpectation } from '../types/testSuite.types';
+
+interface TestSuiteModalProps {
+  agent: Agent;
+  isOpen: boolean;
+  onClose: () => void;
+}
+
+/** null = list view, 'new' = create form, TestCase = edit form */
+type EditorState = null | 'new' | TestCase;
+
+export default function TestSuiteModal({ agent, isOpen, onClose }: TestSuiteModalProps) {
+  const { t } = useTranslation();
+  const queryClient = useQueryClient();
+  const { confirm, ConfirmDialogComponent } = useConfirm();
+  const { data: testCases = [], isLoading } = useTestCases(isOpen ? agent.id : undefined);
+  const createMutation = useCreateTestCase(agent.id);
+  const updateMutation = useUpdateTestCase(agent.id);
+  const deleteMutation = useDeleteTestCase(agent.id);
+  const runMutation = useRunTestSuite(agent.id);
+  const [editor, setEditor] = useState<EditorState>(null);
+  const [results, setResults] = useState<Record<string, TestCaseResult>>({});
+  const [runningCaseId, setRunningCaseId] = useState<string | null>(null);
+  const { data: actionsData } = useInfiniteActions();
+  const { data: attachments } = useAgentAttachments(isOpen ? agent.id : undefined);
+
+  // Display names for action / attachment expectations
+  const targetNames = useMemo(
+    () =>
+      Object.fromEntries([
+        ...(actionsData?.actions ?? []).map((action) => [action.id, action.name]),
+        ...(attachments ?? []).map((attachment) => [attachment.id, attachment.name]),
+      ]) as Record<string, string>,
+    [actionsData, attachments]
+  );
+
+  const gateMutation = useMutation({
+    mutationFn: (enabled: boolean) => agentService.updateAgent(agent.id, { testSuiteGateEnabled: enabled }),
+    onSuccess: (updatedAgent) => {
+      queryClient.setQueryData(queryKeys.agent(agent.id), updatedAgent);
+      queryClient.invalidateQueries({ queryKey: queryKeys.agents() });
+    },
+    onError: (error) => {
+      logger.error('[TestSuiteModal]', 'Failed to update test gate', error);
+      toast.error(t('test_suite.gate_error'));
+    },
+  });
+
+  const summary = useMemo(() => {
+    const current = testCases.map((testCase) => results[testCase.id]).filter(Boolean);
+    return {
+      passed: current.filter((result) => result.passed).length,
+      failed: current.filter((result) => !result.passed).length,
+    };
+  }, [testCases, results]);
+
+  const runCases = (caseIds?: string[]) => {
+    setRunningCaseId(caseIds?.length === 1 ? caseIds[0] : null);
+    runMutation.mutate(
+      { caseIds },
+      {
+        onSuccess: (outcomes) => {
+          const ranCases = caseIds ? testCases.filter((testCase) => caseIds.includes(testCase.id)) : testCases;
+          const evaluated = evaluateTestSuite(ranCases, outcomes);
+          setResults((prev) => ({
+            ...prev,
+            ...Object.fromEntries(evaluated.map((result) => [result.testCase.id, result])),
+          }));
+        },
+        onSettled: () => setRunningCaseId(null),
+      }
+    );
+  };
+
+  const handleSubmit = (request: CreateTestCaseRequest) => {
+    const onSuccess = () => setEditor(null);
+    if (editor && editor !== 'new') {
+      // Edited cases need a fresh run before their old result means anything
+      const caseId = editor.id;
+      updateMutation.mutate(
+        { caseId, request },
+        {
+          onSuccess: () => {
+            setResults((prev) => {
+              const next = { ...prev };
+              delete next[caseId];
+              return next;
+            });
+            onSuccess();
+          },
+        }
+      );
+    } else {
+      createMutation.mutate(request, { onSuccess });
+    }
+  };
+
+  const handleDelete = async (testCase: TestCase) => {
+    const confirmed = await confirm({
+      title: t('test_suite.delete_confirm_title'),
+      message: t('test_suite.delete_confirm_message', { name: testCase.name }),
+      confirmText: t('common.delete'),
+      cancelText: t('common.cancel'),
+      variant: 'danger',
+    });
+    if (confirmed) {
+      deleteMutation.mutate(testCase.id);
+    }
+  };
+
+  const handleClose = () => {
+    setEditor(null);
+    onClose();
+  };
+
+  return (
+    <BaseModal
+      isOpen={isOpen}
+      onClose={handleClose}
+      title={t('test_suite.title')}
+      subtitle={t('test_suite.subtitle')}
+      maxWidth="2xl"
+      className="max-w-3xl"
+    >
+      {ConfirmDialogComponent}
+
+      {editor ? (
+        <TestCaseForm
+          agentId={agent.id}
+          testCase={editor === 'new' ? undefined : editor}
+          isSaving={createMutation.isPending || updateMutation.isPending}
+          onSubmit={handleSubmit}
+          onCancel={() => setEditor(null)}
+        />
+      ) : (
+        <div className="space-y-4">
+          {/* Toolbar */}
+          <div className="flex flex-wrap items-center gap-3">
+            <Button
+              size="sm"
+              onClick={() => runCases()}
+              disabled={testCases.length === 0}
+              isLoading={runMutation.isPending && runningCaseId === null}
+            >
+              <Play className="w-4 h-4 me-1.5" />
+              {t('test_suite.run_all')}
+            </Button>
+            <Button variant="secondary" size="sm" onClick={() => setEditor('new')}>
+              <Plus className="w-4 h-4 me-1.5" />
+              {t('test_suite.add_case')}
+            </Button>
+            {summary.passed + summary.failed > 0 && (
+              <span className="ms-auto text-sm">
+                <span className="text-green-700">{t('test_suite.passed_count', { count: summary.passed })}</span>
+                {' · '}
+                <span className="text-red-700">{t('test_suite.failed_count', { count: summary.failed })}</span>
+              </span>
+            )}
+          </div>
+
+          {/* Gate */}
+          <div className="flex items-start justify-between gap-4 rounded-lg border border-neutral-200 px-4 py-3">
+            <div>
+              <p className="text-sm font-medium text-neutral-800">{t('test_suite.gate_title')}</p>
+              <p className="text-xs text-neutral-500 mt-0.5">{t('test_suite.gate_description')}</p>
+            </div>
+            <Switch
+              checked={agent.testSuiteGateEnabled}
+              onChange={(checked) => gateMutation.mutate(checked)}
+              disabled={gateMutation.isPending || agent.canEdit === false}
+            />
+          </div>
+
+          {/* Cases */}
+          {isLoading ? (
+            <div className="h-32 bg-neutral-50 rounded-lg animate-pulse" />
+          ) : testCases.length === 0 ? (
+            <div className="py-10 text-center text-sm text-neutral-500">
+              <FlaskConical className="w-8 h-8 mx-auto mb-2 text-neutral-300" />
+              {t('test_suite.empty')}
+            </div>
+          ) : (
+            <ul className="divide-y divide-neutral-100 rounded-lg border border-neutral-200">
+              {testCases.map((testCase) => (
+                <TestCaseRow
+                  key={testCase.id}
+                  testCase={testCase}
+                  result={results[testCase.id]}
+                  targetNames={targetNames}
+                  isRunning={runMutation.isPending && (runningCaseId === null || runningCaseId === testCase.id)}
+                  onRun={() => runCases([testCase.id])}
+                  onEdit={() => setEditor(testCase)}
+                  onDelete={() => handleDelete(testCase)}
+                  disabled={runMutation.isPending}
+                />
+              ))}
+            </ul>
+          )}
+        </div>
+      )}
+    </BaseModal>
+  );
+}
+
+// --- Helper Components ---
+
+interface TestCaseRowProps {
+  testCase: TestCase;
+  result: TestCaseResult | undefined;
+  targetNames: Record<string, string>;
+  isRunning: boolean;
+  disabled: boolean;
+  onRun: () => void;
+  onEdit: () => void;
+  onDelete: () => void;
+}
+
+function TestCaseRow({ testCase, result, targetNames, isRunning, disabled, onRun, onEdit, onDelete }: TestCaseRowProps) {
+  const { t } = useTranslation();
+  const [isExpanded, setIsExpanded] = useState(false);
+
+  return (
+    <li className="px-3 py-2">
+      <div className="flex items-center gap-2">
+        <button
+          type="button"
+          onClick={() => setIsExpanded((prev) => !prev)}
+          disabled={!result}
+          className="flex-1 min-w-0 flex items-center gap-2 text-start disabled:cursor-default"
+        >
+          {isRunning ? (
+            <Circle className="w-4 h-4 text-neutral-300 animate-pulse flex-shrink-0" />
+          ) : result?.passed ? (
+            <CheckCircle2 className="w-4 h-4 text-green-600 flex-shrink-0" />
+          ) : result ? (
+            <XCircle className="w-4 h-4 text-red-600 flex-shrink-0" />
+          ) : (
+            <Circle className="w-4 h-4 text-neutral-300 flex-shrink-0" />
+          )}
+          <span className="text-sm text-neutral-900 truncate">{testCase.name}</span>
+          <span className="text-xs text-neutral-400 flex-shrink-0">
+            {t('test_suite.case_meta', { turns: testCase.turns.length, expectations: testCase.expectations.length })}
+          </span>
+          {result && (
+            <ChevronRight
+              className={cn('w-4 h-4 text-neutral-400 transition-transform rtl:rotate-180', isExpanded && 'rotate-90 rtl:rotate-90')}
+            />
+          )}
+        </button>
+        <button
+          type="button"
+          onClick={onRun}
+          disabled={disabled}
+          className="p-1.5 text-neutral-500 hover:text-neutral-900 disabled:opacity-40"
+          title={t('test_suite.run_case')}
+          aria-label={t('test_suite.run_case')}
+        >
+          <Play className="w-4 h-4" />
+        </button>
+        <button
+          type="button"
+          onClick={onEdit}
+          className="p-1.5 text-neutral-500 hover:text-neutral-900"
+          title={t('test_suite.edit_case')}
+          aria-label={t('test_suite.edit_case')}
+        >
+          <Pencil className="w-4 h-4" />
+        </button>
+        <button
+          type="button"
+          onClick={onDelete}
+          className="p-1.5 text-neutral-500 hover:text-red-600"
+          title={t('test_suite.delete_case')}
+          aria-label={t('test_suite.delete_case')}
+        >
+          <Trash2 className="w-4 h-4" />
+        </button>
+      </div>
+
+      {result && isExpanded && <TestCaseResultDetails result={result} targetNames={targetNames} />}
+    </li>
+  );
+}
+
+function TestCaseResultDetails({ result, targetNames }: { result: TestCaseResult; targetNames: Record<string, string> }) {
+  const { t } = useTranslation();
+  const { outcome } = result;
+
+  return (
+    <div className="mt-2 ms-6 space-y-2 text-xs">
+      {outcome?.error && <p className="text-red-600">{t('test_suite.run_error', { error: outcome.error })}</p>}
+      <ul className="space-y-1">
+        {result.expectationResults.map(({ expectation, passed }, index) => (
+          <li key={index} className={cn('flex items-center gap-1.5', passed ? 'text-green-700' : 'text-red-700')}>
+            {passed ? <CheckCircle2 className="w-3.5 h-3.5" /> : <XCircle className="w-3.5 h-3.5" />}
+            <ExpectationLabel expectation={expectation} targetNames={targetNames} />
+          </li>
+        ))}
+      </ul>
+      {outcome && outcome.replies.length > 0 && (
+        <div className="rounded-md bg-neutral-50 border border-neutral-200 p-2 space-y-1.5">
+          <p className="text-neutral-500">{t('test_suite.replies')}</p>
+          {outcome.replies.map((reply, index) => (
+            <p key={index} className="text-neutral-800 whitespace-pre-wrap" dir="auto">
+              {reply}
+            </p>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
+
+function ExpectationLabel({ expectation, targetNames }: { expectation: TestExpectation; targetNames: Record<string, string> }) {
+  const { t } = useTranslation();
+  const value = targetNames[expectation.value] ?? expectation.value;
+
+  return (
+    <span>
+      {t(`test_suite.expectation_types.${expectation.type}`)}
+      {value && <span className="text-neutral-700"> “{value}”</span>}
+    </span>
+  );
+}
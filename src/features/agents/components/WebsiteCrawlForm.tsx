@@ -0,0 +1,386 @@
+/**
+ * Website Crawl Form
+ * "Website" tab of AddKnowledgeBaseModal: crawl a site (or read its sitemap),
+ * preview the discovered pages, and import them as a tracked document job.
+ * Previously imported sites are listed above the form with their re-crawl schedule.
+ */
+
+import { useMemo, useState } from 'react';
+import { useTranslation } from 'react-i18next';
+import { Globe, RefreshCw, Search, Trash2 } from 'lucide-react';
+import { Input } from '@/components/ui/Input';
+import { Button } from '@/components/ui/Button';
+import { useConfirm } from '@/hooks/useConfirm';
+import { formatRelativeTime } from '@/lib/utils';
+import {
+  useCrawlSources,
+  useDeleteCrawlSource,
+  usePreviewCrawl,
+  useRecrawlSource,
+  useStartCrawl,
+  useUpdateCrawlSource,
+} from '../hooks/useCrawlSources';
+import {
+  detectCrawlSourceType,
+  matchesCrawlPatterns,
+  normalizeCrawlUrl,
+  parsePatternList,
+} from '../utils/crawlPatterns';
+import type { CrawlOptions, CrawlSchedule, CrawlSource, CrawlSourceType } from '../types/crawl.types';
+
+interface WebsiteCrawlFormProps {
+  agentId: string;
+  /** Called with the job ID of a started crawl or re-crawl */
+  onStarted: (jobId: string) => void;
+  onCancel: () => void;
+}
+
+const DEPTH_OPTIONS = [1, 2, 3, 4, 5];
+const MAX_PAGES_OPTIONS = [10, 50, 100, 250, 500];
+const SCHEDULES: CrawlSchedule[] = ['none', 'daily', 'weekly', 'monthly'];
+const SOURCE_TYPES: CrawlSourceType[] = ['website', 'sitemap'];
+
+const selectClassName =
+  'w-full px-3 py-2 text-sm border border-neutral-300 rounded-lg bg-white focus:outline-none focus:ring-2 focus:ring-black focus:border-transparent';
+
+export default function WebsiteCrawlForm({ agentId, onStarted, onCancel }: WebsiteCrawlFormProps) {
+  const { t } = useTranslation();
+  const previewMutation = usePreviewCrawl(agentId);
+  const startMutation = useStartCrawl(agentId);
+
+  const [urlInput, setUrlInput] = useState('');
+  const [sourceType, setSourceType] = useState<CrawlSourceType>('website');
+  const [maxDepth, setMaxDepth] = useState(2);
+  const [maxPages, setMaxPages] = useState(50);
+  const [includeText, setIncludeText] = useState('');
+  const [excludeText, setExcludeText] = useState('');
+  const [schedule, setSchedule] = useState<CrawlSchedule>('weekly');
+  const [deselected, setDeselected] = useState<Set<string>>(new Set());
+
+  const url = normalizeCrawlUrl(urlInput);
+  const showUrlError = urlInput.trim() !== '' && !url;
+  const includePatterns = parsePatternList(includeText);
+  const excludePatterns = parsePatternList(excludeText);
+
+  const options: CrawlOptions | null = url
+    ? { url, sourceType, maxDepth, maxPages, includePatterns, excludePatterns }
+    : null;
+
+  // Pattern edits filter the existing preview; no new discovery needed
+  const preview = previewMutation.data;
+  const previewPages = useMemo(
+    () =>
+      (preview?.pages ?? []).filter((page) =>
+        matchesCrawlPatterns(page.url, parsePatternList(includeText), parsePatternList(excludeText))
+      ),
+    [preview, includeText, excludeText]
+  );
+  const selectedUrls = previewPages.filter((page) => !deselected.has(page.url)).map((page) => page.url);
+
+  const handleUrlChange = (value: string) => {
+    setUrlInput(value);
+    previewMutation.reset();
+    const normalized = normalizeCrawlUrl(value);
+    if (normalized) setSourceType(detectCrawlSourceType(normalized));
+  };
+
+  // Discovery depends on these; a stale preview would import the wrong pages
+  const resetPreview = () => {
+    previewMutation.reset();
+    setDeselected(new Set());
+  };
+
+  const togglePage = (pageUrl: string) => {
+    setDeselected((prev) => {
+      const next = new Set(prev);
+      if (next.has(pageUrl)) next.delete(pageUrl);
+      else next.add(pageUrl);
+      return next;
+    });
+  };
+
+  const handleStart = async () => {
+    if (!options) return;
+    try {
+      const job = await startMutation.mutateAsync({
+        ...options,
+        urls: preview ? selectedUrls : undefined,
+        schedule,
+      });
+      onStarted(job.jobId);
+    } catch {
+      // useStartCrawl already surfaced the error
+    }
+  };
+
+  const isBusy = previewMutation.isPending || startMutation.isPending;
+
+  return (
+    <div className="space-y-4">
+      <CrawlSourcesList agentId={agentId} onStarted={onStarted} />
+
+      <Input
+        label={t('website_crawl.url_label')}
+        placeholder={t('website_crawl.url_placeholder')}
+        value={urlInput}
+        onChange={(e) => handleUrlChange(e.target.value)}
+        error={showUrlError ? t('website_crawl.url_invalid') : undefined}
+        disabled={isBusy}
+        inputMode="url"
+        dir="ltr"
+      />
+
+      <div className="grid grid-cols-2 sm:grid-cols-4 gap-3">
+        <label className="block">
+          <span className="block text-xs font-medium text-neutral-700 mb-1">{t('website_crawl.source_type')}</span>
+          <select
+            value={sourceType}
+            onChange={(e) => {
+              setSourceType(e.target.value as CrawlSourceType);
+              resetPreview();
+            }}
+            disabled={isBusy}
+            className={selectClassName}
+          >
+            {SOURCE_TYPES.map((type) => (
+              <option key={type} value={type}>
+                {t(`website_crawl.source_types.${type}`)}
+              </option>
+            ))}
+          </select>
+        </label>
+        <label className="block">
+          <span className="block text-xs font-medium text-neutral-700 mb-1">{t('website_crawl.depth')}</span>
+          <select
+            value={maxDepth}
+            onChange={(e) => {
+              setMaxDepth(Number(e.target.value));
+              resetPreview();
+            }}
+            disabled={isBusy || sourceType === 'sitemap'}
+            className={selectClassName}
+          >
+            {DEPTH_OPTIONS.map((depth) => (
+              <option key={depth} value={depth}>
+                {depth}
+              </option>
+            ))}
+          </select>
+        </label>
+        <label className="block">
+          <span className="block text-xs font-medium text-neutral-700 mb-1">{t('website_crawl.max_pages')}</span>
+          <select
+            value={maxPages}
+            onChange={(e) => {
+              setMaxPages(Number(e.target.value));
+              resetPreview();
+            }}
+            disabled={isBusy}
+            className={selectClassName}
+          >
+            {MAX_PAGES_OPTIONS.map((count) => (
+              <option key={count} value={count}>
+                {count}
+              </option>
+            ))}
+          </select>
+        </label>
+        <label className="block">
+          <span className="block text-xs font-medium text-neutral-700 mb-1">{t('website_crawl.schedule')}</span>
+          <select
+            value={schedule}
+            onChange={(e) => setSchedule(e.target.value as CrawlSchedule)}
+            disabled={isBusy}
+            className={selectClassName}
+          >
+            {SCHEDULES.map((value) => (
+              <option key={value} value={value}>
+                {t(`website_crawl.schedules.${value}`)}
+              </option>
+            ))}
+          </select>
+        </label>
+      </div>
+
+      <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+        <label className="block">
+          <span className="block text-xs font-medium text-neutral-700 mb-1">{t('website_crawl.include_patterns')}</span>
+          <textarea
+            value={includeText}
+            onChange={(e) => setIncludeText(e.target.value)}
+            placeholder="/help/*"
+            rows={2}
+            dir="ltr"
+            disabled={isBusy}
+            className="w-full px-3 py-2 text-sm font-mono border border-neutral-300 rounded-lg resize-none focus:outline-none focus:ring-2 focus:ring-black focus:border-transparent"
+          />
+        </label>
+        <label className="block">
+          <span className="block text-xs font-medium text-neutral-700 mb-1">{t('website_crawl.exclude_patterns')}</span>
+          <textarea
+            value={excludeText}
+            onChange={(e) => setExcludeText(e.target.value)}
+            placeholder="/blog/tag/*"
+            rows={2}
+            dir="ltr"
+            disabled={isBusy}
+            className="w-full px-3 py-2 text-sm font-mono border border-neutral-300 rounded-lg resize-none focus:outline-none focus:ring-2 focus:ring-black focus:border-transparent"
+          />
+        </label>
+      </div>
+      <p className="-mt-2 text-xs text-neutral-500">{t('website_crawl.patterns_hint')}</p>
+
+      {/* Preview */}
+      {preview && (
+        <div className="rounded-lg border border-neutral-200">
+          <div className="flex items-center justify-between px-3 py-2 border-b border-neutral-200 bg-neutral-50 text-xs text-neutral-600">
+            <span>
+              {t('website_crawl.preview_selected', { selected: selectedUrls.length, total: previewPages.length })}
+            </span>
+            {preview.truncated && <span className="text-amber-700">{t('website_crawl.preview_truncated')}</span>}
+          </div>
+          {previewPages.length === 0 ? (
+            <p className="px-3 py-6 text-center text-sm text-neutral-500">{t('website_crawl.preview_empty')}</p>
+          ) : (
+            <ul className="max-h-56 overflow-y-auto divide-y divide-neutral-100">
+              {previewPages.map((page) => (
+                <li key={page.url}>
+                  <label className="flex items-center gap-2 px-3 py-1.5 text-sm cursor-pointer hover:bg-neutral-50">
+                    <input
+                      type="checkbox"
+                      checked={!deselected.has(page.url)}
+                      onChange={() => togglePage(page.url)}
+                      className="rounded border-neutral-300"
+                    />
+                    <span className="flex-1 min-w-0">
+                      <span className="block truncate text-neutral-900">{page.title || page.url}</span>
+                      {page.title && (
+                        <span className="block truncate text-xs text-neutral-500" dir="ltr">
+                          {page.url}
+                        </span>
+                      )}
+                    </span>
+                  </label>
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      )}
+
+      {/* Actions */}
+      <div className="flex items-center justify-end gap-3 pt-4 border-t border-neutral-200">
+        <Button type="button" variant="secondary" onClick={onCancel} disabled={startMutation.isPending}>
+          {t('common.cancel')}
+        </Button>
+        <Button
+          type="button"
+          variant="secondary"
+          onClick={() => options && previewMutation.mutate(options)}
+          disabled={!options || isBusy}
+          isLoading={previewMutation.isPending}
+        >
+          <Search className="w-4 h-4 me-1.5" />
+          {t('website_crawl.preview_button')}
+        </Button>
+        <Button
+          type="button"
+          variant="primary"
+          onClick={handleStart}
+          disabled={!options || isBusy || (!!preview && selectedUrls.length === 0)}
+          isLoading={startMutation.isPending}
+        >
+          {t('website_crawl.import_button')}
+        </Button>
+      </div>
+    </div>
+  );
+}
+
+// --- Helper Components ---
+
+interface CrawlSourcesListProps {
+  agentId: string;
+  onStarted: (jobId: string) => void;
+}
+
+function CrawlSourcesList({ agentId, onStarted }: CrawlSourcesListProps) {
+  const { t } = useTranslation();
+  const { confirm, ConfirmDialogComponent } = useConfirm();
+  const { data: sources = [] } = useCrawlSources(agentId);
+  const updateMutation = useUpdateCrawlSource(agentId);
+  const deleteMutation = useDeleteCrawlSource(agentId);
+  const recrawlMutation = useRecrawlSource(agentId);
+
+  if (sources.length === 0) return null;
+
+  const handleDelete = async (source: CrawlSource) => {
+    const confirmed = await confirm({
+      title: t('website_crawl.delete_confirm_title'),
+      message: t('website_crawl.delete_confirm_message', { url: source.url }),
+      confirmText: t('common.delete'),
+      cancelText: t('common.cancel'),
+      variant: 'danger',
+    });
+    if (confirmed) {
+      deleteMutation.mutate(source.id);
+    }
+  };
+
+  return (
+    <div>
+      {ConfirmDialogComponent}
+      <p className="text-sm font-medium text-neutral-900 mb-2">{t('website_crawl.sources_title')}</p>
+      <ul className="rounded-lg border border-neutral-200 divide-y divide-neutral-100">
+        {sources.map((source) => (
+          <li key={source.id} className="flex items-center gap-2 px-3 py-2">
+            <Globe className="w-4 h-4 text-neutral-500 flex-shrink-0" />
+            <div className="flex-1 min-w-0">
+              <p className="text-sm text-neutral-900 truncate" dir="ltr">
+                {source.url}
+              </p>
+              <p className="text-xs text-neutral-500">
+                {t('website_crawl.source_pages', { count: source.pageCount })}
+                {source.lastCrawledAt &&
+                  ` · ${t('website_crawl.last_crawled', { time: formatRelativeTime(source.lastCrawledAt) })}`}
+              </p>
+            </div>
+            <select
+              value={source.schedule}
+              onChange={(e) =>
+                updateMutation.mutate({ sourceId: source.id, request: { schedule: e.target.value as CrawlSchedule } })
+              }
+              aria-label={t('website_crawl.schedule')}
+              className="px-2 py-1 text-xs border border-neutral-200 rounded-md bg-white"
+            >
+              {SCHEDULES.map((value) => (
+                <option key={value} value={value}>
+                  {t(`website_crawl.schedules.${value}`)}
+                </option>
+              ))}
+            </select>
+            <button
+              type="button"
+              onClick={() => recrawlMutation.mutate(source.id, { onSuccess: (job) => onStarted(job.jobId) })}
+              disabled={recrawlMutation.isPending}
+              className="p-1.5 text-neutral-500 hover:text-neutral-900 disabled:opacity-40"
+              title={t('website_crawl.recrawl')}
+              aria-label={t('website_crawl.recrawl')}
+            >
+              <RefreshCw className="w-4 h-4" />
+            </button>
+            <button
+              type="button"
+              onClick={() => handleDelete(source)}
+              className="p-1.5 text-neutral-500 hover:text-red-600"
+              title={t('website_crawl.delete_source')}
+              aria-label={t('website_crawl.delete_source')}
+            >
+              <Trash2 className="w-4 h-4" />
+            </button>
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+}
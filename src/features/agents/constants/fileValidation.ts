@@ -37,3 +37,8 @@ export const FILE_VALIDATION_ERRORS = {
   SIZE: `File size exceeds ${MAX_FILE_SIZE_MB}MB limit. Please choose a smaller file.`,
   TYPE: 'Invalid file type. Please upload a TXT, PDF, DOCX, CSV, or Excel file.',
 } as const;
+
+/**
+ * Knowledge base import bundles (same formats as the knowledge export)
+ */
+export const KNOWLEDGE_IMPORT_EXTENSIONS = ['.csv', '.json', '.zip'] as const;
@@ -0,0 +1,106 @@
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { toast } from 'sonner';
+import { queryKeys } from '@/lib/queryKeys';
+import { agentService } from '../services/agentService';
+import { getApiErrorMessage } from '../utils/errorHandling';
+import type { CrawlOptions, StartCrawlRequest, UpdateCrawlSourceRequest } from '../types/crawl.types';
+
+/**
+ * Hook for an agent's saved website / sitemap crawl sources
+ */
+export function useCrawlSources(agentId: string | undefined) {
+  return useQuery({
+    queryKey: queryKeys.crawlSources(agentId),
+    queryFn: () => agentService.getCrawlSources(agentId!),
+    enabled: !!agentId,
+  });
+}
+
+/**
+ * Hook for discovering the pages a crawl would import
+ */
+export function usePreviewCrawl(agentId: string | undefined) {
+  return useMutation({
+    mutationFn: (options: CrawlOptions) => {
+      if (!agentId) throw new Error('No agent selected');
+      return agentService.previewCrawl(agentId, options);
+    },
+    onError: (error) => {
+      toast.error(getApiErrorMessage(error, 'Failed to discover pages'));
+    },
+  });
+}
+
+/**
+ * Hook for starting a crawl job. Progress is tracked with the document job
+ * hooks (useDocumentJob / DocumentUploadProgressCard).
+ */
+export function useStartCrawl(agentId: string | undefined) {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (request: StartCrawlRequest) => {
+      if (!agentId) throw new Error('No agent selected');
+      return agentService.startCrawlAsync(agentId, request);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: queryKeys.documentJobs(agentId) });
+      queryClient.invalidateQueries({ queryKey: queryKeys.crawlSources(agentId) });
+    },
+    onError: (error) => {
+      toast.error(getApiErrorMessage(error, 'Failed to start website import'));
+    },
+  });
+}
+
+export function useUpdateCrawlSource(agentId: string | undefined) {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: ({ sourceId, request }: { sourceId: string; request: UpdateCrawlSourceRequest }) => {
+      if (!agentId) throw new Error('No agent selected');
+      return agentService.updateCrawlSource(agentId, sourceId, request);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: queryKeys.crawlSources(agentId) });
+    },
+    onError: (error) => {
+      toast.error(getApiErrorMessage(error, 'Failed to update website source'));
+    },
+  });
+}
+
+export function useDeleteCrawlSource(agentId: string | undefined) {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (sourceId: string) => {
+      if (!agentId) throw new Error('No agent selected');
+      return agentService.deleteCrawlSource(agentId, sourceId);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: queryKeys.crawlSources(agentId) });
+    },
+    onError: (error) => {
+      toast.error(getApiErrorMessage(error, 'Failed to remove website source'));
+    },
+  });
+}
+
+export function useRecrawlSource(agentId: string | undefined) {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (sourceId: string) => {
+      if (!agentId) throw new Error('No agent selected');
+      return agentService.recrawlSource(agentId, sourceId);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: queryKeys.documentJobs(agentId) });
+      queryClient.invalidateQueries({ queryKey: queryKeys.crawlSources(agentId) });
+    },
+    onError: (error) => {
+      toast.error(getApiErrorMessage(error, 'Failed to start re-crawl'));
+    },
+  });
+}
@@ -0,0 +1,75 @@
+import { useMutation, useQueryClient } from '@tanstack/react-query';
+import { toast } from 'sonner';
+import { queryKeys } from '@/lib/queryKeys';
+import { logger } from '@/lib/logger';
+import { agentService } from '../services/agentService';
+import { getApiErrorMessage } from '../utils/errorHandling';
+import type { KnowledgeImportPlanItem, KnowledgeImportResult } from '../types/knowledgeTransfer.types';
+
+/**
+ * Hook for reading an import file into entries for the preview
+ */
+export function useParseKnowledgeImport(agentId: string | undefined) {
+  return useMutation({
+    mutationFn: (file: File) => {
+      if (!agentId) throw new Error('No agent selected');
+      return agentService.parseKnowledgeImport(agentId, file);
+    },
+    onError: (error) => {
+      toast.error(getApiErrorMessage(error, 'Failed to read import file'));
+    },
+  });
+}
+
+/**
+ * Hook for applying an import plan. Entries are written one at a time; a
+ * failed entry is counted and the rest of the import continues.
+ */
+export function useApplyKnowledgeImport(agentId: string | undefined) {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (plan: KnowledgeImportPlanItem[]): Promise<KnowledgeImportResult> => {
+      if (!agentId) throw new Error('No agent selected');
+      const result: KnowledgeImportResult = { created: 0, updated: 0, skipped: 0, failed: 0 };
+
+      for (const item of plan) {
+        const { entry } = item;
+        try {
+          if (item.action === 'create') {
+            const kb = await agentService.createKnowledgeBase(agentId, {
+              name: item.name,
+              content: entry.content,
+              tags: entry.tags,
+              sourceType: entry.sourceType ?? undefined,
+              sourceUrl: entry.sourceUrl ?? undefined,
+            });
+            await agentService.linkKnowledgeBase(agentId, kb.id);
+            result.created++;
+          } else if (item.action === 'update' && item.existingId) {
+            await agentService.updateKnowledgeBase(item.existingId, agentId, {
+              name: item.name,
+              content: entry.content,
+              tags: entry.tags,
+            });
+            result.updated++;
+          } else {
+            result.skipped++;
+          }
+        } catch (error) {
+          logger.error('[useApplyKnowledgeImport]', `Failed to import "${item.name}"`, error);
+          result.failed++;
+        }
+      }
+
+      return result;
+    },
+    onSettled: () => {
+      queryClient.invalidateQueries({ queryKey: queryKeys.knowledgeBases(agentId) });
+      queryClient.invalidateQueries({ queryKey: queryKeys.knowledgeHealthRoot(agentId) });
+    },
+    onError: (error) => {
+      toast.error(getApiErrorMessage(error, 'Failed to import knowledge'));
+    },
+  });
+}
@@ -0,0 +1,93 @@
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { toast } from 'sonner';
+import { queryKeys } from '@/lib/queryKeys';
+import { agentService } from '../services/agentService';
+import { getApiErrorMessage } from '../utils/errorHandling';
+
+/**
+ * Refresh everything that shows an entry's content or review state
+ */
+function useInvalidateKnowledge(agentId: string | undefined) {
+  const queryClient = useQueryClient();
+  return (knowledgeBaseId: string) => {
+    queryClient.invalidateQueries({ queryKey: queryKeys.knowledgeBases(agentId) });
+    queryClient.invalidateQueries({ queryKey: queryKeys.knowledgeBaseRevisions(knowledgeBaseId) });
+    queryClient.invalidateQueries({ queryKey: queryKeys.knowledgeHealthRoot(agentId) });
+  };
+}
+
+/**
+ * Hook for a knowledge base entry's revision history
+ */
+export function useKnowledgeBaseRevisions(knowledgeBaseId: string | undefined, agentId: string | undefined) {
+  return useQuery({
+    queryKey: queryKeys.knowledgeBaseRevisions(knowledgeBaseId),
+    queryFn: () => agentService.getKnowledgeBaseRevisions(knowledgeBaseId!, agentId!),
+    enabled: !!knowledgeBaseId && !!agentId,
+  });
+}
+
+export function useRestoreKnowledgeBaseRevision(agentId: string | undefined, knowledgeBaseId: string) {
+  const invalidate = useInvalidateKnowledge(agentId);
+
+  return useMutation({
+    mutationFn: (revisionId: string) => {
+      if (!agentId) throw new Error('No agent selected');
+      return agentService.restoreKnowledgeBaseRevision(knowledgeBaseId, agentId, revisionId);
+    },
+    onSuccess: () => {
+      invalidate(knowledgeBaseId);
+    },
+    onError: (error) => {
+      toast.error(getApiErrorMessage(error, 'Failed to restore revision'));
+    },
+  });
+}
+
+export function useMarkKnowledgeBaseReviewed(agentId: string | undefined) {
+  const invalidate = useInvalidateKnowledge(agentId);
+
+  return useMutation({
+    mutationFn: (knowledgeBaseId: string) => {
+      if (!agentId) throw new Error('No agent selected');
+      return agentService.markKnowledgeBaseReviewed(knowledgeBaseId, agentId);
+    },
+    onSuccess: (_, knowledgeBaseId) => {
+      invalidate(knowledgeBaseId);
+    },
+    onError: (error) => {
+      toast.error(getApiErrorMessage(error, 'Failed to mark as reviewed'));
+    },
+  });
+}
+
+/**
+ * Hook for setting (or clearing, with null) an entry's review reminder interval
+ */
+export function useUpdateReviewInterval(agentId: string | undefined) {
+  const invalidate = useInvalidateKnowledge(agentId);
+
+  return useMutation({
+    mutationFn: ({ knowledgeBaseId, reviewIntervalDays }: { knowledgeBaseId: string; reviewIntervalDays: number | null }) => {
+      if (!agentId) throw new Error('No agent selected');
+      return agentService.updateKnowledgeBase(knowledgeBaseId, agentId, { reviewIntervalDays });
+    },
+    onSuccess: (_, { knowledgeBaseId }) => {
+      invalidate(knowledgeBaseId);
+    },
+    onError: (error) => {
+      toast.error(getApiErrorMessage(error, 'Failed to update review reminder'));
+    },
+  });
+}
+
+/**
+ * Hook for the knowledge health (stale content) report
+ */
+export function useKnowledgeHealth(agentId: string | undefined, staleAfterDays: number) {
+  return useQuery({
+    queryKey: queryKeys.knowledgeHealth(agentId, staleAfterDays),
+    queryFn: () => agentService.getKnowledgeHealth(agentId!, staleAfterDays),
+    enabled: !!agentId,
+  });
+}
@@ -0,0 +1,46 @@
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { queryKeys } from '@/lib/queryKeys';
+import { agentService } from '../services/agentService';
+import type { ComparePromptVersionsRequest } from '../types/promptVersion.types';
+import { toast } from 'sonner';
+import { isToastHandled } from '@/lib/errors';
+
+export function usePromptVersions(agentId: string | undefined) {
+  return useQuery({
+    queryKey: queryKeys.promptVersions(agentId),
+    queryFn: () => agentService.getPromptVersions(agentId!),
+    enabled: !!agentId,
+  });
+}
+
+export function useRestorePromptVersion(agentId: string | undefined) {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (versionId: string) => {
+      if (!agentId) throw new Error('No agent selected');
+      return agentService.restorePromptVersion(agentId, versionId);
+    },
+    onSuccess: (updatedAgent) => {
+      queryClient.setQueryData(queryKeys.agent(updatedAgent.id), updatedAgent);
+      queryClient.invalidateQueries({ queryKey: queryKeys.agents() });
+      queryClient.invalidateQueries({ queryKey: queryKeys.promptVersions(agentId) });
+      toast.success('Prompt version restored');
+    },
+    onError: (error: unknown) => {
+      if (!isToastHandled(error)) toast.error('Failed to restore prompt version');
+    },
+  });
+}
+
+export function useComparePromptVersions(agentId: string | undefined) {
+  return useMutation({
+    mutationFn: (request: ComparePromptVersionsRequest) => {
+      if (!agentId) throw new Error('No agent selected');
+      return agentService.comparePromptVersions(agentId, request);
+    },
+    onError: (error: unknown) => {
+      if (!isToastHandled(error)) toast.error('Failed to compare prompt versions');
+    },
+  });
+}
@@ -0,0 +1,81 @@
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { queryKeys } from '@/lib/queryKeys';
+import { agentService } from '../services/agentService';
+import type {
+  CreateTestCaseRequest,
+  RunTestSuiteRequest,
+  UpdateTestCaseRequest,
+} from '../types/testSuite.types';
+import { toast } from 'sonner';
+import { isToastHandled } from '@/lib/errors';
+
+export function useTestCases(agentId: string | undefined) {
+  return useQuery({
+    queryKey: queryKeys.testCases(agentId),
+    queryFn: () => agentService.getTestCases(agentId!),
+    enabled: !!agentId,
+  });
+}
+
+export function useCreateTestCase(agentId: string | undefined) {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (request: CreateTestCaseRequest) => {
+      if (!agentId) throw new Error('No agent selected');
+      return agentService.createTestCase(agentId, request);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: queryKeys.testCases(agentId) });
+    },
+    onError: (error: unknown) => {
+      if (!isToastHandled(error)) toast.error('Failed to create test case');
+    },
+  });
+}
+
+export function useUpdateTestCase(agentId: string | undefined) {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: ({ caseId, request }: { caseId: string; request: UpdateTestCaseRequest }) => {
+      if (!agentId) throw new Error('No agent selected');
+      return agentService.updateTestCase(agentId, caseId, request);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: queryKeys.testCases(agentId) });
+    },
+    onError: (error: unknown) => {
+      if (!isToastHandled(error)) toast.error('Failed to update test case');
+    },
+  });
+}
+
+export function useDeleteTestCase(agentId: string | undefined) {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (caseId: string) => {
+      if (!agentId) throw new Error('No agent selected');
+      return agentService.deleteTestCase(agentId, caseId);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: queryKeys.testCases(agentId) });
+    },
+    onError: (error: unknown) => {
+      if (!isToastHandled(error)) toast.error('Failed to delete test case');
+    },
+  });
+}
+
+export function useRunTestSuite(agentId: string | undefined) {
+  return useMutation({
+    mutationFn: (request: RunTestSuiteRequest = {}) => {
+      if (!agentId) throw new Error('No agent selected');
+      return agentService.runTestSuite(agentId, request);
+    },
+    onError: (error: unknown) => {
+      if (!isToastHandled(error)) toast.error('Failed to run test suite');
+    },
+  });
+}
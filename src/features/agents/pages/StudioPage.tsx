@@ -12,7 +12,7 @@ import { motion, AnimatePresence } from 'framer-motion';
 import { Link, useNavigate } from 'react-router-dom';
 import { useQuery, useQueryClient } from '@tanstack/react-query';
 import { useTranslation } from 'react-i18next';
-import { Plus, MessageSquare, Bell, MoreVertical, Paperclip, BookOpen, ScrollText, Info, Search, BotOff } from 'lucide-react';
+import { Plus, MessageSquare, Bell, MoreVertical, Paperclip, BookOpen, ScrollText, Info, Search, BotOff, Clock, FlaskConical, ShieldCheck, Upload, Download } from 'lucide-react';
 import { DropdownMenu, DropdownMenuTrigger, DropdownMenuContent, DropdownMenuItem } from '@/components/ui/dropdown-menu';
 import { cn } from '@/lib/utils';
 import { agentService } from '../services/agentService';
@@ -32,6 +32,10 @@ import AddKnowledgeBaseModal from '../components/AddKnowledgeBaseModal';
 import DocumentUploadProgressCard from '../components/DocumentUploadProgressCard';
 import FollowUpSettingsModal from '../components/FollowUpSettingsModal';
 import AiHandoffSettingsModal from '../components/AiHandoffSettingsModal';
+import BusinessHoursSettingsModal from '../components/BusinessHoursSettingsModal';
+import TestSuiteModal from '../components/TestSuiteModal';
+import KnowledgeHealthModal from '../components/KnowledgeHealthModal';
+import ImportKnowledgeBaseModal from '../components/ImportKnowledgeBaseModal';
 import TestChat from '../components/TestChat';
 import TestChatPanel from '../components/TestChatPanel';
 import { SetupChecklist } from '../components/SetupChecklist';
@@ -40,6 +44,7 @@ import TestGateBottomSheet from '../components/TestGateBottomSheet';
 import { useAgentAttachments } from '@/features/attachments/hooks/useAgentAttachments';
 import AttachmentItem from '@/features/attachments/components/AttachmentItem';
 import { CreateAttachmentModal } from '@/features/attachments/components/CreateAttachmentModal';
+import { ExportKnowledgeBaseModal, ExportProgressModal } from '@/features/exports/components';
 import { logger } from '@/lib/logger';
 import { useDocumentTitle } from '@/hooks/useDocumentTitle';
 import { useUIStore } from '@/stores/uiStore';
@@ -72,6 +77,12 @@ export default function StudioPage() {
   const [isAddAttachmentModalOpen, setIsAddAttachmentModalOpen] = useState(false);
   const [isFollowUpModalOpen, setIsFollowUpModalOpen] = useState(false);
   const [isHandoffModalOpen, setIsHandoffModalOpen] = useState(false);
+  const [isBusinessHoursModalOpen, setIsBusinessHoursModalOpen] = useState(false);
+  const [isTestSuiteModalOpen, setIsTestSuiteModalOpen] = useState(false);
+  const [isKnowledgeHealthOpen, setIsKnowledgeHealthOpen] = useState(false);
+  const [isImportKBModalOpen, setIsImportKBModalOpen] = useState(false);
+  const [isExportKBModalOpen, setIsExportKBModalOpen] = useState(false);
+  const [knowledgeExportJobId, setKnowledgeExportJobId] = useState<string | null>(null);
   const [isChatPanelOpen, setIsChatPanelOpen] = useState(false);
   const [isTestGateOpen, setIsTestGateOpen] = useState(false);
   const [activeUploadJobs, setActiveUploadJobs] = useState<string[]>([]);
@@ -297,6 +308,14 @@ export default function StudioPage() {
                       <Plus className="w-4 h-4 ltr:mr-2 rtl:ml-2 text-neutral-700" />
                       <span>{t('studio.add_knowledge')}</span>
                     </DropdownMenuItem>
+                    <DropdownMenuItem onClick={() => setIsImportKBModalOpen(true)}>
+                      <Upload className="w-4 h-4 ltr:mr-2 rtl:ml-2 text-neutral-700" />
+                      <span>{t('studio.import_knowledge')}</span>
+                    </DropdownMenuItem>
+                    <DropdownMenuItem onClick={() => setIsExportKBModalOpen(true)}>
+                      <Download className="w-4 h-4 ltr:mr-2 rtl:ml-2 text-neutral-700" />
+                      <span>{t('studio.export_knowledge')}</span>
+                    </DropdownMenuItem>
                     <DropdownMenuItem onClick={() => setIsAddAttachmentModalOpen(true)}>
                       <Paperclip className="w-4 h-4 ltr:mr-2 rtl:ml-2 text-neutral-700" />
                       <span>{t('studio.add_attachment', 'Add Attachment')}</span>
@@ -309,6 +328,18 @@ export default function StudioPage() {
                       <BotOff className="w-4 h-4 ltr:mr-2 rtl:ml-2 text-neutral-700" />
                       <span>{t('studio.ai_handoff_window')}</span>
                     </DropdownMenuItem>
+                    <DropdownMenuItem onClick={() => setIsBusinessHoursModalOpen(true)}>
+                      <Clock className="w-4 h-4 ltr:mr-2 rtl:ml-2 text-neutral-700" />
+                      <span>{t('studio.business_hours')}</span>
+                    </DropdownMenuItem>
+                    <DropdownMenuItem onClick={() => setIsTestSuiteModalOpen(true)}>
+                      <FlaskConical className="w-4 h-4 ltr:mr-2 rtl:ml-2 text-neutral-700" />
+                      <span>{t('studio.test_suite')}</span>
+                    </DropdownMenuItem>
+                    <DropdownMenuItem onClick={() => setIsKnowledgeHealthOpen(true)}>
+                      <ShieldCheck className="w-4 h-4 ltr:mr-2 rtl:ml-2 text-neutral-700" />
+                      <span>{t('studio.knowledge_health')}</span>
+                    </DropdownMenuItem>
                   </DropdownMenuContent>
                 </DropdownMenu>
               </div>
@@ -615,6 +646,47 @@ export default function StudioPage() {
         agent={agent}
       />
 
+      {/* Business Hours Modal */}
+      <BusinessHoursSettingsModal
+        isOpen={isBusinessHoursModalOpen}
+        onClose={() => setIsBusinessHoursModalOpen(false)}
+        agent={agent}
+      />
+
+      {/* Regression Test Suite Modal */}
+      <TestSuiteModal
+        isOpen={isTestSuiteModalOpen}
+        onClose={() => setIsTestSuiteModalOpen(false)}
+        agent={agent}
+      />
+
+      {/* Knowledge Health (stale content) Modal */}
+      <KnowledgeHealthModal
+        isOpen={isKnowledgeHealthOpen}
+        onClose={() => setIsKnowledgeHealthOpen(false)}
+        agent={agent}
+      />
+
+      {/* Knowledge Import / Export Modals */}
+      <ImportKnowledgeBaseModal
+        agentId={agent.id}
+        existing={knowledgeBases ?? []}
+        isOpen={isImportKBModalOpen}
+        onClose={() => setIsImportKBModalOpen(false)}
+      />
+      <ExportKnowledgeBaseModal
+        isOpen={isExportKBModalOpen}
+        onClose={() => setIsExportKBModalOpen(false)}
+        agentId={agent.id}
+        onExportCreated={setKnowledgeExportJobId}
+      />
+      <ExportProgressModal
+        isOpen={!!knowledgeExportJobId}
+        onClose={() => setKnowledgeExportJobId(null)}
+        jobId={knowledgeExportJobId}
+        kind="knowledge"
+      />
+
       {/* Test Gate Bottom Sheet - Mobile only, when testing without knowledge */}
       <TestGateBottomSheet
         isOpen={isTestGateOpen}
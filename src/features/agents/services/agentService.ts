@@ -18,6 +18,31 @@ import type {
   CreateFollowUpStepRequest,
   UpdateFollowUpStepRequest,
 } from '../types/followUp.types';
+import type { BusinessHours, Weekday } from '../types/businessHours.types';
+import type {
+  ComparePromptVersionsRequest,
+  PromptCompareResult,
+  PromptVersion,
+} from '../types/promptVersion.types';
+import type {
+  CreateTestCaseRequest,
+  RunTestSuiteRequest,
+  TestCase,
+  TestCaseOutcome,
+  TestExpectation,
+  UpdateTestCaseRequest,
+} from '../types/testSuite.types';
+import type {
+  CrawlOptions,
+  CrawlPreview,
+  CrawlSchedule,
+  CrawlSource,
+  CrawlSourceType,
+  StartCrawlRequest,
+  UpdateCrawlSourceRequest,
+} from '../types/crawl.types';
+import type { KnowledgeBaseRevision, KnowledgeHealthReport } from '../types/knowledgeReview.types';
+import type { KnowledgeImportEntry } from '../types/knowledgeTransfer.types';
 import { organizationService } from '@/features/organizations/services/organizationService';
 import { detectCountryFromTimezone } from '@/features/onboarding/utils/countryDetector';
 
@@ -52,6 +77,18 @@ interface ApiAgentResponse {
   follow_up_platforms?: string[];
   ai_handoff_window_minutes?: number;
   ai_model?: string;
+  business_hours?: ApiBusinessHours | null;
+  test_suite_gate_enabled?: boolean;
+}
+
+// Business hours (snake_case from backend)
+interface ApiBusinessHours {
+  enabled: boolean;
+  timezone: string;
+  weekly_schedule: { day: number; intervals: { start: string; end: string }[] }[];
+  exceptions: { date: string; name: string; intervals: { start: string; end: string }[] }[];
+  away_message: string | null;
+  follow_ups_during_hours_only: boolean;
 }
 
 interface ApiResponse<T> {
@@ -74,6 +111,7 @@ interface ApiDocumentJobResponse {
   status: string;
   progress: number;
   current_step: string | null;
+  source?: string;
   file_name: string;
   file_size: number;
   created_at: string;
@@ -87,6 +125,28 @@ interface ApiDocumentJobResponse {
   error_message: string | null;
 }
 
+// Crawl API Response Types (snake_case from backend)
+interface ApiCrawlPreviewResponse {
+  pages: { url: string; title: string | null; depth: number }[];
+  truncated: boolean;
+}
+
+interface ApiCrawlSourceResponse {
+  id: string;
+  agent_id: string;
+  url: string;
+  source_type: string;
+  max_depth: number;
+  max_pages: number;
+  include_patterns: string[] | null;
+  exclude_patterns: string[] | null;
+  schedule: string;
+  page_count: number;
+  last_crawled_at: string | null;
+  next_crawl_at: string | null;
+  last_job_id: string | null;
+}
+
 // Follow-Up Step API Response Type (snake_case from backend)
 interface ApiFollowUpStepResponse {
   id: string;
@@ -98,7 +158,69 @@ interface ApiFollowUpStepResponse {
   updated_at: string;
 }
 
+// Prompt Version API Response Types (snake_case from backend)
+interface ApiPromptVersionResponse {
+  id: string;
+  agent_id: string;
+  version_number: number;
+  persona_prompt: string | null;
+  change_note: string | null;
+  author_id: string | null;
+  author_name: string | null;
+  restored_from_version_number: number | null;
+  created_at: string;
+}
+
+interface ApiPromptCompareResult {
+  version_id: string;
+  response: string | null;
+  latency_ms: number | null;
+  error: string | null;
+}
+
+// Test Suite API Response Types (snake_case from backend)
+interface ApiTestCaseResponse {
+  id: string;
+  agent_id: string;
+  name: string;
+  turns: string[];
+  expectations: TestExpectation[];
+  created_at: string;
+  updated_at: string;
+}
+
+interface ApiTestCaseOutcome {
+  case_id: string;
+  replies: string[];
+  triggered_action_ids: string[];
+  sent_attachment_ids: string[];
+  handed_off: boolean;
+  error: string | null;
+}
+
 class AgentService {
+  private transformBusinessHours(api: ApiBusinessHours): BusinessHours {
+    return {
+      enabled: api.enabled,
+      timezone: api.timezone,
+      weeklySchedule: (api.weekly_schedule ?? []).map((d) => ({ day: d.day as Weekday, intervals: d.intervals ?? [] })),
+      exceptions: api.exceptions ?? [],
+      awayMessage: api.away_message ?? null,
+      followUpsDuringHoursOnly: api.follow_ups_during_hours_only ?? false,
+    };
+  }
+
+  private toApiBusinessHours(hours: BusinessHours): ApiBusinessHours {
+    return {
+      enabled: hours.enabled,
+      timezone: hours.timezone,
+      weekly_schedule: hours.weeklySchedule,
+      exceptions: hours.exceptions,
+      away_message: hours.awayMessage?.trim() || null,
+      follow_ups_during_hours_only: hours.followUpsDuringHoursOnly,
+    };
+  }
+
   /**
    * Transform API response from snake_case to camelCase
    */
@@ -133,6 +255,8 @@ class AgentService {
       followUpPlatforms: apiAgent.follow_up_platforms ?? [],
       aiHandoffWindowMinutes: apiAgent.ai_handoff_window_minutes ?? 15,
       aiModel: apiAgent.ai_model ?? null,
+      businessHours: apiAgent.business_hours ? this.transformBusinessHours(apiAgent.business_hours) : null,
+      testSuiteGateEnabled: apiAgent.test_suite_gate_enabled ?? false,
     };
   }
 
@@ -246,6 +370,7 @@ class AgentService {
       name: request.name,
       description: request.description,
       persona_prompt: request.personaPrompt,
+      prompt_change_note: request.promptChangeNote || undefined,
       language: request.language,
       platform_target: request.platformTarget,
       allow_handoff: request.allowHandoff,
@@ -256,6 +381,8 @@ class AgentService {
       follow_up_platforms: request.followUpPlatforms,
       ai_handoff_window_minutes: request.aiHandoffWindowMinutes,
       ai_model: request.aiModel,
+      business_hours: request.businessHours ? this.toApiBusinessHours(request.businessHours) : undefined,
+      test_suite_gate_enabled: request.testSuiteGateEnabled,
     };
 
     const { data } = await api.put<ApiResponse<ApiAgentResponse>>(`/api/agents/${id}`, snakeCaseRequest);
@@ -394,6 +521,7 @@ class AgentService {
       status: apiJob.status as DocumentJobStatus,
       progress: apiJob.progress,
       currentStep: apiJob.current_step as DocumentProcessingJob['currentStep'],
+      source: apiJob.source === 'crawl' ? 'crawl' : 'document',
       fileName: apiJob.file_name,
       fileSize: apiJob.file_size,
       createdAt: apiJob.created_at,
@@ -461,6 +589,110 @@ class AgentService {
     await api.delete(`/api/knowledgebases/document-jobs/${jobId}`);
   }
 
+  // ==================== Website Crawling ====================
+
+  private toApiCrawlOptions(options: CrawlOptions) {
+    return {
+      url: options.url,
+      source_type: options.sourceType,
+      max_depth: options.maxDepth,
+      max_pages: options.maxPages,
+      include_patterns: options.includePatterns,
+      exclude_patterns: options.excludePatterns,
+    };
+  }
+
+  private transformCrawlSource(apiSource: ApiCrawlSourceResponse): CrawlSource {
+    return {
+      id: apiSource.id,
+      agentId: apiSource.agent_id,
+      url: apiSource.url,
+      sourceType: apiSource.source_type as CrawlSourceType,
+      maxDepth: apiSource.max_depth,
+      maxPages: apiSource.max_pages,
+      includePatterns: apiSource.include_patterns ?? [],
+      excludePatterns: apiSource.exclude_patterns ?? [],
+      schedule: apiSource.schedule as CrawlSchedule,
+      pageCount: apiSource.page_count,
+      lastCrawledAt: apiSource.last_crawled_at,
+      nextCrawlAt: apiSource.next_crawl_at,
+      lastJobId: apiSource.last_job_id,
+    };
+  }
+
+  /**
+   * Discover the pages a crawl would import, without importing anything
+   */
+  async previewCrawl(agentId: string, options: CrawlOptions): Promise<CrawlPreview> {
+    const { data } = await api.post<ApiResponse<ApiCrawlPreviewResponse>>(
+      '/api/knowledgebases/crawl/preview',
+      { agent_id: agentId, ...this.toApiCrawlOptions(options) }
+    );
+    return { pages: data.data.pages ?? [], truncated: data.data.truncated };
+  }
+
+  /**
+   * Start a crawl as a document processing job (tracked like an upload).
+   * Also saves the crawl source so it can be re-crawled on its schedule.
+   */
+  async startCrawlAsync(agentId: string, request: StartCrawlRequest): Promise<DocumentJobCreated> {
+    const { data } = await api.post<ApiResponse<ApiDocumentJobCreatedResponse>>(
+      '/api/knowledgebases/crawl-async',
+      {
+        agent_id: agentId,
+        ...this.toApiCrawlOptions(request),
+        urls: request.urls,
+        schedule: request.schedule,
+      }
+    );
+    return this.transformJobCreated(data.data);
+  }
+
+  /**
+   * List an agent's saved crawl sources
+   */
+  async getCrawlSources(agentId: string): Promise<CrawlSource[]> {
+    const { data } = await api.get<ApiResponse<ApiCrawlSourceResponse[]>>(
+      `/api/agents/${agentId}/crawl-sources`
+    );
+    return (data.data ?? []).map(source => this.transformCrawlSource(source));
+  }
+
+  /**
+   * Update a crawl source's schedule or filters (applies from the next crawl)
+   */
+  async updateCrawlSource(agentId: string, sourceId: string, request: UpdateCrawlSourceRequest): Promise<CrawlSource> {
+    const { data } = await api.put<ApiResponse<ApiCrawlSourceResponse>>(
+      `/api/agents/${agentId}/crawl-sources/${sourceId}`,
+      {
+        schedule: request.schedule,
+        max_depth: request.maxDepth,
+        max_pages: request.maxPages,
+        include_patterns: request.includePatterns,
+        exclude_patterns: request.excludePatterns,
+      }
+    );
+    return this.transformCrawlSource(data.data);
+  }
+
+  /**
+   * Stop tracking a crawl source. Entries it already created are kept.
+   */
+  async deleteCrawlSource(agentId: string, sourceId: string): Promise<void> {
+    await api.delete(`/api/agents/${agentId}/crawl-sources/${sourceId}`);
+  }
+
+  /**
+   * Re-crawl a source now. Unchanged pages are skipped, changed pages update
+   * their existing entry (matched by sourceUrl) and new pages add entries.
+   */
+  async recrawlSource(agentId: string, sourceId: string): Promise<DocumentJobCreated> {
+    const { data } = await api.post<ApiResponse<ApiDocumentJobCreatedResponse>>(
+      `/api/agents/${agentId}/crawl-sources/${sourceId}/recrawl`
+    );
+    return this.transformJobCreated(data.data);
+  }
+
   // ==================== Follow-Up Steps ====================
 
   private transformFollowUpStep(apiStep: ApiFollowUpStepResponse): FollowUpStep {
@@ -521,6 +753,195 @@ class AgentService {
   async deleteFollowUpStep(agentId: string, stepId: string): Promise<void> {
     await api.delete(`/api/agents/${agentId}/followup-steps/${stepId}`);
   }
+
+  // ==================== Prompt Versions ====================
+
+  private transformPromptVersion(apiVersion: ApiPromptVersionResponse): PromptVersion {
+    return {
+      id: apiVersion.id,
+      agentId: apiVersion.agent_id,
+      versionNumber: apiVersion.version_number,
+      personaPrompt: apiVersion.persona_prompt ?? '',
+      changeNote: apiVersion.change_note,
+      authorId: apiVersion.author_id,
+      authorName: apiVersion.author_name,
+      restoredFromVersionNumber: apiVersion.restored_from_version_number,
+      createdAt: apiVersion.created_at,
+    };
+  }
+
+  /**
+   * Get an agent's prompt versions, newest first
+   */
+  async getPromptVersions(agentId: string): Promise<PromptVersion[]> {
+    const { data } = await api.get<ApiResponse<ApiPromptVersionResponse[]>>(
+      `/api/agents/${agentId}/prompt-versions`
+    );
+    return (data.data ?? []).map(v => this.transformPromptVersion(v));
+  }
+
+  /**
+   * Restore a prompt version. The backend copies it into a new version and
+   * makes it the agent's live prompt; history is never rewritten.
+   */
+  async restorePromptVersion(agentId: string, versionId: string): Promise<Agent> {
+    const { data } = await api.post<ApiResponse<ApiAgentResponse>>(
+      `/api/agents/${agentId}/prompt-versions/${versionId}/restore`
+    );
+    return this.transformAgent(data.data);
+  }
+
+  /**
+   * Answer one test message with two prompt versions side by side.
+   * Runs outside any conversation — nothing is stored or sent to a channel.
+   */
+  async comparePromptVersions(agentId: string, request: ComparePromptVersionsRequest): Promise<PromptCompareResult[]> {
+    const { data } = await api.post<ApiResponse<ApiPromptCompareResult[]>>(
+      `/api/agents/${agentId}/prompt-versions/compare`,
+      { message: request.message, version_ids: request.versionIds }
+    );
+    return (data.data ?? []).map((result) => ({
+      versionId: result.version_id,
+      response: result.response,
+      latencyMs: result.latency_ms,
+      error: result.error,
+    }));
+  }
+
+  // ==================== Test Suite ====================
+
+  private transformTestCase(apiCase: ApiTestCaseResponse): TestCase {
+    return {
+      id: apiCase.id,
+      agentId: apiCase.agent_id,
+      name: apiCase.name,
+      turns: apiCase.turns ?? [],
+      expectations: apiCase.expectations ?? [],
+      createdAt: apiCase.created_at,
+      updatedAt: apiCase.updated_at,
+    };
+  }
+
+  /**
+   * Get an agent's saved test cases
+   */
+  async getTestCases(agentId: string): Promise<TestCase[]> {
+    const { data } = await api.get<ApiResponse<ApiTestCaseResponse[]>>(
+      `/api/agents/${agentId}/test-cases`
+    );
+    return (data.data ?? []).map(c => this.transformTestCase(c));
+  }
+
+  /**
+   * Create a test case
+   */
+  async createTestCase(agentId: string, request: CreateTestCaseRequest): Promise<TestCase> {
+    const { data } = await api.post<ApiResponse<ApiTestCaseResponse>>(
+      `/api/agents/${agentId}/test-cases`,
+      request
+    );
+    return this.transformTestCase(data.data);
+  }
+
+  /**
+   * Update a test case
+   */
+  async updateTestCase(agentId: string, caseId: string, request: UpdateTestCaseRequest): Promise<TestCase> {
+    const { data } = await api.put<ApiResponse<ApiTestCaseResponse>>(
+      `/api/agents/${agentId}/test-cases/${caseId}`,
+      request
+    );
+    return this.transformTestCase(data.data);
+  }
+
+  /**
+   * Delete a test case
+   */
+  async deleteTestCase(agentId: string, caseId: string): Promise<void> {
+    await api.delete(`/api/agents/${agentId}/test-cases/${caseId}`);
+  }
+
+  /**
+   * Play test case scripts back against the agent. Each case runs in its own
+   * throwaway studio conversation; actions run in test mode and nothing is
+   * sent to a channel. Pass / fail is evaluated client-side (utils/testSuite).
+   */
+  async runTestSuite(agentId: string, request: RunTestSuiteRequest = {}): Promise<TestCaseOutcome[]> {
+    const { data } = await api.post<ApiResponse<ApiTestCaseOutcome[]>>(
+      `/api/agents/${agentId}/test-cases/run`,
+      { case_ids: request.caseIds, persona_prompt: request.personaPrompt }
+    );
+    return (data.data ?? []).map((outcome) => ({
+      caseId: outcome.case_id,
+      replies: outcome.replies ?? [],
+      triggeredActionIds: outcome.triggered_action_ids ?? [],
+      sentAttachmentIds: outcome.sent_attachment_ids ?? [],
+      handedOff: outcome.handed_off,
+      error: outcome.error,
+    }));
+  }
+
+  // ==================== Knowledge Review ====================
+
+  /**
+   * Get a knowledge base entry's revisions, newest first
+   */
+  async getKnowledgeBaseRevisions(id: string, agentId: string): Promise<KnowledgeBaseRevision[]> {
+    const { data } = await api.get<KnowledgeBaseRevision[]>(
+      `/api/knowledgebases/${id}/revisions?agentId=${agentId}`
+    );
+    return data ?? [];
+  }
+
+  /**
+   * Restore a revision. The backend writes it back as a new revision, so the
+   * restore itself can be undone.
+   */
+  async restoreKnowledgeBaseRevision(id: string, agentId: string, revisionId: string): Promise<KnowledgeBase> {
+    const { data } = await api.post<KnowledgeBase>(
+      `/api/knowledgebases/${id}/revisions/${revisionId}/restore?agentId=${agentId}`
+    );
+    return data;
+  }
+
+  /**
+   * Mark an entry as reviewed (content confirmed still accurate) without editing it
+   */
+  async markKnowledgeBaseReviewed(id: string, agentId: string): Promise<KnowledgeBase> {
+    const { data } = await api.post<KnowledgeBase>(`/api/knowledgebases/${id}/review?agentId=${agentId}`);
+    return data;
+  }
+
+  /**
+   * Stale-content report across all of an agent's knowledge bases: outdated,
+   * never cited and review-due entries, plus duplicated / contradictory pairs
+   */
+  async getKnowledgeHealth(agentId: string, staleAfterDays: number): Promise<KnowledgeHealthReport> {
+    const { data } = await api.get<KnowledgeHealthReport>(
+      `/api/agents/${agentId}/knowledgebases/health?staleAfterDays=${staleAfterDays}`
+    );
+    return data;
+  }
+
+  // ==================== Knowledge Import ====================
+
+  /**
+   * Read the entries of a knowledge import file (CSV, JSON or zipped Markdown,
+   * as written by the knowledge export). Nothing is saved; the client plans
+   * and applies the import with create / link / update calls.
+   */
+  async parseKnowledgeImport(agentId: string, file: File): Promise<KnowledgeImportEntry[]> {
+    const formData = new FormData();
+    formData.append('file', file);
+    formData.append('agentId', agentId);
+
+    const { data } = await api.post<KnowledgeImportEntry[]>('/api/knowledgebases/import/parse', formData, {
+      headers: {
+        'Content-Type': 'multipart/form-data',
+      },
+    });
+    return data ?? [];
+  }
 }
 
 export const agentService = new AgentService();
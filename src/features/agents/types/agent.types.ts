@@ -1,3 +1,5 @@
+import type { BusinessHours } from './businessHours.types';
+
 export type AgentStatus = 'draft' | 'active' | 'deleted';
 
 export type ModelProvider = 'gemini' | 'openai' | 'claude';
@@ -34,6 +36,10 @@ export type Agent = {
   followUpPlatforms: string[];
   aiHandoffWindowMinutes: number;
   aiModel: string | null;
+  /** Null until the agent's business hours are first configured */
+  businessHours: BusinessHours | null;
+  /** Prompt edits in the Studio must pass the agent's test suite before saving */
+  testSuiteGateEnabled: boolean;
 };
 
 export type CreateAgentRequest = {
@@ -53,6 +59,8 @@ export type UpdateAgentRequest = {
   name?: string;
   description?: string;
   personaPrompt?: string;
+  /** Stored on the prompt version created by a `personaPrompt` change */
+  promptChangeNote?: string;
   language?: string;
   platformTarget?: PlatformTarget;
   allowHandoff?: boolean;
@@ -63,6 +71,8 @@ export type UpdateAgentRequest = {
   followUpPlatforms?: string[];
   aiHandoffWindowMinutes?: number;
   aiModel?: string | null;
+  businessHours?: BusinessHours;
+  testSuiteGateEnabled?: boolean;
 };
 
 export type KnowledgeBase = {
@@ -73,6 +83,10 @@ export type KnowledgeBase = {
   sourceUrl: string | null;
   tags: string[] | null;
   status: string;
+  /** Set by "mark as reviewed" and by content edits */
+  lastReviewedAt?: string | null;
+  /** Review reminder cadence; null / missing = no reminders */
+  reviewIntervalDays?: number | null;
   createdAt: string;
   updatedAt: string;
 };
@@ -92,6 +106,7 @@ export type UpdateKnowledgeBaseRequest = {
   sourceUrl?: string;
   tags?: string[];
   status?: string;
+  reviewIntervalDays?: number | null;
 };
 
 export const AI_MODEL_OPTIONS = [
@@ -109,13 +124,16 @@ export type AgentFilters = {
 
 // Document Processing Job Types
 export type DocumentJobStatus = 'pending' | 'processing' | 'completed' | 'failed' | 'cancelled';
-export type DocumentJobStep = 'validating' | 'parsing' | 'ai_processing' | 'completed';
+export type DocumentJobStep = 'validating' | 'crawling' | 'parsing' | 'ai_processing' | 'completed';
+/** Uploaded file, or website / sitemap crawl (fileName then holds the site URL) */
+export type DocumentJobSource = 'document' | 'crawl';
 
 export type DocumentProcessingJob = {
   jobId: string;
   status: DocumentJobStatus;
   progress: number;
   currentStep: DocumentJobStep | null;
+  source: DocumentJobSource;
   fileName: string;
   fileSize: number;
   createdAt: string;
@@ -0,0 +1,44 @@
+/**
+ * Business hours — when humans staff an agent's inbox.
+ *
+ * Drives AI behavior server-side: inside staffed hours the AI may hand off to
+ * a human (allowHandoff / aiHandoffWindowMinutes); outside them the AI stays
+ * on and, if set, sends the away message. Follow-ups can be held back to the
+ * same calendar.
+ */
+
+/** 0 = Sunday … 6 = Saturday (matches Date#getDay) */
+export type Weekday = 0 | 1 | 2 | 3 | 4 | 5 | 6;
+
+/** Local wall-clock range in the schedule's timezone, "HH:mm" 24h, end exclusive */
+export type BusinessHoursInterval = {
+  start: string;
+  end: string;
+};
+
+export type BusinessHoursDay = {
+  day: Weekday;
+  /** Empty = closed all day */
+  intervals: BusinessHoursInterval[];
+};
+
+/** Date-specific override of the weekly schedule (holiday or special hours) */
+export type BusinessHoursException = {
+  /** "yyyy-MM-dd" in the schedule's timezone */
+  date: string;
+  name: string;
+  /** Empty = closed all day */
+  intervals: BusinessHoursInterval[];
+};
+
+export type BusinessHours = {
+  enabled: boolean;
+  /** IANA timezone, e.g. "Asia/Riyadh" */
+  timezone: string;
+  weeklySchedule: BusinessHoursDay[];
+  exceptions: BusinessHoursException[];
+  /** Sent by the AI to customers who write outside business hours; null = none */
+  awayMessage: string | null;
+  /** Hold scheduled follow-ups until the next opening */
+  followUpsDuringHoursOnly: boolean;
+};
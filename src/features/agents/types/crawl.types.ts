@@ -0,0 +1,52 @@
+/**
+ * Website crawl ingestion. A crawl source remembers how a site was imported so
+ * it can be re-crawled on a schedule; each crawl runs as a DocumentProcessingJob
+ * and creates one knowledge entry per page (`sourceType: 'website'`, `sourceUrl`
+ * = page URL). Re-crawls only rewrite entries whose page content changed.
+ */
+
+export type CrawlSourceType = 'website' | 'sitemap';
+
+export type CrawlSchedule = 'none' | 'daily' | 'weekly' | 'monthly';
+
+export type CrawlOptions = {
+  /** Start page for `website`, sitemap.xml URL for `sitemap` */
+  url: string;
+  sourceType: CrawlSourceType;
+  /** Link depth followed from the start page (ignored for sitemaps) */
+  maxDepth: number;
+  maxPages: number;
+  /** Path globs (`*` wildcard); empty means every page */
+  includePatterns: string[];
+  excludePatterns: string[];
+};
+
+export type DiscoveredPage = {
+  url: string;
+  title: string | null;
+  depth: number;
+};
+
+export type CrawlPreview = {
+  pages: DiscoveredPage[];
+  /** Discovery stopped at maxPages before the site was exhausted */
+  truncated: boolean;
+};
+
+export type StartCrawlRequest = CrawlOptions & {
+  /** Pages picked from the preview; all discovered pages when omitted */
+  urls?: string[];
+  schedule: CrawlSchedule;
+};
+
+export type CrawlSource = CrawlOptions & {
+  id: string;
+  agentId: string;
+  schedule: CrawlSchedule;
+  pageCount: number;
+  lastCrawledAt: string | null;
+  nextCrawlAt: string | null;
+  lastJobId: string | null;
+};
+
+export type UpdateCrawlSourceRequest = Partial<Pick<CrawlSource, 'schedule' | 'includePatterns' | 'excludePatterns' | 'maxDepth' | 'maxPages'>>;
@@ -0,0 +1,58 @@
+/**
+ * One saved state of a knowledge base entry. The backend records a revision
+ * on every content or name change (edits, restores, re-crawls).
+ */
+export type KnowledgeBaseRevision = {
+  id: string;
+  knowledgeBaseId: string;
+  /** 1-based, increasing per entry */
+  revisionNumber: number;
+  name: string;
+  content: string;
+  authorName: string | null;
+  createdAt: string;
+};
+
+/** How often an entry should be re-checked; null turns reminders off */
+export type ReviewIntervalDays = 30 | 90 | 180 | 365;
+
+export type KnowledgeReviewStatus = 'ok' | 'due' | 'off';
+
+/** An entry flagged by the knowledge health report */
+export type StaleKnowledgeEntry = {
+  knowledgeBaseId: string;
+  name: string;
+  updatedAt: string;
+  lastReviewedAt: string | null;
+  /** Answers that cited this entry in the report window */
+  citationCount: number;
+  lastCitedAt: string | null;
+};
+
+/**
+ * Two entries that overlap. `duplicate` = near-identical content;
+ * `contradiction` = same topic with conflicting facts (explained by the model).
+ */
+export type KnowledgeConflict = {
+  type: 'duplicate' | 'contradiction';
+  entries: [KnowledgeConflictSide, KnowledgeConflictSide];
+  /** 0–1 content similarity */
+  similarity: number;
+  explanation: string | null;
+};
+
+export type KnowledgeConflictSide = {
+  knowledgeBaseId: string;
+  name: string;
+  excerpt: string;
+};
+
+export type KnowledgeHealthReport = {
+  staleAfterDays: number;
+  generatedAt: string;
+  /** Not updated or reviewed in `staleAfterDays` */
+  outdated: StaleKnowledgeEntry[];
+  neverCited: StaleKnowledgeEntry[];
+  reviewDue: StaleKnowledgeEntry[];
+  conflicts: KnowledgeConflict[];
+};
@@ -0,0 +1,41 @@
+/**
+ * One entry read from an import file (CSV, JSON or zipped Markdown). Same
+ * fields the knowledge export writes.
+ */
+export type KnowledgeImportEntry = {
+  name: string;
+  content: string;
+  tags: string[];
+  sourceType: string | null;
+  sourceUrl: string | null;
+};
+
+/** What to do with an entry that already exists on the agent */
+export type KnowledgeImportStrategy = 'skip' | 'overwrite' | 'keep_both';
+
+/**
+ * Why an entry ends up with its action:
+ * `identical` = same name and content already on the agent,
+ * `same_name` / `same_content` = partial duplicate (strategy applies),
+ * `in_file` = repeated earlier in the same file, `invalid` = missing name or content
+ */
+export type KnowledgeImportReason = 'new' | 'identical' | 'same_name' | 'same_content' | 'in_file' | 'invalid';
+
+export type KnowledgeImportAction = 'create' | 'update' | 'skip';
+
+export type KnowledgeImportPlanItem = {
+  entry: KnowledgeImportEntry;
+  reason: KnowledgeImportReason;
+  action: KnowledgeImportAction;
+  /** Name the entry is saved under (renamed for keep_both name clashes) */
+  name: string;
+  /** Existing entry it matched, updated when action is `update` */
+  existingId: string | null;
+};
+
+export type KnowledgeImportResult = {
+  created: number;
+  updated: number;
+  skipped: number;
+  failed: number;
+};
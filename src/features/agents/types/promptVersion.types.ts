@@ -0,0 +1,34 @@
+/**
+ * One saved revision of an agent's persona prompt. The backend records a
+ * version whenever `personaPrompt` changes (editor save, auto-save or restore);
+ * consecutive auto-saves by the same author are folded into one version.
+ */
+export type PromptVersion = {
+  id: string;
+  agentId: string;
+  /** 1-based, increasing per agent */
+  versionNumber: number;
+  personaPrompt: string;
+  changeNote: string | null;
+  authorId: string | null;
+  authorName: string | null;
+  /** Set when the version was created by restoring an older one */
+  restoredFromVersionNumber: number | null;
+  createdAt: string;
+};
+
+/**
+ * One side of a "compare in test chat" run — the same message answered with
+ * a given prompt version. `error` is set instead of `response` when generation failed.
+ */
+export type PromptCompareResult = {
+  versionId: string;
+  response: string | null;
+  latencyMs: number | null;
+  error: string | null;
+};
+
+export type ComparePromptVersionsRequest = {
+  message: string;
+  versionIds: [string, string];
+};
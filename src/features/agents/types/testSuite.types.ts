@@ -0,0 +1,71 @@
+/**
+ * What a test case checks. Text checks are case-insensitive and look at every
+ * AI reply in the run; action / attachment / handoff checks cover the whole script.
+ */
+export type TestExpectationType =
+  | 'contains'
+  | 'not_contains'
+  | 'action_triggered'
+  | 'attachment_sent'
+  | 'handoff'
+  | 'no_handoff';
+
+export type TestExpectation = {
+  type: TestExpectationType;
+  /** Text for contains / not_contains, action id, attachment id; empty for handoff checks */
+  value: string;
+};
+
+/**
+ * A saved regression test for an agent: a scripted conversation (one or more
+ * customer messages, sent in order) and the expectations its run must meet.
+ */
+export type TestCase = {
+  id: string;
+  agentId: string;
+  name: string;
+  turns: string[];
+  expectations: TestExpectation[];
+  createdAt: string;
+  updatedAt: string;
+};
+
+export type CreateTestCaseRequest = {
+  name: string;
+  turns: string[];
+  expectations: TestExpectation[];
+};
+
+export type UpdateTestCaseRequest = Partial<CreateTestCaseRequest>;
+
+export type RunTestSuiteRequest = {
+  /** Run only these cases; the whole suite when omitted */
+  caseIds?: string[];
+  /** Run against an unsaved prompt instead of the agent's live one */
+  personaPrompt?: string;
+};
+
+/** What the agent did while a test case's script was played back */
+export type TestCaseOutcome = {
+  caseId: string;
+  /** AI messages in the order they were sent */
+  replies: string[];
+  triggeredActionIds: string[];
+  sentAttachmentIds: string[];
+  handedOff: boolean;
+  /** Set when the run itself failed (model error, timeout) */
+  error: string | null;
+};
+
+export type ExpectationResult = {
+  expectation: TestExpectation;
+  passed: boolean;
+};
+
+export type TestCaseResult = {
+  testCase: TestCase;
+  /** Null when the run returned nothing for this case */
+  outcome: TestCaseOutcome | null;
+  expectationResults: ExpectationResult[];
+  passed: boolean;
+};
@@ -0,0 +1,98 @@
+import { describe, it, expect } from 'vitest';
+import type { BusinessHours } from '../types/businessHours.types';
+import {
+  createDefaultBusinessHours,
+  getNextOpening,
+  isWithinBusinessHours,
+  validateBusinessHours,
+} from './businessHours';
+
+// Riyadh is UTC+3 all year; Sunday–Thursday 09:00–17:00
+const riyadh = (overrides: Partial<BusinessHours> = {}): BusinessHours => ({
+  ...createDefaultBusinessHours('Asia/Riyadh'),
+  enabled: true,
+  ...overrides,
+});
+
+describe('createDefaultBusinessHours', () => {
+  it('uses the local working week', () => {
+    const open = (hours: BusinessHours) => hours.weeklySchedule.filter((d) => d.intervals.length > 0).map((d) => d.day);
+    expect(open(createDefaultBusinessHours('Asia/Riyadh'))).toEqual([0, 1, 2, 3, 4]);
+    expect(open(createDefaultBusinessHours('Europe/London'))).toEqual([1, 2, 3, 4, 5]);
+  });
+});
+
+describe('isWithinBusinessHours', () => {
+  it('treats a disabled schedule as always staffed', () => {
+    expect(isWithinBusinessHours(riyadh({ enabled: false }), new Date('2026-03-06T22:00:00Z'))).toBe(true);
+    expect(isWithinBusinessHours(null)).toBe(true);
+  });
+
+  it('compares wall-clock time in the schedule timezone', () => {
+    // Sunday 2026-03-01: 06:00Z = 09:00 Riyadh (open), 14:00Z = 17:00 (closed, end exclusive)
+    expect(isWithinBusinessHours(riyadh(), new Date('2026-03-01T06:00:00Z'))).toBe(true);
+    expect(isWithinBusinessHours(riyadh(), new Date('2026-03-01T14:00:00Z'))).toBe(false);
+    // Friday is off
+    expect(isWithinBusinessHours(riyadh(), new Date('2026-03-06T08:00:00Z'))).toBe(false);
+  });
+
+  it('lets exceptions override the weekly schedule', () => {
+    const hours = riyadh({
+      exceptions: [
+        { date: '2026-03-01', name: 'Holiday', intervals: [] },
+        { date: '2026-03-06', name: 'Sale day', intervals: [{ start: '10:00', end: '14:00' }] },
+      ],
+    });
+    expect(isWithinBusinessHours(hours, new Date('2026-03-01T08:00:00Z'))).toBe(false);
+    expect(isWithinBusinessHours(hours, new Date('2026-03-06T08:00:00Z'))).toBe(true);
+  });
+});
+
+describe('getNextOpening', () => {
+  it('finds the next opening after a weekend and holidays', () => {
+    const hours = riyadh({ exceptions: [{ date: '2026-03-08', name: 'Holiday', intervals: [] }] });
+    // Thursday 2026-03-05 20:00 Riyadh → Fri/Sat off, Sun 8th holiday → Mon 9th 09:00 Riyadh
+    expect(getNextOpening(hours, new Date('2026-03-05T17:00:00Z'))?.toISOString()).toBe('2026-03-09T06:00:00.000Z');
+  });
+
+  it('returns a later interval on the same day', () => {
+    const hours = riyadh({
+      weeklySchedule: riyadh().weeklySchedule.map((d) =>
+        d.day === 0 ? { day: 0, intervals: [{ start: '09:00', end: '12:00' }, { start: '14:00', end: '18:00' }] } : d
+      ),
+    });
+    expect(getNextOpening(hours, new Date('2026-03-01T09:30:00Z'))?.toISOString()).toBe('2026-03-01T11:00:00.000Z');
+  });
+
+  it('returns null when nothing ever opens', () => {
+    const closed = riyadh({ weeklySchedule: riyadh().weeklySchedule.map((d) => ({ ...d, intervals: [] })) });
+    expect(getNextOpening(closed, new Date('2026-03-01T00:00:00Z'))).toBeNull();
+  });
+});
+
+describe('validateBusinessHours', () => {
+  const withSunday = (intervals: { start: string; end: string }[]) =>
+    riyadh({ weeklySchedule: riyadh().weeklySchedule.map((d) => (d.day === 0 ? { day: 0, intervals } : d)) });
+
+  it('accepts the default schedule', () => {
+    expect(validateBusinessHours(riyadh())).toBeNull();
+  });
+
+  it('rejects reversed, overlapping and malformed intervals', () => {
+    expect(validateBusinessHours(withSunday([{ start: '17:00', end: '09:00' }]))).toBe('end_before_start');
+    expect(
+      validateBusinessHours(withSunday([{ start: '09:00', end: '13:00' }, { start: '12:00', end: '15:00' }]))
+    ).toBe('overlap');
+    expect(validateBusinessHours(withSunday([{ start: '9:00', end: '17:00' }]))).toBe('invalid_time');
+  });
+
+  it('rejects two exceptions on the same date', () => {
+    const hours = riyadh({
+      exceptions: [
+        { date: '2026-03-01', name: 'A', intervals: [] },
+        { date: '2026-03-01', name: 'B', intervals: [] },
+      ],
+    });
+    expect(validateBusinessHours(hours)).toBe('duplicate_exception');
+  });
+});
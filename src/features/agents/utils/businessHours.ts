@@ -0,0 +1,133 @@
+/**
+ * Business hours helpers
+ * Pure calendar math over an agent's BusinessHours — see types/businessHours.types.ts.
+ * All wall-clock comparisons happen in the schedule's timezone, not the viewer's.
+ */
+
+import { addDays } from 'date-fns';
+import { formatInTimeZone, fromZonedTime } from 'date-fns-tz';
+import type {
+  BusinessHours,
+  BusinessHoursDay,
+  BusinessHoursInterval,
+  Weekday,
+} from '../types/businessHours.types';
+
+export const WEEKDAYS: Weekday[] = [0, 1, 2, 3, 4, 5, 6];
+
+/** How far ahead getNextOpening looks before giving up (covers long holiday runs) */
+const NEXT_OPENING_LOOKAHEAD_DAYS = 30;
+
+const TIME_PATTERN = /^([01]\d|2[0-3]):[0-5]\d$/;
+
+const toMinutes = (time: string) => {
+  const [hours, minutes] = time.split(':').map(Number);
+  return hours * 60 + minutes;
+};
+
+/**
+ * Sunday–Thursday or Monday–Friday 09:00–17:00, depending on the timezone's
+ * usual working week.
+ */
+export function createDefaultBusinessHours(timezone: string): BusinessHours {
+  const sundayWeek = /^Asia\/(Riyadh|Kuwait|Qatar|Bahrain|Baghdad|Amman|Jerusalem|Hebron|Gaza)$|^Africa\/Cairo$/.test(timezone);
+  const workdays: Weekday[] = sundayWeek ? [0, 1, 2, 3, 4] : [1, 2, 3, 4, 5];
+  return {
+    enabled: false,
+    timezone,
+    weeklySchedule: WEEKDAYS.map((day) => ({
+      day,
+      intervals: workdays.includes(day) ? [{ start: '09:00', end: '17:00' }] : [],
+    })),
+    exceptions: [],
+    awayMessage: null,
+    followUpsDuringHoursOnly: false,
+  };
+}
+
+/**
+ * Intervals that apply on one local date — the exception if there is one,
+ * otherwise that weekday's schedule.
+ */
+function getIntervalsForDate(hours: BusinessHours, localDate: string, weekday: Weekday): BusinessHoursInterval[] {
+  const exception = hours.exceptions.find((e) => e.date === localDate);
+  if (exception) return exception.intervals;
+  return hours.weeklySchedule.find((d) => d.day === weekday)?.intervals ?? [];
+}
+
+/**
+ * Whether humans are on shift at `at`. Disabled business hours mean "always
+ * staffed" so agents that never configured a calendar keep today's behavior.
+ */
+export function isWithinBusinessHours(hours: BusinessHours | null | undefined, at: Date = new Date()): boolean {
+  if (!hours?.enabled) return true;
+
+  const localDate = formatInTimeZone(at, hours.timezone, 'yyyy-MM-dd');
+  const weekday = Number(formatInTimeZone(at, hours.timezone, 'i')) % 7 as Weekday;
+  const minutes = toMinutes(formatInTimeZone(at, hours.timezone, 'HH:mm'));
+
+  return getIntervalsForDate(hours, localDate, weekday).some(
+    (interval) => minutes >= toMinutes(interval.start) && minutes < toMinutes(interval.end)
+  );
+}
+
+/**
+ * Next instant business hours open after `at`, or null when nothing opens
+ * within the lookahead (or the schedule is disabled / always closed).
+ */
+export function getNextOpening(hours: BusinessHours | null | undefined, at: Date = new Date()): Date | null {
+  if (!hours?.enabled) return null;
+
+  const startDate = formatInTimeZone(at, hours.timezone, 'yyyy-MM-dd');
+  // Noon UTC on the local date keeps addDays clear of DST edges
+  const anchor = new Date(`${startDate}T12:00:00Z`);
+
+  for (let offset = 0; offset <= NEXT_OPENING_LOOKAHEAD_DAYS; offset++) {
+    const day = addDays(anchor, offset);
+    const localDate = day.toISOString().slice(0, 10);
+    const weekday = day.getUTCDay() as Weekday;
+    const openings = getIntervalsForDate(hours, localDate, weekday)
+      .map((interval) => fromZonedTime(`${localDate}T${interval.start}:00`, hours.timezone))
+      .filter((opening) => opening.getTime() > at.getTime())
+      .sort((a, b) => a.getTime() - b.getTime());
+    if (openings.length > 0) return openings[0];
+  }
+  return null;
+}
+
+export type BusinessHoursError = 'invalid_time' | 'end_before_start' | 'overlap' | 'duplicate_exception';
+
+function validateIntervals(intervals: BusinessHoursInterval[]): BusinessHoursError | null {
+  for (const interval of intervals) {
+    if (!TIME_PATTERN.test(interval.start) || !TIME_PATTERN.test(interval.end)) return 'invalid_time';
+    if (toMinutes(interval.end) <= toMinutes(interval.start)) return 'end_before_start';
+  }
+  const sorted = [...intervals].sort((a, b) => toMinutes(a.start) - toMinutes(b.start));
+  for (let i = 1; i < sorted.length; i++) {
+    if (toMinutes(sorted[i].start) < toMinutes(sorted[i - 1].end)) return 'overlap';
+  }
+  return null;
+}
+
+/**
+ * First problem found in the schedule, keyed for `business_hours.errors.*`
+ */
+export function validateBusinessHours(hours: BusinessHours): BusinessHoursError | null {
+  for (const day of hours.weeklySchedule) {
+    const error = validateIntervals(day.intervals);
+    if (error) return error;
+  }
+  const dates = new Set<string>();
+  for (const exception of hours.exceptions) {
+    if (dates.has(exception.date)) return 'duplicate_exception';
+    dates.add(exception.date);
+    const error = validateIntervals(exception.intervals);
+    if (error) return error;
+  }
+  return null;
+}
+
+/** Weekly schedule ordered from the given first day of the week */
+export function orderWeek(schedule: BusinessHoursDay[], firstDay: Weekday): BusinessHoursDay[] {
+  return [...schedule].sort((a, b) => ((a.day - firstDay + 7) % 7) - ((b.day - firstDay + 7) % 7));
+}
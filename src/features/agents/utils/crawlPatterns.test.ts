@@ -0,0 +1,46 @@
+import { describe, it, expect } from 'vitest';
+import { detectCrawlSourceType, matchesCrawlPatterns, normalizeCrawlUrl, parsePatternList } from './crawlPatterns';
+
+describe('normalizeCrawlUrl', () => {
+  it('adds https when the scheme is missing', () => {
+    expect(normalizeCrawlUrl(' example.com/help ')).toBe('https://example.com/help');
+    expect(normalizeCrawlUrl('http://example.com')).toBe('http://example.com/');
+  });
+
+  it('rejects non-web schemes and bare words', () => {
+    expect(normalizeCrawlUrl('ftp://example.com')).toBeNull();
+    expect(normalizeCrawlUrl('localhost')).toBeNull();
+    expect(normalizeCrawlUrl('')).toBeNull();
+  });
+});
+
+describe('detectCrawlSourceType', () => {
+  it('recognises sitemap files', () => {
+    expect(detectCrawlSourceType('https://example.com/sitemap.xml')).toBe('sitemap');
+    expect(detectCrawlSourceType('https://example.com/sitemap_index.xml.gz')).toBe('sitemap');
+    expect(detectCrawlSourceType('https://example.com/docs')).toBe('website');
+  });
+});
+
+describe('parsePatternList', () => {
+  it('splits on newlines and commas', () => {
+    expect(parsePatternList('/blog/*\n\n /docs/* , *.pdf')).toEqual(['/blog/*', '/docs/*', '*.pdf']);
+  });
+});
+
+describe('matchesCrawlPatterns', () => {
+  it('keeps every page without patterns', () => {
+    expect(matchesCrawlPatterns('https://example.com/anything', [], [])).toBe(true);
+  });
+
+  it('matches globs against the path', () => {
+    expect(matchesCrawlPatterns('https://example.com/blog/post-1', ['/blog/*'], [])).toBe(true);
+    expect(matchesCrawlPatterns('https://example.com/shop/item', ['/blog/*'], [])).toBe(false);
+    expect(matchesCrawlPatterns('https://example.com/files/guide.PDF', ['*.pdf'], [])).toBe(true);
+  });
+
+  it('lets exclude win over include', () => {
+    expect(matchesCrawlPatterns('https://example.com/blog/tag/news', ['/blog/*'], ['/blog/tag/*'])).toBe(false);
+    expect(matchesCrawlPatterns('https://example.com/cart?step=1', [], ['*?*'])).toBe(false);
+  });
+});
@@ -0,0 +1,65 @@
+/**
+ * Crawl URL helpers
+ * Include / exclude patterns are path globs where `*` matches any run of
+ * characters ("/blog/*", "*.pdf"). The preview list is filtered with the same
+ * rules the crawler applies, so editing patterns needs no new discovery.
+ */
+
+import type { CrawlSourceType } from '../types/crawl.types';
+
+/**
+ * Normalize user input into an absolute http(s) URL, or null when it isn't one.
+ * A missing scheme defaults to https.
+ */
+export function normalizeCrawlUrl(input: string): string | null {
+  const trimmed = input.trim();
+  if (!trimmed) return null;
+  const withScheme = /^[a-z][a-z\d+.-]*:\/\//i.test(trimmed) ? trimmed : `https://${trimmed}`;
+  try {
+    const url = new URL(withScheme);
+    if (url.protocol !== 'http:' && url.protocol !== 'https:') return null;
+    if (!url.hostname.includes('.')) return null;
+    return url.toString();
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Sitemaps are recognised by their file name; everything else is crawled as a site
+ */
+export function detectCrawlSourceType(url: string): CrawlSourceType {
+  return /sitemap[^/]*\.xml(\.gz)?$/i.test(new URL(url).pathname) ? 'sitemap' : 'website';
+}
+
+/**
+ * One pattern per line (or comma-separated), blanks dropped
+ */
+export function parsePatternList(text: string): string[] {
+  return text
+    .split(/[\n,]/)
+    .map((pattern) => pattern.trim())
+    .filter(Boolean);
+}
+
+function globToRegExp(pattern: string): RegExp {
+  const escaped = pattern.replace(/[.+?^${}()|[\]\\]/g, '\\$&').replace(/\*/g, '.*');
+  return new RegExp(`^${escaped}$`, 'i');
+}
+
+/**
+ * Whether a page passes the include / exclude filters. Patterns match the URL
+ * path (plus query); exclude wins over include.
+ */
+export function matchesCrawlPatterns(url: string, includePatterns: string[], excludePatterns: string[]): boolean {
+  let target: string;
+  try {
+    const parsed = new URL(url);
+    target = parsed.pathname + parsed.search;
+  } catch {
+    return false;
+  }
+  const matches = (pattern: string) => globToRegExp(pattern).test(target);
+  if (excludePatterns.some(matches)) return false;
+  return includePatterns.length === 0 || includePatterns.some(matches);
+}
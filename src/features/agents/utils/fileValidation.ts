@@ -1,6 +1,7 @@
 /**
  * File Validation Utilities
- * Reusable validation logic for document file uploads
+ * Reusable validation logic for file uploads: knowledge-base documents here,
+ * chat attachments via conversations/utils/mediaLimits.ts
  */
 
 import {
@@ -16,33 +17,68 @@ import {
 export interface FileValidationResult {
   isValid: boolean;
   error?: string;
+  /** Which rule failed, for callers that word their own messages */
+  reason?: 'size' | 'type';
 }
 
 /**
- * Validate a document file for size and type restrictions
+ * Size and type restrictions a file must satisfy
+ */
+export interface FileValidationRules {
+  maxSizeBytes: number;
+  /** Accepted MIME types */
+  allowedTypes: readonly string[];
+  /** Accepted extensions (with the dot), checked when the MIME type doesn't match */
+  allowedExtensions?: readonly string[];
+}
+
+/**
+ * Lower-cased extension including the dot, or '' when the name has none
+ */
+export const getFileExtension = (fileName: string): string => {
+  const dotIndex = fileName.lastIndexOf('.');
+  return dotIndex === -1 ? '' : fileName.substring(dotIndex).toLowerCase();
+};
+
+/**
+ * Validate a file against size and type rules
  * @param file - The File object to validate
- * @returns Validation result with error message if invalid
+ * @param rules - Maximum size and accepted types/extensions
+ * @returns Validation result with the failing rule if invalid
  */
-export const validateDocumentFile = (file: File): FileValidationResult => {
-  // Validate file size
-  if (file.size > MAX_FILE_SIZE_BYTES) {
-    return {
-      isValid: false,
-      error: FILE_VALIDATION_ERRORS.SIZE,
-    };
+export const validateFileAgainstRules = (file: File, rules: FileValidationRules): FileValidationResult => {
+  if (file.size > rules.maxSizeBytes) {
+    return { isValid: false, reason: 'size' };
   }
 
-  // Validate file type by MIME type and extension
-  const fileExtension = file.name.substring(file.name.lastIndexOf('.')).toLowerCase();
-  const isValidType = (ALLOWED_FILE_TYPES as readonly string[]).includes(file.type);
-  const isValidExtension = (ALLOWED_FILE_EXTENSIONS as readonly string[]).includes(fileExtension);
+  const isValidType = rules.allowedTypes.includes(file.type);
+  const isValidExtension = rules.allowedExtensions?.includes(getFileExtension(file.name)) ?? false;
 
   if (!isValidType && !isValidExtension) {
-    return {
-      isValid: false,
-      error: FILE_VALIDATION_ERRORS.TYPE,
-    };
+    return { isValid: false, reason: 'type' };
   }
 
   return { isValid: true };
 };
+
+/**
+ * Validate a document file for size and type restrictions
+ * @param file - The File object to validate
+ * @returns Validation result with error message if invalid
+ */
+export const validateDocumentFile = (file: File): FileValidationResult => {
+  const result = validateFileAgainstRules(file, {
+    maxSizeBytes: MAX_FILE_SIZE_BYTES,
+    allowedTypes: ALLOWED_FILE_TYPES,
+    allowedExtensions: ALLOWED_FILE_EXTENSIONS,
+  });
+
+  if (result.reason === 'size') {
+    return { ...result, error: FILE_VALIDATION_ERRORS.SIZE };
+  }
+  if (result.reason === 'type') {
+    return { ...result, error: FILE_VALIDATION_ERRORS.TYPE };
+  }
+
+  return result;
+};
@@ -0,0 +1,78 @@
+import { describe, it, expect } from 'vitest';
+import { buildImportPlan, hashKnowledgeContent, summarizeImportPlan } from './knowledgeImport';
+import type { KnowledgeBase } from '../types/agent.types';
+import type { KnowledgeImportEntry } from '../types/knowledgeTransfer.types';
+
+const kb = (id: string, name: string, content: string): KnowledgeBase => ({
+  id,
+  name,
+  content,
+  sourceType: null,
+  sourceUrl: null,
+  tags: null,
+  status: 'active',
+  createdAt: '2026-01-01T00:00:00Z',
+  updatedAt: '2026-01-01T00:00:00Z',
+});
+
+const entry = (name: string, content: string): KnowledgeImportEntry => ({
+  name,
+  content,
+  tags: [],
+  sourceType: null,
+  sourceUrl: null,
+});
+
+const existing = [kb('kb-1', 'Shipping', 'We ship in 3 days.'), kb('kb-2', 'Returns', 'Returns within 14 days.')];
+
+describe('hashKnowledgeContent', () => {
+  it('ignores markup, case and whitespace', () => {
+    expect(hashKnowledgeContent('<p>We ship in  3 days.</p>')).toBe(hashKnowledgeContent('we ship in 3 days.'));
+    expect(hashKnowledgeContent('We ship in 3 days.')).not.toBe(hashKnowledgeContent('We ship in 5 days.'));
+  });
+});
+
+describe('buildImportPlan', () => {
+  const entries = [
+    entry('Shipping', 'we ship in 3 days.'),
+    entry('shipping', 'We ship in 5 days.'),
+    entry('Delivery times', 'Returns within 14 days.'),
+    entry('Warranty', 'Two years.'),
+    entry('Warranty', 'Two years.'),
+    entry('', 'No name'),
+  ];
+
+  it('classifies duplicates by name, content and within the file', () => {
+    const plan = buildImportPlan(entries, existing, 'skip');
+    expect(plan.map((item) => item.reason)).toEqual([
+      'identical',
+      'same_name',
+      'same_content',
+      'new',
+      'in_file',
+      'invalid',
+    ]);
+    expect(summarizeImportPlan(plan)).toEqual({ create: 1, update: 0, skip: 5 });
+  });
+
+  it('overwrites partial duplicates, each existing entry once', () => {
+    const plan = buildImportPlan(
+      [entry('Shipping', 'We ship in 5 days.'), entry('Shipping', 'We ship in 7 days.')],
+      existing,
+      'overwrite'
+    );
+    expect(plan.map((item) => [item.action, item.existingId])).toEqual([
+      ['update', 'kb-1'],
+      ['skip', 'kb-1'],
+    ]);
+  });
+
+  it('keeps both by creating renamed copies', () => {
+    const plan = buildImportPlan(entries, existing, 'keep_both');
+    expect(plan.filter((item) => item.action === 'create').map((item) => item.name)).toEqual([
+      'shipping (2)',
+      'Delivery times',
+      'Warranty',
+    ]);
+  });
+});
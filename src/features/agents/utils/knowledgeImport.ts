@@ -0,0 +1,111 @@
+/**
+ * Knowledge base import planning
+ * Matches imported entries against the agent's existing entries by name and by
+ * content hash, then decides per entry whether to create, update or skip it
+ * according to the chosen merge strategy.
+ */
+
+import type { KnowledgeBase } from '../types/agent.types';
+import type {
+  KnowledgeImportAction,
+  KnowledgeImportEntry,
+  KnowledgeImportPlanItem,
+  KnowledgeImportReason,
+  KnowledgeImportStrategy,
+} from '../types/knowledgeTransfer.types';
+
+export const IMPORT_STRATEGIES: KnowledgeImportStrategy[] = ['skip', 'overwrite', 'keep_both'];
+
+const nameKey = (name: string) => name.trim().toLowerCase();
+
+/**
+ * Stable hash of an entry's content. Markup, case and whitespace are ignored
+ * so rich-text and plain-text copies of the same content match.
+ */
+export function hashKnowledgeContent(content: string): string {
+  const normalized = content
+    .replace(/<[^>]+>/g, ' ')
+    .replace(/\s+/g, ' ')
+    .trim()
+    .toLowerCase();
+
+  // FNV-1a, 32-bit
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < normalized.length; i++) {
+    hash ^= normalized.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return (hash >>> 0).toString(16).padStart(8, '0');
+}
+
+/** `Name` → `Name (2)`, `Name (3)`, … until it is not taken */
+function uniqueName(name: string, taken: Set<string>): string {
+  let candidate = name;
+  for (let n = 2; taken.has(nameKey(candidate)); n++) {
+    candidate = `${name} (${n})`;
+  }
+  return candidate;
+}
+
+function actionFor(reason: KnowledgeImportReason, strategy: KnowledgeImportStrategy): KnowledgeImportAction {
+  if (reason === 'new') return 'create';
+  if (reason !== 'same_name' && reason !== 'same_content') return 'skip';
+  if (strategy === 'overwrite') return 'update';
+  return strategy === 'keep_both' ? 'create' : 'skip';
+}
+
+export function buildImportPlan(
+  entries: KnowledgeImportEntry[],
+  existing: KnowledgeBase[],
+  strategy: KnowledgeImportStrategy
+): KnowledgeImportPlanItem[] {
+  const byName = new Map(existing.map((kb) => [nameKey(kb.name), kb]));
+  const byHash = new Map(existing.map((kb) => [hashKnowledgeContent(kb.content ?? ''), kb]));
+  const takenNames = new Set(byName.keys());
+  const seenInFile = new Set<string>();
+  // Each existing entry is overwritten at most once
+  const updatedIds = new Set<string>();
+
+  return entries.map((entry) => {
+    const name = entry.name.trim();
+    if (!name || !entry.content.trim()) {
+      return { entry, reason: 'invalid', action: 'skip', name, existingId: null };
+    }
+
+    const hash = hashKnowledgeContent(entry.content);
+    const fileKey = `${nameKey(name)}\n${hash}`;
+    if (seenInFile.has(fileKey)) {
+      return { entry, reason: 'in_file', action: 'skip', name, existingId: null };
+    }
+    seenInFile.add(fileKey);
+
+    const nameMatch = byName.get(nameKey(name));
+    const contentMatch = byHash.get(hash);
+    const match = nameMatch ?? contentMatch ?? null;
+    const reason: KnowledgeImportReason =
+      nameMatch && nameMatch === contentMatch
+        ? 'identical'
+        : nameMatch
+          ? 'same_name'
+          : contentMatch
+            ? 'same_content'
+            : 'new';
+
+    let action = actionFor(reason, strategy);
+    if (action === 'update' && match) {
+      if (updatedIds.has(match.id)) action = 'skip';
+      updatedIds.add(match.id);
+    }
+
+    const finalName = action === 'create' ? uniqueName(name, takenNames) : name;
+    if (action === 'create') takenNames.add(nameKey(finalName));
+
+    return { entry, reason, action, name: finalName, existingId: match?.id ?? null };
+  });
+}
+
+export function summarizeImportPlan(plan: KnowledgeImportPlanItem[]): Record<KnowledgeImportAction, number> {
+  const summary: Record<KnowledgeImportAction, number> = { create: 0, update: 0, skip: 0 };
+  for (const item of plan) summary[item.action]++;
+  return summary;
+}
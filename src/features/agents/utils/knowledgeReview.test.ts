@@ -0,0 +1,28 @@
+import { describe, it, expect } from 'vitest';
+import { getNextReviewDate, getReviewStatus } from './knowledgeReview';
+
+const now = new Date('2026-10-19T12:00:00Z');
+
+describe('getNextReviewDate', () => {
+  it('counts from the last review, falling back to the last update', () => {
+    expect(
+      getNextReviewDate({ updatedAt: '2026-01-01T00:00:00Z', lastReviewedAt: '2026-09-01T00:00:00Z', reviewIntervalDays: 30 })
+    ).toEqual(new Date('2026-10-01T00:00:00Z'));
+    expect(
+      getNextReviewDate({ updatedAt: '2026-09-01T00:00:00Z', lastReviewedAt: null, reviewIntervalDays: 90 })
+    ).toEqual(new Date('2026-11-30T00:00:00Z'));
+  });
+
+  it('returns null when reminders are off', () => {
+    expect(getNextReviewDate({ updatedAt: '2026-01-01T00:00:00Z', reviewIntervalDays: null })).toBeNull();
+    expect(getNextReviewDate({ updatedAt: '2026-01-01T00:00:00Z' })).toBeNull();
+  });
+});
+
+describe('getReviewStatus', () => {
+  it('flags entries whose interval has passed', () => {
+    expect(getReviewStatus({ updatedAt: '2026-09-01T00:00:00Z', reviewIntervalDays: 30 }, now)).toBe('due');
+    expect(getReviewStatus({ updatedAt: '2026-10-01T00:00:00Z', reviewIntervalDays: 30 }, now)).toBe('ok');
+    expect(getReviewStatus({ updatedAt: '2020-01-01T00:00:00Z', reviewIntervalDays: null }, now)).toBe('off');
+  });
+});
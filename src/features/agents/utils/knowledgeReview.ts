@@ -0,0 +1,33 @@
+/**
+ * Knowledge base review reminders
+ * An entry with a review interval is due once the interval has passed since it
+ * was last reviewed (or last updated, if it was never reviewed).
+ */
+
+import type { KnowledgeBase } from '../types/agent.types';
+import type { KnowledgeReviewStatus, ReviewIntervalDays } from '../types/knowledgeReview.types';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export const REVIEW_INTERVALS: ReviewIntervalDays[] = [30, 90, 180, 365];
+
+/** "Not updated in N days" choices for the knowledge health report */
+export const STALE_AFTER_OPTIONS = [30, 60, 90, 180] as const;
+
+type ReviewFields = Pick<KnowledgeBase, 'updatedAt' | 'lastReviewedAt' | 'reviewIntervalDays'>;
+
+/**
+ * When the entry is next due for review, or null when reminders are off
+ */
+export function getNextReviewDate(entry: ReviewFields): Date | null {
+  if (!entry.reviewIntervalDays) return null;
+  const base = new Date(entry.lastReviewedAt ?? entry.updatedAt).getTime();
+  if (Number.isNaN(base)) return null;
+  return new Date(base + entry.reviewIntervalDays * DAY_MS);
+}
+
+export function getReviewStatus(entry: ReviewFields, now: Date = new Date()): KnowledgeReviewStatus {
+  const next = getNextReviewDate(entry);
+  if (!next) return 'off';
+  return now.getTime() >= next.getTime() ? 'due' : 'ok';
+}
@@ -0,0 +1,44 @@
+import { describe, it, expect } from 'vitest';
+import { buildSideBySideDiff, countDiffChanges, promptToLines } from './promptDiff';
+
+describe('promptToLines', () => {
+  it('splits plain text prompts on newlines', () => {
+    expect(promptToLines('You are helpful.\nBe brief.')).toEqual(['You are helpful.', 'Be brief.']);
+  });
+
+  it('flattens rich text HTML into lines', () => {
+    expect(promptToLines('<p>Tone: friendly &amp; short</p><p>Never <strong>guess</strong></p>')).toEqual([
+      'Tone: friendly & short',
+      'Never guess',
+    ]);
+  });
+
+  it('returns no lines for an empty prompt', () => {
+    expect(promptToLines(null)).toEqual([]);
+    expect(promptToLines('')).toEqual([]);
+  });
+});
+
+describe('buildSideBySideDiff', () => {
+  it('keeps unchanged lines aligned on both sides', () => {
+    const rows = buildSideBySideDiff('a\nb', 'a\nb');
+    expect(rows).toHaveLength(2);
+    expect(rows.every((row) => row.left?.type === 'same' && row.right?.type === 'same')).toBe(true);
+  });
+
+  it('pairs an edited line across the columns', () => {
+    const rows = buildSideBySideDiff('a\nold\nc', 'a\nnew\nc');
+    expect(rows[1]).toEqual({
+      left: { lineNumber: 2, text: 'old', type: 'removed' },
+      right: { lineNumber: 2, text: 'new', type: 'added' },
+    });
+    expect(countDiffChanges(rows)).toEqual({ added: 1, removed: 1 });
+  });
+
+  it('pads the other side for pure insertions', () => {
+    const rows = buildSideBySideDiff('a\nc', 'a\nb\nc');
+    expect(rows[1]).toEqual({ left: null, right: { lineNumber: 2, text: 'b', type: 'added' } });
+    expect(rows[2].left?.lineNumber).toBe(2);
+    expect(rows[2].right?.lineNumber).toBe(3);
+  });
+});
@@ -0,0 +1,132 @@
+/**
+ * Prompt diff
+ * Line-based diff between two prompt versions (or knowledge base revisions)
+ * for the side-by-side viewer. Text saved from the rich text editor is HTML,
+ * so both sides are flattened to plain-text lines first.
+ */
+
+export type DiffLineType = 'same' | 'added' | 'removed';
+
+export interface DiffCell {
+  /** 1-based line number on its own side */
+  lineNumber: number;
+  text: string;
+  type: DiffLineType;
+}
+
+/** One row of the side-by-side view. A null side is padding next to an insert / delete. */
+export interface DiffRow {
+  left: DiffCell | null;
+  right: DiffCell | null;
+}
+
+const ENTITIES: Record<string, string> = {
+  '&amp;': '&',
+  '&lt;': '<',
+  '&gt;': '>',
+  '&quot;': '"',
+  '&#39;': "'",
+  '&nbsp;': ' ',
+};
+
+/**
+ * Plain-text lines of a prompt. Block-level HTML tags become line breaks;
+ * plain-text prompts are split as-is.
+ */
+export function promptToLines(prompt: string | null | undefined): string[] {
+  if (!prompt) return [];
+  const text = /<\/?[a-z][^>]*>/i.test(prompt)
+    ? prompt
+        .replace(/<br\s*\/?>/gi, '\n')
+        .replace(/<\/(p|div|li|h[1-6]|blockquote|pre)>/gi, '\n')
+        .replace(/<[^>]*>/g, '')
+        .replace(/&(amp|lt|gt|quot|#39|nbsp);/g, (entity) => ENTITIES[entity])
+    : prompt;
+  const lines = text.replace(/\r\n/g, '\n').split('\n');
+  // Trailing block closers leave an empty last line
+  while (lines.length > 0 && lines[lines.length - 1].trim() === '') lines.pop();
+  return lines;
+}
+
+type DiffOp = { type: DiffLineType; text: string };
+
+/** Longest-common-subsequence line diff, removals before additions within a change */
+function diffLines(before: string[], after: string[]): DiffOp[] {
+  const n = before.length;
+  const m = after.length;
+  // lcs[i][j] = LCS length of before[i..] and after[j..]
+  const lcs: number[][] = Array.from({ length: n + 1 }, () => new Array<number>(m + 1).fill(0));
+  for (let i = n - 1; i >= 0; i--) {
+    for (let j = m - 1; j >= 0; j--) {
+      lcs[i][j] = before[i] === after[j] ? lcs[i + 1][j + 1] + 1 : Math.max(lcs[i + 1][j], lcs[i][j + 1]);
+    }
+  }
+
+  const ops: DiffOp[] = [];
+  let i = 0;
+  let j = 0;
+  while (i < n && j < m) {
+    if (before[i] === after[j]) {
+      ops.push({ type: 'same', text: before[i] });
+      i++;
+      j++;
+    } else if (lcs[i + 1][j] >= lcs[i][j + 1]) {
+      ops.push({ type: 'removed', text: before[i++] });
+    } else {
+      ops.push({ type: 'added', text: after[j++] });
+    }
+  }
+  while (i < n) ops.push({ type: 'removed', text: before[i++] });
+  while (j < m) ops.push({ type: 'added', text: after[j++] });
+  return ops;
+}
+
+/**
+ * Side-by-side rows for two prompts. Within a changed block, removed and
+ * added lines are paired up row by row so edits line up across the columns.
+ */
+export function buildSideBySideDiff(before: string | null | undefined, after: string | null | undefined): DiffRow[] {
+  const ops = diffLines(promptToLines(before), promptToLines(after));
+  const rows: DiffRow[] = [];
+  let leftLine = 0;
+  let rightLine = 0;
+  let removed: DiffCell[] = [];
+  let added: DiffCell[] = [];
+
+  const flush = () => {
+    for (let k = 0; k < Math.max(removed.length, added.length); k++) {
+      rows.push({ left: removed[k] ?? null, right: added[k] ?? null });
+    }
+    removed = [];
+    added = [];
+  };
+
+  for (const op of ops) {
+    if (op.type === 'same') {
+      flush();
+      rows.push({
+        left: { lineNumber: ++leftLine, text: op.text, type: 'same' },
+        right: { lineNumber: ++rightLine, text: op.text, type: 'same' },
+      });
+    } else if (op.type === 'removed') {
+      removed.push({ lineNumber: ++leftLine, text: op.text, type: 'removed' });
+    } else {
+      added.push({ lineNumber: ++rightLine, text: op.text, type: 'added' });
+    }
+  }
+  flush();
+  return rows;
+}
+
+/**
+ * Added / removed line counts for a diff summary
+ */
+export function countDiffChanges(rows: DiffRow[]): { added: number; removed: number } {
+  return rows.reduce(
+    (acc, row) => ({
+      added: acc.added + (row.right?.type === 'added' ? 1 : 0),
+      removed: acc.removed + (row.left?.type === 'removed' ? 1 : 0),
+    }),
+    { added: 0, removed: 0 }
+  );
+}
@@ -0,0 +1,86 @@
+import { describe, it, expect } from 'vitest';
+import type { TestCase, TestCaseOutcome } from '../types/testSuite.types';
+import { evaluateExpectation, evaluateTestCase, evaluateTestSuite, isTestCaseComplete } from './testSuite';
+
+const testCase = (overrides: Partial<TestCase> = {}): TestCase => ({
+  id: 'case-1',
+  agentId: 'agent-1',
+  name: 'Asks for pricing',
+  turns: ['How much is the pro plan?'],
+  expectations: [{ type: 'contains', value: '99 SAR' }],
+  createdAt: '2026-10-01T00:00:00Z',
+  updatedAt: '2026-10-01T00:00:00Z',
+  ...overrides,
+});
+
+const outcome = (overrides: Partial<TestCaseOutcome> = {}): TestCaseOutcome => ({
+  caseId: 'case-1',
+  replies: ['The Pro plan is 99 sar per month.'],
+  triggeredActionIds: [],
+  sentAttachmentIds: [],
+  handedOff: false,
+  error: null,
+  ...overrides,
+});
+
+describe('evaluateExpectation', () => {
+  it('matches text case-insensitively across every reply', () => {
+    const run = outcome({ replies: ['Hello!', 'The Pro plan is 99 SAR.'] });
+    expect(evaluateExpectation({ type: 'contains', value: 'pro PLAN' }, run)).toBe(true);
+    expect(evaluateExpectation({ type: 'not_contains', value: 'free' }, run)).toBe(true);
+    expect(evaluateExpectation({ type: 'not_contains', value: 'hello' }, run)).toBe(false);
+  });
+
+  it('checks triggered actions, sent attachments and handoff', () => {
+    const run = outcome({ triggeredActionIds: ['action-1'], sentAttachmentIds: ['att-1'], handedOff: true });
+    expect(evaluateExpectation({ type: 'action_triggered', value: 'action-1' }, run)).toBe(true);
+    expect(evaluateExpectation({ type: 'action_triggered', value: 'action-2' }, run)).toBe(false);
+    expect(evaluateExpectation({ type: 'attachment_sent', value: 'att-1' }, run)).toBe(true);
+    expect(evaluateExpectation({ type: 'handoff', value: '' }, run)).toBe(true);
+    expect(evaluateExpectation({ type: 'no_handoff', value: '' }, run)).toBe(false);
+  });
+});
+
+describe('evaluateTestCase', () => {
+  it('passes only when every expectation holds', () => {
+    const result = evaluateTestCase(
+      testCase({ expectations: [{ type: 'contains', value: '99' }, { type: 'handoff', value: '' }] }),
+      outcome()
+    );
+    expect(result.passed).toBe(false);
+    expect(result.expectationResults.map((r) => r.passed)).toEqual([true, false]);
+  });
+
+  it('fails every expectation when the run errored or is missing', () => {
+    expect(evaluateTestCase(testCase(), outcome({ error: 'timeout' })).passed).toBe(false);
+    const missing = evaluateTestCase(testCase(), null);
+    expect(missing.passed).toBe(false);
+    expect(missing.expectationResults[0].passed).toBe(false);
+  });
+});
+
+describe('evaluateTestSuite', () => {
+  it('keeps suite order and fails cases missing from a partial run', () => {
+    const cases = [testCase({ id: 'a' }), testCase({ id: 'b' }), testCase({ id: 'c' })];
+    const results = evaluateTestSuite(cases, [outcome({ caseId: 'c' }), outcome({ caseId: 'a', replies: [] })]);
+    expect(results.map((r) => [r.testCase.id, r.passed])).toEqual([['a', false], ['b', false], ['c', true]]);
+    expect(results[1].outcome).toBeNull();
+  });
+
+  it('fails every case when the run returns nothing', () => {
+    const cases = [testCase({ id: 'a' }), testCase({ id: 'b' })];
+    const results = evaluateTestSuite(cases, []);
+    expect(results).toHaveLength(2);
+    expect(results.every((r) => !r.passed)).toBe(true);
+  });
+});
+
+describe('isTestCaseComplete', () => {
+  it('requires a name, a message and a value for value-based expectations', () => {
+    expect(isTestCaseComplete(testCase())).toBe(true);
+    expect(isTestCaseComplete(testCase({ turns: ['  '] }))).toBe(false);
+    expect(isTestCaseComplete(testCase({ expectations: [] }))).toBe(false);
+    expect(isTestCaseComplete(testCase({ expectations: [{ type: 'contains', value: ' ' }] }))).toBe(false);
+    expect(isTestCaseComplete(testCase({ expectations: [{ type: 'no_handoff', value: '' }] }))).toBe(true);
+  });
+});
@@ -0,0 +1,89 @@
+/**
+ * Test suite evaluation
+ * The backend plays each test case's script back and reports what the agent
+ * did; pass / fail is decided here so the rules match what the editor shows.
+ */
+
+import type {
+  ExpectationResult,
+  TestCase,
+  TestCaseOutcome,
+  TestCaseResult,
+  TestExpectation,
+} from '../types/testSuite.types';
+
+export const EXPECTATION_TYPES: ReadonlyArray<TestExpectation['type']> = [
+  'contains',
+  'not_contains',
+  'action_triggered',
+  'attachment_sent',
+  'handoff',
+  'no_handoff',
+];
+
+/** Expectation types that need no value */
+export const VALUELESS_EXPECTATIONS: ReadonlyArray<TestExpectation['type']> = ['handoff', 'no_handoff'];
+
+/**
+ * Whether a single expectation holds for a run
+ */
+export function evaluateExpectation(expectation: TestExpectation, outcome: TestCaseOutcome): boolean {
+  const value = expectation.value.trim();
+  switch (expectation.type) {
+    case 'contains':
+    case 'not_contains': {
+      const text = outcome.replies.join('\n').toLowerCase();
+      const found = text.includes(value.toLowerCase());
+      return expectation.type === 'contains' ? found : !found;
+    }
+    case 'action_triggered':
+      return outcome.triggeredActionIds.includes(value);
+    case 'attachment_sent':
+      return outcome.sentAttachmentIds.includes(value);
+    case 'handoff':
+      return outcome.handedOff;
+    case 'no_handoff':
+      return !outcome.handedOff;
+  }
+}
+
+/**
+ * Result for one test case. A missing or errored run fails every expectation.
+ */
+export function evaluateTestCase(testCase: TestCase, outcome: TestCaseOutcome | null): TestCaseResult {
+  const runFailed = !outcome || outcome.error !== null;
+  const expectationResults: ExpectationResult[] = testCase.expectations.map((expectation) => ({
+    expectation,
+    passed: !runFailed && evaluateExpectation(expectation, outcome),
+  }));
+  return {
+    testCase,
+    outcome,
+    expectationResults,
+    passed: !runFailed && expectationResults.every((result) => result.passed),
+  };
+}
+
+/**
+ * Results for every given case, in suite order. A case the run returned no
+ * outcome for counts as failed, so a partial or empty run never passes.
+ */
+export function evaluateTestSuite(testCases: TestCase[], outcomes: TestCaseOutcome[]): TestCaseResult[] {
+  const byCase = new Map(outcomes.map((outcome) => [outcome.caseId, outcome]));
+  return testCases.map((testCase) => evaluateTestCase(testCase, byCase.get(testCase.id) ?? null));
+}
+
+/**
+ * A test case is runnable once it has a message and every expectation that
+ * needs a value has one
+ */
+export function isTestCaseComplete(request: Pick<TestCase, 'name' | 'turns' | 'expectations'>): boolean {
+  return (
+    request.name.trim() !== '' &&
+    request.turns.some((turn) => turn.trim() !== '') &&
+    request.expectations.length > 0 &&
+    request.expectations.every(
+      (expectation) => VALUELESS_EXPECTATIONS.includes(expectation.type) || expectation.value.trim() !== ''
+    )
+  );
+}
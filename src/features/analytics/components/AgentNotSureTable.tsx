@@ -0,0 +1,61 @@
+import { useMemo } from 'react';
+import { useTranslation } from 'react-i18next';
+import { AgentLink } from '@/features/agents/components/AgentLink';
+import type { AgentNotSureStat } from '../types/insights.types';
+
+interface AgentNotSureTableProps {
+  agents: AgentNotSureStat[];
+}
+
+/** Rates above this are highlighted — the agent's knowledge likely has gaps */
+const HIGH_RATE = 0.2;
+
+/**
+ * Share of each agent's conversations where the AI flagged it wasn't sure how
+ * to answer, highest first.
+ */
+export function AgentNotSureTable({ agents }: AgentNotSureTableProps) {
+  const { t } = useTranslation();
+  const sorted = useMemo(() => [...agents].sort((a, b) => b.notSureRate - a.notSureRate), [agents]);
+
+  return (
+    <div className="bg-white border border-neutral-200 rounded-xl p-5">
+      <h3 className="text-base font-semibold text-neutral-900 mb-4">{t('analytics.insights.not_sure_by_agent')}</h3>
+
+      {sorted.length === 0 ? (
+        <p className="text-sm text-neutral-400 text-center py-8">{t('analytics.no_data_in_window')}</p>
+      ) : (
+        <div className="overflow-x-auto">
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="border-b border-neutral-200 text-start text-neutral-500">
+                <th className="pb-2 pe-4 font-medium text-start">{t('analytics.insights.agent')}</th>
+                <th className="pb-2 pe-4 font-medium text-end">{t('analytics.insights.conversations')}</th>
+                <th className="pb-2 pe-4 font-medium text-end">{t('analytics.insights.not_sure')}</th>
+                <th className="pb-2 font-medium text-end">{t('analytics.insights.rate')}</th>
+              </tr>
+            </thead>
+            <tbody>
+              {sorted.map((agent) => (
+                <tr key={agent.agentId} className="border-b border-neutral-100">
+                  <td className="py-2.5 pe-4 text-neutral-900">
+                    <AgentLink agentId={agent.agentId} agentName={agent.agentName} />
+                  </td>
+                  <td className="py-2.5 pe-4 text-end text-neutral-600">{agent.conversations.toLocaleString()}</td>
+                  <td className="py-2.5 pe-4 text-end text-neutral-600">{agent.notSure.toLocaleString()}</td>
+                  <td
+                    className={`py-2.5 text-end font-medium ${
+                      agent.notSureRate >= HIGH_RATE ? 'text-amber-600' : 'text-neutral-900'
+                    }`}
+                  >
+                    {(agent.notSureRate * 100).toFixed(1)}%
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,54 @@
+import { useTranslation } from 'react-i18next';
+import { Star } from 'lucide-react';
+import { CSAT_SCORES } from '@/features/conversations/utils/csat';
+import type { CsatReport } from '../types/csat.types';
+
+interface CsatDistributionChartProps {
+  distribution: CsatReport['distribution'];
+}
+
+const BAR_CLASSES: Record<(typeof CSAT_SCORES)[number], string> = {
+  1: 'bg-red-500',
+  2: 'bg-orange-400',
+  3: 'bg-amber-400',
+  4: 'bg-lime-500',
+  5: 'bg-green-500',
+};
+
+/**
+ * Responses per score, best first. Bar width is relative to the most common score.
+ */
+export function CsatDistributionChart({ distribution }: CsatDistributionChartProps) {
+  const { t } = useTranslation();
+  const max = Math.max(...CSAT_SCORES.map((score) => distribution[score]));
+
+  return (
+    <div className="bg-white border border-neutral-200 rounded-xl p-5">
+      <h3 className="text-base font-semibold text-neutral-900 mb-4">{t('analytics.csat.distribution')}</h3>
+
+      {max === 0 ? (
+        <p className="text-sm text-neutral-400 text-center py-8">{t('analytics.no_data_in_window')}</p>
+      ) : (
+        <ul className="space-y-2">
+          {[...CSAT_SCORES].reverse().map((score) => (
+            <li key={score} className="flex items-center gap-3">
+              <span className="w-8 flex items-center gap-0.5 text-sm text-neutral-700 flex-shrink-0">
+                {score}
+                <Star className="w-3 h-3 text-amber-400 fill-current" />
+              </span>
+              <div className="flex-1 h-2 bg-neutral-100 rounded-full overflow-hidden">
+                <div
+                  className={`h-full rounded-full ${BAR_CLASSES[score]}`}
+                  style={{ width: `${(distribution[score] / max) * 100}%` }}
+                />
+              </div>
+              <span className="w-12 text-end text-sm font-medium text-neutral-900 flex-shrink-0">
+                {distribution[score].toLocaleString()}
+              </span>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,90 @@
+import type { ReactNode } from 'react';
+import { useTranslation } from 'react-i18next';
+import type { CsatStats } from '../types/csat.types';
+
+export interface CsatRow extends CsatStats {
+  id: string;
+  label: ReactNode;
+}
+
+interface CsatTableProps {
+  title: string;
+  /** Header of the label column ("Agent", "Teammate") */
+  labelHeader: string;
+  rows: CsatRow[];
+}
+
+/** Average scores below this are highlighted */
+const LOW_SCORE = 3.5;
+
+/** Gaps this wide between CSAT and AI sentiment are worth a look */
+const NOTABLE_GAP = 1;
+
+const formatScore = (score: number | null) => (score === null ? '—' : score.toFixed(2));
+
+/**
+ * CSAT per row (agent or resolving teammate) next to the AI-inferred sentiment
+ * of the same rated conversations, lowest CSAT first. The gap column is
+ * CSAT minus sentiment: positive when customers rate better than the AI read them.
+ */
+export function CsatTable({ title, labelHeader, rows }: CsatTableProps) {
+  const { t } = useTranslation();
+  const sorted = [...rows].sort((a, b) => (a.avgScore ?? 6) - (b.avgScore ?? 6));
+
+  return (
+    <div className="bg-white border border-neutral-200 rounded-xl p-5">
+      <h3 className="text-base font-semibold text-neutral-900 mb-4">{title}</h3>
+
+      {sorted.length === 0 ? (
+        <p className="text-sm text-neutral-400 text-center py-8">{t('analytics.no_data_in_window')}</p>
+      ) : (
+        <div className="overflow-x-auto">
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="border-b border-neutral-200 text-start text-neutral-500">
+                <th className="pb-2 pe-4 font-medium text-start">{labelHeader}</th>
+                <th className="pb-2 pe-4 font-medium text-end">{t('analytics.csat.responses')}</th>
+                <th className="pb-2 pe-4 font-medium text-end">{t('analytics.csat.avg_score')}</th>
+                <th className="pb-2 pe-4 font-medium text-end">{t('analytics.csat.satisfied')}</th>
+                <th className="pb-2 pe-4 font-medium text-end">{t('analytics.csat.ai_sentiment')}</th>
+                <th className="pb-2 font-medium text-end">{t('analytics.csat.gap')}</th>
+              </tr>
+            </thead>
+            <tbody>
+              {sorted.map((row) => {
+                const gap = row.avgScore !== null && row.avgSentiment !== null ? row.avgScore - row.avgSentiment : null;
+                return (
+                  <tr key={row.id} className="border-b border-neutral-100">
+                    <td className="py-2.5 pe-4 text-neutral-900">{row.label}</td>
+                    <td className="py-2.5 pe-4 text-end text-neutral-600">
+                      {row.responses.toLocaleString()}
+                      <span className="text-neutral-400"> / {row.surveys.toLocaleString()}</span>
+                    </td>
+                    <td
+                      className={`py-2.5 pe-4 text-end font-medium ${
+                        row.avgScore !== null && row.avgScore < LOW_SCORE ? 'text-amber-600' : 'text-neutral-900'
+                      }`}
+                    >
+                      {formatScore(row.avgScore)}
+                    </td>
+                    <td className="py-2.5 pe-4 text-end text-neutral-600">
+                      {row.satisfactionRate === null ? '—' : `${(row.satisfactionRate * 100).toFixed(1)}%`}
+                    </td>
+                    <td className="py-2.5 pe-4 text-end text-neutral-600">{formatScore(row.avgSentiment)}</td>
+                    <td
+                      className={`py-2.5 text-end ${
+                        gap !== null && Math.abs(gap) >= NOTABLE_GAP ? 'font-medium text-amber-600' : 'text-neutral-600'
+                      }`}
+                    >
+                      {gap === null ? '—' : `${gap > 0 ? '+' : ''}${gap.toFixed(2)}`}
+                    </td>
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,46 @@
+import { useTranslation } from 'react-i18next';
+import { cn } from '@/lib/utils';
+import { LABEL_COLOR_CLASSES } from '@/features/conversations/constants/labelColors';
+import type { LabelStat } from '../types/insights.types';
+
+interface LabelUsageTableProps {
+  labels: LabelStat[];
+}
+
+/**
+ * Conversations per label in the range. Bar width is relative to the most
+ * used label and takes the label's own color.
+ */
+export function LabelUsageTable({ labels }: LabelUsageTableProps) {
+  const { t } = useTranslation();
+  const max = labels[0]?.conversations ?? 0;
+
+  return (
+    <div className="bg-white border border-neutral-200 rounded-xl p-5">
+      <h3 className="text-base font-semibold text-neutral-900 mb-4">{t('analytics.insights.labels')}</h3>
+
+      {labels.length === 0 ? (
+        <p className="text-sm text-neutral-400 text-center py-8">{t('analytics.no_data_in_window')}</p>
+      ) : (
+        <ul className="space-y-3">
+          {labels.map((label) => (
+            <li key={label.labelId} className="px-2">
+              <div className="flex items-center justify-between gap-2 mb-1">
+                <span className="text-sm text-neutral-900 truncate">{label.name}</span>
+                <span className="text-sm font-medium text-neutral-900 flex-shrink-0">
+                  {label.conversations.toLocaleString()}
+                </span>
+              </div>
+              <div className="h-1.5 bg-neutral-100 rounded-full overflow-hidden">
+                <div
+                  className={cn('h-full rounded-full', LABEL_COLOR_CLASSES[label.color].dot)}
+                  style={{ width: `${max > 0 ? (label.conversations / max) * 100 : 0}%` }}
+                />
+              </div>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,94 @@
+import { useMemo } from 'react';
+import { useTranslation } from 'react-i18next';
+import {
+  ResponsiveContainer,
+  BarChart,
+  Bar,
+  XAxis,
+  YAxis,
+  Tooltip,
+  CartesianGrid,
+  Legend,
+} from 'recharts';
+import { SENTIMENT_SCORES, type SentimentBucket, type SentimentScore } from '../types/insights.types';
+
+interface SentimentDistributionChartProps {
+  buckets: SentimentBucket[];
+}
+
+const SENTIMENT_COLORS: Record<SentimentScore, string> = {
+  1: '#ef4444',
+  2: '#f97316',
+  3: '#a3a3a3',
+  4: '#84cc16',
+  5: '#10b981',
+};
+
+/**
+ * Stacked bars — one per bucket, one segment per sentiment score, so both the
+ * volume and the mix of analysed conversations are visible at a glance.
+ */
+export function SentimentDistributionChart({ buckets }: SentimentDistributionChartProps) {
+  const { t } = useTranslation();
+
+  const chartData = useMemo(
+    () =>
+      buckets.map((bucket) => ({
+        bucketAt: new Date(bucket.bucketAt).getTime(),
+        ...bucket.counts,
+      })),
+    [buckets]
+  );
+
+  return (
+    <div className="bg-white border border-neutral-200 rounded-xl p-5">
+      <h3 className="text-base font-semibold text-neutral-900 mb-4">
+        {t('analytics.insights.sentiment_over_time')}
+      </h3>
+
+      <div className="h-64 relative" dir="ltr">
+        <ResponsiveContainer width="100%" height="100%">
+          <BarChart data={chartData} margin={{ top: 10, right: 16, left: 0, bottom: 0 }}>
+            <CartesianGrid strokeDasharray="3 3" stroke="#e5e7eb" vertical={false} />
+            <XAxis
+              dataKey="bucketAt"
+              tickFormatter={(ts: number) =>
+                new Date(ts).toLocaleDateString([], { month: 'short', day: 'numeric' })
+              }
+              stroke="#9ca3af"
+              fontSize={11}
+              tickMargin={8}
+            />
+            <YAxis stroke="#9ca3af" fontSize={11} allowDecimals={false} width={36} />
+            <Tooltip
+              contentStyle={tooltipStyle}
+              labelFormatter={(ts) => new Date(Number(ts)).toLocaleDateString()}
+            />
+            <Legend wrapperStyle={{ fontSize: 12 }} />
+            {SENTIMENT_SCORES.map((score) => (
+              <Bar
+                key={score}
+                dataKey={String(score)}
+                name={t(`conversation_views.sentiments.${score}`)}
+                stackId="sentiment"
+                fill={SENTIMENT_COLORS[score]}
+                isAnimationActive={false}
+              />
+            ))}
+          </BarChart>
+        </ResponsiveContainer>
+        {chartData.length === 0 && (
+          <div className="absolute inset-0 flex items-center justify-center pointer-events-none">
+            <p className="text-sm text-neutral-400">{t('analytics.no_data_in_window')}</p>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
+
+const tooltipStyle = {
+  borderRadius: 8,
+  border: '1px solid #e5e7eb',
+  fontSize: 12,
+};
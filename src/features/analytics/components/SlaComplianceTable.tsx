@@ -0,0 +1,72 @@
+import type { ReactNode } from 'react';
+import { useTranslation } from 'react-i18next';
+import type { SlaComplianceCounts } from '../types/slaCompliance.types';
+
+export interface SlaComplianceRow extends SlaComplianceCounts {
+  id: string;
+  label: ReactNode;
+}
+
+interface SlaComplianceTableProps {
+  title: string;
+  /** Header of the label column ("Policy", "Agent") */
+  labelHeader: string;
+  rows: SlaComplianceRow[];
+}
+
+/** Rates below this are highlighted — the target is missed too often */
+const LOW_RATE = 0.9;
+
+function RateCell({ rate, className }: { rate: number | null; className?: string }) {
+  return (
+    <td
+      className={`py-2.5 text-end font-medium ${className ?? ''} ${
+        rate !== null && rate < LOW_RATE ? 'text-amber-600' : 'text-neutral-900'
+      }`}
+    >
+      {rate === null ? '—' : `${(rate * 100).toFixed(1)}%`}
+    </td>
+  );
+}
+
+/**
+ * First-response and resolution compliance per row (SLA policy or agent),
+ * worst first-response rate first.
+ */
+export function SlaComplianceTable({ title, labelHeader, rows }: SlaComplianceTableProps) {
+  const { t } = useTranslation();
+  const sorted = [...rows].sort((a, b) => (a.firstResponseRate ?? 1) - (b.firstResponseRate ?? 1));
+
+  return (
+    <div className="bg-white border border-neutral-200 rounded-xl p-5">
+      <h3 className="text-base font-semibold text-neutral-900 mb-4">{title}</h3>
+
+      {sorted.length === 0 ? (
+        <p className="text-sm text-neutral-400 text-center py-8">{t('analytics.no_data_in_window')}</p>
+      ) : (
+        <div className="overflow-x-auto">
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="border-b border-neutral-200 text-start text-neutral-500">
+                <th className="pb-2 pe-4 font-medium text-start">{labelHeader}</th>
+                <th className="pb-2 pe-4 font-medium text-end">{t('analytics.sla.timers')}</th>
+                <th className="pb-2 pe-4 font-medium text-end">{t('analytics.sla.first_response')}</th>
+                <th className="pb-2 font-medium text-end">{t('analytics.sla.resolution')}</th>
+              </tr>
+            </thead>
+            <tbody>
+              {sorted.map((row) => (
+                <tr key={row.id} className="border-b border-neutral-100">
+                  <td className="py-2.5 pe-4 text-neutral-900">{row.label}</td>
+                  <td className="py-2.5 pe-4 text-end text-neutral-600">{row.timers.toLocaleString()}</td>
+                  <RateCell rate={row.firstResponseRate} className="pe-4" />
+                  <RateCell rate={row.resolutionRate} />
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,62 @@
+import { useTranslation } from 'react-i18next';
+import { ChevronRight } from 'lucide-react';
+import type { TopicStat } from '../types/insights.types';
+
+interface TopTopicsTableProps {
+  topics: TopicStat[];
+  onSelectTopic: (topic: string) => void;
+}
+
+/**
+ * Most frequent conversation topics. Bar width is relative to the top topic;
+ * clicking a row drills down into its conversations.
+ */
+export function TopTopicsTable({ topics, onSelectTopic }: TopTopicsTableProps) {
+  const { t } = useTranslation();
+  const max = topics[0]?.conversations ?? 0;
+
+  return (
+    <div className="bg-white border border-neutral-200 rounded-xl p-5">
+      <h3 className="text-base font-semibold text-neutral-900 mb-4">{t('analytics.insights.top_topics')}</h3>
+
+      {topics.length === 0 ? (
+        <p className="text-sm text-neutral-400 text-center py-8">{t('analytics.no_data_in_window')}</p>
+      ) : (
+        <ul className="space-y-1">
+          {topics.map((topic) => (
+            <li key={topic.topic}>
+              <button
+                type="button"
+                onClick={() => onSelectTopic(topic.topic)}
+                className="w-full flex items-center gap-3 px-2 py-2 rounded-lg text-start hover:bg-neutral-50 transition-colors"
+              >
+                <div className="flex-1 min-w-0">
+                  <div className="flex items-center justify-between gap-2 mb-1">
+                    <span className="text-sm text-neutral-900 truncate">{topic.topic}</span>
+                    <span className="text-sm font-medium text-neutral-900 flex-shrink-0">
+                      {topic.conversations.toLocaleString()}
+                    </span>
+                  </div>
+                  <div className="h-1.5 bg-neutral-100 rounded-full overflow-hidden">
+                    <div
+                      className="h-full bg-brand-mojeeb rounded-full"
+                      style={{ width: `${max > 0 ? (topic.conversations / max) * 100 : 0}%` }}
+                    />
+                  </div>
+                  <p className="text-[11px] text-neutral-500 mt-1">
+                    {t('analytics.insights.topic_meta', {
+                      sentiment: topic.avgSentiment !== null ? topic.avgSentiment.toFixed(1) : '—',
+                      urgent: topic.urgent,
+                      human: topic.requiresHumanAttention,
+                    })}
+                  </p>
+                </div>
+                <ChevronRight className="w-4 h-4 text-neutral-400 flex-shrink-0 rtl:rotate-180" />
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
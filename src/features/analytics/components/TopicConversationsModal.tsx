@@ -0,0 +1,91 @@
+import { useNavigate } from 'react-router-dom';
+import { useTranslation } from 'react-i18next';
+import { formatDistanceToNow } from 'date-fns';
+import { AlertTriangle } from 'lucide-react';
+import { BaseModal } from '@/components/ui/BaseModal';
+import { AgentLink } from '@/features/agents/components/AgentLink';
+import { OPEN_CONVERSATION_SEARCH_PARAM } from '@/features/conversations/constants/chatConstants';
+import { formatSourceLabel } from '@/features/conversations/utils/textFormatters';
+import { useTopicConversations } from '../hooks/useTopicConversations';
+
+interface TopicConversationsModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  topic: string | null;
+  startDate: string;
+  endDate: string;
+}
+
+export function TopicConversationsModal({ isOpen, onClose, topic, startDate, endDate }: TopicConversationsModalProps) {
+  const { t } = useTranslation();
+  const navigate = useNavigate();
+  const { data: conversations = [], isLoading } = useTopicConversations(topic, startDate, endDate);
+
+  const openConversation = (conversationId: string) => {
+    onClose();
+    navigate(`/conversations?${OPEN_CONVERSATION_SEARCH_PARAM}=${conversationId}`);
+  };
+
+  return (
+    <BaseModal
+      isOpen={isOpen}
+      onClose={onClose}
+      title={topic ?? ''}
+      subtitle={t('analytics.insights.topic_conversations', { count: conversations.length })}
+      maxWidth="2xl"
+      isLoading={isLoading}
+    >
+      {isLoading ? (
+        <div className="space-y-3">
+          {[1, 2, 3, 4].map((i) => (
+            <div key={i} className="h-10 bg-neutral-100 rounded animate-pulse" />
+          ))}
+        </div>
+      ) : conversations.length === 0 ? (
+        <p className="text-neutral-400 text-sm text-center py-8">{t('analytics.no_data_in_window')}</p>
+      ) : (
+        <div className="overflow-x-auto">
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="border-b border-neutral-200 text-neutral-500">
+                <th className="pb-2 pe-4 font-medium text-start">{t('analytics.insights.customer')}</th>
+                <th className="pb-2 pe-4 font-medium text-start">{t('analytics.insights.agent')}</th>
+                <th className="pb-2 pe-4 font-medium text-start">{t('analytics.insights.sentiment')}</th>
+                <th className="pb-2 font-medium text-start">{t('analytics.insights.last_activity')}</th>
+              </tr>
+            </thead>
+            <tbody>
+              {conversations.map((c) => (
+                <tr
+                  key={c.conversationId}
+                  onClick={() => openConversation(c.conversationId)}
+                  className="border-b border-neutral-100 hover:bg-neutral-50 cursor-pointer"
+                >
+                  <td className="py-2.5 pe-4">
+                    <div className="flex items-center gap-1.5 text-neutral-900">
+                      {c.urgent && <AlertTriangle className="w-3.5 h-3.5 text-red-500 flex-shrink-0" />}
+                      <span className="truncate">{c.customerName || '—'}</span>
+                    </div>
+                    <p className="text-xs text-neutral-500 truncate max-w-xs">
+                      {formatSourceLabel(c.source)}
+                      {c.lastMessage && ` · ${c.lastMessage}`}
+                    </p>
+                  </td>
+                  <td className="py-2.5 pe-4 text-neutral-600" onClick={(e) => e.stopPropagation()}>
+                    <AgentLink agentId={c.agentId} agentName={c.agentName} />
+                  </td>
+                  <td className="py-2.5 pe-4 text-neutral-600">
+                    {c.sentiment !== null ? t(`conversation_views.sentiments.${c.sentiment}`, String(c.sentiment)) : '—'}
+                  </td>
+                  <td className="py-2.5 text-neutral-400 whitespace-nowrap">
+                    {c.lastMessageAt ? formatDistanceToNow(new Date(c.lastMessageAt), { addSuffix: true }) : '—'}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </BaseModal>
+  );
+}
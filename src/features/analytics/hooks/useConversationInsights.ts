@@ -0,0 +1,11 @@
+import { useQuery } from '@tanstack/react-query';
+import { queryKeys } from '@/lib/queryKeys';
+import { insightsService } from '../services/insightsService';
+
+export function useConversationInsights(startDate: string, endDate: string) {
+  return useQuery({
+    queryKey: queryKeys.conversationInsights(startDate, endDate),
+    queryFn: () => insightsService.getSummary(startDate, endDate),
+    staleTime: 2 * 60 * 1000,
+  });
+}
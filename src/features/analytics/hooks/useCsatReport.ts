@@ -0,0 +1,11 @@
+import { useQuery } from '@tanstack/react-query';
+import { queryKeys } from '@/lib/queryKeys';
+import { csatService } from '../services/csatService';
+
+export function useCsatReport(startDate: string, endDate: string) {
+  return useQuery({
+    queryKey: queryKeys.csatReport(startDate, endDate),
+    queryFn: () => csatService.getReport(startDate, endDate),
+    staleTime: 2 * 60 * 1000,
+  });
+}
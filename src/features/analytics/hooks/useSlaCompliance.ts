@@ -0,0 +1,11 @@
+import { useQuery } from '@tanstack/react-query';
+import { queryKeys } from '@/lib/queryKeys';
+import { slaComplianceService } from '../services/slaComplianceService';
+
+export function useSlaCompliance(startDate: string, endDate: string) {
+  return useQuery({
+    queryKey: queryKeys.slaCompliance(startDate, endDate),
+    queryFn: () => slaComplianceService.getReport(startDate, endDate),
+    staleTime: 2 * 60 * 1000,
+  });
+}
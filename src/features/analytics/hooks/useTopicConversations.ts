@@ -0,0 +1,16 @@
+import { useQuery } from '@tanstack/react-query';
+import { queryKeys } from '@/lib/queryKeys';
+import { insightsService } from '../services/insightsService';
+
+export function useTopicConversations(
+  topic: string | null,
+  startDate: string,
+  endDate: string
+) {
+  return useQuery({
+    queryKey: queryKeys.conversationInsightsTopic(topic, startDate, endDate),
+    queryFn: () => insightsService.getTopicConversations(topic!, startDate, endDate),
+    enabled: !!topic,
+    staleTime: 2 * 60 * 1000,
+  });
+}
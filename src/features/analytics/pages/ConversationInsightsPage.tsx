@@ -0,0 +1,177 @@
+import { useState, useMemo, useCallback } from 'react';
+import { useTranslation } from 'react-i18next';
+import { AlertTriangle, Download, HelpCircle, MessageSquare, UserRound } from 'lucide-react';
+import { BaseHeader } from '@/components/ui/BaseHeader';
+import { Button } from '@/components/ui/Button';
+import { ErrorState } from '@/components/ui/ErrorState';
+import { Skeleton } from '@/components/ui/Skeleton';
+import { useDocumentTitle } from '@/hooks/useDocumentTitle';
+import { FunnelDateFilter } from '../components/FunnelDateFilter';
+import { MetricTile } from '../components/MetricTile';
+import { SentimentDistributionChart } from '../components/SentimentDistributionChart';
+import { TopTopicsTable } from '../components/TopTopicsTable';
+import { AgentNotSureTable } from '../components/AgentNotSureTable';
+import { LabelUsageTable } from '../components/LabelUsageTable';
+import { TopicConversationsModal } from '../components/TopicConversationsModal';
+import { useConversationInsights } from '../hooks/useConversationInsights';
+import { getDateRange } from '../utils/dateRange';
+import { buildInsightsCsv } from '../utils/insightsCsv';
+import type { DateRangePreset } from '../types/funnel.types';
+
+/**
+ * Conversation insights dashboard (SuperAdmin).
+ *
+ * Aggregates the AI analysis fields of every conversation in the range:
+ *   - KPI tiles: conversations, urgent, needs-human, AI-not-sure rate
+ *   - Sentiment distribution over time (stacked by score)
+ *   - Top topics — click one to list its conversations
+ *   - Conversations per label
+ *   - AI-not-sure rate per agent
+ *
+ * Same date presets as the funnel dashboard; the loaded data can be
+ * downloaded as CSV.
+ */
+export default function ConversationInsightsPage() {
+  const { t } = useTranslation();
+  useDocumentTitle('pages.title_conversation_insights');
+  const [preset, setPreset] = useState<DateRangePreset>('30d');
+  const [selectedTopic, setSelectedTopic] = useState<string | null>(null);
+
+  const { startDate, endDate } = useMemo(() => getDateRange(preset), [preset]);
+  const { data: insights, isLoading, isError, refetch } = useConversationInsights(startDate, endDate);
+
+  const notSureRate = insights && insights.totalConversations > 0
+    ? Math.round((insights.notSure / insights.totalConversations) * 100)
+    : null;
+
+  const handlePresetChange = useCallback((p: DateRangePreset) => setPreset(p), []);
+  const handleCloseModal = useCallback(() => setSelectedTopic(null), []);
+
+  const handleExportCsv = () => {
+    if (!insights) return;
+    const csv = buildInsightsCsv(insights, {
+      summary: t('analytics.insights.csv_summary'),
+      metric: t('analytics.insights.csv_metric'),
+      value: t('analytics.insights.csv_value'),
+      totalConversations: t('analytics.insights.tile_conversations'),
+      analysedConversations: t('analytics.insights.csv_analysed'),
+      urgent: t('analytics.insights.tile_urgent'),
+      requiresHumanAttention: t('analytics.insights.tile_needs_human'),
+      notSure: t('analytics.insights.not_sure'),
+      sentimentOverTime: t('analytics.insights.sentiment_over_time'),
+      bucket: t('analytics.insights.csv_date'),
+      sentiments: {
+        1: t('conversation_views.sentiments.1'),
+        2: t('conversation_views.sentiments.2'),
+        3: t('conversation_views.sentiments.3'),
+        4: t('conversation_views.sentiments.4'),
+        5: t('conversation_views.sentiments.5'),
+      },
+      topics: t('analytics.insights.top_topics'),
+      topic: t('analytics.insights.csv_topic'),
+      conversations: t('analytics.insights.conversations'),
+      avgSentiment: t('analytics.insights.csv_avg_sentiment'),
+      labels: t('analytics.insights.labels'),
+      label: t('analytics.insights.csv_label'),
+      agents: t('analytics.insights.not_sure_by_agent'),
+      agent: t('analytics.insights.agent'),
+      notSureRate: t('analytics.insights.rate'),
+    });
+
+    // BOM so Excel opens Arabic topics/agent names as UTF-8
+    const blob = new Blob(['\uFEFF', csv], { type: 'text/csv;charset=utf-8' });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `conversation-insights-${preset}-${endDate.slice(0, 10)}.csv`;
+    document.body.appendChild(link);
+    link.click();
+    document.body.removeChild(link);
+    URL.revokeObjectURL(url);
+  };
+
+  return (
+    <div className="space-y-6 p-6">
+      <BaseHeader
+        title={t('analytics.insights.page_title')}
+        subtitle={t('analytics.insights.page_subtitle')}
+        additionalActions={
+          <div className="flex items-center gap-2">
+            <FunnelDateFilter selected={preset} onChange={handlePresetChange} />
+            <Button variant="secondary" size="sm" onClick={handleExportCsv} disabled={!insights}>
+              <Download className="w-4 h-4 me-1.5" />
+              {t('analytics.insights.export_csv')}
+            </Button>
+          </div>
+        }
+      />
+
+      {isError ? (
+        <ErrorState title={t('analytics.error_loading_chart')} onRetry={() => refetch()} />
+      ) : (
+        <>
+          <div className="grid grid-cols-2 gap-3 lg:grid-cols-4">
+            <MetricTile
+              label={t('analytics.insights.tile_conversations')}
+              value={insights?.totalConversations}
+              subtext={
+                insights
+                  ? t('analytics.insights.tile_analysed_subtext', { count: insights.analysedConversations })
+                  : undefined
+              }
+              icon={MessageSquare}
+              isLoading={isLoading}
+            />
+            <MetricTile
+              label={t('analytics.insights.tile_urgent')}
+              value={insights?.urgent}
+              icon={AlertTriangle}
+              isLoading={isLoading}
+              variant={insights && insights.urgent > 0 ? 'warning' : 'default'}
+            />
+            <MetricTile
+              label={t('analytics.insights.tile_needs_human')}
+              value={insights?.requiresHumanAttention}
+              icon={UserRound}
+              isLoading={isLoading}
+            />
+            <MetricTile
+              label={t('analytics.insights.tile_not_sure')}
+              value={notSureRate !== null ? `${notSureRate}%` : '—'}
+              subtext={insights ? `(${insights.notSure.toLocaleString()})` : undefined}
+              icon={HelpCircle}
+              isLoading={isLoading}
+            />
+          </div>
+
+          {isLoading || !insights ? (
+            <div className="space-y-4">
+              <Skeleton className="h-72 w-full rounded-xl" />
+              <div className="grid grid-cols-1 lg:grid-cols-2 gap-4">
+                <Skeleton className="h-80 w-full rounded-xl" />
+                <Skeleton className="h-80 w-full rounded-xl" />
+              </div>
+            </div>
+          ) : (
+            <>
+              <SentimentDistributionChart buckets={insights.sentimentBuckets} />
+              <div className="grid grid-cols-1 lg:grid-cols-2 gap-4 items-start">
+                <TopTopicsTable topics={insights.topTopics} onSelectTopic={setSelectedTopic} />
+                <AgentNotSureTable agents={insights.agents} />
+                <LabelUsageTable labels={insights.labels} />
+              </div>
+            </>
+          )}
+        </>
+      )}
+
+      <TopicConversationsModal
+        isOpen={!!selectedTopic}
+        onClose={handleCloseModal}
+        topic={selectedTopic}
+        startDate={startDate}
+        endDate={endDate}
+      />
+    </div>
+  );
+}
@@ -0,0 +1,147 @@
+import { useState, useMemo, useCallback } from 'react';
+import { useTranslation } from 'react-i18next';
+import { Bot, MessageSquareReply, Smile, Star } from 'lucide-react';
+import { BaseHeader } from '@/components/ui/BaseHeader';
+import { ErrorState } from '@/components/ui/ErrorState';
+import { Skeleton } from '@/components/ui/Skeleton';
+import { useDocumentTitle } from '@/hooks/useDocumentTitle';
+import { AgentLink } from '@/features/agents/components/AgentLink';
+import { FunnelDateFilter } from '../components/FunnelDateFilter';
+import { MetricTile } from '../components/MetricTile';
+import { CsatDistributionChart } from '../components/CsatDistributionChart';
+import { CsatTable, type CsatRow } from '../components/CsatTable';
+import { useCsatReport } from '../hooks/useCsatReport';
+import { getDateRange } from '../utils/dateRange';
+import type { DateRangePreset } from '../types/funnel.types';
+
+/** Satisfaction below this turns the tile amber */
+const TARGET_SATISFACTION = 0.8;
+
+const formatRate = (rate: number | null | undefined) =>
+  rate === null || rate === undefined ? '—' : `${Math.round(rate * 100)}%`;
+
+const formatScore = (score: number | null | undefined) =>
+  score === null || score === undefined ? '—' : score.toFixed(2);
+
+/**
+ * Customer satisfaction report (SuperAdmin).
+ *
+ *   - KPI tiles: surveys sent and answered, average CSAT, satisfaction rate,
+ *     AI-inferred sentiment of the same rated conversations
+ *   - Score distribution
+ *   - CSAT per agent and per resolving teammate, against AI sentiment
+ */
+export default function CsatReportPage() {
+  const { t } = useTranslation();
+  useDocumentTitle('pages.title_csat_report');
+  const [preset, setPreset] = useState<DateRangePreset>('30d');
+
+  const { startDate, endDate } = useMemo(() => getDateRange(preset), [preset]);
+  const { data: report, isLoading, isError, refetch } = useCsatReport(startDate, endDate);
+
+  const handlePresetChange = useCallback((p: DateRangePreset) => setPreset(p), []);
+
+  const agentRows = useMemo<CsatRow[]>(
+    () =>
+      (report?.agents ?? []).map((agent) => ({
+        ...agent,
+        id: agent.agentId,
+        label: <AgentLink agentId={agent.agentId} agentName={agent.agentName} />,
+      })),
+    [report]
+  );
+  const teammateRows = useMemo<CsatRow[]>(
+    () =>
+      (report?.teammates ?? []).map((teammate) => ({
+        ...teammate,
+        id: teammate.userId ?? 'ai',
+        label: teammate.userId
+          ? teammate.userName ?? teammate.userId
+          : <span className="text-neutral-500">{t('analytics.csat.no_teammate')}</span>,
+      })),
+    [report, t]
+  );
+
+  return (
+    <div className="space-y-6 p-6">
+      <BaseHeader
+        title={t('analytics.csat.page_title')}
+        subtitle={t('analytics.csat.page_subtitle')}
+        additionalActions={<FunnelDateFilter selected={preset} onChange={handlePresetChange} />}
+      />
+
+      {isError ? (
+        <ErrorState title={t('analytics.error_loading_chart')} onRetry={() => refetch()} />
+      ) : (
+        <>
+          <div className="grid grid-cols-2 gap-3 lg:grid-cols-4">
+            <MetricTile
+              label={t('analytics.csat.tile_responses')}
+              value={report?.responses}
+              subtext={
+                report
+                  ? t('analytics.csat.tile_response_rate_subtext', {
+                      rate: formatRate(report.responseRate),
+                      count: report.surveys,
+                    })
+                  : undefined
+              }
+              icon={MessageSquareReply}
+              isLoading={isLoading}
+            />
+            <MetricTile
+              label={t('analytics.csat.tile_avg_score')}
+              value={formatScore(report?.avgScore)}
+              icon={Star}
+              isLoading={isLoading}
+            />
+            <MetricTile
+              label={t('analytics.csat.tile_satisfaction')}
+              value={formatRate(report?.satisfactionRate)}
+              icon={Smile}
+              isLoading={isLoading}
+              variant={
+                report?.satisfactionRate != null && report.satisfactionRate < TARGET_SATISFACTION
+                  ? 'warning'
+                  : 'default'
+              }
+            />
+            <MetricTile
+              label={t('analytics.csat.tile_ai_sentiment')}
+              value={formatScore(report?.avgSentiment)}
+              subtext={t('analytics.csat.tile_ai_sentiment_subtext')}
+              icon={Bot}
+              isLoading={isLoading}
+            />
+          </div>
+
+          {isLoading || !report ? (
+            <div className="space-y-4">
+              <Skeleton className="h-56 w-full rounded-xl" />
+              <div className="grid grid-cols-1 lg:grid-cols-2 gap-4">
+                <Skeleton className="h-80 w-full rounded-xl" />
+                <Skeleton className="h-80 w-full rounded-xl" />
+              </div>
+            </div>
+          ) : (
+            <>
+              <CsatDistributionChart distribution={report.distribution} />
+              <div className="grid grid-cols-1 lg:grid-cols-2 gap-4 items-start">
+                <CsatTable
+                  title={t('analytics.csat.by_agent')}
+                  labelHeader={t('analytics.insights.agent')}
+                  rows={agentRows}
+                />
+                <CsatTable
+                  title={t('analytics.csat.by_teammate')}
+                  labelHeader={t('analytics.csat.teammate')}
+                  rows={teammateRows}
+                />
+              </div>
+            </>
+          )}
+        </>
+      )}
+    </div>
+  );
+}
@@ -1,5 +1,4 @@
 import { useState, useMemo, useCallback } from 'react';
-import { subDays, startOfDay, format } from 'date-fns';
 import { BaseHeader } from '@/components/ui/BaseHeader';
 import { useDocumentTitle } from '@/hooks/useDocumentTitle';
 import { useFunnelSummary } from '../hooks/useFunnelSummary';
@@ -9,19 +8,9 @@ import { FunnelChart } from '../components/FunnelChart';
 import { FunnelEventsTable } from '../components/FunnelEventsTable';
 import { StepUsersModal } from '../components/StepUsersModal';
 import { useRecentEvents } from '../hooks/useRecentEvents';
+import { getDateRange } from '../utils/dateRange';
 import type { DateRangePreset } from '../types/funnel.types';
 
-function getDateRange(preset: DateRangePreset) {
-  const end = new Date();
-  const start = preset === 'today'
-    ? startOfDay(end)
-    : subDays(end, preset === '7d' ? 7 : preset === '30d' ? 30 : 90);
-  return {
-    startDate: format(start, "yyyy-MM-dd'T'HH:mm:ss'Z'"),
-    endDate: format(end, "yyyy-MM-dd'T'HH:mm:ss'Z'"),
-  };
-}
-
 export default function FunnelDashboardPage() {
   useDocumentTitle('pages.title_funnel_analytics');
   const [preset, setPreset] = useState<DateRangePreset>('30d');
@@ -0,0 +1,150 @@
+import { useState, useMemo, useCallback } from 'react';
+import { useTranslation } from 'react-i18next';
+import { CheckCircle2, Clock, Timer, TimerReset } from 'lucide-react';
+import { BaseHeader } from '@/components/ui/BaseHeader';
+import { ErrorState } from '@/components/ui/ErrorState';
+import { Skeleton } from '@/components/ui/Skeleton';
+import { useDocumentTitle } from '@/hooks/useDocumentTitle';
+import { AgentLink } from '@/features/agents/components/AgentLink';
+import { formatSlaRemaining } from '@/features/conversations/utils/sla';
+import { FunnelDateFilter } from '../components/FunnelDateFilter';
+import { MetricTile } from '../components/MetricTile';
+import { SlaComplianceTrendChart } from '../components/SlaComplianceTrendChart';
+import { SlaComplianceTable, type SlaComplianceRow } from '../components/SlaComplianceTable';
+import { useSlaCompliance } from '../hooks/useSlaCompliance';
+import { getDateRange } from '../utils/dateRange';
+import type { DateRangePreset } from '../types/funnel.types';
+
+/** Compliance below this turns the tile amber */
+const TARGET_RATE = 0.9;
+
+const formatRate = (rate: number | null | undefined) =>
+  rate === null || rate === undefined ? '—' : `${Math.round(rate * 100)}%`;
+
+const formatMinutes = (minutes: number | null | undefined) =>
+  minutes === null || minutes === undefined ? '—' : formatSlaRemaining(minutes * 60 * 1000);
+
+/**
+ * SLA compliance report (SuperAdmin), the SLA counterpart of the agent
+ * analytics page.
+ *
+ *   - KPI tiles: timers, first-response and resolution compliance, average
+ *     time to first human reply
+ *   - Met vs breached over time for both targets
+ *   - Compliance per SLA policy and per agent
+ */
+export default function SlaCompliancePage() {
+  const { t } = useTranslation();
+  useDocumentTitle('pages.title_sla_compliance');
+  const [preset, setPreset] = useState<DateRangePreset>('30d');
+
+  const { startDate, endDate } = useMemo(() => getDateRange(preset), [preset]);
+  const { data: report, isLoading, isError, refetch } = useSlaCompliance(startDate, endDate);
+
+  const handlePresetChange = useCallback((p: DateRangePreset) => setPreset(p), []);
+
+  const policyRows = useMemo<SlaComplianceRow[]>(
+    () => (report?.policies ?? []).map((policy) => ({ ...policy, id: policy.policyId, label: policy.policyName })),
+    [report]
+  );
+  const agentRows = useMemo<SlaComplianceRow[]>(
+    () =>
+      (report?.agents ?? []).map((agent) => ({
+        ...agent,
+        id: agent.agentId,
+        label: <AgentLink agentId={agent.agentId} agentName={agent.agentName} />,
+      })),
+    [report]
+  );
+
+  const isBelowTarget = (rate: number | null | undefined) =>
+    rate !== null && rate !== undefined && rate < TARGET_RATE;
+
+  return (
+    <div className="space-y-6 p-6">
+      <BaseHeader
+        title={t('analytics.sla.page_title')}
+        subtitle={t('analytics.sla.page_subtitle')}
+        additionalActions={<FunnelDateFilter selected={preset} onChange={handlePresetChange} />}
+      />
+
+      {isError ? (
+        <ErrorState title={t('analytics.error_loading_chart')} onRetry={() => refetch()} />
+      ) : (
+        <>
+          <div className="grid grid-cols-2 gap-3 lg:grid-cols-4">
+            <MetricTile
+              label={t('analytics.sla.tile_timers')}
+              value={report?.timers}
+              icon={Timer}
+              isLoading={isLoading}
+            />
+            <MetricTile
+              label={t('analytics.sla.tile_first_response')}
+              value={formatRate(report?.firstResponseRate)}
+              subtext={
+                report
+                  ? t('analytics.sla.tile_breached_subtext', { count: report.firstResponseBreached })
+                  : undefined
+              }
+              icon={CheckCircle2}
+              isLoading={isLoading}
+              variant={isBelowTarget(report?.firstResponseRate) ? 'warning' : 'default'}
+            />
+            <MetricTile
+              label={t('analytics.sla.tile_resolution')}
+              value={formatRate(report?.resolutionRate)}
+              subtext={
+                report
+                  ? t('analytics.sla.tile_breached_subtext', { count: report.resolutionBreached })
+                  : undefined
+              }
+              icon={TimerReset}
+              isLoading={isLoading}
+              variant={isBelowTarget(report?.resolutionRate) ? 'warning' : 'default'}
+            />
+            <MetricTile
+              label={t('analytics.sla.tile_avg_first_response')}
+              value={formatMinutes(report?.avgFirstResponseMinutes)}
+              subtext={
+                report?.avgResolutionMinutes != null
+                  ? t('analytics.sla.tile_avg_resolution_subtext', {
+                      duration: formatMinutes(report.avgResolutionMinutes),
+                    })
+                  : undefined
+              }
+              icon={Clock}
+              isLoading={isLoading}
+            />
+          </div>
+
+          {isLoading || !report ? (
+            <div className="space-y-4">
+              <Skeleton className="h-72 w-full rounded-xl" />
+              <div className="grid grid-cols-1 lg:grid-cols-2 gap-4">
+                <Skeleton className="h-80 w-full rounded-xl" />
+                <Skeleton className="h-80 w-full rounded-xl" />
+              </div>
+            </div>
+          ) : (
+            <>
+              <SlaComplianceTrendChart buckets={report.buckets} />
+              <div className="grid grid-cols-1 lg:grid-cols-2 gap-4 items-start">
+                <SlaComplianceTable
+                  title={t('analytics.sla.by_policy')}
+                  labelHeader={t('analytics.sla.policy')}
+                  rows={policyRows}
+                />
+                <SlaComplianceTable
+                  title={t('analytics.sla.by_agent')}
+                  labelHeader={t('analytics.insights.agent')}
+                  rows={agentRows}
+                />
+              </div>
+            </>
+          )}
+        </>
+      )}
+    </div>
+  );
+}
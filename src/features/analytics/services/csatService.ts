@@ -0,0 +1,79 @@
+import api from '@/lib/api';
+import { CSAT_SCORES } from '@/features/conversations/utils/csat';
+import type {
+  CsatAgentStat,
+  CsatAgentStatWire,
+  CsatReport,
+  CsatReportWire,
+  CsatStats,
+  CsatStatsWire,
+  CsatTeammateStat,
+  CsatTeammateStatWire,
+} from '../types/csat.types';
+
+/**
+ * Service layer for the CSAT report (SuperAdmin).
+ *
+ * Backend route:
+ *   GET /api/admin/csat
+ *
+ * Surveys count in the range they were sent; answers arriving later are
+ * attributed to the survey's range.
+ */
+
+// ============================================================================
+// Transformers — wire (snake_case) → frontend (camelCase)
+// ============================================================================
+
+const ratio = (part: number, whole: number) => (whole > 0 ? part / whole : null);
+
+function toStats(wire: CsatStatsWire): CsatStats {
+  return {
+    surveys: wire.surveys,
+    responses: wire.responses,
+    satisfied: wire.satisfied,
+    avgScore: wire.avg_score,
+    avgSentiment: wire.avg_sentiment,
+    responseRate: ratio(wire.responses, wire.surveys),
+    satisfactionRate: ratio(wire.satisfied, wire.responses),
+  };
+}
+
+function toAgentStat(wire: CsatAgentStatWire): CsatAgentStat {
+  return { ...toStats(wire), agentId: wire.agent_id, agentName: wire.agent_name };
+}
+
+function toTeammateStat(wire: CsatTeammateStatWire): CsatTeammateStat {
+  return { ...toStats(wire), userId: wire.user_id, userName: wire.user_name };
+}
+
+// ============================================================================
+// Public service
+// ============================================================================
+
+export const csatService = {
+  /**
+   * Survey volume, response and satisfaction rates for the range — totals,
+   * the score distribution and breakdowns per agent and per resolving teammate.
+   */
+  getReport: async (startDate: string, endDate: string): Promise<CsatReport> => {
+    const { data } = await api.get('/api/admin/csat', {
+      params: { start_date: startDate, end_date: endDate },
+    });
+
+    const wire = data.data as CsatReportWire;
+    const distribution = {} as CsatReport['distribution'];
+    CSAT_SCORES.forEach((score) => {
+      distribution[score] = wire.distribution?.[String(score)] ?? 0;
+    });
+
+    return {
+      ...toStats(wire),
+      from: wire.from,
+      to: wire.to,
+      distribution,
+      agents: (wire.agents ?? []).map(toAgentStat),
+      teammates: (wire.teammates ?? []).map(toTeammateStat),
+    };
+  },
+};
@@ -0,0 +1,129 @@
+import api from '@/lib/api';
+import {
+  SENTIMENT_SCORES,
+  type AgentNotSureStat,
+  type AgentNotSureStatWire,
+  type ConversationInsights,
+  type ConversationInsightsWire,
+  type LabelStat,
+  type LabelStatWire,
+  type SentimentBucket,
+  type SentimentBucketWire,
+  type TopicConversation,
+  type TopicConversationWire,
+  type TopicStat,
+  type TopicStatWire,
+} from '../types/insights.types';
+
+/**
+ * Service layer for conversation insights (SuperAdmin).
+ *
+ * Backend routes:
+ *   GET /api/admin/conversation-insights
+ *   GET /api/admin/conversation-insights/topic-conversations
+ *
+ * Bucket granularity (day for ≥ 7 days, hour otherwise) is decided
+ * server-side from the range size.
+ */
+
+// ============================================================================
+// Transformers — wire (snake_case) → frontend (camelCase)
+// ============================================================================
+
+function toSentimentBucket(wire: SentimentBucketWire): SentimentBucket {
+  const counts = {} as SentimentBucket['counts'];
+  SENTIMENT_SCORES.forEach((score) => {
+    counts[score] = wire.counts?.[String(score)] ?? 0;
+  });
+  return { bucketAt: wire.bucket_at, counts };
+}
+
+function toTopicStat(wire: TopicStatWire): TopicStat {
+  return {
+    topic: wire.topic,
+    conversations: wire.conversations,
+    avgSentiment: wire.avg_sentiment,
+    urgent: wire.urgent,
+    requiresHumanAttention: wire.requires_human_attention,
+  };
+}
+
+function toLabelStat(wire: LabelStatWire): LabelStat {
+  return {
+    labelId: wire.label_id,
+    name: wire.name,
+    color: wire.color,
+    conversations: wire.conversations,
+  };
+}
+
+function toAgentNotSureStat(wire: AgentNotSureStatWire): AgentNotSureStat {
+  return {
+    agentId: wire.agent_id,
+    agentName: wire.agent_name,
+    conversations: wire.conversations,
+    notSure: wire.not_sure,
+    notSureRate: wire.conversations > 0 ? wire.not_sure / wire.conversations : 0,
+  };
+}
+
+function toTopicConversation(wire: TopicConversationWire): TopicConversation {
+  return {
+    conversationId: wire.conversation_id,
+    agentId: wire.agent_id,
+    agentName: wire.agent_name,
+    customerName: wire.customer_name,
+    source: wire.source,
+    sentiment: wire.sentiment,
+    urgent: wire.urgent,
+    lastMessage: wire.last_message,
+    lastMessageAt: wire.last_message_at,
+  };
+}
+
+// ============================================================================
+// Public service
+// ============================================================================
+
+export const insightsService = {
+  /**
+   * Sentiment distribution over time, top topics, label usage and per-agent
+   * "AI not sure" counts for conversations active in the range.
+   */
+  getSummary: async (startDate: string, endDate: string): Promise<ConversationInsights> => {
+    const { data } = await api.get('/api/admin/conversation-insights', {
+      params: { start_date: startDate, end_date: endDate },
+    });
+
+    const wire = data.data as ConversationInsightsWire;
+    return {
+      from: wire.from,
+      to: wire.to,
+      totalConversations: wire.total_conversations,
+      analysedConversations: wire.analysed_conversations,
+      urgent: wire.urgent,
+      requiresHumanAttention: wire.requires_human_attention,
+      notSure: wire.not_sure,
+      sentimentBuckets: (wire.sentiment_buckets ?? []).map(toSentimentBucket),
+      topTopics: (wire.top_topics ?? []).map(toTopicStat),
+      labels: (wire.labels ?? []).map(toLabelStat),
+      agents: (wire.agents ?? []).map(toAgentNotSureStat),
+    };
+  },
+
+  /**
+   * Conversations tagged with one topic in the range — topic drill-down.
+   */
+  getTopicConversations: async (
+    topic: string,
+    startDate: string,
+    endDate: string,
+    limit = 100
+  ): Promise<TopicConversation[]> => {
+    const { data } = await api.get('/api/admin/conversation-insights/topic-conversations', {
+      params: { topic, start_date: startDate, end_date: endDate, limit },
+    });
+
+    return (data.data as TopicConversationWire[]).map(toTopicConversation);
+  },
+};
@@ -0,0 +1,81 @@
+import api from '@/lib/api';
+import type {
+  SlaAgentCompliance,
+  SlaAgentComplianceWire,
+  SlaComplianceBucket,
+  SlaComplianceBucketWire,
+  SlaComplianceCounts,
+  SlaComplianceCountsWire,
+  SlaComplianceReport,
+  SlaComplianceReportWire,
+  SlaPolicyCompliance,
+  SlaPolicyComplianceWire,
+} from '../types/slaCompliance.types';
+
+/**
+ * Service layer for the SLA compliance report (SuperAdmin).
+ *
+ * Backend route:
+ *   GET /api/admin/sla-compliance
+ *
+ * Only timers whose target was reached or breached inside the range count;
+ * timers still running are left out so rates don't drift while you watch.
+ */
+
+// ============================================================================
+// Transformers — wire (snake_case) → frontend (camelCase)
+// ============================================================================
+
+const rate = (met: number, breached: number) => (met + breached > 0 ? met / (met + breached) : null);
+
+function toCounts(wire: SlaComplianceCountsWire): SlaComplianceCounts {
+  return {
+    timers: wire.timers,
+    firstResponseMet: wire.first_response_met,
+    firstResponseBreached: wire.first_response_breached,
+    resolutionMet: wire.resolution_met,
+    resolutionBreached: wire.resolution_breached,
+    firstResponseRate: rate(wire.first_response_met, wire.first_response_breached),
+    resolutionRate: rate(wire.resolution_met, wire.resolution_breached),
+  };
+}
+
+function toBucket(wire: SlaComplianceBucketWire): SlaComplianceBucket {
+  return { ...toCounts(wire), bucketAt: wire.bucket_at };
+}
+
+function toPolicyCompliance(wire: SlaPolicyComplianceWire): SlaPolicyCompliance {
+  return { ...toCounts(wire), policyId: wire.policy_id, policyName: wire.policy_name };
+}
+
+function toAgentCompliance(wire: SlaAgentComplianceWire): SlaAgentCompliance {
+  return { ...toCounts(wire), agentId: wire.agent_id, agentName: wire.agent_name };
+}
+
+// ============================================================================
+// Public service
+// ============================================================================
+
+export const slaComplianceService = {
+  /**
+   * First-response and resolution compliance for the range — totals, a trend
+   * and breakdowns per SLA policy and per agent.
+   */
+  getReport: async (startDate: string, endDate: string): Promise<SlaComplianceReport> => {
+    const { data } = await api.get('/api/admin/sla-compliance', {
+      params: { start_date: startDate, end_date: endDate },
+    });
+
+    const wire = data.data as SlaComplianceReportWire;
+    return {
+      ...toCounts(wire),
+      from: wire.from,
+      to: wire.to,
+      avgFirstResponseMinutes: wire.avg_first_response_minutes,
+      avgResolutionMinutes: wire.avg_resolution_minutes,
+      buckets: (wire.buckets ?? []).map(toBucket),
+      policies: (wire.policies ?? []).map(toPolicyCompliance),
+      agents: (wire.agents ?? []).map(toAgentCompliance),
+    };
+  },
+};
@@ -0,0 +1,76 @@
+/**
+ * CSAT report types.
+ *
+ * Customer satisfaction surveys (see ConversationCsat) sent in the range and
+ * the answers they got, next to the AI-inferred sentiment of the same rated
+ * conversations so the two can be compared. Wire format is snake_case;
+ * csatService transforms to camelCase.
+ */
+
+// ============================================================================
+// Wire-format (snake_case) — what comes off the API
+// ============================================================================
+
+export interface CsatStatsWire {
+  surveys: number;
+  responses: number;
+  /** Responses scoring 4 or 5 */
+  satisfied: number;
+  avg_score: number | null;
+  /** Average AI sentiment (1-5) over the rated conversations only */
+  avg_sentiment: number | null;
+}
+
+export interface CsatAgentStatWire extends CsatStatsWire {
+  agent_id: string;
+  agent_name: string | null;
+}
+
+export interface CsatTeammateStatWire extends CsatStatsWire {
+  /** Teammate who resolved the conversation; NULL = resolved without a human */
+  user_id: string | null;
+  user_name: string | null;
+}
+
+export interface CsatReportWire extends CsatStatsWire {
+  from: string;
+  to: string;
+  /** Response count per score, keyed "1".."5" */
+  distribution: Record<string, number>;
+  agents: CsatAgentStatWire[];
+  teammates: CsatTeammateStatWire[];
+}
+
+// ============================================================================
+// Frontend-facing (camelCase) — what components consume
+// ============================================================================
+
+export interface CsatStats {
+  surveys: number;
+  responses: number;
+  satisfied: number;
+  avgScore: number | null;
+  avgSentiment: number | null;
+  /** responses / surveys; null when no survey was sent */
+  responseRate: number | null;
+  /** satisfied / responses; null without responses */
+  satisfactionRate: number | null;
+}
+
+export interface CsatAgentStat extends CsatStats {
+  agentId: string;
+  agentName: string | null;
+}
+
+export interface CsatTeammateStat extends CsatStats {
+  userId: string | null;
+  userName: string | null;
+}
+
+export interface CsatReport extends CsatStats {
+  from: string;
+  to: string;
+  distribution: Record<1 | 2 | 3 | 4 | 5, number>;
+  agents: CsatAgentStat[];
+  teammates: CsatTeammateStat[];
+}
@@ -0,0 +1,131 @@
+/**
+ * Conversation insights types.
+ *
+ * Aggregates of the AI analysis fields every conversation carries (topic,
+ * sentiment, urgent, requires_human_attention, am_not_sure_how_to_answer).
+ * Wire format is snake_case; insightsService transforms to camelCase.
+ */
+
+import type { ConversationLabelColor } from '@/features/conversations/types';
+
+// ============================================================================
+// Wire-format (snake_case) — what comes off the API
+// ============================================================================
+
+export interface SentimentBucketWire {
+  bucket_at: string;
+  /** Conversation count per sentiment score, keyed "1".."5" */
+  counts: Record<string, number>;
+}
+
+export interface TopicStatWire {
+  topic: string;
+  conversations: number;
+  avg_sentiment: number | null;
+  urgent: number;
+  requires_human_attention: number;
+}
+
+export interface LabelStatWire {
+  label_id: string;
+  name: string;
+  color: ConversationLabelColor;
+  conversations: number;
+}
+
+export interface AgentNotSureStatWire {
+  agent_id: string;
+  agent_name: string | null;
+  conversations: number;
+  not_sure: number;
+}
+
+export interface ConversationInsightsWire {
+  from: string;
+  to: string;
+  total_conversations: number;
+  analysed_conversations: number;
+  urgent: number;
+  requires_human_attention: number;
+  not_sure: number;
+  sentiment_buckets: SentimentBucketWire[];
+  top_topics: TopicStatWire[];
+  labels: LabelStatWire[];
+  agents: AgentNotSureStatWire[];
+}
+
+export interface TopicConversationWire {
+  conversation_id: string;
+  agent_id: string;
+  agent_name: string | null;
+  customer_name: string | null;
+  source: string;
+  sentiment: number | null;
+  urgent: boolean;
+  last_message: string | null;
+  last_message_at: string | null;
+}
+
+// ============================================================================
+// Frontend-facing (camelCase) — what components consume
+// ============================================================================
+
+export type SentimentScore = 1 | 2 | 3 | 4 | 5;
+
+export const SENTIMENT_SCORES: SentimentScore[] = [1, 2, 3, 4, 5];
+
+export interface SentimentBucket {
+  bucketAt: string;
+  counts: Record<SentimentScore, number>;
+}
+
+export interface TopicStat {
+  topic: string;
+  conversations: number;
+  avgSentiment: number | null;
+  urgent: number;
+  requiresHumanAttention: number;
+}
+
+export interface LabelStat {
+  labelId: string;
+  name: string;
+  color: ConversationLabelColor;
+  conversations: number;
+}
+
+export interface AgentNotSureStat {
+  agentId: string;
+  agentName: string | null;
+  conversations: number;
+  notSure: number;
+  /** notSure / conversations, 0 when the agent had no conversations */
+  notSureRate: number;
+}
+
+export interface ConversationInsights {
+  from: string;
+  to: string;
+  totalConversations: number;
+  analysedConversations: number;
+  urgent: number;
+  requiresHumanAttention: number;
+  notSure: number;
+  sentimentBuckets: SentimentBucket[];
+  topTopics: TopicStat[];
+  /** Conversations per label, most used first */
+  labels: LabelStat[];
+  agents: AgentNotSureStat[];
+}
+
+export interface TopicConversation {
+  conversationId: string;
+  agentId: string;
+  agentName: string | null;
+  customerName: string | null;
+  source: string;
+  sentiment: number | null;
+  urgent: boolean;
+  lastMessage: string | null;
+  lastMessageAt: string | null;
+}
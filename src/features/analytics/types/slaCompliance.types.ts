@@ -0,0 +1,83 @@
+/**
+ * SLA compliance report types.
+ *
+ * Counts of SLA timers (see ConversationSla) that ended in the range, split by
+ * target and outcome. A target is "met" when the first human reply / close
+ * happened before its due time. Wire format is snake_case;
+ * slaComplianceService transforms to camelCase.
+ */
+
+// ============================================================================
+// Wire-format (snake_case) — what comes off the API
+// ============================================================================
+
+export interface SlaComplianceCountsWire {
+  timers: number;
+  first_response_met: number;
+  first_response_breached: number;
+  resolution_met: number;
+  resolution_breached: number;
+}
+
+export interface SlaComplianceBucketWire extends SlaComplianceCountsWire {
+  bucket_at: string;
+}
+
+export interface SlaPolicyComplianceWire extends SlaComplianceCountsWire {
+  policy_id: string;
+  policy_name: string;
+}
+
+export interface SlaAgentComplianceWire extends SlaComplianceCountsWire {
+  agent_id: string;
+  agent_name: string | null;
+}
+
+export interface SlaComplianceReportWire extends SlaComplianceCountsWire {
+  from: string;
+  to: string;
+  avg_first_response_minutes: number | null;
+  avg_resolution_minutes: number | null;
+  buckets: SlaComplianceBucketWire[];
+  policies: SlaPolicyComplianceWire[];
+  agents: SlaAgentComplianceWire[];
+}
+
+// ============================================================================
+// Frontend-facing (camelCase) — what components consume
+// ============================================================================
+
+export interface SlaComplianceCounts {
+  timers: number;
+  firstResponseMet: number;
+  firstResponseBreached: number;
+  resolutionMet: number;
+  resolutionBreached: number;
+  /** met / (met + breached); null when no timer reached that target */
+  firstResponseRate: number | null;
+  resolutionRate: number | null;
+}
+
+export interface SlaComplianceBucket extends SlaComplianceCounts {
+  bucketAt: string;
+}
+
+export interface SlaPolicyCompliance extends SlaComplianceCounts {
+  policyId: string;
+  policyName: string;
+}
+
+export interface SlaAgentCompliance extends SlaComplianceCounts {
+  agentId: string;
+  agentName: string | null;
+}
+
+export interface SlaComplianceReport extends SlaComplianceCounts {
+  from: string;
+  to: string;
+  avgFirstResponseMinutes: number | null;
+  avgResolutionMinutes: number | null;
+  buckets: SlaComplianceBucket[];
+  policies: SlaPolicyCompliance[];
+  agents: SlaAgentCompliance[];
+}
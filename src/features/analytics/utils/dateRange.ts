@@ -0,0 +1,16 @@
+import { subDays, startOfDay, format } from 'date-fns';
+import type { DateRangePreset } from '../types/funnel.types';
+
+/**
+ * Resolve a FunnelDateFilter preset to the ISO range sent to admin endpoints
+ */
+export function getDateRange(preset: DateRangePreset) {
+  const end = new Date();
+  const start = preset === 'today'
+    ? startOfDay(end)
+    : subDays(end, preset === '7d' ? 7 : preset === '30d' ? 30 : 90);
+  return {
+    startDate: format(start, "yyyy-MM-dd'T'HH:mm:ss'Z'"),
+    endDate: format(end, "yyyy-MM-dd'T'HH:mm:ss'Z'"),
+  };
+}
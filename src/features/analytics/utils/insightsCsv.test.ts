@@ -0,0 +1,63 @@
+import { describe, it, expect } from 'vitest';
+import type { ConversationInsights } from '../types/insights.types';
+import { buildInsightsCsv, type InsightsCsvLabels } from './insightsCsv';
+
+const labels: InsightsCsvLabels = {
+  summary: 'Summary',
+  metric: 'Metric',
+  value: 'Value',
+  totalConversations: 'Conversations',
+  analysedConversations: 'Analysed',
+  urgent: 'Urgent',
+  requiresHumanAttention: 'Needs human',
+  notSure: 'AI not sure',
+  sentimentOverTime: 'Sentiment over time',
+  bucket: 'Date',
+  sentiments: { 1: 'Very unhappy', 2: 'Unhappy', 3: 'Neutral', 4: 'Happy', 5: 'Very happy' },
+  topics: 'Topics',
+  topic: 'Topic',
+  conversations: 'Conversations',
+  avgSentiment: 'Avg sentiment',
+  labels: 'Labels',
+  label: 'Label',
+  agents: 'Agents',
+  agent: 'Agent',
+  notSureRate: 'AI not sure rate',
+};
+
+const insights: ConversationInsights = {
+  from: '2026-01-01T00:00:00Z',
+  to: '2026-01-08T00:00:00Z',
+  totalConversations: 10,
+  analysedConversations: 8,
+  urgent: 1,
+  requiresHumanAttention: 2,
+  notSure: 3,
+  sentimentBuckets: [{ bucketAt: '2026-01-01', counts: { 1: 0, 2: 1, 3: 2, 4: 3, 5: 2 } }],
+  topTopics: [{ topic: 'Refund, "late"', conversations: 4, avgSentiment: 2.5, urgent: 1, requiresHumanAttention: 0 }],
+  labels: [{ labelId: 'l-1', name: 'VIP', color: 'amber', conversations: 3 }],
+  agents: [{ agentId: 'a-1', agentName: null, conversations: 8, notSure: 2, notSureRate: 0.25 }],
+};
+
+describe('buildInsightsCsv', () => {
+  it('writes one section per widget', () => {
+    const lines = buildInsightsCsv(insights, labels).split('\r\n');
+    expect(lines).toContain('Conversations,10');
+    expect(lines).toContain('Date,Very unhappy,Unhappy,Neutral,Happy,Very happy');
+    expect(lines).toContain('2026-01-01,0,1,2,3,2');
+    expect(lines).toContain('VIP,3');
+    expect(lines).toContain('a-1,8,2,25.0%');
+  });
+
+  it('quotes cells with commas or quotes', () => {
+    expect(buildInsightsCsv(insights, labels)).toContain('"Refund, ""late""",4,2.50,1,0');
+  });
+
+  it('neutralizes spreadsheet formulas in text cells', () => {
+    const csv = buildInsightsCsv(
+      { ...insights, topTopics: [{ ...insights.topTopics[0], topic: '=HYPERLINK("x")' }] },
+      labels
+    );
+    expect(csv).toContain(`"'=HYPERLINK(""x"")"`);
+  });
+});
@@ -0,0 +1,85 @@
+import { SENTIMENT_SCORES, type ConversationInsights } from '../types/insights.types';
+
+/**
+ * Localized headings for the CSV. Resolved by the caller so this stays a pure
+ * string builder.
+ */
+export interface InsightsCsvLabels {
+  summary: string;
+  metric: string;
+  value: string;
+  totalConversations: string;
+  analysedConversations: string;
+  urgent: string;
+  requiresHumanAttention: string;
+  notSure: string;
+  sentimentOverTime: string;
+  bucket: string;
+  sentiments: Record<(typeof SENTIMENT_SCORES)[number], string>;
+  topics: string;
+  topic: string;
+  conversations: string;
+  avgSentiment: string;
+  labels: string;
+  label: string;
+  agents: string;
+  agent: string;
+  notSureRate: string;
+}
+
+/** RFC 4180 quoting; leading =,+,-,@ are prefixed so spreadsheets don't run them as formulas */
+function escapeCell(value: string | number | null | undefined): string {
+  if (value === null || value === undefined) return '';
+  let text = String(value);
+  if (typeof value === 'string' && /^[=+\-@]/.test(text)) {
+    text = `'${text}`;
+  }
+  return /[",\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+const row = (cells: (string | number | null | undefined)[]) => cells.map(escapeCell).join(',');
+
+/**
+ * One CSV with a section per dashboard widget, separated by blank lines
+ */
+export function buildInsightsCsv(insights: ConversationInsights, labels: InsightsCsvLabels): string {
+  const lines: string[] = [
+    row([labels.summary]),
+    row([labels.metric, labels.value]),
+    row([labels.totalConversations, insights.totalConversations]),
+    row([labels.analysedConversations, insights.analysedConversations]),
+    row([labels.urgent, insights.urgent]),
+    row([labels.requiresHumanAttention, insights.requiresHumanAttention]),
+    row([labels.notSure, insights.notSure]),
+    '',
+    row([labels.sentimentOverTime]),
+    row([labels.bucket, ...SENTIMENT_SCORES.map((score) => labels.sentiments[score])]),
+    ...insights.sentimentBuckets.map((bucket) =>
+      row([bucket.bucketAt, ...SENTIMENT_SCORES.map((score) => bucket.counts[score])])
+    ),
+    '',
+    row([labels.topics]),
+    row([labels.topic, labels.conversations, labels.avgSentiment, labels.urgent, labels.requiresHumanAttention]),
+    ...insights.topTopics.map((topic) =>
+      row([
+        topic.topic,
+        topic.conversations,
+        topic.avgSentiment !== null ? topic.avgSentiment.toFixed(2) : null,
+        topic.urgent,
+        topic.requiresHumanAttention,
+      ])
+    ),
+    '',
+    row([labels.labels]),
+    row([labels.label, labels.conversations]),
+    ...insights.labels.map((label) => row([label.name, label.conversations])),
+    '',
+    row([labels.agents]),
+    row([labels.agent, labels.conversations, labels.notSure, labels.notSureRate]),
+    ...insights.agents.map((agent) =>
+      row([agent.agentName ?? agent.agentId, agent.conversations, agent.notSure, `${(agent.notSureRate * 100).toFixed(1)}%`])
+    ),
+  ];
+
+  return lines.join('\r\n') + '\r\n';
+}
@@ -0,0 +1,48 @@
+/**
+ * Business Hours Banner
+ * Subtle indicator above the composer while the agent is outside its staffed
+ * hours — the AI keeps replying (and sends the away message) until they open.
+ */
+
+import { useEffect, useState } from 'react';
+import { useTranslation } from 'react-i18next';
+import { Moon } from 'lucide-react';
+import { useDateLocale } from '@/lib/dateConfig';
+import { getNextOpening, isWithinBusinessHours } from '@/features/agents/utils/businessHours';
+import type { BusinessHours } from '@/features/agents/types/businessHours.types';
+
+/** Re-check once a minute so the banner clears when the shift starts */
+const RECHECK_MS = 60 * 1000;
+
+interface BusinessHoursBannerProps {
+  businessHours: BusinessHours | null | undefined;
+}
+
+export function BusinessHoursBanner({ businessHours }: BusinessHoursBannerProps) {
+  const { t } = useTranslation();
+  const { formatInUserTimezone } = useDateLocale();
+  const [now, setNow] = useState(() => new Date());
+
+  useEffect(() => {
+    if (!businessHours?.enabled) return;
+    const timer = setInterval(() => setNow(new Date()), RECHECK_MS);
+    return () => clearInterval(timer);
+  }, [businessHours?.enabled]);
+
+  if (isWithinBusinessHours(businessHours, now)) return null;
+
+  const nextOpening = getNextOpening(businessHours, now);
+
+  return (
+    <div className="flex items-center justify-center gap-1.5 mt-1 w-full">
+      <Moon className="w-3 h-3 text-neutral-500" />
+      <span className="text-[11px] text-neutral-500">
+        {nextOpening
+          ? t('business_hours.banner_outside_until', {
+              time: formatInUserTimezone(nextOpening, 'EEE p'),
+            })
+          : t('business_hours.banner_outside')}
+      </span>
+    </div>
+  );
+}
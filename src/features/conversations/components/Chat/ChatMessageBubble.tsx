@@ -4,29 +4,54 @@
  * User = WHITE background + BLACK text
  * Assistant = BLACK background + WHITE text
  * Supports optimistic updates with status indicators
+ * Shows the quoted parent of platform replies, reaction chips and an
+ * "edited" marker
+ * Messages in another language than the teammate's can be shown translated
  */
 
 import { memo, useState, useEffect, useRef, useMemo, useCallback } from 'react';
 import { useTranslation } from 'react-i18next';
-import { Copy, Check, CheckCheck, Loader2, AlertCircle, RefreshCw, FileText } from 'lucide-react';
+import { Copy, Check, CheckCheck, Loader2, AlertCircle, RefreshCw, FileText, Clock, Paperclip, Reply, X, Languages } from 'lucide-react';
 import DOMPurify from 'dompurify';
-import type { ChatMessage } from '../../types';
+import type { ChatMessage, TranslationLanguage } from '../../types';
 import { isCustomerMessage, parseAttachments, isMessageDeleted, isVideoAttachment, MessageStatus } from '../../types';
 import { formatMessageTime } from '../../utils/timeFormatters';
+import { groupReactions } from '../../utils/messageReactions';
 import { parseFormattedText, isArabicText } from '../../utils/textFormatters';
+import { needsTranslation } from '../../utils/translation';
 import { cn } from '@/lib/utils';
 import { chatToasts } from '../../utils/chatToasts';
 import { CHAT_BUBBLE_COLORS } from '../../constants/chatBubbleColors';
 import { ImageModal } from './ImageModal';
 import { AudioPlayer } from './AudioPlayer';
+import { QuotedMessage } from './QuotedMessage';
+import { MessageTranslation } from './MessageTranslation';
 import { logger } from '@/lib/logger';
 
 interface ChatMessageBubbleProps {
   message: ChatMessage;
   onRetry?: () => void;
+  /** Drop the message from the offline outbox */
+  onDiscard?: () => void;
+  /** Start a reply to this message in the composer */
+  onReply?: (message: ChatMessage) => void;
+  /** Scroll to a quoted parent message */
+  onJumpToMessage?: (messageId: string) => void;
+  /** Teammate's language; enables the translate toggle for messages in another one */
+  translateTo?: TranslationLanguage | null;
+  /** Show the translation by default (conversation auto-translate) */
+  autoTranslate?: boolean;
 }
 
-const ChatMessageBubble = memo(function ChatMessageBubble({ message, onRetry }: ChatMessageBubbleProps) {
+const ChatMessageBubble = memo(function ChatMessageBubble({
+  message,
+  onRetry,
+  onDiscard,
+  onReply,
+  onJumpToMessage,
+  translateTo = null,
+  autoTranslate = false,
+}: ChatMessageBubbleProps) {
   const { t } = useTranslation();
   const isUser = isCustomerMessage(message);
   const isDeleted = isMessageDeleted(message);
@@ -45,6 +70,21 @@ const ChatMessageBubble = memo(function ChatMessageBubble({ message, onRetry }:
   // Optimistic update states
   const isOptimistic = message.isOptimistic || message.sendStatus === 'sending';
   const hasError = message.sendStatus === 'error';
+  // Offline outbox states
+  const isQueued = message.sendStatus === 'queued';
+  const isRetrying = message.sendStatus === 'retrying';
+  const queuedFiles = message.queuedFiles ?? [];
+
+  const replyTo = message.reply_to ?? null;
+  const reactionGroups = useMemo(() => groupReactions(message.reactions), [message.reactions]);
+  const canReply = !!onReply && !isOptimistic && !hasError && !isQueued && !isRetrying;
+
+  // Translation — the teammate's own toggle wins over conversation auto-translate
+  const canTranslate =
+    !!translateTo && !isDeleted && !isOptimistic && !hasError && !isQueued && !isRetrying &&
+    needsTranslation(messageText, translateTo);
+  const [translationToggle, setTranslationToggle] = useState<boolean | null>(null);
+  const showTranslation = canTranslate && (translationToggle ?? autoTranslate);
 
   // Copy feedback state
   const [isCopied, setIsCopied] = useState(false);
@@ -176,6 +216,17 @@ const ChatMessageBubble = memo(function ChatMessageBubble({ message, onRetry }:
                       loading="lazy"
                     />
                   ) : null}
+
+                  {/* Caption */}
+                  {!isVideo && img.caption && (
+                    <div
+                      className="absolute inset-x-0 bottom-0 bg-gradient-to-t from-neutral-950/70 to-transparent px-2 pb-1.5 pt-4 text-xs text-white line-clamp-3 break-words pointer-events-none"
+                      dir={isArabicText(img.caption) ? 'rtl' : 'ltr'}
+                      title={img.caption}
+                    >
+                      {img.caption}
+                    </div>
+                  )}
                 </div>
               );
             })}
@@ -237,8 +288,23 @@ const ChatMessageBubble = memo(function ChatMessageBubble({ message, onRetry }:
           </div>
         )}
 
+        {/* Outbox files waiting to be uploaded */}
+        {queuedFiles.length > 0 && (
+          <div className={cn('mb-2 flex flex-col gap-1.5', horizontalAlign)}>
+            {queuedFiles.map((file, idx) => (
+              <div
+                key={idx}
+                className="flex items-center gap-2 px-3 py-2 rounded-lg border border-dashed border-neutral-300 bg-neutral-50 max-w-[300px] opacity-80"
+              >
+                <Paperclip className="w-4 h-4 text-neutral-500 flex-shrink-0" />
+                <span className="text-xs text-neutral-700 truncate">{file.name}</span>
+              </div>
+            ))}
+          </div>
+        )}
+
         {/* Message Bubble */}
-        {(messageText || isDeleted) && (
+        {(messageText || isDeleted || replyTo) && (
           <div
             className={cn(
               'p-4 border',
@@ -252,6 +318,19 @@ const ChatMessageBubble = memo(function ChatMessageBubble({ message, onRetry }:
             )}
             style={bubbleStyle}
           >
+          {/* Quoted parent (platform reply or teammate reply) */}
+          {replyTo && !isDeleted && (
+            <QuotedMessage
+              replyTo={replyTo}
+              inverted={!isUser}
+              onClick={
+                replyTo.message_id && onJumpToMessage
+                  ? () => onJumpToMessage(replyTo.message_id!)
+                  : undefined
+              }
+              className={messageText ? 'mb-2' : undefined}
+            />
+          )}
           {/* Template badge */}
           {message.message_type === 5 && (
             <div className="mb-1.5">
@@ -267,6 +346,13 @@ const ChatMessageBubble = memo(function ChatMessageBubble({ message, onRetry }:
             <div className="italic opacity-60 text-sm">
               {t('conversations.message_deleted')}
             </div>
+          ) : showTranslation && translateTo ? (
+            <MessageTranslation
+              conversationId={message.conversation_id}
+              messageId={message.id}
+              targetLanguage={translateTo}
+              onShowOriginal={() => setTranslationToggle(false)}
+            />
           ) : (
             messageText && (
               <div
@@ -282,6 +368,28 @@ const ChatMessageBubble = memo(function ChatMessageBubble({ message, onRetry }:
           </div>
         )}
 
+        {/* Reactions */}
+        {!isDeleted && reactionGroups.length > 0 && (
+          <div className={cn('flex flex-wrap gap-1 -mt-2 mb-0.5 px-2 relative z-[1]', horizontalAlign)}>
+            {reactionGroups.map((group) => (
+              <span
+                key={group.emoji}
+                className="inline-flex items-center gap-0.5 px-1.5 py-0.5 rounded-full bg-white border border-neutral-200 shadow-sm text-xs leading-none"
+                title={
+                  group.fromCustomer && group.fromTeam
+                    ? t('conversations.replies.reacted_both')
+                    : group.fromCustomer
+                      ? t('conversations.replies.reacted_customer')
+                      : t('conversations.replies.reacted_team')
+                }
+              >
+                <span>{group.emoji}</span>
+                {group.count > 1 && <span className="text-[10px] text-neutral-500">{group.count}</span>}
+              </span>
+            ))}
+          </div>
+        )}
+
         {/* Footer: Status + Timestamp + Copy Button */}
         {!isDeleted && (
           <div className={cn('flex items-center gap-1.5 mt-0.5 px-1', horizontalAlign)}>
@@ -300,6 +408,32 @@ const ChatMessageBubble = memo(function ChatMessageBubble({ message, onRetry }:
                   {t('conversations.retry')}
                 </button>
               )}
+              {onDiscard && (
+                <button
+                  onClick={onDiscard}
+                  className="flex items-center gap-1 text-xs text-neutral-500 hover:text-neutral-700 font-medium underline"
+                >
+                  <X className="w-3 h-3" />
+                  {t('conversations.outbox.discard')}
+                </button>
+              )}
+            </div>
+          )}
+
+          {/* Offline outbox state */}
+          {(isQueued || isRetrying) && (
+            <div className="flex items-center gap-1 text-xs text-amber-600">
+              {isRetrying ? <Loader2 className="w-3 h-3 animate-spin" /> : <Clock className="w-3 h-3" />}
+              <span>{isRetrying ? t('conversations.outbox.retrying') : t('conversations.outbox.queued')}</span>
+              {isQueued && onRetry && (
+                <button
+                  onClick={onRetry}
+                  className="font-medium underline hover:text-amber-800"
+                  title={t('conversations.outbox.send_now_hint')}
+                >
+                  {t('conversations.outbox.send_now')}
+                </button>
+              )}
             </div>
           )}
 
@@ -313,10 +447,22 @@ const ChatMessageBubble = memo(function ChatMessageBubble({ message, onRetry }:
             </span>
           )}
 
+          {/* Edited after sending */}
+          {!hasError && message.edited_at && (
+            <span
+              className="text-[11px] text-neutral-500 opacity-50 italic"
+              title={t('conversations.replies.edited_at', { time: formatMessageTime(message.edited_at) })}
+            >
+              {t('conversations.replies.edited')}
+            </span>
+          )}
+
           {/* Delivery status ticks — only for outbound (non-customer) messages */}
           {!hasError && !isUser && (
             <span className="relative flex items-center group/tick cursor-default">
-              {isOptimistic ? (
+              {isQueued ? (
+                <Clock className="w-4 h-4 text-neutral-400" />
+              ) : isOptimistic ? (
                 <Loader2 className="w-4 h-4 animate-spin text-neutral-400" />
               ) : message.status === MessageStatus.Read ? (
                 <CheckCheck className="w-4 h-4 text-green-500" strokeWidth={2.5} />
@@ -326,7 +472,7 @@ const ChatMessageBubble = memo(function ChatMessageBubble({ message, onRetry }:
                 <Check className="w-4 h-4 text-neutral-300" strokeWidth={2.5} />
               )}
               <span className="absolute bottom-full left-1/2 -translate-x-1/2 mb-1.5 px-2 py-1 text-[10px] font-medium text-white bg-neutral-800 rounded shadow-sm whitespace-nowrap opacity-0 group-hover/tick:opacity-100 transition-opacity pointer-events-none">
-                {isOptimistic ? 'Sending...' :
+                {isQueued ? 'Queued' : isOptimistic ? 'Sending...' :
                   message.status === MessageStatus.Read ? 'Read' :
                   message.status === MessageStatus.Delivered ? 'Delivered' :
                   message.status === MessageStatus.Failed ? 'Failed' : 'Sent'}
@@ -334,6 +480,34 @@ const ChatMessageBubble = memo(function ChatMessageBubble({ message, onRetry }:
             </span>
           )}
 
+          {/* Reply button — visible on hover only */}
+          {canReply && (
+            <button
+              onClick={() => onReply?.(message)}
+              className="p-1 rounded transition-all opacity-0 group-hover:opacity-100 hover:bg-neutral-100"
+              title={t('conversations.replies.reply')}
+              aria-label={t('conversations.replies.reply')}
+            >
+              <Reply className="w-3 h-3 text-neutral-500" />
+            </button>
+          )}
+
+          {/* Translate toggle — visible on hover only, unless showing the translation */}
+          {canTranslate && (
+            <button
+              onClick={() => setTranslationToggle(!showTranslation)}
+              className={cn(
+                'p-1 rounded transition-all',
+                showTranslation ? 'bg-blue-50 opacity-100' : 'opacity-0 group-hover:opacity-100 hover:bg-neutral-100'
+              )}
+              title={showTranslation ? t('translation.show_original') : t('translation.translate')}
+              aria-label={showTranslation ? t('translation.show_original') : t('translation.translate')}
+              aria-pressed={showTranslation}
+            >
+              <Languages className={cn('w-3 h-3', showTranslation ? 'text-blue-600' : 'text-neutral-500')} />
+            </button>
+          )}
+
           {/* Copy button — visible on hover only */}
           {!hasError && (
             <button
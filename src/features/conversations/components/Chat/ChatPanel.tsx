@@ -6,9 +6,9 @@
 
 import { useMemo, useEffect, useCallback, useState } from 'react';
 import { useTranslation } from 'react-i18next';
-import { ArrowLeft, ArrowRight, BotOff, MoreVertical, Trash2, Contact, Plus } from 'lucide-react';
+import { ArrowLeft, ArrowRight, BotOff, MoreVertical, Trash2, Contact, Plus, FileDown, PanelRight, Sparkles, Languages, Check } from 'lucide-react';
 import { useMutation, useQueryClient } from '@tanstack/react-query';
-import type { Conversation } from '../../types';
+import type { Conversation, SendMessageOptions } from '../../types';
 import { SenderRole, MessageType } from '../../types/conversation.types';
 import { useChatStore } from '../../stores/chatStore';
 import { useAgentStore } from '@/features/agents/stores/agentStore';
@@ -35,8 +35,22 @@ import {
   DropdownMenuItem,
   DropdownMenuTrigger,
 } from '@/components/ui/dropdown-menu';
-import { getWhatsAppWindowStatus, WhatsAppExpiredBanner, WhatsAppActiveBanner } from './WhatsAppSessionBanner';
 import TemplatePicker from './TemplatePicker';
+import { getLastCustomerMessageAt } from '../../utils/whatsappSession';
+import { useComposerStore } from '../../stores/composerStore';
+import type { MessageTemplate } from '@/features/whatsapp/types/whatsapp.types';
+import { ConversationAssigneeSelect } from './ConversationAssigneeSelect';
+import { ConversationLabelSelect } from './ConversationLabelSelect';
+import { ConversationCsatBadge } from './ConversationCsatBadge';
+import { InternalNoteComposer } from './InternalNoteComposer';
+import { useConversationNotes } from '../../hooks/useConversationNotes';
+import { useMessageOutbox } from '../../hooks/useMessageOutbox';
+import { TranscriptExportModal } from './TranscriptExportModal';
+import { BusinessHoursBanner } from './BusinessHoursBanner';
+import { getMediaPlatform } from '../../utils/mediaLimits';
+import { CopilotPanel } from './CopilotPanel';
+import { useTranslationStore, useConversationTranslationSettings } from '../../stores/translationStore';
+import { getLocaleLanguage } from '../../utils/translation';
 
 interface ChatPanelProps {
   conversation: Conversation;
@@ -48,9 +62,19 @@ interface ChatPanelProps {
    * button there would create a redundant lead ↔ conversation loop.
    */
   hideLeadButton?: boolean;
+  /** Whether the contact profile sidebar is showing (desktop inbox only) */
+  isContactPanelOpen?: boolean;
+  /** Toggle the contact profile sidebar — the header button is hidden without it */
+  onToggleContactPanel?: () => void;
 }
 
-export default function ChatPanel({ conversation, onBack, hideLeadButton = false }: ChatPanelProps) {
+export default function ChatPanel({
+  conversation,
+  onBack,
+  hideLeadButton = false,
+  isContactPanelOpen = false,
+  onToggleContactPanel,
+}: ChatPanelProps) {
   const { t, i18n } = useTranslation();
   const isRTL = i18n.dir() === 'rtl';
   const queryClient = useQueryClient();
@@ -64,11 +88,24 @@ export default function ChatPanel({ conversation, onBack, hideLeadButton = false
   // WhatsApp template state
   const isWhatsApp = conversation.source === 'whatsapp';
   const [showTemplatePicker, setShowTemplatePicker] = useState(false);
+  // Template proposed by the composer for a closed session, with pre-filled parameters
+  const [suggestedTemplate, setSuggestedTemplate] = useState<{
+    template: MessageTemplate;
+    params: Record<string, string>;
+  } | null>(null);
+  const requestComposerReplace = useComposerStore((state) => state.requestReplace);
 
   // Lead-details drawer state. We only fetch when the conversation has a
   // successful lead_capture triggered action — avoids a guaranteed-404 request
   // for the ~80% of conversations that never captured a lead.
   const [showLeadDrawer, setShowLeadDrawer] = useState(false);
+  const [showTranscriptExport, setShowTranscriptExport] = useState(false);
+  // Copilot opens by itself (with a fresh summary) when a teammate takes over from the AI
+  const [copilot, setCopilot] = useState<{ open: boolean; autoSummarize: boolean }>({ open: false, autoSummarize: false });
+  // Translation — customer messages shown in the teammate's UI language
+  const agentLanguage = getLocaleLanguage(i18n.language);
+  const { autoTranslate } = useConversationTranslationSettings(conversation.id);
+  const updateTranslationSettings = useTranslationStore((state) => state.updateSettings);
   const hasLeadCapture = useMemo(
     () => (conversation.triggered_actions ?? []).some((a) => a.operation_id === 'lead_capture'),
     [conversation.triggered_actions]
@@ -80,27 +117,58 @@ export default function ChatPanel({ conversation, onBack, hideLeadButton = false
   );
 
   const handleTemplateClick = useCallback(() => {
+    setSuggestedTemplate(null);
     setShowTemplatePicker((prev) => !prev);
   }, []);
 
+  const handleTemplateSuggestion = useCallback((template: MessageTemplate, params: Record<string, string>) => {
+    setSuggestedTemplate({ template, params });
+    setShowTemplatePicker(true);
+  }, []);
+
   const handleTemplateClose = useCallback(() => {
     setShowTemplatePicker(false);
+    setSuggestedTemplate(null);
   }, []);
 
+  // The draft went out as the suggested template's parameters
+  const handleTemplateSent = useCallback(() => {
+    if (suggestedTemplate) requestComposerReplace('');
+  }, [suggestedTemplate, requestComposerReplace]);
+
   // Fetch initial messages using Zustand store
   const fetchMessages = useChatStore((state) => state.fetchMessages);
   const loadMoreMessages = useChatStore((state) => state.loadMore);
   const hasMore = useChatStore((state) => state.hasMore);
   const isStoreLoading = useChatStore((state) => state.isLoading);
 
+  // Message-search deep links: load around a message, then grow towards the latest
+  const jumpTarget = useChatStore((state) => state.jumpTarget);
+  const jumpToMessage = useChatStore((state) => state.jumpToMessage);
+  const loadNewerMessages = useChatStore((state) => state.loadNewer);
+  const hasNewer = useChatStore((state) => state.hasNewer);
+  const focusedMessageId = useChatStore((state) => state.focusedMessageId);
+  const clearFocusedMessage = useChatStore((state) => state.clearFocusedMessage);
+
+  // Internal team notes, interleaved into the thread
+  const { data: notes } = useConversationNotes(conversation.id);
+
   // Use Zustand storage adapter (persistent)
   const storage = useZustandChatStorage();
 
+  // Staffed-hours calendar of the conversation's agent (only known when it's the selected one)
+  const agentBusinessHours =
+    globalSelectedAgent?.id === conversation.agent_id ? globalSelectedAgent.businessHours : null;
+
+  // Offline outbox — queued messages survive reloads and replay on reconnect
+  const outbox = useMessageOutbox(conversation.id, globalSelectedAgent?.id);
+
   // Use unified chat engine with optimistic updates
   const chatEngine = useChatEngine({
     conversationId: conversation.id,
     agentId: globalSelectedAgent?.id,
     storage,
+    outbox: outbox.adapter,
     enablePagination: true,
     senderRole: SenderRole.HumanAgent, // Always send as admin in conversations view
     onError: (err) => {
@@ -125,6 +193,8 @@ export default function ChatPanel({ conversation, onBack, hideLeadButton = false
         senderRole: SenderRole.HumanAgent, // Mark as admin message
         messageType: params.messageType || MessageType.Text,
         attachments: params.attachments,
+        clientMessageId: params.clientMessageId,
+        replyToMessageId: params.replyToMessageId,
       });
       return response;
     },
@@ -165,6 +235,7 @@ export default function ChatPanel({ conversation, onBack, hideLeadButton = false
   });
 
   const handleModeToggle = () => {
+    if (conversation.is_ai) setCopilot({ open: true, autoSummarize: true });
     toggleModeMutation.mutate(!conversation.is_ai);
   };
 
@@ -218,12 +289,18 @@ export default function ChatPanel({ conversation, onBack, hideLeadButton = false
 
   const captureLeadDisabled = captureLeadMutation.isPending || awaitingQueue;
 
-  // Fetch messages on conversation change
+  // Fetch messages on conversation change — unless it was opened from a search hit
   useEffect(() => {
     if (!conversation.id) return;
+    if (useChatStore.getState().jumpTarget?.conversationId === conversation.id) return;
     fetchMessages(conversation.id, true); // true = refresh
   }, [conversation.id, fetchMessages]);
 
+  useEffect(() => {
+    if (!jumpTarget || jumpTarget.conversationId !== conversation.id) return;
+    jumpToMessage(conversation.id, jumpTarget.messageId);
+  }, [jumpTarget, conversation.id, jumpToMessage]);
+
   // Fire-and-forget: warm the saved-messages cache so the picker opens instantly.
   // Won't block render, won't surface errors — failures just mean the picker
   // falls back to its own fetch on first open.
@@ -277,6 +354,8 @@ export default function ChatPanel({ conversation, onBack, hideLeadButton = false
             {!conversation.is_ai && (
               <BotOff className="w-3.5 h-3.5 text-neutral-400 flex-shrink-0" />
             )}
+            {/* Customer satisfaction — survey sent when the conversation was resolved */}
+            <ConversationCsatBadge csat={conversation.csat} />
           </div>
 
           {/* Source and topic - subtle secondary text */}
@@ -293,6 +372,18 @@ export default function ChatPanel({ conversation, onBack, hideLeadButton = false
 
         </div>
 
+        {/* Assignee — teammate responsible for the conversation (also mirrored to the lead) */}
+        <ConversationAssigneeSelect
+          conversationId={conversation.id}
+          assignedTo={conversation.assigned_to ?? null}
+        />
+
+        {/* Labels — organization labels applied by teammates or actions */}
+        <ConversationLabelSelect
+          conversationId={conversation.id}
+          labelIds={conversation.label_ids ?? []}
+        />
+
         {/* Lead action — mutually exclusive states of the same affordance.
             Visual differentiation by intent (Option 2 — tonal contrast):
               - No lead yet → brand-tinted "Add lead" (create-action accent).
@@ -330,18 +421,52 @@ export default function ChatPanel({ conversation, onBack, hideLeadButton = false
           )
         )}
 
-        {/* Three-dot menu with delete option (SuperAdmin & Admin only) */}
-        {canDelete && (
-          <DropdownMenu>
-            <DropdownMenuTrigger asChild>
-              <button
-                className="p-2 hover:bg-neutral-100 rounded-lg transition-colors"
-                aria-label={t('conversations.more_options')}
-              >
-                <MoreVertical className="w-5 h-5 text-neutral-600" />
-              </button>
-            </DropdownMenuTrigger>
-            <DropdownMenuContent align="end">
+        <button
+          onClick={() => setCopilot((prev) => ({ open: !prev.open, autoSummarize: false }))}
+          className={`p-2 rounded-lg transition-colors ${copilot.open ? 'bg-violet-50' : 'hover:bg-neutral-100'}`}
+          title={t('copilot.toggle')}
+          aria-label={t('copilot.toggle')}
+          aria-pressed={copilot.open}
+        >
+          <Sparkles className={`w-5 h-5 ${copilot.open ? 'text-violet-700' : 'text-neutral-600'}`} />
+        </button>
+
+        {onToggleContactPanel && (
+          <button
+            onClick={onToggleContactPanel}
+            className={`p-2 rounded-lg transition-colors ${isContactPanelOpen ? 'bg-neutral-100' : 'hover:bg-neutral-100'}`}
+            title={t('contact_profile.toggle')}
+            aria-label={t('contact_profile.toggle')}
+            aria-pressed={isContactPanelOpen}
+          >
+            <PanelRight className="w-5 h-5 text-neutral-600 rtl:-scale-x-100" />
+          </button>
+        )}
+
+        {/* Three-dot menu: transcript export, delete (SuperAdmin & Admin only) */}
+        <DropdownMenu>
+          <DropdownMenuTrigger asChild>
+            <button
+              className="p-2 hover:bg-neutral-100 rounded-lg transition-colors"
+              aria-label={t('conversations.more_options')}
+            >
+              <MoreVertical className="w-5 h-5 text-neutral-600" />
+            </button>
+          </DropdownMenuTrigger>
+          <DropdownMenuContent align="end">
+            <DropdownMenuItem onClick={() => setShowTranscriptExport(true)} className="cursor-pointer">
+              <FileDown className="w-4 h-4 me-2" />
+              {t('transcript_export.menu_item')}
+            </DropdownMenuItem>
+            <DropdownMenuItem
+              onClick={() => updateTranslationSettings(conversation.id, { autoTranslate: !autoTranslate })}
+              className="cursor-pointer"
+            >
+              <Languages className="w-4 h-4 me-2" />
+              {t('translation.auto_translate')}
+              {autoTranslate && <Check className="w-4 h-4 ms-auto" />}
+            </DropdownMenuItem>
+            {canDelete && (
               <DropdownMenuItem
                 onClick={handleDelete}
                 disabled={deleteMutation.isPending}
@@ -350,12 +475,12 @@ export default function ChatPanel({ conversation, onBack, hideLeadButton = false
                 <Trash2 className="w-4 h-4 me-2" />
                 {deleteMutation.isPending ? t('conversations.deleting') : t('common.delete')}
               </DropdownMenuItem>
-            </DropdownMenuContent>
-          </DropdownMenu>
-        )}
+            )}
+          </DropdownMenuContent>
+        </DropdownMenu>
       </div>
     ),
-    [conversation, onBack, profilePictureUrl, handleDelete, deleteMutation.isPending, isRTL, canDelete, t, linkedLead, hideLeadButton, handleCaptureLead, captureLeadDisabled]
+    [conversation, onBack, profilePictureUrl, handleDelete, deleteMutation.isPending, isRTL, canDelete, t, linkedLead, hideLeadButton, handleCaptureLead, captureLeadDisabled, isContactPanelOpen, onToggleContactPanel, copilot.open, autoTranslate, updateTranslationSettings]
   );
 
   // Handle load more with Zustand store
@@ -363,6 +488,59 @@ export default function ChatPanel({ conversation, onBack, hideLeadButton = false
     loadMoreMessages(conversation.id);
   };
 
+  const handleLoadNewer = useCallback(() => {
+    loadNewerMessages(conversation.id);
+  }, [loadNewerMessages, conversation.id]);
+
+  const handleJumpToQuoted = useCallback(
+    (messageId: string) => {
+      jumpToMessage(conversation.id, messageId);
+    },
+    [jumpToMessage, conversation.id]
+  );
+
+  const handleJumpToLatest = useCallback(() => {
+    fetchMessages(conversation.id, true);
+  }, [fetchMessages, conversation.id]);
+
+  // Sending while reading older history: bring the latest page back first
+  const { sendMessage } = chatEngine;
+  const handleSendMessage = useCallback(
+    async (content: string, attachments?: string, options?: SendMessageOptions) => {
+      if (useChatStore.getState().hasNewer) {
+        await fetchMessages(conversation.id, true);
+      }
+      await sendMessage(content, attachments, options);
+    },
+    [sendMessage, fetchMessages, conversation.id]
+  );
+
+  // Queued messages follow the thread; skip any whose original send landed after all
+  const threadMessages = useMemo(() => {
+    if (outbox.messages.length === 0) return chatEngine.messages;
+    const delivered = new Set(chatEngine.messages.map((m) => m.correlation_id).filter(Boolean));
+    return [...chatEngine.messages, ...outbox.messages.filter((m) => !delivered.has(m.correlation_id))];
+  }, [chatEngine.messages, outbox.messages]);
+
+  const { findClientId, retry: retryOutbox, discard: discardOutbox } = outbox;
+  const chatRetryMessage = chatEngine.retryMessage;
+  const handleRetryMessage = useCallback(
+    async (messageId: string) => {
+      const clientId = findClientId(messageId);
+      if (clientId) return retryOutbox(clientId);
+      return chatRetryMessage(messageId);
+    },
+    [findClientId, retryOutbox, chatRetryMessage]
+  );
+
+  const handleDiscardMessage = useCallback(
+    async (messageId: string) => {
+      const clientId = findClientId(messageId);
+      if (clientId) await discardOutbox(clientId);
+    },
+    [findClientId, discardOutbox]
+  );
+
   return (
     <>
       {/* Container for sticky header + scrollable content */}
@@ -372,20 +550,31 @@ export default function ChatPanel({ conversation, onBack, hideLeadButton = false
 
         {/* SCROLLABLE CONTENT */}
         {(() => {
-          const waWindow = isWhatsApp ? getWhatsAppWindowStatus(chatEngine.messages) : null;
-          const windowExpired = waWindow?.expired ?? false;
+          // A jumped-to window around an older message may not hold the customer's latest one — leave the status unknown
+          const lastCustomerMessageAt =
+            isWhatsApp && !hasNewer ? getLastCustomerMessageAt(chatEngine.messages) : undefined;
+          const latestMessageId = chatEngine.messages.filter((m) => !m.isOptimistic).at(-1)?.id ?? null;
 
           return (
             <>
               <UnifiedChatView
-                messages={chatEngine.messages}
+                messages={threadMessages}
                 isLoading={isStoreLoading}
                 isAITyping={chatEngine.isAITyping}
-                onSendMessage={chatEngine.sendMessage}
-                onRetryMessage={chatEngine.retryMessage}
+                onSendMessage={handleSendMessage}
+                onRetryMessage={handleRetryMessage}
+                onDiscardMessage={handleDiscardMessage}
+                onQueueMessage={outbox.isAvailable ? outbox.queueWithFiles : undefined}
                 enablePagination={true}
                 onLoadMore={handleLoadMore}
                 hasMore={hasMore}
+                hasNewer={hasNewer}
+                onLoadNewer={handleLoadNewer}
+                onJumpToLatest={handleJumpToLatest}
+                focusMessageId={focusedMessageId}
+                onFocusHandled={clearFocusedMessage}
+                onJumpToMessage={handleJumpToQuoted}
+                enableReplies={true}
                 enableAIToggle={true}
                 isAIMode={conversation.is_ai}
                 onModeToggle={handleModeToggle}
@@ -393,22 +582,32 @@ export default function ChatPanel({ conversation, onBack, hideLeadButton = false
                 conversationId={conversation.id}
                 agentId={conversation.agent_id}
                 isWhatsApp={isWhatsApp}
+                mediaPlatform={getMediaPlatform(conversation.source)}
                 onTemplateClick={handleTemplateClick}
-                hideComposer={isWhatsApp && windowExpired}
-                composerFooter={
-                  isWhatsApp && !windowExpired && waWindow && waWindow.remaining < 4 * 60 * 60 * 1000 ? (
-                    <WhatsAppActiveBanner remainingMs={waWindow.remaining} />
-                  ) : null
+                lastCustomerMessageAt={lastCustomerMessageAt}
+                whatsAppConnectionId={conversation.platform_connection_id}
+                onTemplateSuggestion={handleTemplateSuggestion}
+                composerFooter={<BusinessHoursBanner businessHours={agentBusinessHours} />}
+                composerHeader={
+                  copilot.open ? (
+                    <CopilotPanel
+                      key={conversation.id}
+                      conversationId={conversation.id}
+                      agentId={conversation.agent_id}
+                      latestMessageId={latestMessageId}
+                      autoSummarize={copilot.autoSummarize}
+                      onClose={() => setCopilot({ open: false, autoSummarize: false })}
+                    />
+                  ) : undefined
                 }
                 aiHandoffUntil={conversation.ai_handoff_until}
+                translateTo={agentLanguage}
+                autoTranslate={autoTranslate}
+                notes={notes}
+                noteComposer={<InternalNoteComposer conversationId={conversation.id} />}
                 className="bg-white flex-1 min-h-0"
               />
 
-              {/* Expired window: replaces composer */}
-              {isWhatsApp && windowExpired && (
-                <WhatsAppExpiredBanner onSendTemplate={handleTemplateClick} />
-              )}
-
               {/* Template Picker */}
               {isWhatsApp && conversation.platform_connection_id && (
                 <TemplatePicker
@@ -416,6 +615,9 @@ export default function ChatPanel({ conversation, onBack, hideLeadButton = false
                   onClose={handleTemplateClose}
                   conversationId={conversation.id}
                   connectionId={conversation.platform_connection_id}
+                  initialTemplate={suggestedTemplate?.template}
+                  initialParams={suggestedTemplate?.params}
+                  onSent={handleTemplateSent}
                 />
               )}
             </>
@@ -432,6 +634,13 @@ export default function ChatPanel({ conversation, onBack, hideLeadButton = false
           onClose={() => setShowLeadDrawer(false)}
         />
       )}
+
+      {/* Transcript export — opened from the header menu */}
+      <TranscriptExportModal
+        isOpen={showTranscriptExport}
+        onClose={() => setShowTranscriptExport(false)}
+        conversation={conversation}
+      />
     </>
   );
 }
@@ -0,0 +1,132 @@
+/**
+ * Conversation Assignee Select
+ * Compact assignee picker for the ChatPanel header.
+ * Order: "Assign to me" pinned, then "Unassign", then members alphabetically.
+ */
+
+import { useMemo } from 'react';
+import { useTranslation } from 'react-i18next';
+import { Check, ChevronDown } from 'lucide-react';
+import { Avatar } from '@/components/ui/Avatar';
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu';
+import { useAuthStore } from '@/features/auth/stores/authStore';
+import {
+  buildMemberLookup,
+  getMemberDisplayName,
+  useOrgMembers,
+} from '@/features/organizations/hooks/useOrgMembers';
+import { useAssignConversation } from '../../hooks/useAssignConversation';
+
+interface ConversationAssigneeSelectProps {
+  conversationId: string;
+  assignedTo: string | null;
+}
+
+export function ConversationAssigneeSelect({ conversationId, assignedTo }: ConversationAssigneeSelectProps) {
+  const { t } = useTranslation();
+  const currentUserId = useAuthStore((s) => s.user?.id) ?? null;
+  const { data: members = [], isLoading } = useOrgMembers();
+  const assignMutation = useAssignConversation();
+
+  const memberLookup = useMemo(() => buildMemberLookup(members), [members]);
+  const sortedMembers = useMemo(
+    () => [...members].sort((a, b) => getMemberDisplayName(a).localeCompare(getMemberDisplayName(b))),
+    [members]
+  );
+
+  const assignee = assignedTo ? memberLookup.get(assignedTo) : undefined;
+  const label = !assignedTo
+    ? t('conversation_assignment.unassigned')
+    : assignedTo === currentUserId
+      ? t('conversation_assignment.you')
+      : assignee
+        ? getMemberDisplayName(assignee)
+        : t('conversation_assignment.unknown_assignee');
+
+  const handleChange = (userId: string | null) => {
+    if (userId === assignedTo) return;
+    assignMutation.mutate({ conversationId, userId });
+  };
+
+  return (
+    <DropdownMenu>
+      <DropdownMenuTrigger asChild>
+        <button
+          type="button"
+          disabled={isLoading}
+          className="h-8 px-2 rounded-lg border border-neutral-200 bg-white hover:bg-neutral-50 transition-colors flex items-center gap-1.5 disabled:opacity-50"
+          title={t('conversation_assignment.assignee')}
+          aria-label={t('conversation_assignment.assignee')}
+        >
+          {assignedTo ? (
+            <Avatar size="sm" name={label} className="!w-5 !h-5 !text-[10px]" />
+          ) : (
+            <div className="w-5 h-5 rounded-full border border-dashed border-neutral-300 bg-neutral-50 flex-shrink-0" aria-hidden />
+          )}
+          <span className="hidden sm:inline max-w-[120px] truncate text-xs font-medium text-neutral-900">{label}</span>
+          <ChevronDown className="w-3.5 h-3.5 text-neutral-500 flex-shrink-0" />
+        </button>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent align="end" className="min-w-[14rem] max-h-[20rem] overflow-y-auto">
+        {currentUserId && (
+          <AssigneeItem
+            label={t('conversation_assignment.assign_to_me')}
+            avatarName="Me"
+            selected={assignedTo === currentUserId}
+            onClick={() => handleChange(currentUserId)}
+          />
+        )}
+        <AssigneeItem
+          label={t('conversation_assignment.unassign')}
+          selected={!assignedTo}
+          onClick={() => handleChange(null)}
+        />
+        <div role="separator" className="my-1 h-px bg-neutral-200" />
+        {sortedMembers.length === 0 ? (
+          <div className="px-3 py-2 text-sm text-neutral-500">
+            {isLoading ? t('common.loading') : t('conversation_assignment.no_team_members')}
+          </div>
+        ) : (
+          sortedMembers.map((member) => (
+            <AssigneeItem
+              key={member.userId}
+              label={getMemberDisplayName(member)}
+              avatarName={getMemberDisplayName(member)}
+              selected={assignedTo === member.userId}
+              onClick={() => handleChange(member.userId)}
+            />
+          ))
+        )}
+      </DropdownMenuContent>
+    </DropdownMenu>
+  );
+}
+
+// --- Helper Components ---
+
+interface AssigneeItemProps {
+  label: string;
+  /** Omit for the dashed "nobody" circle */
+  avatarName?: string;
+  selected: boolean;
+  onClick: () => void;
+}
+
+function AssigneeItem({ label, avatarName, selected, onClick }: AssigneeItemProps) {
+  return (
+    <DropdownMenuItem onClick={onClick} className="gap-2 items-center">
+      {avatarName ? (
+        <Avatar size="sm" name={avatarName} className="!w-6 !h-6 !text-[10px]" />
+      ) : (
+        <div className="w-6 h-6 rounded-full border border-dashed border-neutral-300 bg-neutral-50 flex-shrink-0" aria-hidden />
+      )}
+      <span className="flex-1 min-w-0 text-sm text-neutral-900 truncate">{label}</span>
+      {selected && <Check className="w-3.5 h-3.5 text-neutral-700 flex-shrink-0" />}
+    </DropdownMenuItem>
+  );
+}
@@ -0,0 +1,57 @@
+/**
+ * Conversation CSAT Badge
+ * ChatPanel header pill for the latest satisfaction survey: "awaiting" until
+ * the customer answers, then the score. The tooltip carries the comment and
+ * when the survey was sent / answered.
+ */
+
+import { useTranslation } from 'react-i18next';
+import { Star } from 'lucide-react';
+import { Tooltip, TooltipContent, TooltipTrigger } from '@/components/ui/tooltip';
+import { cn } from '@/lib/utils';
+import { getCsatState, type CsatState } from '../../utils/csat';
+import { formatFullDateTime } from '../../utils/timeFormatters';
+import type { ConversationCsat } from '../../types';
+
+interface ConversationCsatBadgeProps {
+  csat: ConversationCsat | null | undefined;
+}
+
+const STATE_CLASSES: Record<CsatState, string> = {
+  awaiting: 'bg-neutral-50 border-neutral-200 text-neutral-600',
+  satisfied: 'bg-green-50 border-green-200 text-green-700',
+  neutral: 'bg-amber-50 border-amber-200 text-amber-700',
+  dissatisfied: 'bg-red-50 border-red-200 text-red-700',
+};
+
+export function ConversationCsatBadge({ csat }: ConversationCsatBadgeProps) {
+  const { t } = useTranslation();
+  const state = getCsatState(csat);
+  if (!csat || !state) return null;
+
+  return (
+    <Tooltip delayDuration={150}>
+      <TooltipTrigger asChild>
+        <span
+          className={cn(
+            'inline-flex items-center gap-1 px-1.5 py-0.5 rounded-md border text-[10px] font-medium flex-shrink-0',
+            STATE_CLASSES[state]
+          )}
+        >
+          <Star className={cn('w-3 h-3', csat.score !== null && 'fill-current')} />
+          {csat.score === null
+            ? t('csat.awaiting')
+            : t('csat.score', { score: csat.score })}
+        </span>
+      </TooltipTrigger>
+      <TooltipContent side="bottom" className="text-xs max-w-xs space-y-1">
+        <p>{t(`csat.format_${csat.format}`)}</p>
+        <p>{t('csat.requested_at', { time: formatFullDateTime(csat.requested_at) })}</p>
+        {csat.responded_at && (
+          <p>{t('csat.responded_at', { time: formatFullDateTime(csat.responded_at) })}</p>
+        )}
+        {csat.comment && <p className="italic">“{csat.comment}”</p>}
+      </TooltipContent>
+    </Tooltip>
+  );
+}
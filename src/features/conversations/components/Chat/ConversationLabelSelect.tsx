@@ -0,0 +1,86 @@
+/**
+ * Conversation Label Select
+ * Compact label picker for the ChatPanel header. Each pick toggles one label;
+ * the trigger shows the applied labels as chips.
+ */
+
+import { useTranslation } from 'react-i18next';
+import { Check, Tag } from 'lucide-react';
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu';
+import { useAgentContext } from '@/hooks/useAgentContext';
+import { cn } from '@/lib/utils';
+import { useConversationLabels, useSetConversationLabels } from '../../hooks/useConversationLabels';
+import { LABEL_COLOR_CLASSES } from '../../constants/labelColors';
+import { LabelChip } from '../ConversationList/ConversationLabelChips';
+
+interface ConversationLabelSelectProps {
+  conversationId: string;
+  labelIds: string[];
+}
+
+/** Chips shown in the trigger before collapsing into "+N" */
+const MAX_TRIGGER_CHIPS = 2;
+
+export function ConversationLabelSelect({ conversationId, labelIds }: ConversationLabelSelectProps) {
+  const { t } = useTranslation();
+  const { agent } = useAgentContext();
+  const { data: labels = [], isLoading } = useConversationLabels(agent?.organizationId);
+  const setLabelsMutation = useSetConversationLabels();
+
+  const applied = labels.filter((label) => labelIds.includes(label.id));
+
+  const toggleLabel = (labelId: string) => {
+    const next = labelIds.includes(labelId)
+      ? labelIds.filter((id) => id !== labelId)
+      : [...labelIds, labelId];
+    setLabelsMutation.mutate({ conversationId, labelIds: next });
+  };
+
+  return (
+    <DropdownMenu>
+      <DropdownMenuTrigger asChild>
+        <button
+          type="button"
+          disabled={isLoading}
+          className="h-8 px-2 rounded-lg border border-neutral-200 bg-white hover:bg-neutral-50 transition-colors flex items-center gap-1.5 disabled:opacity-50"
+          title={t('conversation_labels.labels')}
+          aria-label={t('conversation_labels.labels')}
+        >
+          <Tag className="w-3.5 h-3.5 text-neutral-500 flex-shrink-0" />
+          {applied.length === 0 ? (
+            <span className="hidden sm:inline text-xs font-medium text-neutral-600">{t('conversation_labels.add_label')}</span>
+          ) : (
+            <span className="hidden sm:flex items-center gap-1">
+              {applied.slice(0, MAX_TRIGGER_CHIPS).map((label) => (
+                <LabelChip key={label.id} label={label} />
+              ))}
+              {applied.length > MAX_TRIGGER_CHIPS && (
+                <span className="text-[10px] font-medium text-neutral-500">+{applied.length - MAX_TRIGGER_CHIPS}</span>
+              )}
+            </span>
+          )}
+        </button>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent align="end" className="min-w-[12rem] max-h-[20rem] overflow-y-auto">
+        {labels.length === 0 ? (
+          <div className="px-3 py-2 text-sm text-neutral-500">
+            {isLoading ? t('common.loading') : t('conversation_labels.no_labels')}
+          </div>
+        ) : (
+          labels.map((label) => (
+            <DropdownMenuItem key={label.id} onClick={() => toggleLabel(label.id)} className="gap-2 items-center">
+              <span className={cn('w-2.5 h-2.5 rounded-full flex-shrink-0', LABEL_COLOR_CLASSES[label.color].dot)} />
+              <span className="flex-1 min-w-0 text-sm text-neutral-900 truncate">{label.name}</span>
+              {labelIds.includes(label.id) && <Check className="w-3.5 h-3.5 text-neutral-700 flex-shrink-0" />}
+            </DropdownMenuItem>
+          ))
+        )}
+      </DropdownMenuContent>
+    </DropdownMenu>
+  );
+}
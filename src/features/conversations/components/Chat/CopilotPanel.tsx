@@ -0,0 +1,225 @@
+/**
+ * Copilot Panel
+ * Sits above the reply composer. Summarises the thread for a teammate taking
+ * over from the AI, suggests replies grounded in the knowledge base, and
+ * rewrites the current draft. Everything lands in the composer for review —
+ * the panel never sends.
+ */
+
+import { useEffect, useRef, useState } from 'react';
+import { useTranslation } from 'react-i18next';
+import { BookOpen, Languages, Loader2, MessageSquareText, RefreshCw, Scissors, Sparkles, Undo2, X } from 'lucide-react';
+import { cn } from '@/lib/utils';
+import { useConversationCopilot } from '../../hooks/useConversationCopilot';
+import { useComposerStore } from '../../stores/composerStore';
+import type { CopilotRewriteMode } from '../../types';
+
+interface CopilotPanelProps {
+  conversationId: string;
+  agentId: string;
+  /** Newest message in the thread — the summary is flagged once it's behind */
+  latestMessageId: string | null;
+  /** Generate the summary as soon as the panel opens (teammate just took over) */
+  autoSummarize?: boolean;
+  onClose: () => void;
+}
+
+const REWRITE_MODES = [
+  { mode: 'shorter', labelKey: 'copilot.rewrite_shorter', icon: Scissors },
+  { mode: 'formal', labelKey: 'copilot.rewrite_formal', icon: MessageSquareText },
+  { mode: 'translate_ar', labelKey: 'copilot.rewrite_translate_ar', icon: Languages },
+] as const;
+
+export function CopilotPanel({ conversationId, agentId, latestMessageId, autoSummarize = false, onClose }: CopilotPanelProps) {
+  const { t } = useTranslation();
+  const { summary, suggestions, rewrite } = useConversationCopilot(conversationId, agentId);
+  const draft = useComposerStore((state) => state.draft);
+  const requestInsert = useComposerStore((state) => state.requestInsert);
+  const requestReplace = useComposerStore((state) => state.requestReplace);
+  // Draft before the last rewrite, so the teammate can undo it
+  const [draftBeforeRewrite, setDraftBeforeRewrite] = useState<string | null>(null);
+
+  const summarizedOnOpen = useRef(false);
+  useEffect(() => {
+    if (!autoSummarize || summarizedOnOpen.current) return;
+    summarizedOnOpen.current = true;
+    summary.mutate();
+  }, [autoSummarize, summary]);
+
+  const isSummaryStale = !!summary.data && summary.data.last_message_id !== latestMessageId;
+
+  const handleRewrite = (mode: CopilotRewriteMode) => {
+    const original = draft;
+    rewrite.mutate(
+      { draft: original, mode },
+      {
+        onSuccess: (result) => {
+          setDraftBeforeRewrite(original);
+          requestReplace(result.text);
+        },
+      }
+    );
+  };
+
+  const handleUndoRewrite = () => {
+    if (draftBeforeRewrite === null) return;
+    requestReplace(draftBeforeRewrite);
+    setDraftBeforeRewrite(null);
+  };
+
+  return (
+    <div className="mb-2 rounded-2xl border border-violet-200 bg-violet-50/40 max-h-[45vh] overflow-y-auto">
+      {/* Header */}
+      <div className="sticky top-0 flex items-center justify-between gap-2 px-3 py-2 bg-violet-50/95 border-b border-violet-100 rounded-t-2xl">
+        <span className="flex items-center gap-1.5 text-sm font-semibold text-violet-900">
+          <Sparkles className="w-4 h-4" />
+          {t('copilot.title')}
+        </span>
+        <button
+          type="button"
+          onClick={onClose}
+          className="p-1 rounded-md text-violet-700 hover:bg-violet-100 transition-colors"
+          aria-label={t('copilot.close')}
+        >
+          <X className="w-4 h-4" />
+        </button>
+      </div>
+
+      <div className="p-3 space-y-4">
+        {/* Summary */}
+        <section>
+          <div className="flex items-center justify-between gap-2 mb-1.5">
+            <h4 className="text-xs font-semibold uppercase tracking-wide text-neutral-500">{t('copilot.summary')}</h4>
+            <button
+              type="button"
+              onClick={() => summary.mutate()}
+              disabled={summary.isPending}
+              className="flex items-center gap-1 text-xs text-violet-700 hover:text-violet-900 disabled:opacity-50"
+            >
+              {summary.isPending ? <Loader2 className="w-3 h-3 animate-spin" /> : <RefreshCw className="w-3 h-3" />}
+              {summary.data ? t('copilot.refresh') : t('copilot.summarize')}
+            </button>
+          </div>
+
+          {summary.isPending && !summary.data ? (
+            <p className="text-xs text-neutral-500">{t('copilot.summarizing')}</p>
+          ) : summary.data ? (
+            <div className="space-y-2 text-sm text-neutral-800" dir="auto">
+              {isSummaryStale && (
+                <p className="text-[11px] text-amber-700">{t('copilot.summary_stale')}</p>
+              )}
+              <p className="whitespace-pre-wrap">{summary.data.summary}</p>
+              {summary.data.customer_intent && (
+                <p className="text-xs">
+                  <span className="font-medium text-neutral-600">{t('copilot.customer_intent')}: </span>
+                  {summary.data.customer_intent}
+                </p>
+              )}
+              {summary.data.key_points.length > 0 && (
+                <ul className="list-disc ps-4 text-xs space-y-0.5">
+                  {summary.data.key_points.map((point) => <li key={point}>{point}</li>)}
+                </ul>
+              )}
+              {summary.data.open_questions.length > 0 && (
+                <div className="text-xs">
+                  <p className="font-medium text-neutral-600">{t('copilot.open_questions')}</p>
+                  <ul className="list-disc ps-4 space-y-0.5">
+                    {summary.data.open_questions.map((question) => <li key={question}>{question}</li>)}
+                  </ul>
+                </div>
+              )}
+            </div>
+          ) : (
+            <p className="text-xs text-neutral-500">{t('copilot.summary_empty')}</p>
+          )}
+        </section>
+
+        {/* Suggested replies */}
+        <section>
+          <div className="flex items-center justify-between gap-2 mb-1.5">
+            <h4 className="text-xs font-semibold uppercase tracking-wide text-neutral-500">{t('copilot.suggested_replies')}</h4>
+            <button
+              type="button"
+              onClick={() => suggestions.mutate()}
+              disabled={suggestions.isPending}
+              className="flex items-center gap-1 text-xs text-violet-700 hover:text-violet-900 disabled:opacity-50"
+            >
+              {suggestions.isPending ? <Loader2 className="w-3 h-3 animate-spin" /> : <Sparkles className="w-3 h-3" />}
+              {suggestions.data ? t('copilot.regenerate') : t('copilot.suggest')}
+            </button>
+          </div>
+
+          {suggestions.data && suggestions.data.length === 0 && (
+            <p className="text-xs text-neutral-500">{t('copilot.no_suggestions')}</p>
+          )}
+          {suggestions.data && suggestions.data.length > 0 && (
+            <div className="space-y-1.5">
+              {suggestions.data.map((suggestion) => (
+                <button
+                  key={suggestion.id}
+                  type="button"
+                  onClick={() => requestInsert(suggestion.text)}
+                  className="w-full text-start rounded-lg bg-white border border-violet-100 hover:border-violet-300 px-3 py-2 transition-colors"
+                  title={t('copilot.use_reply')}
+                >
+                  <span className="block text-sm text-neutral-800 whitespace-pre-wrap" dir="auto">{suggestion.text}</span>
+                  {suggestion.sources.length > 0 && (
+                    <span className="mt-1 flex flex-wrap items-center gap-1">
+                      <BookOpen className="w-3 h-3 text-neutral-400" />
+                      {suggestion.sources.map((source) => (
+                        <span
+                          key={source.document_id}
+                          className="rounded bg-neutral-100 px-1.5 py-0.5 text-[10px] text-neutral-600"
+                        >
+                          {source.title}
+                        </span>
+                      ))}
+                    </span>
+                  )}
+                </button>
+              ))}
+            </div>
+          )}
+        </section>
+
+        {/* Rewrite my draft */}
+        <section>
+          <h4 className="mb-1.5 text-xs font-semibold uppercase tracking-wide text-neutral-500">{t('copilot.rewrite_draft')}</h4>
+          <div className="flex flex-wrap items-center gap-1.5">
+            {REWRITE_MODES.map(({ mode, labelKey, icon: Icon }) => (
+              <button
+                key={mode}
+                type="button"
+                onClick={() => handleRewrite(mode)}
+                disabled={!draft.trim() || rewrite.isPending}
+                className={cn(
+                  'flex items-center gap-1 rounded-full border px-2.5 py-1 text-xs transition-colors',
+                  'border-violet-200 bg-white text-violet-800 hover:bg-violet-100',
+                  'disabled:opacity-50 disabled:cursor-not-allowed'
+                )}
+              >
+                {rewrite.isPending && rewrite.variables?.mode === mode
+                  ? <Loader2 className="w-3 h-3 animate-spin" />
+                  : <Icon className="w-3 h-3" />}
+                {t(labelKey)}
+              </button>
+            ))}
+            {draftBeforeRewrite !== null && (
+              <button
+                type="button"
+                onClick={handleUndoRewrite}
+                className="flex items-center gap-1 px-2 py-1 text-xs text-neutral-600 hover:text-neutral-900"
+              >
+                <Undo2 className="w-3 h-3" />
+                {t('copilot.undo_rewrite')}
+              </button>
+            )}
+          </div>
+          {!draft.trim() && (
+            <p className="mt-1 text-[11px] text-neutral-500">{t('copilot.rewrite_needs_draft')}</p>
+          )}
+        </section>
+      </div>
+    </div>
+  );
+}
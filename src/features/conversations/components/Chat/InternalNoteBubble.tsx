@@ -0,0 +1,171 @@
+/**
+ * Internal Note Bubble
+ * Team-only note rendered inside the chat timeline. Deliberately unlike a
+ * message bubble (amber card, lock icon, centered) so it is never mistaken
+ * for something the customer saw. Authors can edit or delete their own notes.
+ */
+
+import { memo, useState } from 'react';
+import { useTranslation } from 'react-i18next';
+import { Check, Edit2, Lock, Trash2, X } from 'lucide-react';
+import { cn } from '@/lib/utils';
+import { useConfirm } from '@/hooks/useConfirm';
+import { useAuthStore } from '@/features/auth/stores/authStore';
+import { formatMessageTime } from '../../utils/timeFormatters';
+import { parseMentionSegments } from '../../utils/mentions';
+import { useDeleteConversationNote, useUpdateConversationNote } from '../../hooks/useConversationNotes';
+import { MentionTextarea } from './MentionTextarea';
+import type { ConversationNote } from '../../types';
+
+interface InternalNoteBubbleProps {
+  note: ConversationNote;
+}
+
+function InternalNoteBubble({ note }: InternalNoteBubbleProps) {
+  const { t } = useTranslation();
+  const { confirm, ConfirmDialogComponent } = useConfirm();
+  const currentUserId = useAuthStore((state) => state.user?.id);
+  const updateMutation = useUpdateConversationNote(note.conversation_id);
+  const deleteMutation = useDeleteConversationNote(note.conversation_id);
+
+  const [isEditing, setIsEditing] = useState(false);
+  const [editText, setEditText] = useState(note.text);
+
+  const isOwn = !!currentUserId && note.created_by === currentUserId;
+  const isPending = note.id.startsWith('temp-');
+
+  const handleStartEdit = () => {
+    setEditText(note.text);
+    setIsEditing(true);
+  };
+
+  const handleSaveEdit = () => {
+    const text = editText.trim();
+    if (!text) return;
+    if (text === note.text) {
+      setIsEditing(false);
+      return;
+    }
+    updateMutation.mutate({ noteId: note.id, text }, { onSuccess: () => setIsEditing(false) });
+  };
+
+  const handleDelete = async () => {
+    const confirmed = await confirm({
+      title: t('conversation_notes.delete_title'),
+      message: t('conversation_notes.delete_confirmation'),
+      confirmText: t('common.delete'),
+      variant: 'danger',
+    });
+    if (confirmed) deleteMutation.mutate(note.id);
+  };
+
+  return (
+    <div className="flex justify-center px-2">
+      <div
+        className={cn(
+          'group w-full max-w-[85%] rounded-lg border border-dashed border-amber-300 bg-amber-50 px-3 py-2',
+          isPending && 'opacity-70'
+        )}
+      >
+        {/* Header */}
+        <div className="flex items-center gap-1.5 mb-1">
+          <Lock className="w-3 h-3 text-amber-700 flex-shrink-0" aria-hidden />
+          <span className="text-[11px] font-medium uppercase tracking-wide text-amber-700">
+            {t('conversation_notes.internal_note')}
+          </span>
+          <span className="text-[11px] text-amber-900/70 truncate">
+            · {isOwn ? t('common.you') : note.user_name}
+          </span>
+
+          {isOwn && !isEditing && !isPending && (
+            <div className="ms-auto flex items-center gap-0.5 opacity-0 group-hover:opacity-100 focus-within:opacity-100 transition-opacity">
+              <button
+                type="button"
+                onClick={handleStartEdit}
+                className="p-1 rounded text-amber-800/70 hover:text-amber-900 hover:bg-amber-100"
+                title={t('conversation_notes.edit')}
+                aria-label={t('conversation_notes.edit')}
+              >
+                <Edit2 className="w-3 h-3" />
+              </button>
+              <button
+                type="button"
+                onClick={handleDelete}
+                disabled={deleteMutation.isPending}
+                className="p-1 rounded text-amber-800/70 hover:text-red-600 hover:bg-amber-100"
+                title={t('conversation_notes.delete')}
+                aria-label={t('conversation_notes.delete')}
+              >
+                <Trash2 className="w-3 h-3" />
+              </button>
+            </div>
+          )}
+        </div>
+
+        {/* Body */}
+        {isEditing ? (
+          <div className="space-y-2">
+            <MentionTextarea
+              value={editText}
+              onChange={setEditText}
+              onSubmit={handleSaveEdit}
+              onCancel={() => setIsEditing(false)}
+              disabled={updateMutation.isPending}
+              autoFocus
+              rows={3}
+              className="bg-white"
+            />
+            <div className="flex items-center gap-2">
+              <button
+                type="button"
+                onClick={handleSaveEdit}
+                disabled={!editText.trim() || updateMutation.isPending}
+                className="inline-flex items-center gap-1 px-3 py-1 bg-neutral-900 text-white text-xs font-medium rounded hover:bg-neutral-800 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+              >
+                <Check className="w-3 h-3" />
+                {t('common.save')}
+              </button>
+              <button
+                type="button"
+                onClick={() => setIsEditing(false)}
+                className="inline-flex items-center gap-1 px-3 py-1 border border-neutral-300 text-neutral-700 text-xs font-medium rounded hover:bg-neutral-50 transition-colors"
+              >
+                <X className="w-3 h-3" />
+                {t('common.cancel')}
+              </button>
+            </div>
+          </div>
+        ) : (
+          <p className="text-sm text-neutral-900 whitespace-pre-wrap break-words">
+            {parseMentionSegments(note.text).map((segment, index) =>
+              segment.type === 'text' ? (
+                <span key={index}>{segment.text}</span>
+              ) : (
+                <span
+                  key={index}
+                  className={cn(
+                    'font-medium rounded px-0.5',
+                    segment.userId === currentUserId
+                      ? 'bg-amber-200 text-amber-950'
+                      : 'text-amber-800'
+                  )}
+                >
+                  @{segment.name}
+                </span>
+              )
+            )}
+          </p>
+        )}
+
+        {/* Footer */}
+        <div className="flex items-center justify-end gap-1 mt-1 text-[11px] text-amber-900/60">
+          {note.is_edited && <span>{t('conversation_notes.edited')} ·</span>}
+          <span>{formatMessageTime(note.created_at)}</span>
+        </div>
+      </div>
+      {ConfirmDialogComponent}
+    </div>
+  );
+}
+
+export default memo(InternalNoteBubble);
@@ -0,0 +1,55 @@
+/**
+ * Internal Note Composer
+ * Shown in place of MessageComposer when the "Internal note" tab is active.
+ * Notes go to the notes endpoint only — nothing here reaches the customer.
+ */
+
+import { useState } from 'react';
+import { useTranslation } from 'react-i18next';
+import { Lock } from 'lucide-react';
+import { useCreateConversationNote } from '../../hooks/useConversationNotes';
+import { MentionTextarea } from './MentionTextarea';
+
+interface InternalNoteComposerProps {
+  conversationId: string;
+}
+
+export function InternalNoteComposer({ conversationId }: InternalNoteComposerProps) {
+  const { t } = useTranslation();
+  const createMutation = useCreateConversationNote(conversationId);
+  const [text, setText] = useState('');
+
+  // Optimistic: clear immediately, the note appears in the timeline right away
+  const handleSubmit = () => {
+    const noteText = text.trim();
+    if (!noteText) return;
+    setText('');
+    createMutation.mutate(noteText);
+  };
+
+  return (
+    <div className="space-y-1.5">
+      <MentionTextarea
+        value={text}
+        onChange={setText}
+        onSubmit={handleSubmit}
+        placeholder={t('conversation_notes.placeholder')}
+        autoFocus
+      />
+      <div className="flex items-center justify-between gap-2">
+        <p className="flex items-center gap-1 text-[11px] text-amber-700">
+          <Lock className="w-3 h-3" aria-hidden />
+          {t('conversation_notes.visibility_hint')}
+        </p>
+        <button
+          type="button"
+          onClick={handleSubmit}
+          disabled={!text.trim()}
+          className="px-3 py-1.5 bg-amber-500 text-white text-xs font-medium rounded-lg hover:bg-amber-600 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+        >
+          {t('conversation_notes.add_note')}
+        </button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,164 @@
+/**
+ * Mention Textarea
+ * Plain textarea with an @mention picker for organization members.
+ * Typing `@` opens the picker; arrows/Enter/Tab pick, Escape dismisses.
+ * Enter (without Shift) submits when the picker is closed.
+ */
+
+import { useMemo, useRef, useState } from 'react';
+import { useTranslation } from 'react-i18next';
+import { Avatar } from '@/components/ui/Avatar';
+import { cn } from '@/lib/utils';
+import { getMemberDisplayName, useOrgMembers } from '@/features/organizations/hooks/useOrgMembers';
+import { findMentionQuery, insertMention } from '../../utils/mentions';
+
+const MAX_SUGGESTIONS = 6;
+
+interface MentionTextareaProps {
+  value: string;
+  onChange: (value: string) => void;
+  onSubmit: () => void;
+  onCancel?: () => void;
+  placeholder?: string;
+  disabled?: boolean;
+  autoFocus?: boolean;
+  rows?: number;
+  className?: string;
+}
+
+export function MentionTextarea({
+  value,
+  onChange,
+  onSubmit,
+  onCancel,
+  placeholder,
+  disabled,
+  autoFocus,
+  rows = 2,
+  className,
+}: MentionTextareaProps) {
+  const { t } = useTranslation();
+  const textareaRef = useRef<HTMLTextAreaElement>(null);
+
+  const { data: members = [] } = useOrgMembers();
+  const [mention, setMention] = useState<{ query: string; start: number } | null>(null);
+  const [highlightIndex, setHighlightIndex] = useState(0);
+
+  const suggestions = useMemo(() => {
+    if (!mention) return [];
+    const query = mention.query.toLowerCase();
+    return members
+      .map((m) => ({ userId: m.userId, name: getMemberDisplayName(m), email: m.user?.email ?? '' }))
+      .filter((m) => m.name.toLowerCase().includes(query) || m.email.toLowerCase().includes(query))
+      .sort((a, b) => a.name.localeCompare(b.name))
+      .slice(0, MAX_SUGGESTIONS);
+  }, [mention, members]);
+
+  const isPickerOpen = !!mention && suggestions.length > 0;
+
+  const updateMentionState = (text: string, caret: number) => {
+    setMention(findMentionQuery(text, caret));
+    setHighlightIndex(0);
+  };
+
+  const pick = (userId: string, name: string) => {
+    const textarea = textareaRef.current;
+    if (!mention || !textarea) return;
+    const result = insertMention(value, mention.start, textarea.selectionStart, name, userId);
+    onChange(result.text);
+    setMention(null);
+    // Restore the caret after React commits the new value
+    requestAnimationFrame(() => {
+      textarea.focus();
+      textarea.setSelectionRange(result.caret, result.caret);
+    });
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLTextAreaElement>) => {
+    if (isPickerOpen) {
+      if (e.key === 'ArrowDown' || e.key === 'ArrowUp') {
+        e.preventDefault();
+        const delta = e.key === 'ArrowDown' ? 1 : -1;
+        setHighlightIndex((i) => (i + delta + suggestions.length) % suggestions.length);
+        return;
+      }
+      if (e.key === 'Enter' || e.key === 'Tab') {
+        e.preventDefault();
+        const selected = suggestions[highlightIndex];
+        if (selected) pick(selected.userId, selected.name);
+        return;
+      }
+      if (e.key === 'Escape') {
+        e.preventDefault();
+        setMention(null);
+        return;
+      }
+    }
+
+    if (e.key === 'Enter' && !e.shiftKey && !e.nativeEvent.isComposing) {
+      e.preventDefault();
+      onSubmit();
+    } else if (e.key === 'Escape' && onCancel) {
+      e.preventDefault();
+      onCancel();
+    }
+  };
+
+  return (
+    <div className="relative">
+      <textarea
+        ref={textareaRef}
+        value={value}
+        onChange={(e) => {
+          onChange(e.target.value);
+          updateMentionState(e.target.value, e.target.selectionStart);
+        }}
+        onKeyDown={handleKeyDown}
+        onClick={(e) => updateMentionState(value, e.currentTarget.selectionStart)}
+        onBlur={() => setMention(null)}
+        placeholder={placeholder}
+        disabled={disabled}
+        autoFocus={autoFocus}
+        rows={rows}
+        className={cn(
+          'w-full px-3 py-2 border border-amber-200 bg-amber-50/60 rounded-lg text-sm resize-none',
+          'focus:outline-none focus:ring-2 focus:ring-amber-300 focus:border-transparent disabled:opacity-50',
+          className
+        )}
+      />
+
+      {isPickerOpen && (
+        <div
+          role="listbox"
+          aria-label={t('conversation_notes.mention_picker_label')}
+          className="absolute bottom-full mb-1 start-0 z-20 w-64 max-h-60 overflow-y-auto rounded-lg border border-neutral-200 bg-white shadow-lg py-1"
+        >
+          {suggestions.map((member, index) => (
+            <button
+              key={member.userId}
+              type="button"
+              role="option"
+              aria-selected={index === highlightIndex}
+              // mousedown fires before the textarea blur closes the picker
+              onMouseDown={(e) => {
+                e.preventDefault();
+                pick(member.userId, member.name);
+              }}
+              onMouseEnter={() => setHighlightIndex(index)}
+              className={cn(
+                'w-full flex items-center gap-2 px-3 py-1.5 text-start',
+                index === highlightIndex ? 'bg-neutral-100' : 'hover:bg-neutral-50'
+              )}
+            >
+              <Avatar size="sm" name={member.name} className="!w-6 !h-6 !text-[10px]" />
+              <div className="min-w-0">
+                <p className="text-sm text-neutral-900 truncate">{member.name}</p>
+                <p className="text-[11px] text-neutral-500 truncate">{member.email}</p>
+              </div>
+            </button>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -7,50 +7,44 @@
 
 import { useState, KeyboardEvent, useRef, useEffect, useCallback, memo } from 'react';
 import { useTranslation } from 'react-i18next';
-import { ArrowUp, Loader2, Smile, Paperclip, Bot, BotOff, X, AlertCircle, Mic, Music, Image, FileText, Upload, Video, LayoutTemplate, Bookmark } from 'lucide-react';
+import { ArrowUp, Loader2, Smile, Paperclip, Bot, BotOff, X, AlertCircle, Mic, Music, Image, FileText, Upload, Video, LayoutTemplate, Bookmark, Languages } from 'lucide-react';
 import EmojiPicker from 'emoji-picker-react';
 import { toast } from 'sonner';
 import { cn } from '@/lib/utils';
 import { logger } from '@/lib/logger';
 import { chatToasts } from '../../utils/chatToasts';
 import { chatApiService } from '../../services/chatApiService';
-import type { MediaAttachment } from '../../types';
+import type { ChatMessage, MediaAttachment, OutboxFile, OutboxFileKind, SendMessageOptions, TranslationLanguage } from '../../types';
+import { toReplyReference } from '../../types';
+import { isNetworkError } from '../../utils/outbox';
+import { classifyAttachment, getMaxAttachments, validateAttachment } from '../../utils/mediaLimits';
+import { PLATFORM_MEDIA_LIMITS, type AttachmentKind, type MediaPlatform } from '../../constants/mediaLimits';
 import { VoiceRecorder } from './VoiceRecorder';
+import { QuotedMessage } from './QuotedMessage';
 import { SavedMessagesPicker } from '@/features/saved-messages/components/SavedMessagesPicker';
+import { useSavedMessageResolver } from '@/features/saved-messages/hooks/useSavedMessageResolver';
+import type { SavedMessage } from '@/features/saved-messages/types/savedMessages.types';
 import { Badge } from '@/components/ui/Badge';
 import { Tooltip, TooltipTrigger, TooltipContent } from '@/components/ui/tooltip';
 import { BaseModal } from '@/components/ui/BaseModal';
 import { ModalActions } from '@/components/ui/ModalActions';
 import { useResumeAi } from '../../hooks/useResumeAi';
+import { useComposerStore } from '../../stores/composerStore';
+import { getWhatsAppWindowStatus } from '../../utils/whatsappSession';
+import { WhatsAppActiveBanner, WhatsAppExpiredBanner } from './WhatsAppSessionBanner';
+import { TemplateSuggestions } from './TemplateSuggestions';
+import { TranslationPreviewModal } from './TranslationPreviewModal';
+import { useTranslationStore, useConversationTranslationSettings } from '../../stores/translationStore';
+import { useTranslateDraft } from '../../hooks/useMessageTranslation';
+import { needsTranslation } from '../../utils/translation';
+import type { MessageTemplate } from '@/features/whatsapp/types/whatsapp.types';
 
 // Constants
 const MAX_TEXTAREA_HEIGHT_PX = 120;
 const EMOJI_PICKER_WIDTH = 350;
 const EMOJI_PICKER_HEIGHT = 400;
 const MAX_MESSAGE_LENGTH = 5000; // Backend limit
-const MAX_FILE_SIZE_MB = 10;
-const MAX_FILE_SIZE_BYTES = MAX_FILE_SIZE_MB * 1024 * 1024;
-const MAX_AUDIO_SIZE_MB = 5; // Backend audio limit
-const MAX_AUDIO_SIZE_BYTES = MAX_AUDIO_SIZE_MB * 1024 * 1024;
-const MAX_DOC_SIZE_MB = 20; // Backend document limit
-const MAX_DOC_SIZE_BYTES = MAX_DOC_SIZE_MB * 1024 * 1024;
-const MAX_IMAGES = 10;
-const MAX_AUDIO = 5;
-const ALLOWED_IMAGE_TYPES = ['image/jpeg', 'image/png'];
-const ALLOWED_AUDIO_TYPES = ['audio/mp3', 'audio/mpeg', 'audio/mp4', 'audio/m4a', 'audio/ogg', 'audio/webm', 'audio/wav', 'audio/aac', 'audio/flac'];
-const ALLOWED_DOCUMENT_TYPES = [
-  'application/pdf',
-  'application/vnd.openxmlformats-officedocument.wordprocessingml.document', // .docx
-  'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet', // .xlsx
-  'application/vnd.ms-excel', // .xls
-  'text/plain', // .txt
-  'text/csv', // .csv
-];
-const ALLOWED_DOCUMENT_EXTENSIONS = ['.pdf', '.docx', '.xlsx', '.xls', '.txt', '.csv'];
-const ALLOWED_VIDEO_TYPES = ['video/mp4', 'video/3gpp', 'video/webm', 'video/quicktime'];
-const ALLOWED_VIDEO_EXTENSIONS = ['.mp4', '.3gp', '.webm', '.mov'];
-const MAX_VIDEO_SIZE_MB = 16; // Backend video limit
-const MAX_VIDEO_SIZE_BYTES = MAX_VIDEO_SIZE_MB * 1024 * 1024;
+// File size/type/count limits are per channel — see constants/mediaLimits.ts
 const THUMBNAIL_SIZE_PX = 80;
 
 /**
@@ -74,7 +68,14 @@ const sanitizeMessage = (msg: string): string => {
 };
 
 interface MessageComposerProps {
-  onSendMessage: (message: string, attachments?: string) => Promise<void>;
+  onSendMessage: (message: string, attachments?: string, options?: SendMessageOptions) => Promise<void>;
+  /** Offline outbox: queue a message with files that couldn't be uploaded yet */
+  onQueueMessage?: (
+    message: string,
+    files: OutboxFile[],
+    attachments?: string,
+    options?: SendMessageOptions
+  ) => Promise<void>;
   isSending: boolean;
   isAIMode?: boolean;
   onModeToggle?: () => void;
@@ -83,10 +84,25 @@ interface MessageComposerProps {
   agentId?: string;
   isWhatsApp?: boolean;
   onTemplateClick?: () => void;
+  /** WhatsApp: when the customer last wrote — starts the 24-hour reply window. Undefined while unknown; the composer then stays unlocked */
+  lastCustomerMessageAt?: string | null;
+  /** WhatsApp: connection whose approved templates are proposed once the window closes */
+  whatsAppConnectionId?: string | null;
+  /** A proposed template was picked, parameters pre-filled from the conversation and draft */
+  onTemplateSuggestion?: (template: MessageTemplate, params: Record<string, string>) => void;
   /** ISO 8601 timestamp. When set and in the future, the AI toggle slot is
       replaced by an interactive handoff chip (BotOff + mm:ss) that, on click,
       prompts to resume the AI immediately. */
   aiHandoffUntil?: string | null;
+  /** Message the next send replies to (quoted on WhatsApp/Instagram) */
+  replyTo?: ChatMessage | null;
+  onCancelReply?: () => void;
+  /** Channel the reply goes out on — decides attachment limits and captions */
+  mediaPlatform?: MediaPlatform;
+  /** Language the customer writes in; enables "send in customer's language" */
+  customerLanguage?: TranslationLanguage | null;
+  /** Customer writes Arabic-Indic digits — translated replies use them too */
+  customerUsesArabicNumerals?: boolean;
 }
 
 /**
@@ -100,6 +116,7 @@ interface UploadedImage {
   progress: number;              // Upload progress (0-100)
   error?: string;                // Error message if upload failed
   isUploading: boolean;          // Whether currently uploading
+  caption?: string;              // Shown under the image (channels that support captions)
 }
 
 /**
@@ -271,6 +288,7 @@ function AiToggle({
 
 export default memo(function MessageComposer({
   onSendMessage,
+  onQueueMessage,
   isSending,
   isAIMode = true,
   onModeToggle,
@@ -279,7 +297,15 @@ export default memo(function MessageComposer({
   agentId,
   isWhatsApp,
   onTemplateClick,
+  lastCustomerMessageAt,
+  whatsAppConnectionId,
+  onTemplateSuggestion,
   aiHandoffUntil,
+  replyTo,
+  onCancelReply,
+  mediaPlatform = 'widget',
+  customerLanguage = null,
+  customerUsesArabicNumerals = false,
 }: MessageComposerProps) {
   const { t } = useTranslation();
   const [message, setMessage] = useState('');
@@ -289,6 +315,25 @@ export default memo(function MessageComposer({
   const [isRecording, setIsRecording] = useState(false);
   const [isDragging, setIsDragging] = useState(false);
 
+  // WhatsApp 24-hour window countdown — minute-granular, so a slow tick is enough
+  const [now, setNow] = useState(() => Date.now());
+  useEffect(() => {
+    if (!isWhatsApp) return;
+    const interval = setInterval(() => setNow(Date.now()), 30 * 1000);
+    return () => clearInterval(interval);
+  }, [isWhatsApp]);
+  const whatsAppWindow =
+    isWhatsApp && lastCustomerMessageAt !== undefined ? getWhatsAppWindowStatus(lastCustomerMessageAt, now) : null;
+  // Closed session: only approved templates can be sent, so the draft becomes a template search
+  const isSessionClosed = whatsAppWindow?.expired ?? false;
+
+  // Send in the customer's language: the draft is translated and previewed before it goes out
+  const { sendInCustomerLanguage } = useConversationTranslationSettings(conversationId);
+  const updateTranslationSettings = useTranslationStore((state) => state.updateSettings);
+  const translateDraft = useTranslateDraft(conversationId);
+  const [translationPreview, setTranslationPreview] = useState<{ original: string; translated: string } | null>(null);
+  const translateReplies = sendInCustomerLanguage && !!customerLanguage;
+
   // ChatGPT-style upload-on-select: Track uploaded images with progress
   const [uploadedImages, setUploadedImages] = useState<UploadedImage[]>([]);
 
@@ -340,15 +385,87 @@ export default memo(function MessageComposer({
   // Track preview URLs for cleanup on unmount only
   const previewUrlsRef = useRef<Set<string>>(new Set());
 
-  // Cleanup all object URLs when component unmounts
+  // In-flight uploads by upload id, so removing a file cancels its upload
+  const uploadControllersRef = useRef<Map<string, AbortController>>(new Map());
+
+  const startUpload = (id: string): AbortSignal => {
+    const controller = new AbortController();
+    uploadControllersRef.current.set(id, controller);
+    return controller.signal;
+  };
+
+  const cancelUpload = useCallback((id: string) => {
+    uploadControllersRef.current.get(id)?.abort();
+    uploadControllersRef.current.delete(id);
+  }, []);
+
+  // Cleanup all object URLs and abort uploads when component unmounts
   useEffect(() => {
     const urls = previewUrlsRef.current;
+    const controllers = uploadControllersRef.current;
     return () => {
       urls.forEach(url => URL.revokeObjectURL(url));
       urls.clear();
+      controllers.forEach(controller => controller.abort());
+      controllers.clear();
     };
   }, []);
 
+  const mediaLimits = PLATFORM_MEDIA_LIMITS[mediaPlatform];
+
+  /**
+   * Keep the files the channel can deliver, toasting why the others were
+   * dropped. Nothing is kept when the batch would exceed the per-message count.
+   */
+  const filterAcceptedFiles = (kind: AttachmentKind, files: File[], alreadyAttached: number): File[] => {
+    const max = getMaxAttachments(kind, mediaPlatform);
+    if (max === 0) {
+      toast.error(t('message_composer.kind_not_supported_on_channel', {
+        filenames: files.map(f => f.name).join(', '),
+        channel: t(`message_composer.channel_${mediaPlatform}`),
+      }));
+      return [];
+    }
+    if (alreadyAttached + files.length > max) {
+      switch (kind) {
+        case 'image': toast.error(t('message_composer.max_images_error', { max })); break;
+        case 'audio': toast.error(t('message_composer.max_audio_error', { max })); break;
+        case 'document': toast.error(t('message_composer.max_documents_error', { max })); break;
+        case 'video': toast.error(t('message_composer.max_videos_error', { max })); break;
+      }
+      return [];
+    }
+
+    return files.filter(file => {
+      const result = validateAttachment(file, kind, mediaPlatform);
+      if (result.isValid) return true;
+
+      const filename = file.name;
+      if (result.reason === 'size') {
+        const maxSize = result.maxSizeMb;
+        switch (kind) {
+          case 'image': toast.error(t('message_composer.image_too_large_error', { filename, maxSize })); break;
+          case 'audio': toast.error(t('message_composer.audio_too_large_error', { filename, maxSize })); break;
+          case 'document': toast.error(t('message_composer.document_too_large_error', { filename, maxSize })); break;
+          case 'video': toast.error(t('message_composer.video_too_large_error', { filename, maxSize })); break;
+        }
+      } else if (mediaPlatform !== 'widget') {
+        toast.error(t('message_composer.type_not_supported_on_channel', {
+          filename,
+          channel: t(`message_composer.channel_${mediaPlatform}`),
+        }));
+      } else {
+        switch (kind) {
+          case 'image': toast.error(t('message_composer.invalid_image_type_error', { filename })); break;
+          case 'audio': toast.error(t('message_composer.invalid_audio_type_error', { filename })); break;
+          case 'document': toast.error(t('message_composer.invalid_document_type_error', { filename })); break;
+          case 'video': toast.error(t('message_composer.invalid_video_type_error', { filename })); break;
+        }
+      }
+      return false;
+    });
+  };
+
   // Auto-focus on mount
   useEffect(() => {
     textareaRef.current?.focus();
@@ -430,7 +547,76 @@ export default memo(function MessageComposer({
     };
   }, [showAttachMenu]);
 
+  /**
+   * Build attachments JSON from the files that finished uploading
+   */
+  const buildUploadedAttachmentsJson = (): string | undefined => {
+    const successfulImageUploads = uploadedImages
+      .filter(img => img.attachment && !img.error)
+      .map(img => {
+        const caption = mediaLimits.imageCaptions ? img.caption?.trim() : undefined;
+        return caption ? { ...img.attachment!, caption } : img.attachment!;
+      });
+
+    const successfulAudioUploads = uploadedAudio
+      .filter(aud => aud.attachment && !aud.error)
+      .map(aud => aud.attachment!);
+
+    const successfulDocUploads = uploadedDocuments
+      .filter(doc => doc.attachment && !doc.error)
+      .map(doc => doc.attachment!);
+
+    const successfulVideoUploads = uploadedVideos
+      .filter(vid => vid.attachment && !vid.error)
+      .map(vid => vid.attachment!);
+
+    if (successfulImageUploads.length === 0 && successfulAudioUploads.length === 0 && successfulDocUploads.length === 0 && successfulVideoUploads.length === 0) {
+      return undefined;
+    }
+
+    const wrapper: { images?: MediaAttachment[]; audio?: MediaAttachment[]; documents?: MediaAttachment[]; videos?: MediaAttachment[] } = {};
+    if (successfulImageUploads.length > 0) wrapper.images = successfulImageUploads;
+    if (successfulAudioUploads.length > 0) wrapper.audio = successfulAudioUploads;
+    if (successfulDocUploads.length > 0) wrapper.documents = successfulDocUploads;
+    if (successfulVideoUploads.length > 0) wrapper.videos = successfulVideoUploads;
+
+    logger.info('Using pre-uploaded attachments', {
+      images: successfulImageUploads.length,
+      audio: successfulAudioUploads.length,
+      documents: successfulDocUploads.length,
+      videos: successfulVideoUploads.length,
+    });
+    return JSON.stringify(wrapper);
+  };
+
+  const resetComposer = () => {
+    setMessage('');
+    setUploadedImages([]);
+    setUploadedAudio([]);
+    setUploadedDocuments([]);
+    setUploadedVideos([]);
+
+    // Reset textarea height
+    if (textareaRef.current) {
+      textareaRef.current.style.height = 'auto';
+    }
+  };
+
+  // Reply context for the next send; cleared together with the composer
+  const takeReplyOptions = (): SendMessageOptions | undefined => {
+    if (!replyTo) return undefined;
+    onCancelReply?.();
+    return { replyTo: toReplyReference(replyTo) };
+  };
+
   const handleSend = async () => {
+    // Free-form messages can't be delivered once the WhatsApp window closed
+    if (isSessionClosed) {
+      toast.info(t('whatsapp.session_closed_use_template'));
+      onTemplateClick?.();
+      return;
+    }
+
     // Sanitize and validate message
     const sanitizedMessage = sanitizeMessage(message);
 
@@ -464,6 +650,27 @@ export default memo(function MessageComposer({
       return;
     }
 
+    // Offline: attachments that failed to upload go to the outbox as raw files
+    // and are uploaded on replay together with the text
+    const toOutboxFile = (kind: OutboxFileKind, file: File): OutboxFile => ({ kind, name: file.name, type: file.type, blob: file });
+    const pendingFiles: OutboxFile[] = [
+      ...uploadedImages.filter(img => img.error).map(img => toOutboxFile('image', img.file)),
+      ...uploadedAudio.filter(aud => aud.error).map(aud => toOutboxFile('audio', aud.file)),
+      ...uploadedDocuments.filter(doc => doc.error).map(doc => toOutboxFile('document', doc.file)),
+      ...uploadedVideos.filter(vid => vid.error).map(vid => toOutboxFile('video', vid.file)),
+    ];
+    if (onQueueMessage && pendingFiles.length > 0 && !navigator.onLine) {
+      if (sanitizedMessage.length > MAX_MESSAGE_LENGTH) {
+        chatToasts.messageTooLong(MAX_MESSAGE_LENGTH);
+        return;
+      }
+      const attachmentsJson = buildUploadedAttachmentsJson();
+      resetComposer();
+      await onQueueMessage(sanitizedMessage, pendingFiles, attachmentsJson, takeReplyOptions());
+      toast.info(t('conversations.outbox.queued_offline'));
+      return;
+    }
+
     // Check if any images failed to upload
     const hasFailedImages = uploadedImages.some(img => img.error);
     if (hasFailedImages) {
@@ -505,62 +712,38 @@ export default memo(function MessageComposer({
       return;
     }
 
+    // Reply in the customer's language — preview first, the composer keeps the draft until then
+    if (translateReplies && customerLanguage && needsTranslation(sanitizedMessage, customerLanguage)) {
+      if (translateDraft.isPending) return;
+      translateDraft.mutate(
+        { text: sanitizedMessage, targetLanguage: customerLanguage, arabicNumerals: customerUsesArabicNumerals },
+        {
+          onSuccess: (result) =>
+            setTranslationPreview({ original: sanitizedMessage, translated: result.translated_text }),
+        }
+      );
+      return;
+    }
+
+    dispatchMessage(sanitizedMessage);
+  };
+
+  const dispatchMessage = (text: string) => {
     try {
-      let attachmentsJson: string | undefined = undefined;
-
-      // Build attachments JSON with images, audio, and documents
-      const successfulImageUploads = uploadedImages
-        .filter(img => img.attachment && !img.error)
-        .map(img => img.attachment!);
-
-      const successfulAudioUploads = uploadedAudio
-        .filter(aud => aud.attachment && !aud.error)
-        .map(aud => aud.attachment!);
-
-      const successfulDocUploads = uploadedDocuments
-        .filter(doc => doc.attachment && !doc.error)
-        .map(doc => doc.attachment!);
-
-      const successfulVideoUploads = uploadedVideos
-        .filter(vid => vid.attachment && !vid.error)
-        .map(vid => vid.attachment!);
-
-      if (successfulImageUploads.length > 0 || successfulAudioUploads.length > 0 || successfulDocUploads.length > 0 || successfulVideoUploads.length > 0) {
-        const wrapper: { images?: MediaAttachment[]; audio?: MediaAttachment[]; documents?: MediaAttachment[]; videos?: MediaAttachment[] } = {};
-        if (successfulImageUploads.length > 0) wrapper.images = successfulImageUploads;
-        if (successfulAudioUploads.length > 0) wrapper.audio = successfulAudioUploads;
-        if (successfulDocUploads.length > 0) wrapper.documents = successfulDocUploads;
-        if (successfulVideoUploads.length > 0) wrapper.videos = successfulVideoUploads;
-
-        attachmentsJson = JSON.stringify(wrapper);
-        logger.info('Using pre-uploaded attachments', {
-          images: successfulImageUploads.length,
-          audio: successfulAudioUploads.length,
-          documents: successfulDocUploads.length,
-          videos: successfulVideoUploads.length,
-        });
-      }
+      const attachmentsJson = buildUploadedAttachmentsJson();
 
       // Clear composer state immediately (optimistic update)
-      setMessage('');
-      setUploadedImages([]);
-      setUploadedAudio([]);
-      setUploadedDocuments([]);
-      setUploadedVideos([]);
-
-      // Reset textarea height
-      if (textareaRef.current) {
-        textareaRef.current.style.height = 'auto';
-      }
+      resetComposer();
+      const replyOptions = takeReplyOptions();
 
       // Send the message with attachments (non-blocking for UI)
       setIsLocalSending(true);
-      onSendMessage(sanitizedMessage, attachmentsJson).finally(() => {
+      onSendMessage(text, attachmentsJson, replyOptions).finally(() => {
         setIsLocalSending(false);
       });
     } catch (error) {
       logger.error('Failed to send message', error, {
-        messageLength: sanitizedMessage.length,
+        messageLength: text.length,
         component: 'MessageComposer',
         isAIMode,
       });
@@ -569,11 +752,32 @@ export default memo(function MessageComposer({
     }
   };
 
+  const handleSendTranslation = (text: string) => {
+    if (text.length > MAX_MESSAGE_LENGTH) {
+      chatToasts.messageTooLong(MAX_MESSAGE_LENGTH);
+      return;
+    }
+    setTranslationPreview(null);
+    dispatchMessage(text);
+  };
+
+  const handleSendOriginal = () => {
+    if (!translationPreview) return;
+    const { original } = translationPreview;
+    setTranslationPreview(null);
+    dispatchMessage(original);
+  };
+
   const handleKeyDown = (e: KeyboardEvent<HTMLTextAreaElement>) => {
     // While the saved-messages popover is open, let it handle navigation keys.
     if (showSavedMessages && (e.key === 'Enter' || e.key === 'ArrowUp' || e.key === 'ArrowDown' || e.key === 'Escape')) {
       return;
     }
+    if (e.key === 'Escape' && replyTo) {
+      e.preventDefault();
+      onCancelReply?.();
+      return;
+    }
     if (e.key === 'Enter' && !e.shiftKey) {
       e.preventDefault();
       handleSend();
@@ -581,22 +785,20 @@ export default memo(function MessageComposer({
   };
 
   /**
-   * Detect a `/keyword` token only when the slash is the FIRST character of
-   * the input. Mid-text slashes (e.g. URLs, dates) never trigger the picker.
+   * Detect a `/keyword` token the caret is in, where the slash starts the
+   * input or follows whitespace. Slashes inside a word (URLs, dates like
+   * 1/2) never trigger the picker.
    */
   const detectSlashTrigger = (
     text: string,
     caret: number
   ): { start: number; end: number; query: string } | null => {
-    if (text.length === 0 || text[0] !== '/') return null;
-    // The token runs from index 0 up to the first whitespace; caret must be
-    // inside it (i.e. the user is still typing the shortcut).
-    const wsMatch = text.match(/\s/);
-    const tokenEnd = wsMatch ? wsMatch.index! : text.length;
-    if (caret > tokenEnd) return null;
-    const query = text.slice(1, caret);
-    if (/\s/.test(query)) return null;
-    return { start: 0, end: caret, query };
+    const beforeCaret = text.slice(0, caret);
+    // Start of the whitespace-free run that ends at the caret
+    const tokenStart = beforeCaret.search(/\S*$/);
+    if (text[tokenStart] !== '/') return null;
+    const query = beforeCaret.slice(tokenStart + 1);
+    return { start: tokenStart, end: caret, query };
   };
 
   const handleMessageChange = (e: React.ChangeEvent<HTMLTextAreaElement>) => {
@@ -637,12 +839,64 @@ export default memo(function MessageComposer({
     setTimeout(() => textareaRef.current?.focus(), 0);
   }, [slashRange]);
 
+  // Resolve `{{variables}}` for this conversation and insert. Placeholders
+  // without a value stay in the text, and the operator is told which ones.
+  const resolveSavedMessage = useSavedMessageResolver(conversationId, agentId);
+  const handleSelectSavedMessage = useCallback((savedMessage: SavedMessage) => {
+    const { text, unresolved } = resolveSavedMessage(savedMessage);
+    handleInsertSavedMessage(text);
+    if (unresolved.length > 0) {
+      toast.warning(
+        t('saved_messages.unresolved_variables', {
+          variables: unresolved.map((name) => `{{${name}}}`).join(', '),
+        })
+      );
+    }
+  }, [resolveSavedMessage, handleInsertSavedMessage, t]);
+
   const handleCloseSavedMessages = useCallback(() => {
     setShowSavedMessages(false);
     setSlashRange(null);
     setSavedMessagesFilter('');
   }, []);
 
+  // Requests from keyboard shortcuts and the command palette (see composerStore)
+  const pendingFocus = useComposerStore((state) => state.pendingFocus);
+  const pendingInsert = useComposerStore((state) => state.pendingInsert);
+  const clearPendingFocus = useComposerStore((state) => state.clearPendingFocus);
+  const clearPendingInsert = useComposerStore((state) => state.clearPendingInsert);
+  const pendingSavedMessage = useComposerStore((state) => state.pendingSavedMessage);
+  const clearPendingSavedMessage = useComposerStore((state) => state.clearPendingSavedMessage);
+  useEffect(() => {
+    if (!pendingFocus) return;
+    textareaRef.current?.focus();
+    clearPendingFocus();
+  }, [pendingFocus, clearPendingFocus]);
+  useEffect(() => {
+    if (pendingInsert === null) return;
+    handleInsertSavedMessage(pendingInsert);
+    clearPendingInsert();
+  }, [pendingInsert, handleInsertSavedMessage, clearPendingInsert]);
+  useEffect(() => {
+    if (pendingSavedMessage === null) return;
+    handleSelectSavedMessage(pendingSavedMessage);
+    clearPendingSavedMessage();
+  }, [pendingSavedMessage, handleSelectSavedMessage, clearPendingSavedMessage]);
+  const pendingReplace = useComposerStore((state) => state.pendingReplace);
+  const clearPendingReplace = useComposerStore((state) => state.clearPendingReplace);
+  useEffect(() => {
+    if (pendingReplace === null) return;
+    setMessage(pendingReplace);
+    clearPendingReplace();
+    if (pendingReplace) textareaRef.current?.focus();
+  }, [pendingReplace, clearPendingReplace]);
+  // Mirror the draft for panels that work on it (copilot rewrite)
+  const setComposerDraft = useComposerStore((state) => state.setDraft);
+  useEffect(() => {
+    setComposerDraft(message);
+  }, [message, setComposerDraft]);
+  useEffect(() => () => setComposerDraft(''), [setComposerDraft]);
+
   const handleToggleSavedMessages = () => {
     if (showSavedMessages) {
       handleCloseSavedMessages();
@@ -663,6 +917,16 @@ export default memo(function MessageComposer({
   const handlePaste = (e: React.ClipboardEvent<HTMLTextAreaElement>) => {
     e.preventDefault();
 
+    // Pasted files (screenshots, copied images) take the drag & drop path
+    const pastedFiles = Array.from(e.clipboardData.files);
+    if (pastedFiles.length > 0) {
+      logger.info('[MessageComposer]', `Paste: ${pastedFiles.length} file(s) pasted`, {
+        files: pastedFiles.map(f => ({ name: f.name, type: f.type, size: f.size })),
+      });
+      processDroppedFiles(pastedFiles);
+      return;
+    }
+
     let pastedText = e.clipboardData.getData('text/plain');
 
     // Sanitize pasted text
@@ -704,29 +968,8 @@ export default memo(function MessageComposer({
   const handleFileSelect = async (e: React.ChangeEvent<HTMLInputElement>) => {
     const files = Array.from(e.target.files || []);
 
-    // Validate file count
-    if (uploadedImages.length + files.length > MAX_IMAGES) {
-      toast.error(t('message_composer.max_images_error', { max: MAX_IMAGES }));
-      return;
-    }
-
-    // Validate each file
-    const validFiles: File[] = [];
-    for (const file of files) {
-      // Check file type
-      if (!ALLOWED_IMAGE_TYPES.includes(file.type)) {
-        toast.error(t('message_composer.invalid_image_type_error', { filename: file.name }));
-        continue;
-      }
-
-      // Check file size
-      if (file.size > MAX_FILE_SIZE_BYTES) {
-        toast.error(t('message_composer.image_too_large_error', { filename: file.name, maxSize: MAX_FILE_SIZE_MB }));
-        continue;
-      }
-
-      validFiles.push(file);
-    }
+    // Validate count, type and size against the channel's limits
+    const validFiles = filterAcceptedFiles('image', files, uploadedImages.length);
 
     if (validFiles.length === 0) {
       // Reset file input
@@ -759,6 +1002,8 @@ export default memo(function MessageComposer({
 
     // Upload each file in background (using index to match with newUploads)
     newUploads.forEach(async (uploadedImage) => {
+      const signal = startUpload(uploadedImage.id);
+      let progressInterval: ReturnType<typeof setInterval> | undefined;
       try {
         logger.info(`Starting upload for ${uploadedImage.file.name}`, { id: uploadedImage.id });
 
@@ -766,7 +1011,7 @@ export default memo(function MessageComposer({
         // Fast animation provides visual feedback even for instant uploads
         let simulatedProgress = 0;
         let realProgressReceived = false;
-        const progressInterval = setInterval(() => {
+        progressInterval = setInterval(() => {
           if (!realProgressReceived && simulatedProgress < 95) {
             // Exponential slowdown: fast at start, slower near end
             const increment = (95 - simulatedProgress) * 0.1; // 10% of remaining
@@ -784,6 +1029,7 @@ export default memo(function MessageComposer({
           file: uploadedImage.file,
           conversationId,
           messageId: tempMessageId,
+          signal,
           onProgress: (progress) => {
             // Real progress from server - use it immediately
             realProgressReceived = true;
@@ -811,6 +1057,10 @@ export default memo(function MessageComposer({
           )
         );
       } catch (error) {
+        clearInterval(progressInterval);
+        // Cancelled by the user - the entry is already gone
+        if (signal.aborted) return;
+
         // Upload failed - mark with error
         logger.error(`Upload failed: ${uploadedImage.file.name}`, error, { id: uploadedImage.id });
         setUploadedImages(prev =>
@@ -822,6 +1072,8 @@ export default memo(function MessageComposer({
         );
 
         toast.error(t('message_composer.image_upload_failed', { filename: uploadedImage.file.name }));
+      } finally {
+        uploadControllersRef.current.delete(uploadedImage.id);
       }
     });
 
@@ -832,6 +1084,8 @@ export default memo(function MessageComposer({
   };
 
   const handleRemoveImage = useCallback((index: number) => {
+    const image = uploadedImages[index];
+    if (image) cancelUpload(image.id);
     setUploadedImages(prev => {
       const imageToRemove = prev[index];
       if (imageToRemove) {
@@ -840,6 +1094,10 @@ export default memo(function MessageComposer({
       }
       return prev.filter((_, i) => i !== index);
     });
+  }, [uploadedImages, cancelUpload]);
+
+  const handleImageCaptionChange = useCallback((id: string, caption: string) => {
+    setUploadedImages(prev => prev.map(img => (img.id === id ? { ...img, caption } : img)));
   }, []);
 
   /**
@@ -848,29 +1106,8 @@ export default memo(function MessageComposer({
   const handleAudioSelect = async (e: React.ChangeEvent<HTMLInputElement>) => {
     const files = Array.from(e.target.files || []);
 
-    // Validate file count
-    if (uploadedAudio.length + files.length > MAX_AUDIO) {
-      toast.error(t('message_composer.max_audio_error', { max: MAX_AUDIO }));
-      return;
-    }
-
-    // Validate each file
-    const validFiles: File[] = [];
-    for (const file of files) {
-      // Check file type
-      if (!ALLOWED_AUDIO_TYPES.includes(file.type)) {
-        toast.error(t('message_composer.invalid_audio_type_error', { filename: file.name }));
-        continue;
-      }
-
-      // Check file size (5MB for audio)
-      if (file.size > MAX_AUDIO_SIZE_BYTES) {
-        toast.error(t('message_composer.audio_too_large_error', { filename: file.name, maxSize: MAX_AUDIO_SIZE_MB }));
-        continue;
-      }
-
-      validFiles.push(file);
-    }
+    // Validate count, type and size against the channel's limits
+    const validFiles = filterAcceptedFiles('audio', files, uploadedAudio.length);
 
     if (validFiles.length === 0) {
       // Reset file input
@@ -898,6 +1135,7 @@ export default memo(function MessageComposer({
 
     // Upload each file in background
     newUploads.forEach(async (uploadedAudioFile) => {
+      const signal = startUpload(uploadedAudioFile.id);
       try {
         logger.info(`Starting audio upload for ${uploadedAudioFile.file.name}`, { id: uploadedAudioFile.id });
 
@@ -905,6 +1143,7 @@ export default memo(function MessageComposer({
           file: uploadedAudioFile.file,
           conversationId,
           messageId: tempMessageId,
+          signal,
           onProgress: (progress) => {
             logger.info(`Audio progress update: ${progress}%`, {
               id: uploadedAudioFile.id,
@@ -928,6 +1167,8 @@ export default memo(function MessageComposer({
           )
         );
       } catch (error) {
+        if (signal.aborted) return;
+
         // Upload failed
         logger.error(`Audio upload failed: ${uploadedAudioFile.file.name}`, error, { id: uploadedAudioFile.id });
         setUploadedAudio(prev =>
@@ -939,6 +1180,8 @@ export default memo(function MessageComposer({
         );
 
         toast.error(t('message_composer.audio_upload_failed', { filename: uploadedAudioFile.file.name }));
+      } finally {
+        uploadControllersRef.current.delete(uploadedAudioFile.id);
       }
     });
 
@@ -949,6 +1192,8 @@ export default memo(function MessageComposer({
   };
 
   const handleRemoveAudio = (index: number) => {
+    const audio = uploadedAudio[index];
+    if (audio) cancelUpload(audio.id);
     setUploadedAudio(prev => prev.filter((_, i) => i !== index));
     logger.info('Removed audio', { index });
   };
@@ -959,28 +1204,8 @@ export default memo(function MessageComposer({
   const handleDocumentSelect = async (e: React.ChangeEvent<HTMLInputElement>) => {
     const files = Array.from(e.target.files || []);
 
-    // Only 1 document per message
-    if (uploadedDocuments.length + files.length > 1) {
-      toast.error(t('message_composer.max_documents_error'));
-      return;
-    }
-
-    const validFiles: File[] = [];
-    for (const file of files) {
-      // Check by MIME type first, fallback to extension
-      const extension = '.' + file.name.split('.').pop()?.toLowerCase();
-      if (!ALLOWED_DOCUMENT_TYPES.includes(file.type) && !ALLOWED_DOCUMENT_EXTENSIONS.includes(extension)) {
-        toast.error(t('message_composer.invalid_document_type_error', { filename: file.name }));
-        continue;
-      }
-
-      if (file.size > MAX_DOC_SIZE_BYTES) {
-        toast.error(t('message_composer.document_too_large_error', { filename: file.name, maxSize: MAX_DOC_SIZE_MB }));
-        continue;
-      }
-
-      validFiles.push(file);
-    }
+    // Validate count (1 per message), type and size against the channel's limits
+    const validFiles = filterAcceptedFiles('document', files, uploadedDocuments.length);
 
     if (validFiles.length === 0) {
       if (documentInputRef.current) documentInputRef.current.value = '';
@@ -1001,6 +1226,7 @@ export default memo(function MessageComposer({
     logger.info(`Starting upload-on-select for ${validFiles.length} document(s)`);
 
     newUploads.forEach(async (uploadedDoc) => {
+      const signal = startUpload(uploadedDoc.id);
       try {
         logger.info(`Starting document upload for ${uploadedDoc.file.name}`, { id: uploadedDoc.id });
 
@@ -1008,6 +1234,7 @@ export default memo(function MessageComposer({
           file: uploadedDoc.file,
           conversationId,
           messageId: tempMessageId,
+          signal,
           onProgress: (progress) => {
             setUploadedDocuments(prev =>
               prev.map(doc =>
@@ -1026,6 +1253,7 @@ export default memo(function MessageComposer({
           )
         );
       } catch (error) {
+        if (signal.aborted) return;
         logger.error(`Document upload failed: ${uploadedDoc.file.name}`, error, { id: uploadedDoc.id });
         setUploadedDocuments(prev =>
           prev.map(doc =>
@@ -1035,6 +1263,8 @@ export default memo(function MessageComposer({
           )
         );
         toast.error(t('message_composer.document_upload_failed', { filename: uploadedDoc.file.name }));
+      } finally {
+        uploadControllersRef.current.delete(uploadedDoc.id);
       }
     });
 
@@ -1042,11 +1272,15 @@ export default memo(function MessageComposer({
   };
 
   const handleRemoveDocument = (index: number) => {
+    const doc = uploadedDocuments[index];
+    if (doc) cancelUpload(doc.id);
     setUploadedDocuments(prev => prev.filter((_, i) => i !== index));
     logger.info('Removed document', { index });
   };
 
   const handleRemoveVideo = (index: number) => {
+    const video = uploadedVideos[index];
+    if (video) cancelUpload(video.id);
     setUploadedVideos(prev => prev.filter((_, i) => i !== index));
     logger.info('Removed video', { index });
   };
@@ -1054,27 +1288,8 @@ export default memo(function MessageComposer({
   const handleVideoSelect = async (e: React.ChangeEvent<HTMLInputElement>) => {
     const files = Array.from(e.target.files || []);
 
-    // Only 1 video per message
-    if (uploadedVideos.length + files.length > 1) {
-      toast.error(t('message_composer.max_videos_error', { defaultValue: 'Only 1 video per message' }));
-      return;
-    }
-
-    const validFiles: File[] = [];
-    for (const file of files) {
-      const extension = '.' + file.name.split('.').pop()?.toLowerCase();
-      if (!ALLOWED_VIDEO_TYPES.includes(file.type) && !ALLOWED_VIDEO_EXTENSIONS.includes(extension)) {
-        toast.error(t('message_composer.invalid_video_type_error', { filename: file.name, defaultValue: `Unsupported video type: ${file.name}` }));
-        continue;
-      }
-
-      if (file.size > MAX_VIDEO_SIZE_BYTES) {
-        toast.error(t('message_composer.video_too_large_error', { filename: file.name, maxSize: MAX_VIDEO_SIZE_MB, defaultValue: `Video ${file.name} exceeds ${MAX_VIDEO_SIZE_MB}MB limit` }));
-        continue;
-      }
-
-      validFiles.push(file);
-    }
+    // Validate count (1 per message), type and size against the channel's limits
+    const validFiles = filterAcceptedFiles('video', files, uploadedVideos.length);
 
     if (validFiles.length === 0) {
       if (videoInputRef.current) videoInputRef.current.value = '';
@@ -1095,6 +1310,7 @@ export default memo(function MessageComposer({
     logger.info(`Starting upload-on-select for ${validFiles.length} video(s)`);
 
     newUploads.forEach(async (uploadedVideo) => {
+      const signal = startUpload(uploadedVideo.id);
       try {
         logger.info(`Starting video upload for ${uploadedVideo.file.name}`, { id: uploadedVideo.id });
 
@@ -1102,6 +1318,7 @@ export default memo(function MessageComposer({
           file: uploadedVideo.file,
           conversationId,
           messageId: tempMessageId,
+          signal,
           onProgress: (progress) => {
             setUploadedVideos(prev =>
               prev.map(vid =>
@@ -1120,6 +1337,7 @@ export default memo(function MessageComposer({
           )
         );
       } catch (error) {
+        if (signal.aborted) return;
         logger.error(`Video upload failed: ${uploadedVideo.file.name}`, error, { id: uploadedVideo.id });
         setUploadedVideos(prev =>
           prev.map(vid =>
@@ -1129,6 +1347,8 @@ export default memo(function MessageComposer({
           )
         );
         toast.error(t('message_composer.video_upload_failed', { filename: uploadedVideo.file.name, defaultValue: `Failed to upload ${uploadedVideo.file.name}` }));
+      } finally {
+        uploadControllersRef.current.delete(uploadedVideo.id);
       }
     });
 
@@ -1165,6 +1385,7 @@ export default memo(function MessageComposer({
    */
   const handleRecordingComplete = async (audioBlob: Blob) => {
     setIsRecording(false);
+    const replyOptions = takeReplyOptions();
 
     // Convert blob to File - use the blob's actual MIME type
     const mimeType = audioBlob.type; // Get actual MIME type from VoiceRecorder
@@ -1198,12 +1419,20 @@ export default memo(function MessageComposer({
       });
 
       // Send empty message with voice attachment (WhatsApp-style)
-      await onSendMessage('', attachmentsJson);
+      await onSendMessage('', attachmentsJson, replyOptions);
 
       logger.info('Voice message sent successfully');
       toast.success(t('conversations.voice_message_sent'));
 
     } catch (error) {
+      // Offline: keep the recording in the outbox and send it on reconnect
+      if (onQueueMessage && isNetworkError(error)) {
+        logger.warn('[MessageComposer]', 'Voice recording upload failed offline - queued', { fileName });
+        await onQueueMessage('', [{ kind: 'audio', name: fileName, type: mimeType, blob: audioBlob }], undefined, replyOptions);
+        toast.info(t('conversations.outbox.voice_queued'));
+        return;
+      }
+
       // Upload failed
       logger.error('Voice recording upload failed', error, { fileName });
       toast.error(t('conversations.voice_send_failed'));
@@ -1220,30 +1449,15 @@ export default memo(function MessageComposer({
   // ─── Drag & Drop Support ───────────────────────────────────────────────
 
   /**
-   * Classify a file by its MIME type / extension and route to the appropriate upload handler.
-   * Returns 'image' | 'audio' | 'document' | 'unsupported'.
-   */
-  const classifyFile = useCallback((file: File): 'image' | 'audio' | 'document' | 'video' | 'unsupported' => {
-    if (ALLOWED_IMAGE_TYPES.includes(file.type)) return 'image';
-    if (ALLOWED_VIDEO_TYPES.includes(file.type)) return 'video';
-    if (ALLOWED_AUDIO_TYPES.includes(file.type)) return 'audio';
-    if (ALLOWED_DOCUMENT_TYPES.includes(file.type)) return 'document';
-
-    // Fallback: check extension
-    const ext = '.' + file.name.split('.').pop()?.toLowerCase();
-    if (['.jpg', '.jpeg', '.png'].includes(ext)) return 'image';
-    if (ALLOWED_VIDEO_EXTENSIONS.includes(ext)) return 'video';
-    if (['.mp3', '.m4a', '.ogg', '.wav', '.aac', '.flac', '.webm'].includes(ext)) return 'audio';
-    if (ALLOWED_DOCUMENT_EXTENSIONS.includes(ext)) return 'document';
-
-    return 'unsupported';
-  }, []);
-
-  /**
-   * Process dropped files by routing them to the correct upload handler.
+   * Process dropped or pasted files by routing them to the correct upload handler.
    * Synthesizes ChangeEvent-compatible objects for reuse of existing handlers.
    */
   const processDroppedFiles = useCallback((files: File[]) => {
+    if (isSessionClosed) {
+      toast.error(t('whatsapp.session_closed_no_attachments'));
+      return;
+    }
+
     const images: File[] = [];
     const audio: File[] = [];
     const documents: File[] = [];
@@ -1251,7 +1465,7 @@ export default memo(function MessageComposer({
     const unsupported: string[] = [];
 
     for (const file of files) {
-      switch (classifyFile(file)) {
+      switch (classifyAttachment(file)) {
         case 'image': images.push(file); break;
         case 'audio': audio.push(file); break;
         case 'document': documents.push(file); break;
@@ -1296,7 +1510,7 @@ export default memo(function MessageComposer({
       const syntheticEvent = { target: { files: dt.files } } as React.ChangeEvent<HTMLInputElement>;
       handleVideoSelect(syntheticEvent);
     }
-  }, [classifyFile, t, handleFileSelect, handleAudioSelect, handleDocumentSelect, handleVideoSelect]);
+  }, [isSessionClosed, t, handleFileSelect, handleAudioSelect, handleDocumentSelect, handleVideoSelect]);
 
   const handleDragEnter = useCallback((e: React.DragEvent) => {
     e.preventDefault();
@@ -1383,6 +1597,25 @@ export default memo(function MessageComposer({
         </div>
       )}
 
+      {/* Replying to */}
+      {replyTo && (
+        <div className="flex items-start gap-2 mb-3">
+          <div className="flex-1 min-w-0">
+            <p className="text-[11px] font-medium text-neutral-500 mb-1">{t('conversations.replies.replying_to')}</p>
+            <QuotedMessage replyTo={toReplyReference(replyTo)} />
+          </div>
+          <button
+            type="button"
+            onClick={onCancelReply}
+            className="p-1 rounded-full text-neutral-500 hover:text-neutral-900 hover:bg-neutral-100 transition-colors"
+            aria-label={t('conversations.replies.cancel_reply')}
+            title={t('conversations.replies.cancel_reply')}
+          >
+            <X className="w-4 h-4" />
+          </button>
+        </div>
+      )}
+
       {/* Hidden File Inputs */}
       <input
         ref={fileInputRef}
@@ -1423,9 +1656,9 @@ export default memo(function MessageComposer({
       {uploadedImages.length > 0 && (
         <div className="flex gap-2 mb-3 overflow-x-auto">
           {uploadedImages.map((uploadedImage, index) => (
+            <div key={uploadedImage.id} className="flex-shrink-0" style={{ width: `${THUMBNAIL_SIZE_PX}px` }}>
             <div
-              key={`${uploadedImage.file.name}-${index}`}
-              className="relative flex-shrink-0 group"
+              className="relative group"
               style={{ width: `${THUMBNAIL_SIZE_PX}px`, height: `${THUMBNAIL_SIZE_PX}px` }}
             >
               {/* Image Thumbnail */}
@@ -1456,10 +1689,9 @@ export default memo(function MessageComposer({
                 </div>
               )}
 
-              {/* Remove Button */}
+              {/* Remove Button - cancels the upload while it's in flight */}
               <button
                 onClick={() => handleRemoveImage(index)}
-                disabled={uploadedImage.isUploading}
                 className={cn(
                   'absolute top-1 end-1',
                   'w-5 h-5',
@@ -1468,15 +1700,33 @@ export default memo(function MessageComposer({
                   'rounded-full',
                   'flex items-center justify-center',
                   'hover:bg-neutral-950/90',
-                  'transition-colors',
-                  uploadedImage.isUploading && 'opacity-50 cursor-not-allowed'
+                  'transition-colors'
                 )}
-                aria-label={t('message_composer.remove_image_aria', { index: index + 1 })}
-                title={uploadedImage.error ? t('conversations.remove_failed_image') : t('conversations.remove_image')}
+                aria-label={uploadedImage.isUploading
+                  ? t('message_composer.cancel_upload_aria', { filename: uploadedImage.file.name })
+                  : t('message_composer.remove_image_aria', { index: index + 1 })}
+                title={uploadedImage.isUploading
+                  ? t('message_composer.cancel_upload')
+                  : uploadedImage.error ? t('conversations.remove_failed_image') : t('conversations.remove_image')}
               >
                 <X className="w-3 h-3" />
               </button>
             </div>
+
+            {/* Caption - sent under the image on channels that support it */}
+            {mediaLimits.imageCaptions && !uploadedImage.error && (
+              <input
+                type="text"
+                value={uploadedImage.caption ?? ''}
+                onChange={(e) => handleImageCaptionChange(uploadedImage.id, e.target.value)}
+                maxLength={mediaLimits.maxCaptionLength}
+                placeholder={t('message_composer.caption_placeholder')}
+                aria-label={t('message_composer.caption_aria', { index: index + 1 })}
+                dir="auto"
+                className="mt-1 w-full rounded-md border border-neutral-200 px-1.5 py-0.5 text-[11px] text-neutral-700 placeholder:text-neutral-400 focus:outline-none focus:ring-1 focus:ring-neutral-300"
+              />
+            )}
+            </div>
           ))}
         </div>
       )}
@@ -1517,16 +1767,18 @@ export default memo(function MessageComposer({
               )}
               <button
                 onClick={() => handleRemoveAudio(index)}
-                disabled={uploadedAudioFile.isUploading}
                 className={cn(
                   "p-1.5 rounded-md",
                   "text-neutral-500 hover:text-neutral-700",
                   "hover:bg-neutral-200",
-                  "transition-colors",
-                  uploadedAudioFile.isUploading && "opacity-50 cursor-not-allowed"
+                  "transition-colors"
                 )}
-                aria-label={t('message_composer.remove_audio_aria', { index: index + 1 })}
-                title={uploadedAudioFile.error ? t('conversations.remove_failed_audio') : t('conversations.remove_audio')}
+                aria-label={uploadedAudioFile.isUploading
+                  ? t('message_composer.cancel_upload_aria', { filename: uploadedAudioFile.file.name })
+                  : t('message_composer.remove_audio_aria', { index: index + 1 })}
+                title={uploadedAudioFile.isUploading
+                  ? t('message_composer.cancel_upload')
+                  : uploadedAudioFile.error ? t('conversations.remove_failed_audio') : t('conversations.remove_audio')}
               >
                 <X className="w-4 h-4" />
               </button>
@@ -1571,15 +1823,16 @@ export default memo(function MessageComposer({
               )}
               <button
                 onClick={() => handleRemoveDocument(index)}
-                disabled={uploadedDoc.isUploading}
                 className={cn(
                   "p-1.5 rounded-md",
                   "text-neutral-500 hover:text-neutral-700",
                   "hover:bg-neutral-200",
-                  "transition-colors",
-                  uploadedDoc.isUploading && "opacity-50 cursor-not-allowed"
+                  "transition-colors"
                 )}
-                aria-label={t('message_composer.remove_document_aria', { index: index + 1 })}
+                aria-label={uploadedDoc.isUploading
+                  ? t('message_composer.cancel_upload_aria', { filename: uploadedDoc.file.name })
+                  : t('message_composer.remove_document_aria', { index: index + 1 })}
+                title={uploadedDoc.isUploading ? t('message_composer.cancel_upload') : undefined}
               >
                 <X className="w-4 h-4" />
               </button>
@@ -1624,15 +1877,16 @@ export default memo(function MessageComposer({
               )}
               <button
                 onClick={() => handleRemoveVideo(index)}
-                disabled={uploadedVideo.isUploading}
                 className={cn(
                   "p-1.5 rounded-md",
                   "text-neutral-500 hover:text-neutral-700",
                   "hover:bg-neutral-200",
-                  "transition-colors",
-                  uploadedVideo.isUploading && "opacity-50 cursor-not-allowed"
+                  "transition-colors"
                 )}
-                aria-label={t('message_composer.remove_video_aria', { index: index + 1, defaultValue: `Remove video ${index + 1}` })}
+                aria-label={uploadedVideo.isUploading
+                  ? t('message_composer.cancel_upload_aria', { filename: uploadedVideo.file.name })
+                  : t('message_composer.remove_video_aria', { index: index + 1, defaultValue: `Remove video ${index + 1}` })}
+                title={uploadedVideo.isUploading ? t('message_composer.cancel_upload') : undefined}
               >
                 <X className="w-4 h-4" />
               </button>
@@ -1641,13 +1895,29 @@ export default memo(function MessageComposer({
         </div>
       )}
 
+      {/* Closed WhatsApp session: propose templates matching the draft */}
+      {isSessionClosed && (
+        message.trim() && whatsAppConnectionId && onTemplateSuggestion ? (
+          <TemplateSuggestions
+            connectionId={whatsAppConnectionId}
+            conversationId={conversationId}
+            agentId={agentId}
+            draft={message}
+            onSelect={onTemplateSuggestion}
+            onBrowseAll={onTemplateClick}
+          />
+        ) : (
+          <WhatsAppExpiredBanner onSendTemplate={onTemplateClick} />
+        )
+      )}
+
       {/* Line 1: Input Field (wrapped to anchor the slash-mode picker above the caret) */}
       <div className="relative">
         {/* Slash-trigger picker — read-only, anchored above the textarea */}
         {agentId && showSavedMessages && slashRange && (
           <SavedMessagesPicker
             agentId={agentId}
-            onSelect={handleInsertSavedMessage}
+            onSelect={handleSelectSavedMessage}
             onClose={handleCloseSavedMessages}
             initialFilter={savedMessagesFilter}
             mode="slash"
@@ -1718,11 +1988,11 @@ export default memo(function MessageComposer({
                 'hover:text-neutral-700',
                 'transition-all duration-150',
                 showAttachMenu && 'bg-neutral-100 text-neutral-700',
-                (isSending || isLocalSending) && 'opacity-50 cursor-not-allowed'
+                (isSending || isLocalSending || isSessionClosed) && 'opacity-50 cursor-not-allowed'
               )}
               aria-label={t('message_composer.attach_aria')}
-              title={t('message_composer.attach_title')}
-              disabled={isSending || isLocalSending}
+              title={isSessionClosed ? t('whatsapp.session_closed_no_attachments') : t('message_composer.attach_title')}
+              disabled={isSending || isLocalSending || isSessionClosed}
             >
               <Paperclip className="w-5 h-5" />
             </button>
@@ -1737,13 +2007,15 @@ export default memo(function MessageComposer({
                   <Image className="w-4 h-4 text-neutral-500" />
                   {t('message_composer.upload_photo')}
                 </button>
-                <button
-                  onClick={handleFileOption}
-                  className="flex items-center gap-3 w-full px-4 py-3 text-sm text-neutral-700 hover:bg-neutral-50 transition-colors border-t border-neutral-100"
-                >
-                  <FileText className="w-4 h-4 text-neutral-500" />
-                  {t('message_composer.upload_file')}
-                </button>
+                {mediaLimits.kinds.document && (
+                  <button
+                    onClick={handleFileOption}
+                    className="flex items-center gap-3 w-full px-4 py-3 text-sm text-neutral-700 hover:bg-neutral-50 transition-colors border-t border-neutral-100"
+                  >
+                    <FileText className="w-4 h-4 text-neutral-500" />
+                    {t('message_composer.upload_file')}
+                  </button>
+                )}
                 <button
                   onClick={handleVideoOption}
                   className="flex items-center gap-3 w-full px-4 py-3 text-sm text-neutral-700 hover:bg-neutral-50 transition-colors border-t border-neutral-100"
@@ -1777,7 +2049,7 @@ export default memo(function MessageComposer({
               {showSavedMessages && !slashRange && (
                 <SavedMessagesPicker
                   agentId={agentId}
-                  onSelect={handleInsertSavedMessage}
+                  onSelect={handleSelectSavedMessage}
                   onClose={handleCloseSavedMessages}
                   initialFilter={savedMessagesFilter}
                   mode="button"
@@ -1841,6 +2113,25 @@ export default memo(function MessageComposer({
             )}
           </div>
 
+          {/* Send in the customer's language */}
+          {customerLanguage && !isSessionClosed && (
+            <button
+              onClick={() => updateTranslationSettings(conversationId, { sendInCustomerLanguage: !sendInCustomerLanguage })}
+              className={cn(
+                'p-2 rounded-lg',
+                'transition-all duration-150',
+                sendInCustomerLanguage
+                  ? 'bg-blue-50 text-blue-600 hover:bg-blue-100'
+                  : 'text-neutral-500 hover:bg-neutral-100 hover:text-neutral-700'
+              )}
+              aria-label={t('translation.send_in_customer_language')}
+              aria-pressed={sendInCustomerLanguage}
+              title={t('translation.send_in_customer_language')}
+            >
+              {translateDraft.isPending ? <Loader2 className="w-5 h-5 animate-spin" /> : <Languages className="w-5 h-5" />}
+            </button>
+          )}
+
           {/* AI Agent Toggle — replaced by handoff chip when a pause is active */}
           {onModeToggle && (
             <AiToggle
@@ -1852,7 +2143,17 @@ export default memo(function MessageComposer({
           )}
         </div>
 
-        {/* Right: Send/Microphone Button - WhatsApp-style toggle */}
+        {/* Right: Send/Microphone Button - WhatsApp-style toggle; templates only once the session closed */}
+        {isSessionClosed ? (
+          <button
+            onClick={onTemplateClick}
+            className="rounded-full w-10 h-10 flex items-center justify-center flex-shrink-0 bg-amber-600 text-white hover:bg-amber-700 transition-all duration-200"
+            title={t('whatsapp.send_template_btn')}
+            aria-label={t('whatsapp.send_template_btn')}
+          >
+            <LayoutTemplate className="w-5 h-5" />
+          </button>
+        ) : (
         <button
           onClick={(message.trim() || uploadedImages.length > 0 || uploadedAudio.length > 0 || uploadedDocuments.length > 0 || uploadedVideos.length > 0) ? handleSend : handleAudioButtonClick}
           disabled={(message.trim() || uploadedImages.length > 0 || uploadedAudio.length > 0 || uploadedDocuments.length > 0 || uploadedVideos.length > 0) ? (isSending || isLocalSending) : false}
@@ -1886,7 +2187,25 @@ export default memo(function MessageComposer({
             <Mic className="w-5 h-5" />
           )}
         </button>
+        )}
       </div>
+
+      {/* WhatsApp 24-hour window countdown */}
+      {whatsAppWindow && !whatsAppWindow.expired && (
+        <WhatsAppActiveBanner remainingMs={whatsAppWindow.remaining} />
+      )}
+
+      {translationPreview && customerLanguage && (
+        <TranslationPreviewModal
+          isOpen
+          original={translationPreview.original}
+          translated={translationPreview.translated}
+          targetLanguage={customerLanguage}
+          onSendTranslation={handleSendTranslation}
+          onSendOriginal={handleSendOriginal}
+          onClose={() => setTranslationPreview(null)}
+        />
+      )}
     </div>
   );
 });
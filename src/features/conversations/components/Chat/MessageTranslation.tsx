@@ -0,0 +1,68 @@
+/**
+ * Message Translation
+ * Translated text of a chat message, rendered inside its bubble in place of
+ * the original. The translation is fetched once per message and language.
+ */
+
+import { useTranslation } from 'react-i18next';
+import { Languages, Loader2 } from 'lucide-react';
+import { useMessageTranslation } from '../../hooks/useMessageTranslation';
+import type { TranslationLanguage } from '../../types';
+
+interface MessageTranslationProps {
+  conversationId: string;
+  messageId: string;
+  targetLanguage: TranslationLanguage;
+  onShowOriginal: () => void;
+}
+
+const TRANSLATED_FROM_KEYS = {
+  en: 'translation.translated_from_en',
+  ar: 'translation.translated_from_ar',
+} as const;
+
+export function MessageTranslation({ conversationId, messageId, targetLanguage, onShowOriginal }: MessageTranslationProps) {
+  const { t } = useTranslation();
+  const { data, isLoading, isError } = useMessageTranslation(conversationId, messageId, targetLanguage);
+
+  if (isLoading) {
+    return (
+      <div className="flex items-center gap-1.5 text-xs opacity-70">
+        <Loader2 className="w-3 h-3 animate-spin" />
+        {t('translation.translating')}
+      </div>
+    );
+  }
+
+  if (isError || !data) {
+    return (
+      <div className="text-xs opacity-70">
+        {t('translation.error')}{' '}
+        <button type="button" onClick={onShowOriginal} className="underline">
+          {t('translation.show_original')}
+        </button>
+      </div>
+    );
+  }
+
+  const isRTL = targetLanguage === 'ar';
+
+  return (
+    <div>
+      <div
+        className="text-sm leading-relaxed break-words whitespace-pre-wrap"
+        style={{ textAlign: isRTL ? 'right' : 'left', direction: isRTL ? 'rtl' : 'ltr' }}
+      >
+        {data.translated_text}
+      </div>
+      <div className="mt-1.5 flex items-center gap-1 text-[11px] opacity-60">
+        <Languages className="w-3 h-3" />
+        <span>{t(TRANSLATED_FROM_KEYS[data.source_language])}</span>
+        <span>·</span>
+        <button type="button" onClick={onShowOriginal} className="underline hover:opacity-100">
+          {t('translation.show_original')}
+        </button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,79 @@
+/**
+ * Quoted Message
+ * Compact preview of the message a reply refers to. Used inside chat bubbles
+ * (click scrolls to the parent) and above the composer while replying.
+ */
+
+import { useTranslation } from 'react-i18next';
+import { cn } from '@/lib/utils';
+import { MessageType, SenderRole, type MessageReplyTo } from '../../types';
+import { isArabicText } from '../../utils/textFormatters';
+
+interface QuotedMessageProps {
+  replyTo: MessageReplyTo;
+  /** Colors for a quote inside a dark (outbound) bubble */
+  inverted?: boolean;
+  /** Scroll to the parent; omitted when it can't be located */
+  onClick?: () => void;
+  className?: string;
+}
+
+const MEDIA_LABEL_KEYS = {
+  [MessageType.Image]: 'conversations.replies.media_image',
+  [MessageType.Audio]: 'conversations.replies.media_audio',
+  [MessageType.Video]: 'conversations.replies.media_video',
+  [MessageType.Document]: 'conversations.replies.media_document',
+} as const;
+
+export function QuotedMessage({ replyTo, inverted = false, onClick, className }: QuotedMessageProps) {
+  const { t } = useTranslation();
+
+  const senderLabel =
+    replyTo.sender_role === SenderRole.Customer
+      ? t('conversations.replies.sender_customer')
+      : replyTo.sender_role === SenderRole.AiAgent
+        ? t('conversations.replies.sender_ai')
+        : replyTo.sender_role === SenderRole.HumanAgent
+          ? t('conversations.replies.sender_team')
+          : t('conversations.replies.sender_unknown');
+
+  const mediaKey =
+    replyTo.message_type !== null && replyTo.message_type in MEDIA_LABEL_KEYS
+      ? MEDIA_LABEL_KEYS[replyTo.message_type as keyof typeof MEDIA_LABEL_KEYS]
+      : null;
+  const text = replyTo.message?.trim() || (mediaKey ? t(mediaKey) : t('conversations.replies.unavailable'));
+  const isRTL = isArabicText(text);
+
+  const content = (
+    <>
+      <span className={cn('block text-[11px] font-semibold', inverted ? 'text-white/80' : 'text-neutral-700')}>
+        {senderLabel}
+      </span>
+      <span
+        className={cn('block text-xs line-clamp-2 break-words', inverted ? 'text-white/70' : 'text-neutral-600')}
+        dir={isRTL ? 'rtl' : 'ltr'}
+      >
+        {text}
+      </span>
+    </>
+  );
+
+  const classes = cn(
+    'block w-full text-start rounded-lg border-s-[3px] px-2.5 py-1.5',
+    inverted ? 'bg-white/10 border-white/50' : 'bg-neutral-100 border-neutral-400',
+    className
+  );
+
+  if (!onClick) return <div className={classes}>{content}</div>;
+
+  return (
+    <button
+      type="button"
+      onClick={onClick}
+      className={cn(classes, inverted ? 'hover:bg-white/15' : 'hover:bg-neutral-200/70', 'transition-colors')}
+      title={t('conversations.replies.jump_to_original')}
+    >
+      {content}
+    </button>
+  );
+}
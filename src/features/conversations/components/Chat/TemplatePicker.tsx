@@ -12,22 +12,18 @@ import { motion, AnimatePresence } from 'framer-motion';
 import { cn } from '@/lib/utils';
 import { useWhatsAppTemplates, useSendTemplateInConversation } from '@/features/whatsapp/hooks/useWhatsAppTemplates';
 import type { MessageTemplate } from '@/features/whatsapp/types/whatsapp.types';
+import { extractTemplatePlaceholders } from '@/features/whatsapp/utils/templateSuggestions';
 
 interface TemplatePickerProps {
   isOpen: boolean;
   onClose: () => void;
   conversationId: string;
   connectionId: string;
-}
-
-function extractPlaceholders(template: MessageTemplate): string[] {
-  const bodyComponent = template.components?.find((c) => c.type === 'BODY');
-  const text = bodyComponent?.text || '';
-  const matches = text.match(/\{\{(\d+)\}\}/g);
-  if (!matches) return [];
-  const unique = [...new Set(matches.map((m) => m.replace(/[{}]/g, '')))];
-  unique.sort((a, b) => Number(a) - Number(b));
-  return unique;
+  /** Open straight on this template (picked from the composer's suggestions) */
+  initialTemplate?: MessageTemplate | null;
+  /** Pre-filled parameter values for `initialTemplate` */
+  initialParams?: Record<string, string>;
+  onSent?: () => void;
 }
 
 export default function TemplatePicker({
@@ -35,6 +31,9 @@ export default function TemplatePicker({
   onClose,
   conversationId,
   connectionId,
+  initialTemplate,
+  initialParams,
+  onSent,
 }: TemplatePickerProps) {
   const { t, i18n } = useTranslation();
   const isRTL = i18n.dir() === 'rtl';
@@ -50,16 +49,19 @@ export default function TemplatePicker({
     [templates]
   );
 
-  // Reset on close
+  // Reset on close; start on the suggested template when opened with one
   useEffect(() => {
     if (!isOpen) {
       setSelectedTemplate(null);
       setParamValues({});
+    } else if (initialTemplate) {
+      setSelectedTemplate(initialTemplate);
+      setParamValues(initialParams ?? {});
     }
-  }, [isOpen]);
+  }, [isOpen, initialTemplate, initialParams]);
 
   const placeholders = useMemo(
-    () => (selectedTemplate ? extractPlaceholders(selectedTemplate) : []),
+    () => (selectedTemplate ? extractTemplatePlaceholders(selectedTemplate) : []),
     [selectedTemplate]
   );
 
@@ -98,6 +100,7 @@ export default function TemplatePicker({
         onSuccess: (data) => {
           if (data.success) {
             toast.success(t('whatsapp.template_sent_in_chat', 'Template sent successfully'));
+            onSent?.();
             onClose();
           } else {
             toast.error(data.error || t('whatsapp.send_error', 'Failed to send template'));
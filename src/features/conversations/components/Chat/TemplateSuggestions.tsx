@@ -0,0 +1,101 @@
+/**
+ * Template Suggestions
+ * Shown above the composer while the agent types into a closed WhatsApp
+ * session: the approved templates closest to the draft, with parameters
+ * pre-filled from the conversation and lead. Picking one opens TemplatePicker.
+ */
+
+import { useDeferredValue, useMemo } from 'react';
+import { useTranslation } from 'react-i18next';
+import { LayoutTemplate, Loader2 } from 'lucide-react';
+import { cn } from '@/lib/utils';
+import { useWhatsAppTemplates } from '@/features/whatsapp/hooks/useWhatsAppTemplates';
+import { useSavedMessageContext } from '@/features/saved-messages/hooks/useSavedMessageResolver';
+import {
+  getTemplateBody,
+  prefillTemplateParameters,
+  suggestTemplatesForDraft,
+} from '@/features/whatsapp/utils/templateSuggestions';
+import type { MessageTemplate } from '@/features/whatsapp/types/whatsapp.types';
+
+interface TemplateSuggestionsProps {
+  connectionId: string;
+  conversationId: string;
+  agentId?: string;
+  draft: string;
+  onSelect: (template: MessageTemplate, params: Record<string, string>) => void;
+  onBrowseAll?: () => void;
+}
+
+export function TemplateSuggestions({
+  connectionId,
+  conversationId,
+  agentId,
+  draft,
+  onSelect,
+  onBrowseAll,
+}: TemplateSuggestionsProps) {
+  const { t } = useTranslation();
+  const { data: templates, isLoading } = useWhatsAppTemplates(connectionId);
+  const { getContext, language } = useSavedMessageContext(conversationId, agentId);
+  const deferredDraft = useDeferredValue(draft);
+
+  const suggestions = useMemo(
+    () => suggestTemplatesForDraft(templates ?? [], deferredDraft, language),
+    [templates, deferredDraft, language]
+  );
+
+  const handleSelect = (template: MessageTemplate) => {
+    onSelect(template, prefillTemplateParameters(template, getContext(), draft));
+  };
+
+  return (
+    <div className="mb-2 rounded-xl border border-amber-200 bg-amber-50/60 p-2">
+      <div className="flex items-center justify-between gap-2 px-1 pb-1.5">
+        <span className="flex items-center gap-1.5 text-xs font-medium text-amber-800">
+          <LayoutTemplate className="w-3.5 h-3.5" />
+          {t('whatsapp.suggested_templates')}
+        </span>
+        {onBrowseAll && (
+          <button
+            type="button"
+            onClick={onBrowseAll}
+            className="text-xs text-amber-700 hover:text-amber-900 hover:underline"
+          >
+            {t('whatsapp.browse_templates')}
+          </button>
+        )}
+      </div>
+
+      {isLoading ? (
+        <div className="flex justify-center py-2">
+          <Loader2 className="w-4 h-4 animate-spin text-amber-600" />
+        </div>
+      ) : suggestions.length === 0 ? (
+        <p className="px-1 pb-1 text-xs text-amber-700">{t('whatsapp.no_matching_templates')}</p>
+      ) : (
+        <div className="flex flex-col gap-1">
+          {suggestions.map(({ template }) => (
+            <button
+              key={template.id}
+              type="button"
+              onClick={() => handleSelect(template)}
+              className={cn(
+                'w-full text-start rounded-lg bg-white px-3 py-2',
+                'border border-amber-100 hover:border-amber-300 transition-colors'
+              )}
+            >
+              <span className="flex items-center gap-2 text-sm font-medium text-neutral-800">
+                {template.name.replace(/_/g, ' ')}
+                <span className="text-[10px] font-normal uppercase text-neutral-400">{template.language}</span>
+              </span>
+              <span className="block text-xs text-neutral-500 line-clamp-1 mt-0.5" dir="auto">
+                {getTemplateBody(template)}
+              </span>
+            </button>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,54 @@
+/**
+ * Transcript Export Modal
+ * Export the open conversation's full history (PDF via print, HTML, JSON or
+ * plain text) in the user's language and timezone.
+ */
+
+import { useState } from 'react';
+import { useTranslation } from 'react-i18next';
+import { BaseModal } from '@/components/ui/BaseModal';
+import { Button } from '@/components/ui/Button';
+import { TranscriptFormatPicker } from '@/features/exports/components';
+import { useTranscriptExport } from '../../hooks/useTranscriptExport';
+import type { Conversation, TranscriptFormat } from '../../types';
+
+interface TranscriptExportModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  conversation: Conversation;
+}
+
+export function TranscriptExportModal({ isOpen, onClose, conversation }: TranscriptExportModalProps) {
+  const { t } = useTranslation();
+  const [format, setFormat] = useState<TranscriptFormat>('pdf');
+  const exportMutation = useTranscriptExport(conversation);
+
+  const handleExport = () => {
+    exportMutation.mutate(format, { onSuccess: onClose });
+  };
+
+  return (
+    <BaseModal
+      isOpen={isOpen}
+      onClose={onClose}
+      title={t('transcript_export.title')}
+      subtitle={t('transcript_export.subtitle', { name: conversation.customer_name })}
+      maxWidth="md"
+      isLoading={exportMutation.isPending}
+      closable={!exportMutation.isPending}
+    >
+      <div className="space-y-6">
+        <TranscriptFormatPicker value={format} onChange={setFormat} disabled={exportMutation.isPending} />
+
+        <div className="flex justify-end gap-3 pt-4">
+          <Button variant="secondary" size="sm" onClick={onClose} disabled={exportMutation.isPending}>
+            {t('common.cancel')}
+          </Button>
+          <Button variant="primary" size="sm" onClick={handleExport} isLoading={exportMutation.isPending}>
+            {format === 'pdf' ? t('transcript_export.print') : t('transcript_export.download')}
+          </Button>
+        </div>
+      </div>
+    </BaseModal>
+  );
+}
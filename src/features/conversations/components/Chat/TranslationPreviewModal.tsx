@@ -0,0 +1,91 @@
+/**
+ * Translation Preview Modal
+ * Shown before a reply goes out in the customer's language: the teammate's
+ * original next to the translation, which they can correct before sending.
+ */
+
+import { useEffect, useState } from 'react';
+import { useTranslation } from 'react-i18next';
+import { BaseModal } from '@/components/ui/BaseModal';
+import { ModalActions } from '@/components/ui/ModalActions';
+import type { TranslationLanguage } from '../../types';
+
+interface TranslationPreviewModalProps {
+  isOpen: boolean;
+  original: string;
+  translated: string;
+  targetLanguage: TranslationLanguage;
+  onSendTranslation: (text: string) => void;
+  onSendOriginal: () => void;
+  onClose: () => void;
+}
+
+const textDirection = (language: TranslationLanguage) => (language === 'ar' ? 'rtl' : 'ltr');
+
+export function TranslationPreviewModal({
+  isOpen,
+  original,
+  translated,
+  targetLanguage,
+  onSendTranslation,
+  onSendOriginal,
+  onClose,
+}: TranslationPreviewModalProps) {
+  const { t } = useTranslation();
+  const [edited, setEdited] = useState(translated);
+
+  // A new translation replaces any edits to the previous one
+  useEffect(() => {
+    setEdited(translated);
+  }, [translated]);
+
+  return (
+    <BaseModal
+      isOpen={isOpen}
+      onClose={onClose}
+      title={t('translation.preview_title')}
+      subtitle={t('translation.preview_subtitle')}
+      maxWidth="2xl"
+    >
+      <div className="space-y-5">
+        <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+          <div>
+            <p className="mb-1 text-xs font-medium text-neutral-500">{t('translation.original')}</p>
+            <div
+              className="min-h-[140px] max-h-[280px] overflow-y-auto rounded-lg border border-neutral-200 bg-neutral-50 p-3 text-sm text-neutral-700 whitespace-pre-wrap"
+              dir="auto"
+            >
+              {original}
+            </div>
+          </div>
+          <div>
+            <label htmlFor="translation-preview-text" className="mb-1 block text-xs font-medium text-neutral-500">
+              {t('translation.translated')}
+            </label>
+            <textarea
+              id="translation-preview-text"
+              value={edited}
+              onChange={(e) => setEdited(e.target.value)}
+              dir={textDirection(targetLanguage)}
+              className="min-h-[140px] max-h-[280px] w-full resize-y rounded-lg border border-neutral-300 p-3 text-sm text-neutral-900 focus:outline-none focus:ring-2 focus:ring-neutral-900/10"
+            />
+          </div>
+        </div>
+
+        <ModalActions
+          primary={{
+            label: t('translation.send_translation'),
+            onClick: () => onSendTranslation(edited.trim()),
+            disabled: !edited.trim(),
+          }}
+          secondary={{
+            label: t('translation.send_original'),
+            onClick: onSendOriginal,
+            variant: 'outline',
+          }}
+          layout="horizontal"
+        />
+      </div>
+    </BaseModal>
+  );
+}
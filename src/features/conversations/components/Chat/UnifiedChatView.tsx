@@ -4,14 +4,22 @@
  * Used by both TestChat (Studio) and ChatPanel (Conversations)
  */
 
-import { useRef, useEffect, useCallback } from 'react';
+import { useRef, useEffect, useCallback, useMemo, useState } from 'react';
 import { useTranslation } from 'react-i18next';
-import { Send } from 'lucide-react';
+import { ArrowDown, Loader2, Lock, Send } from 'lucide-react';
 import { motion, AnimatePresence } from 'framer-motion';
 import { cn } from '@/lib/utils';
-import type { ChatMessage } from '../../types/conversation.types';
+import type { ChatMessage, SendMessageOptions } from '../../types/conversation.types';
+import type { ConversationNote } from '../../types/conversationNote.types';
+import type { OutboxFile } from '../../types/outbox.types';
+import type { MediaPlatform } from '../../constants/mediaLimits';
+import type { MessageTemplate } from '@/features/whatsapp/types/whatsapp.types';
+import type { TranslationLanguage } from '../../types';
 import { isCustomerMessage } from '../../types';
+import { getCustomerLanguage, usesArabicNumerals } from '../../utils/translation';
 import ChatMessageBubble from './ChatMessageBubble';
+import InternalNoteBubble from './InternalNoteBubble';
+import { useComposerStore } from '../../stores/composerStore';
 import MessageComposer from './MessageComposer';
 import DateSeparator from './DateSeparator';
 import { ChatMessagesSkeleton } from '../shared/LoadingSkeleton';
@@ -21,8 +29,17 @@ export interface UnifiedChatViewProps {
   messages: ChatMessage[];
   isLoading: boolean;
   isAITyping?: boolean;
-  onSendMessage: (message: string, attachments?: string) => Promise<void>;
+  onSendMessage: (message: string, attachments?: string, options?: SendMessageOptions) => Promise<void>;
   onRetryMessage?: (messageId: string) => Promise<void>;
+  /** Drop a failed message from the offline outbox */
+  onDiscardMessage?: (messageId: string) => Promise<void>;
+  /** Queue a message whose attachments could not be uploaded (offline) */
+  onQueueMessage?: (
+    message: string,
+    files: OutboxFile[],
+    attachments?: string,
+    options?: SendMessageOptions
+  ) => Promise<void>;
 
   // Customization slots
   header?: React.ReactNode;
@@ -33,6 +50,17 @@ export interface UnifiedChatViewProps {
   enablePagination?: boolean;
   onLoadMore?: () => void;
   hasMore?: boolean;
+  /** After a search jump: newer messages exist below the loaded page */
+  hasNewer?: boolean;
+  onLoadNewer?: () => void;
+  onJumpToLatest?: () => void;
+  /** Scroll to and briefly highlight this message once it is rendered */
+  focusMessageId?: string | null;
+  onFocusHandled?: () => void;
+  /** Quoted parent that isn't in the loaded page — load the thread around it */
+  onJumpToMessage?: (messageId: string) => void;
+  /** Show "Reply" on messages and send the composer text as a reply */
+  enableReplies?: boolean;
 
   // Message Composer props
   enableAIToggle?: boolean;
@@ -42,16 +70,38 @@ export interface UnifiedChatViewProps {
   conversationId: string;
   agentId?: string;
   isWhatsApp?: boolean;
+  /** Channel replies go out on — attachment limits and captions (default: widget) */
+  mediaPlatform?: MediaPlatform;
   onTemplateClick?: () => void;
+  /** WhatsApp 24-hour window and template fallback — see MessageComposer */
+  lastCustomerMessageAt?: string | null;
+  whatsAppConnectionId?: string | null;
+  onTemplateSuggestion?: (template: MessageTemplate, params: Record<string, string>) => void;
   hideComposer?: boolean;
   composerFooter?: React.ReactNode;
+  /** Rendered just above the reply composer (e.g. the copilot panel) */
+  composerHeader?: React.ReactNode;
   /** Forwarded to MessageComposer to render the handoff chip in the toggle slot. */
   aiHandoffUntil?: string | null;
 
+  // Translation
+  /** Teammate's language — enables translating messages and replies */
+  translateTo?: TranslationLanguage | null;
+  /** Show messages in another language translated by default */
+  autoTranslate?: boolean;
+
+  // Internal notes (team-only, interleaved with messages by timestamp)
+  notes?: ConversationNote[];
+  /** Enables the Reply / Internal note switch above the composer */
+  noteComposer?: React.ReactNode;
+
   // Styling
   className?: string;
 }
 
+/** How long a message opened from search stays highlighted */
+const FOCUS_HIGHLIGHT_MS = 2500;
+
 /**
  * Default empty state when no messages
  */
@@ -103,6 +153,47 @@ function isSameDay(date1: Date | string, date2: Date | string): boolean {
   );
 }
 
+type TimelineItem =
+  | { kind: 'message'; id: string; created_at: string; message: ChatMessage }
+  | { kind: 'note'; id: string; created_at: string; note: ConversationNote };
+
+/**
+ * Interleave notes into the message list by timestamp. Message order is kept
+ * as-is (optimistic sends may be out of timestamp order); each note is placed
+ * before the first message created after it. While earlier pages are still
+ * unloaded, notes older than the oldest loaded message are held back so they
+ * don't pile up at the top.
+ */
+function buildTimeline(messages: ChatMessage[], notes: ConversationNote[], hasMore: boolean): TimelineItem[] {
+  const messageItems: TimelineItem[] = messages.map((message) => ({
+    kind: 'message',
+    id: message.id,
+    created_at: message.created_at,
+    message,
+  }));
+  if (notes.length === 0) return messageItems;
+
+  const oldestLoaded = messages[0] ? new Date(messages[0].created_at).getTime() : -Infinity;
+  const pendingNotes = [...notes]
+    .filter((note) => !hasMore || new Date(note.created_at).getTime() >= oldestLoaded)
+    .sort((a, b) => new Date(a.created_at).getTime() - new Date(b.created_at).getTime());
+
+  const timeline: TimelineItem[] = [];
+  let noteIndex = 0;
+  for (const item of messageItems) {
+    const messageTime = new Date(item.created_at).getTime();
+    while (noteIndex < pendingNotes.length && new Date(pendingNotes[noteIndex].created_at).getTime() <= messageTime) {
+      const note = pendingNotes[noteIndex++];
+      timeline.push({ kind: 'note', id: note.id, created_at: note.created_at, note });
+    }
+    timeline.push(item);
+  }
+  for (const note of pendingNotes.slice(noteIndex)) {
+    timeline.push({ kind: 'note', id: note.id, created_at: note.created_at, note });
+  }
+  return timeline;
+}
+
 /**
  * Unified Chat View Component
  */
@@ -112,12 +203,21 @@ export default function UnifiedChatView({
   isAITyping = false,
   onSendMessage,
   onRetryMessage,
+  onDiscardMessage,
+  onQueueMessage,
   header,
   footer,
   emptyStateCustom,
   enablePagination = false,
   onLoadMore,
   hasMore,
+  hasNewer = false,
+  onLoadNewer,
+  onJumpToLatest,
+  focusMessageId,
+  onFocusHandled,
+  onJumpToMessage,
+  enableReplies = false,
   enableAIToggle = false,
   isAIMode = true,
   onModeToggle,
@@ -125,12 +225,22 @@ export default function UnifiedChatView({
   conversationId,
   agentId,
   isWhatsApp,
+  mediaPlatform,
   onTemplateClick,
+  lastCustomerMessageAt,
+  whatsAppConnectionId,
+  onTemplateSuggestion,
   hideComposer,
   composerFooter,
+  composerHeader,
   aiHandoffUntil,
+  translateTo = null,
+  autoTranslate = false,
+  notes,
+  noteComposer,
   className,
 }: UnifiedChatViewProps) {
+  const { t } = useTranslation();
   const messagesEndRef = useRef<HTMLDivElement>(null);
   const messagesContainerRef = useRef<HTMLDivElement>(null);
 
@@ -149,34 +259,122 @@ export default function UnifiedChatView({
     }
   }, [messages]);
 
+  const timeline = useMemo(
+    () => buildTimeline(messages, notes ?? [], !!hasMore),
+    [messages, notes, hasMore]
+  );
+
+  // Replies can go out in the customer's language once they've written
+  const { customerLanguage, customerUsesArabicNumerals } = useMemo(
+    () =>
+      translateTo
+        ? { customerLanguage: getCustomerLanguage(messages), customerUsesArabicNumerals: usesArabicNumerals(messages) }
+        : { customerLanguage: null, customerUsesArabicNumerals: false },
+    [messages, translateTo]
+  );
+
+  // Reply vs internal note — resets to reply on every conversation switch
+  const [composerMode, setComposerMode] = useState<'reply' | 'note'>('reply');
+  const isNoteMode = !!noteComposer && composerMode === 'note';
+
+  // Reply shortcut / palette inserts target the reply composer
+  const hasComposerRequest = useComposerStore(
+    (state) =>
+      state.pendingFocus ||
+      state.pendingInsert !== null ||
+      state.pendingSavedMessage !== null ||
+      state.pendingReplace !== null
+  );
+  useEffect(() => {
+    if (hasComposerRequest) setComposerMode('reply');
+  }, [hasComposerRequest]);
+
+  // Message the next composer send replies to
+  const [replyTarget, setReplyTarget] = useState<ChatMessage | null>(null);
+
+  const handleReply = useCallback((message: ChatMessage) => {
+    setReplyTarget(message);
+    setComposerMode('reply');
+    useComposerStore.getState().requestFocus();
+  }, []);
+
+  const handleCancelReply = useCallback(() => setReplyTarget(null), []);
+
   // Reset when conversation changes
   useEffect(() => {
     seenMessageIds.current.clear();
     isInitialLoad.current = true;
     lastMessageIdRef.current = null;
+    setComposerMode('reply');
+    setReplyTarget(null);
   }, [conversationId]);
 
   // Track the last message ID to detect appended messages vs pagination prepends
   const lastMessageIdRef = useRef<string | null>(null);
 
+  // Search jump: scroll the target message into view and highlight it briefly.
+  // Read through a ref so the mount-time anchor callback sees the latest target.
+  const [highlightedMessageId, setHighlightedMessageId] = useState<string | null>(null);
+  const focusStateRef = useRef({ focusMessageId, onFocusHandled, hasNewer });
+  focusStateRef.current = { focusMessageId, onFocusHandled, hasNewer };
+
+  const tryFocusMessage = useCallback((): boolean => {
+    const { focusMessageId: targetId, onFocusHandled: onHandled } = focusStateRef.current;
+    if (!targetId) return false;
+    const node = messagesContainerRef.current?.querySelector(`[data-message-id="${CSS.escape(targetId)}"]`);
+    if (!node) return false;
+    node.scrollIntoView({ behavior: 'instant' as ScrollBehavior, block: 'center' });
+    setHighlightedMessageId(targetId);
+    onHandled?.();
+    return true;
+  }, []);
+
+  useEffect(() => {
+    tryFocusMessage();
+  }, [focusMessageId, timeline, tryFocusMessage]);
+
+  // Quoted parent click: scroll to it when loaded, otherwise load the thread around it
+  const handleJumpToMessage = useCallback(
+    (messageId: string) => {
+      const node = messagesContainerRef.current?.querySelector(`[data-message-id="${CSS.escape(messageId)}"]`);
+      if (node) {
+        node.scrollIntoView({ behavior: 'smooth', block: 'center' });
+        setHighlightedMessageId(messageId);
+        return;
+      }
+      onJumpToMessage?.(messageId);
+    },
+    [onJumpToMessage]
+  );
+
+  useEffect(() => {
+    if (!highlightedMessageId) return;
+    const timer = setTimeout(() => setHighlightedMessageId(null), FOCUS_HIGHLIGHT_MS);
+    return () => clearTimeout(timer);
+  }, [highlightedMessageId]);
+
   // Callback ref: scrolls to bottom the instant the anchor element mounts in the DOM.
   // This fires after AnimatePresence mounts the chat view, avoiding all timing issues.
+  // A pending search jump (or a page that isn't the latest) scrolls to the target instead.
   const scrollAnchorRef = useCallback((node: HTMLDivElement | null) => {
     messagesEndRef.current = node;
     if (node) {
+      lastMessageIdRef.current = timeline[timeline.length - 1]?.id ?? null;
+      if (tryFocusMessage() || focusStateRef.current.hasNewer) return;
       node.scrollIntoView({ behavior: 'instant' as ScrollBehavior });
-      lastMessageIdRef.current = messages[messages.length - 1]?.id ?? null;
     }
   }, [conversationId]); // eslint-disable-line react-hooks/exhaustive-deps
 
-  // Scroll to bottom when new messages are appended (not pagination prepends)
+  // Scroll to bottom when new messages or notes are appended (not pagination prepends,
+  // and not while paging forward through older history after a search jump)
   useEffect(() => {
-    if (messages.length === 0) return;
-    const currentLastId = messages[messages.length - 1]?.id;
+    if (timeline.length === 0) return;
+    const currentLastId = timeline[timeline.length - 1]?.id;
     if (currentLastId === lastMessageIdRef.current) return;
-    messagesEndRef.current?.scrollIntoView({ behavior: 'instant' as ScrollBehavior });
     lastMessageIdRef.current = currentLastId ?? null;
-  }, [messages]);
+    if (hasNewer || focusStateRef.current.focusMessageId) return;
+    messagesEndRef.current?.scrollIntoView({ behavior: 'instant' as ScrollBehavior });
+  }, [timeline, hasNewer]);
 
   // Handle "load more" when scrolling to top (pagination)
   const isLoadingMoreRef = useRef(false);
@@ -204,6 +402,23 @@ export default function UnifiedChatView({
     return () => container.removeEventListener('scroll', handleScroll);
   }, [enablePagination, onLoadMore, hasMore, handleScrollToTop]);
 
+  // After a search jump, load newer pages when scrolling near the bottom
+  useEffect(() => {
+    if (!hasNewer || !onLoadNewer) return;
+
+    const container = messagesContainerRef.current;
+    if (!container) return;
+
+    const handleScroll = () => {
+      if (container.scrollHeight - container.scrollTop - container.clientHeight < 50) {
+        onLoadNewer();
+      }
+    };
+
+    container.addEventListener('scroll', handleScroll);
+    return () => container.removeEventListener('scroll', handleScroll);
+  }, [hasNewer, onLoadNewer, isLoading]);
+
   return (
     <AnimatePresence mode="wait">
       {isLoading ? (
@@ -240,15 +455,26 @@ export default function UnifiedChatView({
         )}
 
         {/* Empty state */}
-        {messages.length === 0 ? (
+        {timeline.length === 0 ? (
           emptyStateCustom || <DefaultEmptyState />
         ) : (
           <>
-            {/* Message list with date separators */}
-            {messages.map((message, index) => {
+            {/* Message + note timeline with date separators */}
+            {timeline.map((item, index) => {
               const showDateSeparator =
                 index === 0 ||
-                !isSameDay(message.created_at, messages[index - 1].created_at);
+                !isSameDay(item.created_at, timeline[index - 1].created_at);
+
+              if (item.kind === 'note') {
+                return (
+                  <div key={`note-${item.id}`}>
+                    {showDateSeparator && <DateSeparator date={item.created_at} />}
+                    <InternalNoteBubble note={item.note} />
+                  </div>
+                );
+              }
+
+              const { message } = item;
               const isUser = isCustomerMessage(message);
               const trackingKey = message.correlation_id || message.id;
               const animate = !isInitialLoad.current && !seenMessageIds.current.has(trackingKey);
@@ -256,9 +482,14 @@ export default function UnifiedChatView({
               return (
                 <motion.div
                   key={message.id}
+                  data-message-id={message.id}
                   initial={animate ? { opacity: 0, y: 8, x: isUser ? 12 : -12 } : false}
                   animate={{ opacity: 1, y: 0, x: 0 }}
                   transition={animate ? { duration: 0.25, ease: [0.25, 0.46, 0.45, 0.94] } : { duration: 0 }}
+                  className={cn(
+                    'rounded-xl transition-colors duration-700',
+                    highlightedMessageId === message.id && 'bg-amber-100/70'
+                  )}
                 >
                   {/* Date separator */}
                   {showDateSeparator && <DateSeparator date={message.created_at} />}
@@ -267,10 +498,18 @@ export default function UnifiedChatView({
                   <ChatMessageBubble
                     message={message}
                     onRetry={
-                      message.sendStatus === 'error' && onRetryMessage
+                      (message.sendStatus === 'error' || message.sendStatus === 'queued') && onRetryMessage
                         ? () => onRetryMessage(message.id)
                         : undefined
                     }
+                    onDiscard={
+                      // queuedFiles is only set on outbox entries
+                      message.queuedFiles && onDiscardMessage ? () => onDiscardMessage(message.id) : undefined
+                    }
+                    onReply={enableReplies && !hideComposer ? handleReply : undefined}
+                    onJumpToMessage={handleJumpToMessage}
+                    translateTo={translateTo}
+                    autoTranslate={autoTranslate}
                   />
                 </motion.div>
               );
@@ -310,12 +549,33 @@ export default function UnifiedChatView({
               )}
             </AnimatePresence>
 
+            {/* Newer history still to load (after a search jump) */}
+            {hasNewer && (
+              <div className="flex justify-center py-2">
+                <Loader2 className="w-4 h-4 animate-spin text-neutral-400" />
+              </div>
+            )}
+
             {/* Scroll anchor */}
             <div ref={scrollAnchorRef} />
           </>
         )}
       </div>
 
+      {/* Back to the live end of the thread */}
+      {hasNewer && onJumpToLatest && (
+        <div className="absolute bottom-28 inset-x-0 flex justify-center z-10 pointer-events-none">
+          <button
+            type="button"
+            onClick={onJumpToLatest}
+            className="pointer-events-auto flex items-center gap-1.5 px-3 py-1.5 rounded-full bg-neutral-900 text-white text-xs font-medium shadow-lg hover:bg-neutral-800"
+          >
+            <ArrowDown className="w-3.5 h-3.5" />
+            {t('conversations.message_search.jump_to_latest')}
+          </button>
+        </div>
+      )}
+
       {/* Subtle fade above composer — softens the scroll edge */}
       <div
         className="flex-shrink-0 pointer-events-none h-5 -mt-5 relative z-[1]"
@@ -323,8 +583,33 @@ export default function UnifiedChatView({
         aria-hidden="true"
       />
 
-      {/* Message Composer — hidden when WhatsApp 24h window expired */}
-      {!hideComposer && (
+      {/* Reply / Internal note switch — notes stay available when the reply composer is hidden */}
+      {noteComposer && (
+        <div className="flex-shrink-0 flex items-center gap-1 px-3 sm:px-4 pt-2" role="tablist">
+          <ComposerTab active={!isNoteMode} onClick={() => setComposerMode('reply')}>
+            {t('conversation_notes.tab_reply')}
+          </ComposerTab>
+          <ComposerTab active={isNoteMode} onClick={() => setComposerMode('note')} variant="note">
+            <Lock className="w-3 h-3" aria-hidden />
+            {t('conversation_notes.tab_note')}
+          </ComposerTab>
+        </div>
+      )}
+
+      {isNoteMode && (
+        <div
+          className="flex-shrink-0 px-3 sm:px-4"
+          style={{
+            paddingTop: '8px',
+            paddingBottom: 'max(12px, env(safe-area-inset-bottom))'
+          }}
+        >
+          {noteComposer}
+        </div>
+      )}
+
+      {/* Message Composer — hidden when the caller says so */}
+      {!hideComposer && !isNoteMode && (
         <div
           className="flex-shrink-0 px-3 sm:px-4"
           style={{
@@ -332,17 +617,27 @@ export default function UnifiedChatView({
             paddingBottom: 'max(12px, env(safe-area-inset-bottom))'
           }}
         >
+          {composerHeader}
           <MessageComposer
             onSendMessage={onSendMessage}
+            onQueueMessage={onQueueMessage}
             isSending={false}
             isAIMode={isAIMode}
             onModeToggle={enableAIToggle ? onModeToggle : undefined}
             placeholder={placeholder}
             isWhatsApp={isWhatsApp}
+            mediaPlatform={mediaPlatform}
             onTemplateClick={onTemplateClick}
+            lastCustomerMessageAt={lastCustomerMessageAt}
+            whatsAppConnectionId={whatsAppConnectionId}
+            onTemplateSuggestion={onTemplateSuggestion}
             conversationId={conversationId}
             agentId={agentId}
             aiHandoffUntil={aiHandoffUntil}
+            replyTo={enableReplies ? replyTarget : null}
+            onCancelReply={handleCancelReply}
+            customerLanguage={customerLanguage}
+            customerUsesArabicNumerals={customerUsesArabicNumerals}
           />
           {composerFooter}
         </div>
@@ -355,3 +650,33 @@ export default function UnifiedChatView({
     </AnimatePresence>
   );
 }
+
+// --- Helper Components ---
+
+interface ComposerTabProps {
+  active: boolean;
+  onClick: () => void;
+  variant?: 'reply' | 'note';
+  children: React.ReactNode;
+}
+
+function ComposerTab({ active, onClick, variant = 'reply', children }: ComposerTabProps) {
+  return (
+    <button
+      type="button"
+      role="tab"
+      aria-selected={active}
+      onClick={onClick}
+      className={cn(
+        'inline-flex items-center gap-1 px-2.5 py-1 rounded-md text-xs font-medium transition-colors',
+        active
+          ? variant === 'note'
+            ? 'bg-amber-100 text-amber-900'
+            : 'bg-neutral-100 text-neutral-900'
+          : 'text-neutral-500 hover:text-neutral-900 hover:bg-neutral-50'
+      )}
+    >
+      {children}
+    </button>
+  );
+}
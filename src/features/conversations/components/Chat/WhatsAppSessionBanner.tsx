@@ -1,44 +1,14 @@
 /**
  * WhatsApp Session Banner
- * - Expired window: replaces the composer with a "Send Template" CTA
- * - Active window: subtle green indicator above the composer
+ * - Expired window: notice above the composer input with a "Send Template" CTA
+ * - Active window: countdown under the composer (amber in the last hour)
  */
 
-import { useMemo, useState } from 'react';
+import { useState } from 'react';
 import { useTranslation } from 'react-i18next';
 import { Clock, AlertTriangle, LayoutTemplate, X } from 'lucide-react';
 import { cn } from '@/lib/utils';
-import type { ChatMessage } from '../../types/conversation.types';
-
-const WHATSAPP_WINDOW_MS = 24 * 60 * 60 * 1000; // 24 hours
-
-/**
- * Check if the 24-hour WhatsApp messaging window has expired.
- * Exported so ChatPanel can use it to hide the composer.
- */
-export function getWhatsAppWindowStatus(messages: ChatMessage[]) {
-  // Find the most recent customer message
-  let lastCustomerTime: Date | null = null;
-  for (let i = messages.length - 1; i >= 0; i--) {
-    const msg = messages[i];
-    if (msg.sender_role === 1 || msg.sender_role === 'customer') {
-      lastCustomerTime = new Date(msg.created_at);
-      break;
-    }
-  }
-
-  if (!lastCustomerTime) {
-    return { expired: true, remaining: 0 };
-  }
-
-  const elapsed = Date.now() - lastCustomerTime.getTime();
-  const remaining = WHATSAPP_WINDOW_MS - elapsed;
-
-  return {
-    expired: remaining <= 0,
-    remaining: Math.max(0, remaining),
-  };
-}
+import { WHATSAPP_WINDOW_WARNING_MS } from '../../utils/whatsappSession';
 
 function formatTimeRemaining(ms: number, lang: string): string {
   const hours = Math.floor(ms / (60 * 60 * 1000));
@@ -57,45 +27,39 @@ function formatTimeRemaining(ms: number, lang: string): string {
   return `${fmt(minutes)}m`;
 }
 
-// ── Expired Banner (replaces composer) ──────────────────────────
+// ── Expired Banner (above the composer input) ───────────────────
 
 interface ExpiredBannerProps {
-  onSendTemplate: () => void;
+  onSendTemplate?: () => void;
 }
 
 export function WhatsAppExpiredBanner({ onSendTemplate }: ExpiredBannerProps) {
   const { t } = useTranslation();
 
   return (
-    <div
-      className="flex-shrink-0 px-3 sm:px-4"
-      style={{
-        paddingTop: '12px',
-        paddingBottom: 'max(12px, env(safe-area-inset-bottom))',
-      }}
-    >
-      <div className="px-4 py-3 rounded-2xl bg-amber-50 border border-amber-200 flex items-center gap-3">
-        <AlertTriangle className="w-5 h-5 text-amber-600 flex-shrink-0" />
-        <p className="text-sm text-amber-800 flex-1 text-start">
-          {t('whatsapp.session_expired')}
-        </p>
+    <div className="mb-2 px-3 py-2.5 rounded-xl bg-amber-50 border border-amber-200 flex items-center gap-3">
+      <AlertTriangle className="w-4 h-4 text-amber-600 flex-shrink-0" />
+      <p className="text-xs text-amber-800 flex-1 text-start">
+        {t('whatsapp.session_expired_type_hint')}
+      </p>
+      {onSendTemplate && (
         <button
           onClick={onSendTemplate}
           className={cn(
-            'flex items-center gap-2 px-4 py-2 rounded-xl text-sm font-medium',
+            'flex items-center gap-1.5 px-3 py-1.5 rounded-lg text-xs font-medium',
             'bg-amber-600 text-white hover:bg-amber-700 transition-colors',
             'flex-shrink-0'
           )}
         >
-          <LayoutTemplate className="w-4 h-4" />
+          <LayoutTemplate className="w-3.5 h-3.5" />
           {t('whatsapp.send_template_btn')}
         </button>
-      </div>
+      )}
     </div>
   );
 }
 
-// ── Active Banner (above composer) ──────────────────────────────
+// ── Active Banner (under the composer) ──────────────────────────
 
 interface ActiveBannerProps {
   remainingMs: number;
@@ -105,6 +69,7 @@ export function WhatsAppActiveBanner({ remainingMs }: ActiveBannerProps) {
   const { t, i18n } = useTranslation();
   const [showInfo, setShowInfo] = useState(false);
   const lang = i18n.language;
+  const isClosingSoon = remainingMs < WHATSAPP_WINDOW_WARNING_MS;
 
   return (
     <>
@@ -112,8 +77,8 @@ export function WhatsAppActiveBanner({ remainingMs }: ActiveBannerProps) {
         onClick={() => setShowInfo(true)}
         className="flex items-center justify-center gap-1.5 mt-1 w-full transition-colors"
       >
-        <Clock className="w-3 h-3 text-brand-mojeeb" />
-        <span className="text-[11px] text-brand-mojeeb">
+        <Clock className={cn('w-3 h-3', isClosingSoon ? 'text-amber-600' : 'text-brand-mojeeb')} />
+        <span className={cn('text-[11px]', isClosingSoon ? 'text-amber-700 font-medium' : 'text-brand-mojeeb')}>
           {t('whatsapp.session_active', {
             time: formatTimeRemaining(remainingMs, lang),
           })}
@@ -0,0 +1,109 @@
+/**
+ * Contact Merge Modal
+ * Pick another conversation of the same agent whose customer is really this
+ * contact; its identities (and conversations) are folded into this contact.
+ */
+
+import { useEffect, useState } from 'react';
+import { useTranslation } from 'react-i18next';
+import { Loader2, Search } from 'lucide-react';
+import { BaseModal } from '@/components/ui/BaseModal';
+import { Avatar } from '@/components/ui/Avatar';
+import { useInfiniteConversations } from '../../hooks/useInfiniteConversations';
+import { useMergeContact } from '../../hooks/useContactProfile';
+import type { ContactProfile } from '../../types';
+import { formatSourceLabel } from '../../utils/textFormatters';
+
+interface ContactMergeModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  conversationId: string;
+  agentId: string;
+  contact: ContactProfile;
+}
+
+const DEBOUNCE_MS = 300;
+
+export function ContactMergeModal({ isOpen, onClose, conversationId, agentId, contact }: ContactMergeModalProps) {
+  const { t } = useTranslation();
+  const [search, setSearch] = useState('');
+  const [debouncedSearch, setDebouncedSearch] = useState('');
+  const mergeMutation = useMergeContact(conversationId, contact.id);
+
+  useEffect(() => {
+    const timer = setTimeout(() => setDebouncedSearch(search.trim()), DEBOUNCE_MS);
+    return () => clearTimeout(timer);
+  }, [search]);
+
+  const { conversations, isLoading } = useInfiniteConversations({
+    agentId,
+    searchTerm: debouncedSearch || undefined,
+  });
+
+  // Conversations already in this contact can't be merged in again
+  const ownIds = new Set(contact.conversations.map((c) => c.id));
+  const candidates = conversations.filter((c) => !ownIds.has(c.id) && c.id !== conversationId);
+
+  const handleMerge = (otherConversationId: string) => {
+    mergeMutation.mutate(otherConversationId, {
+      onSuccess: () => {
+        setSearch('');
+        onClose();
+      },
+    });
+  };
+
+  return (
+    <BaseModal
+      isOpen={isOpen}
+      onClose={onClose}
+      title={t('contact_profile.merge_title')}
+      subtitle={t('contact_profile.merge_subtitle', { name: contact.display_name })}
+      maxWidth="md"
+      isLoading={mergeMutation.isPending}
+      closable={!mergeMutation.isPending}
+    >
+      <div className="space-y-3">
+        <div className="relative">
+          <Search className="absolute start-2.5 top-1/2 -translate-y-1/2 w-4 h-4 text-neutral-400" />
+          <input
+            type="text"
+            autoFocus
+            value={search}
+            onChange={(e) => setSearch(e.target.value)}
+            placeholder={t('contact_profile.merge_search_placeholder')}
+            className="w-full ps-8 pe-3 py-2 text-sm bg-white border border-neutral-200 rounded-lg focus:outline-none focus:ring-1 focus:ring-brand-mojeeb focus:border-brand-mojeeb placeholder:text-neutral-400"
+          />
+        </div>
+
+        <div className="max-h-80 overflow-y-auto -mx-1">
+          {isLoading ? (
+            <div className="flex justify-center py-6">
+              <Loader2 className="w-5 h-5 animate-spin text-neutral-400" />
+            </div>
+          ) : candidates.length === 0 ? (
+            <p className="text-sm text-neutral-500 text-center py-6">{t('contact_profile.merge_no_results')}</p>
+          ) : (
+            candidates.map((candidate) => (
+              <button
+                key={candidate.id}
+                onClick={() => handleMerge(candidate.id)}
+                disabled={mergeMutation.isPending}
+                className="w-full flex items-center gap-3 px-2 py-2 rounded-lg text-start hover:bg-neutral-50 disabled:opacity-50"
+              >
+                <Avatar name={candidate.customer_name} size="sm" />
+                <div className="flex-1 min-w-0">
+                  <p className="text-sm text-neutral-900 truncate">{candidate.customer_name}</p>
+                  <p className="text-xs text-neutral-500 truncate">
+                    {formatSourceLabel(candidate.source)}
+                    {candidate.last_message && ` · ${candidate.last_message}`}
+                  </p>
+                </div>
+              </button>
+            ))
+          )}
+        </div>
+      </div>
+    </BaseModal>
+  );
+}
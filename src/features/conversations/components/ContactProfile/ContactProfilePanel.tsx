@@ -0,0 +1,302 @@
+/**
+ * Contact Profile Panel
+ * Sidebar next to ChatPanel showing the customer behind the open conversation
+ * across every channel: identities (with manual merge/unmerge), linked lead
+ * with custom fields and notes, all conversations, sentiment trend and the
+ * history of triggered actions.
+ */
+
+import { useMemo, useState } from 'react';
+import { useTranslation } from 'react-i18next';
+import { GitMerge, Unlink, X, Zap } from 'lucide-react';
+import { LineChart, Line, ResponsiveContainer, Tooltip, YAxis } from 'recharts';
+import { cn } from '@/lib/utils';
+import { useDateLocale } from '@/lib/dateConfig';
+import { useConfirm } from '@/hooks/useConfirm';
+import { Avatar } from '@/components/ui/Avatar';
+import { Spinner } from '@/components/ui/Spinner';
+import { PlatformIcon } from '@/features/connections/components/PlatformIcon';
+import type { PlatformType } from '@/features/connections/types';
+import { useLead } from '@/features/leads/hooks/useLeads';
+import { useFormCustomFieldSchemas } from '@/features/leads/hooks/useCustomFieldSchemas';
+import { useInlineLeadEdit } from '@/features/leads/hooks/useInlineLeadEdit';
+import { LeadInlineDetails } from '@/features/leads/components/LeadInlineDetails';
+import { useContactProfile, useUnmergeContactIdentity } from '../../hooks/useContactProfile';
+import { ConversationSentiment, getSentimentLabel } from '../../types';
+import type { Conversation, ContactIdentity } from '../../types';
+import { formatConversationTime } from '../../utils/timeFormatters';
+import { formatSourceLabel } from '../../utils/textFormatters';
+import {
+  getContactActionHistory,
+  getSentimentTrend,
+  sortContactConversations,
+} from '../../utils/contactProfile';
+import { ContactMergeModal } from './ContactMergeModal';
+
+interface ContactProfilePanelProps {
+  conversation: Conversation;
+  onOpenConversation: (conversationId: string) => void;
+  onClose: () => void;
+}
+
+export function ContactProfilePanel({ conversation, onOpenConversation, onClose }: ContactProfilePanelProps) {
+  const { t } = useTranslation();
+  const { formatSmartTimestamp } = useDateLocale();
+  const { confirm, ConfirmDialogComponent } = useConfirm();
+  const [isMergeOpen, setIsMergeOpen] = useState(false);
+
+  const { data: contact, isLoading, isError } = useContactProfile(conversation.id);
+  const unmergeMutation = useUnmergeContactIdentity(conversation.id, contact?.id);
+
+  const conversations = useMemo(() => sortContactConversations(contact?.conversations ?? []), [contact]);
+  const sentimentTrend = useMemo(() => getSentimentTrend(conversations), [conversations]);
+  const actionHistory = useMemo(() => getContactActionHistory(conversations), [conversations]);
+
+  const handleUnmerge = async (identity: ContactIdentity) => {
+    const confirmed = await confirm({
+      title: t('contact_profile.unmerge_title'),
+      message: t('contact_profile.unmerge_confirmation', {
+        name: identity.display_name || identity.phone || identity.platform_customer_id || formatSourceLabel(identity.source),
+      }),
+      confirmText: t('contact_profile.unmerge'),
+      variant: 'danger',
+    });
+    if (confirmed) unmergeMutation.mutate(identity.id);
+  };
+
+  return (
+    <aside className="h-full flex flex-col bg-white border-s border-neutral-200" aria-label={t('contact_profile.title')}>
+      {/* Header */}
+      <div className="flex items-center gap-3 px-4 py-3 border-b border-neutral-200">
+        <Avatar name={contact?.display_name ?? conversation.customer_name} size="md" />
+        <div className="flex-1 min-w-0">
+          <h3 className="font-semibold text-neutral-950 truncate">{contact?.display_name ?? conversation.customer_name}</h3>
+          {contact?.phone && <p className="text-xs text-neutral-500 truncate" dir="ltr">{contact.phone}</p>}
+        </div>
+        <button
+          onClick={onClose}
+          className="p-1.5 rounded-lg hover:bg-neutral-100 transition-colors"
+          aria-label={t('contact_profile.close')}
+        >
+          <X className="w-4 h-4 text-neutral-500" />
+        </button>
+      </div>
+
+      {isLoading ? (
+        <div className="flex justify-center py-12">
+          <Spinner size="lg" />
+        </div>
+      ) : isError || !contact ? (
+        <p className="text-sm text-neutral-500 text-center py-12 px-4">{t('contact_profile.load_failed')}</p>
+      ) : (
+        <div className="flex-1 overflow-y-auto divide-y divide-neutral-100">
+          {/* Identities */}
+          <Section
+            title={t('contact_profile.identities')}
+            action={
+              <button
+                onClick={() => setIsMergeOpen(true)}
+                className="flex items-center gap-1 text-xs font-medium text-brand-mojeeb hover:underline"
+              >
+                <GitMerge className="w-3.5 h-3.5" />
+                {t('contact_profile.merge')}
+              </button>
+            }
+          >
+            <ul className="space-y-2">
+              {contact.identities.map((identity) => (
+                <li key={identity.id} className="flex items-center gap-2">
+                  <SourceIcon source={identity.source} />
+                  <div className="flex-1 min-w-0">
+                    <p className="text-sm text-neutral-900 truncate">
+                      {identity.display_name || formatSourceLabel(identity.source)}
+                    </p>
+                    <p className="text-[11px] text-neutral-500 truncate" dir="ltr">
+                      {identity.phone || identity.platform_customer_id}
+                    </p>
+                  </div>
+                  <span className="text-[10px] px-1.5 py-0.5 rounded bg-neutral-100 text-neutral-600 flex-shrink-0">
+                    {t(`contact_profile.match_${identity.match_reason}`)}
+                  </span>
+                  {contact.identities.length > 1 && (
+                    <button
+                      onClick={() => handleUnmerge(identity)}
+                      disabled={unmergeMutation.isPending}
+                      className="p-1 rounded hover:bg-neutral-100 text-neutral-400 hover:text-red-600 disabled:opacity-50"
+                      title={t('contact_profile.unmerge')}
+                      aria-label={t('contact_profile.unmerge')}
+                    >
+                      <Unlink className="w-3.5 h-3.5" />
+                    </button>
+                  )}
+                </li>
+              ))}
+            </ul>
+          </Section>
+
+          {/* Lead + custom fields + notes */}
+          <Section title={t('contact_profile.lead')}>
+            {contact.lead_id ? (
+              <ContactLead leadId={contact.lead_id} />
+            ) : (
+              <p className="text-xs text-neutral-500">{t('contact_profile.no_lead')}</p>
+            )}
+          </Section>
+
+          {/* Conversations across channels */}
+          <Section title={t('contact_profile.conversations', { count: conversations.length })}>
+            <ul className="space-y-1">
+              {conversations.map((c) => (
+                <li key={c.id}>
+                  <button
+                    onClick={() => onOpenConversation(c.id)}
+                    disabled={c.id === conversation.id}
+                    className={cn(
+                      'w-full flex items-center gap-2 px-2 py-1.5 rounded-lg text-start transition-colors',
+                      c.id === conversation.id ? 'bg-neutral-100' : 'hover:bg-neutral-50'
+                    )}
+                  >
+                    <SourceIcon source={c.source} />
+                    <div className="flex-1 min-w-0">
+                      <p className="text-xs text-neutral-900 truncate">{c.last_message || c.topic || formatSourceLabel(c.source)}</p>
+                      <p className="text-[11px] text-neutral-500 truncate">
+                        {formatSourceLabel(c.source)}
+                        {c.id === conversation.id && ` · ${t('contact_profile.current')}`}
+                      </p>
+                    </div>
+                    <span className="text-[11px] text-neutral-400 flex-shrink-0">
+                      {formatConversationTime(c.last_message_at ?? c.created_at)}
+                    </span>
+                  </button>
+                </li>
+              ))}
+            </ul>
+          </Section>
+
+          {/* Sentiment trend */}
+          <Section title={t('contact_profile.sentiment_trend')}>
+            {sentimentTrend.length === 0 ? (
+              <p className="text-xs text-neutral-500">{t('contact_profile.no_sentiment')}</p>
+            ) : (
+              <>
+                <div className="h-16" dir="ltr">
+                  <ResponsiveContainer width="100%" height="100%">
+                    <LineChart data={sentimentTrend} margin={{ top: 4, right: 4, bottom: 4, left: 4 }}>
+                      <YAxis hide domain={[ConversationSentiment.VeryUnhappy, ConversationSentiment.VeryHappy]} />
+                      <Tooltip
+                        formatter={(value) => [
+                          t(`conversation_views.sentiments.${value}`, getSentimentLabel(value as ConversationSentiment)),
+                          t('contact_profile.sentiment'),
+                        ]}
+                        labelFormatter={(_, payload) =>
+                          payload?.[0] ? formatSmartTimestamp(payload[0].payload.at) : ''
+                        }
+                      />
+                      <Line type="monotone" dataKey="sentiment" stroke="#00bd6f" strokeWidth={2} dot={{ r: 2.5 }} isAnimationActive={false} />
+                    </LineChart>
+                  </ResponsiveContainer>
+                </div>
+                <p className="text-[11px] text-neutral-500 mt-1">
+                  {t('contact_profile.latest_sentiment', {
+                    sentiment: t(
+                      `conversation_views.sentiments.${sentimentTrend[sentimentTrend.length - 1].sentiment}`,
+                      getSentimentLabel(sentimentTrend[sentimentTrend.length - 1].sentiment)
+                    ),
+                  })}
+                </p>
+              </>
+            )}
+          </Section>
+
+          {/* Triggered actions */}
+          <Section title={t('contact_profile.actions')}>
+            {actionHistory.length === 0 ? (
+              <p className="text-xs text-neutral-500">{t('contact_profile.no_actions')}</p>
+            ) : (
+              <ul className="space-y-2">
+                {actionHistory.map((action) => (
+                  <li key={action.execution_id} className="flex items-start gap-2">
+                    <Zap className="w-3.5 h-3.5 text-amber-500 mt-0.5 flex-shrink-0" />
+                    <div className="flex-1 min-w-0">
+                      <p className="text-xs text-neutral-900 truncate">{action.action_name}</p>
+                      <p className="text-[11px] text-neutral-500">
+                        {formatSmartTimestamp(action.executed_at)} · {formatSourceLabel(action.source)}
+                      </p>
+                    </div>
+                  </li>
+                ))}
+              </ul>
+            )}
+          </Section>
+        </div>
+      )}
+
+      {contact && (
+        <ContactMergeModal
+          isOpen={isMergeOpen}
+          onClose={() => setIsMergeOpen(false)}
+          conversationId={conversation.id}
+          agentId={conversation.agent_id}
+          contact={contact}
+        />
+      )}
+      {ConfirmDialogComponent}
+    </aside>
+  );
+}
+
+// --- Helper Components ---
+
+function Section({ title, action, children }: { title: string; action?: React.ReactNode; children: React.ReactNode }) {
+  return (
+    <section className="px-4 py-3">
+      <div className="flex items-center justify-between mb-2">
+        <h4 className="text-[11px] font-medium uppercase tracking-wider text-neutral-400">{title}</h4>
+        {action}
+      </div>
+      {children}
+    </section>
+  );
+}
+
+function SourceIcon({ source }: { source: string }) {
+  return (
+    <PlatformIcon
+      platform={(source === 'test' ? 'web' : source) as PlatformType}
+      size="sm"
+      variant="brand"
+      showBackground
+      className="!w-6 !h-6 flex-shrink-0 [&_svg]:!w-3 [&_svg]:!h-3"
+    />
+  );
+}
+
+function ContactLead({ leadId }: { leadId: string }) {
+  const { data: lead, isLoading } = useLead(leadId);
+  const { data: formSchemas = [] } = useFormCustomFieldSchemas();
+  const { savingFieldKey, saveField, saveCustomField } = useInlineLeadEdit(leadId);
+
+  const orderedSchemas = useMemo(
+    () => [...formSchemas].sort((a, b) => a.display_order - b.display_order),
+    [formSchemas]
+  );
+
+  if (isLoading) {
+    return (
+      <div className="flex justify-center py-4">
+        <Spinner size="md" />
+      </div>
+    );
+  }
+  if (!lead) return null;
+
+  return (
+    <LeadInlineDetails
+      lead={lead}
+      schemas={orderedSchemas}
+      savingFieldKey={savingFieldKey}
+      onSaveField={saveField}
+      onSaveCustomField={saveCustomField}
+    />
+  );
+}
@@ -0,0 +1,233 @@
+/**
+ * Conversation Bulk Action Bar
+ * Replaces the filters while conversations are multi-selected (shift/ctrl-click).
+ * Every action fans out to the per-conversation endpoints — see useBulkConversationActions.
+ */
+
+import { useMemo } from 'react';
+import { useTranslation } from 'react-i18next';
+import {
+  Bot,
+  BotOff,
+  CheckCheck,
+  CheckCircle2,
+  FileDown,
+  Loader2,
+  Mail,
+  MoreHorizontal,
+  Pin,
+  PinOff,
+  Trash2,
+  UserPlus,
+  X,
+} from 'lucide-react';
+import { cn } from '@/lib/utils';
+import { useConfirm } from '@/hooks/useConfirm';
+import { useAuthStore } from '@/features/auth/stores/authStore';
+import { Role } from '@/features/auth/types/auth.types';
+import { getMemberDisplayName, useOrgMembers } from '@/features/organizations/hooks/useOrgMembers';
+import { Avatar } from '@/components/ui/Avatar';
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu';
+import type { BulkConversationAction } from '../../hooks/useBulkConversationActions';
+
+interface ConversationBulkActionBarProps {
+  selectedCount: number;
+  totalCount: number;
+  isPending: boolean;
+  onAction: (action: BulkConversationAction) => void;
+  onSelectAll: () => void;
+  onClearSelection: () => void;
+  /** Opens the bulk transcript export (a zip job, not a per-conversation fan-out) */
+  onExportTranscripts: () => void;
+}
+
+export function ConversationBulkActionBar({
+  selectedCount,
+  totalCount,
+  isPending,
+  onAction,
+  onSelectAll,
+  onClearSelection,
+  onExportTranscripts,
+}: ConversationBulkActionBarProps) {
+  const { t } = useTranslation();
+  const { confirm, ConfirmDialogComponent } = useConfirm();
+  const user = useAuthStore((state) => state.user);
+  const canDelete = user?.role === Role.SuperAdmin || user?.role === Role.Admin;
+  const { data: members = [] } = useOrgMembers();
+
+  const sortedMembers = useMemo(
+    () =>
+      members
+        .map((m) => ({ userId: m.userId, name: getMemberDisplayName(m) }))
+        .sort((a, b) => a.name.localeCompare(b.name)),
+    [members]
+  );
+
+  const handleDelete = async () => {
+    const confirmed = await confirm({
+      title: t('conversation_bulk.delete_title'),
+      message: t('conversation_bulk.delete_confirmation', { count: selectedCount }),
+      confirmText: t('conversations.delete_confirm_button'),
+      variant: 'danger',
+    });
+    if (confirmed) onAction({ type: 'delete' });
+  };
+
+  return (
+    <div className="px-2 pb-2">
+      <div className="flex items-center gap-1 rounded-lg border border-brand-mojeeb/40 bg-white px-2 py-1.5">
+        <button
+          type="button"
+          onClick={onClearSelection}
+          className="p-1 rounded text-neutral-500 hover:text-neutral-900 hover:bg-neutral-100"
+          aria-label={t('conversation_bulk.clear_selection')}
+          title={t('conversation_bulk.clear_selection')}
+        >
+          <X className="w-3.5 h-3.5" />
+        </button>
+        <span className="text-xs font-medium text-neutral-900 tabular-nums whitespace-nowrap">
+          {t('conversation_bulk.selected_count', { count: selectedCount })}
+        </span>
+        {selectedCount < totalCount && (
+          <button
+            type="button"
+            onClick={onSelectAll}
+            className="text-xs text-brand-mojeeb hover:underline whitespace-nowrap ms-1"
+          >
+            {t('conversation_bulk.select_all', { count: totalCount })}
+          </button>
+        )}
+
+        <div className="flex-1" />
+
+        {isPending ? (
+          <Loader2 className="w-4 h-4 animate-spin text-neutral-500 mx-1" />
+        ) : (
+          <>
+            <BarAction label={t('conversation_bulk.mark_read')} onClick={() => onAction({ type: 'mark_read' })}>
+              <CheckCheck className="w-3.5 h-3.5" />
+            </BarAction>
+            <BarAction label={t('conversation_bulk.resolve')} onClick={() => onAction({ type: 'resolve' })}>
+              <CheckCircle2 className="w-3.5 h-3.5" />
+            </BarAction>
+
+            <DropdownMenu>
+              <DropdownMenuTrigger asChild>
+                <button
+                  type="button"
+                  className="p-1.5 rounded text-neutral-600 hover:text-neutral-900 hover:bg-neutral-100"
+                  aria-label={t('conversation_bulk.assign')}
+                  title={t('conversation_bulk.assign')}
+                >
+                  <UserPlus className="w-3.5 h-3.5" />
+                </button>
+              </DropdownMenuTrigger>
+              <DropdownMenuContent align="end" className="min-w-[14rem] max-h-[18rem] overflow-y-auto">
+                {user?.id && (
+                  <DropdownMenuItem onClick={() => onAction({ type: 'assign', userId: user.id })} className="gap-2">
+                    <Avatar size="sm" name="Me" className="!w-6 !h-6 !text-[10px]" />
+                    {t('conversation_bulk.assign_to_me')}
+                  </DropdownMenuItem>
+                )}
+                <DropdownMenuItem onClick={() => onAction({ type: 'assign', userId: null })} className="gap-2">
+                  <div className="w-6 h-6 rounded-full border border-dashed border-neutral-300 bg-neutral-50" aria-hidden />
+                  {t('conversation_bulk.unassign')}
+                </DropdownMenuItem>
+                <div role="separator" className="my-1 h-px bg-neutral-200" />
+                {sortedMembers.map((member) => (
+                  <DropdownMenuItem
+                    key={member.userId}
+                    onClick={() => onAction({ type: 'assign', userId: member.userId })}
+                    className="gap-2"
+                  >
+                    <Avatar size="sm" name={member.name} className="!w-6 !h-6 !text-[10px]" />
+                    <span className="truncate">{member.name}</span>
+                  </DropdownMenuItem>
+                ))}
+              </DropdownMenuContent>
+            </DropdownMenu>
+
+            <DropdownMenu>
+              <DropdownMenuTrigger asChild>
+                <button
+                  type="button"
+                  className="p-1.5 rounded text-neutral-600 hover:text-neutral-900 hover:bg-neutral-100"
+                  aria-label={t('conversation_bulk.more_actions')}
+                  title={t('conversation_bulk.more_actions')}
+                >
+                  <MoreHorizontal className="w-3.5 h-3.5" />
+                </button>
+              </DropdownMenuTrigger>
+              <DropdownMenuContent align="end" className="w-52">
+                <DropdownMenuItem onClick={() => onAction({ type: 'mark_unread' })} className="gap-2">
+                  <Mail className="w-3.5 h-3.5" />
+                  {t('conversation_bulk.mark_unread')}
+                </DropdownMenuItem>
+                <DropdownMenuItem onClick={() => onAction({ type: 'pin' })} className="gap-2">
+                  <Pin className="w-3.5 h-3.5" />
+                  {t('conversation_bulk.pin')}
+                </DropdownMenuItem>
+                <DropdownMenuItem onClick={() => onAction({ type: 'unpin' })} className="gap-2">
+                  <PinOff className="w-3.5 h-3.5" />
+                  {t('conversation_bulk.unpin')}
+                </DropdownMenuItem>
+                <DropdownMenuItem onClick={() => onAction({ type: 'set_ai', isAI: true })} className="gap-2">
+                  <Bot className="w-3.5 h-3.5" />
+                  {t('conversation_bulk.ai_on')}
+                </DropdownMenuItem>
+                <DropdownMenuItem onClick={() => onAction({ type: 'set_ai', isAI: false })} className="gap-2">
+                  <BotOff className="w-3.5 h-3.5" />
+                  {t('conversation_bulk.ai_off')}
+                </DropdownMenuItem>
+                <DropdownMenuItem onClick={onExportTranscripts} className="gap-2">
+                  <FileDown className="w-3.5 h-3.5" />
+                  {t('conversation_bulk.export_transcripts')}
+                </DropdownMenuItem>
+                {canDelete && (
+                  <>
+                    <div role="separator" className="my-1 h-px bg-neutral-200" />
+                    <DropdownMenuItem onClick={handleDelete} className="gap-2 text-red-600">
+                      <Trash2 className="w-3.5 h-3.5" />
+                      {t('conversation_bulk.delete')}
+                    </DropdownMenuItem>
+                  </>
+                )}
+              </DropdownMenuContent>
+            </DropdownMenu>
+          </>
+        )}
+      </div>
+      <p className="px-1 pt-1 text-[10px] text-neutral-400">{t('conversation_bulk.hint')}</p>
+      {ConfirmDialogComponent}
+    </div>
+  );
+}
+
+// --- Helper Components ---
+
+interface BarActionProps {
+  label: string;
+  onClick: () => void;
+  children: React.ReactNode;
+  className?: string;
+}
+
+function BarAction({ label, onClick, children, className }: BarActionProps) {
+  return (
+    <button
+      type="button"
+      onClick={onClick}
+      title={label}
+      aria-label={label}
+      className={cn('p-1.5 rounded text-neutral-600 hover:text-neutral-900 hover:bg-neutral-100', className)}
+    >
+      {children}
+    </button>
+  );
+}
@@ -1,5 +1,5 @@
 import { useEffect, useRef } from 'react';
-import { Pin, PinOff, Mail, MailOpen, Trash2, AlertTriangle, CheckCircle, Bot, BotOff } from 'lucide-react';
+import { Pin, PinOff, Mail, MailOpen, Trash2, AlertTriangle, CheckCircle, Bot, BotOff, Check } from 'lucide-react';
 import { useTranslation } from 'react-i18next';
 import type { ConversationResponse } from '../../services/conversationApi';
 import { useMarkConversationAsRead } from '../../hooks/useMarkConversationAsRead';
@@ -10,6 +10,10 @@ import { useMarkConversationAsUrgent } from '../../hooks/useMarkConversationAsUr
 import { useMarkConversationAsResolved } from '../../hooks/useMarkConversationAsResolved';
 import { useToggleAIMode } from '../../hooks/useToggleAIMode';
 import { useResumeAi } from '../../hooks/useResumeAi';
+import { useConversationLabels, useSetConversationLabels } from '../../hooks/useConversationLabels';
+import { LABEL_COLOR_CLASSES } from '../../constants/labelColors';
+import { useAgentContext } from '@/hooks/useAgentContext';
+import { cn } from '@/lib/utils';
 
 interface ConversationContextMenuProps {
   conversation: ConversationResponse;
@@ -26,6 +30,7 @@ interface ConversationContextMenuProps {
  * Features:
  * - Native right-click menu positioning
  * - "Mark as Unread" action (disabled when already unread)
+ * - Organization labels, toggled in place (the menu stays open)
  * - Conditional "Delete" action (SuperAdmin & Admin only, via props)
  * - Click outside to close
  * - ESC key to close
@@ -48,6 +53,10 @@ export function ConversationContextMenu({
   const { mutate: markAsResolved, isPending: isPendingResolved } = useMarkConversationAsResolved();
   const { mutate: toggleAI, isPending: isPendingAI } = useToggleAIMode();
   const { mutate: resumeAi, isPending: isPendingResumeAi } = useResumeAi();
+  const { mutate: setLabels } = useSetConversationLabels();
+  const { agent } = useAgentContext();
+  const { data: labels = [] } = useConversationLabels(agent?.organizationId);
+  const labelIds = conversation.label_ids ?? [];
 
   const isPending = isPendingRead || isPendingUnread || isPendingPin || isPendingUnpin || isPendingUrgent || isPendingResolved || isPendingAI || isPendingResumeAi;
   const isUnread = !conversation.is_read;
@@ -161,6 +170,13 @@ export function ConversationContextMenu({
     }
   };
 
+  const handleToggleLabel = (labelId: string) => {
+    const next = labelIds.includes(labelId)
+      ? labelIds.filter((id) => id !== labelId)
+      : [...labelIds, labelId];
+    setLabels({ conversationId: conversation.id, labelIds: next });
+  };
+
   return (
     <>
       {/* Backdrop */}
@@ -260,6 +276,34 @@ export function ConversationContextMenu({
               : <><AlertTriangle className="w-4 h-4" />{t('conversation_context_menu.mark_as_urgent')}</>}
           </button>
 
+          {/* Labels - several can be toggled without reopening the menu */}
+          {labels.length > 0 && (
+            <>
+              <div className="border-t border-neutral-100 my-1" />
+              <div className="px-4 pt-1 pb-0.5 text-[10px] font-medium uppercase tracking-wider text-neutral-400">
+                {t('conversation_labels.labels')}
+              </div>
+              <div className="max-h-40 overflow-y-auto">
+                {labels.map((label) => {
+                  const isApplied = labelIds.includes(label.id);
+                  return (
+                    <button
+                      key={label.id}
+                      onClick={() => handleToggleLabel(label.id)}
+                      className="w-full px-4 py-1.5 text-start text-sm transition-colors flex items-center gap-2 text-neutral-700 hover:bg-neutral-50"
+                      role="menuitemcheckbox"
+                      aria-checked={isApplied}
+                    >
+                      <span className={cn('w-2.5 h-2.5 rounded-full flex-shrink-0', LABEL_COLOR_CLASSES[label.color].dot)} />
+                      <span className="flex-1 min-w-0 truncate">{label.name}</span>
+                      {isApplied && <Check className="w-3.5 h-3.5 text-neutral-600 flex-shrink-0" />}
+                    </button>
+                  );
+                })}
+              </div>
+            </>
+          )}
+
           {/* Delete option - passed from parent (SuperAdmin & Admin only) */}
           {canDelete && onDelete && (
             <>
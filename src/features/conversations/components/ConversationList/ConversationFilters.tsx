@@ -1,33 +1,57 @@
 /**
  * Conversation Filters Component
- * Search input + toggle filters + platform multiselect dropdown
+ * Search input + toggle filters + platform multiselect dropdown + assignee filter + label filter
+ * The "SLA breaching soon" toggle only shows once the organization enables SLAs
  */
 
-import { useState, useCallback, useEffect, useRef, useLayoutEffect } from 'react';
+import { useState, useCallback, useEffect, useRef, useLayoutEffect, useMemo } from 'react';
 import { createPortal } from 'react-dom';
 import { useTranslation } from 'react-i18next';
 import { Search, X, Globe, ChevronDown, Check, FlaskConical } from 'lucide-react';
 import { PlatformIcon } from '@/features/connections/components/PlatformIcon';
+import { useAuthStore } from '@/features/auth/stores/authStore';
+import {
+  buildMemberLookup,
+  getMemberDisplayName,
+  useOrgMembers,
+} from '@/features/organizations/hooks/useOrgMembers';
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu';
 import type { PlatformType } from '@/features/connections/types';
 import { cn } from '@/lib/utils';
+import { FILTERABLE_PLATFORMS } from '../../constants/chatConstants';
+import { formatSourceLabel } from '../../utils/textFormatters';
+import { useSlaSettings } from '@/features/organizations/hooks/useSlaSettings';
+import { useAgentContext } from '@/hooks/useAgentContext';
+import { useConversationLabels } from '../../hooks/useConversationLabels';
+import { LABEL_COLOR_CLASSES } from '../../constants/labelColors';
 
 const KNOWN_PLATFORMS: Set<string> = new Set([
   'web', 'widget', 'facebook', 'instagram', 'whatsapp', 'tiktok', 'twitter', 'linkedin',
 ]);
 
-// Fixed list of platforms always shown in the dropdown
-const FIXED_PLATFORMS = ['facebook', 'instagram', 'whatsapp', 'widget', 'test'] as const;
-
 export interface ConversationFiltersState {
   searchTerm: string;
   showUnreadOnly: boolean;
   selectedSources: string[];
   showUrgentOnly: boolean;
+  /** 'me' | 'unassigned' | teammate user id; null = everyone */
+  assignee: string | null;
+  /** Running SLA timers that are at risk or already breached */
+  showSlaAtRiskOnly: boolean;
+  /** Label ids; a conversation matches when it carries any of them */
+  selectedLabels: string[];
 }
 
 interface ConversationFiltersProps {
   filters: ConversationFiltersState;
   onFiltersChange: (filters: ConversationFiltersState) => void;
+  /** Lets the inbox focus the search box from a keyboard shortcut */
+  searchInputRef?: React.Ref<HTMLInputElement>;
 }
 
 const DEBOUNCE_MS = 300;
@@ -35,6 +59,7 @@ const DEBOUNCE_MS = 300;
 export function ConversationFilters({
   filters,
   onFiltersChange,
+  searchInputRef,
 }: ConversationFiltersProps) {
   const { t } = useTranslation();
   const [localSearch, setLocalSearch] = useState(filters.searchTerm);
@@ -43,6 +68,8 @@ export function ConversationFilters({
   const dropdownRef = useRef<HTMLDivElement>(null);
   const triggerRef = useRef<HTMLButtonElement>(null);
   const [dropdownPos, setDropdownPos] = useState({ top: 0, left: 0 });
+  const { agent } = useAgentContext();
+  const { data: slaSettings } = useSlaSettings(agent?.organizationId);
 
   // Debounce search input
   useEffect(() => {
@@ -100,6 +127,10 @@ export function ConversationFilters({
     onFiltersChange({ ...filters, showUrgentOnly: !filters.showUrgentOnly });
   }, [filters, onFiltersChange]);
 
+  const toggleSlaAtRisk = useCallback(() => {
+    onFiltersChange({ ...filters, showSlaAtRiskOnly: !filters.showSlaAtRiskOnly });
+  }, [filters, onFiltersChange]);
+
   const toggleSource = useCallback((source: string) => {
     const newSources = filters.selectedSources.includes(source)
       ? filters.selectedSources.filter(s => s !== source)
@@ -107,6 +138,21 @@ export function ConversationFilters({
     onFiltersChange({ ...filters, selectedSources: newSources });
   }, [filters, onFiltersChange]);
 
+  const setAssignee = useCallback((assignee: string | null) => {
+    onFiltersChange({ ...filters, assignee });
+  }, [filters, onFiltersChange]);
+
+  const toggleLabel = useCallback((labelId: string) => {
+    const newLabels = filters.selectedLabels.includes(labelId)
+      ? filters.selectedLabels.filter(id => id !== labelId)
+      : [...filters.selectedLabels, labelId];
+    onFiltersChange({ ...filters, selectedLabels: newLabels });
+  }, [filters, onFiltersChange]);
+
+  const clearLabels = useCallback(() => {
+    onFiltersChange({ ...filters, selectedLabels: [] });
+  }, [filters, onFiltersChange]);
+
   const clearSources = useCallback(() => {
     onFiltersChange({ ...filters, selectedSources: [] });
     setShowPlatformDropdown(false);
@@ -125,6 +171,7 @@ export function ConversationFilters({
       <div className="relative">
         <Search className="absolute start-2.5 top-1/2 -translate-y-1/2 w-4 h-4 text-neutral-400" />
         <input
+          ref={searchInputRef}
           type="text"
           value={localSearch}
           onChange={(e) => setLocalSearch(e.target.value)}
@@ -157,6 +204,15 @@ export function ConversationFilters({
           label={t('conversations.filters.urgent', 'Needs Attention')}
         />
 
+        {/* SLA breaching soon toggle — kept visible while active so it can be cleared */}
+        {(slaSettings?.enabled || filters.showSlaAtRiskOnly) && (
+          <FilterToggle
+            active={filters.showSlaAtRiskOnly}
+            onClick={toggleSlaAtRisk}
+            label={t('conversations.filters.sla_at_risk')}
+          />
+        )}
+
         {/* Platform multiselect dropdown */}
         <div>
           <button
@@ -183,7 +239,7 @@ export function ConversationFilters({
               style={{ position: 'fixed', top: dropdownPos.top, left: dropdownPos.left }}
               className="w-48 bg-white border border-neutral-200 rounded-lg shadow-lg z-[9999] py-1"
             >
-              {FIXED_PLATFORMS.map((source) => {
+              {FILTERABLE_PLATFORMS.map((source) => {
                   const isSelected = filters.selectedSources.includes(source);
                   return (
                     <button
@@ -243,6 +299,17 @@ export function ConversationFilters({
             document.body
           )}
         </div>
+
+        {/* Assignee filter */}
+        <AssigneeFilter value={filters.assignee} onChange={setAssignee} />
+
+        {/* Label filter */}
+        <LabelFilter
+          organizationId={agent?.organizationId}
+          selected={filters.selectedLabels}
+          onToggle={toggleLabel}
+          onClear={clearLabels}
+        />
       </div>
     </div>
   );
@@ -250,6 +317,140 @@ export function ConversationFilters({
 
 // --- Helper Components ---
 
+interface AssigneeFilterProps {
+  value: string | null;
+  onChange: (value: string | null) => void;
+}
+
+function AssigneeFilter({ value, onChange }: AssigneeFilterProps) {
+  const { t } = useTranslation();
+  const currentUserId = useAuthStore((s) => s.user?.id) ?? null;
+  const { data: members = [] } = useOrgMembers();
+  const memberLookup = useMemo(() => buildMemberLookup(members), [members]);
+  const teammates = useMemo(
+    () =>
+      members
+        .filter((m) => m.userId !== currentUserId)
+        .sort((a, b) => getMemberDisplayName(a).localeCompare(getMemberDisplayName(b))),
+    [members, currentUserId]
+  );
+
+  const teammate = value && value !== 'me' && value !== 'unassigned' ? memberLookup.get(value) : undefined;
+  const label = value === null
+    ? t('conversations.filters.assignee_all')
+    : value === 'me'
+      ? t('conversations.filters.assigned_to_me')
+      : value === 'unassigned'
+        ? t('conversations.filters.unassigned')
+        : teammate
+          ? getMemberDisplayName(teammate)
+          : t('conversation_assignment.unknown_assignee');
+
+  const options: { value: string | null; label: string }[] = [
+    { value: null, label: t('conversations.filters.assignee_all') },
+    { value: 'me', label: t('conversations.filters.assigned_to_me') },
+    { value: 'unassigned', label: t('conversations.filters.unassigned') },
+  ];
+
+  return (
+    <DropdownMenu>
+      <DropdownMenuTrigger asChild>
+        <button
+          className={cn(
+            'inline-flex items-center gap-1.5 px-2.5 py-1.5 rounded-lg text-xs font-medium border transition-colors',
+            value !== null
+              ? 'bg-brand-mojeeb/10 border-brand-mojeeb text-brand-mojeeb'
+              : 'bg-white border-neutral-200 text-neutral-600 hover:bg-neutral-50'
+          )}
+        >
+          <span className="max-w-[100px] truncate">{label}</span>
+          <ChevronDown className="w-3 h-3" />
+        </button>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent align="start" className="w-52 max-h-[18rem] overflow-y-auto">
+        {options.map((option) => (
+          <DropdownMenuItem key={option.value ?? 'all'} onClick={() => onChange(option.value)} className="gap-2">
+            <span className="flex-1 truncate">{option.label}</span>
+            {value === option.value && <Check className="w-3.5 h-3.5 flex-shrink-0" />}
+          </DropdownMenuItem>
+        ))}
+        {teammates.length > 0 && (
+          <>
+            <div className="border-t border-neutral-100 my-1" />
+            <div className="px-2 py-1 text-[10px] font-medium uppercase tracking-wider text-neutral-400">
+              {t('conversations.filters.teammates')}
+            </div>
+            {teammates.map((member) => (
+              <DropdownMenuItem key={member.userId} onClick={() => onChange(member.userId)} className="gap-2">
+                <span className="flex-1 truncate">{getMemberDisplayName(member)}</span>
+                {value === member.userId && <Check className="w-3.5 h-3.5 flex-shrink-0" />}
+              </DropdownMenuItem>
+            ))}
+          </>
+        )}
+      </DropdownMenuContent>
+    </DropdownMenu>
+  );
+}
+
+interface LabelFilterProps {
+  organizationId: string | undefined;
+  selected: string[];
+  onToggle: (labelId: string) => void;
+  onClear: () => void;
+}
+
+function LabelFilter({ organizationId, selected, onToggle, onClear }: LabelFilterProps) {
+  const { t } = useTranslation();
+  const { data: labels = [] } = useConversationLabels(organizationId);
+
+  // Nothing to filter by until the organization defines labels
+  if (labels.length === 0 && selected.length === 0) return null;
+
+  const selectedLabel = selected.length === 1 ? labels.find((l) => l.id === selected[0]) : undefined;
+  const label = selected.length === 0
+    ? t('conversations.filters.labels')
+    : selectedLabel
+      ? selectedLabel.name
+      : t('conversations.filters.labels_count', { count: selected.length });
+
+  return (
+    <DropdownMenu>
+      <DropdownMenuTrigger asChild>
+        <button
+          className={cn(
+            'inline-flex items-center gap-1.5 px-2.5 py-1.5 rounded-lg text-xs font-medium border transition-colors',
+            selected.length > 0
+              ? 'bg-brand-mojeeb/10 border-brand-mojeeb text-brand-mojeeb'
+              : 'bg-white border-neutral-200 text-neutral-600 hover:bg-neutral-50'
+          )}
+        >
+          <span className="max-w-[100px] truncate">{label}</span>
+          <ChevronDown className="w-3 h-3" />
+        </button>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent align="start" className="w-52 max-h-[18rem] overflow-y-auto">
+        {labels.map((option) => (
+          <DropdownMenuItem key={option.id} onClick={() => onToggle(option.id)} className="gap-2 items-center">
+            <span className={cn('w-2.5 h-2.5 rounded-full flex-shrink-0', LABEL_COLOR_CLASSES[option.color].dot)} />
+            <span className="flex-1 truncate">{option.name}</span>
+            {selected.includes(option.id) && <Check className="w-3.5 h-3.5 flex-shrink-0" />}
+          </DropdownMenuItem>
+        ))}
+        {selected.length > 0 && (
+          <>
+            <div className="border-t border-neutral-100 my-1" />
+            <DropdownMenuItem onClick={onClear} className="gap-2 text-xs text-neutral-500">
+              <X className="w-3.5 h-3.5" />
+              {t('conversations.filters.clear_labels')}
+            </DropdownMenuItem>
+          </>
+        )}
+      </DropdownMenuContent>
+    </DropdownMenu>
+  );
+}
+
 interface FilterToggleProps {
   active: boolean;
   onClick: () => void;
@@ -271,17 +472,3 @@ function FilterToggle({ active, onClick, label }: FilterToggleProps) {
     </button>
   );
 }
-
-function formatSourceLabel(source: string): string {
-  const labels: Record<string, string> = {
-    web: 'Web',
-    whatsapp: 'WhatsApp',
-    facebook: 'Facebook',
-    instagram: 'Instagram',
-    widget: 'Website',
-    tiktok: 'TikTok',
-    twitter: 'Twitter',
-    linkedin: 'LinkedIn',
-  };
-  return labels[source] || source.charAt(0).toUpperCase() + source.slice(1);
-}
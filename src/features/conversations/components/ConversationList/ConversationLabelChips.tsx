@@ -0,0 +1,75 @@
+/**
+ * Conversation Label Chips
+ *
+ * Renders a conversation's labels as colored chips on the conversation card,
+ * next to TriggeredActionChips. Ids are resolved against the organization's
+ * label list; ids that no longer resolve (label deleted) are skipped.
+ *
+ * Display rules mirror TriggeredActionChips: up to 3 inline, otherwise the
+ * first 2 plus a "+N" chip whose tooltip names the rest.
+ */
+
+import { memo } from 'react';
+import { Tooltip, TooltipTrigger, TooltipContent } from '@/components/ui/tooltip';
+import { useAgentContext } from '@/hooks/useAgentContext';
+import { cn } from '@/lib/utils';
+import { useConversationLabelMap } from '../../hooks/useConversationLabels';
+import { LABEL_COLOR_CLASSES } from '../../constants/labelColors';
+import type { ConversationLabel } from '../../types';
+
+interface ConversationLabelChipsProps {
+  labelIds: string[] | null | undefined;
+  className?: string;
+}
+
+const MAX_INLINE = 2;
+
+export function LabelChip({ label }: { label: ConversationLabel }) {
+  return (
+    <span
+      className={cn(
+        'inline-flex items-center gap-1 max-w-[120px] px-1.5 py-0.5 rounded-md border text-[10px] font-medium',
+        LABEL_COLOR_CLASSES[label.color].chip
+      )}
+    >
+      <span className={cn('w-1.5 h-1.5 rounded-full flex-shrink-0', LABEL_COLOR_CLASSES[label.color].dot)} />
+      <span className="truncate">{label.name}</span>
+    </span>
+  );
+}
+
+const ConversationLabelChips = memo(function ConversationLabelChips({ labelIds, className }: ConversationLabelChipsProps) {
+  const { agent } = useAgentContext();
+  const labelMap = useConversationLabelMap(agent?.organizationId);
+
+  const labels = (labelIds ?? [])
+    .map((id) => labelMap.get(id))
+    .filter((label): label is ConversationLabel => !!label);
+  if (labels.length === 0) return null;
+
+  const visible = labels.length > MAX_INLINE + 1 ? labels.slice(0, MAX_INLINE) : labels;
+  const hidden = labels.slice(visible.length);
+
+  return (
+    <div className={cn('flex flex-wrap items-center gap-1 mt-1', className)}>
+      {visible.map((label) => (
+        <LabelChip key={label.id} label={label} />
+      ))}
+
+      {hidden.length > 0 && (
+        <Tooltip delayDuration={150}>
+          <TooltipTrigger asChild>
+            <span className="inline-flex items-center px-1.5 py-0.5 rounded-md text-[10px] font-medium bg-white border border-neutral-200 text-neutral-600">
+              +{hidden.length}
+            </span>
+          </TooltipTrigger>
+          <TooltipContent side="top" className="text-xs">
+            {hidden.map((label) => label.name).join(', ')}
+          </TooltipContent>
+        </Tooltip>
+      )}
+    </div>
+  );
+});
+
+export default ConversationLabelChips;
@@ -3,18 +3,36 @@
  * WhatsApp-style conversation list with real-time updates via React Query
  * Infinite scroll with cursor-based pagination for 100x faster performance
  * All filters are server-side (DB level) for accurate results across all pages
+ * Saved views (pinned above the filters) narrow the list by a stored filter expression
+ * Shift/ctrl-click multi-select swaps the filters for a bulk action bar
+ * (including a zipped transcript export through the exports job infrastructure)
+ * Keyboard shortcuts (j/k, r, e, u, p, /) via useConversationShortcuts
+ * "Messages" mode swaps the list for full-text message search (MessageSearchPanel)
  * Created: February 2026
  */
 
-import { useRef, useState, useCallback, UIEvent } from 'react';
+import { useRef, useState, useCallback, useEffect, useMemo, UIEvent } from 'react';
 import { useTranslation } from 'react-i18next';
+import { useSearchParams } from 'react-router-dom';
 import { LayoutGroup } from 'framer-motion';
 import { Loader2 } from 'lucide-react';
+import { cn } from '@/lib/utils';
+import { ExportProgressModal, ExportTranscriptsModal } from '@/features/exports/components';
 import { useInfiniteConversations } from '../../hooks/useInfiniteConversations';
 import { useConversationRealtime } from '../../hooks/useConversationRealtime';
 import { useConversationStore } from '../../stores/conversationStore';
-import ConversationListItem from './ConversationListItem';
+import { useBulkConversationActions, type BulkConversationAction } from '../../hooks/useBulkConversationActions';
+import { useConversationShortcuts } from '../../hooks/useConversationShortcuts';
+import ConversationListItem, { type ConversationSelectModifiers } from './ConversationListItem';
 import { ConversationFilters, type ConversationFiltersState } from './ConversationFilters';
+import { ConversationViewsBar } from './ConversationViewsBar';
+import { ConversationViewFormModal } from './ConversationViewFormModal';
+import { ConversationBulkActionBar } from './ConversationBulkActionBar';
+import { MessageSearchPanel } from './MessageSearchPanel';
+import { useChatStore } from '../../stores/chatStore';
+import { VIEW_SEARCH_PARAM } from '../../constants/chatConstants';
+import { filtersToExpression } from '../../utils/filterExpression';
+import type { ConversationView, FilterGroup, MessageSearchHit } from '../../types';
 import { ConversationListSkeleton, NoConversationsState } from '../shared/LoadingSkeleton';
 
 interface ConversationListProps {
@@ -22,18 +40,44 @@ interface ConversationListProps {
   onConversationSelect: (conversationId: string) => void;
 }
 
+type ListMode = 'conversations' | 'messages';
+
 const DEFAULT_FILTERS: ConversationFiltersState = {
   searchTerm: '',
   showUnreadOnly: false,
   selectedSources: [],
   showUrgentOnly: false,
+  assignee: null,
+  showSlaAtRiskOnly: false,
+  selectedLabels: [],
 };
 
 export default function ConversationList({ agentId, onConversationSelect }: ConversationListProps) {
   const { t } = useTranslation();
   const [filters, setFilters] = useState<ConversationFiltersState>(DEFAULT_FILTERS);
+  const [mode, setMode] = useState<ListMode>('conversations');
+  const [selectedHitId, setSelectedHitId] = useState<string | null>(null);
+
+  // Active saved view lives in the URL so a copied link opens the same view.
+  const [searchParams, setSearchParams] = useSearchParams();
+  const activeViewId = searchParams.get(VIEW_SEARCH_PARAM);
+  const handleSelectView = useCallback((viewId: string | null) => {
+    setSearchParams((prev) => {
+      const next = new URLSearchParams(prev);
+      if (viewId) {
+        next.set(VIEW_SEARCH_PARAM, viewId);
+      } else {
+        next.delete(VIEW_SEARCH_PARAM);
+      }
+      return next;
+    }, { replace: true });
+  }, [setSearchParams]);
 
-  // All filters are now server-side (DB level)
+  // View editor: `editingView` set = edit mode; `newViewExpression` set = create mode
+  const [editingView, setEditingView] = useState<ConversationView | null>(null);
+  const [newViewExpression, setNewViewExpression] = useState<FilterGroup | null>(null);
+
+  // All filters are now server-side (DB level). Quick filters refine the active view.
   const {
     conversations,
     isLoading,
@@ -49,6 +93,10 @@ export default function ConversationList({ agentId, onConversationSelect }: Conv
     source: filters.selectedSources.length > 0 ? filters.selectedSources : undefined,
     isRead: filters.showUnreadOnly ? false : undefined,
     urgent: filters.showUrgentOnly ? true : undefined,
+    viewId: activeViewId ?? undefined,
+    assignedTo: filters.assignee ?? undefined,
+    slaAtRisk: filters.showSlaAtRiskOnly ? true : undefined,
+    labelIds: filters.selectedLabels.length > 0 ? filters.selectedLabels : undefined,
   });
 
   // V2: Subscribe to real-time updates with smart cache merging
@@ -59,7 +107,7 @@ export default function ConversationList({ agentId, onConversationSelect }: Conv
   });
 
   // Check if any filters are active
-  const hasActiveFilters = filters.showUnreadOnly || filters.selectedSources.length > 0 || filters.showUrgentOnly || !!filters.searchTerm;
+  const hasActiveFilters = filters.showUnreadOnly || filters.selectedSources.length > 0 || filters.showUrgentOnly || !!filters.searchTerm || !!activeViewId || !!filters.assignee || filters.showSlaAtRiskOnly || filters.selectedLabels.length > 0;
 
   // UI state from Zustand store — just the selected ID. The conversation row itself
   // is sourced from React Query via useSelectedConversation in consumers.
@@ -67,6 +115,7 @@ export default function ConversationList({ agentId, onConversationSelect }: Conv
   const selectConversationId = useConversationStore((state) => state.selectConversationId);
 
   const listRef = useRef<HTMLDivElement>(null);
+  const searchInputRef = useRef<HTMLInputElement>(null);
 
   // Handle scroll for infinite loading
   const handleScroll = (e: UIEvent<HTMLDivElement>) => {
@@ -79,12 +128,96 @@ export default function ConversationList({ agentId, onConversationSelect }: Conv
     }
   };
 
+  // Multi-select for bulk actions. Ids that drop out of the loaded list (deleted,
+  // filtered away) are ignored rather than pruned, so they come back if the row does.
+  const [checkedIds, setCheckedIds] = useState<Set<string>>(() => new Set());
+  const selectionAnchorRef = useRef<string | null>(null);
+  const bulkMutation = useBulkConversationActions();
+  const [isTranscriptExportOpen, setIsTranscriptExportOpen] = useState(false);
+  const [transcriptJobId, setTranscriptJobId] = useState<string | null>(null);
+
+  const visibleCheckedIds = useMemo(
+    () => conversations.filter((c) => checkedIds.has(c.id)).map((c) => c.id),
+    [conversations, checkedIds]
+  );
+  const isMultiSelecting = visibleCheckedIds.length > 0;
+
+  const clearChecked = useCallback(() => {
+    setCheckedIds(new Set());
+    selectionAnchorRef.current = null;
+  }, []);
+
+  // Escape leaves multi-select mode
+  useEffect(() => {
+    if (!isMultiSelecting) return;
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key === 'Escape') clearChecked();
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [isMultiSelecting, clearChecked]);
+
   // Handle conversation selection — store just the id; the panel hydrates the row
   // from React Query (seeded by the list cache for an instant initial render).
-  const handleSelect = useCallback((conversationId: string) => {
+  // Shift extends a range from the last clicked row, ctrl/cmd toggles one row;
+  // the open conversation seeds the selection so the first modified click keeps it.
+  const handleSelect = useCallback((conversationId: string, modifiers: ConversationSelectModifiers) => {
+    if (modifiers.shift || modifiers.toggle) {
+      const anchorId = selectionAnchorRef.current ?? selectedConversationId;
+      setCheckedIds((prev) => {
+        const next = new Set(prev);
+        if (next.size === 0 && selectedConversationId) next.add(selectedConversationId);
+
+        const anchorIndex = anchorId ? conversations.findIndex((c) => c.id === anchorId) : -1;
+        const targetIndex = conversations.findIndex((c) => c.id === conversationId);
+        if (modifiers.shift && anchorIndex !== -1 && targetIndex !== -1) {
+          const [start, end] = anchorIndex < targetIndex ? [anchorIndex, targetIndex] : [targetIndex, anchorIndex];
+          conversations.slice(start, end + 1).forEach((c) => next.add(c.id));
+        } else if (next.has(conversationId)) {
+          next.delete(conversationId);
+        } else {
+          next.add(conversationId);
+        }
+        return next;
+      });
+      if (!modifiers.shift) selectionAnchorRef.current = conversationId;
+      return;
+    }
+
+    clearChecked();
+    selectionAnchorRef.current = conversationId;
     selectConversationId(conversationId);
     onConversationSelect(conversationId);
-  }, [selectConversationId, onConversationSelect]);
+  }, [conversations, selectedConversationId, clearChecked, selectConversationId, onConversationSelect]);
+
+  useConversationShortcuts({
+    conversations,
+    selectedConversationId,
+    onSelect: (conversationId) => handleSelect(conversationId, { shift: false, toggle: false }),
+    listRef,
+    searchInputRef,
+    hasNextPage,
+    isFetchingNextPage,
+    fetchNextPage,
+  });
+
+  // Failed items stay selected so the same action can be retried on just those
+  const handleBulkAction = useCallback((action: BulkConversationAction) => {
+    bulkMutation.mutate(
+      { action, conversationIds: visibleCheckedIds },
+      { onSuccess: ({ failed }) => setCheckedIds(new Set(failed)) }
+    );
+  }, [bulkMutation, visibleCheckedIds]);
+
+  // Open the hit's conversation scrolled to the message. The jump is registered
+  // first so the chat panel loads the page around it instead of the latest page.
+  const handleSelectHit = useCallback((hit: MessageSearchHit) => {
+    setSelectedHitId(hit.id);
+    useChatStore.getState().requestJump(hit.conversation_id, hit.id);
+    clearChecked();
+    selectConversationId(hit.conversation_id);
+    onConversationSelect(hit.conversation_id);
+  }, [clearChecked, selectConversationId, onConversationSelect]);
 
   // Handle filter changes
   const handleFiltersChange = useCallback((newFilters: ConversationFiltersState) => {
@@ -97,15 +230,59 @@ export default function ConversationList({ agentId, onConversationSelect }: Conv
 
   return (
     <div className="h-full flex flex-col overflow-hidden bg-neutral-50">
-      {/* Filters - always visible */}
+      {/* Saved views + filters - always visible */}
       <div className="flex-shrink-0 bg-neutral-50 pt-2">
-        <ConversationFilters
-          filters={filters}
-          onFiltersChange={handleFiltersChange}
+        <ConversationViewsBar
+          agentId={agentId}
+          activeViewId={activeViewId}
+          onSelectView={handleSelectView}
+          onCreateView={() => setNewViewExpression(filtersToExpression(filters))}
+          onEditView={setEditingView}
         />
+        <div className="flex mx-2 mb-2 p-0.5 bg-neutral-100 rounded-lg" role="tablist">
+          {(['conversations', 'messages'] as const).map((value) => (
+            <button
+              key={value}
+              role="tab"
+              aria-selected={mode === value}
+              onClick={() => setMode(value)}
+              className={cn(
+                'flex-1 py-1 text-xs font-medium rounded-md transition-colors',
+                mode === value ? 'bg-white text-neutral-900 shadow-sm' : 'text-neutral-500 hover:text-neutral-700'
+              )}
+            >
+              {t(`conversations.message_search.mode_${value}`)}
+            </button>
+          ))}
+        </div>
+        {mode === 'messages' ? null : isMultiSelecting ? (
+          <ConversationBulkActionBar
+            selectedCount={visibleCheckedIds.length}
+            totalCount={conversations.length}
+            isPending={bulkMutation.isPending}
+            onAction={handleBulkAction}
+            onSelectAll={() => setCheckedIds(new Set(conversations.map((c) => c.id)))}
+            onClearSelection={clearChecked}
+            onExportTranscripts={() => setIsTranscriptExportOpen(true)}
+          />
+        ) : (
+          <ConversationFilters
+            filters={filters}
+            onFiltersChange={handleFiltersChange}
+            searchInputRef={searchInputRef}
+          />
+        )}
       </div>
 
-      {/* Conversation List */}
+      {mode === 'messages' ? (
+        <MessageSearchPanel
+          agentId={agentId}
+          selectedMessageId={selectedHitId}
+          onSelectHit={handleSelectHit}
+          searchInputRef={searchInputRef}
+        />
+      ) : (
+      /* Conversation List */
       <div
         ref={listRef}
         className="flex-1 overflow-y-auto p-2 space-y-1"
@@ -126,7 +303,8 @@ export default function ConversationList({ agentId, onConversationSelect }: Conv
                 key={conversation.id}
                 conversation={conversation}
                 isSelected={selectedConversationId === conversation.id}
-                onSelect={() => handleSelect(conversation.id)}
+                isChecked={checkedIds.has(conversation.id)}
+                onSelect={(modifiers) => handleSelect(conversation.id, modifiers)}
               />
             ))}
           </LayoutGroup>
@@ -147,6 +325,34 @@ export default function ConversationList({ agentId, onConversationSelect }: Conv
           </div>
         )}
       </div>
+      )}
+
+      {/* Saved view editor */}
+      <ConversationViewFormModal
+        isOpen={!!editingView || !!newViewExpression}
+        onClose={() => {
+          setEditingView(null);
+          setNewViewExpression(null);
+        }}
+        view={editingView}
+        initialExpression={newViewExpression ?? undefined}
+        onSaved={(view) => handleSelectView(view.id)}
+      />
+
+      {/* Bulk transcript export — server-side zip job */}
+      <ExportTranscriptsModal
+        isOpen={isTranscriptExportOpen}
+        onClose={() => setIsTranscriptExportOpen(false)}
+        agentId={agentId}
+        conversationIds={visibleCheckedIds}
+        onExportCreated={setTranscriptJobId}
+      />
+      <ExportProgressModal
+        isOpen={!!transcriptJobId}
+        onClose={() => setTranscriptJobId(null)}
+        jobId={transcriptJobId}
+        kind="transcripts"
+      />
 
       {/* Error state */}
       {isError && error && (
@@ -1,21 +1,25 @@
 /**
  * Conversation List Item
  * WhatsApp-style conversation preview with avatar, name, last message, timestamp
+ * and, while an SLA timer runs, a countdown badge (red row border once breached)
  */
 
 import { memo, useState, useCallback, useRef, useEffect } from 'react';
 import { motion, AnimatePresence } from 'framer-motion';
-import { BotOff, Pin } from 'lucide-react';
+import { BotOff, Check, Pin, Timer } from 'lucide-react';
 import { useTranslation } from 'react-i18next';
 import type { Conversation } from '../../types';
 import { formatConversationTime } from '../../utils/timeFormatters';
+import { formatSlaRemaining, getSlaStatus, type SlaState } from '../../utils/sla';
 import { truncateText, getInitials } from '../../utils/textFormatters';
 import { Avatar } from '@/components/ui/Avatar';
 import { Badge } from '@/components/ui/Badge';
 import { Tooltip, TooltipTrigger, TooltipContent } from '@/components/ui/tooltip';
 import { cn } from '@/lib/utils';
+import { useDateLocale } from '@/lib/dateConfig';
 import { ConversationContextMenu } from './ConversationContextMenu';
 import TriggeredActionChips from './TriggeredActionChips';
+import ConversationLabelChips from './ConversationLabelChips';
 import { useDeleteConversation } from '../../hooks/useDeleteConversation';
 import { useAuthStore } from '@/features/auth/stores/authStore';
 import { Role } from '@/features/auth/types/auth.types';
@@ -23,15 +27,30 @@ import { useConfirm } from '@/hooks/useConfirm';
 import { PlatformIcon } from '@/features/connections/components/PlatformIcon';
 import type { PlatformType } from '@/features/connections/types';
 
+const SLA_BADGE_VARIANTS: Record<SlaState, 'default' | 'warning' | 'danger'> = {
+  on_track: 'default',
+  at_risk: 'warning',
+  breached: 'danger',
+};
+
+/** Modifier keys held on click — drive range (shift) and toggle (ctrl/cmd) multi-select */
+export interface ConversationSelectModifiers {
+  shift: boolean;
+  toggle: boolean;
+}
+
 interface ConversationListItemProps {
   conversation: Conversation;
   isSelected: boolean;
-  onSelect: () => void;
+  /** Part of the multi-select set for bulk actions */
+  isChecked?: boolean;
+  onSelect: (modifiers: ConversationSelectModifiers) => void;
 }
 
 const ConversationListItem = memo(function ConversationListItem({
   conversation,
   isSelected,
+  isChecked = false,
   onSelect,
 }: ConversationListItemProps) {
   const { t } = useTranslation();
@@ -40,6 +59,7 @@ const ConversationListItem = memo(function ConversationListItem({
   const user = useAuthStore((state) => state.user);
   const canDelete = user?.role === Role.SuperAdmin || user?.role === Role.Admin;
   const { confirm, ConfirmDialogComponent } = useConfirm();
+  const { formatInUserTimezone } = useDateLocale();
 
   const handleDelete = useCallback(async () => {
     setContextMenu(null);
@@ -78,6 +98,16 @@ const ConversationListItem = memo(function ConversationListItem({
     return () => clearInterval(interval);
   }, [isPausedByHandoff]);
 
+  // SLA countdown is minute-granular, so a slower tick is enough; it stops once resolved
+  const hasRunningSla = !!conversation.sla && !conversation.sla.resolved_at;
+  useEffect(() => {
+    if (!hasRunningSla) return;
+    const interval = setInterval(() => setNow(Date.now()), 30 * 1000);
+    return () => clearInterval(interval);
+  }, [hasRunningSla]);
+  const slaStatus = getSlaStatus(conversation.sla, now);
+  const isSlaBreached = slaStatus?.state === 'breached';
+
   const handoffRemainingLabel = (() => {
     if (!isPausedByHandoff || handoffExpiryMs === null) return null;
     const remainingMs = Math.max(0, handoffExpiryMs - now);
@@ -135,28 +165,36 @@ const ConversationListItem = memo(function ConversationListItem({
     }
   }, []);
 
-  const handleClick = useCallback(() => {
+  const handleClick = useCallback((e: React.MouseEvent) => {
     // Don't trigger select if long-press just fired
     if (longPressFired.current) {
       longPressFired.current = false;
       return;
     }
-    onSelect();
+    onSelect({ shift: e.shiftKey, toggle: e.ctrlKey || e.metaKey });
   }, [onSelect]);
 
   return (
-    <motion.div layoutId={conversation.id} layout transition={{ duration: 0.3, ease: "easeInOut" }}>
+    <motion.div layoutId={conversation.id} layout transition={{ duration: 0.3, ease: "easeInOut" }} data-conversation-id={conversation.id}>
       <div
         onClick={handleClick}
+        onMouseDown={(e) => {
+          // Keep shift-click from selecting the preview text
+          if (e.shiftKey) e.preventDefault();
+        }}
         onContextMenu={handleContextMenu}
         onTouchStart={handleTouchStart}
         onTouchEnd={handleTouchEnd}
         onTouchMove={handleTouchMove}
         className={cn(
           'flex items-center gap-3 p-3 border border-neutral-200 rounded-lg cursor-pointer transition-colors',
-          isSelected
-            ? 'bg-brand-mojeeb/10 border-brand-mojeeb'
-            : 'bg-white hover:bg-neutral-50'
+          isChecked
+            ? 'bg-brand-mojeeb/5 border-brand-mojeeb/60'
+            : isSelected
+              ? 'bg-brand-mojeeb/10 border-brand-mojeeb'
+              : isSlaBreached
+                ? 'bg-white border-red-300 hover:bg-neutral-50'
+                : 'bg-white hover:bg-neutral-50'
         )}
       >
         {/* Avatar with platform icon */}
@@ -166,6 +204,11 @@ const ConversationListItem = memo(function ConversationListItem({
             name={conversation.customer_name}
             size="lg"
           />
+          {isChecked && (
+            <div className="absolute inset-0 flex items-center justify-center rounded-full bg-brand-mojeeb">
+              <Check className="w-5 h-5 text-white" />
+            </div>
+          )}
           {conversation.source !== 'web' && (
             <div className="absolute -bottom-1 ltr:-right-1 rtl:-left-1">
               <PlatformIcon
@@ -336,6 +379,9 @@ const ConversationListItem = memo(function ConversationListItem({
 
           {/* Triggered action chips — only renders when the conversation has successful
               action executions. Most conversations have none and this slot is empty. */}
+          {/* Teammate labels */}
+          <ConversationLabelChips labelIds={conversation.label_ids} />
+
           <TriggeredActionChips actions={conversation.triggered_actions} />
         </div>
 
@@ -360,6 +406,28 @@ const ConversationListItem = memo(function ConversationListItem({
               {formattedTime}
             </span>
           </div>
+          {slaStatus && (
+            <Tooltip delayDuration={150}>
+              <TooltipTrigger asChild>
+                <span>
+                  <Badge variant={SLA_BADGE_VARIANTS[slaStatus.state]} className="gap-1 px-1.5 text-[10px]">
+                    <Timer className="w-3 h-3" />
+                    <span className="font-mono tabular-nums" dir="ltr">
+                      {formatSlaRemaining(slaStatus.remainingMs)}
+                    </span>
+                  </Badge>
+                </span>
+              </TooltipTrigger>
+              <TooltipContent side="top">
+                {t(
+                  slaStatus.state === 'breached'
+                    ? `sla.badge_${slaStatus.target}_breached`
+                    : `sla.badge_${slaStatus.target}_due`,
+                  { time: formatInUserTimezone(slaStatus.dueAt, 'p'), policy: conversation.sla?.policy_name }
+                )}
+              </TooltipContent>
+            </Tooltip>
+          )}
           <AnimatePresence>
             {!conversation.is_read && (
               <motion.div
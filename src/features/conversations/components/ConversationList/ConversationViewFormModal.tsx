@@ -0,0 +1,689 @@
+/**
+ * ConversationViewFormModal
+ * Create/edit a saved inbox view: name, sharing, pinning and a composable
+ * filter expression (match all/any, nested one level deep).
+ */
+
+import { useEffect, useState } from 'react';
+import { useTranslation } from 'react-i18next';
+import { Plus, Trash2, Brackets } from 'lucide-react';
+import { BaseModal } from '@/components/ui/BaseModal';
+import { Switch } from '@/components/ui/Switch';
+import { cn } from '@/lib/utils';
+import { useAgentContext } from '@/hooks/useAgentContext';
+import {
+  ConversationSentiment,
+  getSentimentLabel,
+  isFilterGroup,
+  type ConversationFilterField,
+  type ConversationView,
+  type FilterCondition,
+  type FilterGroup,
+  type FilterNode,
+} from '../../types';
+import { FILTERABLE_PLATFORMS } from '../../constants/chatConstants';
+import { formatSourceLabel } from '../../utils/textFormatters';
+import { countConditions, EMPTY_FILTER_EXPRESSION } from '../../utils/filterExpression';
+import { useCreateConversationView, useUpdateConversationView } from '../../hooks/useConversationViews';
+import { useConversationLabels } from '../../hooks/useConversationLabels';
+
+interface ConversationViewFormModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  /** When provided, the modal opens in edit mode for this view. */
+  view?: ConversationView | null;
+  /** Starting expression in create mode (e.g. from the current quick filters). */
+  initialExpression?: FilterGroup;
+  /** Called with the saved view so the list can switch to it. */
+  onSaved?: (view: ConversationView) => void;
+}
+
+const NAME_MAX = 60;
+// Root group + one level of nested groups keeps the editor readable.
+const MAX_DEPTH = 1;
+
+const FIELDS: ConversationFilterField[] = [
+  'source',
+  'sentiment',
+  'urgent',
+  'requires_human_attention',
+  'is_read',
+  'is_pinned',
+  'ai_handoff_until',
+  'triggered_actions',
+  'labels',
+  'last_message_at',
+];
+
+const SENTIMENTS = [
+  ConversationSentiment.VeryUnhappy,
+  ConversationSentiment.Unhappy,
+  ConversationSentiment.Neutral,
+  ConversationSentiment.Happy,
+  ConversationSentiment.VeryHappy,
+];
+
+const TIME_UNITS = { minutes: 1, hours: 60, days: 1440 } as const;
+type TimeUnit = keyof typeof TIME_UNITS;
+
+function defaultCondition(field: ConversationFilterField): FilterCondition {
+  switch (field) {
+    case 'source':
+      return { field, operator: 'in', value: [] };
+    case 'sentiment':
+      return { field, operator: 'in', value: [] };
+    case 'urgent':
+    case 'requires_human_attention':
+    case 'is_pinned':
+      return { field, operator: 'is', value: true };
+    case 'is_read':
+      return { field, operator: 'is', value: false };
+    case 'ai_handoff_until':
+      return { field, operator: 'is_active', value: true };
+    case 'triggered_actions':
+      return { field, operator: 'exists', value: true };
+    case 'labels':
+      return { field, operator: 'in', value: [] };
+    case 'last_message_at':
+      return { field, operator: 'older_than', value: 60 };
+  }
+}
+
+export function ConversationViewFormModal({
+  isOpen,
+  onClose,
+  view,
+  initialExpression,
+  onSaved,
+}: ConversationViewFormModalProps) {
+  const { t } = useTranslation();
+  const { agentId } = useAgentContext();
+  const isEdit = !!view;
+
+  const createMutation = useCreateConversationView(agentId);
+  const updateMutation = useUpdateConversationView(agentId);
+  const isPending = createMutation.isPending || updateMutation.isPending;
+
+  const [name, setName] = useState('');
+  const [expression, setExpression] = useState<FilterGroup>(EMPTY_FILTER_EXPRESSION);
+  const [isShared, setIsShared] = useState(false);
+  const [isPinned, setIsPinned] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (isOpen) {
+      setName(view?.name ?? '');
+      setExpression(view?.expression ?? initialExpression ?? EMPTY_FILTER_EXPRESSION);
+      setIsShared(view?.is_shared ?? false);
+      setIsPinned(view?.is_pinned ?? true);
+      setError(null);
+    }
+  }, [isOpen, view, initialExpression]);
+
+  const validate = (): string | null => {
+    if (!name.trim()) return t('conversation_views.errors.name_required');
+    if (countConditions(expression) === 0) return t('conversation_views.errors.conditions_required');
+    return null;
+  };
+
+  const handleSubmit = async () => {
+    const validationError = validate();
+    if (validationError) {
+      setError(validationError);
+      return;
+    }
+    if (!agentId) return;
+    setError(null);
+
+    try {
+      const saved = isEdit && view
+        ? await updateMutation.mutateAsync({
+            id: view.id,
+            payload: { name: name.trim(), expression, is_shared: isShared, is_pinned: isPinned },
+          })
+        : await createMutation.mutateAsync({
+            agent_id: agentId,
+            name: name.trim(),
+            expression,
+            is_shared: isShared,
+            is_pinned: isPinned,
+          });
+      onSaved?.(saved);
+      onClose();
+    } catch {
+      // Toast is handled by hook; keep modal open so user can retry.
+    }
+  };
+
+  return (
+    <BaseModal
+      isOpen={isOpen}
+      onClose={onClose}
+      title={isEdit ? t('conversation_views.edit_title') : t('conversation_views.create_title')}
+      subtitle={t('conversation_views.form_subtitle')}
+      maxWidth="2xl"
+      isLoading={isPending}
+      closable={!isPending}
+    >
+      <div className="space-y-4">
+        <div>
+          <label className="block text-sm font-medium text-neutral-700 mb-1">
+            {t('conversation_views.field_name')}
+          </label>
+          <input
+            type="text"
+            value={name}
+            onChange={(e) => setName(e.target.value)}
+            maxLength={NAME_MAX}
+            placeholder={t('conversation_views.field_name_placeholder')}
+            className="w-full px-3 py-2 border border-neutral-300 rounded-lg outline-none focus:border-neutral-500 text-sm"
+            disabled={isPending}
+          />
+        </div>
+
+        <div>
+          <label className="block text-sm font-medium text-neutral-700 mb-1">
+            {t('conversation_views.field_conditions')}
+          </label>
+          <FilterGroupEditor group={expression} onChange={setExpression} depth={0} disabled={isPending} />
+        </div>
+
+        <div className="flex flex-col gap-3 pt-1">
+          <label className="flex items-center justify-between gap-4">
+            <span>
+              <span className="block text-sm font-medium text-neutral-700">
+                {t('conversation_views.field_pinned')}
+              </span>
+              <span className="block text-xs text-neutral-500">
+                {t('conversation_views.field_pinned_help')}
+              </span>
+            </span>
+            <Switch checked={isPinned} onChange={setIsPinned} disabled={isPending} />
+          </label>
+          <label className="flex items-center justify-between gap-4">
+            <span>
+              <span className="block text-sm font-medium text-neutral-700">
+                {t('conversation_views.field_shared')}
+              </span>
+              <span className="block text-xs text-neutral-500">
+                {t('conversation_views.field_shared_help')}
+              </span>
+            </span>
+            <Switch checked={isShared} onChange={setIsShared} disabled={isPending} />
+          </label>
+        </div>
+
+        {error && (
+          <div className="p-3 rounded-lg bg-red-50 border border-red-200 text-sm text-red-700">
+            {error}
+          </div>
+        )}
+
+        <div className="flex items-center justify-end gap-2 pt-2">
+          <button
+            type="button"
+            onClick={onClose}
+            disabled={isPending}
+            className="px-4 py-2 rounded-lg text-sm font-medium text-neutral-700 hover:bg-neutral-100 transition-colors disabled:opacity-50"
+          >
+            {t('common.cancel')}
+          </button>
+          <button
+            type="button"
+            onClick={handleSubmit}
+            disabled={isPending}
+            className="px-4 py-2 rounded-lg text-sm font-medium text-white bg-neutral-950 hover:bg-neutral-800 transition-colors disabled:opacity-50"
+          >
+            {isPending
+              ? t('common.saving')
+              : isEdit
+                ? t('common.save')
+                : t('common.create')}
+          </button>
+        </div>
+      </div>
+    </BaseModal>
+  );
+}
+
+// --- Expression editor ---
+
+interface FilterGroupEditorProps {
+  group: FilterGroup;
+  onChange: (group: FilterGroup) => void;
+  depth: number;
+  disabled?: boolean;
+  onRemove?: () => void;
+}
+
+function FilterGroupEditor({ group, onChange, depth, disabled, onRemove }: FilterGroupEditorProps) {
+  const { t } = useTranslation();
+
+  const updateChild = (index: number, child: FilterNode) => {
+    onChange({ ...group, conditions: group.conditions.map((c, i) => (i === index ? child : c)) });
+  };
+  const removeChild = (index: number) => {
+    onChange({ ...group, conditions: group.conditions.filter((_, i) => i !== index) });
+  };
+
+  return (
+    <div className={cn('space-y-2', depth > 0 && 'p-3 rounded-lg border border-dashed border-neutral-300 bg-neutral-50')}>
+      <div className="flex items-center gap-2 text-xs text-neutral-600">
+        <span>{t('conversation_views.match')}</span>
+        <select
+          value={group.combinator}
+          onChange={(e) => onChange({ ...group, combinator: e.target.value as FilterGroup['combinator'] })}
+          disabled={disabled}
+          className="px-2 py-1 border border-neutral-300 rounded-md bg-white text-xs"
+        >
+          <option value="and">{t('conversation_views.match_all')}</option>
+          <option value="or">{t('conversation_views.match_any')}</option>
+        </select>
+        <span>{t('conversation_views.of_the_following')}</span>
+        {onRemove && (
+          <button
+            type="button"
+            onClick={onRemove}
+            disabled={disabled}
+            className="ms-auto p-1 rounded text-neutral-500 hover:text-red-600 hover:bg-red-50"
+            aria-label={t('conversation_views.remove_group')}
+          >
+            <Trash2 className="w-3.5 h-3.5" />
+          </button>
+        )}
+      </div>
+
+      {group.conditions.map((node, index) =>
+        isFilterGroup(node) ? (
+          <FilterGroupEditor
+            key={index}
+            group={node}
+            onChange={(child) => updateChild(index, child)}
+            onRemove={() => removeChild(index)}
+            depth={depth + 1}
+            disabled={disabled}
+          />
+        ) : (
+          <FilterConditionRow
+            key={index}
+            condition={node}
+            onChange={(child) => updateChild(index, child)}
+            onRemove={() => removeChild(index)}
+            disabled={disabled}
+          />
+        )
+      )}
+
+      <div className="flex items-center gap-2">
+        <button
+          type="button"
+          onClick={() => onChange({ ...group, conditions: [...group.conditions, defaultCondition('is_read')] })}
+          disabled={disabled}
+          className="inline-flex items-center gap-1 px-2.5 py-1.5 rounded-lg text-xs font-medium text-neutral-700 border border-neutral-200 bg-white hover:bg-neutral-50"
+        >
+          <Plus className="w-3.5 h-3.5" />
+          {t('conversation_views.add_condition')}
+        </button>
+        {depth < MAX_DEPTH && (
+          <button
+            type="button"
+            onClick={() =>
+              onChange({
+                ...group,
+                conditions: [
+                  ...group.conditions,
+                  { combinator: group.combinator === 'and' ? 'or' : 'and', conditions: [] },
+                ],
+              })
+            }
+            disabled={disabled}
+            className="inline-flex items-center gap-1 px-2.5 py-1.5 rounded-lg text-xs font-medium text-neutral-700 border border-neutral-200 bg-white hover:bg-neutral-50"
+          >
+            <Brackets className="w-3.5 h-3.5" />
+            {t('conversation_views.add_group')}
+          </button>
+        )}
+      </div>
+    </div>
+  );
+}
+
+interface FilterConditionRowProps {
+  condition: FilterCondition;
+  onChange: (condition: FilterCondition) => void;
+  onRemove: () => void;
+  disabled?: boolean;
+}
+
+function FilterConditionRow({ condition, onChange, onRemove, disabled }: FilterConditionRowProps) {
+  const { t } = useTranslation();
+  const selectClass = 'px-2 py-1.5 border border-neutral-300 rounded-md bg-white text-xs';
+
+  return (
+    <div className="flex flex-wrap items-center gap-2">
+      <select
+        value={condition.field}
+        onChange={(e) => onChange(defaultCondition(e.target.value as ConversationFilterField))}
+        disabled={disabled}
+        className={selectClass}
+      >
+        {FIELDS.map((field) => (
+          <option key={field} value={field}>
+            {t(`conversation_views.fields.${field}`)}
+          </option>
+        ))}
+      </select>
+
+      <ConditionValueEditor condition={condition} onChange={onChange} disabled={disabled} />
+
+      <button
+        type="button"
+        onClick={onRemove}
+        disabled={disabled}
+        className="ms-auto p-1 rounded text-neutral-500 hover:text-red-600 hover:bg-red-50"
+        aria-label={t('conversation_views.remove_condition')}
+      >
+        <Trash2 className="w-3.5 h-3.5" />
+      </button>
+    </div>
+  );
+}
+
+function ConditionValueEditor({
+  condition,
+  onChange,
+  disabled,
+}: Omit<FilterConditionRowProps, 'onRemove'>) {
+  const { t } = useTranslation();
+  const selectClass = 'px-2 py-1.5 border border-neutral-300 rounded-md bg-white text-xs';
+  const inputClass = 'px-2 py-1.5 border border-neutral-300 rounded-md bg-white text-xs';
+
+  switch (condition.field) {
+    case 'source':
+      return (
+        <>
+          <InclusionSelect
+            value={condition.operator}
+            onChange={(operator) => onChange({ ...condition, operator })}
+            disabled={disabled}
+          />
+          <ChipMultiSelect
+            options={FILTERABLE_PLATFORMS.map((source) => ({
+              value: source,
+              label: t(`conversations.filters.platform_${source}`, formatSourceLabel(source)),
+            }))}
+            selected={condition.value}
+            onChange={(value) => onChange({ ...condition, value })}
+            disabled={disabled}
+          />
+        </>
+      );
+    case 'sentiment':
+      return (
+        <>
+          <InclusionSelect
+            value={condition.operator}
+            onChange={(operator) => onChange({ ...condition, operator })}
+            disabled={disabled}
+          />
+          <ChipMultiSelect
+            options={SENTIMENTS.map((sentiment) => ({
+              value: sentiment,
+              label: t(`conversation_views.sentiments.${sentiment}`, getSentimentLabel(sentiment)),
+            }))}
+            selected={condition.value}
+            onChange={(value) => onChange({ ...condition, value })}
+            disabled={disabled}
+          />
+        </>
+      );
+    case 'urgent':
+    case 'requires_human_attention':
+    case 'is_read':
+    case 'is_pinned':
+    case 'ai_handoff_until':
+      return (
+        <select
+          value={condition.value ? 'true' : 'false'}
+          onChange={(e) => onChange({ ...condition, value: e.target.value === 'true' } as FilterCondition)}
+          disabled={disabled}
+          className={selectClass}
+        >
+          <option value="true">{t(`conversation_views.boolean.${condition.field}_true`)}</option>
+          <option value="false">{t(`conversation_views.boolean.${condition.field}_false`)}</option>
+        </select>
+      );
+    case 'triggered_actions':
+      return (
+        <>
+          <select
+            value={condition.operator === 'exists' ? (condition.value ? 'any' : 'none') : 'includes'}
+            onChange={(e) =>
+              onChange(
+                e.target.value === 'includes'
+                  ? { field: 'triggered_actions', operator: 'includes', value: '' }
+                  : { field: 'triggered_actions', operator: 'exists', value: e.target.value === 'any' }
+              )
+            }
+            disabled={disabled}
+            className={selectClass}
+          >
+            <option value="any">{t('conversation_views.operators.actions_any')}</option>
+            <option value="none">{t('conversation_views.operators.actions_none')}</option>
+            <option value="includes">{t('conversation_views.operators.actions_includes')}</option>
+          </select>
+          {condition.operator === 'includes' && (
+            <input
+              type="text"
+              value={condition.value}
+              onChange={(e) => onChange({ ...condition, value: e.target.value })}
+              placeholder={t('conversation_views.action_name_placeholder')}
+              disabled={disabled}
+              className={cn(inputClass, 'w-40')}
+            />
+          )}
+        </>
+      );
+    case 'labels':
+      return (
+        <>
+          <InclusionSelect
+            value={condition.operator}
+            onChange={(operator) => onChange({ ...condition, operator })}
+            disabled={disabled}
+          />
+          <LabelMultiSelect
+            selected={condition.value}
+            onChange={(value) => onChange({ ...condition, value })}
+            disabled={disabled}
+          />
+        </>
+      );
+    case 'last_message_at':
+      return (
+        <>
+          <select
+            value={condition.operator}
+            onChange={(e) => {
+              const operator = e.target.value as typeof condition.operator;
+              onChange(
+                operator === 'between'
+                  ? { field: 'last_message_at', operator, value: { from: null, to: null } }
+                  : { field: 'last_message_at', operator, value: condition.operator === 'between' ? 60 : condition.value }
+              );
+            }}
+            disabled={disabled}
+            className={selectClass}
+          >
+            <option value="older_than">{t('conversation_views.operators.older_than')}</option>
+            <option value="newer_than">{t('conversation_views.operators.newer_than')}</option>
+            <option value="between">{t('conversation_views.operators.between')}</option>
+          </select>
+          {condition.operator === 'between' ? (
+            <>
+              <input
+                type="datetime-local"
+                value={toLocalInput(condition.value.from)}
+                onChange={(e) => onChange({ ...condition, value: { ...condition.value, from: fromLocalInput(e.target.value) } })}
+                disabled={disabled}
+                className={inputClass}
+              />
+              <input
+                type="datetime-local"
+                value={toLocalInput(condition.value.to)}
+                onChange={(e) => onChange({ ...condition, value: { ...condition.value, to: fromLocalInput(e.target.value) } })}
+                disabled={disabled}
+                className={inputClass}
+              />
+            </>
+          ) : (
+            <RelativeDurationInput
+              minutes={condition.value}
+              onChange={(value) => onChange({ ...condition, value })}
+              disabled={disabled}
+            />
+          )}
+        </>
+      );
+  }
+}
+
+function InclusionSelect({
+  value,
+  onChange,
+  disabled,
+}: {
+  value: 'in' | 'not_in';
+  onChange: (value: 'in' | 'not_in') => void;
+  disabled?: boolean;
+}) {
+  const { t } = useTranslation();
+  return (
+    <select
+      value={value}
+      onChange={(e) => onChange(e.target.value as 'in' | 'not_in')}
+      disabled={disabled}
+      className="px-2 py-1.5 border border-neutral-300 rounded-md bg-white text-xs"
+    >
+      <option value="in">{t('conversation_views.operators.in')}</option>
+      <option value="not_in">{t('conversation_views.operators.not_in')}</option>
+    </select>
+  );
+}
+
+function ChipMultiSelect<T extends string | number>({
+  options,
+  selected,
+  onChange,
+  disabled,
+}: {
+  options: { value: T; label: string }[];
+  selected: T[];
+  onChange: (value: T[]) => void;
+  disabled?: boolean;
+}) {
+  return (
+    <div className="flex flex-wrap gap-1">
+      {options.map((option) => {
+        const isSelected = selected.includes(option.value);
+        return (
+          <button
+            key={option.value}
+            type="button"
+            onClick={() =>
+              onChange(isSelected ? selected.filter((v) => v !== option.value) : [...selected, option.value])
+            }
+            disabled={disabled}
+            className={cn(
+              'px-2 py-1 rounded-md text-xs border transition-colors',
+              isSelected
+                ? 'bg-brand-mojeeb/10 border-brand-mojeeb text-brand-mojeeb'
+                : 'bg-white border-neutral-200 text-neutral-600 hover:bg-neutral-50'
+            )}
+          >
+            {option.label}
+          </button>
+        );
+      })}
+    </div>
+  );
+}
+
+function LabelMultiSelect({
+  selected,
+  onChange,
+  disabled,
+}: {
+  selected: string[];
+  onChange: (value: string[]) => void;
+  disabled?: boolean;
+}) {
+  const { t } = useTranslation();
+  const { agent } = useAgentContext();
+  const { data: labels = [] } = useConversationLabels(agent?.organizationId);
+
+  if (labels.length === 0) {
+    return <span className="text-xs text-neutral-500">{t('conversation_labels.no_labels')}</span>;
+  }
+
+  return (
+    <ChipMultiSelect
+      options={labels.map((label) => ({ value: label.id, label: label.name }))}
+      selected={selected}
+      onChange={onChange}
+      disabled={disabled}
+    />
+  );
+}
+
+function RelativeDurationInput({
+  minutes,
+  onChange,
+  disabled,
+}: {
+  minutes: number;
+  onChange: (minutes: number) => void;
+  disabled?: boolean;
+}) {
+  const { t } = useTranslation();
+  // Show the largest unit that divides the stored minutes evenly.
+  const unit: TimeUnit = minutes % TIME_UNITS.days === 0 ? 'days' : minutes % TIME_UNITS.hours === 0 ? 'hours' : 'minutes';
+  const amount = minutes / TIME_UNITS[unit];
+
+  return (
+    <>
+      <input
+        type="number"
+        min={1}
+        value={amount}
+        onChange={(e) => onChange(Math.max(1, Number(e.target.value) || 1) * TIME_UNITS[unit])}
+        disabled={disabled}
+        className="w-16 px-2 py-1.5 border border-neutral-300 rounded-md bg-white text-xs"
+      />
+      <select
+        value={unit}
+        onChange={(e) => onChange(amount * TIME_UNITS[e.target.value as TimeUnit])}
+        disabled={disabled}
+        className="px-2 py-1.5 border border-neutral-300 rounded-md bg-white text-xs"
+      >
+        {(Object.keys(TIME_UNITS) as TimeUnit[]).map((u) => (
+          <option key={u} value={u}>
+            {t(`conversation_views.units.${u}`)}
+          </option>
+        ))}
+      </select>
+    </>
+  );
+}
+
+// datetime-local works in local wall time without a zone; the expression stores UTC ISO.
+function toLocalInput(iso: string | null): string {
+  if (!iso) return '';
+  const date = new Date(iso);
+  const offsetMs = date.getTimezoneOffset() * 60_000;
+  return new Date(date.getTime() - offsetMs).toISOString().slice(0, 16);
+}
+
+function fromLocalInput(value: string): string | null {
+  return value ? new Date(value).toISOString() : null;
+}
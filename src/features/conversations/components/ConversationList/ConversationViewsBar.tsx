@@ -0,0 +1,251 @@
+/**
+ * Conversation Views Bar
+ * Pinned saved views above the list filters, each with a live unread count.
+ * The menu lists every available view (own + shared with the organization)
+ * with pin/unpin, edit, copy-link and delete actions.
+ */
+
+import { useCallback, useEffect } from 'react';
+import { useTranslation } from 'react-i18next';
+import { toast } from 'sonner';
+import { ListFilter, Plus, Pin, PinOff, Pencil, Link2, Trash2, Users, Check } from 'lucide-react';
+import { cn } from '@/lib/utils';
+import { useConfirm } from '@/hooks/useConfirm';
+import { useAuthStore } from '@/features/auth/stores/authStore';
+import { Role } from '@/features/auth/types/auth.types';
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu';
+import type { ConversationView } from '../../types';
+import {
+  useConversationViewCounts,
+  useConversationViews,
+  useDeleteConversationView,
+  useUpdateConversationView,
+} from '../../hooks/useConversationViews';
+import { VIEW_SEARCH_PARAM } from '../../constants/chatConstants';
+
+interface ConversationViewsBarProps {
+  agentId: string;
+  activeViewId: string | null;
+  onSelectView: (viewId: string | null) => void;
+  onCreateView: () => void;
+  onEditView: (view: ConversationView) => void;
+}
+
+export function ConversationViewsBar({
+  agentId,
+  activeViewId,
+  onSelectView,
+  onCreateView,
+  onEditView,
+}: ConversationViewsBarProps) {
+  const { t } = useTranslation();
+  const { confirm, ConfirmDialogComponent } = useConfirm();
+  const user = useAuthStore((state) => state.user);
+  const isAdmin = user?.role === Role.SuperAdmin || user?.role === Role.Admin;
+
+  const { data: views = [], isSuccess } = useConversationViews(agentId);
+  const pinnedViews = views.filter((view) => view.is_pinned);
+  const { data: counts = {} } = useConversationViewCounts(agentId, pinnedViews.length > 0);
+  const updateMutation = useUpdateConversationView(agentId);
+  const deleteMutation = useDeleteConversationView(agentId);
+
+  // Drop a stale selection — a link to a deleted view, or a view of another agent
+  // after switching agents.
+  useEffect(() => {
+    if (isSuccess && activeViewId && !views.some((view) => view.id === activeViewId)) {
+      onSelectView(null);
+    }
+  }, [isSuccess, activeViewId, views, onSelectView]);
+
+  const canManage = useCallback(
+    (view: ConversationView) => view.created_by === user?.id || (view.is_shared && isAdmin),
+    [user?.id, isAdmin]
+  );
+
+  const handleTogglePin = (view: ConversationView) => {
+    updateMutation.mutate({ id: view.id, payload: { is_pinned: !view.is_pinned } });
+  };
+
+  const handleCopyLink = async (view: ConversationView) => {
+    const url = new URL(window.location.href);
+    url.search = '';
+    url.searchParams.set(VIEW_SEARCH_PARAM, view.id);
+    try {
+      await navigator.clipboard.writeText(url.toString());
+      toast.success(t('conversation_views.link_copied'));
+    } catch {
+      toast.error(t('conversation_views.link_copy_failed'));
+    }
+  };
+
+  const handleDelete = async (view: ConversationView) => {
+    const confirmed = await confirm({
+      title: t('conversation_views.delete_title'),
+      message: t('conversation_views.delete_confirmation', { name: view.name }),
+      confirmText: t('common.delete'),
+      variant: 'danger',
+    });
+    if (!confirmed) return;
+    deleteMutation.mutate(view.id, {
+      onSuccess: () => {
+        if (activeViewId === view.id) onSelectView(null);
+      },
+    });
+  };
+
+  return (
+    <div className="px-2 pb-2">
+      <div className="flex items-center gap-1.5">
+        <div className="flex-1 min-w-0 flex items-center gap-1.5 overflow-x-auto scrollbar-none">
+          <ViewChip
+            label={t('conversation_views.all_conversations')}
+            isActive={activeViewId === null}
+            onClick={() => onSelectView(null)}
+          />
+          {pinnedViews.map((view) => (
+            <ViewChip
+              key={view.id}
+              label={view.name}
+              count={counts[view.id]}
+              isShared={view.is_shared}
+              isActive={activeViewId === view.id}
+              onClick={() => onSelectView(view.id)}
+            />
+          ))}
+        </div>
+
+        <DropdownMenu>
+          <DropdownMenuTrigger asChild>
+            <button
+              className="flex-shrink-0 p-1.5 rounded-lg border border-neutral-200 bg-white text-neutral-600 hover:bg-neutral-50 transition-colors"
+              aria-label={t('conversation_views.menu_aria')}
+              title={t('conversation_views.menu_aria')}
+            >
+              <ListFilter className="w-3.5 h-3.5" />
+            </button>
+          </DropdownMenuTrigger>
+          <DropdownMenuContent align="end" className="w-64">
+            {views.length === 0 ? (
+              <div className="px-2 py-3 text-xs text-neutral-500 text-center">
+                {t('conversation_views.empty_state')}
+              </div>
+            ) : (
+              views.map((view) => (
+                <div key={view.id} className="group flex items-center gap-1 rounded-sm hover:bg-neutral-50">
+                  <DropdownMenuItem onClick={() => onSelectView(view.id)} className="flex-1 min-w-0 gap-2">
+                    {activeViewId === view.id ? (
+                      <Check className="w-3.5 h-3.5 text-brand-mojeeb flex-shrink-0" />
+                    ) : (
+                      <span className="w-3.5 flex-shrink-0" />
+                    )}
+                    <span className="truncate">{view.name}</span>
+                    {view.is_shared && <Users className="w-3 h-3 text-neutral-400 flex-shrink-0" />}
+                  </DropdownMenuItem>
+                  <div className="flex items-center opacity-0 group-hover:opacity-100 transition-opacity pe-1">
+                    <IconAction
+                      label={view.is_pinned ? t('conversation_views.unpin') : t('conversation_views.pin')}
+                      onClick={() => handleTogglePin(view)}
+                      disabled={!canManage(view)}
+                    >
+                      {view.is_pinned ? <PinOff className="w-3.5 h-3.5" /> : <Pin className="w-3.5 h-3.5" />}
+                    </IconAction>
+                    <IconAction label={t('conversation_views.copy_link')} onClick={() => handleCopyLink(view)}>
+                      <Link2 className="w-3.5 h-3.5" />
+                    </IconAction>
+                    {canManage(view) && (
+                      <>
+                        <IconAction label={t('common.edit')} onClick={() => onEditView(view)}>
+                          <Pencil className="w-3.5 h-3.5" />
+                        </IconAction>
+                        <IconAction label={t('common.delete')} onClick={() => handleDelete(view)} danger>
+                          <Trash2 className="w-3.5 h-3.5" />
+                        </IconAction>
+                      </>
+                    )}
+                  </div>
+                </div>
+              ))
+            )}
+            <div className="border-t border-neutral-100 my-1" />
+            <DropdownMenuItem onClick={onCreateView} className="gap-2 text-xs font-medium">
+              <Plus className="w-3.5 h-3.5" />
+              {t('conversation_views.create_row')}
+            </DropdownMenuItem>
+          </DropdownMenuContent>
+        </DropdownMenu>
+      </div>
+      {ConfirmDialogComponent}
+    </div>
+  );
+}
+
+// --- Helper Components ---
+
+interface ViewChipProps {
+  label: string;
+  count?: number;
+  isShared?: boolean;
+  isActive: boolean;
+  onClick: () => void;
+}
+
+function ViewChip({ label, count, isShared, isActive, onClick }: ViewChipProps) {
+  return (
+    <button
+      onClick={onClick}
+      className={cn(
+        'flex-shrink-0 inline-flex items-center gap-1.5 px-2.5 py-1 rounded-full text-xs font-medium border transition-colors max-w-[180px]',
+        isActive
+          ? 'bg-neutral-900 border-neutral-900 text-white'
+          : 'bg-white border-neutral-200 text-neutral-700 hover:bg-neutral-50'
+      )}
+    >
+      {isShared && <Users className="w-3 h-3 flex-shrink-0 opacity-70" />}
+      <span className="truncate">{label}</span>
+      {!!count && (
+        <span
+          className={cn(
+            'min-w-[18px] px-1 rounded-full text-[10px] leading-[18px] text-center tabular-nums',
+            isActive ? 'bg-white/20 text-white' : 'bg-brand-mojeeb text-white'
+          )}
+        >
+          {count > 99 ? '99+' : count}
+        </span>
+      )}
+    </button>
+  );
+}
+
+interface IconActionProps {
+  label: string;
+  onClick: () => void;
+  children: React.ReactNode;
+  disabled?: boolean;
+  danger?: boolean;
+}
+
+function IconAction({ label, onClick, children, disabled, danger }: IconActionProps) {
+  return (
+    <button
+      type="button"
+      onClick={(e) => {
+        e.stopPropagation();
+        onClick();
+      }}
+      disabled={disabled}
+      title={label}
+      aria-label={label}
+      className={cn(
+        'p-1 rounded text-neutral-500 disabled:opacity-30 disabled:cursor-not-allowed',
+        danger ? 'hover:text-red-600 hover:bg-red-50' : 'hover:text-neutral-900 hover:bg-neutral-200'
+      )}
+    >
+      {children}
+    </button>
+  );
+}
@@ -0,0 +1,277 @@
+/**
+ * Message Search Panel
+ * Full-text search over message content across all conversations of the agent.
+ * Replaces the conversation list while the inbox is in "Messages" mode; picking
+ * a hit opens its conversation scrolled to that message.
+ */
+
+import { useEffect, useState, type UIEvent } from 'react';
+import { useTranslation } from 'react-i18next';
+import { Loader2, Search, X } from 'lucide-react';
+import { cn } from '@/lib/utils';
+import { highlightPlainText } from '@/features/agents/utils/highlightSearch';
+import { FILTERABLE_PLATFORMS } from '../../constants/chatConstants';
+import { MIN_MESSAGE_SEARCH_LENGTH, useMessageSearch } from '../../hooks/useMessageSearch';
+import { MessageType, SenderRole } from '../../types';
+import type { MessageSearchFilters, MessageSearchHit } from '../../types';
+import { buildSearchSnippet } from '../../utils/messageSearch';
+import { formatConversationTime } from '../../utils/timeFormatters';
+import { formatSourceLabel } from '../../utils/textFormatters';
+
+interface MessageSearchPanelProps {
+  agentId: string;
+  selectedMessageId?: string | null;
+  onSelectHit: (hit: MessageSearchHit) => void;
+  /** Lets the inbox focus the search box from a keyboard shortcut */
+  searchInputRef?: React.Ref<HTMLInputElement>;
+}
+
+const DEBOUNCE_MS = 300;
+
+const SENDER_ROLE_OPTIONS = [
+  { value: SenderRole.Customer, key: 'customer' },
+  { value: SenderRole.AiAgent, key: 'ai' },
+  { value: SenderRole.HumanAgent, key: 'human' },
+] as const;
+
+const MESSAGE_TYPE_OPTIONS = [
+  { value: MessageType.Text, key: 'text' },
+  { value: MessageType.Image, key: 'image' },
+  { value: MessageType.Audio, key: 'audio' },
+  { value: MessageType.Document, key: 'document' },
+  { value: MessageType.Video, key: 'video' },
+] as const;
+
+const SELECT_CLASS =
+  'min-w-0 flex-1 px-2 py-1 text-xs bg-white border border-neutral-200 rounded-lg text-neutral-700 focus:outline-none focus:ring-1 focus:ring-brand-mojeeb focus:border-brand-mojeeb';
+
+export function MessageSearchPanel({
+  agentId,
+  selectedMessageId,
+  onSelectHit,
+  searchInputRef,
+}: MessageSearchPanelProps) {
+  const { t } = useTranslation();
+  const [localQuery, setLocalQuery] = useState('');
+  const [filters, setFilters] = useState<MessageSearchFilters>({ query: '' });
+
+  // Debounce typing; filter changes apply immediately
+  useEffect(() => {
+    const timer = setTimeout(() => {
+      setFilters((prev) => (prev.query === localQuery.trim() ? prev : { ...prev, query: localQuery.trim() }));
+    }, DEBOUNCE_MS);
+    return () => clearTimeout(timer);
+  }, [localQuery]);
+
+  const updateFilter = <K extends keyof MessageSearchFilters>(key: K, value: MessageSearchFilters[K]) => {
+    setFilters((prev) => ({ ...prev, [key]: value }));
+  };
+
+  const {
+    hits,
+    total,
+    isEnabled,
+    isLoading,
+    isError,
+    isFetchingNextPage,
+    hasNextPage,
+    fetchNextPage,
+  } = useMessageSearch(agentId, filters);
+
+  const handleScroll = (e: UIEvent<HTMLDivElement>) => {
+    const element = e.currentTarget;
+    if (element.scrollHeight - element.scrollTop <= element.clientHeight + 200 && hasNextPage && !isFetchingNextPage) {
+      fetchNextPage();
+    }
+  };
+
+  const hasRefinements =
+    filters.senderRole !== undefined ||
+    filters.messageType !== undefined ||
+    !!filters.source ||
+    !!filters.dateFrom ||
+    !!filters.dateTo;
+
+  return (
+    <div className="flex-1 min-h-0 flex flex-col">
+      {/* Query + filters */}
+      <div className="flex-shrink-0 px-2 pb-2 space-y-2">
+        <div className="relative">
+          <Search className="absolute start-2.5 top-1/2 -translate-y-1/2 w-4 h-4 text-neutral-400" />
+          <input
+            ref={searchInputRef}
+            type="text"
+            autoFocus
+            value={localQuery}
+            onChange={(e) => setLocalQuery(e.target.value)}
+            placeholder={t('conversations.message_search.placeholder')}
+            className="w-full ps-8 pe-8 py-1.5 text-sm bg-white border border-neutral-200 rounded-lg focus:outline-none focus:ring-1 focus:ring-brand-mojeeb focus:border-brand-mojeeb placeholder:text-neutral-400"
+          />
+          {localQuery && (
+            <button
+              onClick={() => setLocalQuery('')}
+              className="absolute end-2 top-1/2 -translate-y-1/2 p-0.5 rounded-full hover:bg-neutral-100"
+            >
+              <X className="w-3.5 h-3.5 text-neutral-400" />
+            </button>
+          )}
+        </div>
+
+        <div className="flex items-center gap-1.5">
+          <select
+            value={filters.senderRole ?? ''}
+            onChange={(e) => updateFilter('senderRole', e.target.value ? (Number(e.target.value) as SenderRole) : undefined)}
+            className={SELECT_CLASS}
+            aria-label={t('conversations.message_search.sender')}
+          >
+            <option value="">{t('conversations.message_search.any_sender')}</option>
+            {SENDER_ROLE_OPTIONS.map((option) => (
+              <option key={option.key} value={option.value}>
+                {t(`conversations.message_search.sender_${option.key}`)}
+              </option>
+            ))}
+          </select>
+          <select
+            value={filters.messageType ?? ''}
+            onChange={(e) => updateFilter('messageType', e.target.value ? (Number(e.target.value) as MessageType) : undefined)}
+            className={SELECT_CLASS}
+            aria-label={t('conversations.message_search.type')}
+          >
+            <option value="">{t('conversations.message_search.any_type')}</option>
+            {MESSAGE_TYPE_OPTIONS.map((option) => (
+              <option key={option.key} value={option.value}>
+                {t(`conversations.message_search.type_${option.key}`)}
+              </option>
+            ))}
+          </select>
+          <select
+            value={filters.source ?? ''}
+            onChange={(e) => updateFilter('source', e.target.value || undefined)}
+            className={SELECT_CLASS}
+            aria-label={t('conversations.message_search.source')}
+          >
+            <option value="">{t('conversations.filters.all_platforms')}</option>
+            {FILTERABLE_PLATFORMS.map((source) => (
+              <option key={source} value={source}>
+                {t(`conversations.filters.platform_${source}`, formatSourceLabel(source))}
+              </option>
+            ))}
+          </select>
+        </div>
+
+        <div className="flex items-center gap-1.5 text-xs text-neutral-500">
+          <label className="flex-1 flex items-center gap-1 min-w-0">
+            <span className="flex-shrink-0">{t('conversations.message_search.from')}</span>
+            <input
+              type="date"
+              value={filters.dateFrom ?? ''}
+              max={filters.dateTo}
+              onChange={(e) => updateFilter('dateFrom', e.target.value || undefined)}
+              className={SELECT_CLASS}
+            />
+          </label>
+          <label className="flex-1 flex items-center gap-1 min-w-0">
+            <span className="flex-shrink-0">{t('conversations.message_search.to')}</span>
+            <input
+              type="date"
+              value={filters.dateTo ?? ''}
+              min={filters.dateFrom}
+              onChange={(e) => updateFilter('dateTo', e.target.value || undefined)}
+              className={SELECT_CLASS}
+            />
+          </label>
+          {hasRefinements && (
+            <button
+              onClick={() => setFilters((prev) => ({ query: prev.query }))}
+              className="p-1 rounded-full hover:bg-neutral-100 flex-shrink-0"
+              title={t('conversations.message_search.clear_filters')}
+              aria-label={t('conversations.message_search.clear_filters')}
+            >
+              <X className="w-3.5 h-3.5 text-neutral-400" />
+            </button>
+          )}
+        </div>
+      </div>
+
+      {/* Results */}
+      <div className="flex-1 overflow-y-auto p-2 space-y-1" onScroll={handleScroll}>
+        {!isEnabled ? (
+          <div className="text-center py-8 text-sm text-neutral-500">
+            {t('conversations.message_search.min_length', { count: MIN_MESSAGE_SEARCH_LENGTH })}
+          </div>
+        ) : isLoading ? (
+          <div className="flex items-center justify-center py-8">
+            <Loader2 className="w-5 h-5 animate-spin text-neutral-500" />
+          </div>
+        ) : isError ? (
+          <div className="text-center py-8 text-sm text-red-600">
+            {t('conversations.message_search.error')}
+          </div>
+        ) : hits.length === 0 ? (
+          <div className="text-center py-8 text-sm text-neutral-500">
+            {t('conversations.message_search.no_results')}
+          </div>
+        ) : (
+          <>
+            <p className="px-2 pb-1 text-xs text-neutral-500">
+              {t('conversations.message_search.result_count', { count: total })}
+            </p>
+            {hits.map((hit) => (
+              <button
+                key={hit.id}
+                onClick={() => onSelectHit(hit)}
+                className={cn(
+                  'w-full text-start px-3 py-2 rounded-lg transition-colors',
+                  selectedMessageId === hit.id ? 'bg-white shadow-sm' : 'hover:bg-white/70'
+                )}
+              >
+                <div className="flex items-center justify-between gap-2">
+                  <span className="text-sm font-medium text-neutral-900 truncate">
+                    {hit.customer_name || t('conversations.message_search.unknown_customer')}
+                  </span>
+                  <span className="text-[11px] text-neutral-400 flex-shrink-0">
+                    {formatConversationTime(hit.created_at)}
+                  </span>
+                </div>
+                <p className="mt-0.5 text-xs text-neutral-600 line-clamp-2 break-words">
+                  {highlightPlainText(buildSearchSnippet(hit.message, filters.query), {
+                    itemId: hit.id,
+                    field: 'content',
+                    query: filters.query,
+                    currentMatchKey: null,
+                  })}
+                </p>
+                <p className="mt-0.5 text-[11px] text-neutral-400">
+                  {t(`conversations.filters.platform_${hit.source}`, formatSourceLabel(hit.source))}
+                  {' · '}
+                  {t(`conversations.message_search.sender_${senderKey(hit.sender_role)}`)}
+                </p>
+              </button>
+            ))}
+          </>
+        )}
+
+        {isFetchingNextPage && (
+          <div className="flex items-center justify-center py-4">
+            <Loader2 className="w-5 h-5 animate-spin text-neutral-500" />
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
+
+// --- Helpers ---
+
+function senderKey(role: SenderRole): 'customer' | 'ai' | 'human' | 'system' {
+  switch (role) {
+    case SenderRole.Customer:
+      return 'customer';
+    case SenderRole.AiAgent:
+      return 'ai';
+    case SenderRole.HumanAgent:
+      return 'human';
+    default:
+      return 'system';
+  }
+}
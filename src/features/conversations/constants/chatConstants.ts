@@ -112,6 +112,8 @@ export const MESSAGE_SEND_STATUS = {
   SENDING: 'sending',
   SENT: 'sent',
   ERROR: 'error',
+  QUEUED: 'queued',
+  RETRYING: 'retrying',
 } as const;
 
 /**
@@ -119,3 +121,24 @@ export const MESSAGE_SEND_STATUS = {
  */
 export type MessageSendStatus = typeof MESSAGE_SEND_STATUS[keyof typeof MESSAGE_SEND_STATUS];
 export type RealtimeEventType = typeof REALTIME_EVENTS[keyof typeof REALTIME_EVENTS];
+
+/**
+ * Platforms always offered by conversation filters (list dropdown and saved views),
+ * in display order. 'test' covers Studio test-chat conversations.
+ */
+export const FILTERABLE_PLATFORMS = ['facebook', 'instagram', 'whatsapp', 'widget', 'test'] as const;
+
+/** Search param carrying a shared saved-view id, e.g. /conversations?view=<id> */
+export const VIEW_SEARCH_PARAM = 'view';
+
+/**
+ * Search param that opens a conversation on arrival, e.g. /conversations?conversation=<id>.
+ * Consumed once by ConversationsPage and then removed from the URL.
+ */
+export const OPEN_CONVERSATION_SEARCH_PARAM = 'conversation';
+
+/**
+ * Companion to OPEN_CONVERSATION_SEARCH_PARAM: scrolls the opened conversation to
+ * this message, e.g. /conversations?conversation=<id>&message=<messageId>.
+ */
+export const OPEN_MESSAGE_SEARCH_PARAM = 'message';
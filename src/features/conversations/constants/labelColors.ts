@@ -0,0 +1,31 @@
+/**
+ * Conversation Label Colors
+ * Tailwind classes per palette entry. Spelled out in full so the classes
+ * survive purging.
+ */
+
+import type { ConversationLabelColor } from '../types';
+
+export const LABEL_COLORS: ConversationLabelColor[] = [
+  'neutral',
+  'red',
+  'orange',
+  'amber',
+  'green',
+  'teal',
+  'blue',
+  'violet',
+  'pink',
+];
+
+export const LABEL_COLOR_CLASSES: Record<ConversationLabelColor, { chip: string; dot: string }> = {
+  neutral: { chip: 'bg-neutral-100 border-neutral-200 text-neutral-700', dot: 'bg-neutral-500' },
+  red: { chip: 'bg-red-50 border-red-200 text-red-700', dot: 'bg-red-500' },
+  orange: { chip: 'bg-orange-50 border-orange-200 text-orange-700', dot: 'bg-orange-500' },
+  amber: { chip: 'bg-amber-50 border-amber-200 text-amber-700', dot: 'bg-amber-500' },
+  green: { chip: 'bg-green-50 border-green-200 text-green-700', dot: 'bg-green-500' },
+  teal: { chip: 'bg-teal-50 border-teal-200 text-teal-700', dot: 'bg-teal-500' },
+  blue: { chip: 'bg-blue-50 border-blue-200 text-blue-700', dot: 'bg-blue-500' },
+  violet: { chip: 'bg-violet-50 border-violet-200 text-violet-700', dot: 'bg-violet-500' },
+  pink: { chip: 'bg-pink-50 border-pink-200 text-pink-700', dot: 'bg-pink-500' },
+};
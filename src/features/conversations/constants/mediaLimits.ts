@@ -0,0 +1,111 @@
+/**
+ * Composer Media Limits
+ * What the composer may attach per channel. Each channel's own limits
+ * (WhatsApp Cloud API, Instagram Messaging API) are capped at what our upload
+ * endpoints accept, so a file that passes here is deliverable end to end.
+ */
+
+import type { FileValidationRules } from '@/features/agents/utils/fileValidation';
+
+export type AttachmentKind = 'image' | 'audio' | 'document' | 'video';
+
+/** Channel a conversation's replies are delivered through */
+export type MediaPlatform = 'whatsapp' | 'instagram' | 'widget';
+
+export interface MediaKindRules extends FileValidationRules {
+  /** Files of this kind per message */
+  maxPerMessage: number;
+}
+
+export interface PlatformMediaLimits {
+  /** null = the channel can't deliver this kind */
+  kinds: Record<AttachmentKind, MediaKindRules | null>;
+  /** Whether images can carry a caption */
+  imageCaptions: boolean;
+  /** Longest caption the channel accepts */
+  maxCaptionLength: number;
+}
+
+const MB = 1024 * 1024;
+
+const IMAGE_TYPES = ['image/jpeg', 'image/png'] as const;
+const IMAGE_EXTENSIONS = ['.jpg', '.jpeg', '.png'] as const;
+const AUDIO_TYPES = [
+  'audio/mp3',
+  'audio/mpeg',
+  'audio/mp4',
+  'audio/m4a',
+  'audio/ogg',
+  'audio/webm',
+  'audio/wav',
+  'audio/aac',
+  'audio/flac',
+] as const;
+const AUDIO_EXTENSIONS = ['.mp3', '.m4a', '.ogg', '.wav', '.aac', '.flac', '.webm'] as const;
+const DOCUMENT_TYPES = [
+  'application/pdf',
+  'application/vnd.openxmlformats-officedocument.wordprocessingml.document', // .docx
+  'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet', // .xlsx
+  'application/vnd.ms-excel', // .xls
+  'text/plain', // .txt
+  'text/csv', // .csv
+] as const;
+const DOCUMENT_EXTENSIONS = ['.pdf', '.docx', '.xlsx', '.xls', '.txt', '.csv'] as const;
+const VIDEO_TYPES = ['video/mp4', 'video/3gpp', 'video/webm', 'video/quicktime'] as const;
+const VIDEO_EXTENSIONS = ['.mp4', '.3gp', '.webm', '.mov'] as const;
+
+export const PLATFORM_MEDIA_LIMITS: Record<MediaPlatform, PlatformMediaLimits> = {
+  /** Website widget: our own upload limits */
+  widget: {
+    kinds: {
+      image: { maxSizeBytes: 10 * MB, allowedTypes: IMAGE_TYPES, allowedExtensions: IMAGE_EXTENSIONS, maxPerMessage: 10 },
+      audio: { maxSizeBytes: 5 * MB, allowedTypes: AUDIO_TYPES, allowedExtensions: AUDIO_EXTENSIONS, maxPerMessage: 5 },
+      document: { maxSizeBytes: 20 * MB, allowedTypes: DOCUMENT_TYPES, allowedExtensions: DOCUMENT_EXTENSIONS, maxPerMessage: 1 },
+      video: { maxSizeBytes: 16 * MB, allowedTypes: VIDEO_TYPES, allowedExtensions: VIDEO_EXTENSIONS, maxPerMessage: 1 },
+    },
+    imageCaptions: true,
+    maxCaptionLength: 1024,
+  },
+  /** WhatsApp: images 5MB; video mp4/3gpp only; no webm/flac/wav audio */
+  whatsapp: {
+    kinds: {
+      image: { maxSizeBytes: 5 * MB, allowedTypes: IMAGE_TYPES, allowedExtensions: IMAGE_EXTENSIONS, maxPerMessage: 10 },
+      audio: {
+        maxSizeBytes: 5 * MB,
+        allowedTypes: ['audio/mpeg', 'audio/mp3', 'audio/mp4', 'audio/m4a', 'audio/ogg', 'audio/aac'],
+        allowedExtensions: ['.mp3', '.m4a', '.ogg', '.aac'],
+        maxPerMessage: 5,
+      },
+      document: { maxSizeBytes: 20 * MB, allowedTypes: DOCUMENT_TYPES, allowedExtensions: DOCUMENT_EXTENSIONS, maxPerMessage: 1 },
+      video: {
+        maxSizeBytes: 16 * MB,
+        allowedTypes: ['video/mp4', 'video/3gpp'],
+        allowedExtensions: ['.mp4', '.3gp'],
+        maxPerMessage: 1,
+      },
+    },
+    imageCaptions: true,
+    maxCaptionLength: 1024,
+  },
+  /** Instagram: images 8MB, no documents, no captions on media */
+  instagram: {
+    kinds: {
+      image: { maxSizeBytes: 8 * MB, allowedTypes: IMAGE_TYPES, allowedExtensions: IMAGE_EXTENSIONS, maxPerMessage: 10 },
+      audio: {
+        maxSizeBytes: 5 * MB,
+        allowedTypes: ['audio/mp4', 'audio/m4a', 'audio/aac', 'audio/wav'],
+        allowedExtensions: ['.m4a', '.aac', '.wav'],
+        maxPerMessage: 5,
+      },
+      document: null,
+      video: {
+        maxSizeBytes: 16 * MB,
+        allowedTypes: ['video/mp4', 'video/webm', 'video/quicktime'],
+        allowedExtensions: ['.mp4', '.webm', '.mov'],
+        maxPerMessage: 1,
+      },
+    },
+    imageCaptions: false,
+    maxCaptionLength: 0,
+  },
+};
@@ -0,0 +1,66 @@
+import { useMutation, useQueryClient, type InfiniteData } from '@tanstack/react-query';
+import { toast } from 'sonner';
+import { useTranslation } from 'react-i18next';
+import { useAgentContext } from '@/hooks/useAgentContext';
+import { isToastHandled } from '@/lib/errors';
+import { queryKeys } from '@/lib/queryKeys';
+import {
+  assignConversation,
+  type ConversationResponse,
+  type CursorPaginatedConversationsResponse,
+} from '../services/conversationApi';
+import { updateConversationInCache } from '../utils/optimisticUpdates';
+
+/**
+ * Assign a conversation to a teammate (or unassign with `userId: null`).
+ *
+ * Optimistically patches both the list cache and the single-conversation cache
+ * ChatPanel reads from. The backend mirrors the assignee onto the linked lead,
+ * so the leads list is refreshed as well.
+ */
+export function useAssignConversation() {
+  const queryClient = useQueryClient();
+  const { t } = useTranslation();
+  const { agentId } = useAgentContext();
+
+  return useMutation({
+    mutationFn: ({ conversationId, userId }: { conversationId: string; userId: string | null }) =>
+      assignConversation(conversationId, userId),
+
+    onMutate: async ({ conversationId, userId }) => {
+      const singleKey = queryKeys.conversation(conversationId);
+      await queryClient.cancelQueries({ queryKey: queryKeys.conversations(agentId) });
+      await queryClient.cancelQueries({ queryKey: singleKey });
+
+      const previousData = queryClient.getQueriesData<InfiniteData<CursorPaginatedConversationsResponse>>({
+        queryKey: queryKeys.conversations(agentId),
+      });
+      const previousConversation = queryClient.getQueryData<ConversationResponse>(singleKey);
+
+      updateConversationInCache(queryClient, agentId, conversationId, { assigned_to: userId });
+      queryClient.setQueryData<ConversationResponse>(singleKey, (old) =>
+        old ? { ...old, assigned_to: userId } : old
+      );
+
+      return { previousData, previousConversation };
+    },
+
+    onError: (error, { conversationId }, context) => {
+      context?.previousData.forEach(([key, data]) => {
+        if (data) queryClient.setQueryData(key, data);
+      });
+      if (context?.previousConversation) {
+        queryClient.setQueryData(queryKeys.conversation(conversationId), context.previousConversation);
+      }
+      if (!isToastHandled(error)) {
+        toast.error(t('conversation_assignment.assign_error'));
+      }
+    },
+
+    onSettled: (_data, _error, { conversationId }) => {
+      queryClient.invalidateQueries({ queryKey: queryKeys.conversations(agentId) });
+      queryClient.invalidateQueries({ queryKey: queryKeys.conversation(conversationId) });
+      queryClient.invalidateQueries({ queryKey: queryKeys.leads(agentId) });
+    },
+  });
+}
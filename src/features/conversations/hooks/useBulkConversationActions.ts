@@ -0,0 +1,197 @@
+import { useMutation, useQueryClient } from '@tanstack/react-query';
+import { toast } from 'sonner';
+import { useTranslation } from 'react-i18next';
+import { useAgentContext } from '@/hooks/useAgentContext';
+import { queryKeys } from '@/lib/queryKeys';
+import { logger } from '@/lib/logger';
+import {
+  assignConversation,
+  markConversationAsRead,
+  markConversationAsResolved,
+  markConversationAsUnread,
+  pinConversation,
+  toggleAIMode,
+  unpinConversation,
+  type ConversationResponse,
+} from '../services/conversationApi';
+import { chatApiService } from '../services/chatApiService';
+import { useConversationStore } from '../stores/conversationStore';
+import {
+  removeConversationsFromCache,
+  snapshotConversationsInCache,
+  updateConversationInCache,
+} from '../utils/optimisticUpdates';
+
+export type BulkConversationAction =
+  | { type: 'mark_read' }
+  | { type: 'mark_unread' }
+  | { type: 'resolve' }
+  | { type: 'pin' }
+  | { type: 'unpin' }
+  | { type: 'set_ai'; isAI: boolean }
+  | { type: 'assign'; userId: string | null }
+  | { type: 'delete' };
+
+export interface BulkConversationActionResult {
+  action: BulkConversationAction;
+  succeeded: string[];
+  failed: string[];
+}
+
+// Per-conversation endpoints only — keep the fan-out polite for large selections.
+const BULK_CONCURRENCY = 5;
+
+function performAction(action: BulkConversationAction, conversationId: string): Promise<unknown> {
+  switch (action.type) {
+    case 'mark_read':
+      return markConversationAsRead(conversationId);
+    case 'mark_unread':
+      return markConversationAsUnread(conversationId);
+    case 'resolve':
+      return markConversationAsResolved(conversationId);
+    case 'pin':
+      return pinConversation(conversationId);
+    case 'unpin':
+      return unpinConversation(conversationId);
+    case 'set_ai':
+      return toggleAIMode(conversationId, action.isAI);
+    case 'assign':
+      return assignConversation(conversationId, action.userId);
+    case 'delete':
+      return chatApiService.deleteConversation(conversationId);
+  }
+}
+
+/** Same field changes the single-item hooks apply optimistically. Delete is not optimistic. */
+function optimisticPatch(action: BulkConversationAction): Partial<ConversationResponse> | null {
+  const now = new Date().toISOString();
+  switch (action.type) {
+    case 'mark_read':
+      return { is_read: true, read_at: now };
+    case 'mark_unread':
+      return { is_read: false, read_at: undefined };
+    case 'resolve':
+      return { urgent: false, requires_human_attention: false, am_not_sure_how_to_answer: false, sentiment: 3 };
+    case 'pin':
+      return { is_pinned: true, pinned_at: now };
+    case 'unpin':
+      return { is_pinned: false, pinned_at: undefined };
+    case 'set_ai':
+      return { is_ai: action.isAI };
+    case 'assign':
+      return { assigned_to: action.userId };
+    case 'delete':
+      return null;
+  }
+}
+
+async function settleWithConcurrency<T>(
+  items: string[],
+  limit: number,
+  task: (item: string) => Promise<T>
+): Promise<PromiseSettledResult<T>[]> {
+  const results: PromiseSettledResult<T>[] = new Array(items.length);
+  let next = 0;
+
+  const worker = async () => {
+    while (next < items.length) {
+      const index = next++;
+      try {
+        results[index] = { status: 'fulfilled', value: await task(items[index]) };
+      } catch (reason) {
+        results[index] = { status: 'rejected', reason };
+      }
+    }
+  };
+
+  await Promise.all(Array.from({ length: Math.min(limit, items.length) }, worker));
+  return results;
+}
+
+/**
+ * Applies one action to many conversations (multi-select bulk bar).
+ *
+ * - Optimistically patches every selected row in the list cache up front
+ * - Calls the per-conversation endpoint for each item (bounded concurrency)
+ * - Rolls back only the items whose request failed, leaving successes in place
+ * - Resolves with a per-item summary and shows a result toast
+ */
+export function useBulkConversationActions() {
+  const queryClient = useQueryClient();
+  const { t } = useTranslation();
+  const { agentId } = useAgentContext();
+  const selectedConversationId = useConversationStore((state) => state.selectedConversationId);
+  const clearSelection = useConversationStore((state) => state.clearSelection);
+
+  return useMutation({
+    mutationFn: async ({
+      action,
+      conversationIds,
+    }: {
+      action: BulkConversationAction;
+      conversationIds: string[];
+    }): Promise<BulkConversationActionResult> => {
+      await queryClient.cancelQueries({ queryKey: queryKeys.conversations(agentId) });
+
+      const snapshot = snapshotConversationsInCache(queryClient, agentId, conversationIds);
+      const patch = optimisticPatch(action);
+      if (patch) {
+        conversationIds.forEach((id) => updateConversationInCache(queryClient, agentId, id, patch));
+      }
+
+      const results = await settleWithConcurrency(conversationIds, BULK_CONCURRENCY, (id) =>
+        performAction(action, id)
+      );
+
+      const succeeded: string[] = [];
+      const failed: string[] = [];
+      results.forEach((result, index) => {
+        const id = conversationIds[index];
+        if (result.status === 'fulfilled') {
+          succeeded.push(id);
+          return;
+        }
+        failed.push(id);
+        logger.warn('[useBulkConversationActions]', 'Bulk action failed for conversation', {
+          action: action.type,
+          conversationId: id,
+          error: result.reason instanceof Error ? result.reason.message : String(result.reason),
+        });
+        // Per-item rollback to the pre-action row
+        const previous = snapshot.get(id);
+        if (patch && previous) {
+          updateConversationInCache(queryClient, agentId, id, previous);
+        }
+      });
+
+      if (action.type === 'delete' && succeeded.length > 0) {
+        removeConversationsFromCache(queryClient, agentId, succeeded);
+        if (selectedConversationId && succeeded.includes(selectedConversationId)) {
+          clearSelection();
+        }
+      }
+
+      return { action, succeeded, failed };
+    },
+
+    onSuccess: ({ succeeded, failed }) => {
+      if (failed.length === 0) {
+        toast.success(t('conversation_bulk.result_success', { count: succeeded.length }));
+      } else if (succeeded.length === 0) {
+        toast.error(t('conversation_bulk.result_all_failed', { count: failed.length }));
+      } else {
+        toast.warning(
+          t('conversation_bulk.result_partial', { succeeded: succeeded.length, failed: failed.length })
+        );
+      }
+    },
+
+    onSettled: (result) => {
+      queryClient.invalidateQueries({ queryKey: queryKeys.conversations(agentId) });
+      queryClient.invalidateQueries({ queryKey: queryKeys.conversationViewCounts(agentId) });
+      result?.succeeded.forEach((id) => {
+        queryClient.invalidateQueries({ queryKey: queryKeys.conversation(id) });
+      });
+    },
+  });
+}
@@ -9,13 +9,21 @@ import { supabase } from '@/lib/supabase';
 import { logger } from '@/lib/logger';
 import type { RealtimeChannel, RealtimePostgresChangesPayload } from '@supabase/supabase-js';
 import type { ChatStorageAdapter } from './useChatStorage';
-import type { ChatMessage, MessageSendStatus } from '../types/conversation.types';
-import { MessageStatus, SenderRole, MessageType } from '../types/conversation.types';
+import type { ChatOutboxAdapter } from './useMessageOutbox';
+import type {
+  ChatMessage,
+  MessageReaction,
+  MessageReplyTo,
+  MessageSendStatus,
+  SendMessageOptions,
+} from '../types/conversation.types';
+import { MessageStatus, SenderRole, MessageType, detectMessageType } from '../types/conversation.types';
 import {
   handleMessageSendError,
   handleSubscriptionError,
   handleAITimeoutError,
 } from '../utils/chatErrorHandler';
+import { isNetworkError } from '../utils/outbox';
 import {
   CHAT_TIMEOUTS,
   CHAT_IDENTIFIERS,
@@ -35,6 +43,9 @@ export interface ChatEngineConfig {
   /** Storage adapter */
   storage: ChatStorageAdapter;
 
+  /** Offline outbox — when set, sends that fail on the network are queued instead of erroring */
+  outbox?: ChatOutboxAdapter;
+
   /** Enable pagination (production only) */
   enablePagination?: boolean;
 
@@ -51,6 +62,8 @@ export interface ChatEngineConfig {
     agentId?: string;
     messageType?: MessageType;
     attachments?: string; // JSON string of attachments
+    clientMessageId?: string; // Correlation ID, for backend dedupe of replays
+    replyToMessageId?: string; // Quoted parent, delivered as platform reply context
   }) => Promise<ChatMessage>;
 }
 
@@ -71,7 +84,7 @@ export interface ChatEngineReturn {
   hasMore?: boolean;
 
   /** Send message with optimistic update */
-  sendMessage: (content: string, attachments?: string) => Promise<void>;
+  sendMessage: (content: string, attachments?: string, options?: SendMessageOptions) => Promise<void>;
 
   /** Load more messages (pagination) */
   loadMore?: () => Promise<void>;
@@ -115,6 +128,10 @@ interface BackendMessage {
   updated_at: string;
   platform_message_id?: string | null;
   action_metadata?: Record<string, unknown> | null;
+  client_message_id?: string | null;
+  reply_to?: MessageReplyTo | null;
+  reactions?: MessageReaction[] | null;
+  edited_at?: string | null;
 }
 
 /**
@@ -134,6 +151,10 @@ const transformMessage = (backendMsg: BackendMessage): ChatMessage => {
     updated_at: backendMsg.updated_at,
     platform_message_id: backendMsg.platform_message_id || null,
     action_metadata: backendMsg.action_metadata || null,
+    reply_to: backendMsg.reply_to || null,
+    reactions: backendMsg.reactions || null,
+    edited_at: backendMsg.edited_at || null,
+    correlation_id: backendMsg.client_message_id || undefined,
   };
 };
 
@@ -205,6 +226,7 @@ export function useChatEngine(config: ChatEngineConfig): ChatEngineReturn {
     conversationId,
     agentId,
     storage,
+    outbox,
     enablePagination = false,
     onError,
     sendMessageFn,
@@ -440,7 +462,7 @@ export function useChatEngine(config: ChatEngineConfig): ChatEngineReturn {
   // === Send Message (Optimistic) ===
 
   const sendMessage = useCallback(
-    async (content: string, attachments?: string) => {
+    async (content: string, attachments?: string, options?: SendMessageOptions) => {
       // Allow empty content if attachments are present (for voice messages)
       const hasContent = content.trim().length > 0;
       const hasAttachments = attachments && attachments.trim().length > 0;
@@ -459,20 +481,6 @@ export function useChatEngine(config: ChatEngineConfig): ChatEngineReturn {
         conversationId,
       });
 
-      // Detect message type from attachments
-      const detectMessageType = (attachmentsJson?: string): MessageType => {
-        if (!attachmentsJson) return MessageType.Text;
-
-        try {
-          const parsed = JSON.parse(attachmentsJson);
-          if (parsed.audio && parsed.audio.length > 0) return MessageType.Audio;
-          if (parsed.images && parsed.images.length > 0) return MessageType.Image;
-          return MessageType.Text;
-        } catch {
-          return MessageType.Text;
-        }
-      };
-
       // 1. Create optimistic message
       const optimisticMessage: ChatMessage = {
         id: tempId,
@@ -487,12 +495,20 @@ export function useChatEngine(config: ChatEngineConfig): ChatEngineReturn {
         updated_at: new Date().toISOString(),
         platform_message_id: null,
         action_metadata: null,
+        reply_to: options?.replyTo ?? null,
         // UI-only fields
         correlation_id: correlationId,
         sendStatus: 'sending' as MessageSendStatus,
         isOptimistic: true,
       };
 
+      // Offline, or earlier messages still queued: go straight to the outbox so order holds
+      if (outbox && (!navigator.onLine || outbox.hasPending())) {
+        logger.info('[useChatEngine]', 'Queuing message in outbox', { correlationId, conversationId });
+        await outbox.enqueue(optimisticMessage);
+        return;
+      }
+
       // 2. Add to UI immediately (optimistic update)
       addOptimisticMessage(tempId, optimisticMessage);
       setIsSending(true);
@@ -524,6 +540,8 @@ export function useChatEngine(config: ChatEngineConfig): ChatEngineReturn {
           agentId,
           messageType: detectMessageType(attachments),
           attachments,
+          clientMessageId: correlationId,
+          replyToMessageId: options?.replyTo?.message_id ?? undefined,
         });
 
         if (!isMountedRef.current) return;
@@ -544,6 +562,20 @@ export function useChatEngine(config: ChatEngineConfig): ChatEngineReturn {
       } catch (error) {
         if (!isMountedRef.current) return;
 
+        // Network drop: hand the message to the outbox (same correlation ID) instead of failing it
+        if (outbox && isNetworkError(error)) {
+          storage.removeMessage(tempId);
+          removeOptimisticMessage(tempId);
+          setIsSending(false);
+          clearAITimeout();
+          logger.warn('[useChatEngine]', 'Send failed on the network - message queued', {
+            correlationId,
+            conversationId,
+          });
+          await outbox.enqueue(optimisticMessage);
+          return;
+        }
+
         // Mark optimistic message as error
         storage.updateMessage(tempId, {
           sendStatus: 'error' as MessageSendStatus,
@@ -569,7 +601,9 @@ export function useChatEngine(config: ChatEngineConfig): ChatEngineReturn {
       agentId,
       sendMessageFn,
       storage,
+      outbox,
       addOptimisticMessage,
+      removeOptimisticMessage,
       startAITimeout,
       clearAITimeout,
       onError,
@@ -601,7 +635,9 @@ export function useChatEngine(config: ChatEngineConfig): ChatEngineReturn {
       storage.removeMessage(messageId);
 
       // Resend
-      await sendMessage(message.message, message.attachments ? String(message.attachments) : undefined);
+      await sendMessage(message.message, message.attachments ? String(message.attachments) : undefined, {
+        replyTo: message.reply_to,
+      });
     },
     [storage, sendMessage, conversationId]
   );
@@ -0,0 +1,80 @@
+/**
+ * Contact Profile — React Query hooks
+ * A merge or unmerge regroups conversations, so every other cached profile is
+ * invalidated (other conversations may have moved in or out of a contact).
+ */
+
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { toast } from 'sonner';
+import { useTranslation } from 'react-i18next';
+import { isToastHandled } from '@/lib/errors';
+import { queryKeys } from '@/lib/queryKeys';
+import { getContactProfile, mergeContact, unmergeContactIdentity } from '../services/contactsApi';
+import type { ContactProfile } from '../types';
+
+type ContactToastKey =
+  | 'contact_profile.merge_success'
+  | 'contact_profile.merge_failed'
+  | 'contact_profile.unmerge_success'
+  | 'contact_profile.unmerge_failed';
+
+export function useContactProfile(conversationId: string | undefined, enabled = true) {
+  return useQuery({
+    queryKey: queryKeys.contactProfile(conversationId),
+    queryFn: () => getContactProfile(conversationId!),
+    enabled: !!conversationId && enabled,
+    staleTime: 60 * 1000,
+  });
+}
+
+function useContactProfileMutation<TVariables>(
+  conversationId: string,
+  mutationFn: (variables: TVariables) => Promise<ContactProfile>,
+  successKey: ContactToastKey,
+  errorKey: ContactToastKey
+) {
+  const queryClient = useQueryClient();
+  const { t } = useTranslation();
+
+  return useMutation({
+    mutationFn,
+    onSuccess: (profile) => {
+      const profileKey = queryKeys.contactProfile(conversationId);
+      queryClient.setQueryData(profileKey, profile);
+      // The response is already fresh for this conversation; only the other profiles need a refetch
+      queryClient.invalidateQueries({
+        queryKey: queryKeys.contactProfiles(),
+        predicate: (query) => query.queryKey[1] !== profileKey[1],
+      });
+      toast.success(t(successKey));
+    },
+    onError: (error: unknown) => {
+      if (isToastHandled(error)) return;
+      toast.error(t(errorKey));
+    },
+  });
+}
+
+/**
+ * Merge the contact of `otherConversationId` into the contact being viewed
+ */
+export function useMergeContact(conversationId: string, contactId: string | undefined) {
+  return useContactProfileMutation(
+    conversationId,
+    (otherConversationId: string) => mergeContact(contactId!, { conversation_id: otherConversationId }),
+    'contact_profile.merge_success',
+    'contact_profile.merge_failed'
+  );
+}
+
+/**
+ * Split one identity back out of the contact being viewed
+ */
+export function useUnmergeContactIdentity(conversationId: string, contactId: string | undefined) {
+  return useContactProfileMutation(
+    conversationId,
+    (identityId: string) => unmergeContactIdentity(contactId!, identityId),
+    'contact_profile.unmerge_success',
+    'contact_profile.unmerge_failed'
+  );
+}
@@ -0,0 +1,37 @@
+import { useMutation } from '@tanstack/react-query';
+import { toast } from 'sonner';
+import { useTranslation } from 'react-i18next';
+import { isToastHandled } from '@/lib/errors';
+import { chatApiService } from '../services/chatApiService';
+import type { CopilotRewriteMode } from '../types';
+
+/**
+ * Copilot actions for one conversation. Each is generated on demand (they
+ * cost a model call), so they're mutations rather than cached queries — the
+ * latest result lives in `data` until the panel unmounts.
+ */
+export function useConversationCopilot(conversationId: string, agentId: string) {
+  const { t } = useTranslation();
+
+  const onError = (error: unknown) => {
+    if (!isToastHandled(error)) toast.error(t('copilot.error'));
+  };
+
+  const summary = useMutation({
+    mutationFn: () => chatApiService.getCopilotSummary({ conversationId, agentId }),
+    onError,
+  });
+
+  const suggestions = useMutation({
+    mutationFn: () => chatApiService.getCopilotSuggestions({ conversationId, agentId }),
+    onError,
+  });
+
+  const rewrite = useMutation({
+    mutationFn: ({ draft, mode }: { draft: string; mode: CopilotRewriteMode }) =>
+      chatApiService.rewriteDraft({ conversationId, agentId, draft, mode }),
+    onError,
+  });
+
+  return { summary, suggestions, rewrite };
+}
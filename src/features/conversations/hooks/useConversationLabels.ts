@@ -0,0 +1,161 @@
+/**
+ * Conversation Labels — React Query hooks
+ * The label list is cached per organization; conversations only carry label
+ * ids, so a rename or recolor shows up everywhere without refetching lists.
+ */
+
+import { useMemo } from 'react';
+import { useMutation, useQuery, useQueryClient, type InfiniteData } from '@tanstack/react-query';
+import { toast } from 'sonner';
+import { useTranslation } from 'react-i18next';
+import { useAgentContext } from '@/hooks/useAgentContext';
+import { isToastHandled } from '@/lib/errors';
+import { queryKeys } from '@/lib/queryKeys';
+import {
+  createConversationLabel,
+  deleteConversationLabel,
+  getConversationLabels,
+  updateConversationLabel,
+} from '../services/conversationLabelsApi';
+import {
+  setConversationLabels,
+  type ConversationResponse,
+  type CursorPaginatedConversationsResponse,
+} from '../services/conversationApi';
+import { updateConversationInCache } from '../utils/optimisticUpdates';
+import type {
+  ConversationLabel,
+  CreateConversationLabelRequest,
+  UpdateConversationLabelRequest,
+} from '../types';
+
+export function useConversationLabels(organizationId: string | undefined) {
+  return useQuery({
+    queryKey: queryKeys.conversationLabels(organizationId),
+    queryFn: () => getConversationLabels(organizationId!),
+    enabled: !!organizationId,
+    staleTime: 5 * 60 * 1000,
+  });
+}
+
+/** Labels by id, for resolving a conversation's `label_ids` */
+export function useConversationLabelMap(organizationId: string | undefined) {
+  const { data: labels } = useConversationLabels(organizationId);
+  return useMemo(() => new Map((labels ?? []).map((label) => [label.id, label])), [labels]);
+}
+
+export function useCreateConversationLabel(organizationId: string | undefined) {
+  const queryClient = useQueryClient();
+  const { t } = useTranslation();
+
+  return useMutation({
+    mutationFn: (payload: CreateConversationLabelRequest) => createConversationLabel(payload),
+    onSuccess: (created) => {
+      queryClient.setQueryData<ConversationLabel[]>(
+        queryKeys.conversationLabels(organizationId),
+        (prev) => [...(prev ?? []), created].sort((a, b) => a.name.localeCompare(b.name))
+      );
+      toast.success(t('conversation_labels.create_success'));
+    },
+    onError: (error) => {
+      if (!isToastHandled(error)) {
+        toast.error(t('conversation_labels.create_error'));
+      }
+    },
+  });
+}
+
+export function useUpdateConversationLabel(organizationId: string | undefined) {
+  const queryClient = useQueryClient();
+  const { t } = useTranslation();
+
+  return useMutation({
+    mutationFn: ({ id, payload }: { id: string; payload: UpdateConversationLabelRequest }) =>
+      updateConversationLabel(id, payload),
+    onSuccess: (updated) => {
+      queryClient.setQueryData<ConversationLabel[]>(
+        queryKeys.conversationLabels(organizationId),
+        (prev) => prev?.map((label) => (label.id === updated.id ? updated : label)) ?? [updated]
+      );
+      toast.success(t('conversation_labels.update_success'));
+    },
+    onError: (error) => {
+      if (!isToastHandled(error)) {
+        toast.error(t('conversation_labels.update_error'));
+      }
+    },
+  });
+}
+
+export function useDeleteConversationLabel(organizationId: string | undefined) {
+  const queryClient = useQueryClient();
+  const { t } = useTranslation();
+
+  return useMutation({
+    mutationFn: (id: string) => deleteConversationLabel(id),
+    onSuccess: (_void, id) => {
+      queryClient.setQueryData<ConversationLabel[]>(
+        queryKeys.conversationLabels(organizationId),
+        (prev) => prev?.filter((label) => label.id !== id) ?? []
+      );
+      // The backend strips the label from conversations — refresh lists filtered by it
+      queryClient.invalidateQueries({ queryKey: ['conversations'] });
+      toast.success(t('conversation_labels.delete_success'));
+    },
+    onError: (error) => {
+      if (!isToastHandled(error)) {
+        toast.error(t('conversation_labels.delete_error'));
+      }
+    },
+  });
+}
+
+/**
+ * Replace a conversation's labels. Optimistically patches the list cache and
+ * the single-conversation cache ChatPanel reads from, like assignment.
+ */
+export function useSetConversationLabels() {
+  const queryClient = useQueryClient();
+  const { t } = useTranslation();
+  const { agentId } = useAgentContext();
+
+  return useMutation({
+    mutationFn: ({ conversationId, labelIds }: { conversationId: string; labelIds: string[] }) =>
+      setConversationLabels(conversationId, labelIds),
+
+    onMutate: async ({ conversationId, labelIds }) => {
+      const singleKey = queryKeys.conversation(conversationId);
+      await queryClient.cancelQueries({ queryKey: queryKeys.conversations(agentId) });
+      await queryClient.cancelQueries({ queryKey: singleKey });
+
+      const previousData = queryClient.getQueriesData<InfiniteData<CursorPaginatedConversationsResponse>>({
+        queryKey: queryKeys.conversations(agentId),
+      });
+      const previousConversation = queryClient.getQueryData<ConversationResponse>(singleKey);
+
+      updateConversationInCache(queryClient, agentId, conversationId, { label_ids: labelIds });
+      queryClient.setQueryData<ConversationResponse>(singleKey, (old) =>
+        old ? { ...old, label_ids: labelIds } : old
+      );
+
+      return { previousData, previousConversation };
+    },
+
+    onError: (error, { conversationId }, context) => {
+      context?.previousData.forEach(([key, data]) => {
+        if (data) queryClient.setQueryData(key, data);
+      });
+      if (context?.previousConversation) {
+        queryClient.setQueryData(queryKeys.conversation(conversationId), context.previousConversation);
+      }
+      if (!isToastHandled(error)) {
+        toast.error(t('conversation_labels.apply_error'));
+      }
+    },
+
+    onSettled: (_data, _error, { conversationId }) => {
+      queryClient.invalidateQueries({ queryKey: queryKeys.conversations(agentId) });
+      queryClient.invalidateQueries({ queryKey: queryKeys.conversation(conversationId) });
+    },
+  });
+}
@@ -0,0 +1,176 @@
+/**
+ * Conversation Internal Notes — React Query hooks
+ * Notes are team-only and live beside the message cache, not inside it;
+ * UnifiedChatView interleaves the two by timestamp.
+ */
+
+import { useEffect } from 'react';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { toast } from 'sonner';
+import { useTranslation } from 'react-i18next';
+import { useAgentContext } from '@/hooks/useAgentContext';
+import { useAuthStore } from '@/features/auth/stores/authStore';
+import { isToastHandled } from '@/lib/errors';
+import { queryKeys } from '@/lib/queryKeys';
+import { supabase } from '@/lib/supabase';
+import { channelRegistry } from '@/lib/supabaseChannelRegistry';
+import {
+  createConversationNote,
+  deleteConversationNote,
+  getConversationNotes,
+  updateConversationNote,
+} from '../services/conversationNotesApi';
+import { extractMentionedUserIds } from '../utils/mentions';
+import type { ConversationNote } from '../types';
+
+/**
+ * Notes for a conversation, kept live by a realtime subscription so teammates
+ * see each other's notes without a refresh.
+ */
+export function useConversationNotes(conversationId: string | undefined) {
+  const queryClient = useQueryClient();
+
+  const query = useQuery({
+    queryKey: queryKeys.conversationNotes(conversationId),
+    queryFn: () => getConversationNotes(conversationId!),
+    enabled: !!conversationId,
+    staleTime: 60 * 1000,
+  });
+
+  useEffect(() => {
+    if (!conversationId) return;
+
+    const channel = supabase
+      .channel(`conversation-notes-${conversationId}`)
+      .on(
+        'postgres_changes',
+        {
+          event: '*',
+          schema: 'public',
+          table: 'conversation_notes',
+          filter: `conversation_id=eq.${conversationId}`,
+        },
+        () => {
+          queryClient.invalidateQueries({ queryKey: queryKeys.conversationNotes(conversationId) });
+        }
+      )
+      .subscribe();
+
+    channelRegistry.register(channel, `conversation-notes-${conversationId}`);
+
+    return () => {
+      channelRegistry.unregister(channel);
+      supabase.removeChannel(channel);
+    };
+  }, [conversationId, queryClient]);
+
+  return query;
+}
+
+export function useCreateConversationNote(conversationId: string) {
+  const queryClient = useQueryClient();
+  const { t } = useTranslation();
+  const { agentId } = useAgentContext();
+  const user = useAuthStore((state) => state.user);
+  const notesKey = queryKeys.conversationNotes(conversationId);
+
+  return useMutation({
+    mutationFn: (text: string) =>
+      createConversationNote(conversationId, { text, mentions: extractMentionedUserIds(text) }),
+
+    onMutate: async (text) => {
+      await queryClient.cancelQueries({ queryKey: notesKey });
+      const previousNotes = queryClient.getQueryData<ConversationNote[]>(notesKey);
+
+      const now = new Date().toISOString();
+      const optimisticNote: ConversationNote = {
+        id: `temp-${Date.now()}`,
+        conversation_id: conversationId,
+        agent_id: agentId ?? '',
+        created_by: user?.id ?? '',
+        user_name: user?.name ?? '',
+        text,
+        mentions: extractMentionedUserIds(text),
+        is_edited: false,
+        created_at: now,
+        updated_at: now,
+      };
+
+      queryClient.setQueryData<ConversationNote[]>(notesKey, (old) =>
+        old ? [...old, optimisticNote] : [optimisticNote]
+      );
+
+      return { previousNotes };
+    },
+
+    onError: (error, _text, context) => {
+      if (context?.previousNotes) {
+        queryClient.setQueryData(notesKey, context.previousNotes);
+      }
+      if (!isToastHandled(error)) {
+        toast.error(t('conversation_notes.add_error'));
+      }
+    },
+
+    onSettled: () => {
+      queryClient.invalidateQueries({ queryKey: notesKey });
+    },
+  });
+}
+
+export function useUpdateConversationNote(conversationId: string) {
+  const queryClient = useQueryClient();
+  const { t } = useTranslation();
+  const notesKey = queryKeys.conversationNotes(conversationId);
+
+  return useMutation({
+    mutationFn: ({ noteId, text }: { noteId: string; text: string }) =>
+      updateConversationNote(conversationId, noteId, { text, mentions: extractMentionedUserIds(text) }),
+
+    onSuccess: (updated) => {
+      queryClient.setQueryData<ConversationNote[]>(notesKey, (old) =>
+        old?.map((note) => (note.id === updated.id ? updated : note))
+      );
+    },
+
+    onError: (error) => {
+      if (!isToastHandled(error)) {
+        toast.error(t('conversation_notes.update_error'));
+      }
+    },
+  });
+}
+
+export function useDeleteConversationNote(conversationId: string) {
+  const queryClient = useQueryClient();
+  const { t } = useTranslation();
+  const notesKey = queryKeys.conversationNotes(conversationId);
+
+  return useMutation({
+    mutationFn: (noteId: string) => deleteConversationNote(conversationId, noteId),
+
+    onMutate: async (noteId) => {
+      await queryClient.cancelQueries({ queryKey: notesKey });
+      const previousNotes = queryClient.getQueryData<ConversationNote[]>(notesKey);
+
+      queryClient.setQueryData<ConversationNote[]>(notesKey, (old) =>
+        old?.filter((note) => note.id !== noteId)
+      );
+
+      return { previousNotes };
+    },
+
+    onError: (error, _noteId, context) => {
+      if (context?.previousNotes) {
+        queryClient.setQueryData(notesKey, context.previousNotes);
+      }
+      if (!isToastHandled(error)) {
+        toast.error(t('conversation_notes.delete_error'));
+      }
+    },
+
+    onSettled: () => {
+      queryClient.invalidateQueries({ queryKey: notesKey });
+    },
+  });
+}
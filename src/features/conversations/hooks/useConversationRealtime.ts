@@ -6,12 +6,26 @@
  * ConversationList) and the single-conversation cache (used by ChatPanel via
  * useSelectedConversation). Both views render off the same source, so one
  * invalidation pair keeps every consumer fresh.
+ *
+ * It also feeds the unread badges of pinned saved views: the counts query is
+ * invalidated whenever the changed row matches (before or after the change) at
+ * least one pinned view's filter expression.
+ *
+ * When routing (or a teammate) assigns a conversation to the current user, a
+ * toast announces it.
  */
 
 import { useEffect } from 'react';
-import { useQueryClient } from '@tanstack/react-query';
+import { useQueryClient, type QueryClient } from '@tanstack/react-query';
+import { toast } from 'sonner';
+import i18n from '@/i18n/config';
 import { supabase } from '@/lib/supabase';
 import { queryKeys } from '@/lib/queryKeys';
+import { useAuthStore } from '@/features/auth/stores/authStore';
+import type { ConversationView } from '../types';
+import type { ConversationResponse } from '../services/conversationApi';
+import { matchesFilterExpression } from '../utils/filterExpression';
+import { snapshotConversationsInCache } from '../utils/optimisticUpdates';
 
 interface UseConversationRealtimeOptions {
   agentId: string;
@@ -60,11 +74,24 @@ export function useConversationRealtime(options: UseConversationRealtimeOptions)
           const rowId =
             (payload.new as { id?: string } | null)?.id ??
             (payload.old as { id?: string } | null)?.id;
+
+          // Must run before the invalidation below replaces the cached row.
+          announceAssignmentToMe(queryClient, agentId, payload);
           if (rowId) {
             queryClient.invalidateQueries({
               queryKey: queryKeys.conversation(rowId),
             });
           }
+
+          // Refresh pinned-view unread badges only when this row can move a count.
+          const pinnedViews = (
+            queryClient.getQueryData<ConversationView[]>(queryKeys.conversationViews(agentId)) ?? []
+          ).filter((view) => view.is_pinned);
+          if (pinnedViews.length > 0 && rowMayAffectViews(payload, pinnedViews)) {
+            queryClient.invalidateQueries({
+              queryKey: queryKeys.conversationViewCounts(agentId),
+            });
+          }
         }
       )
       .subscribe((status) => {
@@ -81,3 +108,52 @@ export function useConversationRealtime(options: UseConversationRealtimeOptions)
     };
   }, [agentId, enabled, queryClient]);
 }
+
+/**
+ * Toast when a row now assigned to the current user wasn't assigned to them in
+ * the cache. Comparing against the cached row (not payload.old, which may carry
+ * only the primary key) also keeps the user's own optimistic assignment silent.
+ * UPDATEs of rows that aren't cached are skipped — we can't tell if they changed.
+ */
+function announceAssignmentToMe(
+  queryClient: QueryClient,
+  agentId: string,
+  payload: { eventType: string; new: unknown }
+) {
+  const currentUserId = useAuthStore.getState().user?.id;
+  const row = payload.new as Partial<ConversationResponse> | null;
+  if (!currentUserId || !row?.id || row.assigned_to !== currentUserId) return;
+
+  const cached =
+    queryClient.getQueryData<ConversationResponse>(queryKeys.conversation(row.id)) ??
+    snapshotConversationsInCache(queryClient, agentId, [row.id]).get(row.id);
+  if (payload.eventType === 'UPDATE' && !cached) return;
+  if (cached?.assigned_to === currentUserId) return;
+
+  toast.info(i18n.t('conversation_assignment.assigned_to_you', { name: row.customer_name ?? '' }));
+}
+
+type MatchableRow = Parameters<typeof matchesFilterExpression>[1];
+
+const isFullRow = (row: unknown): row is MatchableRow =>
+  !!row && typeof row === 'object' && 'is_read' in row;
+
+/**
+ * True when the before/after state of a changed row matches any pinned view.
+ * UPDATE/DELETE payloads may carry only the primary key in `old` (default replica
+ * identity) — without the full row a view can't be ruled out, so we say yes.
+ */
+function rowMayAffectViews(
+  payload: { eventType: string; new: unknown; old: unknown },
+  views: ConversationView[]
+): boolean {
+  const needsOld = payload.eventType === 'UPDATE' || payload.eventType === 'DELETE';
+  const needsNew = payload.eventType === 'UPDATE' || payload.eventType === 'INSERT';
+  if ((needsOld && !isFullRow(payload.old)) || (needsNew && !isFullRow(payload.new))) {
+    return true;
+  }
+
+  return [payload.old, payload.new]
+    .filter(isFullRow)
+    .some((row) => views.some((view) => matchesFilterExpression(view.expression, row)));
+}
@@ -0,0 +1,92 @@
+/**
+ * Inbox keyboard shortcuts (j/k, r, e, u, p, / by default — remappable).
+ * Mounted by ConversationList, which owns the loaded rows and the search box.
+ */
+
+import { useCallback, type RefObject } from 'react';
+import { useKeyboardShortcuts } from '@/features/keyboard-shortcuts/hooks/useKeyboardShortcuts';
+import type { ConversationResponse } from '../services/conversationApi';
+import { useComposerStore } from '../stores/composerStore';
+import { useMarkConversationAsResolved } from './useMarkConversationAsResolved';
+import { useMarkConversationAsUnread } from './useMarkConversationAsUnread';
+import { usePinConversation } from './usePinConversation';
+import { useUnpinConversation } from './useUnpinConversation';
+
+/** Prefetch the next page when moving within this many rows of the end */
+const PREFETCH_THRESHOLD = 5;
+
+interface UseConversationShortcutsOptions {
+  conversations: ConversationResponse[];
+  selectedConversationId: string | null;
+  onSelect: (conversationId: string) => void;
+  listRef: RefObject<HTMLDivElement | null>;
+  searchInputRef: RefObject<HTMLInputElement | null>;
+  hasNextPage: boolean;
+  isFetchingNextPage: boolean;
+  fetchNextPage: () => void;
+}
+
+export function useConversationShortcuts({
+  conversations,
+  selectedConversationId,
+  onSelect,
+  listRef,
+  searchInputRef,
+  hasNextPage,
+  isFetchingNextPage,
+  fetchNextPage,
+}: UseConversationShortcutsOptions) {
+  const { mutate: markAsResolved } = useMarkConversationAsResolved();
+  const { mutate: markAsUnread } = useMarkConversationAsUnread();
+  const { mutate: pin } = usePinConversation();
+  const { mutate: unpin } = useUnpinConversation();
+  const requestComposerFocus = useComposerStore((state) => state.requestFocus);
+
+  const selected = conversations.find((c) => c.id === selectedConversationId) ?? null;
+
+  const move = useCallback((delta: 1 | -1) => {
+    if (conversations.length === 0) return;
+    const currentIndex = conversations.findIndex((c) => c.id === selectedConversationId);
+    // Nothing open yet: j starts at the top, k at the bottom of what's loaded
+    const nextIndex = currentIndex === -1
+      ? (delta === 1 ? 0 : conversations.length - 1)
+      : Math.min(Math.max(currentIndex + delta, 0), conversations.length - 1);
+    const next = conversations[nextIndex];
+    if (!next || next.id === selectedConversationId) return;
+
+    onSelect(next.id);
+    listRef.current
+      ?.querySelector(`[data-conversation-id="${next.id}"]`)
+      ?.scrollIntoView({ block: 'nearest' });
+
+    if (hasNextPage && !isFetchingNextPage && nextIndex >= conversations.length - PREFETCH_THRESHOLD) {
+      fetchNextPage();
+    }
+  }, [conversations, selectedConversationId, onSelect, listRef, hasNextPage, isFetchingNextPage, fetchNextPage]);
+
+  useKeyboardShortcuts({
+    conversation_next: () => move(1),
+    conversation_prev: () => move(-1),
+    focus_search: () => {
+      searchInputRef.current?.focus();
+      searchInputRef.current?.select();
+    },
+    reply: () => {
+      if (selected) requestComposerFocus();
+    },
+    resolve: () => {
+      if (selected) markAsResolved(selected.id);
+    },
+    mark_unread: () => {
+      if (selected?.is_read) markAsUnread(selected.id);
+    },
+    toggle_pin: () => {
+      if (!selected) return;
+      if (selected.is_pinned) {
+        unpin(selected.id);
+      } else {
+        pin(selected.id);
+      }
+    },
+  });
+}
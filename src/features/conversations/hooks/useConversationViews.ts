@@ -0,0 +1,111 @@
+/**
+ * Saved Conversation Views — React Query hooks
+ */
+
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { toast } from 'sonner';
+import { useTranslation } from 'react-i18next';
+import { isToastHandled } from '@/lib/errors';
+import { queryKeys } from '@/lib/queryKeys';
+import {
+  createConversationView,
+  deleteConversationView,
+  getConversationViewCounts,
+  getConversationViews,
+  updateConversationView,
+} from '../services/conversationViewsApi';
+import type {
+  ConversationView,
+  CreateConversationViewRequest,
+  UpdateConversationViewRequest,
+} from '../types';
+
+export function useConversationViews(agentId: string | undefined) {
+  return useQuery({
+    queryKey: queryKeys.conversationViews(agentId),
+    queryFn: () => getConversationViews(agentId!),
+    enabled: !!agentId,
+    staleTime: 5 * 60 * 1000,
+  });
+}
+
+/**
+ * Unread counts for pinned views. No polling — useConversationRealtime
+ * invalidates this key whenever a conversation row that can affect a view changes.
+ */
+export function useConversationViewCounts(agentId: string | undefined, enabled = true) {
+  return useQuery({
+    queryKey: queryKeys.conversationViewCounts(agentId),
+    queryFn: () => getConversationViewCounts(agentId!),
+    enabled: !!agentId && enabled,
+    staleTime: 60 * 1000,
+  });
+}
+
+export function useCreateConversationView(agentId: string | undefined) {
+  const queryClient = useQueryClient();
+  const { t } = useTranslation();
+
+  return useMutation({
+    mutationFn: (payload: CreateConversationViewRequest) => createConversationView(payload),
+    onSuccess: (created) => {
+      queryClient.setQueryData<ConversationView[]>(
+        queryKeys.conversationViews(agentId),
+        (prev) => (prev ? [...prev, created] : [created])
+      );
+      queryClient.invalidateQueries({ queryKey: queryKeys.conversationViewCounts(agentId) });
+      toast.success(t('conversation_views.create_success'));
+    },
+    onError: (error) => {
+      if (!isToastHandled(error)) {
+        toast.error(t('conversation_views.create_error'));
+      }
+    },
+  });
+}
+
+export function useUpdateConversationView(agentId: string | undefined) {
+  const queryClient = useQueryClient();
+  const { t } = useTranslation();
+
+  return useMutation({
+    mutationFn: ({ id, payload }: { id: string; payload: UpdateConversationViewRequest }) =>
+      updateConversationView(id, payload),
+    onSuccess: (updated) => {
+      queryClient.setQueryData<ConversationView[]>(
+        queryKeys.conversationViews(agentId),
+        (prev) => prev?.map((v) => (v.id === updated.id ? updated : v)) ?? [updated]
+      );
+      // The expression may have changed — refresh counts and any list filtered by this view.
+      queryClient.invalidateQueries({ queryKey: queryKeys.conversationViewCounts(agentId) });
+      queryClient.invalidateQueries({ queryKey: queryKeys.conversations(agentId) });
+      toast.success(t('conversation_views.update_success'));
+    },
+    onError: (error) => {
+      if (!isToastHandled(error)) {
+        toast.error(t('conversation_views.update_error'));
+      }
+    },
+  });
+}
+
+export function useDeleteConversationView(agentId: string | undefined) {
+  const queryClient = useQueryClient();
+  const { t } = useTranslation();
+
+  return useMutation({
+    mutationFn: (id: string) => deleteConversationView(id),
+    onSuccess: (_void, id) => {
+      queryClient.setQueryData<ConversationView[]>(
+        queryKeys.conversationViews(agentId),
+        (prev) => prev?.filter((v) => v.id !== id) ?? []
+      );
+      toast.success(t('conversation_views.delete_success'));
+    },
+    onError: (error) => {
+      if (!isToastHandled(error)) {
+        toast.error(t('conversation_views.delete_error'));
+      }
+    },
+  });
+}
@@ -13,6 +13,14 @@ interface UseInfiniteConversationsOptions {
   source?: string[];
   isRead?: boolean;
   urgent?: boolean;
+  /** Saved view id — the server applies the view's filter expression */
+  viewId?: string;
+  /** 'me', 'unassigned' or a teammate user id */
+  assignedTo?: string;
+  /** Only running SLA timers inside the at-risk window or already breached */
+  slaAtRisk?: boolean;
+  /** Conversations carrying any of these labels */
+  labelIds?: string[];
 }
 
 /**
@@ -21,7 +29,7 @@ interface UseInfiniteConversationsOptions {
  * Features:
  * - Automatic pagination with infinite scroll
  * - Loads 50 conversations per page
- * - Server-side filtering (search, source, read status, urgency)
+ * - Server-side filtering (search, source, read status, urgency, saved view, assignee, SLA at risk, labels)
  * - Proper loading and error states
  * - Cache invalidation on agent/filter change
  */
@@ -32,9 +40,13 @@ export function useInfiniteConversations(options?: UseInfiniteConversationsOptio
   const source = options?.source;
   const isRead = options?.isRead;
   const urgent = options?.urgent;
+  const viewId = options?.viewId;
+  const assignedTo = options?.assignedTo;
+  const slaAtRisk = options?.slaAtRisk;
+  const labelIds = options?.labelIds;
 
   const query = useInfiniteQuery({
-    queryKey: queryKeys.conversationsFiltered(agentId, { searchTerm, source, isRead, urgent }),
+    queryKey: queryKeys.conversationsFiltered(agentId, { searchTerm, source, isRead, urgent, viewId, assignedTo, slaAtRisk, labelIds }),
     queryFn: async ({ pageParam }) => {
       if (!agentId) {
         throw new Error('No agent selected');
@@ -49,6 +61,10 @@ export function useInfiniteConversations(options?: UseInfiniteConversationsOptio
         source,
         is_read: isRead,
         urgent,
+        view_id: viewId,
+        assigned_to: assignedTo,
+        sla_at_risk: slaAtRisk,
+        label_ids: labelIds,
       });
 
       // Verification logging
@@ -1,4 +1,6 @@
 import { useMutation, useQueryClient, type InfiniteData } from '@tanstack/react-query';
+import { toast } from 'sonner';
+import { useTranslation } from 'react-i18next';
 import { useAgentContext } from '@/hooks/useAgentContext';
 import { markConversationAsResolved, type CursorPaginatedConversationsResponse } from '../services/conversationApi';
 import { queryKeys } from '@/lib/queryKeys';
@@ -7,6 +9,7 @@ import { updateConversationInCache } from '../utils/optimisticUpdates';
 export function useMarkConversationAsResolved() {
   const queryClient = useQueryClient();
   const { agentId } = useAgentContext();
+  const { t } = useTranslation();
 
   return useMutation({
     mutationFn: markConversationAsResolved,
@@ -28,14 +31,22 @@ export function useMarkConversationAsResolved() {
       return { previousData };
     },
 
+    onSuccess: ({ csat_requested }) => {
+      if (csat_requested) {
+        toast.success(t('csat.survey_sent'));
+      }
+    },
+
     onError: (_error, _conversationId, context) => {
       context?.previousData.forEach(([key, data]) => {
         if (data) queryClient.setQueryData(key, data);
       });
     },
 
-    onSettled: () => {
+    onSettled: (_data, _error, conversationId) => {
       queryClient.invalidateQueries({ queryKey: queryKeys.conversations(agentId) });
+      // ChatPanel reads the single-conversation cache — picks up the new csat snapshot
+      queryClient.invalidateQueries({ queryKey: queryKeys.conversation(conversationId) });
     },
   });
 }
@@ -0,0 +1,87 @@
+/**
+ * Message Outbox Hook
+ * Per-conversation view of the offline outbox for ChatPanel: the queued
+ * messages to render in the thread, the adapter useChatEngine queues into,
+ * and retry/discard for entries the backend rejected.
+ */
+
+import { useCallback, useMemo } from 'react';
+import { useAuthStore } from '@/features/auth/stores/authStore';
+import { CHAT_IDENTIFIERS } from '../constants/chatConstants';
+import { useOutboxStore } from '../stores/outboxStore';
+import type { ChatMessage, OutboxFile, SendMessageOptions } from '../types';
+import { outboxEntryToMessage } from '../utils/outbox';
+
+/**
+ * Outbox adapter consumed by useChatEngine (optional — TestChat has none)
+ */
+export interface ChatOutboxAdapter {
+  /** Earlier messages still waiting — new ones must queue behind them to keep order */
+  hasPending: () => boolean;
+  /** Queue an optimistic message whose send failed on the network */
+  enqueue: (message: ChatMessage) => Promise<void>;
+}
+
+export function useMessageOutbox(conversationId: string, agentId: string | undefined) {
+  const userId = useAuthStore((state) => state.user?.id);
+  const entries = useOutboxStore((state) => state.entries);
+  const enqueue = useOutboxStore((state) => state.enqueue);
+  const retry = useOutboxStore((state) => state.retry);
+  const discard = useOutboxStore((state) => state.discard);
+
+  const conversationEntries = useMemo(
+    () => entries.filter((e) => e.conversation_id === conversationId),
+    [entries, conversationId]
+  );
+
+  const messages = useMemo(() => conversationEntries.map(outboxEntryToMessage), [conversationEntries]);
+
+  const adapter = useMemo<ChatOutboxAdapter | undefined>(() => {
+    if (!userId || !agentId) return undefined;
+    return {
+      hasPending: () =>
+        useOutboxStore.getState().entries.some(
+          (e) => e.conversation_id === conversationId && e.status !== 'failed'
+        ),
+      enqueue: (message) =>
+        enqueue({
+          clientId: message.correlation_id,
+          userId,
+          conversationId,
+          agentId,
+          message: message.message ?? '',
+          attachments: typeof message.attachments === 'string' ? message.attachments : null,
+          replyTo: message.reply_to,
+          createdAt: message.created_at,
+        }),
+    };
+  }, [userId, agentId, conversationId, enqueue]);
+
+  /** Queue a message whose files could not be uploaded (voice notes, attachments) */
+  const queueWithFiles = useCallback(
+    async (message: string, files: OutboxFile[], attachments?: string, options?: SendMessageOptions) => {
+      if (!userId || !agentId) return;
+      await enqueue({ userId, conversationId, agentId, message, attachments, files, replyTo: options?.replyTo });
+    },
+    [userId, agentId, conversationId, enqueue]
+  );
+
+  /** Maps a rendered temp id back to its outbox entry, or null for regular messages */
+  const findClientId = useCallback(
+    (messageId: string): string | null => {
+      const clientId = messageId.replace(CHAT_IDENTIFIERS.TEMP_ID_PREFIX, '');
+      return conversationEntries.some((e) => e.client_id === clientId) ? clientId : null;
+    },
+    [conversationEntries]
+  );
+
+  return {
+    messages,
+    adapter,
+    queueWithFiles,
+    findClientId,
+    retry,
+    discard,
+    isAvailable: !!adapter,
+  };
+}
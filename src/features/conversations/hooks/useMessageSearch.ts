@@ -0,0 +1,61 @@
+import { useInfiniteQuery } from '@tanstack/react-query';
+import { AxiosError } from 'axios';
+import { queryKeys } from '@/lib/queryKeys';
+import { searchMessages } from '../services/messageApi';
+import type { MessageSearchFilters } from '../types';
+
+const PAGE_SIZE = 30;
+
+/** Shorter queries match too much of the index to be useful */
+export const MIN_MESSAGE_SEARCH_LENGTH = 2;
+
+/**
+ * React Query hook for full-text message search across an agent's conversations
+ *
+ * Features:
+ * - Cursor pagination (30 hits per page)
+ * - Server-side filters (sender role, message type, source, date range)
+ * - Disabled until the query has at least MIN_MESSAGE_SEARCH_LENGTH characters
+ */
+export function useMessageSearch(agentId: string | undefined, filters: MessageSearchFilters) {
+  const enabled = !!agentId && filters.query.trim().length >= MIN_MESSAGE_SEARCH_LENGTH;
+
+  const query = useInfiniteQuery({
+    queryKey: queryKeys.messageSearch(agentId ?? '', filters),
+    queryFn: ({ pageParam }) => {
+      if (!agentId) {
+        throw new Error('No agent selected');
+      }
+      return searchMessages({
+        agentId,
+        filters: { ...filters, query: filters.query.trim() },
+        cursor: pageParam,
+        limit: PAGE_SIZE,
+      });
+    },
+    getNextPageParam: (lastPage) => (lastPage.has_more ? lastPage.next_cursor : undefined),
+    initialPageParam: undefined as string | null | undefined,
+    enabled,
+    staleTime: 30 * 1000,
+    retry: (failureCount, error: AxiosError) => {
+      if (error?.response?.status === 401 || error?.response?.status === 403) {
+        return false;
+      }
+      return failureCount < 2;
+    },
+  });
+
+  const hits = query.data?.pages.flatMap((page) => page.items) ?? [];
+
+  return {
+    hits,
+    total: query.data?.pages[0]?.total ?? 0,
+    isEnabled: enabled,
+    isLoading: enabled && query.isLoading,
+    isError: query.isError,
+    error: query.error,
+    isFetchingNextPage: query.isFetchingNextPage,
+    hasNextPage: query.hasNextPage ?? false,
+    fetchNextPage: () => query.fetchNextPage(),
+  };
+}
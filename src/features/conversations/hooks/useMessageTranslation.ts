@@ -0,0 +1,63 @@
+/**
+ * Message translation — React Query hooks
+ * A stored message's translation never changes, so it's cached for the whole
+ * session; drafts are translated on demand.
+ */
+
+import { useMutation, useQuery } from '@tanstack/react-query';
+import { toast } from 'sonner';
+import { useTranslation } from 'react-i18next';
+import { isToastHandled } from '@/lib/errors';
+import { queryKeys } from '@/lib/queryKeys';
+import { chatApiService } from '../services/chatApiService';
+import { localizeTranslatedDigits } from '../utils/translation';
+import type { TranslationLanguage } from '../types';
+
+export function useMessageTranslation(
+  conversationId: string,
+  messageId: string,
+  targetLanguage: TranslationLanguage,
+  enabled = true
+) {
+  return useQuery({
+    queryKey: queryKeys.messageTranslation(messageId, targetLanguage),
+    queryFn: async () => {
+      const result = await chatApiService.translate({ conversationId, targetLanguage, messageId });
+      return {
+        ...result,
+        translated_text: localizeTranslatedDigits(result.translated_text, targetLanguage, false),
+      };
+    },
+    enabled: !!conversationId && !!messageId && enabled,
+    staleTime: Infinity,
+  });
+}
+
+/**
+ * Translate a reply into the customer's language. Digits follow the
+ * customer's own style so "٣ أيام" doesn't come back as "3 أيام".
+ */
+export function useTranslateDraft(conversationId: string) {
+  const { t } = useTranslation();
+
+  return useMutation({
+    mutationFn: async ({
+      text,
+      targetLanguage,
+      arabicNumerals,
+    }: {
+      text: string;
+      targetLanguage: TranslationLanguage;
+      arabicNumerals: boolean;
+    }) => {
+      const result = await chatApiService.translate({ conversationId, targetLanguage, text });
+      return {
+        ...result,
+        translated_text: localizeTranslatedDigits(result.translated_text, targetLanguage, arabicNumerals),
+      };
+    },
+    onError: (error: unknown) => {
+      if (!isToastHandled(error)) toast.error(t('translation.error'));
+    },
+  });
+}
@@ -0,0 +1,73 @@
+/**
+ * Note Mention Notifications
+ * Listens for @mentions of the signed-in user in internal notes and shows a
+ * toast wherever they are in the dashboard. Mounted once in DashboardLayout.
+ */
+
+import { useEffect } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { useQueryClient } from '@tanstack/react-query';
+import { toast } from 'sonner';
+import i18n from '@/i18n/config';
+import { useAuthStore } from '@/features/auth/stores/authStore';
+import { useAgentStore } from '@/features/agents/stores/agentStore';
+import { queryKeys } from '@/lib/queryKeys';
+import { supabase } from '@/lib/supabase';
+import { channelRegistry } from '@/lib/supabaseChannelRegistry';
+import { OPEN_CONVERSATION_SEARCH_PARAM } from '../constants/chatConstants';
+import type { ConversationNoteMention } from '../types';
+
+export function useNoteMentionNotifications() {
+  const userId = useAuthStore((state) => state.user?.id);
+  const navigate = useNavigate();
+  const queryClient = useQueryClient();
+
+  useEffect(() => {
+    if (!userId) return;
+
+    const channel = supabase
+      .channel(`conversation-note-mentions-${userId}`)
+      .on(
+        'postgres_changes',
+        {
+          event: 'INSERT',
+          schema: 'public',
+          table: 'conversation_note_mentions',
+          filter: `mentioned_user_id=eq.${userId}`,
+        },
+        (payload) => {
+          const mention = payload.new as ConversationNoteMention;
+          queryClient.invalidateQueries({ queryKey: queryKeys.conversationNotes(mention.conversation_id) });
+
+          // Conversations are scoped to the selected agent, so "Open" is only
+          // offered when the mention belongs to the agent currently in view.
+          const currentAgentId = useAgentStore.getState().globalSelectedAgent?.id;
+          const canOpen = mention.agent_id === currentAgentId;
+
+          toast(
+            i18n.t('conversation_notes.mention_toast_title', { name: mention.mentioned_by_name }),
+            {
+              description: mention.customer_name
+                ? `${mention.customer_name}: ${mention.excerpt}`
+                : mention.excerpt,
+              action: canOpen
+                ? {
+                    label: i18n.t('conversation_notes.mention_toast_open'),
+                    onClick: () =>
+                      navigate(`/conversations?${OPEN_CONVERSATION_SEARCH_PARAM}=${mention.conversation_id}`),
+                  }
+                : undefined,
+            }
+          );
+        }
+      )
+      .subscribe();
+
+    channelRegistry.register(channel, `conversation-note-mentions-${userId}`);
+
+    return () => {
+      channelRegistry.unregister(channel);
+      supabase.removeChannel(channel);
+    };
+  }, [userId, navigate, queryClient]);
+}
@@ -0,0 +1,44 @@
+/**
+ * Outbox Sync Hook
+ * Loads the signed-in user's queued messages from IndexedDB and replays them
+ * on mount, when connectivity returns, on app resume, and on a backoff timer
+ * while entries are still waiting. Mounted once in DashboardLayout.
+ */
+
+import { useEffect } from 'react';
+import { useAuthStore } from '@/features/auth/stores/authStore';
+import { useAppVisibility, useOnAppResume } from '@/contexts/AppLifecycleContext';
+import { useOnReconnect } from '@/hooks/useOnReconnect';
+import { useOutboxStore } from '../stores/outboxStore';
+import { getOutboxRetryDelay } from '../utils/outbox';
+
+export function useOutboxSync() {
+  const userId = useAuthStore((state) => state.user?.id);
+  const hydrate = useOutboxStore((state) => state.hydrate);
+  const flush = useOutboxStore((state) => state.flush);
+  const isFlushing = useOutboxStore((state) => state.isFlushing);
+  // Head of the queue decides the backoff; -1 when nothing is waiting
+  const headAttempts = useOutboxStore(
+    (state) => state.entries.find((e) => e.status === 'queued')?.attempts ?? -1
+  );
+  const { isOnline } = useAppVisibility();
+
+  useEffect(() => {
+    if (!userId) return;
+    hydrate(userId).then(() => flush());
+  }, [userId, hydrate, flush]);
+
+  useOnReconnect(() => {
+    flush();
+  });
+
+  useOnAppResume(() => {
+    flush();
+  });
+
+  useEffect(() => {
+    if (!isOnline || isFlushing || headAttempts < 0) return;
+    const timer = setTimeout(() => flush(), getOutboxRetryDelay(headAttempts));
+    return () => clearTimeout(timer);
+  }, [isOnline, isFlushing, headAttempts, flush]);
+}
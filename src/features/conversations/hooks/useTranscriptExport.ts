@@ -0,0 +1,123 @@
+import { useMutation } from '@tanstack/react-query';
+import { toast } from 'sonner';
+import { useTranslation } from 'react-i18next';
+import { isToastHandled } from '@/lib/errors';
+import { useDateLocale } from '@/lib/dateConfig';
+import { getAllMessages } from '../services/messageApi';
+import type { Conversation, TranscriptDocument, TranscriptFormat, TranscriptLabels } from '../types';
+import {
+  buildTranscriptEntries,
+  buildTranscriptHtml,
+  buildTranscriptJson,
+  buildTranscriptText,
+  getTranscriptFileName,
+  TRANSCRIPT_MIME_TYPES,
+} from '../utils/transcript';
+
+/** Long, unambiguous timestamp for transcripts, e.g. "Mar 1, 2026, 2:05:09 PM" */
+const TRANSCRIPT_TIME_PATTERN = 'PPpp';
+
+function downloadFile(content: string, fileName: string, mimeType: string) {
+  // BOM so Windows text editors read Arabic plain text as UTF-8
+  const blob = new Blob([mimeType.startsWith('text/plain') ? '\uFEFF' : '', content], { type: mimeType });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+  URL.revokeObjectURL(url);
+}
+
+/**
+ * Print through a hidden iframe — unlike window.open it isn't popup-blocked
+ * after the async history fetch. The user picks "Save as PDF" in the dialog.
+ */
+function printHtml(html: string) {
+  const iframe = document.createElement('iframe');
+  iframe.style.position = 'fixed';
+  iframe.style.width = '0';
+  iframe.style.height = '0';
+  iframe.style.border = '0';
+  iframe.srcdoc = html;
+  iframe.onload = () => {
+    const frameWindow = iframe.contentWindow;
+    if (!frameWindow) return;
+    frameWindow.addEventListener('afterprint', () => iframe.remove());
+    frameWindow.focus();
+    frameWindow.print();
+  };
+  document.body.appendChild(iframe);
+}
+
+/**
+ * Export one conversation's full history as a transcript. Fetches every page
+ * of messages, renders it in the user's language and timezone, then downloads
+ * the file (or opens the print dialog for PDF).
+ */
+export function useTranscriptExport(conversation: Conversation) {
+  const { t, i18n } = useTranslation();
+  const { formatInUserTimezone, getUserTimezone } = useDateLocale();
+
+  return useMutation({
+    mutationFn: async (format: TranscriptFormat) => {
+      const messages = await getAllMessages(conversation.id);
+
+      const labels: TranscriptLabels = {
+        title: t('conversations.transcript.document_title'),
+        customer: t('conversations.transcript.customer'),
+        source: t('conversations.transcript.source'),
+        started: t('conversations.transcript.started'),
+        exported: t('conversations.transcript.exported'),
+        timezone: t('conversations.transcript.timezone'),
+        message_count: t('conversations.transcript.message_count'),
+        deleted: t('conversations.message_deleted'),
+        roles: {
+          customer: conversation.customer_name || t('conversations.transcript.role_customer'),
+          ai_agent: t('conversations.transcript.role_ai_agent'),
+          human_agent: t('conversations.transcript.role_human_agent'),
+          system: t('conversations.transcript.role_system'),
+        },
+      };
+      const formatTimestamp = (iso: string) => formatInUserTimezone(iso, TRANSCRIPT_TIME_PATTERN);
+      const exportedAt = new Date().toISOString();
+
+      const doc: TranscriptDocument = {
+        conversation: {
+          id: conversation.id,
+          customer_name: conversation.customer_name,
+          source: conversation.source,
+          created_at: conversation.created_at,
+        },
+        language: i18n.language,
+        dir: i18n.dir(),
+        timezone: getUserTimezone(),
+        exported_at: exportedAt,
+        started_local: formatTimestamp(conversation.created_at),
+        exported_local: formatTimestamp(exportedAt),
+        labels,
+        entries: buildTranscriptEntries(messages, labels, formatTimestamp),
+      };
+
+      if (format === 'pdf') {
+        printHtml(buildTranscriptHtml(doc));
+        return format;
+      }
+
+      const content =
+        format === 'html' ? buildTranscriptHtml(doc) : format === 'json' ? buildTranscriptJson(doc) : buildTranscriptText(doc);
+      downloadFile(content, getTranscriptFileName(conversation.customer_name, exportedAt, format), TRANSCRIPT_MIME_TYPES[format]);
+      return format;
+    },
+
+    onSuccess: (format) => {
+      if (format !== 'pdf') toast.success(t('conversations.transcript.downloaded'));
+    },
+
+    onError: (error: unknown) => {
+      if (isToastHandled(error)) return;
+      toast.error(t('conversations.transcript.failed'));
+    },
+  });
+}
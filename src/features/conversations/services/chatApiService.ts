@@ -4,7 +4,17 @@
  */
 
 import api from '@/lib/api';
-import type { ChatMessage, SendMessageWithAIRequest, MediaAttachment } from '../types';
+import type {
+  ChatMessage,
+  SendMessageWithAIRequest,
+  MediaAttachment,
+  CopilotSummary,
+  CopilotSuggestion,
+  CopilotRewriteMode,
+  CopilotRewriteResult,
+  TranslationLanguage,
+  TranslationResult,
+} from '../types';
 import { MessageType } from '../types';
 import { logger } from '@/lib/logger';
 
@@ -34,7 +44,11 @@ class ChatApiService {
 
   /**
    * Send message without AI (admin/human mode)
-   * Backend will save message only, no AI generation
+   * Backend will save message only, no AI generation.
+   * `clientMessageId` makes the call idempotent — the backend ignores a second
+   * message with the same id (outbox replays after an ambiguous network failure).
+   * `replyToMessageId` quotes an earlier message; on WhatsApp/Instagram the
+   * platform message goes out as a reply to it.
    */
   async sendMessage(params: {
     conversationId: string;
@@ -44,6 +58,8 @@ class ChatApiService {
     senderId?: string;
     messageType?: number;
     attachments?: string;
+    clientMessageId?: string;
+    replyToMessageId?: string;
   }): Promise<ChatMessage> {
     try {
       const { data } = await api.post<ChatMessage>('/api/chat/message', {
@@ -54,6 +70,8 @@ class ChatApiService {
         senderId: params.senderId,
         messageType: params.messageType || MessageType.Text,
         attachments: params.attachments,
+        clientMessageId: params.clientMessageId,
+        replyToMessageId: params.replyToMessageId,
       });
 
       return data;
@@ -106,6 +124,8 @@ class ChatApiService {
     conversationId: string;
     messageId: string;
     onProgress?: (progress: number) => void;
+    /** Aborts the upload (composer "cancel") */
+    signal?: AbortSignal;
   }): Promise<MediaAttachment> {
     try {
       // Start with 1% to show upload has begun
@@ -125,6 +145,7 @@ class ChatApiService {
         headers: {
           'Content-Type': 'multipart/form-data',
         },
+        signal: params.signal,
         onUploadProgress: (progressEvent) => {
           if (progressEvent.total && params.onProgress) {
             const percentCompleted = Math.round((progressEvent.loaded * 100) / progressEvent.total);
@@ -139,7 +160,10 @@ class ChatApiService {
 
       return data.attachment;
     } catch (error) {
-      logger.error('Error uploading image with progress', error instanceof Error ? error : new Error(String(error)));
+      // A cancelled upload isn't an error
+      if (!params.signal?.aborted) {
+        logger.error('Error uploading image with progress', error instanceof Error ? error : new Error(String(error)));
+      }
       throw error;
     }
   }
@@ -193,6 +217,8 @@ class ChatApiService {
     messageId: string;
     duration?: number;
     onProgress?: (progress: number) => void;
+    /** Aborts the upload (composer "cancel") */
+    signal?: AbortSignal;
   }): Promise<MediaAttachment> {
     try {
       // Start with 1% to show upload has begun
@@ -216,6 +242,7 @@ class ChatApiService {
         headers: {
           'Content-Type': 'multipart/form-data',
         },
+        signal: params.signal,
         onUploadProgress: (progressEvent) => {
           if (progressEvent.total && params.onProgress) {
             const percentCompleted = Math.round((progressEvent.loaded * 100) / progressEvent.total);
@@ -230,7 +257,10 @@ class ChatApiService {
 
       return data.attachment;
     } catch (error) {
-      logger.error('Error uploading audio with progress', error instanceof Error ? error : new Error(String(error)));
+      // A cancelled upload isn't an error
+      if (!params.signal?.aborted) {
+        logger.error('Error uploading audio with progress', error instanceof Error ? error : new Error(String(error)));
+      }
       throw error;
     }
   }
@@ -243,6 +273,8 @@ class ChatApiService {
     conversationId: string;
     messageId: string;
     onProgress?: (progress: number) => void;
+    /** Aborts the upload (composer "cancel") */
+    signal?: AbortSignal;
   }): Promise<MediaAttachment> {
     try {
       if (params.onProgress) {
@@ -261,6 +293,7 @@ class ChatApiService {
         headers: {
           'Content-Type': 'multipart/form-data',
         },
+        signal: params.signal,
         onUploadProgress: (progressEvent) => {
           if (progressEvent.total && params.onProgress) {
             const percentCompleted = Math.round((progressEvent.loaded * 100) / progressEvent.total);
@@ -275,7 +308,10 @@ class ChatApiService {
 
       return data.attachment;
     } catch (error) {
-      logger.error('Error uploading document with progress', error instanceof Error ? error : new Error(String(error)));
+      // A cancelled upload isn't an error
+      if (!params.signal?.aborted) {
+        logger.error('Error uploading document with progress', error instanceof Error ? error : new Error(String(error)));
+      }
       throw error;
     }
   }
@@ -288,6 +324,8 @@ class ChatApiService {
     conversationId: string;
     messageId: string;
     onProgress?: (progress: number) => void;
+    /** Aborts the upload (composer "cancel") */
+    signal?: AbortSignal;
   }): Promise<MediaAttachment> {
     try {
       if (params.onProgress) {
@@ -306,6 +344,7 @@ class ChatApiService {
         headers: {
           'Content-Type': 'multipart/form-data',
         },
+        signal: params.signal,
         onUploadProgress: (progressEvent) => {
           if (progressEvent.total && params.onProgress) {
             const percentCompleted = Math.round((progressEvent.loaded * 100) / progressEvent.total);
@@ -320,7 +359,10 @@ class ChatApiService {
 
       return data.attachment;
     } catch (error) {
-      logger.error('Error uploading video with progress', error instanceof Error ? error : new Error(String(error)));
+      // A cancelled upload isn't an error
+      if (!params.signal?.aborted) {
+        logger.error('Error uploading video with progress', error instanceof Error ? error : new Error(String(error)));
+      }
       throw error;
     }
   }
@@ -376,6 +418,95 @@ class ChatApiService {
     }
   }
 
+  /**
+   * Copilot: summarise the conversation so far for a teammate taking over
+   */
+  async getCopilotSummary(params: { conversationId: string; agentId: string }): Promise<CopilotSummary> {
+    try {
+      const { data } = await api.post<CopilotSummary>('/api/chat/copilot/summary', {
+        conversationId: params.conversationId,
+        agentId: params.agentId,
+      });
+
+      return data;
+    } catch (error) {
+      logger.error('[ChatApiService]', 'Error generating conversation summary', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Copilot: reply suggestions for the customer's latest message, grounded
+   * in the agent's knowledge base
+   */
+  async getCopilotSuggestions(params: {
+    conversationId: string;
+    agentId: string;
+    count?: number;
+  }): Promise<CopilotSuggestion[]> {
+    try {
+      const { data } = await api.post<{ suggestions: CopilotSuggestion[] }>('/api/chat/copilot/suggestions', {
+        conversationId: params.conversationId,
+        agentId: params.agentId,
+        count: params.count ?? 3,
+      });
+
+      return data.suggestions;
+    } catch (error) {
+      logger.error('[ChatApiService]', 'Error generating reply suggestions', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Copilot: rewrite the composer draft (shorter, more formal, or in Arabic)
+   */
+  async rewriteDraft(params: {
+    conversationId: string;
+    agentId: string;
+    draft: string;
+    mode: CopilotRewriteMode;
+  }): Promise<CopilotRewriteResult> {
+    try {
+      const { data } = await api.post<CopilotRewriteResult>('/api/chat/copilot/rewrite', {
+        conversationId: params.conversationId,
+        agentId: params.agentId,
+        draft: params.draft,
+        mode: params.mode,
+      });
+
+      return data;
+    } catch (error) {
+      logger.error('[ChatApiService]', 'Error rewriting draft', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Translate text for a conversation. With `messageId` the backend translates
+   * that stored message and caches the result; without it, `text` (a draft).
+   */
+  async translate(params: {
+    conversationId: string;
+    targetLanguage: TranslationLanguage;
+    messageId?: string;
+    text?: string;
+  }): Promise<TranslationResult> {
+    try {
+      const { data } = await api.post<TranslationResult>('/api/chat/translate', {
+        conversationId: params.conversationId,
+        targetLanguage: params.targetLanguage,
+        messageId: params.messageId,
+        text: params.text,
+      });
+
+      return data;
+    } catch (error) {
+      logger.error('[ChatApiService]', 'Error translating text', error);
+      throw error;
+    }
+  }
+
   /**
    * Delete a conversation
    * Backend handles authorization (SuperAdmin or agent owner)
@@ -0,0 +1,44 @@
+/**
+ * Contacts API Service
+ * Cross-channel customer profiles. Merge/unmerge return the updated profile
+ * of the contact that was edited.
+ */
+
+import api from '@/lib/api';
+import type { ContactProfile, MergeContactRequest } from '../types';
+
+/** The API sends null for empty lists; the profile panel expects arrays */
+function toContactProfile(wire: ContactProfile): ContactProfile {
+  return {
+    ...wire,
+    identities: wire.identities ?? [],
+    conversations: wire.conversations ?? [],
+  };
+}
+
+/**
+ * Fetch the contact profile a conversation belongs to
+ */
+export async function getContactProfile(conversationId: string): Promise<ContactProfile> {
+  const response = await api.get<ContactProfile>(`/api/v2/conversations/${conversationId}/contact`);
+
+  return toContactProfile(response.data);
+}
+
+/**
+ * Fold another conversation's contact (all of its identities) into this contact
+ */
+export async function mergeContact(contactId: string, request: MergeContactRequest): Promise<ContactProfile> {
+  const response = await api.post<ContactProfile>(`/api/v2/contacts/${contactId}/merge`, request);
+
+  return toContactProfile(response.data);
+}
+
+/**
+ * Split an identity (and its conversations) back out into a contact of its own
+ */
+export async function unmergeContactIdentity(contactId: string, identityId: string): Promise<ContactProfile> {
+  const response = await api.delete<ContactProfile>(`/api/v2/contacts/${contactId}/identities/${identityId}`);
+
+  return toContactProfile(response.data);
+}
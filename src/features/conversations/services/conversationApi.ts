@@ -5,6 +5,7 @@
  */
 
 import api from '@/lib/api';
+import type { ConversationCsat, ConversationSla, TriggeredAction } from '../types';
 
 // ============================================================================
 // Types
@@ -21,6 +22,7 @@ export interface ConversationResponse {
   last_message?: string;
   last_message_at?: string;
   is_ai: boolean;
+  ai_handoff_until?: string | null;
   is_active: boolean;
   topic?: string;
   sentiment?: number;
@@ -33,6 +35,15 @@ export interface ConversationResponse {
   read_at?: string;
   is_pinned: boolean;
   pinned_at?: string;
+  triggered_actions?: TriggeredAction[] | null;
+  // Human teammate (user id) responsible for the conversation. NULL = unassigned.
+  assigned_to?: string | null;
+  // Organization conversation label ids
+  label_ids?: string[] | null;
+  // Latest satisfaction survey and the customer's rating
+  csat?: ConversationCsat | null;
+  // SLA timers; NULL = SLAs disabled or no timer started
+  sla?: ConversationSla | null;
 }
 
 export interface CursorPaginatedConversationsResponse {
@@ -50,6 +61,14 @@ export interface GetConversationsParams {
   source?: string[];
   is_read?: boolean;
   urgent?: boolean;
+  /** Saved view id — the backend applies the view's filter expression */
+  view_id?: string;
+  /** Assignee filter: 'me', 'unassigned' or a teammate user id */
+  assigned_to?: string;
+  /** Only running SLA timers that are at risk or already breached */
+  sla_at_risk?: boolean;
+  /** Conversations carrying any of these label ids */
+  label_ids?: string[];
 }
 
 // ============================================================================
@@ -117,6 +136,22 @@ export async function getConversations(
     queryParams.append('urgent', params.urgent.toString());
   }
 
+  if (params.view_id) {
+    queryParams.append('viewId', params.view_id);
+  }
+
+  if (params.assigned_to) {
+    queryParams.append('assignedTo', params.assigned_to);
+  }
+
+  if (params.sla_at_risk) {
+    queryParams.append('slaAtRisk', 'true');
+  }
+
+  if (params.label_ids && params.label_ids.length > 0) {
+    queryParams.append('labelIds', params.label_ids.join(','));
+  }
+
   const response = await api.get<CursorPaginatedConversationsResponse>(
     `/api/v2/conversations?${queryParams.toString()}`
   );
@@ -244,15 +279,50 @@ export async function markConversationAsUrgent(
   await api.post(`/api/v2/conversations/${conversationId}/mark-urgent`);
 }
 
+export interface MarkResolvedResponse {
+  /** True when the organization has CSAT enabled and a survey went out to the customer */
+  csat_requested: boolean;
+}
+
 /**
  * Mark a conversation as resolved (clears all attention flags)
+ * Sends the CSAT survey when the organization has it enabled.
  *
  * @param conversationId - The conversation ID to mark as resolved
  */
 export async function markConversationAsResolved(
   conversationId: string
+): Promise<MarkResolvedResponse> {
+  const response = await api.post<MarkResolvedResponse | undefined>(
+    `/api/v2/conversations/${conversationId}/mark-resolved`
+  );
+  return { csat_requested: response.data?.csat_requested ?? false };
+}
+
+/**
+ * Assign a conversation to a teammate, or clear the assignee with `null`
+ *
+ * @param conversationId - The conversation ID
+ * @param userId - Organization member user ID, or null to unassign
+ */
+export async function assignConversation(
+  conversationId: string,
+  userId: string | null
+): Promise<void> {
+  await api.post(`/api/v2/conversations/${conversationId}/assign`, { user_id: userId });
+}
+
+/**
+ * Replace the labels on a conversation
+ *
+ * @param conversationId - The conversation ID
+ * @param labelIds - Organization label ids; an empty list removes every label
+ */
+export async function setConversationLabels(
+  conversationId: string,
+  labelIds: string[]
 ): Promise<void> {
-  await api.post(`/api/v2/conversations/${conversationId}/mark-resolved`);
+  await api.put(`/api/v2/conversations/${conversationId}/labels`, { label_ids: labelIds });
 }
 
 /**
@@ -0,0 +1,57 @@
+/**
+ * Conversation Labels API Service
+ * Organization-level labels. Any member can apply them to a conversation;
+ * creating, editing and deleting them is limited to org admins server-side.
+ * Deleting a label removes it from every conversation and action.
+ */
+
+import api from '@/lib/api';
+import type {
+  ConversationLabel,
+  CreateConversationLabelRequest,
+  UpdateConversationLabelRequest,
+} from '../types';
+
+/**
+ * Fetch the organization's labels, ordered by name
+ */
+export async function getConversationLabels(organizationId: string): Promise<ConversationLabel[]> {
+  const response = await api.get<ConversationLabel[]>('/api/v2/conversation-labels', {
+    params: { organizationId },
+  });
+
+  return response.data ?? [];
+}
+
+/**
+ * Create a label
+ */
+export async function createConversationLabel(
+  request: CreateConversationLabelRequest
+): Promise<ConversationLabel> {
+  const response = await api.post<ConversationLabel>('/api/v2/conversation-labels', request);
+
+  return response.data;
+}
+
+/**
+ * Rename or recolor a label
+ */
+export async function updateConversationLabel(
+  labelId: string,
+  request: UpdateConversationLabelRequest
+): Promise<ConversationLabel> {
+  const response = await api.put<ConversationLabel>(
+    `/api/v2/conversation-labels/${labelId}`,
+    request
+  );
+
+  return response.data;
+}
+
+/**
+ * Delete a label
+ */
+export async function deleteConversationLabel(labelId: string): Promise<void> {
+  await api.delete(`/api/v2/conversation-labels/${labelId}`);
+}
@@ -0,0 +1,62 @@
+/**
+ * Conversation Notes API Service
+ * Internal team notes on a conversation. Notes live on their own endpoint so
+ * they can never be dispatched to the customer's platform; the backend fans
+ * out a mention row per newly mentioned teammate.
+ */
+
+import api from '@/lib/api';
+import type {
+  ConversationNote,
+  CreateConversationNoteRequest,
+  UpdateConversationNoteRequest,
+} from '../types';
+
+/**
+ * Fetch all notes for a conversation, oldest first
+ */
+export async function getConversationNotes(conversationId: string): Promise<ConversationNote[]> {
+  const response = await api.get<ConversationNote[]>(
+    `/api/v2/conversations/${conversationId}/notes`
+  );
+
+  return response.data ?? [];
+}
+
+/**
+ * Add a note to a conversation
+ */
+export async function createConversationNote(
+  conversationId: string,
+  request: CreateConversationNoteRequest
+): Promise<ConversationNote> {
+  const response = await api.post<ConversationNote>(
+    `/api/v2/conversations/${conversationId}/notes`,
+    request
+  );
+
+  return response.data;
+}
+
+/**
+ * Edit a note. Only the author may edit.
+ */
+export async function updateConversationNote(
+  conversationId: string,
+  noteId: string,
+  request: UpdateConversationNoteRequest
+): Promise<ConversationNote> {
+  const response = await api.put<ConversationNote>(
+    `/api/v2/conversations/${conversationId}/notes/${noteId}`,
+    request
+  );
+
+  return response.data;
+}
+
+/**
+ * Delete a note. Only the author may delete.
+ */
+export async function deleteConversationNote(conversationId: string, noteId: string): Promise<void> {
+  await api.delete(`/api/v2/conversations/${conversationId}/notes/${noteId}`);
+}
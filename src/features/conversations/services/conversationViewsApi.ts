@@ -0,0 +1,71 @@
+/**
+ * Conversation Views API Service
+ * Saved inbox views (named filter expressions), personal or shared across the
+ * organization. The list endpoint returns the caller's own views plus every
+ * view shared within the agent's organization.
+ */
+
+import api from '@/lib/api';
+import type {
+  ConversationView,
+  ConversationViewCounts,
+  CreateConversationViewRequest,
+  UpdateConversationViewRequest,
+} from '../types';
+
+/**
+ * Fetch saved views for an agent (own + organization-shared), ordered by sort_order
+ */
+export async function getConversationViews(agentId: string): Promise<ConversationView[]> {
+  const response = await api.get<ConversationView[]>('/api/v2/conversation-views', {
+    params: { agentId },
+  });
+
+  return response.data ?? [];
+}
+
+/**
+ * Create a saved view
+ */
+export async function createConversationView(
+  request: CreateConversationViewRequest
+): Promise<ConversationView> {
+  const response = await api.post<ConversationView>('/api/v2/conversation-views', request);
+
+  return response.data;
+}
+
+/**
+ * Update a saved view. Only the creator (or an org admin for shared views) may edit.
+ */
+export async function updateConversationView(
+  viewId: string,
+  request: UpdateConversationViewRequest
+): Promise<ConversationView> {
+  const response = await api.put<ConversationView>(
+    `/api/v2/conversation-views/${viewId}`,
+    request
+  );
+
+  return response.data;
+}
+
+/**
+ * Delete a saved view
+ */
+export async function deleteConversationView(viewId: string): Promise<void> {
+  await api.delete(`/api/v2/conversation-views/${viewId}`);
+}
+
+/**
+ * Unread conversation count for every pinned view of an agent, keyed by view id.
+ * Evaluated server-side over the full conversation table, not just loaded pages.
+ */
+export async function getConversationViewCounts(agentId: string): Promise<ConversationViewCounts> {
+  const response = await api.get<ConversationViewCounts>(
+    '/api/v2/conversation-views/unread-counts',
+    { params: { agentId } }
+  );
+
+  return response.data ?? {};
+}
@@ -1,5 +1,6 @@
 import api from '@/lib/api';
 import type { ChatMessage } from '../types/conversation.types';
+import type { MessageSearchFilters, MessageSearchResponse } from '../types/messageSearch.types';
 import { logger } from '@/lib/logger';
 
 /**
@@ -11,6 +12,10 @@ export interface GetMessagesParams {
   cursor?: string | null;
   /** Page size (default 50, max 100) */
   limit?: number;
+  /** Load a page centered on this message instead of the newest page (search deep-links) */
+  aroundMessageId?: string;
+  /** 'newer' walks forward from `cursor` (a `newer_cursor`); default walks back */
+  direction?: 'older' | 'newer';
 }
 
 /**
@@ -22,6 +27,9 @@ export interface CursorPaginatedMessagesResponse {
   items: ChatMessage[];
   next_cursor: string | null;
   has_more: boolean;
+  /** Only set for `aroundMessageId` / `direction: 'newer'` pages — cursor for messages after the page */
+  newer_cursor: string | null;
+  has_newer: boolean;
 }
 
 /**
@@ -32,6 +40,9 @@ export interface CursorPaginatedMessagesResponse {
  * For "load more" on scroll-to-top, pass the `next_cursor` from the previous
  * response — the next page will contain messages strictly older than the cursor,
  * still in ascending order, ready to be prepended to the existing list.
+ *
+ * With `aroundMessageId` the page is centered on that message; `newer_cursor`
+ * (with `direction: 'newer'`) then walks forward towards the latest message.
  */
 export async function getMessages(
   params: GetMessagesParams
@@ -46,6 +57,12 @@ export async function getMessages(
     if (params.limit !== undefined) {
       queryParams.append('limit', params.limit.toString());
     }
+    if (params.aroundMessageId) {
+      queryParams.append('around', params.aroundMessageId);
+    }
+    if (params.direction) {
+      queryParams.append('direction', params.direction);
+    }
 
     const url = `/api/v2/messages?${queryParams.toString()}`;
     const response = await api.get<CursorPaginatedMessagesResponse>(url);
@@ -76,6 +93,8 @@ export async function getMessages(
       items: transformedItems as ChatMessage[],
       next_cursor: response.data.next_cursor ?? null,
       has_more: response.data.has_more ?? false,
+      newer_cursor: response.data.newer_cursor ?? null,
+      has_newer: response.data.has_newer ?? false,
     };
   } catch (error) {
     logger.error('[messageApi]', 'getMessages() failed', {
@@ -88,3 +107,68 @@ export async function getMessages(
     throw error;
   }
 }
+
+/**
+ * Fetches a conversation's entire message history (oldest first) by walking
+ * getMessages pages back to the start. Used by transcript export, so it never
+ * stops early: it pages until the backend reports no more history.
+ */
+export async function getAllMessages(conversationId: string): Promise<ChatMessage[]> {
+  const pages: ChatMessage[][] = [];
+  const seenCursors = new Set<string>();
+  let cursor: string | null = null;
+
+  for (;;) {
+    const response = await getMessages({ conversationId, cursor, limit: 100 });
+    pages.unshift(response.items);
+    if (!response.has_more || !response.next_cursor) break;
+    // A repeated cursor would loop forever; fail instead of returning a partial history
+    if (seenCursors.has(response.next_cursor)) {
+      throw new Error(`Message history paging did not advance for conversation ${conversationId}`);
+    }
+    seenCursors.add(response.next_cursor);
+    cursor = response.next_cursor;
+  }
+
+  return pages.flat();
+}
+
+/**
+ * Full-text search over message content across all conversations of an agent.
+ * Calls GET /api/v2/messages/search. Hits are ordered by relevance, then recency.
+ */
+export async function searchMessages(params: {
+  agentId: string;
+  filters: MessageSearchFilters;
+  cursor?: string | null;
+  limit?: number;
+}): Promise<MessageSearchResponse> {
+  const { filters } = params;
+  const queryParams = new URLSearchParams();
+  queryParams.append('agentId', params.agentId);
+  queryParams.append('q', filters.query);
+
+  if (filters.senderRole !== undefined) queryParams.append('senderRole', String(filters.senderRole));
+  if (filters.messageType !== undefined) queryParams.append('messageType', String(filters.messageType));
+  if (filters.source) queryParams.append('source', filters.source);
+  if (filters.dateFrom) queryParams.append('from', filters.dateFrom);
+  if (filters.dateTo) queryParams.append('to', filters.dateTo);
+  if (params.cursor) queryParams.append('cursor', params.cursor);
+  if (params.limit !== undefined) queryParams.append('limit', params.limit.toString());
+
+  try {
+    const { data } = await api.get<MessageSearchResponse>(`/api/v2/messages/search?${queryParams.toString()}`);
+    return {
+      items: data.items ?? [],
+      next_cursor: data.next_cursor ?? null,
+      has_more: data.has_more ?? false,
+      total: data.total ?? 0,
+    };
+  } catch (error) {
+    logger.error('[messageApi]', 'searchMessages() failed', {
+      agentId: params.agentId,
+      error: error instanceof Error ? error.message : String(error),
+    });
+    throw error;
+  }
+}
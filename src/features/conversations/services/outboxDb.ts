@@ -0,0 +1,76 @@
+/**
+ * Outbox persistence - IndexedDB
+ * Blobs (voice notes, attachments) can't go through localStorage, so queued
+ * messages are kept in a small IndexedDB object store keyed by client id.
+ */
+
+import { logger } from '@/lib/logger';
+import type { OutboxEntry } from '../types';
+
+const DB_NAME = 'mojeeb-outbox';
+const DB_VERSION = 1;
+const STORE_NAME = 'messages';
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+function openDb(): Promise<IDBDatabase> {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      if (typeof indexedDB === 'undefined') {
+        reject(new Error('IndexedDB is not available'));
+        return;
+      }
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        if (!db.objectStoreNames.contains(STORE_NAME)) {
+          db.createObjectStore(STORE_NAME, { keyPath: 'client_id' });
+        }
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+    // Allow a later call to retry (e.g. private mode denied the first open)
+    dbPromise.catch(() => {
+      dbPromise = null;
+    });
+  }
+  return dbPromise;
+}
+
+async function run<T>(mode: IDBTransactionMode, action: (store: IDBObjectStore) => IDBRequest<T>): Promise<T> {
+  const db = await openDb();
+  return new Promise((resolve, reject) => {
+    const request = action(db.transaction(STORE_NAME, mode).objectStore(STORE_NAME));
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+export const outboxDb = {
+  async getAll(): Promise<OutboxEntry[]> {
+    try {
+      return await run<OutboxEntry[]>('readonly', (store) => store.getAll());
+    } catch (error) {
+      logger.error('[outboxDb]', 'Failed to read outbox', error);
+      return [];
+    }
+  },
+
+  async put(entry: OutboxEntry): Promise<void> {
+    try {
+      await run('readwrite', (store) => store.put(entry));
+    } catch (error) {
+      // In-memory queue still works for this session
+      logger.error('[outboxDb]', 'Failed to persist outbox entry', error);
+    }
+  },
+
+  async remove(clientId: string): Promise<void> {
+    try {
+      await run('readwrite', (store) => store.delete(clientId));
+    } catch (error) {
+      logger.error('[outboxDb]', 'Failed to delete outbox entry', error);
+    }
+  },
+};
@@ -2,6 +2,8 @@
  * Chat Store - Zustand
  * Manages chat message history and cursor-based pagination.
  * Real-time subscriptions handled by useChatEngine hook.
+ * A search hit opens the thread around that message (jumpToMessage); the page
+ * can then grow in both directions until it meets the latest message.
  */
 
 import { create } from 'zustand';
@@ -20,11 +22,23 @@ interface ChatStore {
   hasMore: boolean;
   /** Base64 cursor pointing at the OLDEST message currently in `messages`. Used by loadMore. */
   nextCursor: string | null;
+  /** True after a jump while the newest messages aren't loaded yet. Used by loadNewer. */
+  hasNewer: boolean;
+  newerCursor: string | null;
+  isLoadingNewer: boolean;
+  /** Requested deep-link target; ChatPanel picks it up when that conversation opens */
+  jumpTarget: { conversationId: string; messageId: string } | null;
+  /** Loaded message the thread should scroll to and highlight once */
+  focusedMessageId: string | null;
   error: string | null;
 
   // Actions
   fetchMessages: (conversationId: string, refresh?: boolean) => Promise<void>;
   loadMore: (conversationId: string) => Promise<void>;
+  loadNewer: (conversationId: string) => Promise<void>;
+  requestJump: (conversationId: string, messageId: string) => void;
+  jumpToMessage: (conversationId: string, messageId: string) => Promise<void>;
+  clearFocusedMessage: () => void;
   changeConversation: (conversationId: string) => void;
   clearMessages: () => void;
 
@@ -42,6 +56,11 @@ export const useChatStore = create<ChatStore>((set, get) => ({
   isLoading: false,
   hasMore: true,
   nextCursor: null,
+  hasNewer: false,
+  newerCursor: null,
+  isLoadingNewer: false,
+  jumpTarget: null,
+  focusedMessageId: null,
   error: null,
 
   // Fetch messages — first page on conversation open, or older page on loadMore.
@@ -62,6 +81,9 @@ export const useChatStore = create<ChatStore>((set, get) => ({
         messages: [],
         hasMore: true,
         nextCursor: null,
+        hasNewer: false,
+        newerCursor: null,
+        focusedMessageId: null,
         currentConversationId: conversationId,
         isLoading: true,
         error: null,
@@ -92,6 +114,8 @@ export const useChatStore = create<ChatStore>((set, get) => ({
         messages: newMessages,
         hasMore: response.has_more,
         nextCursor: response.next_cursor,
+        // A refresh lands on the newest page
+        ...(refresh && { hasNewer: false, newerCursor: null }),
         isLoading: false,
         currentConversationId: conversationId,
       });
@@ -120,6 +144,97 @@ export const useChatStore = create<ChatStore>((set, get) => ({
     await get().fetchMessages(conversationId, false);
   },
 
+  // Load Newer — walks forward after a jump until it meets the latest message
+  loadNewer: async (conversationId: string) => {
+    const { isLoadingNewer, hasNewer, newerCursor, currentConversationId } = get();
+    if (isLoadingNewer || !hasNewer || !newerCursor || currentConversationId !== conversationId) {
+      return;
+    }
+
+    set({ isLoadingNewer: true });
+    try {
+      const response = await getMessages({
+        conversationId,
+        cursor: newerCursor,
+        direction: 'newer',
+        limit: CHAT_PAGINATION.PAGE_SIZE,
+      });
+
+      // Conversation switched while loading
+      if (get().currentConversationId !== conversationId) return;
+
+      const { messages } = get();
+      const known = new Set(messages.map((m) => m.id));
+      set({
+        messages: [...messages, ...response.items.filter((m) => !known.has(m.id))],
+        hasNewer: response.has_newer,
+        newerCursor: response.newer_cursor,
+      });
+    } catch (error: CatchError) {
+      logger.error('[chatStore]', 'loadNewer() error', {
+        conversationId,
+        error: error instanceof Error ? error.message : String(error),
+      });
+      handleMessageFetchError(error, { component: 'chatStore', conversationId });
+    } finally {
+      set({ isLoadingNewer: false });
+    }
+  },
+
+  // Deep-link request (message search). Consumed by ChatPanel via jumpToMessage.
+  requestJump: (conversationId: string, messageId: string) => {
+    set({ jumpTarget: { conversationId, messageId } });
+  },
+
+  // Replace the thread with the page around `messageId`
+  jumpToMessage: async (conversationId: string, messageId: string) => {
+    set({
+      jumpTarget: null,
+      messages: [],
+      hasMore: true,
+      nextCursor: null,
+      hasNewer: false,
+      newerCursor: null,
+      focusedMessageId: null,
+      currentConversationId: conversationId,
+      isLoading: true,
+      error: null,
+    });
+
+    try {
+      const response = await getMessages({
+        conversationId,
+        aroundMessageId: messageId,
+        limit: CHAT_PAGINATION.PAGE_SIZE,
+      });
+
+      if (get().currentConversationId !== conversationId) return;
+
+      set({
+        messages: response.items,
+        hasMore: response.has_more,
+        nextCursor: response.next_cursor,
+        hasNewer: response.has_newer,
+        newerCursor: response.newer_cursor,
+        focusedMessageId: messageId,
+        isLoading: false,
+      });
+    } catch (error: CatchError) {
+      logger.error('[chatStore]', 'jumpToMessage() error', {
+        conversationId,
+        messageId,
+        error: error instanceof Error ? error.message : String(error),
+      });
+      set({ isLoading: false });
+      // Fall back to the latest page so the conversation still opens
+      await get().fetchMessages(conversationId, true);
+    }
+  },
+
+  clearFocusedMessage: () => {
+    set({ focusedMessageId: null });
+  },
+
   // Change Conversation
   changeConversation: (conversationId: string) => {
     get().clearMessages();
@@ -134,6 +249,9 @@ export const useChatStore = create<ChatStore>((set, get) => ({
       isLoading: false,
       hasMore: true,
       nextCursor: null,
+      hasNewer: false,
+      newerCursor: null,
+      focusedMessageId: null,
       error: null,
     });
   },
@@ -144,13 +262,19 @@ export const useChatStore = create<ChatStore>((set, get) => ({
   },
 
   addMessage: (message: ChatMessage) => {
-    const { messages } = get();
+    const { messages, hasNewer } = get();
 
     // Prevent duplicates
     if (messages.some((m) => m.id === message.id)) {
       return;
     }
 
+    // Viewing older history after a jump: a live message would sit after a gap.
+    // loadNewer (or jumping back to latest) brings it in.
+    if (hasNewer && !message.isOptimistic) {
+      return;
+    }
+
     set({ messages: [...messages, message] });
   },
 
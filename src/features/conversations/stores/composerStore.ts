@@ -0,0 +1,49 @@
+/**
+ * Composer Store - Zustand
+ *
+ * One-shot requests to the mounted MessageComposer from outside the chat panel
+ * (keyboard shortcuts, command palette, copilot). The composer owns its text
+ * state; this store only carries the intent and is consumed by the composer.
+ * `draft` is a read-only mirror of the composer text for panels that work on it.
+ */
+import { create } from 'zustand';
+import type { SavedMessage } from '@/features/saved-messages/types/savedMessages.types';
+
+interface ComposerStore {
+  /** Focus the composer; cleared by the composer once applied */
+  pendingFocus: boolean;
+  /** Text waiting to be inserted at the caret; cleared by the composer once applied */
+  pendingInsert: string | null;
+  /** Saved message to resolve for the open conversation and insert; cleared by the composer */
+  pendingSavedMessage: SavedMessage | null;
+  /** Text replacing the whole draft ('' empties it); cleared by the composer once applied */
+  pendingReplace: string | null;
+  /** Current composer text, kept in sync by the composer */
+  draft: string;
+  requestFocus: () => void;
+  requestInsert: (text: string) => void;
+  requestSavedMessageInsert: (message: SavedMessage) => void;
+  requestReplace: (text: string) => void;
+  setDraft: (text: string) => void;
+  clearPendingFocus: () => void;
+  clearPendingInsert: () => void;
+  clearPendingSavedMessage: () => void;
+  clearPendingReplace: () => void;
+}
+
+export const useComposerStore = create<ComposerStore>((set) => ({
+  pendingFocus: false,
+  pendingInsert: null,
+  pendingSavedMessage: null,
+  pendingReplace: null,
+  draft: '',
+  requestFocus: () => set({ pendingFocus: true }),
+  requestInsert: (text) => set({ pendingInsert: text }),
+  requestSavedMessageInsert: (message) => set({ pendingSavedMessage: message }),
+  requestReplace: (text) => set({ pendingReplace: text }),
+  setDraft: (text) => set({ draft: text }),
+  clearPendingFocus: () => set({ pendingFocus: false }),
+  clearPendingInsert: () => set({ pendingInsert: null }),
+  clearPendingSavedMessage: () => set({ pendingSavedMessage: null }),
+  clearPendingReplace: () => set({ pendingReplace: null }),
+}));
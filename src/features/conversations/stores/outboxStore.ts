@@ -0,0 +1,200 @@
+/**
+ * Outbox Store - Zustand
+ * Offline queue for outgoing conversation messages, mirrored to IndexedDB
+ * (services/outboxDb.ts). Entries replay strictly in creation order: a network
+ * failure stops the run so later messages never overtake earlier ones, while a
+ * server rejection marks only that entry as failed for the user to retry/discard.
+ * Triggers (mount, reconnect, app resume, backoff) live in useOutboxSync.
+ */
+
+import { create } from 'zustand';
+import { logger } from '@/lib/logger';
+import { getErrorMessage } from '@/lib/errors';
+import { chatApiService } from '../services/chatApiService';
+import { outboxDb } from '../services/outboxDb';
+import { useChatStore } from './chatStore';
+import { detectMessageType, SenderRole } from '../types';
+import type { MediaAttachment, MessageReplyTo, OutboxEntry, OutboxFile } from '../types';
+import { isNetworkError, mergeOutboxAttachments, sortOutboxEntries } from '../utils/outbox';
+
+export interface EnqueueOutboxParams {
+  /** Reuse the optimistic message's correlation id so a late original send dedupes */
+  clientId?: string;
+  userId: string;
+  conversationId: string;
+  agentId: string;
+  message: string;
+  attachments?: string | null;
+  files?: OutboxFile[];
+  replyTo?: MessageReplyTo | null;
+  createdAt?: string;
+}
+
+interface OutboxStore {
+  // State
+  entries: OutboxEntry[];
+  /** User whose entries are loaded; null until hydrate() */
+  userId: string | null;
+  isFlushing: boolean;
+
+  // Actions
+  hydrate: (userId: string) => Promise<void>;
+  enqueue: (params: EnqueueOutboxParams) => Promise<void>;
+  flush: () => Promise<void>;
+  retry: (clientId: string) => Promise<void>;
+  discard: (clientId: string) => Promise<void>;
+}
+
+const uploadOutboxFile = (entry: OutboxEntry, file: OutboxFile): Promise<MediaAttachment> => {
+  const params = {
+    file: new File([file.blob], file.name, { type: file.type }),
+    conversationId: entry.conversation_id,
+    messageId: entry.client_id,
+  };
+  switch (file.kind) {
+    case 'image':
+      return chatApiService.uploadImageWithProgress(params);
+    case 'audio':
+      return chatApiService.uploadAudioWithProgress({ ...params, duration: file.duration });
+    case 'document':
+      return chatApiService.uploadDocumentWithProgress(params);
+    case 'video':
+      return chatApiService.uploadVideoWithProgress(params);
+  }
+};
+
+export const useOutboxStore = create<OutboxStore>((set, get) => {
+  const saveEntry = (clientId: string, updates: Partial<OutboxEntry>): OutboxEntry | null => {
+    const current = get().entries.find((e) => e.client_id === clientId);
+    if (!current) return null;
+    const next = { ...current, ...updates };
+    set((state) => ({ entries: state.entries.map((e) => (e.client_id === clientId ? next : e)) }));
+    void outboxDb.put(next);
+    return next;
+  };
+
+  const removeEntry = (clientId: string) => {
+    set((state) => ({ entries: state.entries.filter((e) => e.client_id !== clientId) }));
+    void outboxDb.remove(clientId);
+  };
+
+  /** Upload remaining files one by one, persisting progress so a retry never re-uploads */
+  const uploadFiles = async (entry: OutboxEntry): Promise<OutboxEntry> => {
+    let current = entry;
+    while (current.files.length > 0) {
+      const [file, ...rest] = current.files;
+      const attachment = await uploadOutboxFile(current, file);
+      current =
+        saveEntry(current.client_id, {
+          attachments: mergeOutboxAttachments(current.attachments, file.kind, [attachment]),
+          files: rest,
+        }) ?? current;
+    }
+    return current;
+  };
+
+  return {
+    entries: [],
+    userId: null,
+    isFlushing: false,
+
+    hydrate: async (userId) => {
+      const stored = await outboxDb.getAll();
+      // An entry left "retrying" by a closed tab goes back to the queue
+      const entries = sortOutboxEntries(stored.filter((e) => e.user_id === userId)).map((e) =>
+        e.status === 'retrying' ? { ...e, status: 'queued' as const } : e
+      );
+      set({ entries, userId });
+    },
+
+    enqueue: async (params) => {
+      const entry: OutboxEntry = {
+        client_id: params.clientId ?? crypto.randomUUID(),
+        user_id: params.userId,
+        conversation_id: params.conversationId,
+        agent_id: params.agentId,
+        message: params.message,
+        attachments: params.attachments ?? null,
+        files: params.files ?? [],
+        reply_to: params.replyTo ?? null,
+        status: 'queued',
+        attempts: 0,
+        last_error: null,
+        created_at: params.createdAt ?? new Date().toISOString(),
+      };
+
+      logger.info('[outboxStore]', 'Message queued', {
+        clientId: entry.client_id,
+        conversationId: entry.conversation_id,
+        files: entry.files.length,
+      });
+
+      set((state) => ({
+        entries: sortOutboxEntries([...state.entries.filter((e) => e.client_id !== entry.client_id), entry]),
+      }));
+      await outboxDb.put(entry);
+    },
+
+    flush: async () => {
+      const { isFlushing, userId } = get();
+      if (isFlushing || !userId) return;
+      set({ isFlushing: true });
+
+      try {
+        for (const queued of sortOutboxEntries(get().entries)) {
+          if (queued.status === 'failed' || queued.user_id !== userId) continue;
+
+          const entry = saveEntry(queued.client_id, { status: 'retrying' });
+          if (!entry) continue; // discarded meanwhile
+
+          try {
+            const ready = await uploadFiles(entry);
+            const sent = await chatApiService.sendMessage({
+              conversationId: ready.conversation_id,
+              agentId: ready.agent_id,
+              message: ready.message,
+              senderRole: SenderRole.HumanAgent,
+              messageType: detectMessageType(ready.attachments),
+              attachments: ready.attachments ?? undefined,
+              clientMessageId: ready.client_id,
+              replyToMessageId: ready.reply_to?.message_id ?? undefined,
+            });
+
+            removeEntry(ready.client_id);
+            logger.info('[outboxStore]', 'Queued message delivered', {
+              clientId: ready.client_id,
+              messageId: sent.id,
+              attempts: ready.attempts + 1,
+            });
+
+            // Show it right away if that thread is open; the realtime INSERT dedupes by id
+            const chat = useChatStore.getState();
+            if (chat.currentConversationId === ready.conversation_id) {
+              chat.addMessage({ ...sent, correlation_id: ready.client_id });
+            }
+          } catch (error) {
+            const attempts = entry.attempts + 1;
+            if (isNetworkError(error)) {
+              saveEntry(entry.client_id, { status: 'queued', attempts, last_error: getErrorMessage(error) });
+              logger.warn('[outboxStore]', 'Still offline - pausing replay', { clientId: entry.client_id, attempts });
+              break; // keep order: nothing after this one may go out first
+            }
+            saveEntry(entry.client_id, { status: 'failed', attempts, last_error: getErrorMessage(error) });
+            logger.error('[outboxStore]', 'Queued message rejected', error, { clientId: entry.client_id });
+          }
+        }
+      } finally {
+        set({ isFlushing: false });
+      }
+    },
+
+    retry: async (clientId) => {
+      saveEntry(clientId, { status: 'queued' });
+      await get().flush();
+    },
+
+    discard: async (clientId) => {
+      removeEntry(clientId);
+    },
+  };
+});
@@ -0,0 +1,52 @@
+/**
+ * Translation Store - Zustand
+ *
+ * Per-conversation translation preferences of the signed-in teammate,
+ * persisted so they survive reloads: auto-translate incoming messages, and
+ * send replies in the customer's language.
+ */
+import { create } from 'zustand';
+import { persist } from 'zustand/middleware';
+
+export interface ConversationTranslationSettings {
+  /** Show customer messages translated into the teammate's language */
+  autoTranslate: boolean;
+  /** Translate replies into the customer's language (previewed before sending) */
+  sendInCustomerLanguage: boolean;
+}
+
+export const DEFAULT_TRANSLATION_SETTINGS: ConversationTranslationSettings = {
+  autoTranslate: false,
+  sendInCustomerLanguage: false,
+};
+
+interface TranslationState {
+  byConversation: Record<string, ConversationTranslationSettings>;
+  updateSettings: (conversationId: string, changes: Partial<ConversationTranslationSettings>) => void;
+}
+
+export const useTranslationStore = create<TranslationState>()(
+  persist(
+    (set) => ({
+      byConversation: {},
+
+      updateSettings: (conversationId, changes) =>
+        set((state) => ({
+          byConversation: {
+            ...state.byConversation,
+            [conversationId]: {
+              ...DEFAULT_TRANSLATION_SETTINGS,
+              ...state.byConversation[conversationId],
+              ...changes,
+            },
+          },
+        })),
+    }),
+    { name: 'mojeeb-conversation-translation' }
+  )
+);
+
+/** Settings for one conversation, defaults when the teammate never changed them */
+export function useConversationTranslationSettings(conversationId: string): ConversationTranslationSettings {
+  return useTranslationStore((state) => state.byConversation[conversationId] ?? DEFAULT_TRANSLATION_SETTINGS);
+}
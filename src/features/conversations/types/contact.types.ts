@@ -0,0 +1,39 @@
+/**
+ * Contact Profile
+ * One customer across channels. The backend groups conversations into a
+ * contact by `platform_customer_id`, phone number or a shared lead; agents can
+ * merge further identities in by hand or split one back out (unmerge).
+ */
+
+import type { Conversation } from './conversation.types';
+
+/** Why an identity belongs to the contact */
+export type ContactMatchReason = 'platform_id' | 'phone' | 'lead' | 'manual';
+
+/** One channel-level identity of the customer (e.g. their WhatsApp number) */
+export interface ContactIdentity {
+  id: string;
+  source: string;
+  platform_customer_id: string | null;
+  phone: string | null;
+  display_name: string | null;
+  match_reason: ContactMatchReason;
+  conversation_ids: string[];
+  linked_at: string;
+}
+
+export interface ContactProfile {
+  id: string;
+  display_name: string;
+  phone: string | null;
+  /** Lead linked to any of the contact's conversations (most recent wins) */
+  lead_id: string | null;
+  identities: ContactIdentity[];
+  /** Every conversation of the contact across sources, newest activity first */
+  conversations: Conversation[];
+}
+
+export interface MergeContactRequest {
+  /** A conversation of the contact to fold into this one */
+  conversation_id: string;
+}
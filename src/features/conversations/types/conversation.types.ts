@@ -52,6 +52,52 @@ export interface TriggeredAction {
   executed_at: string; // ISO 8601 UTC
 }
 
+/**
+ * SLA timers on a conversation — snapshot of the matched organization SLA
+ * policy, taken when the conversation started requiring human attention or
+ * the AI was paused by a handoff window. Targets don't change if the policy
+ * is edited afterwards. Timestamps are ISO 8601 UTC.
+ */
+export interface ConversationSla {
+  policy_id: string;
+  policy_name: string;
+  started_at: string;
+  first_response_due_at: string;
+  /** First human reply after started_at; NULL while still waiting */
+  first_responded_at: string | null;
+  resolution_due_at: string;
+  /** Conversation closed after started_at; NULL while still open */
+  resolved_at: string | null;
+  /** Copied from the organization settings: "breaching soon" threshold */
+  at_risk_minutes: number;
+}
+
+/**
+ * How the satisfaction survey was put to the customer, picked server-side from
+ * the conversation source: WhatsApp interactive reply buttons, inline stars in
+ * the web widget, or a "reply 1-5" text message on every other channel.
+ * WhatsApp allows at most three reply buttons, so its answers are recorded as
+ * 5 / 3 / 1.
+ */
+export type CsatSurveyFormat = 'whatsapp_buttons' | 'widget_stars' | 'text';
+
+/**
+ * CSAT survey sent after the conversation was marked resolved, with the
+ * customer's answer once it arrives. Only the latest survey is kept.
+ * Timestamps are ISO 8601 UTC.
+ */
+export interface ConversationCsat {
+  format: CsatSurveyFormat;
+  requested_at: string;
+  /** Teammate who resolved the conversation; NULL when the AI handled it alone */
+  resolved_by: string | null;
+  /** 1 (very dissatisfied) to 5 (very satisfied); NULL while awaiting a reply */
+  score: number | null;
+  /** Optional free-text follow-up from the customer */
+  comment: string | null;
+  responded_at: string | null;
+}
+
 export interface Conversation {
   id: string;
   customer_id: string;
@@ -96,6 +142,19 @@ export interface Conversation {
   // first. Populated server-side by ActionQueueProcessor; source of truth lives in
   // action_executions. May be undefined on older conversations that pre-date the column.
   triggered_actions?: TriggeredAction[] | null;
+
+  // Assignment (conversation-level). User id of the responsible teammate; NULL = unassigned.
+  assigned_to?: string | null;
+
+  // Organization label ids applied by teammates or by actions. Resolve names/colors
+  // through useConversationLabels — labels can be renamed without touching conversations.
+  label_ids?: string[] | null;
+
+  // SLA timers. NULL/undefined = SLAs disabled or no timer started for this conversation.
+  sla?: ConversationSla | null;
+
+  // Satisfaction survey. NULL/undefined = CSAT disabled or the conversation was never resolved.
+  csat?: ConversationCsat | null;
 }
 
 // === Message Types ===
@@ -132,6 +191,8 @@ export enum MessageSendStatus {
   Sending = 'sending',
   Sent = 'sent',
   Error = 'error',
+  Queued = 'queued', // Waiting in the offline outbox
+  Retrying = 'retrying', // Outbox replay in progress
 }
 
 export interface MessageAttachment {
@@ -139,6 +200,8 @@ export interface MessageAttachment {
   type: string;
   filename?: string;
   content_type?: string;
+  /** Text shown under an image */
+  caption?: string;
 }
 
 export const isVideoAttachment = (attachment: MessageAttachment): boolean =>
@@ -174,6 +237,9 @@ export interface MediaAttachment {
 
   // Document specific
   page_count?: number;
+
+  /** Image caption, set by the composer before sending */
+  caption?: string;
 }
 
 /**
@@ -186,6 +252,34 @@ export interface AttachmentsWrapper {
   Documents?: MediaAttachment[];
 }
 
+/**
+ * Quoted parent of a reply (WhatsApp `context`, Instagram `reply_to`, or a
+ * teammate's "Reply" in the composer). A snapshot, so it still renders when
+ * the parent isn't loaded or was deleted.
+ */
+export interface MessageReplyTo {
+  /** Parent id in this conversation; null when the platform message is unknown to us */
+  message_id: string | null;
+  platform_message_id: string | null;
+  sender_role: SenderRole | null;
+  /** Text snippet of the parent, null for media-only messages */
+  message: string | null;
+  message_type: MessageType | null;
+}
+
+/** Emoji reaction from the customer (platform) or a teammate */
+export interface MessageReaction {
+  emoji: string;
+  sender_role: SenderRole;
+  sender_id: string | null;
+  created_at: string;
+}
+
+/** Extra context for an outgoing message */
+export interface SendMessageOptions {
+  replyTo?: MessageReplyTo | null;
+}
+
 export interface ChatMessage {
   id: string;
   conversation_id: string;
@@ -199,11 +293,16 @@ export interface ChatMessage {
   updated_at: string;
   platform_message_id: string | null;
   action_metadata: Record<string, any> | null;
+  reply_to?: MessageReplyTo | null;
+  reactions?: MessageReaction[] | null;
+  /** Set when the sender edited the text after sending */
+  edited_at?: string | null;
 
   // UI-only fields for optimistic updates
   correlation_id?: string; // Unique ID for matching optimistic messages with backend responses
-  sendStatus?: MessageSendStatus; // 'sending' | 'sent' | 'error'
+  sendStatus?: MessageSendStatus; // 'sending' | 'sent' | 'error' | 'queued' | 'retrying'
   isOptimistic?: boolean; // true for messages not yet confirmed by backend
+  queuedFiles?: { name: string; kind: string }[]; // Outbox files not uploaded yet
 }
 
 // === Helper Types ===
@@ -340,6 +439,22 @@ export const stringifyAttachments = (attachments: MessageAttachments): string =>
   return JSON.stringify(attachments);
 };
 
+/**
+ * Message type for an outgoing message, derived from its attachments JSON
+ */
+export const detectMessageType = (attachmentsJson?: string | null): MessageType => {
+  if (!attachmentsJson) return MessageType.Text;
+
+  try {
+    const parsed = JSON.parse(attachmentsJson);
+    if (parsed.audio && parsed.audio.length > 0) return MessageType.Audio;
+    if (parsed.images && parsed.images.length > 0) return MessageType.Image;
+    return MessageType.Text;
+  } catch {
+    return MessageType.Text;
+  }
+};
+
 export const isCustomerMessage = (message: ChatMessage): boolean => {
   return message.sender_role === SenderRole.Customer;
 };
@@ -360,6 +475,15 @@ export const isMessageDeleted = (message: ChatMessage): boolean => {
   return message.status === MessageStatus.Deleted;
 };
 
+/** Snapshot of a message to quote in a reply */
+export const toReplyReference = (message: ChatMessage): MessageReplyTo => ({
+  message_id: message.id,
+  platform_message_id: message.platform_message_id,
+  sender_role: message.sender_role,
+  message: message.message,
+  message_type: message.message_type,
+});
+
 export const getConversationStatusLabel = (status: ConversationStatus): string => {
   const labels: Record<ConversationStatus, string> = {
     [ConversationStatus.Draft]: 'Draft',
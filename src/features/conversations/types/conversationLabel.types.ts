@@ -0,0 +1,37 @@
+/**
+ * Conversation Labels
+ * Organization-level labels teammates apply to conversations (unlike `topic`,
+ * which the AI derives). Actions can apply them automatically when they fire.
+ */
+
+/** Fixed palette — see constants/labelColors.ts for the chip classes */
+export type ConversationLabelColor =
+  | 'neutral'
+  | 'red'
+  | 'orange'
+  | 'amber'
+  | 'green'
+  | 'teal'
+  | 'blue'
+  | 'violet'
+  | 'pink';
+
+export interface ConversationLabel {
+  id: string;
+  organization_id: string;
+  name: string;
+  color: ConversationLabelColor;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface CreateConversationLabelRequest {
+  organization_id: string;
+  name: string;
+  color: ConversationLabelColor;
+}
+
+export interface UpdateConversationLabelRequest {
+  name?: string;
+  color?: ConversationLabelColor;
+}
@@ -0,0 +1,47 @@
+/**
+ * Conversation Internal Notes
+ * Private team notes interleaved with the chat timeline. Notes are stored
+ * separately from messages and are never delivered to the customer's platform.
+ * Mentions are encoded inline as `@[Name](userId)` — see utils/mentions.ts.
+ */
+
+export interface ConversationNote {
+  id: string;
+  conversation_id: string;
+  agent_id: string;
+  created_by: string;
+  user_name: string;
+  text: string;
+  /** User ids mentioned in `text`, resolved by the backend on save */
+  mentions: string[];
+  is_edited: boolean;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface CreateConversationNoteRequest {
+  text: string;
+  mentions: string[];
+}
+
+export interface UpdateConversationNoteRequest {
+  text: string;
+  mentions: string[];
+}
+
+/**
+ * Realtime row inserted once per mentioned user when a note is created or
+ * an edit adds a new mention.
+ */
+export interface ConversationNoteMention {
+  id: string;
+  note_id: string;
+  conversation_id: string;
+  agent_id: string;
+  mentioned_user_id: string;
+  mentioned_by_name: string;
+  customer_name: string | null;
+  /** Plain-text preview of the note (mention markup already stripped) */
+  excerpt: string;
+  created_at: string;
+}
@@ -0,0 +1,92 @@
+/**
+ * Saved Conversation Views
+ * Named inbox views built from a composable filter expression over Conversation
+ * fields. The backend applies the same expression server-side (list + unread
+ * counts); the client evaluator in utils/filterExpression.ts mirrors it for
+ * realtime decisions.
+ */
+
+import type { ConversationSentiment } from './conversation.types';
+
+// === Filter Expression ===
+
+/** Boolean conversation flags that can be matched with `is`. */
+export type BooleanFilterField =
+  | 'urgent'
+  | 'requires_human_attention'
+  | 'is_read'
+  | 'is_pinned';
+
+export type ConversationFilterField =
+  | 'source'
+  | 'sentiment'
+  | BooleanFilterField
+  | 'ai_handoff_until'
+  | 'triggered_actions'
+  | 'labels'
+  | 'last_message_at';
+
+export type FilterCondition =
+  | { field: 'source'; operator: 'in' | 'not_in'; value: string[] }
+  | { field: 'sentiment'; operator: 'in' | 'not_in'; value: ConversationSentiment[] }
+  | { field: BooleanFilterField; operator: 'is'; value: boolean }
+  // true = AI currently paused by a hands-off window (ai_handoff_until > now)
+  | { field: 'ai_handoff_until'; operator: 'is_active'; value: boolean }
+  // `exists` matches a conversation with any triggered action, whatever its status;
+  // `includes` matches an action name, provider or operation id (case-insensitive).
+  | { field: 'triggered_actions'; operator: 'exists'; value: boolean }
+  | { field: 'triggered_actions'; operator: 'includes'; value: string }
+  // Organization label ids — `in` matches a conversation carrying any of them
+  | { field: 'labels'; operator: 'in' | 'not_in'; value: string[] }
+  // Relative ranges are in minutes so a view stays meaningful as time passes.
+  | { field: 'last_message_at'; operator: 'older_than' | 'newer_than'; value: number }
+  | { field: 'last_message_at'; operator: 'between'; value: { from: string | null; to: string | null } };
+
+export type FilterCombinator = 'and' | 'or';
+
+export interface FilterGroup {
+  combinator: FilterCombinator;
+  conditions: FilterNode[];
+}
+
+export type FilterNode = FilterCondition | FilterGroup;
+
+export const isFilterGroup = (node: FilterNode): node is FilterGroup =>
+  (node as FilterGroup).combinator !== undefined;
+
+// === Saved View ===
+
+export interface ConversationView {
+  id: string;
+  agent_id: string;
+  organization_id: string;
+  created_by: string;
+  name: string;
+  expression: FilterGroup;
+  /** Visible to every member of the organization, not just the creator. */
+  is_shared: boolean;
+  /** Shown in the conversation list sidebar with a live unread count. */
+  is_pinned: boolean;
+  sort_order: number;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface CreateConversationViewRequest {
+  agent_id: string;
+  name: string;
+  expression: FilterGroup;
+  is_shared: boolean;
+  is_pinned: boolean;
+}
+
+export interface UpdateConversationViewRequest {
+  name?: string;
+  expression?: FilterGroup;
+  is_shared?: boolean;
+  is_pinned?: boolean;
+  sort_order?: number;
+}
+
+/** Unread conversation count per view id, computed server-side. */
+export type ConversationViewCounts = Record<string, number>;
@@ -0,0 +1,37 @@
+/**
+ * Conversation Copilot
+ * AI help for the teammate handling a conversation: a summary of the thread,
+ * suggested replies grounded in the agent's knowledge base, and rewrites of
+ * the composer draft. Output is only ever inserted into the composer for
+ * review — nothing is sent on the teammate's behalf.
+ */
+
+export interface CopilotSummary {
+  summary: string;
+  /** What the customer is trying to get done */
+  customer_intent: string | null;
+  key_points: string[];
+  /** Questions the customer asked that haven't been answered yet */
+  open_questions: string[];
+  /** Id of the newest message the summary covers */
+  last_message_id: string | null;
+  generated_at: string;
+}
+
+/** Knowledge base document a suggestion was grounded in */
+export interface CopilotSource {
+  document_id: string;
+  title: string;
+}
+
+export interface CopilotSuggestion {
+  id: string;
+  text: string;
+  sources: CopilotSource[];
+}
+
+export type CopilotRewriteMode = 'shorter' | 'formal' | 'translate_ar';
+
+export interface CopilotRewriteResult {
+  text: string;
+}
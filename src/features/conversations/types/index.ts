@@ -1 +1,10 @@
 export * from './conversation.types';
+export * from './conversationView.types';
+export * from './conversationLabel.types';
+export * from './conversationNote.types';
+export * from './outbox.types';
+export * from './messageSearch.types';
+export * from './transcript.types';
+export * from './contact.types';
+export * from './copilot.types';
+export * from './translation.types';
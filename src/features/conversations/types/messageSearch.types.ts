@@ -0,0 +1,38 @@
+/**
+ * Message Search
+ * Full-text search over message content across every conversation of an agent.
+ * Hits carry enough of the parent conversation to render a result row without
+ * a second fetch.
+ */
+
+import type { MessageType, SenderRole } from './conversation.types';
+
+export interface MessageSearchFilters {
+  query: string;
+  senderRole?: SenderRole;
+  messageType?: MessageType;
+  /** Platform source of the parent conversation (e.g. 'whatsapp') */
+  source?: string;
+  /** Inclusive ISO date (yyyy-mm-dd) bounds, in the user's local day */
+  dateFrom?: string;
+  dateTo?: string;
+}
+
+export interface MessageSearchHit {
+  id: string;
+  conversation_id: string;
+  message: string;
+  message_type: MessageType;
+  sender_role: SenderRole;
+  created_at: string;
+  customer_name: string;
+  source: string;
+}
+
+export interface MessageSearchResponse {
+  items: MessageSearchHit[];
+  next_cursor: string | null;
+  has_more: boolean;
+  /** Total hits across all pages (may be capped by the backend) */
+  total: number;
+}
@@ -0,0 +1,46 @@
+/**
+ * Message Outbox
+ * Outgoing messages that could not reach the backend (offline / network drop).
+ * Entries live in IndexedDB so they survive a reload and are replayed in
+ * creation order once connectivity returns. `client_id` doubles as the
+ * message's correlation id and is sent as `clientMessageId` so the backend can
+ * drop duplicates when a replay races a request that actually got through.
+ */
+
+import type { MessageReplyTo } from './conversation.types';
+
+export type OutboxEntryStatus = 'queued' | 'retrying' | 'failed';
+
+export type OutboxFileKind = 'image' | 'audio' | 'document' | 'video';
+
+/**
+ * A file that still has to be uploaded before the message can be sent
+ * (e.g. a voice note recorded while offline)
+ */
+export interface OutboxFile {
+  kind: OutboxFileKind;
+  name: string;
+  type: string;
+  blob: Blob;
+  /** Audio duration in seconds, when known */
+  duration?: number;
+}
+
+export interface OutboxEntry {
+  client_id: string;
+  /** Sender — entries are only replayed for the user who queued them */
+  user_id: string;
+  conversation_id: string;
+  agent_id: string;
+  message: string;
+  /** Attachments JSON for files that were already uploaded before queuing */
+  attachments: string | null;
+  /** Files uploaded on replay; merged into `attachments` once uploaded */
+  files: OutboxFile[];
+  /** Quoted parent; optional so entries queued before replies existed still load */
+  reply_to?: MessageReplyTo | null;
+  status: OutboxEntryStatus;
+  attempts: number;
+  last_error: string | null;
+  created_at: string;
+}
@@ -0,0 +1,64 @@
+/**
+ * Conversation Transcript
+ * A read-only rendering of a conversation's full message history for handing
+ * to customers, legal or QA. Single transcripts are built in the browser;
+ * bulk exports run as a server-side export job (features/exports).
+ */
+
+/** 'pdf' is the HTML transcript sent to the browser's print dialog */
+export type TranscriptFormat = 'pdf' | 'html' | 'json' | 'txt';
+
+export type TranscriptAttachmentKind = 'image' | 'audio' | 'file';
+
+export interface TranscriptAttachment {
+  kind: TranscriptAttachmentKind;
+  url: string;
+  name: string;
+}
+
+/** One message as it appears in a transcript */
+export interface TranscriptEntry {
+  id: string;
+  /** Stable machine-readable role ('customer', 'ai_agent', 'human_agent', 'system') */
+  role: string;
+  /** Localized sender label */
+  sender: string;
+  /** Original UTC timestamp */
+  created_at: string;
+  /** Timestamp in the exporting user's timezone and locale */
+  local_time: string;
+  text: string;
+  attachments: TranscriptAttachment[];
+  is_deleted: boolean;
+}
+
+/** Localized strings baked into a transcript at export time */
+export interface TranscriptLabels {
+  title: string;
+  customer: string;
+  source: string;
+  started: string;
+  exported: string;
+  timezone: string;
+  message_count: string;
+  deleted: string;
+  roles: Record<string, string>;
+}
+
+export interface TranscriptDocument {
+  conversation: {
+    id: string;
+    customer_name: string;
+    source: string;
+    created_at: string;
+  };
+  language: string;
+  dir: 'ltr' | 'rtl';
+  timezone: string;
+  exported_at: string;
+  /** `conversation.created_at` / `exported_at` in the user's timezone and locale */
+  started_local: string;
+  exported_local: string;
+  labels: TranscriptLabels;
+  entries: TranscriptEntry[];
+}
@@ -0,0 +1,15 @@
+/**
+ * Message Translation
+ * Translations are produced by the backend and cached per message; drafts are
+ * translated on demand before sending.
+ */
+
+/** Languages we translate between — dialects are handled by the backend model */
+export type TranslationLanguage = 'en' | 'ar';
+
+export interface TranslationResult {
+  translated_text: string;
+  /** Language the backend detected in the source text */
+  source_language: TranslationLanguage;
+  target_language: TranslationLanguage;
+}
@@ -0,0 +1,90 @@
+import { describe, it, expect } from 'vitest';
+import { ConversationSentiment, ConversationStatus } from '../types';
+import type { Conversation, TriggeredAction } from '../types';
+import { getContactActionHistory, getSentimentTrend, sortContactConversations } from './contactProfile';
+
+const conversation = (overrides: Partial<Conversation> = {}): Conversation => ({
+  id: 'conv-1',
+  customer_id: 'cust-1',
+  customer_name: 'Jane',
+  customer_metadata: null,
+  agent_id: 'agent-1',
+  source: 'whatsapp',
+  status: ConversationStatus.Open,
+  last_message: null,
+  last_message_at: null,
+  is_ai: true,
+  ai_handoff_until: null,
+  is_active: true,
+  created_at: '2026-01-01T10:00:00.000Z',
+  updated_at: '2026-01-01T10:00:00.000Z',
+  topic: null,
+  sentiment: null,
+  requires_human_attention: false,
+  urgent: false,
+  am_not_sure_how_to_answer: false,
+  analysis_updated_at: null,
+  platform_conversation_id: null,
+  platform_customer_id: null,
+  platform_connection_id: null,
+  is_read: true,
+  read_at: null,
+  is_pinned: false,
+  pinned_at: null,
+  ...overrides,
+});
+
+const action = (overrides: Partial<TriggeredAction> = {}): TriggeredAction => ({
+  execution_id: 'exec-1',
+  action_id: 'action-1',
+  action_name: 'Create ticket',
+  action_type: 'webhook',
+  provider: null,
+  operation_id: null,
+  executed_at: '2026-01-01T10:00:00.000Z',
+  ...overrides,
+});
+
+describe('sortContactConversations', () => {
+  it('orders by last activity, newest first', () => {
+    const sorted = sortContactConversations([
+      conversation({ id: 'old', last_message_at: '2026-01-01T10:00:00.000Z' }),
+      conversation({ id: 'new', last_message_at: '2026-03-01T10:00:00.000Z' }),
+      conversation({ id: 'no-messages', updated_at: '2026-02-01T10:00:00.000Z' }),
+    ]);
+    expect(sorted.map((c) => c.id)).toEqual(['new', 'no-messages', 'old']);
+  });
+});
+
+describe('getSentimentTrend', () => {
+  it('keeps analysed conversations only, oldest first', () => {
+    const trend = getSentimentTrend([
+      conversation({ id: 'b', sentiment: ConversationSentiment.Happy, analysis_updated_at: '2026-02-01T00:00:00.000Z' }),
+      conversation({ id: 'unanalysed' }),
+      conversation({ id: 'a', sentiment: ConversationSentiment.Unhappy, analysis_updated_at: '2026-01-15T00:00:00.000Z' }),
+    ]);
+    expect(trend.map((p) => [p.conversationId, p.sentiment])).toEqual([
+      ['a', ConversationSentiment.Unhappy],
+      ['b', ConversationSentiment.Happy],
+    ]);
+  });
+});
+
+describe('getContactActionHistory', () => {
+  it('merges actions across conversations, newest first, without duplicates', () => {
+    const shared = action({ execution_id: 'shared', executed_at: '2026-01-05T00:00:00.000Z' });
+    const history = getContactActionHistory([
+      conversation({ id: 'wa', triggered_actions: [shared] }),
+      conversation({
+        id: 'ig',
+        source: 'instagram',
+        triggered_actions: [shared, action({ execution_id: 'latest', executed_at: '2026-02-01T00:00:00.000Z' })],
+      }),
+      conversation({ id: 'legacy', triggered_actions: null }),
+    ]);
+    expect(history.map((item) => [item.execution_id, item.source])).toEqual([
+      ['latest', 'instagram'],
+      ['shared', 'whatsapp'],
+    ]);
+  });
+});
@@ -0,0 +1,63 @@
+/**
+ * Contact profile helpers
+ * Pure derivations over a contact's conversations — see types/contact.types.ts.
+ */
+
+import type { Conversation, ConversationSentiment, TriggeredAction } from '../types';
+
+export interface SentimentTrendPoint {
+  conversationId: string;
+  source: string;
+  /** When the sentiment was assessed (falls back to the conversation's last activity) */
+  at: string;
+  sentiment: ConversationSentiment;
+}
+
+export interface ContactActionHistoryItem extends TriggeredAction {
+  conversationId: string;
+  source: string;
+}
+
+const activityTime = (conversation: Conversation) =>
+  conversation.last_message_at ?? conversation.updated_at ?? conversation.created_at;
+
+/**
+ * Conversations ordered by most recent activity first
+ */
+export function sortContactConversations(conversations: Conversation[]): Conversation[] {
+  return [...conversations].sort((a, b) => activityTime(b).localeCompare(activityTime(a)));
+}
+
+/**
+ * One sentiment reading per analysed conversation, oldest first
+ */
+export function getSentimentTrend(conversations: Conversation[]): SentimentTrendPoint[] {
+  return conversations
+    .filter((c) => c.sentiment != null)
+    .map((c) => ({
+      conversationId: c.id,
+      source: c.source,
+      at: c.analysis_updated_at ?? activityTime(c),
+      sentiment: c.sentiment as ConversationSentiment,
+    }))
+    .sort((a, b) => a.at.localeCompare(b.at));
+}
+
+/**
+ * Triggered actions across all conversations, newest first. Each conversation
+ * only caches its last 10, so this is recent history rather than a full audit.
+ */
+export function getContactActionHistory(conversations: Conversation[]): ContactActionHistoryItem[] {
+  const seen = new Set<string>();
+  const items: ContactActionHistoryItem[] = [];
+
+  conversations.forEach((conversation) => {
+    (conversation.triggered_actions ?? []).forEach((action) => {
+      if (seen.has(action.execution_id)) return;
+      seen.add(action.execution_id);
+      items.push({ ...action, conversationId: conversation.id, source: conversation.source });
+    });
+  });
+
+  return items.sort((a, b) => b.executed_at.localeCompare(a.executed_at));
+}
@@ -0,0 +1,31 @@
+import { describe, it, expect } from 'vitest';
+import type { ConversationCsat } from '../types';
+import { getCsatState } from './csat';
+
+const csat = (overrides: Partial<ConversationCsat> = {}): ConversationCsat => ({
+  format: 'whatsapp_buttons',
+  requested_at: '2026-03-01T12:00:00.000Z',
+  resolved_by: 'user-1',
+  score: null,
+  comment: null,
+  responded_at: null,
+  ...overrides,
+});
+
+describe('getCsatState', () => {
+  it('returns null without a survey', () => {
+    expect(getCsatState(null)).toBeNull();
+    expect(getCsatState(undefined)).toBeNull();
+  });
+
+  it('is awaiting until the customer answers', () => {
+    expect(getCsatState(csat())).toBe('awaiting');
+  });
+
+  it('classifies answered scores', () => {
+    expect(getCsatState(csat({ score: 5 }))).toBe('satisfied');
+    expect(getCsatState(csat({ score: 4 }))).toBe('satisfied');
+    expect(getCsatState(csat({ score: 3 }))).toBe('neutral');
+    expect(getCsatState(csat({ score: 1 }))).toBe('dissatisfied');
+  });
+});
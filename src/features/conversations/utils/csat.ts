@@ -0,0 +1,30 @@
+/**
+ * CSAT helpers
+ * The survey itself is sent and recorded server-side (in the channel's own
+ * format) — see ConversationCsat in types/conversation.types.ts. These
+ * classify answers for display.
+ */
+
+import type { ConversationCsat } from '../types';
+
+export const CSAT_SCORES = [1, 2, 3, 4, 5] as const;
+
+export type CsatScore = (typeof CSAT_SCORES)[number];
+
+/** Scores counted as "satisfied" in the satisfaction rate */
+export const CSAT_SATISFIED_MIN = 4;
+
+/** WhatsApp reply buttons, best first, with the score each one records */
+export const CSAT_WHATSAPP_BUTTON_SCORES = [5, 3, 1] as const;
+
+export type CsatState = 'awaiting' | 'satisfied' | 'neutral' | 'dissatisfied';
+
+/**
+ * Where a conversation's survey stands, or null when none was sent
+ */
+export function getCsatState(csat: ConversationCsat | null | undefined): CsatState | null {
+  if (!csat) return null;
+  if (csat.score === null) return 'awaiting';
+  if (csat.score >= CSAT_SATISFIED_MIN) return 'satisfied';
+  return csat.score === 3 ? 'neutral' : 'dissatisfied';
+}
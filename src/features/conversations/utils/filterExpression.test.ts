@@ -0,0 +1,178 @@
+import { describe, it, expect } from 'vitest';
+import { matchesFilterExpression, countConditions, filtersToExpression } from './filterExpression';
+import type { FilterGroup } from '../types';
+
+describe('filterExpression', () => {
+  const now = new Date('2026-03-01T12:00:00Z').getTime();
+
+  const baseConversation = {
+    source: 'whatsapp',
+    sentiment: 2,
+    urgent: true,
+    requires_human_attention: false,
+    is_read: false,
+    is_pinned: false,
+    ai_handoff_until: null,
+    triggered_actions: [],
+    last_message_at: '2026-03-01T10:00:00Z', // 2h before `now`
+  };
+
+  describe('matchesFilterExpression', () => {
+    it('should match everything with an empty group', () => {
+      expect(matchesFilterExpression({ combinator: 'and', conditions: [] }, baseConversation, now)).toBe(true);
+      expect(matchesFilterExpression({ combinator: 'or', conditions: [] }, baseConversation, now)).toBe(true);
+    });
+
+    it('should match "urgent WhatsApp unread older than 1h"', () => {
+      const view: FilterGroup = {
+        combinator: 'and',
+        conditions: [
+          { field: 'source', operator: 'in', value: ['whatsapp'] },
+          { field: 'urgent', operator: 'is', value: true },
+          { field: 'is_read', operator: 'is', value: false },
+          { field: 'last_message_at', operator: 'older_than', value: 60 },
+        ],
+      };
+
+      expect(matchesFilterExpression(view, baseConversation, now)).toBe(true);
+      expect(matchesFilterExpression(view, { ...baseConversation, is_read: true }, now)).toBe(false);
+      expect(matchesFilterExpression(view, { ...baseConversation, source: 'instagram' }, now)).toBe(false);
+      expect(
+        matchesFilterExpression(view, { ...baseConversation, last_message_at: '2026-03-01T11:30:00Z' }, now)
+      ).toBe(false);
+    });
+
+    it('should combine nested groups with "or"', () => {
+      const view: FilterGroup = {
+        combinator: 'and',
+        conditions: [
+          { field: 'requires_human_attention', operator: 'is', value: true },
+          {
+            combinator: 'or',
+            conditions: [
+              { field: 'sentiment', operator: 'in', value: [1, 2] },
+              { field: 'urgent', operator: 'is', value: true },
+            ],
+          },
+        ],
+      };
+
+      const needsHuman = { ...baseConversation, requires_human_attention: true };
+      expect(matchesFilterExpression(view, needsHuman, now)).toBe(true);
+      expect(matchesFilterExpression(view, { ...needsHuman, sentiment: 4 }, now)).toBe(true);
+      expect(matchesFilterExpression(view, { ...needsHuman, sentiment: 4, urgent: false }, now)).toBe(false);
+      expect(matchesFilterExpression(view, baseConversation, now)).toBe(false);
+    });
+
+    it('should treat a null sentiment as not included', () => {
+      const inView: FilterGroup = { combinator: 'and', conditions: [{ field: 'sentiment', operator: 'in', value: [3] }] };
+      const notInView: FilterGroup = { combinator: 'and', conditions: [{ field: 'sentiment', operator: 'not_in', value: [3] }] };
+
+      expect(matchesFilterExpression(inView, { ...baseConversation, sentiment: null }, now)).toBe(false);
+      expect(matchesFilterExpression(notInView, { ...baseConversation, sentiment: null }, now)).toBe(true);
+    });
+
+    it('should match a conversation carrying any of the labels', () => {
+      const inView: FilterGroup = { combinator: 'and', conditions: [{ field: 'labels', operator: 'in', value: ['vip', 'refund'] }] };
+      const notInView: FilterGroup = { combinator: 'and', conditions: [{ field: 'labels', operator: 'not_in', value: ['vip'] }] };
+
+      expect(matchesFilterExpression(inView, { ...baseConversation, label_ids: ['refund'] }, now)).toBe(true);
+      expect(matchesFilterExpression(inView, { ...baseConversation, label_ids: ['other'] }, now)).toBe(false);
+      expect(matchesFilterExpression(inView, baseConversation, now)).toBe(false);
+      expect(matchesFilterExpression(notInView, baseConversation, now)).toBe(true);
+      expect(matchesFilterExpression(notInView, { ...baseConversation, label_ids: ['vip'] }, now)).toBe(false);
+    });
+
+    it('should only count a future ai_handoff_until as an active handoff', () => {
+      const view: FilterGroup = { combinator: 'and', conditions: [{ field: 'ai_handoff_until', operator: 'is_active', value: true }] };
+
+      expect(matchesFilterExpression(view, { ...baseConversation, ai_handoff_until: '2026-03-01T12:30:00Z' }, now)).toBe(true);
+      expect(matchesFilterExpression(view, { ...baseConversation, ai_handoff_until: '2026-03-01T11:30:00Z' }, now)).toBe(false);
+      expect(matchesFilterExpression(view, baseConversation, now)).toBe(false);
+    });
+
+    it('should match triggered actions by name, provider or operation id', () => {
+      const conversation = {
+        ...baseConversation,
+        triggered_actions: [
+          {
+            execution_id: 'exec-1',
+            action_id: 'action-1',
+            action_name: 'Book Appointment',
+            action_type: 'integration',
+            provider: 'google_sheets',
+            operation_id: 'append_row',
+            executed_at: '2026-03-01T09:00:00Z',
+          },
+        ],
+      };
+      const includes = (value: string): FilterGroup => ({
+        combinator: 'and',
+        conditions: [{ field: 'triggered_actions', operator: 'includes', value }],
+      });
+
+      expect(matchesFilterExpression(includes('book appointment'), conversation, now)).toBe(true);
+      expect(matchesFilterExpression(includes('GOOGLE_SHEETS'), conversation, now)).toBe(true);
+      expect(matchesFilterExpression(includes('lead_capture'), conversation, now)).toBe(false);
+      expect(
+        matchesFilterExpression(
+          { combinator: 'and', conditions: [{ field: 'triggered_actions', operator: 'exists', value: false }] },
+          baseConversation,
+          now
+        )
+      ).toBe(true);
+    });
+
+    it('should apply absolute last_message_at ranges with open ends', () => {
+      const range = (from: string | null, to: string | null): FilterGroup => ({
+        combinator: 'and',
+        conditions: [{ field: 'last_message_at', operator: 'between', value: { from, to } }],
+      });
+
+      expect(matchesFilterExpression(range('2026-03-01T00:00:00Z', null), baseConversation, now)).toBe(true);
+      expect(matchesFilterExpression(range(null, '2026-03-01T09:00:00Z'), baseConversation, now)).toBe(false);
+      expect(
+        matchesFilterExpression(range(null, null), { ...baseConversation, last_message_at: null }, now)
+      ).toBe(false);
+    });
+  });
+
+  describe('countConditions', () => {
+    it('should count leaf conditions across nested groups', () => {
+      expect(
+        countConditions({
+          combinator: 'and',
+          conditions: [
+            { field: 'urgent', operator: 'is', value: true },
+            { combinator: 'or', conditions: [{ field: 'is_pinned', operator: 'is', value: true }] },
+            { combinator: 'or', conditions: [] },
+          ],
+        })
+      ).toBe(2);
+    });
+  });
+
+  describe('filtersToExpression', () => {
+    it('should convert quick filters and ignore the search term, assignee and SLA', () => {
+      expect(
+        filtersToExpression({
+          searchTerm: 'ahmed',
+          showUnreadOnly: true,
+          showUrgentOnly: true,
+          selectedSources: ['whatsapp'],
+          assignee: 'me',
+          showSlaAtRiskOnly: true,
+          selectedLabels: ['label-vip'],
+        })
+      ).toEqual({
+        combinator: 'and',
+        conditions: [
+          { field: 'is_read', operator: 'is', value: false },
+          { field: 'urgent', operator: 'is', value: true },
+          { field: 'source', operator: 'in', value: ['whatsapp'] },
+          { field: 'labels', operator: 'in', value: ['label-vip'] },
+        ],
+      });
+    });
+  });
+});
@@ -0,0 +1,138 @@
+import {
+  isFilterGroup,
+  type FilterCondition,
+  type FilterGroup,
+  type FilterNode,
+  type TriggeredAction,
+} from '../types';
+import type { ConversationFiltersState } from '../components/ConversationList/ConversationFilters';
+
+/**
+ * The fields a view expression can read. Both the list wire format
+ * (ConversationResponse) and the Conversation domain type satisfy it.
+ */
+interface MatchableConversation {
+  source: string;
+  sentiment?: number | null;
+  urgent?: boolean;
+  requires_human_attention?: boolean;
+  is_read: boolean;
+  is_pinned: boolean;
+  ai_handoff_until?: string | null;
+  triggered_actions?: TriggeredAction[] | null;
+  label_ids?: string[] | null;
+  last_message_at?: string | null;
+}
+
+export const EMPTY_FILTER_EXPRESSION: FilterGroup = { combinator: 'and', conditions: [] };
+
+/**
+ * Client-side mirror of the backend view evaluator. Used to decide whether a
+ * realtime row change can affect a saved view — the authoritative list and
+ * counts still come from the server.
+ *
+ * An empty group matches everything, the same as "no filters".
+ */
+export function matchesFilterExpression(
+  node: FilterNode,
+  conversation: MatchableConversation,
+  now: number = Date.now(),
+): boolean {
+  if (isFilterGroup(node)) {
+    if (node.conditions.length === 0) return true;
+    return node.combinator === 'and'
+      ? node.conditions.every((child) => matchesFilterExpression(child, conversation, now))
+      : node.conditions.some((child) => matchesFilterExpression(child, conversation, now));
+  }
+  return matchesCondition(node, conversation, now);
+}
+
+function matchesCondition(
+  condition: FilterCondition,
+  conversation: MatchableConversation,
+  now: number,
+): boolean {
+  switch (condition.field) {
+    case 'source': {
+      const included = condition.value.includes(conversation.source);
+      return condition.operator === 'in' ? included : !included;
+    }
+    case 'sentiment': {
+      const sentiment = conversation.sentiment ?? null;
+      const included = sentiment !== null && condition.value.includes(sentiment);
+      return condition.operator === 'in' ? included : !included;
+    }
+    case 'urgent':
+    case 'requires_human_attention':
+    case 'is_read':
+    case 'is_pinned':
+      return !!conversation[condition.field] === condition.value;
+    case 'ai_handoff_until': {
+      const until = conversation.ai_handoff_until;
+      const active = !!until && new Date(until).getTime() > now;
+      return active === condition.value;
+    }
+    case 'triggered_actions': {
+      const actions = conversation.triggered_actions ?? [];
+      if (condition.operator === 'exists') {
+        return actions.length > 0 === condition.value;
+      }
+      const needle = condition.value.trim().toLowerCase();
+      if (!needle) return true;
+      return actions.some((a) =>
+        [a.action_name, a.provider, a.operation_id].some((v) => v?.toLowerCase() === needle)
+      );
+    }
+    case 'labels': {
+      const labelIds = conversation.label_ids ?? [];
+      const included = condition.value.some((id) => labelIds.includes(id));
+      return condition.operator === 'in' ? included : !included;
+    }
+    case 'last_message_at': {
+      const ts = conversation.last_message_at ? new Date(conversation.last_message_at).getTime() : null;
+      if (ts === null) return false;
+      if (condition.operator === 'between') {
+        const { from, to } = condition.value;
+        if (from && ts < new Date(from).getTime()) return false;
+        if (to && ts > new Date(to).getTime()) return false;
+        return true;
+      }
+      const ageMs = now - ts;
+      return condition.operator === 'older_than'
+        ? ageMs > condition.value * 60_000
+        : ageMs <= condition.value * 60_000;
+    }
+  }
+}
+
+/**
+ * Count leaf conditions in an expression. The view editor uses this to block
+ * saving an empty view and the bar uses it in tooltips.
+ */
+export function countConditions(node: FilterNode): number {
+  if (!isFilterGroup(node)) return 1;
+  return node.conditions.reduce((sum, child) => sum + countConditions(child), 0);
+}
+
+/**
+ * Seed a view expression from the list's quick filters ("Save as view").
+ * Search text, the assignee and the SLA filters are intentionally dropped —
+ * views are structural filters, "me" would mean a different person for a
+ * shared view, and SLA state depends on org settings the view doesn't carry.
+ */
+export function filtersToExpression(filters: ConversationFiltersState): FilterGroup {
+  const conditions: FilterCondition[] = [];
+  if (filters.showUnreadOnly) {
+    conditions.push({ field: 'is_read', operator: 'is', value: false });
+  }
+  if (filters.showUrgentOnly) {
+    conditions.push({ field: 'urgent', operator: 'is', value: true });
+  }
+  if (filters.selectedSources.length > 0) {
+    conditions.push({ field: 'source', operator: 'in', value: [...filters.selectedSources] });
+  }
+  if (filters.selectedLabels.length > 0) {
+    conditions.push({ field: 'labels', operator: 'in', value: [...filters.selectedLabels] });
+  }
+  return { combinator: 'and', conditions };
+}
@@ -0,0 +1,51 @@
+import { describe, it, expect } from 'vitest';
+import { classifyAttachment, getMaxAttachments, getMediaPlatform, validateAttachment } from './mediaLimits';
+
+const MB = 1024 * 1024;
+
+const file = (name: string, type: string, size = 1024): File => {
+  const f = new File(['x'], name, { type });
+  Object.defineProperty(f, 'size', { value: size });
+  return f;
+};
+
+describe('getMediaPlatform', () => {
+  it('maps conversation sources to delivery channels', () => {
+    expect(getMediaPlatform('whatsapp')).toBe('whatsapp');
+    expect(getMediaPlatform('instagram')).toBe('instagram');
+    expect(getMediaPlatform('web')).toBe('widget');
+    expect(getMediaPlatform(undefined)).toBe('widget');
+  });
+});
+
+describe('classifyAttachment', () => {
+  it('uses the MIME type, then the extension', () => {
+    expect(classifyAttachment(file('photo.png', 'image/png'))).toBe('image');
+    expect(classifyAttachment(file('clip.mov', 'video/quicktime'))).toBe('video');
+    expect(classifyAttachment(file('report.PDF', ''))).toBe('document');
+    expect(classifyAttachment(file('note.m4a', ''))).toBe('audio');
+    expect(classifyAttachment(file('archive.zip', 'application/zip'))).toBeNull();
+  });
+});
+
+describe('validateAttachment', () => {
+  it('applies each channel its own size limit', () => {
+    const image = file('photo.jpg', 'image/jpeg', 6 * MB);
+    expect(validateAttachment(image, 'image', 'widget')).toEqual({ isValid: true });
+    expect(validateAttachment(image, 'image', 'instagram')).toEqual({ isValid: true });
+    expect(validateAttachment(image, 'image', 'whatsapp')).toEqual({ isValid: false, reason: 'size', maxSizeMb: 5 });
+  });
+
+  it('rejects types and kinds the channel cannot deliver', () => {
+    expect(validateAttachment(file('clip.webm', 'video/webm'), 'video', 'whatsapp')).toEqual({
+      isValid: false,
+      reason: 'type',
+    });
+    expect(validateAttachment(file('report.pdf', 'application/pdf'), 'document', 'instagram')).toEqual({
+      isValid: false,
+      reason: 'unsupported',
+    });
+    expect(getMaxAttachments('document', 'instagram')).toBe(0);
+    expect(getMaxAttachments('image', 'whatsapp')).toBe(10);
+  });
+});
@@ -0,0 +1,61 @@
+/**
+ * Composer media validation
+ * Classifies picked, dropped or pasted files and checks them against the
+ * limits of the channel the reply goes out on (see constants/mediaLimits.ts).
+ */
+
+import { getFileExtension, validateFileAgainstRules } from '@/features/agents/utils/fileValidation';
+import {
+  PLATFORM_MEDIA_LIMITS,
+  type AttachmentKind,
+  type MediaPlatform,
+} from '../constants/mediaLimits';
+
+export type AttachmentValidationResult =
+  | { isValid: true }
+  | { isValid: false; reason: 'size'; maxSizeMb: number }
+  | { isValid: false; reason: 'type' | 'unsupported' };
+
+/** Delivery channel for a conversation `source` ("whatsapp", "instagram", "web", …) */
+export function getMediaPlatform(source: string | null | undefined): MediaPlatform {
+  if (source === 'whatsapp') return 'whatsapp';
+  if (source === 'instagram') return 'instagram';
+  return 'widget';
+}
+
+/**
+ * Kind of attachment a file would be sent as, by MIME type then extension.
+ * Uses the widget's (widest) accepted types; null when no channel takes it.
+ */
+export function classifyAttachment(file: File): AttachmentKind | null {
+  const kinds = PLATFORM_MEDIA_LIMITS.widget.kinds;
+  const order: AttachmentKind[] = ['image', 'video', 'audio', 'document'];
+
+  const byType = order.find((kind) => kinds[kind]?.allowedTypes.includes(file.type));
+  if (byType) return byType;
+
+  const extension = getFileExtension(file.name);
+  return order.find((kind) => kinds[kind]?.allowedExtensions?.includes(extension)) ?? null;
+}
+
+/** Validate one file of `kind` against the channel's size and type limits */
+export function validateAttachment(
+  file: File,
+  kind: AttachmentKind,
+  platform: MediaPlatform
+): AttachmentValidationResult {
+  const rules = PLATFORM_MEDIA_LIMITS[platform].kinds[kind];
+  if (!rules) return { isValid: false, reason: 'unsupported' };
+
+  const result = validateFileAgainstRules(file, rules);
+  if (result.reason === 'size') {
+    return { isValid: false, reason: 'size', maxSizeMb: Math.round(rules.maxSizeBytes / (1024 * 1024)) };
+  }
+  if (result.reason === 'type') return { isValid: false, reason: 'type' };
+  return { isValid: true };
+}
+
+/** How many files of `kind` one message may carry on the channel (0 = none) */
+export function getMaxAttachments(kind: AttachmentKind, platform: MediaPlatform): number {
+  return PLATFORM_MEDIA_LIMITS[platform].kinds[kind]?.maxPerMessage ?? 0;
+}
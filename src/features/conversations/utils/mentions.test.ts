@@ -0,0 +1,75 @@
+import { describe, it, expect } from 'vitest';
+import {
+  extractMentionedUserIds,
+  findMentionQuery,
+  formatMention,
+  insertMention,
+  mentionsToPlainText,
+  parseMentionSegments,
+} from './mentions';
+
+describe('mentions', () => {
+  const note = 'Hey @[Sara Ali](u-1), can you check with @[Omar](u-2)? cc @[Sara Ali](u-1)';
+
+  describe('parseMentionSegments', () => {
+    it('should split text and mentions in order', () => {
+      expect(parseMentionSegments('Ping @[Omar](u-2) please')).toEqual([
+        { type: 'text', text: 'Ping ' },
+        { type: 'mention', name: 'Omar', userId: 'u-2' },
+        { type: 'text', text: ' please' },
+      ]);
+    });
+
+    it('should return a single text segment when there are no mentions', () => {
+      expect(parseMentionSegments('just a note')).toEqual([{ type: 'text', text: 'just a note' }]);
+    });
+
+    it('should leave a plain "@" untouched', () => {
+      expect(parseMentionSegments('email me @ 5pm')).toEqual([{ type: 'text', text: 'email me @ 5pm' }]);
+    });
+  });
+
+  describe('extractMentionedUserIds', () => {
+    it('should return unique ids in order of appearance', () => {
+      expect(extractMentionedUserIds(note)).toEqual(['u-1', 'u-2']);
+    });
+  });
+
+  describe('mentionsToPlainText', () => {
+    it('should replace markup with @Name', () => {
+      expect(mentionsToPlainText('Ping @[Omar](u-2) please')).toBe('Ping @Omar please');
+    });
+  });
+
+  describe('findMentionQuery', () => {
+    it('should detect a query at the caret', () => {
+      expect(findMentionQuery('Hello @sa', 9)).toEqual({ query: 'sa', start: 6 });
+    });
+
+    it('should detect a bare "@" at the start of the text', () => {
+      expect(findMentionQuery('@', 1)).toEqual({ query: '', start: 0 });
+    });
+
+    it('should ignore "@" inside a word (e.g. an email address)', () => {
+      expect(findMentionQuery('me@example', 10)).toBeNull();
+    });
+
+    it('should stop once the query contains whitespace', () => {
+      expect(findMentionQuery('Hello @sa ra', 12)).toBeNull();
+    });
+  });
+
+  describe('insertMention', () => {
+    it('should replace the query with markup and move the caret after it', () => {
+      const result = insertMention('Hello @sa and more', 6, 9, 'Sara Ali', 'u-1');
+      expect(result.text).toBe('Hello @[Sara Ali](u-1)  and more');
+      expect(result.caret).toBe('Hello @[Sara Ali](u-1) '.length);
+    });
+  });
+
+  describe('formatMention', () => {
+    it('should strip characters that would break the markup', () => {
+      expect(formatMention('Sara (Sales) [EU]', 'u-1')).toBe('@[Sara Sales EU](u-1) ');
+    });
+  });
+});
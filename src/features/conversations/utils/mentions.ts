@@ -0,0 +1,96 @@
+/**
+ * @mention helpers for internal notes.
+ * Mentions are stored inline as `@[Display Name](userId)` so the note text
+ * keeps the name the author saw even if the teammate is renamed later.
+ */
+
+const MENTION_PATTERN = /@\[([^\]]+)\]\(([^)\s]+)\)/g;
+
+export type MentionSegment =
+  | { type: 'text'; text: string }
+  | { type: 'mention'; name: string; userId: string };
+
+/**
+ * Build the inline markup for a mention, with a trailing space so typing continues naturally
+ */
+export function formatMention(name: string, userId: string): string {
+  // Brackets/parens would break the markup — drop them from the display name
+  const safeName = name.replace(/[[\]()]/g, '').trim() || userId;
+  return `@[${safeName}](${userId}) `;
+}
+
+/**
+ * Split note text into plain-text and mention segments for rendering
+ */
+export function parseMentionSegments(text: string): MentionSegment[] {
+  const segments: MentionSegment[] = [];
+  let lastIndex = 0;
+
+  for (const match of text.matchAll(MENTION_PATTERN)) {
+    const index = match.index ?? 0;
+    if (index > lastIndex) {
+      segments.push({ type: 'text', text: text.slice(lastIndex, index) });
+    }
+    segments.push({ type: 'mention', name: match[1], userId: match[2] });
+    lastIndex = index + match[0].length;
+  }
+
+  if (lastIndex < text.length) {
+    segments.push({ type: 'text', text: text.slice(lastIndex) });
+  }
+
+  return segments;
+}
+
+/**
+ * Unique user ids mentioned in the text, in order of first appearance
+ */
+export function extractMentionedUserIds(text: string): string[] {
+  const ids = new Set<string>();
+  for (const match of text.matchAll(MENTION_PATTERN)) {
+    ids.add(match[2]);
+  }
+  return [...ids];
+}
+
+/**
+ * Replace mention markup with `@Name` (previews, clipboard, notifications)
+ */
+export function mentionsToPlainText(text: string): string {
+  return text.replace(MENTION_PATTERN, (_match, name: string) => `@${name}`);
+}
+
+/**
+ * Detect an in-progress `@query` ending at the caret. The `@` must start the
+ * text or follow whitespace, and the query may not contain whitespace.
+ * Returns null when the caret is not inside a mention trigger.
+ */
+export function findMentionQuery(
+  text: string,
+  caret: number
+): { query: string; start: number } | null {
+  const beforeCaret = text.slice(0, caret);
+  const match = /(^|\s)@([^\s@[\]()]*)$/.exec(beforeCaret);
+  if (!match) return null;
+
+  const start = beforeCaret.length - match[2].length - 1;
+  return { query: match[2], start };
+}
+
+/**
+ * Replace the `@query` that starts at `start` and ends at the caret with mention markup.
+ * Returns the new text and the caret position right after the inserted mention.
+ */
+export function insertMention(
+  text: string,
+  start: number,
+  caret: number,
+  name: string,
+  userId: string
+): { text: string; caret: number } {
+  const mention = formatMention(name, userId);
+  return {
+    text: text.slice(0, start) + mention + text.slice(caret),
+    caret: start + mention.length,
+  };
+}
@@ -0,0 +1,37 @@
+import { describe, it, expect } from 'vitest';
+import { SenderRole, type MessageReaction } from '../types';
+import { groupReactions } from './messageReactions';
+
+const reaction = (emoji: string, role: SenderRole, senderId: string | null, minute: number): MessageReaction => ({
+  emoji,
+  sender_role: role,
+  sender_id: senderId,
+  created_at: `2026-03-01T10:${String(minute).padStart(2, '0')}:00.000Z`,
+});
+
+describe('groupReactions', () => {
+  it('returns nothing for messages without reactions', () => {
+    expect(groupReactions(null)).toEqual([]);
+    expect(groupReactions([])).toEqual([]);
+  });
+
+  it('groups by emoji in order of first reaction and tracks who reacted', () => {
+    const groups = groupReactions([
+      reaction('❤️', SenderRole.HumanAgent, 'user-1', 5),
+      reaction('👍', SenderRole.Customer, null, 1),
+      reaction('❤️', SenderRole.Customer, null, 2),
+    ]);
+    expect(groups).toEqual([
+      { emoji: '👍', count: 1, fromCustomer: true, fromTeam: false },
+      { emoji: '❤️', count: 2, fromCustomer: true, fromTeam: true },
+    ]);
+  });
+
+  it('counts a repeated reaction from the same sender once', () => {
+    const groups = groupReactions([
+      reaction('👍', SenderRole.Customer, null, 1),
+      reaction('👍', SenderRole.Customer, null, 3),
+    ]);
+    expect(groups).toEqual([{ emoji: '👍', count: 1, fromCustomer: true, fromTeam: false }]);
+  });
+});
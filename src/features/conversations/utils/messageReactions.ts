@@ -0,0 +1,43 @@
+/**
+ * Message reactions
+ * Groups a message's reactions into one chip per emoji for the chat bubble.
+ */
+
+import { SenderRole, type MessageReaction } from '../types';
+
+export interface ReactionGroup {
+  emoji: string;
+  count: number;
+  /** At least one reaction came from the customer */
+  fromCustomer: boolean;
+  /** At least one reaction came from a teammate */
+  fromTeam: boolean;
+}
+
+/**
+ * One group per emoji, ordered by first reaction. A sender that reacted twice
+ * with the same emoji (platform re-deliveries) is counted once.
+ */
+export function groupReactions(reactions: MessageReaction[] | null | undefined): ReactionGroup[] {
+  if (!reactions || reactions.length === 0) return [];
+
+  const sorted = [...reactions].sort(
+    (a, b) => new Date(a.created_at).getTime() - new Date(b.created_at).getTime()
+  );
+  const groups = new Map<string, ReactionGroup>();
+  const seen = new Set<string>();
+
+  for (const reaction of sorted) {
+    const key = `${reaction.emoji}|${reaction.sender_role}:${reaction.sender_id ?? ''}`;
+    if (seen.has(key)) continue;
+    seen.add(key);
+
+    const group = groups.get(reaction.emoji) ?? { emoji: reaction.emoji, count: 0, fromCustomer: false, fromTeam: false };
+    group.count += 1;
+    if (reaction.sender_role === SenderRole.Customer) group.fromCustomer = true;
+    else group.fromTeam = true;
+    groups.set(reaction.emoji, group);
+  }
+
+  return [...groups.values()];
+}
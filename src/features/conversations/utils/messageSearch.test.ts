@@ -0,0 +1,24 @@
+import { describe, it, expect } from 'vitest';
+import { buildSearchSnippet } from './messageSearch';
+
+describe('messageSearch', () => {
+  describe('buildSearchSnippet', () => {
+    it('should return short messages unchanged (whitespace collapsed)', () => {
+      expect(buildSearchSnippet('Where is\n my  order?', 'order')).toBe('Where is my order?');
+    });
+
+    it('should center long messages on the first match', () => {
+      const text = `${'a'.repeat(100)} refund please ${'b'.repeat(100)}`;
+      const snippet = buildSearchSnippet(text, 'Refund', 10);
+      expect(snippet.startsWith('…')).toBe(true);
+      expect(snippet.endsWith('…')).toBe(true);
+      expect(snippet).toContain('refund');
+      expect(snippet.length).toBeLessThan(40);
+    });
+
+    it('should fall back to the start when the query is not found verbatim', () => {
+      const snippet = buildSearchSnippet('x'.repeat(200), 'refunds', 10);
+      expect(snippet).toBe(`${'x'.repeat(20)}…`);
+    });
+  });
+});
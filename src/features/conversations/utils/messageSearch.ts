@@ -0,0 +1,27 @@
+/**
+ * Message search helpers
+ * Pure helpers for the message search panel — see types/messageSearch.types.ts.
+ */
+
+/** Characters of context kept on each side of the first match */
+const SNIPPET_CONTEXT_CHARS = 60;
+
+/**
+ * Trim a long message to a window around the first match of `query`, with
+ * ellipses where text was cut. Returns the whole message when it is short
+ * or the query isn't found (the backend may match on stemmed terms).
+ */
+export function buildSearchSnippet(text: string, query: string, context = SNIPPET_CONTEXT_CHARS): string {
+  const flat = text.replace(/\s+/g, ' ').trim();
+  const needle = query.trim().toLowerCase();
+  if (!needle || flat.length <= needle.length + context * 2) return flat;
+
+  const index = flat.toLowerCase().indexOf(needle);
+  if (index === -1) {
+    return flat.length > context * 2 ? `${flat.slice(0, context * 2).trimEnd()}…` : flat;
+  }
+
+  const start = Math.max(0, index - context);
+  const end = Math.min(flat.length, index + needle.length + context);
+  return `${start > 0 ? '…' : ''}${flat.slice(start, end).trim()}${end < flat.length ? '…' : ''}`;
+}
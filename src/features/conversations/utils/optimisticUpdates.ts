@@ -29,3 +29,55 @@ export function updateConversationInCache(
     },
   );
 }
+
+/**
+ * Capture the current cached row of each conversation so a bulk action can roll
+ * back individual items. Rows not loaded in any list page are simply absent.
+ */
+export function snapshotConversationsInCache(
+  queryClient: QueryClient,
+  agentId: string | undefined,
+  conversationIds: string[],
+): Map<string, ConversationResponse> {
+  const wanted = new Set(conversationIds);
+  const snapshot = new Map<string, ConversationResponse>();
+  const entries = queryClient.getQueriesData<InfiniteData<CursorPaginatedConversationsResponse>>({
+    queryKey: queryKeys.conversations(agentId),
+  });
+
+  for (const [, data] of entries) {
+    for (const page of data?.pages ?? []) {
+      for (const conv of page.items) {
+        if (wanted.has(conv.id) && !snapshot.has(conv.id)) {
+          snapshot.set(conv.id, conv);
+        }
+      }
+    }
+  }
+  return snapshot;
+}
+
+/**
+ * Remove conversations from every cached list page (e.g. after a confirmed delete).
+ */
+export function removeConversationsFromCache(
+  queryClient: QueryClient,
+  agentId: string | undefined,
+  conversationIds: string[],
+) {
+  const ids = new Set(conversationIds);
+  queryClient.setQueriesData<InfiniteData<CursorPaginatedConversationsResponse>>(
+    { queryKey: queryKeys.conversations(agentId) },
+    (oldData) => {
+      if (!oldData) return oldData;
+
+      return {
+        ...oldData,
+        pages: oldData.pages.map((page) => ({
+          ...page,
+          items: page.items.filter((conv) => !ids.has(conv.id)),
+        })),
+      };
+    },
+  );
+}
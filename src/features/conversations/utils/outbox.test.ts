@@ -0,0 +1,112 @@
+import { describe, it, expect } from 'vitest';
+import { AxiosError, AxiosHeaders } from 'axios';
+import { NetworkError } from '@/lib/errors';
+import { MessageSendStatus, MessageType } from '../types';
+import type { MediaAttachment, OutboxEntry } from '../types';
+import {
+  getOutboxRetryDelay,
+  isNetworkError,
+  mergeOutboxAttachments,
+  outboxEntryToMessage,
+  OUTBOX_RETRY_BASE_MS,
+  OUTBOX_RETRY_MAX_MS,
+  sortOutboxEntries,
+} from './outbox';
+
+const entry = (overrides: Partial<OutboxEntry> = {}): OutboxEntry => ({
+  client_id: 'c-1',
+  user_id: 'u-1',
+  conversation_id: 'conv-1',
+  agent_id: 'agent-1',
+  message: 'Hello',
+  attachments: null,
+  files: [],
+  status: 'queued',
+  attempts: 0,
+  last_error: null,
+  created_at: '2026-01-01T10:00:00.000Z',
+  ...overrides,
+});
+
+const audio: MediaAttachment = {
+  type: 'audio',
+  url: 'https://cdn/voice.ogg',
+  blob_name: 'voice.ogg',
+  size: 10,
+  content_type: 'audio/ogg',
+  uploaded_at: '2026-01-01T10:00:00.000Z',
+};
+
+describe('outbox', () => {
+  describe('isNetworkError', () => {
+    it('should treat requests without a response as network errors', () => {
+      expect(isNetworkError(new AxiosError('Network Error', 'ERR_NETWORK'))).toBe(true);
+      expect(isNetworkError(new NetworkError())).toBe(true);
+    });
+
+    it('should not queue server rejections', () => {
+      const rejected = new AxiosError('Bad Request', 'ERR_BAD_REQUEST', undefined, undefined, {
+        status: 400,
+        statusText: 'Bad Request',
+        data: {},
+        headers: {},
+        config: { headers: new AxiosHeaders() },
+      });
+      expect(isNetworkError(rejected)).toBe(false);
+      expect(isNetworkError(new Error('boom'))).toBe(false);
+    });
+  });
+
+  describe('sortOutboxEntries', () => {
+    it('should order entries oldest first without mutating the input', () => {
+      const input = [
+        entry({ client_id: 'b', created_at: '2026-01-01T10:05:00.000Z' }),
+        entry({ client_id: 'a', created_at: '2026-01-01T10:01:00.000Z' }),
+      ];
+      expect(sortOutboxEntries(input).map((e) => e.client_id)).toEqual(['a', 'b']);
+      expect(input[0].client_id).toBe('b');
+    });
+  });
+
+  describe('getOutboxRetryDelay', () => {
+    it('should double per attempt up to the cap', () => {
+      expect(getOutboxRetryDelay(0)).toBe(OUTBOX_RETRY_BASE_MS);
+      expect(getOutboxRetryDelay(2)).toBe(OUTBOX_RETRY_BASE_MS * 2);
+      expect(getOutboxRetryDelay(20)).toBe(OUTBOX_RETRY_MAX_MS);
+    });
+  });
+
+  describe('mergeOutboxAttachments', () => {
+    it('should start a wrapper when there are no attachments yet', () => {
+      expect(JSON.parse(mergeOutboxAttachments(null, 'audio', [audio]))).toEqual({ audio: [audio] });
+    });
+
+    it('should append to existing attachments of other kinds', () => {
+      const existing = JSON.stringify({ images: [{ ...audio, type: 'image' }] });
+      const merged = JSON.parse(mergeOutboxAttachments(existing, 'document', [audio]));
+      expect(merged.images).toHaveLength(1);
+      expect(merged.documents).toEqual([audio]);
+    });
+  });
+
+  describe('outboxEntryToMessage', () => {
+    it('should render a queued entry as an optimistic message keyed by client id', () => {
+      const message = outboxEntryToMessage(
+        entry({ files: [{ kind: 'audio', name: 'voice.ogg', type: 'audio/ogg', blob: new Blob() }] })
+      );
+      expect(message.id).toBe('temp-c-1');
+      expect(message.correlation_id).toBe('c-1');
+      expect(message.sendStatus).toBe(MessageSendStatus.Queued);
+      expect(message.isOptimistic).toBe(true);
+      expect(message.queuedFiles).toEqual([{ name: 'voice.ogg', kind: 'audio' }]);
+    });
+
+    it('should map outbox status and message type', () => {
+      expect(outboxEntryToMessage(entry({ status: 'retrying' })).sendStatus).toBe(MessageSendStatus.Retrying);
+      expect(outboxEntryToMessage(entry({ status: 'failed' })).sendStatus).toBe(MessageSendStatus.Error);
+      expect(outboxEntryToMessage(entry({ attachments: JSON.stringify({ audio: [audio] }) })).message_type).toBe(
+        MessageType.Audio
+      );
+    });
+  });
+});
@@ -0,0 +1,93 @@
+/**
+ * Offline outbox helpers
+ * Pure helpers shared by the outbox store and the chat UI — see types/outbox.types.ts.
+ */
+
+import { isAxiosError, NetworkError } from '@/lib/errors';
+import { CHAT_IDENTIFIERS } from '../constants/chatConstants';
+import { detectMessageType, MessageSendStatus, MessageStatus, SenderRole } from '../types';
+import type { ChatMessage, MediaAttachment, OutboxEntry, OutboxFileKind } from '../types';
+
+/** Base delay between automatic replay attempts while the network is flaky */
+export const OUTBOX_RETRY_BASE_MS = 5_000;
+export const OUTBOX_RETRY_MAX_MS = 60_000;
+
+/** Attachments-wrapper key per queued file kind (matches MessageComposer's wrapper) */
+const ATTACHMENT_KEYS: Record<OutboxFileKind, 'images' | 'audio' | 'documents' | 'videos'> = {
+  image: 'images',
+  audio: 'audio',
+  document: 'documents',
+  video: 'videos',
+};
+
+/**
+ * True when a request failed because it never reached the backend (offline,
+ * DNS, dropped connection, timeout) — as opposed to a server rejection.
+ * Only these are worth queuing; a 4xx would fail the same way on replay.
+ */
+export function isNetworkError(error: unknown): boolean {
+  if (typeof navigator !== 'undefined' && navigator.onLine === false) return true;
+  if (error instanceof NetworkError) return true;
+  if (isAxiosError(error)) {
+    return !error.response || error.code === 'ERR_NETWORK' || error.code === 'ECONNABORTED';
+  }
+  return false;
+}
+
+/**
+ * Outbox entries in replay order (oldest first)
+ */
+export function sortOutboxEntries(entries: OutboxEntry[]): OutboxEntry[] {
+  return [...entries].sort((a, b) => a.created_at.localeCompare(b.created_at));
+}
+
+/**
+ * Delay before the next automatic replay, doubling per failed attempt
+ */
+export function getOutboxRetryDelay(attempts: number): number {
+  return Math.min(OUTBOX_RETRY_BASE_MS * 2 ** Math.max(attempts - 1, 0), OUTBOX_RETRY_MAX_MS);
+}
+
+/**
+ * Add freshly uploaded files to an attachments JSON (or start a new one)
+ */
+export function mergeOutboxAttachments(
+  attachmentsJson: string | null,
+  kind: OutboxFileKind,
+  uploaded: MediaAttachment[]
+): string {
+  const wrapper: Record<string, MediaAttachment[]> = attachmentsJson ? JSON.parse(attachmentsJson) : {};
+  const key = ATTACHMENT_KEYS[kind];
+  wrapper[key] = [...(wrapper[key] ?? []), ...uploaded];
+  return JSON.stringify(wrapper);
+}
+
+/**
+ * Render a queued entry as an optimistic chat message for the thread
+ */
+export function outboxEntryToMessage(entry: OutboxEntry): ChatMessage {
+  return {
+    id: `${CHAT_IDENTIFIERS.TEMP_ID_PREFIX}${entry.client_id}`,
+    conversation_id: entry.conversation_id,
+    message: entry.message,
+    message_type: detectMessageType(entry.attachments),
+    attachments: entry.attachments,
+    sender_id: null,
+    sender_role: SenderRole.HumanAgent,
+    status: MessageStatus.Sent,
+    created_at: entry.created_at,
+    updated_at: entry.created_at,
+    platform_message_id: null,
+    action_metadata: null,
+    reply_to: entry.reply_to ?? null,
+    correlation_id: entry.client_id,
+    sendStatus:
+      entry.status === 'failed'
+        ? MessageSendStatus.Error
+        : entry.status === 'retrying'
+          ? MessageSendStatus.Retrying
+          : MessageSendStatus.Queued,
+    isOptimistic: true,
+    queuedFiles: entry.files.map((file) => ({ name: file.name, kind: file.kind })),
+  };
+}
@@ -0,0 +1,52 @@
+import { describe, it, expect } from 'vitest';
+import type { ConversationSla } from '../types';
+import { formatSlaRemaining, getSlaStatus } from './sla';
+
+const NOW = new Date('2026-03-01T12:00:00.000Z').getTime();
+
+const sla = (overrides: Partial<ConversationSla> = {}): ConversationSla => ({
+  policy_id: 'policy-1',
+  policy_name: 'Urgent WhatsApp',
+  started_at: '2026-03-01T11:00:00.000Z',
+  first_response_due_at: '2026-03-01T12:30:00.000Z',
+  first_responded_at: null,
+  resolution_due_at: '2026-03-01T15:00:00.000Z',
+  resolved_at: null,
+  at_risk_minutes: 15,
+  ...overrides,
+});
+
+describe('getSlaStatus', () => {
+  it('returns null without a running timer', () => {
+    expect(getSlaStatus(null, NOW)).toBeNull();
+    expect(getSlaStatus(sla({ resolved_at: '2026-03-01T11:30:00.000Z' }), NOW)).toBeNull();
+  });
+
+  it('tracks the first response until a human replies, then resolution', () => {
+    expect(getSlaStatus(sla(), NOW)).toMatchObject({ target: 'first_response', remainingMs: 30 * 60 * 1000 });
+    expect(getSlaStatus(sla({ first_responded_at: '2026-03-01T11:10:00.000Z' }), NOW)).toMatchObject({
+      target: 'resolution',
+      remainingMs: 3 * 60 * 60 * 1000,
+    });
+  });
+
+  it('flags timers inside the at-risk window and past their due time', () => {
+    expect(getSlaStatus(sla(), NOW)?.state).toBe('on_track');
+    expect(getSlaStatus(sla({ first_response_due_at: '2026-03-01T12:15:00.000Z' }), NOW)?.state).toBe('at_risk');
+    expect(getSlaStatus(sla({ first_response_due_at: '2026-03-01T12:00:00.000Z' }), NOW)?.state).toBe('breached');
+  });
+});
+
+describe('formatSlaRemaining', () => {
+  it('formats minutes, hours and days compactly', () => {
+    expect(formatSlaRemaining(45 * 60 * 1000 + 30 * 1000)).toBe('45m');
+    expect(formatSlaRemaining(3 * 60 * 60 * 1000)).toBe('3h');
+    expect(formatSlaRemaining(185 * 60 * 1000)).toBe('3h 5m');
+    expect(formatSlaRemaining(52 * 60 * 60 * 1000)).toBe('2d 4h');
+  });
+
+  it('prefixes overdue durations and rounds them up', () => {
+    expect(formatSlaRemaining(-30 * 1000)).toBe('-1m');
+    expect(formatSlaRemaining(-90 * 60 * 1000)).toBe('-1h 30m');
+  });
+});
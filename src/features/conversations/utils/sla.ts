@@ -0,0 +1,64 @@
+/**
+ * SLA helpers
+ * Pure derivations over a conversation's SLA snapshot — see ConversationSla
+ * in types/conversation.types.ts. Timers are started and stopped server-side;
+ * these only decide which target is running and how close it is.
+ */
+
+import type { ConversationSla } from '../types';
+
+/** The first response is due first; once it's sent the resolution timer is what's left */
+export type SlaTarget = 'first_response' | 'resolution';
+
+export type SlaState = 'on_track' | 'at_risk' | 'breached';
+
+export interface SlaStatus {
+  target: SlaTarget;
+  dueAt: Date;
+  /** Negative once breached */
+  remainingMs: number;
+  state: SlaState;
+}
+
+const MINUTE_MS = 60 * 1000;
+
+/**
+ * Running SLA target for a conversation, or null when there's no timer or the
+ * conversation has already been resolved.
+ */
+export function getSlaStatus(sla: ConversationSla | null | undefined, now: number = Date.now()): SlaStatus | null {
+  if (!sla || sla.resolved_at) return null;
+
+  const target: SlaTarget = sla.first_responded_at ? 'resolution' : 'first_response';
+  const dueAt = new Date(target === 'first_response' ? sla.first_response_due_at : sla.resolution_due_at);
+  const remainingMs = dueAt.getTime() - now;
+
+  const state: SlaState = remainingMs <= 0
+    ? 'breached'
+    : remainingMs <= sla.at_risk_minutes * MINUTE_MS
+      ? 'at_risk'
+      : 'on_track';
+
+  return { target, dueAt, remainingMs, state };
+}
+
+/**
+ * Compact countdown in the conversation list's "2m" / "1h" style:
+ * "45m", "3h 5m", "2d 4h". Overdue durations are prefixed with "-".
+ */
+export function formatSlaRemaining(remainingMs: number): string {
+  const sign = remainingMs < 0 ? '-' : '';
+  // Round towards "more urgent": 59.5 minutes left reads as 59m, 30s overdue as -1m
+  const totalMinutes = remainingMs < 0
+    ? Math.ceil(-remainingMs / MINUTE_MS)
+    : Math.floor(remainingMs / MINUTE_MS);
+
+  if (totalMinutes < 60) return `${sign}${totalMinutes}m`;
+
+  const days = Math.floor(totalMinutes / (24 * 60));
+  const hours = Math.floor((totalMinutes % (24 * 60)) / 60);
+  const minutes = totalMinutes % 60;
+
+  if (days > 0) return `${sign}${days}d${hours > 0 ? ` ${hours}h` : ''}`;
+  return `${sign}${hours}h${minutes > 0 ? ` ${minutes}m` : ''}`;
+}
@@ -93,3 +93,21 @@ export const getInitials = (name: string): string => {
   }
   return (words[0].charAt(0) + words[words.length - 1].charAt(0)).toUpperCase();
 };
+
+/**
+ * Human-readable label for a conversation `source` value.
+ * Used as the i18n default for `conversations.filters.platform_*` keys.
+ */
+export const formatSourceLabel = (source: string): string => {
+  const labels: Record<string, string> = {
+    web: 'Web',
+    whatsapp: 'WhatsApp',
+    facebook: 'Facebook',
+    instagram: 'Instagram',
+    widget: 'Website',
+    tiktok: 'TikTok',
+    twitter: 'Twitter',
+    linkedin: 'LinkedIn',
+  };
+  return labels[source] || source.charAt(0).toUpperCase() + source.slice(1);
+};
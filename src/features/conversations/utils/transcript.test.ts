@@ -0,0 +1,114 @@
+import { describe, it, expect } from 'vitest';
+import { MessageStatus, MessageType, SenderRole } from '../types';
+import type { ChatMessage, TranscriptDocument, TranscriptLabels } from '../types';
+import {
+  buildTranscriptEntries,
+  buildTranscriptHtml,
+  buildTranscriptJson,
+  buildTranscriptText,
+  getTranscriptFileName,
+} from './transcript';
+
+const labels: TranscriptLabels = {
+  title: 'Transcript',
+  customer: 'Customer',
+  source: 'Source',
+  started: 'Started',
+  exported: 'Exported',
+  timezone: 'Timezone',
+  message_count: 'Messages',
+  deleted: 'Message deleted',
+  roles: { customer: 'Jane', ai_agent: 'AI', human_agent: 'Agent', system: 'System' },
+};
+
+const message = (overrides: Partial<ChatMessage> = {}): ChatMessage => ({
+  id: 'm-1',
+  conversation_id: 'conv-1',
+  message: 'Hello',
+  message_type: MessageType.Text,
+  attachments: null,
+  sender_id: null,
+  sender_role: SenderRole.Customer,
+  status: MessageStatus.Sent,
+  created_at: '2026-01-01T10:00:00.000Z',
+  updated_at: '2026-01-01T10:00:00.000Z',
+  platform_message_id: null,
+  action_metadata: null,
+  ...overrides,
+});
+
+const doc = (overrides: Partial<TranscriptDocument> = {}): TranscriptDocument => ({
+  conversation: { id: 'conv-1', customer_name: 'Jane', source: 'whatsapp', created_at: '2026-01-01T09:00:00.000Z' },
+  language: 'en',
+  dir: 'ltr',
+  timezone: 'Africa/Cairo',
+  exported_at: '2026-01-02T10:00:00.000Z',
+  started_local: 'Jan 1',
+  exported_local: 'Jan 2',
+  labels,
+  entries: buildTranscriptEntries(
+    [
+      message({ id: 'm-2', sender_role: SenderRole.AiAgent, message: '<b>Hi</b>', created_at: '2026-01-01T10:01:00.000Z' }),
+      message(),
+    ],
+    labels,
+    (iso) => `local(${iso.slice(11, 16)})`
+  ),
+  ...overrides,
+});
+
+describe('transcript', () => {
+  describe('buildTranscriptEntries', () => {
+    it('should order messages oldest first with localized senders and times', () => {
+      const entries = doc().entries;
+      expect(entries.map((e) => e.id)).toEqual(['m-1', 'm-2']);
+      expect(entries[1]).toMatchObject({ role: 'ai_agent', sender: 'AI', local_time: 'local(10:01)' });
+    });
+
+    it('should skip optimistic messages, blank deleted ones and list attachments', () => {
+      const entries = buildTranscriptEntries(
+        [
+          message({ id: 'temp-1', isOptimistic: true }),
+          message({ id: 'gone', status: MessageStatus.Deleted, message: 'secret' }),
+          message({
+            id: 'img',
+            attachments: JSON.stringify({ images: [{ url: 'https://cdn/a.png', type: 'image', filename: 'a.png' }] }),
+          }),
+        ],
+        labels,
+        (iso) => iso
+      );
+      expect(entries.map((e) => e.id)).toEqual(['gone', 'img']);
+      expect(entries[0]).toMatchObject({ is_deleted: true, text: '' });
+      expect(entries[1].attachments).toEqual([{ kind: 'image', url: 'https://cdn/a.png', name: 'a.png' }]);
+    });
+  });
+
+  describe('builders', () => {
+    it('should render plain text lines and prefix RTL lines with a mark', () => {
+      expect(buildTranscriptText(doc())).toContain('[local(10:00)] Jane: Hello');
+      const rtl = buildTranscriptText(doc({ dir: 'rtl' }));
+      expect(rtl.split('\n')[0]).toBe('\u200FTranscript');
+    });
+
+    it('should escape message content in HTML and set the document direction', () => {
+      const html = buildTranscriptHtml(doc({ dir: 'rtl', language: 'ar-SA' }));
+      expect(html).toContain('<html lang="ar-SA" dir="rtl">');
+      expect(html).toContain('&lt;b&gt;Hi&lt;/b&gt;');
+      expect(html).not.toContain('<b>Hi</b>');
+    });
+
+    it('should emit machine-readable JSON', () => {
+      const parsed = JSON.parse(buildTranscriptJson(doc()));
+      expect(parsed.timezone).toBe('Africa/Cairo');
+      expect(parsed.messages).toHaveLength(2);
+    });
+  });
+
+  describe('getTranscriptFileName', () => {
+    it('should slug the customer name and keep non-Latin letters', () => {
+      expect(getTranscriptFileName('Jane Doe!', '2026-03-01T10:00:00Z', 'txt')).toBe('transcript-jane-doe-2026-03-01.txt');
+      expect(getTranscriptFileName('أحمد علي', '2026-03-01T10:00:00Z', 'pdf')).toBe('transcript-أحمد-علي-2026-03-01.html');
+    });
+  });
+});
@@ -0,0 +1,225 @@
+/**
+ * Transcript helpers
+ * Pure builders for conversation transcripts — see types/transcript.types.ts.
+ * Localized strings and timestamps are resolved by the caller so these stay
+ * free of i18n/timezone state and can run anywhere.
+ */
+
+import { isMessageDeleted, parseAttachments, SenderRole } from '../types';
+import type {
+  ChatMessage,
+  MessageAttachment,
+  TranscriptAttachment,
+  TranscriptAttachmentKind,
+  TranscriptDocument,
+  TranscriptEntry,
+  TranscriptFormat,
+  TranscriptLabels,
+} from '../types';
+
+const ROLE_KEYS: Record<SenderRole, string> = {
+  [SenderRole.Customer]: 'customer',
+  [SenderRole.AiAgent]: 'ai_agent',
+  [SenderRole.HumanAgent]: 'human_agent',
+  [SenderRole.System]: 'system',
+};
+
+/** Right-to-left mark — keeps each plain-text line anchored right in RTL viewers */
+const RLM = '\u200F';
+
+export const TRANSCRIPT_MIME_TYPES: Record<Exclude<TranscriptFormat, 'pdf'>, string> = {
+  html: 'text/html;charset=utf-8',
+  json: 'application/json;charset=utf-8',
+  txt: 'text/plain;charset=utf-8',
+};
+
+/**
+ * Turn thread messages into transcript entries (oldest first). Optimistic
+ * messages that never reached the backend are left out.
+ */
+export function buildTranscriptEntries(
+  messages: ChatMessage[],
+  labels: TranscriptLabels,
+  formatTimestamp: (iso: string) => string
+): TranscriptEntry[] {
+  return messages
+    .filter((message) => !message.isOptimistic)
+    .sort((a, b) => a.created_at.localeCompare(b.created_at))
+    .map((message) => {
+      const role = ROLE_KEYS[message.sender_role] ?? 'system';
+      const deleted = isMessageDeleted(message);
+      return {
+        id: message.id,
+        role,
+        sender: labels.roles[role] ?? role,
+        created_at: message.created_at,
+        local_time: formatTimestamp(message.created_at),
+        text: deleted ? '' : message.message ?? '',
+        attachments: deleted ? [] : getTranscriptAttachments(message),
+        is_deleted: deleted,
+      };
+    });
+}
+
+function getTranscriptAttachments(message: ChatMessage): TranscriptAttachment[] {
+  const parsed = parseAttachments(message.attachments);
+  if (!parsed) return [];
+
+  const toEntries = (items: MessageAttachment[] | undefined, kind: TranscriptAttachmentKind) =>
+    (items ?? [])
+      .filter((item) => !!item.url)
+      .map((item) => ({
+        kind: kind === 'image' && item.content_type?.startsWith('video/') ? ('file' as const) : kind,
+        url: item.url,
+        name: item.filename || item.url.split('/').pop()?.split('?')[0] || item.url,
+      }));
+
+  return [...toEntries(parsed.images, 'image'), ...toEntries(parsed.audio, 'audio'), ...toEntries(parsed.files, 'file')];
+}
+
+/**
+ * Plain-text transcript. RTL documents prefix each line with an RLM so mixed
+ * Arabic/Latin lines keep their direction in editors without bidi detection.
+ */
+export function buildTranscriptText(doc: TranscriptDocument): string {
+  const mark = doc.dir === 'rtl' ? RLM : '';
+  const lines = [
+    doc.labels.title,
+    `${doc.labels.customer}: ${doc.conversation.customer_name}`,
+    `${doc.labels.source}: ${doc.conversation.source}`,
+    `${doc.labels.started}: ${doc.started_local}`,
+    `${doc.labels.exported}: ${doc.exported_local}`,
+    `${doc.labels.timezone}: ${doc.timezone}`,
+    `${doc.labels.message_count}: ${doc.entries.length}`,
+    '',
+  ];
+
+  doc.entries.forEach((entry) => {
+    const body = entry.is_deleted ? `(${doc.labels.deleted})` : entry.text;
+    lines.push(`[${entry.local_time}] ${entry.sender}: ${body}`);
+    entry.attachments.forEach((attachment) => lines.push(`    ${attachment.name}: ${attachment.url}`));
+  });
+
+  return lines.map((line) => (line ? `${mark}${line}` : line)).join('\n') + '\n';
+}
+
+/**
+ * JSON transcript — stable keys for tooling, plus the localized time per entry
+ */
+export function buildTranscriptJson(doc: TranscriptDocument): string {
+  return JSON.stringify(
+    {
+      conversation: doc.conversation,
+      language: doc.language,
+      timezone: doc.timezone,
+      exported_at: doc.exported_at,
+      messages: doc.entries,
+    },
+    null,
+    2
+  );
+}
+
+const escapeHtml = (value: string) =>
+  value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+
+/** Only http(s) links make it into the document — attachment URLs are untrusted */
+const safeUrl = (url: string) => (/^https?:\/\//i.test(url) ? escapeHtml(url) : '#');
+
+const TRANSCRIPT_CSS = `
+  * { box-sizing: border-box; }
+  body { font-family: system-ui, -apple-system, "Segoe UI", Tahoma, Arial, sans-serif; color: #171717; margin: 0; padding: 32px; }
+  header { border-bottom: 1px solid #e5e5e5; padding-bottom: 16px; margin-bottom: 24px; }
+  h1 { font-size: 20px; margin: 0 0 12px; }
+  dl { display: grid; grid-template-columns: max-content 1fr; gap: 4px 16px; margin: 0; font-size: 13px; }
+  dt { color: #737373; }
+  dd { margin: 0; }
+  .message { max-width: 75%; margin-bottom: 14px; padding: 10px 14px; border-radius: 12px; background: #f5f5f5; break-inside: avoid; }
+  .message.customer { margin-inline-end: auto; }
+  .message.agent { margin-inline-start: auto; background: #ecfdf5; }
+  .meta { font-size: 11px; color: #737373; margin-bottom: 4px; }
+  .meta strong { color: #404040; }
+  .text { white-space: pre-wrap; word-break: break-word; unicode-bidi: plaintext; font-size: 14px; }
+  .deleted { font-style: italic; color: #a3a3a3; }
+  .attachments { margin-top: 8px; display: flex; flex-wrap: wrap; gap: 8px; }
+  .attachments img { max-width: 160px; max-height: 160px; border-radius: 8px; display: block; }
+  .attachments a { font-size: 12px; color: #2563eb; word-break: break-all; }
+  @media print { body { padding: 0; } a { color: inherit; } }
+`;
+
+/**
+ * Printable HTML transcript. `dir`/`lang` on the root element flip the layout
+ * for Arabic; message text uses `unicode-bidi: plaintext` so each paragraph
+ * picks its own direction.
+ */
+export function buildTranscriptHtml(doc: TranscriptDocument): string {
+  const metaRows: [string, string][] = [
+    [doc.labels.customer, doc.conversation.customer_name],
+    [doc.labels.source, doc.conversation.source],
+    [doc.labels.started, doc.started_local],
+    [doc.labels.exported, doc.exported_local],
+    [doc.labels.timezone, doc.timezone],
+    [doc.labels.message_count, String(doc.entries.length)],
+  ];
+
+  const messages = doc.entries
+    .map((entry) => {
+      const side = entry.role === 'customer' ? 'customer' : 'agent';
+      const attachments = entry.attachments
+        .map((attachment) =>
+          attachment.kind === 'image'
+            ? `<a href="${safeUrl(attachment.url)}"><img src="${safeUrl(attachment.url)}" alt="${escapeHtml(attachment.name)}"></a>`
+            : `<a href="${safeUrl(attachment.url)}">${escapeHtml(attachment.name)}</a>`
+        )
+        .join('');
+      const body = entry.is_deleted
+        ? `<div class="text deleted">${escapeHtml(doc.labels.deleted)}</div>`
+        : entry.text
+          ? `<div class="text">${escapeHtml(entry.text)}</div>`
+          : '';
+      return `<article class="message ${side}">
+  <div class="meta"><strong>${escapeHtml(entry.sender)}</strong> · <time datetime="${escapeHtml(entry.created_at)}">${escapeHtml(entry.local_time)}</time></div>
+  ${body}${attachments ? `<div class="attachments">${attachments}</div>` : ''}
+</article>`;
+    })
+    .join('\n');
+
+  return `<!DOCTYPE html>
+<html lang="${escapeHtml(doc.language)}" dir="${doc.dir}">
+<head>
+<meta charset="utf-8">
+<title>${escapeHtml(`${doc.labels.title} — ${doc.conversation.customer_name}`)}</title>
+<style>${TRANSCRIPT_CSS}</style>
+</head>
+<body>
+<header>
+<h1>${escapeHtml(doc.labels.title)}</h1>
+<dl>${metaRows.map(([label, value]) => `<dt>${escapeHtml(label)}</dt><dd>${escapeHtml(value)}</dd>`).join('')}</dl>
+</header>
+<main>
+${messages}
+</main>
+</body>
+</html>
+`;
+}
+
+/**
+ * File name for a downloaded transcript, e.g. transcript-jane-doe-2026-03-01.txt
+ */
+export function getTranscriptFileName(customerName: string, exportedAt: string, format: TranscriptFormat): string {
+  const slug = customerName
+    .trim()
+    .toLowerCase()
+    .replace(/[^\p{L}\p{N}]+/gu, '-')
+    .replace(/^-+|-+$/g, '')
+    .slice(0, 40);
+  const date = exportedAt.slice(0, 10);
+  const extension = format === 'pdf' ? 'html' : format;
+  return `transcript-${slug || 'conversation'}-${date}.${extension}`;
+}
@@ -0,0 +1,49 @@
+import { describe, it, expect } from 'vitest';
+import { SenderRole, type ChatMessage } from '../types';
+import {
+  detectMessageLanguage,
+  getCustomerLanguage,
+  getLocaleLanguage,
+  localizeTranslatedDigits,
+  needsTranslation,
+  usesArabicNumerals,
+} from './translation';
+
+const message = (text: string, role: SenderRole = SenderRole.Customer): ChatMessage =>
+  ({ id: text, message: text, sender_role: role, created_at: '2026-03-01T10:00:00.000Z' }) as ChatMessage;
+
+describe('translation helpers', () => {
+  it('maps UI locales to a translation language', () => {
+    expect(getLocaleLanguage('ar-EG')).toBe('ar');
+    expect(getLocaleLanguage('ar-SA')).toBe('ar');
+    expect(getLocaleLanguage('en')).toBe('en');
+    expect(getLocaleLanguage('fr')).toBe('en');
+  });
+
+  it('detects the language and skips text without letters', () => {
+    expect(detectMessageLanguage('وين طلبي؟')).toBe('ar');
+    expect(detectMessageLanguage('Where is my order?')).toBe('en');
+    expect(detectMessageLanguage('👍 123')).toBeNull();
+    expect(needsTranslation('وين طلبي؟', 'en')).toBe(true);
+    expect(needsTranslation('Where is my order?', 'en')).toBe(false);
+    expect(needsTranslation('👍', 'ar')).toBe(false);
+  });
+
+  it("takes the customer's language from their latest message with letters", () => {
+    const messages = [
+      message('Hello'),
+      message('مرحبا، عندي سؤال'),
+      message('Sure, how can I help?', SenderRole.HumanAgent),
+      message('٢٠٠'),
+    ];
+    expect(getCustomerLanguage(messages)).toBe('ar');
+    expect(getCustomerLanguage([message('Hi there', SenderRole.HumanAgent)])).toBeNull();
+    expect(usesArabicNumerals(messages)).toBe(true);
+  });
+
+  it("writes translated digits in the reader's style", () => {
+    expect(localizeTranslatedDigits('طلبك رقم 1042', 'ar', true)).toBe('طلبك رقم ١٠٤٢');
+    expect(localizeTranslatedDigits('طلبك رقم 1042', 'ar', false)).toBe('طلبك رقم 1042');
+    expect(localizeTranslatedDigits('Order ١٠٤٢', 'en', false)).toBe('Order 1042');
+  });
+});
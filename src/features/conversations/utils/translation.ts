@@ -0,0 +1,65 @@
+/**
+ * Message translation
+ * Agents and customers often don't share a language (English-speaking team,
+ * Arabic-dialect customers, or the reverse). These helpers decide what needs
+ * translating and keep digits in the style the reader expects; the
+ * translation itself happens on the backend.
+ */
+
+import { toArabicNumerals, toWesternNumerals, hasArabicNumerals } from '@/lib/arabicNumerals';
+import { isValidLocale } from '@/i18n/locales';
+import { isCustomerMessage, type ChatMessage, type TranslationLanguage } from '../types';
+import { isArabicText } from './textFormatters';
+
+/** Language of a UI locale ('ar-SA', 'ar-EG' → 'ar'); unknown locales read as English */
+export function getLocaleLanguage(locale: string): TranslationLanguage {
+  return isValidLocale(locale) && locale.startsWith('ar') ? 'ar' : 'en';
+}
+
+/**
+ * Language a message is written in; null when it has no letters (emoji,
+ * numbers, links only) and so nothing to translate.
+ */
+export function detectMessageLanguage(text: string | null | undefined): TranslationLanguage | null {
+  if (!text || !/\p{L}/u.test(text)) return null;
+  return isArabicText(text) ? 'ar' : 'en';
+}
+
+/** Whether `text` reads in another language than `target` */
+export function needsTranslation(text: string | null | undefined, target: TranslationLanguage): boolean {
+  const language = detectMessageLanguage(text);
+  return language !== null && language !== target;
+}
+
+/**
+ * Language the customer writes in, from their most recent message with
+ * letters in it. Null until they've written something.
+ */
+export function getCustomerLanguage(messages: ChatMessage[]): TranslationLanguage | null {
+  for (let i = messages.length - 1; i >= 0; i--) {
+    const msg = messages[i];
+    if (!isCustomerMessage(msg)) continue;
+    const language = detectMessageLanguage(msg.message);
+    if (language) return language;
+  }
+  return null;
+}
+
+/** Whether the customer writes digits as Arabic-Indic numerals (٠-٩) */
+export function usesArabicNumerals(messages: ChatMessage[]): boolean {
+  return messages.some((msg) => isCustomerMessage(msg) && !!msg.message && hasArabicNumerals(msg.message));
+}
+
+/**
+ * Put a translation's digits in the reader's style: Arabic-Indic when
+ * translating into Arabic for a customer who writes them, Western otherwise.
+ */
+export function localizeTranslatedDigits(
+  text: string,
+  target: TranslationLanguage,
+  arabicNumerals: boolean
+): string {
+  if (target === 'ar' && arabicNumerals) return toArabicNumerals(text);
+  if (target === 'en') return toWesternNumerals(text);
+  return text;
+}
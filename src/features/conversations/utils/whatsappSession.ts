@@ -0,0 +1,48 @@
+/**
+ * WhatsApp customer service window
+ * Free-form replies are only allowed within 24 hours of the customer's last
+ * message; after that the business can only send approved templates.
+ */
+
+import { isCustomerMessage, type ChatMessage } from '../types';
+
+export const WHATSAPP_WINDOW_MS = 24 * 60 * 60 * 1000; // 24 hours
+
+/** Under this the countdown is shown as urgent */
+export const WHATSAPP_WINDOW_WARNING_MS = 60 * 60 * 1000; // 1 hour
+
+export interface WhatsAppWindowStatus {
+  expired: boolean;
+  /** 0 once expired */
+  remaining: number;
+  /** When the window closes (or closed); null when the customer never wrote */
+  closesAt: Date | null;
+}
+
+/** Timestamp of the most recent customer message, null when there is none */
+export function getLastCustomerMessageAt(messages: ChatMessage[]): string | null {
+  for (let i = messages.length - 1; i >= 0; i--) {
+    const msg = messages[i];
+    if (isCustomerMessage(msg)) return msg.created_at;
+  }
+  return null;
+}
+
+export function getWhatsAppWindowStatus(
+  lastCustomerMessageAt: string | null | undefined,
+  now: number = Date.now()
+): WhatsAppWindowStatus {
+  const lastCustomerTime = lastCustomerMessageAt ? new Date(lastCustomerMessageAt).getTime() : NaN;
+  if (Number.isNaN(lastCustomerTime)) {
+    return { expired: true, remaining: 0, closesAt: null };
+  }
+
+  const closesAt = lastCustomerTime + WHATSAPP_WINDOW_MS;
+  const remaining = closesAt - now;
+
+  return {
+    expired: remaining <= 0,
+    remaining: Math.max(0, remaining),
+    closesAt: new Date(closesAt),
+  };
+}
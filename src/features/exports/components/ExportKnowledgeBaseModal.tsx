@@ -0,0 +1,90 @@
+import { useState } from 'react';
+import { useTranslation } from 'react-i18next';
+import { toast } from 'sonner';
+import { BaseModal } from '@/components/ui/BaseModal';
+import { Button } from '@/components/ui/Button';
+import { isAxiosError } from '@/lib/errors';
+import { useCreateKnowledgeBaseExportMutation } from '../hooks';
+import type { KnowledgeExportFormat } from '../types/export.types';
+
+const FORMATS: KnowledgeExportFormat[] = ['csv', 'json', 'markdown_zip'];
+
+interface ExportKnowledgeBaseModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  agentId: string;
+  onExportCreated: (jobId: string) => void;
+}
+
+/**
+ * Knowledge base export — starts a server-side job with every entry linked to
+ * the agent; progress is tracked by ExportProgressModal.
+ */
+export function ExportKnowledgeBaseModal({ isOpen, onClose, agentId, onExportCreated }: ExportKnowledgeBaseModalProps) {
+  const { t } = useTranslation();
+  const [format, setFormat] = useState<KnowledgeExportFormat>('json');
+  const createExport = useCreateKnowledgeBaseExportMutation();
+
+  const handleExport = async () => {
+    try {
+      const response = await createExport.mutateAsync({ agent_id: agentId, format });
+      onExportCreated(response.job_id);
+      onClose();
+    } catch (error) {
+      const message = isAxiosError(error)
+        ? (error.response?.data as { error?: string } | undefined)?.error
+        : undefined;
+      toast.error(message || t('knowledge_transfer.export_failed'));
+    }
+  };
+
+  return (
+    <BaseModal
+      isOpen={isOpen}
+      onClose={onClose}
+      title={t('knowledge_transfer.export_title')}
+      subtitle={t('knowledge_transfer.export_subtitle')}
+      maxWidth="md"
+      isLoading={createExport.isPending}
+      closable={!createExport.isPending}
+    >
+      <div className="space-y-6">
+        <div className="space-y-3">
+          <label className="text-sm font-medium text-neutral-700">{t('knowledge_transfer.format_label')}</label>
+          <div className="space-y-2">
+            {FORMATS.map((option) => (
+              <label
+                key={option}
+                className="flex items-start p-3 border border-neutral-200 rounded-lg cursor-pointer hover:bg-neutral-50 transition-colors"
+              >
+                <input
+                  type="radio"
+                  value={option}
+                  checked={format === option}
+                  onChange={() => setFormat(option)}
+                  className="mt-0.5 ltr:mr-3 rtl:ml-3"
+                  disabled={createExport.isPending}
+                />
+                <div>
+                  <div className="font-medium text-neutral-900">{t(`knowledge_transfer.format_${option}_title`)}</div>
+                  <div className="text-sm text-neutral-600">
+                    {t(`knowledge_transfer.format_${option}_description`)}
+                  </div>
+                </div>
+              </label>
+            ))}
+          </div>
+        </div>
+
+        <div className="flex justify-end gap-3 pt-4">
+          <Button variant="secondary" size="sm" onClick={onClose} disabled={createExport.isPending}>
+            {t('common.cancel')}
+          </Button>
+          <Button variant="primary" size="sm" onClick={handleExport} isLoading={createExport.isPending}>
+            {t('knowledge_transfer.start_export')}
+          </Button>
+        </div>
+      </div>
+    </BaseModal>
+  );
+}
@@ -8,14 +8,36 @@ interface ExportProgressModalProps {
   isOpen: boolean;
   onClose: () => void;
   jobId: string | null;
+  /** What the job exports — picks the progress/count wording */
+  kind?: 'leads' | 'transcripts' | 'knowledge';
 }
 
+const KIND_COPY = {
+  leads: {
+    processing: 'leads.processing_leads',
+    processingCount: 'leads.processing_leads_count',
+    exportedCount: 'leads.leads_exported',
+  },
+  transcripts: {
+    processing: 'transcript_export.processing',
+    processingCount: 'transcript_export.processing_count',
+    exportedCount: 'transcript_export.exported_count',
+  },
+  knowledge: {
+    processing: 'knowledge_transfer.export_processing',
+    processingCount: 'knowledge_transfer.export_processing_count',
+    exportedCount: 'knowledge_transfer.exported_count',
+  },
+} as const;
+
 export function ExportProgressModal({
   isOpen,
   onClose,
   jobId,
+  kind = 'leads',
 }: ExportProgressModalProps) {
   const { t } = useTranslation();
+  const copy = KIND_COPY[kind];
   const { data: status, isLoading } = useExportStatus(jobId, isOpen);
 
   const handleDownload = () => {
@@ -56,7 +78,7 @@ export function ExportProgressModal({
           <div className="space-y-4">
             <div className="flex items-center justify-between text-sm">
               <span className="text-neutral-700 font-medium">
-                {status?.status === 'pending' ? t('leads.preparing_export') : t('leads.processing_leads')}
+                {status?.status === 'pending' ? t('leads.preparing_export') : t(copy.processing)}
               </span>
               <span className="text-neutral-600">{status?.progress || 0}%</span>
             </div>
@@ -68,7 +90,7 @@ export function ExportProgressModal({
             </div>
             {status?.status === 'processing' && status?.row_count != null && (
               <p className="text-sm text-neutral-600">
-                {t('leads.processing_leads_count', { count: status.row_count })}
+                {t(copy.processingCount, { count: status.row_count })}
               </p>
             )}
           </div>
@@ -84,7 +106,7 @@ export function ExportProgressModal({
               <p className="text-neutral-900 font-medium">{t('leads.export_completed_successfully')}</p>
               {status?.row_count != null && (
                 <p className="text-sm text-neutral-600">
-                  {t('leads.leads_exported', { count: status.row_count })}
+                  {t(copy.exportedCount, { count: status.row_count })}
                 </p>
               )}
               {status?.file_name && (
@@ -0,0 +1,80 @@
+import { useState } from 'react';
+import { useTranslation } from 'react-i18next';
+import { toast } from 'sonner';
+import { BaseModal } from '@/components/ui/BaseModal';
+import { Button } from '@/components/ui/Button';
+import { getUserTimezone } from '@/lib/timeUtils';
+import { isAxiosError } from '@/lib/errors';
+import type { TranscriptFormat } from '@/features/conversations/types';
+import { useCreateTranscriptExportMutation } from '../hooks';
+import { TranscriptFormatPicker } from './TranscriptFormatPicker';
+
+interface ExportTranscriptsModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  agentId: string;
+  conversationIds: string[];
+  onExportCreated: (jobId: string) => void;
+}
+
+/**
+ * Bulk transcript export — starts a server-side job that zips one transcript
+ * per conversation; progress is tracked by ExportProgressModal.
+ */
+export function ExportTranscriptsModal({
+  isOpen,
+  onClose,
+  agentId,
+  conversationIds,
+  onExportCreated,
+}: ExportTranscriptsModalProps) {
+  const { t, i18n } = useTranslation();
+  const [format, setFormat] = useState<TranscriptFormat>('pdf');
+  const createExport = useCreateTranscriptExportMutation();
+
+  const handleExport = async () => {
+    try {
+      const response = await createExport.mutateAsync({
+        agent_id: agentId,
+        conversation_ids: conversationIds,
+        format,
+        language: i18n.language,
+        timezone: getUserTimezone(),
+      });
+
+      toast.success(t('transcript_export.bulk_started'));
+      onExportCreated(response.job_id);
+      onClose();
+    } catch (error) {
+      const message = isAxiosError(error)
+        ? (error.response?.data as { error?: string } | undefined)?.error
+        : undefined;
+      toast.error(message || t('transcript_export.bulk_failed'));
+    }
+  };
+
+  return (
+    <BaseModal
+      isOpen={isOpen}
+      onClose={onClose}
+      title={t('transcript_export.bulk_title')}
+      subtitle={t('transcript_export.bulk_subtitle', { count: conversationIds.length })}
+      maxWidth="md"
+      isLoading={createExport.isPending}
+      closable={!createExport.isPending}
+    >
+      <div className="space-y-6">
+        <TranscriptFormatPicker value={format} onChange={setFormat} disabled={createExport.isPending} />
+
+        <div className="flex justify-end gap-3 pt-4">
+          <Button variant="secondary" size="sm" onClick={onClose} disabled={createExport.isPending}>
+            {t('common.cancel')}
+          </Button>
+          <Button variant="primary" size="sm" onClick={handleExport} isLoading={createExport.isPending}>
+            {t('transcript_export.start_export')}
+          </Button>
+        </div>
+      </div>
+    </BaseModal>
+  );
+}
@@ -0,0 +1,44 @@
+import { useTranslation } from 'react-i18next';
+import type { TranscriptFormat } from '@/features/conversations/types';
+
+const FORMATS: TranscriptFormat[] = ['pdf', 'html', 'json', 'txt'];
+
+interface TranscriptFormatPickerProps {
+  value: TranscriptFormat;
+  onChange: (format: TranscriptFormat) => void;
+  disabled?: boolean;
+}
+
+/**
+ * Format radio list shared by the single and bulk transcript exports
+ */
+export function TranscriptFormatPicker({ value, onChange, disabled }: TranscriptFormatPickerProps) {
+  const { t } = useTranslation();
+
+  return (
+    <div className="space-y-3">
+      <label className="text-sm font-medium text-neutral-700">{t('transcript_export.format_label')}</label>
+      <div className="space-y-2">
+        {FORMATS.map((format) => (
+          <label
+            key={format}
+            className="flex items-start p-3 border border-neutral-200 rounded-lg cursor-pointer hover:bg-neutral-50 transition-colors"
+          >
+            <input
+              type="radio"
+              value={format}
+              checked={value === format}
+              onChange={() => onChange(format)}
+              className="mt-0.5 ltr:mr-3 rtl:ml-3"
+              disabled={disabled}
+            />
+            <div>
+              <div className="font-medium text-neutral-900">{t(`transcript_export.format_${format}_title`)}</div>
+              <div className="text-sm text-neutral-600">{t(`transcript_export.format_${format}_description`)}</div>
+            </div>
+          </label>
+        ))}
+      </div>
+    </div>
+  );
+}
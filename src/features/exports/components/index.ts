@@ -1,2 +1,5 @@
+export { ExportKnowledgeBaseModal } from './ExportKnowledgeBaseModal';
 export { ExportLeadsModal } from './ExportLeadsModal';
 export { ExportProgressModal } from './ExportProgressModal';
+export { ExportTranscriptsModal } from './ExportTranscriptsModal';
+export { TranscriptFormatPicker } from './TranscriptFormatPicker';
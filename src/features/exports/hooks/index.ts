@@ -1,2 +1,6 @@
-export { useCreateExportMutation } from './useCreateExportMutation';
+export {
+  useCreateExportMutation,
+  useCreateTranscriptExportMutation,
+  useCreateKnowledgeBaseExportMutation,
+} from './useCreateExportMutation';
 export { useExportStatus } from './useExportStatus';
@@ -1,9 +1,25 @@
 import { useMutation } from '@tanstack/react-query';
 import { exportService } from '../services/exportService';
-import type { CreateExportRequest } from '../types/export.types';
+import type {
+  CreateExportRequest,
+  CreateKnowledgeBaseExportRequest,
+  CreateTranscriptExportRequest,
+} from '../types/export.types';
 
 export function useCreateExportMutation() {
   return useMutation({
     mutationFn: (request: CreateExportRequest) => exportService.createLeadsExport(request),
   });
 }
+
+export function useCreateTranscriptExportMutation() {
+  return useMutation({
+    mutationFn: (request: CreateTranscriptExportRequest) => exportService.createTranscriptsExport(request),
+  });
+}
+
+export function useCreateKnowledgeBaseExportMutation() {
+  return useMutation({
+    mutationFn: (request: CreateKnowledgeBaseExportRequest) => exportService.createKnowledgeBaseExport(request),
+  });
+}
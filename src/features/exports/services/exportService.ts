@@ -1,5 +1,11 @@
 import api from '@/lib/api';
-import type { CreateExportRequest, ExportJobStatus, CreateExportResponse } from '../types/export.types';
+import type {
+  CreateExportRequest,
+  CreateTranscriptExportRequest,
+  CreateKnowledgeBaseExportRequest,
+  ExportJobStatus,
+  CreateExportResponse,
+} from '../types/export.types';
 
 export const exportService = {
   /**
@@ -10,6 +16,22 @@ export const exportService = {
     return response.data;
   },
 
+  /**
+   * Create a bulk conversation transcripts export job (zip)
+   */
+  createTranscriptsExport: async (request: CreateTranscriptExportRequest): Promise<CreateExportResponse> => {
+    const response = await api.post<CreateExportResponse>('/api/export/transcripts', request);
+    return response.data;
+  },
+
+  /**
+   * Create a knowledge base export job (CSV, JSON or zipped Markdown)
+   */
+  createKnowledgeBaseExport: async (request: CreateKnowledgeBaseExportRequest): Promise<CreateExportResponse> => {
+    const response = await api.post<CreateExportResponse>('/api/export/knowledge-bases', request);
+    return response.data;
+  },
+
   /**
    * Get the status of an export job
    */
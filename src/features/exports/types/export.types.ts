@@ -1,3 +1,5 @@
+import type { TranscriptFormat } from '@/features/conversations/types';
+
 export interface CreateExportRequest {
   agent_id: string;
   format: 'xlsx' | 'csv' | 'json';
@@ -7,6 +9,28 @@ export interface CreateExportRequest {
   date_to?: string;
 }
 
+/** Bulk conversation transcripts — the job produces a zip with one file per conversation */
+export interface CreateTranscriptExportRequest {
+  agent_id: string;
+  conversation_ids: string[];
+  format: TranscriptFormat;
+  /** Language and IANA timezone the transcripts are rendered in (labels, RTL, timestamps) */
+  language: string;
+  timezone: string;
+}
+
+/** Markdown bundles are a zip with one `.md` file (front matter + content) per entry */
+export type KnowledgeExportFormat = 'csv' | 'json' | 'markdown_zip';
+
+/**
+ * All knowledge base entries linked to an agent (name, content, tags,
+ * source type and URL). The same formats are accepted by the knowledge import.
+ */
+export interface CreateKnowledgeBaseExportRequest {
+  agent_id: string;
+  format: KnowledgeExportFormat;
+}
+
 export interface ExportJobStatus {
   job_id: string;
   status: 'pending' | 'processing' | 'completed' | 'failed';
@@ -0,0 +1,290 @@
+/**
+ * Command Palette (Cmd/Ctrl+K)
+ * Jump to a page, a conversation of the selected agent, another agent, or
+ * insert a saved message into the reply composer.
+ * Conversations and agents are searched server-side; pages and saved messages
+ * are filtered locally.
+ */
+
+import { useEffect, useMemo, useRef, useState } from 'react';
+import { createPortal } from 'react-dom';
+import { useLocation, useNavigate } from 'react-router-dom';
+import { useTranslation } from 'react-i18next';
+import { motion, AnimatePresence } from 'framer-motion';
+import { Bookmark, Bot, Check, CornerDownLeft, Loader2, Search } from 'lucide-react';
+import { cn } from '@/lib/utils';
+import { Avatar } from '@/components/ui/Avatar';
+import { navigation, isNavigationItemVisible } from '@/components/layout/sidebar/navigation.config';
+import { useAuthStore } from '@/features/auth/stores/authStore';
+import { Role } from '@/features/auth/types/auth.types';
+import { useSubscriptionStore } from '@/features/subscriptions/stores/subscriptionStore';
+import { useAgentStore } from '@/features/agents/stores/agentStore';
+import { useInfiniteAgents } from '@/features/agents/hooks/useInfiniteAgents';
+import { useInfiniteConversations } from '@/features/conversations/hooks/useInfiniteConversations';
+import { useComposerStore } from '@/features/conversations/stores/composerStore';
+import { OPEN_CONVERSATION_SEARCH_PARAM } from '@/features/conversations/constants/chatConstants';
+import { useSavedMessages } from '@/features/saved-messages/hooks/useSavedMessages';
+import { useShortcutStore } from '../stores/shortcutStore';
+
+const DEBOUNCE_MS = 250;
+const MAX_PER_GROUP = 6;
+
+type PaletteGroup = 'pages' | 'conversations' | 'agents' | 'saved_messages';
+
+const GROUP_ORDER: PaletteGroup[] = ['pages', 'conversations', 'agents', 'saved_messages'];
+
+interface PaletteItem {
+  id: string;
+  group: PaletteGroup;
+  label: string;
+  description?: string;
+  icon: React.ReactNode;
+  isCurrent?: boolean;
+  onSelect: () => void;
+}
+
+export function CommandPalette() {
+  const isOpen = useShortcutStore((state) => state.isCommandPaletteOpen);
+  const setOpen = useShortcutStore((state) => state.setCommandPaletteOpen);
+
+  return createPortal(
+    <AnimatePresence>
+      {isOpen && <CommandPaletteDialog onClose={() => setOpen(false)} />}
+    </AnimatePresence>,
+    document.body
+  );
+}
+
+// --- Helper Components ---
+
+function CommandPaletteDialog({ onClose }: { onClose: () => void }) {
+  const { t } = useTranslation();
+  const navigate = useNavigate();
+  const location = useLocation();
+  const inputRef = useRef<HTMLInputElement>(null);
+  const listRef = useRef<HTMLDivElement>(null);
+
+  const [query, setQuery] = useState('');
+  const [debouncedQuery, setDebouncedQuery] = useState('');
+  const [activeIndex, setActiveIndex] = useState(0);
+
+  useEffect(() => {
+    const timer = setTimeout(() => setDebouncedQuery(query.trim()), DEBOUNCE_MS);
+    return () => clearTimeout(timer);
+  }, [query]);
+
+  const user = useAuthStore((state) => state.user);
+  const planCode = useSubscriptionStore((state) => state.subscription?.planCode);
+  const globalSelectedAgent = useAgentStore((state) => state.globalSelectedAgent);
+  const switchAgent = useAgentStore((state) => state.switchAgent);
+  const requestSavedMessageInsert = useComposerStore((state) => state.requestSavedMessageInsert);
+  const agentId = globalSelectedAgent?.id;
+
+  const { conversations, isLoading: isLoadingConversations } = useInfiniteConversations(
+    agentId ? { agentId, searchTerm: debouncedQuery || undefined } : undefined
+  );
+  const { agents, isLoading: isLoadingAgents } = useInfiniteAgents({
+    searchTerm: debouncedQuery || undefined,
+  });
+  const { data: savedMessages = [] } = useSavedMessages(agentId);
+
+  const isSearching = query.trim() !== debouncedQuery || isLoadingConversations || isLoadingAgents;
+
+  const items = useMemo<PaletteItem[]>(() => {
+    const needle = query.trim().toLowerCase();
+    const matches = (...values: (string | null | undefined)[]) =>
+      !needle || values.some((v) => v?.toLowerCase().includes(needle));
+
+    const pages: PaletteItem[] = navigation
+      .filter((item) => item.href && isNavigationItemVisible(item, { isSuperAdmin: user?.role === Role.SuperAdmin, planCode }))
+      .filter((item) => !item.requiresAgent || !!agentId)
+      .map((item) => {
+        const Icon = item.icon;
+        return {
+          id: `page-${item.href}`,
+          group: 'pages' as const,
+          label: item.translationKey ? t(item.translationKey, { defaultValue: item.name }) : item.name,
+          description: item.href,
+          icon: <Icon className="w-4 h-4" />,
+          isCurrent: location.pathname === item.href,
+          onSelect: () => navigate(item.href!),
+        };
+      })
+      .filter((item) => matches(item.label, item.description))
+      .slice(0, MAX_PER_GROUP);
+
+    const conversationItems: PaletteItem[] = (agentId ? conversations : [])
+      .slice(0, MAX_PER_GROUP)
+      .map((conversation) => ({
+        id: `conversation-${conversation.id}`,
+        group: 'conversations' as const,
+        label: conversation.customer_name || t('command_palette.unknown_customer'),
+        description: conversation.last_message,
+        icon: <Avatar size="sm" name={conversation.customer_name} className="!w-6 !h-6 !text-[10px]" />,
+        onSelect: () => navigate(`/conversations?${OPEN_CONVERSATION_SEARCH_PARAM}=${conversation.id}`),
+      }));
+
+    const agentItems: PaletteItem[] = agents.slice(0, MAX_PER_GROUP).map((agent) => ({
+      id: `agent-${agent.id}`,
+      group: 'agents' as const,
+      label: agent.name,
+      description: agent.organizationName ?? undefined,
+      icon: agent.avatarUrl ? (
+        <img src={agent.avatarUrl} alt="" className="w-6 h-6 rounded-full object-cover" />
+      ) : (
+        <Bot className="w-4 h-4" />
+      ),
+      isCurrent: agent.id === agentId,
+      onSelect: () => {
+        if (agent.id !== agentId) switchAgent(agent.id);
+      },
+    }));
+
+    const savedMessageItems: PaletteItem[] = savedMessages
+      .filter((m) => m.isActive && matches(m.title, m.shortcut, m.content))
+      .slice(0, MAX_PER_GROUP)
+      .map((m) => ({
+        id: `saved-${m.id}`,
+        group: 'saved_messages' as const,
+        label: m.title,
+        description: m.content,
+        icon: <Bookmark className="w-4 h-4" />,
+        onSelect: () => {
+          requestSavedMessageInsert(m);
+          if (location.pathname !== '/conversations') navigate('/conversations');
+        },
+      }));
+
+    return [...pages, ...conversationItems, ...agentItems, ...savedMessageItems];
+  }, [query, user?.role, planCode, agentId, conversations, agents, savedMessages, location.pathname, t, navigate, switchAgent, requestSavedMessageInsert]);
+
+  // Keep the highlight inside the list as results change
+  useEffect(() => {
+    setActiveIndex(0);
+  }, [debouncedQuery]);
+
+  useEffect(() => {
+    listRef.current
+      ?.querySelector(`[data-palette-index="${activeIndex}"]`)
+      ?.scrollIntoView({ block: 'nearest' });
+  }, [activeIndex]);
+
+  const runItem = (item: PaletteItem | undefined) => {
+    if (!item) return;
+    onClose();
+    item.onSelect();
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (e.key === 'ArrowDown' || e.key === 'ArrowUp') {
+      e.preventDefault();
+      if (items.length === 0) return;
+      const delta = e.key === 'ArrowDown' ? 1 : -1;
+      setActiveIndex((i) => (i + delta + items.length) % items.length);
+    } else if (e.key === 'Enter' && !e.nativeEvent.isComposing) {
+      e.preventDefault();
+      runItem(items[activeIndex]);
+    } else if (e.key === 'Escape') {
+      e.preventDefault();
+      onClose();
+    }
+  };
+
+  return (
+    <>
+      <motion.div
+        initial={{ opacity: 0 }}
+        animate={{ opacity: 1 }}
+        exit={{ opacity: 0 }}
+        transition={{ duration: 0.15 }}
+        className="fixed inset-0 bg-black/40 backdrop-blur-sm z-[9999]"
+        onClick={onClose}
+      />
+      <div className="fixed inset-0 z-[9999] flex items-start justify-center p-4 pt-[12vh]" onClick={onClose}>
+        <motion.div
+          initial={{ opacity: 0, scale: 0.97, y: -8 }}
+          animate={{ opacity: 1, scale: 1, y: 0 }}
+          exit={{ opacity: 0, scale: 0.97, y: -8 }}
+          transition={{ duration: 0.15 }}
+          className="w-full max-w-xl bg-white rounded-xl shadow-2xl overflow-hidden flex flex-col max-h-[70vh]"
+          onClick={(e) => e.stopPropagation()}
+          role="dialog"
+          aria-modal="true"
+          aria-label={t('command_palette.title')}
+        >
+          {/* Search */}
+          <div className="flex items-center gap-2 px-4 border-b border-neutral-200">
+            <Search className="w-4 h-4 text-neutral-400 flex-shrink-0" />
+            <input
+              ref={inputRef}
+              autoFocus
+              value={query}
+              onChange={(e) => setQuery(e.target.value)}
+              onKeyDown={handleKeyDown}
+              placeholder={t('command_palette.placeholder')}
+              className="flex-1 py-3.5 text-sm bg-transparent focus:outline-none placeholder:text-neutral-400"
+              role="combobox"
+              aria-expanded="true"
+              aria-controls="command-palette-results"
+              aria-activedescendant={items[activeIndex] ? `palette-item-${activeIndex}` : undefined}
+            />
+            {isSearching && <Loader2 className="w-4 h-4 animate-spin text-neutral-400 flex-shrink-0" />}
+          </div>
+
+          {/* Results */}
+          <div ref={listRef} id="command-palette-results" role="listbox" className="flex-1 overflow-y-auto py-2">
+            {items.length === 0 ? (
+              <p className="px-4 py-8 text-center text-sm text-neutral-500">
+                {isSearching ? t('common.loading') : t('command_palette.no_results')}
+              </p>
+            ) : (
+              GROUP_ORDER.map((group) => {
+                const groupItems = items.filter((item) => item.group === group);
+                if (groupItems.length === 0) return null;
+                return (
+                  <div key={group} className="pb-1">
+                    <p className="px-4 pt-2 pb-1 text-[11px] font-medium uppercase tracking-wider text-neutral-400">
+                      {t(`command_palette.group_${group}`)}
+                    </p>
+                    {groupItems.map((item) => {
+                      const index = items.indexOf(item);
+                      const isActive = index === activeIndex;
+                      return (
+                        <button
+                          key={item.id}
+                          id={`palette-item-${index}`}
+                          type="button"
+                          role="option"
+                          aria-selected={isActive}
+                          data-palette-index={index}
+                          onClick={() => runItem(item)}
+                          onMouseMove={() => setActiveIndex(index)}
+                          className={cn(
+                            'w-full flex items-center gap-3 px-4 py-2 text-start',
+                            isActive ? 'bg-neutral-100' : 'hover:bg-neutral-50'
+                          )}
+                        >
+                          <span className="w-6 h-6 flex items-center justify-center text-neutral-500 flex-shrink-0">
+                            {item.icon}
+                          </span>
+                          <span className="flex-1 min-w-0">
+                            <span className="block text-sm text-neutral-900 truncate">{item.label}</span>
+                            {item.description && (
+                              <span className="block text-xs text-neutral-500 truncate">{item.description}</span>
+                            )}
+                          </span>
+                          {item.isCurrent && <Check className="w-3.5 h-3.5 text-neutral-500 flex-shrink-0" />}
+                          {isActive && <CornerDownLeft className="w-3.5 h-3.5 text-neutral-400 flex-shrink-0" />}
+                        </button>
+                      );
+                    })}
+                  </div>
+                );
+              })
+            )}
+          </div>
+        </motion.div>
+      </div>
+    </>
+  );
+}
@@ -0,0 +1,29 @@
+/**
+ * Global Shortcuts
+ * Dashboard-wide shortcuts (command palette, cheat sheet) and their overlays.
+ * Mounted once in DashboardLayout; page shortcuts live with their pages.
+ */
+
+import { useKeyboardShortcuts } from '../hooks/useKeyboardShortcuts';
+import { useShortcutStore } from '../stores/shortcutStore';
+import { CommandPalette } from './CommandPalette';
+import { ShortcutsHelpModal } from './ShortcutsHelpModal';
+
+export function GlobalShortcuts() {
+  const isCommandPaletteOpen = useShortcutStore((state) => state.isCommandPaletteOpen);
+  const isShortcutHelpOpen = useShortcutStore((state) => state.isShortcutHelpOpen);
+  const setCommandPaletteOpen = useShortcutStore((state) => state.setCommandPaletteOpen);
+  const setShortcutHelpOpen = useShortcutStore((state) => state.setShortcutHelpOpen);
+
+  useKeyboardShortcuts({
+    command_palette: () => setCommandPaletteOpen(!isCommandPaletteOpen),
+    show_shortcuts: () => setShortcutHelpOpen(!isShortcutHelpOpen),
+  });
+
+  return (
+    <>
+      <CommandPalette />
+      <ShortcutsHelpModal />
+    </>
+  );
+}
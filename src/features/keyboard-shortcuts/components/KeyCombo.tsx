@@ -0,0 +1,28 @@
+/**
+ * Key Combo
+ * Renders a combo string as keycaps, e.g. `mod+k` → [⌘] [K]
+ */
+
+import { cn } from '@/lib/utils';
+import { formatCombo } from '../utils/keyCombo';
+
+interface KeyComboProps {
+  combo: string;
+  isMac: boolean;
+  className?: string;
+}
+
+export function KeyCombo({ combo, isMac, className }: KeyComboProps) {
+  return (
+    <span className={cn('inline-flex items-center gap-1', className)}>
+      {formatCombo(combo, isMac).map((key, index) => (
+        <kbd
+          key={index}
+          className="min-w-[1.5rem] px-1.5 py-0.5 rounded border border-neutral-200 bg-neutral-50 text-[11px] font-medium text-neutral-700 text-center font-sans"
+        >
+          {key}
+        </kbd>
+      ))}
+    </span>
+  );
+}
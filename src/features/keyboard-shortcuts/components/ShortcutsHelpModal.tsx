@@ -0,0 +1,155 @@
+/**
+ * Keyboard Shortcuts Cheat Sheet
+ * Lists every shortcut with its current binding. Each binding can be remapped
+ * (click, then press the new combo) and reset; changes are saved per user.
+ */
+
+import { useEffect, useState } from 'react';
+import { useTranslation } from 'react-i18next';
+import { RotateCcw } from 'lucide-react';
+import { cn } from '@/lib/utils';
+import { BaseModal } from '@/components/ui/BaseModal';
+import { useAuthStore } from '@/features/auth/stores/authStore';
+import { SHORTCUT_DEFINITIONS } from '../constants/shortcuts';
+import { useShortcutStore } from '../stores/shortcutStore';
+import { useShortcutBindings } from '../hooks/useKeyboardShortcuts';
+import { eventToCombo, findConflictingAction, IS_MAC } from '../utils/keyCombo';
+import type { ShortcutActionId, ShortcutScope } from '../types/shortcut.types';
+import { KeyCombo } from './KeyCombo';
+
+const SCOPES: ShortcutScope[] = ['global', 'conversations'];
+
+export function ShortcutsHelpModal() {
+  const { t } = useTranslation();
+  const isOpen = useShortcutStore((state) => state.isShortcutHelpOpen);
+  const setOpen = useShortcutStore((state) => state.setShortcutHelpOpen);
+  const setBinding = useShortcutStore((state) => state.setBinding);
+  const resetBinding = useShortcutStore((state) => state.resetBinding);
+  const resetAllBindings = useShortcutStore((state) => state.resetAllBindings);
+  const userId = useAuthStore((state) => state.user?.id);
+  const bindings = useShortcutBindings();
+
+  const [recordingId, setRecordingId] = useState<ShortcutActionId | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  // Close resets any in-progress recording
+  useEffect(() => {
+    if (!isOpen) {
+      setRecordingId(null);
+      setError(null);
+    }
+  }, [isOpen]);
+
+  // While recording, capture the next combo before any other listener sees it
+  useEffect(() => {
+    if (!recordingId || !userId) return;
+
+    const handleKeyDown = (event: KeyboardEvent) => {
+      event.preventDefault();
+      event.stopPropagation();
+
+      if (event.key === 'Escape') {
+        setRecordingId(null);
+        return;
+      }
+      const combo = eventToCombo(event);
+      if (!combo) return; // bare modifier — keep waiting for the key
+
+      const conflict = findConflictingAction(bindings, recordingId, combo);
+      if (conflict) {
+        setError(t('keyboard_shortcuts.conflict', { action: t(`keyboard_shortcuts.actions.${conflict}`) }));
+        return;
+      }
+      setBinding(userId, recordingId, combo);
+      setRecordingId(null);
+      setError(null);
+    };
+
+    window.addEventListener('keydown', handleKeyDown, { capture: true });
+    return () => window.removeEventListener('keydown', handleKeyDown, { capture: true });
+  }, [recordingId, userId, bindings, setBinding, t]);
+
+  const hasOverrides = SHORTCUT_DEFINITIONS.some((d) => bindings[d.id] !== d.defaultCombo);
+
+  return (
+    <BaseModal
+      isOpen={isOpen}
+      onClose={() => setOpen(false)}
+      title={t('keyboard_shortcuts.title')}
+      subtitle={t('keyboard_shortcuts.subtitle')}
+      maxWidth="lg"
+    >
+      <div className="space-y-5">
+        {SCOPES.map((scope) => (
+          <div key={scope}>
+            <h4 className="text-xs font-medium text-neutral-500 uppercase tracking-wider mb-2">
+              {t(`keyboard_shortcuts.scope_${scope}`)}
+            </h4>
+            <div className="divide-y divide-neutral-100">
+              {SHORTCUT_DEFINITIONS.filter((d) => d.scope === scope).map((definition) => {
+                const isRecording = recordingId === definition.id;
+                const isCustom = bindings[definition.id] !== definition.defaultCombo;
+                return (
+                  <div key={definition.id} className="flex items-center justify-between gap-3 py-2">
+                    <span className="text-sm text-neutral-700">
+                      {t(`keyboard_shortcuts.actions.${definition.id}`)}
+                    </span>
+                    <div className="flex items-center gap-1.5">
+                      {isCustom && userId && !isRecording && (
+                        <button
+                          type="button"
+                          onClick={() => resetBinding(userId, definition.id)}
+                          className="p-1 rounded text-neutral-400 hover:text-neutral-900 hover:bg-neutral-100"
+                          title={t('keyboard_shortcuts.reset')}
+                          aria-label={t('keyboard_shortcuts.reset')}
+                        >
+                          <RotateCcw className="w-3.5 h-3.5" />
+                        </button>
+                      )}
+                      <button
+                        type="button"
+                        disabled={!userId}
+                        onClick={() => {
+                          setError(null);
+                          setRecordingId(isRecording ? null : definition.id);
+                        }}
+                        className={cn(
+                          'min-w-[4.5rem] flex justify-center px-2 py-1 rounded-md border transition-colors',
+                          isRecording
+                            ? 'border-brand-mojeeb bg-brand-mojeeb/5 text-xs text-brand-mojeeb'
+                            : 'border-transparent hover:border-neutral-200'
+                        )}
+                        title={t('keyboard_shortcuts.change')}
+                      >
+                        {isRecording ? (
+                          t('keyboard_shortcuts.press_keys')
+                        ) : (
+                          <KeyCombo combo={bindings[definition.id]} isMac={IS_MAC} />
+                        )}
+                      </button>
+                    </div>
+                  </div>
+                );
+              })}
+            </div>
+          </div>
+        ))}
+
+        {error && <p className="text-xs text-red-600">{error}</p>}
+
+        <div className="flex items-center justify-between pt-1">
+          <p className="text-xs text-neutral-500">{t('keyboard_shortcuts.typing_hint')}</p>
+          {hasOverrides && userId && (
+            <button
+              type="button"
+              onClick={() => resetAllBindings(userId)}
+              className="text-xs text-brand-mojeeb hover:underline whitespace-nowrap"
+            >
+              {t('keyboard_shortcuts.reset_all')}
+            </button>
+          )}
+        </div>
+      </div>
+    </BaseModal>
+  );
+}
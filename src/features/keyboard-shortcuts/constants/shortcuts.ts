@@ -0,0 +1,19 @@
+/**
+ * Keyboard Shortcuts — default bindings
+ * Order matters - actions appear in this order in the cheat sheet.
+ * Labels come from `keyboard_shortcuts.actions.<id>`.
+ */
+
+import type { ShortcutDefinition } from '../types/shortcut.types';
+
+export const SHORTCUT_DEFINITIONS: ShortcutDefinition[] = [
+  { id: 'command_palette', scope: 'global', defaultCombo: 'mod+k' },
+  { id: 'show_shortcuts', scope: 'global', defaultCombo: '?' },
+  { id: 'conversation_next', scope: 'conversations', defaultCombo: 'j' },
+  { id: 'conversation_prev', scope: 'conversations', defaultCombo: 'k' },
+  { id: 'reply', scope: 'conversations', defaultCombo: 'r' },
+  { id: 'resolve', scope: 'conversations', defaultCombo: 'e' },
+  { id: 'mark_unread', scope: 'conversations', defaultCombo: 'u' },
+  { id: 'toggle_pin', scope: 'conversations', defaultCombo: 'p' },
+  { id: 'focus_search', scope: 'conversations', defaultCombo: '/' },
+];
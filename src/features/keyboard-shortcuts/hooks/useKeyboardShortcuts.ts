@@ -0,0 +1,68 @@
+/**
+ * Keyboard shortcut hooks
+ *
+ * Usage:
+ *   useKeyboardShortcuts({
+ *     conversation_next: () => selectNext(),
+ *     focus_search: () => searchRef.current?.focus(),
+ *   });
+ *
+ * Bindings are resolved per user (defaults + overrides from the shortcut store).
+ * Single-key combos never fire while focus is in an input, textarea or
+ * contenteditable (e.g. the message composer); mod/alt combos always do.
+ */
+
+import { useEffect, useMemo, useRef } from 'react';
+import { useAuthStore } from '@/features/auth/stores/authStore';
+import { SHORTCUT_DEFINITIONS } from '../constants/shortcuts';
+import { useShortcutStore } from '../stores/shortcutStore';
+import { eventToCombo, hasCommandModifier, isEditableTarget, resolveBindings } from '../utils/keyCombo';
+import type { ShortcutActionId, ShortcutBindings } from '../types/shortcut.types';
+
+type ShortcutHandlers = Partial<Record<ShortcutActionId, (event: KeyboardEvent) => void>>;
+
+/**
+ * Effective bindings for the signed-in user
+ */
+export function useShortcutBindings(): ShortcutBindings {
+  const userId = useAuthStore((state) => state.user?.id);
+  const overrides = useShortcutStore((state) => (userId ? state.overridesByUser[userId] : undefined));
+  return useMemo(() => resolveBindings(overrides), [overrides]);
+}
+
+export function useKeyboardShortcuts(handlers: ShortcutHandlers, enabled = true) {
+  const bindings = useShortcutBindings();
+
+  // Latest handlers without re-binding the listener on every render
+  const handlersRef = useRef(handlers);
+  useEffect(() => {
+    handlersRef.current = handlers;
+  });
+
+  useEffect(() => {
+    if (!enabled) return;
+
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (event.defaultPrevented || event.isComposing) return;
+
+      const combo = eventToCombo(event);
+      if (!combo) return;
+      if (isEditableTarget(event.target) && !hasCommandModifier(combo)) return;
+
+      const definition = SHORTCUT_DEFINITIONS.find(
+        (d) => bindings[d.id] === combo && handlersRef.current[d.id]
+      );
+      if (!definition) return;
+
+      // Page shortcuts stay quiet while the palette or cheat sheet is on top
+      const { isCommandPaletteOpen, isShortcutHelpOpen } = useShortcutStore.getState();
+      if (definition.scope !== 'global' && (isCommandPaletteOpen || isShortcutHelpOpen)) return;
+
+      event.preventDefault();
+      handlersRef.current[definition.id]?.(event);
+    };
+
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [bindings, enabled]);
+}
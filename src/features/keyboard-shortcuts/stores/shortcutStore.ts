@@ -0,0 +1,66 @@
+/**
+ * Keyboard Shortcut Store - Zustand
+ *
+ * Persists each user's remapped bindings (keyed by user id, so a shared browser
+ * keeps separate layouts) and holds the open state of the command palette and
+ * the shortcut cheat sheet.
+ */
+import { create } from 'zustand';
+import { persist } from 'zustand/middleware';
+import type { ShortcutActionId, ShortcutOverrides } from '../types/shortcut.types';
+
+interface ShortcutState {
+  overridesByUser: Record<string, ShortcutOverrides>;
+  isCommandPaletteOpen: boolean;
+  isShortcutHelpOpen: boolean;
+
+  // Actions
+  setBinding: (userId: string, actionId: ShortcutActionId, combo: string) => void;
+  resetBinding: (userId: string, actionId: ShortcutActionId) => void;
+  resetAllBindings: (userId: string) => void;
+  setCommandPaletteOpen: (open: boolean) => void;
+  setShortcutHelpOpen: (open: boolean) => void;
+}
+
+export const useShortcutStore = create<ShortcutState>()(
+  persist(
+    (set) => ({
+      overridesByUser: {},
+      isCommandPaletteOpen: false,
+      isShortcutHelpOpen: false,
+
+      setBinding: (userId, actionId, combo) =>
+        set((state) => ({
+          overridesByUser: {
+            ...state.overridesByUser,
+            [userId]: { ...state.overridesByUser[userId], [actionId]: combo },
+          },
+        })),
+
+      resetBinding: (userId, actionId) =>
+        set((state) => {
+          const next = { ...state.overridesByUser[userId] };
+          delete next[actionId];
+          return { overridesByUser: { ...state.overridesByUser, [userId]: next } };
+        }),
+
+      resetAllBindings: (userId) =>
+        set((state) => {
+          const next = { ...state.overridesByUser };
+          delete next[userId];
+          return { overridesByUser: next };
+        }),
+
+      // Only one overlay at a time — opening one closes the other
+      setCommandPaletteOpen: (open) =>
+        set(open ? { isCommandPaletteOpen: true, isShortcutHelpOpen: false } : { isCommandPaletteOpen: false }),
+
+      setShortcutHelpOpen: (open) =>
+        set(open ? { isShortcutHelpOpen: true, isCommandPaletteOpen: false } : { isShortcutHelpOpen: false }),
+    }),
+    {
+      name: 'mojeeb-keyboard-shortcuts',
+      partialize: (state) => ({ overridesByUser: state.overridesByUser }),
+    }
+  )
+);
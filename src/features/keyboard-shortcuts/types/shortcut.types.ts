@@ -0,0 +1,30 @@
+/**
+ * Keyboard Shortcuts — types
+ * A binding is a normalized combo string such as `j`, `shift+j`, `?` or `mod+k`
+ * (`mod` = Cmd on macOS, Ctrl elsewhere). See utils/keyCombo.ts.
+ */
+
+export type ShortcutActionId =
+  | 'command_palette'
+  | 'show_shortcuts'
+  | 'conversation_next'
+  | 'conversation_prev'
+  | 'reply'
+  | 'resolve'
+  | 'mark_unread'
+  | 'toggle_pin'
+  | 'focus_search';
+
+/** `global` works on every dashboard page; `conversations` only on the inbox */
+export type ShortcutScope = 'global' | 'conversations';
+
+export interface ShortcutDefinition {
+  id: ShortcutActionId;
+  scope: ShortcutScope;
+  defaultCombo: string;
+}
+
+export type ShortcutBindings = Record<ShortcutActionId, string>;
+
+/** Per-user overrides; actions without an entry use their default combo */
+export type ShortcutOverrides = Partial<Record<ShortcutActionId, string>>;
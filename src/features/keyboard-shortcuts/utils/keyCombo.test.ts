@@ -0,0 +1,89 @@
+import { describe, it, expect } from 'vitest';
+import {
+  eventToCombo,
+  findConflictingAction,
+  formatCombo,
+  hasCommandModifier,
+  resolveBindings,
+} from './keyCombo';
+
+const key = (k: string, mods: Partial<{ ctrlKey: boolean; metaKey: boolean; altKey: boolean; shiftKey: boolean }> = {}) => ({
+  key: k,
+  ctrlKey: false,
+  metaKey: false,
+  altKey: false,
+  shiftKey: false,
+  ...mods,
+});
+
+describe('keyCombo', () => {
+  describe('eventToCombo', () => {
+    it('should lowercase single letters', () => {
+      expect(eventToCombo(key('j'))).toBe('j');
+    });
+
+    it('should keep shift for letters', () => {
+      expect(eventToCombo(key('J', { shiftKey: true }))).toBe('shift+j');
+    });
+
+    it('should drop shift for symbols produced with shift', () => {
+      expect(eventToCombo(key('?', { shiftKey: true }))).toBe('?');
+    });
+
+    it('should treat Ctrl and Cmd as the same "mod" modifier', () => {
+      expect(eventToCombo(key('k', { metaKey: true }))).toBe('mod+k');
+      expect(eventToCombo(key('k', { ctrlKey: true }))).toBe('mod+k');
+    });
+
+    it('should return null for a bare modifier press', () => {
+      expect(eventToCombo(key('Shift', { shiftKey: true }))).toBeNull();
+      expect(eventToCombo(key('Meta', { metaKey: true }))).toBeNull();
+    });
+
+    it('should name the space bar', () => {
+      expect(eventToCombo(key(' '))).toBe('space');
+    });
+  });
+
+  describe('formatCombo', () => {
+    it('should use platform symbols', () => {
+      expect(formatCombo('mod+k', true)).toEqual(['⌘', 'K']);
+      expect(formatCombo('mod+k', false)).toEqual(['Ctrl', 'K']);
+      expect(formatCombo('/', false)).toEqual(['/']);
+    });
+  });
+
+  describe('hasCommandModifier', () => {
+    it('should detect mod/alt combos', () => {
+      expect(hasCommandModifier('mod+k')).toBe(true);
+      expect(hasCommandModifier('alt+j')).toBe(true);
+      expect(hasCommandModifier('shift+j')).toBe(false);
+      expect(hasCommandModifier('j')).toBe(false);
+    });
+  });
+
+  describe('resolveBindings', () => {
+    it('should apply overrides over defaults', () => {
+      const bindings = resolveBindings({ conversation_next: 'arrowdown' });
+      expect(bindings.conversation_next).toBe('arrowdown');
+      expect(bindings.conversation_prev).toBe('k');
+      expect(bindings.command_palette).toBe('mod+k');
+    });
+  });
+
+  describe('findConflictingAction', () => {
+    const bindings = resolveBindings(undefined);
+
+    it('should report an action in the same scope using the combo', () => {
+      expect(findConflictingAction(bindings, 'reply', 'e')).toBe('resolve');
+    });
+
+    it('should report a global shortcut as a conflict for scoped actions', () => {
+      expect(findConflictingAction(bindings, 'reply', '?')).toBe('show_shortcuts');
+    });
+
+    it('should ignore the action being rebound', () => {
+      expect(findConflictingAction(bindings, 'reply', 'r')).toBeNull();
+    });
+  });
+});
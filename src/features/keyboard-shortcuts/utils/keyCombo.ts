@@ -0,0 +1,112 @@
+/**
+ * Key combo helpers
+ * Combos are normalized to `[mod+][alt+][shift+]key`, lowercase. Shift is only
+ * kept for letters — for symbols the produced character already encodes it
+ * (`?` rather than `shift+/`), which keeps bindings layout-friendly.
+ */
+
+import { SHORTCUT_DEFINITIONS } from '../constants/shortcuts';
+import type {
+  ShortcutActionId,
+  ShortcutBindings,
+  ShortcutOverrides,
+} from '../types/shortcut.types';
+
+/** Cmd vs Ctrl labels in the cheat sheet; the binding itself (`mod`) is the same */
+export const IS_MAC = typeof navigator !== 'undefined' && /mac|iphone|ipad/i.test(navigator.userAgent);
+
+const MODIFIER_KEYS = new Set(['shift', 'control', 'meta', 'alt', 'altgraph', 'capslock', 'os']);
+
+type KeyLikeEvent = Pick<KeyboardEvent, 'key' | 'ctrlKey' | 'metaKey' | 'altKey' | 'shiftKey'>;
+
+/**
+ * Normalize a keyboard event to a combo string, or null for a bare modifier press
+ */
+export function eventToCombo(event: KeyLikeEvent): string | null {
+  if (!event.key) return null;
+  const rawKey = event.key === ' ' ? 'space' : event.key.toLowerCase();
+  if (MODIFIER_KEYS.has(rawKey)) return null;
+
+  const isSymbol = event.key.length === 1 && !/[a-z]/i.test(event.key);
+  const parts: string[] = [];
+  if (event.ctrlKey || event.metaKey) parts.push('mod');
+  if (event.altKey) parts.push('alt');
+  if (event.shiftKey && !isSymbol) parts.push('shift');
+  parts.push(rawKey);
+
+  return parts.join('+');
+}
+
+/**
+ * Split a combo into display keycaps, e.g. `mod+k` → ['⌘', 'K'] on macOS
+ */
+export function formatCombo(combo: string, isMac: boolean): string[] {
+  return combo.split('+').map((part) => {
+    switch (part) {
+      case 'mod':
+        return isMac ? '⌘' : 'Ctrl';
+      case 'alt':
+        return isMac ? '⌥' : 'Alt';
+      case 'shift':
+        return isMac ? '⇧' : 'Shift';
+      case 'space':
+        return 'Space';
+      case 'arrowup':
+        return '↑';
+      case 'arrowdown':
+        return '↓';
+      default:
+        return part.length === 1 ? part.toUpperCase() : part.charAt(0).toUpperCase() + part.slice(1);
+    }
+  });
+}
+
+/**
+ * True when the event target is somewhere the user types (inputs, textareas,
+ * contenteditable). Single-key shortcuts must not fire there.
+ */
+export function isEditableTarget(target: EventTarget | null): boolean {
+  if (!(target instanceof HTMLElement)) return false;
+  if (target.isContentEditable) return true;
+  if (target instanceof HTMLTextAreaElement || target instanceof HTMLSelectElement) return true;
+  if (target instanceof HTMLInputElement) {
+    return !['checkbox', 'radio', 'button', 'submit', 'reset', 'range', 'color', 'file'].includes(target.type);
+  }
+  return false;
+}
+
+/**
+ * Combos with Ctrl/Cmd or Alt are safe to handle while typing — single keys are not
+ */
+export function hasCommandModifier(combo: string): boolean {
+  return combo.startsWith('mod+') || combo.startsWith('alt+');
+}
+
+/**
+ * Merge a user's overrides over the defaults
+ */
+export function resolveBindings(overrides: ShortcutOverrides | undefined): ShortcutBindings {
+  return SHORTCUT_DEFINITIONS.reduce((acc, def) => {
+    acc[def.id] = overrides?.[def.id] ?? def.defaultCombo;
+    return acc;
+  }, {} as ShortcutBindings);
+}
+
+/**
+ * Another action already bound to `combo` that could fire at the same time.
+ * Global shortcuts collide with everything; scoped ones only within their scope.
+ */
+export function findConflictingAction(
+  bindings: ShortcutBindings,
+  actionId: ShortcutActionId,
+  combo: string
+): ShortcutActionId | null {
+  const scope = SHORTCUT_DEFINITIONS.find((d) => d.id === actionId)?.scope;
+  const conflict = SHORTCUT_DEFINITIONS.find(
+    (d) =>
+      d.id !== actionId &&
+      bindings[d.id] === combo &&
+      (d.scope === 'global' || scope === 'global' || d.scope === scope)
+  );
+  return conflict?.id ?? null;
+}
@@ -0,0 +1,231 @@
+/**
+ * Conversation Labels Card
+ * Organization-level labels agents apply to conversations from the inbox.
+ * Rendered on the Team page below SLA policies; read-only for plain members.
+ * Renames save on blur, colors save on pick.
+ */
+
+import { useEffect, useState } from 'react';
+import { useTranslation } from 'react-i18next';
+import { Plus, Tag, Trash2 } from 'lucide-react';
+import { Button } from '@/components/ui/Button';
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu';
+import { useConfirm } from '@/hooks/useConfirm';
+import { cn } from '@/lib/utils';
+import {
+  useConversationLabels,
+  useCreateConversationLabel,
+  useDeleteConversationLabel,
+  useUpdateConversationLabel,
+} from '@/features/conversations/hooks/useConversationLabels';
+import { LABEL_COLORS, LABEL_COLOR_CLASSES } from '@/features/conversations/constants/labelColors';
+import type { ConversationLabel, ConversationLabelColor } from '@/features/conversations/types';
+
+interface ConversationLabelsCardProps {
+  organizationId: string;
+  canEdit: boolean;
+}
+
+const MAX_NAME_LENGTH = 40;
+
+export function ConversationLabelsCard({ organizationId, canEdit }: ConversationLabelsCardProps) {
+  const { t } = useTranslation();
+  const { confirm, ConfirmDialogComponent } = useConfirm();
+  const { data: labels = [], isLoading } = useConversationLabels(organizationId);
+  const createMutation = useCreateConversationLabel(organizationId);
+  const updateMutation = useUpdateConversationLabel(organizationId);
+  const deleteMutation = useDeleteConversationLabel(organizationId);
+  const [newName, setNewName] = useState('');
+  const [newColor, setNewColor] = useState<ConversationLabelColor>('blue');
+
+  const trimmedNewName = newName.trim();
+  const isDuplicate = labels.some((label) => label.name.toLowerCase() === trimmedNewName.toLowerCase());
+
+  const handleCreate = () => {
+    if (!trimmedNewName || isDuplicate) return;
+    createMutation.mutate(
+      { organization_id: organizationId, name: trimmedNewName, color: newColor },
+      { onSuccess: () => setNewName('') }
+    );
+  };
+
+  const handleDelete = async (label: ConversationLabel) => {
+    const confirmed = await confirm({
+      title: t('conversation_labels.delete_confirm_title'),
+      message: t('conversation_labels.delete_confirm_message', { name: label.name }),
+      confirmText: t('common.delete'),
+      cancelText: t('common.cancel'),
+      variant: 'danger',
+    });
+    if (confirmed) {
+      deleteMutation.mutate(label.id);
+    }
+  };
+
+  if (isLoading) {
+    return <div className="h-48 bg-white border border-neutral-200 rounded-lg animate-pulse" />;
+  }
+
+  return (
+    <div className="bg-white border border-neutral-200 rounded-lg overflow-hidden">
+      {ConfirmDialogComponent}
+
+      <div className="px-6 py-4 border-b border-neutral-200">
+        <h3 className="text-sm font-medium text-neutral-700 flex items-center gap-2">
+          <Tag className="h-4 w-4" />
+          {t('conversation_labels.title')}
+        </h3>
+        <p className="text-xs text-neutral-500 mt-1">{t('conversation_labels.subtitle')}</p>
+      </div>
+
+      <div className="p-6 space-y-3">
+        {labels.length === 0 && (
+          <p className="text-sm text-neutral-400 text-center py-4">{t('conversation_labels.no_labels')}</p>
+        )}
+
+        {labels.map((label) => (
+          <LabelRow
+            key={label.id}
+            label={label}
+            canEdit={canEdit}
+            onRename={(name) => updateMutation.mutate({ id: label.id, payload: { name } })}
+            onRecolor={(color) => updateMutation.mutate({ id: label.id, payload: { color } })}
+            onDelete={() => handleDelete(label)}
+          />
+        ))}
+
+        {canEdit && (
+          <form
+            className="flex items-center gap-2 pt-2"
+            onSubmit={(e) => {
+              e.preventDefault();
+              handleCreate();
+            }}
+          >
+            <ColorPicker value={newColor} onChange={setNewColor} />
+            <input
+              type="text"
+              value={newName}
+              onChange={(e) => setNewName(e.target.value)}
+              placeholder={t('conversation_labels.name_placeholder')}
+              maxLength={MAX_NAME_LENGTH}
+              className="flex-1 px-3 py-1.5 text-sm border border-neutral-200 rounded-md focus:outline-none focus:ring-1 focus:ring-brand-mojeeb focus:border-brand-mojeeb"
+            />
+            <Button
+              type="submit"
+              variant="secondary"
+              size="sm"
+              disabled={!trimmedNewName || isDuplicate}
+              isLoading={createMutation.isPending}
+            >
+              <Plus className="h-4 w-4 me-1.5" />
+              {t('conversation_labels.add')}
+            </Button>
+          </form>
+        )}
+        {canEdit && isDuplicate && (
+          <p className="text-xs text-red-600">{t('conversation_labels.duplicate_name')}</p>
+        )}
+      </div>
+    </div>
+  );
+}
+
+// --- Helper Components ---
+
+interface LabelRowProps {
+  label: ConversationLabel;
+  canEdit: boolean;
+  onRename: (name: string) => void;
+  onRecolor: (color: ConversationLabelColor) => void;
+  onDelete: () => void;
+}
+
+function LabelRow({ label, canEdit, onRename, onRecolor, onDelete }: LabelRowProps) {
+  const { t } = useTranslation();
+  const [name, setName] = useState(label.name);
+
+  // Follow the saved name (rename elsewhere, failed save rollback)
+  useEffect(() => {
+    setName(label.name);
+  }, [label.name]);
+
+  const commitName = () => {
+    const trimmed = name.trim();
+    if (!trimmed) {
+      setName(label.name);
+      return;
+    }
+    if (trimmed !== label.name) onRename(trimmed);
+  };
+
+  return (
+    <div className="flex items-center gap-2">
+      {canEdit ? (
+        <ColorPicker value={label.color} onChange={(color) => color !== label.color && onRecolor(color)} />
+      ) : (
+        <span className={cn('w-3 h-3 mx-2.5 rounded-full flex-shrink-0', LABEL_COLOR_CLASSES[label.color].dot)} />
+      )}
+      <input
+        type="text"
+        value={name}
+        onChange={(e) => setName(e.target.value)}
+        onBlur={commitName}
+        onKeyDown={(e) => {
+          if (e.key === 'Enter') e.currentTarget.blur();
+        }}
+        disabled={!canEdit}
+        maxLength={MAX_NAME_LENGTH}
+        aria-label={t('conversation_labels.name_placeholder')}
+        className="flex-1 px-3 py-1.5 text-sm border border-neutral-200 rounded-md focus:outline-none focus:ring-1 focus:ring-brand-mojeeb focus:border-brand-mojeeb disabled:bg-neutral-50"
+      />
+      {canEdit && (
+        <button
+          type="button"
+          onClick={onDelete}
+          className="p-1.5 text-neutral-500 hover:text-red-600"
+          aria-label={t('conversation_labels.delete')}
+        >
+          <Trash2 className="h-4 w-4" />
+        </button>
+      )}
+    </div>
+  );
+}
+
+interface ColorPickerProps {
+  value: ConversationLabelColor;
+  onChange: (color: ConversationLabelColor) => void;
+}
+
+function ColorPicker({ value, onChange }: ColorPickerProps) {
+  const { t } = useTranslation();
+  return (
+    <DropdownMenu>
+      <DropdownMenuTrigger asChild>
+        <button
+          type="button"
+          className="p-2 rounded-md border border-neutral-200 hover:bg-neutral-50"
+          aria-label={t('conversation_labels.color')}
+        >
+          <span className={cn('block w-3 h-3 rounded-full', LABEL_COLOR_CLASSES[value].dot)} />
+        </button>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent align="start" className="w-40">
+        {LABEL_COLORS.map((color) => (
+          <DropdownMenuItem key={color} onClick={() => onChange(color)} className="gap-2 items-center">
+            <span className={cn('w-3 h-3 rounded-full flex-shrink-0', LABEL_COLOR_CLASSES[color].dot)} />
+            <span className={cn('flex-1 text-sm', color === value && 'font-medium')}>
+              {t(`conversation_labels.colors.${color}`)}
+            </span>
+          </DropdownMenuItem>
+        ))}
+      </DropdownMenuContent>
+    </DropdownMenu>
+  );
+}
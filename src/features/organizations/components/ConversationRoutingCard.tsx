@@ -0,0 +1,210 @@
+/**
+ * Conversation Routing Card
+ * Organization-level policy for auto-assigning conversations that need a human.
+ * Rendered on the Team page; read-only for plain members.
+ */
+
+import { useEffect, useMemo, useState } from 'react';
+import { useTranslation } from 'react-i18next';
+import { Check, GitBranch, Hand, Repeat, Scale } from 'lucide-react';
+import { Button } from '@/components/ui/Button';
+import { Switch } from '@/components/ui/Switch';
+import { cn } from '@/lib/utils';
+import {
+  useConversationRoutingPolicy,
+  useUpdateConversationRoutingPolicy,
+} from '../hooks/useConversationRoutingPolicy';
+import { getMemberDisplayName } from '../hooks/useOrgMembers';
+import type {
+  ConversationRoutingMode,
+  OrganizationMember,
+  UpdateConversationRoutingPolicyRequest,
+} from '../types';
+
+interface ConversationRoutingCardProps {
+  organizationId: string;
+  members: OrganizationMember[];
+  canEdit: boolean;
+}
+
+const MODES: { value: ConversationRoutingMode; icon: typeof Hand }[] = [
+  { value: 'manual', icon: Hand },
+  { value: 'round_robin', icon: Repeat },
+  { value: 'least_busy', icon: Scale },
+];
+
+const DEFAULT_DRAFT: UpdateConversationRoutingPolicyRequest = {
+  mode: 'manual',
+  eligibleUserIds: [],
+  assignOnHumanAttention: true,
+  assignOnAiHandoff: true,
+};
+
+export function ConversationRoutingCard({ organizationId, members, canEdit }: ConversationRoutingCardProps) {
+  const { t } = useTranslation();
+  const { data: policy, isLoading } = useConversationRoutingPolicy(organizationId);
+  const updateMutation = useUpdateConversationRoutingPolicy(organizationId);
+  const [draft, setDraft] = useState<UpdateConversationRoutingPolicyRequest>(DEFAULT_DRAFT);
+
+  // Reset the draft whenever the saved policy changes (load, save, org switch)
+  useEffect(() => {
+    if (!policy) return;
+    setDraft({
+      mode: policy.mode,
+      eligibleUserIds: policy.eligibleUserIds,
+      assignOnHumanAttention: policy.assignOnHumanAttention,
+      assignOnAiHandoff: policy.assignOnAiHandoff,
+    });
+  }, [policy]);
+
+  const isDirty = useMemo(() => {
+    if (!policy) return false;
+    return (
+      draft.mode !== policy.mode ||
+      draft.assignOnHumanAttention !== policy.assignOnHumanAttention ||
+      draft.assignOnAiHandoff !== policy.assignOnAiHandoff ||
+      draft.eligibleUserIds.length !== policy.eligibleUserIds.length ||
+      draft.eligibleUserIds.some((id) => !policy.eligibleUserIds.includes(id))
+    );
+  }, [draft, policy]);
+
+  const isAutomatic = draft.mode !== 'manual';
+  const noTrigger = isAutomatic && !draft.assignOnHumanAttention && !draft.assignOnAiHandoff;
+  const disabled = !canEdit || updateMutation.isPending;
+
+  // Empty list = everyone is eligible; checking a member narrows the pool.
+  const allEligible = draft.eligibleUserIds.length === 0;
+  const toggleMember = (userId: string) => {
+    setDraft((prev) => {
+      const current = prev.eligibleUserIds.length === 0 ? members.map((m) => m.userId) : prev.eligibleUserIds;
+      const next = current.includes(userId) ? current.filter((id) => id !== userId) : [...current, userId];
+      // At least one member must stay eligible — an empty list would read as "everyone"
+      if (next.length === 0) return prev;
+      // Everyone checked again collapses back to "all members"
+      return { ...prev, eligibleUserIds: next.length === members.length ? [] : next };
+    });
+  };
+
+  const handleSave = () => {
+    updateMutation.mutate(draft);
+  };
+
+  if (isLoading) {
+    return <div className="h-48 bg-white border border-neutral-200 rounded-lg animate-pulse" />;
+  }
+
+  return (
+    <div className="bg-white border border-neutral-200 rounded-lg overflow-hidden">
+      <div className="px-6 py-4 border-b border-neutral-200">
+        <h3 className="text-sm font-medium text-neutral-700 flex items-center gap-2">
+          <GitBranch className="h-4 w-4" />
+          {t('routing_policy.title')}
+        </h3>
+        <p className="text-xs text-neutral-500 mt-1">{t('routing_policy.subtitle')}</p>
+      </div>
+
+      <div className="p-6 space-y-6">
+        {/* Mode */}
+        <div className="grid grid-cols-1 sm:grid-cols-3 gap-3">
+          {MODES.map(({ value, icon: Icon }) => {
+            const isActive = draft.mode === value;
+            return (
+              <button
+                key={value}
+                type="button"
+                disabled={disabled}
+                onClick={() => setDraft((prev) => ({ ...prev, mode: value }))}
+                className={cn(
+                  'text-start p-4 rounded-lg border transition-colors disabled:cursor-not-allowed',
+                  isActive
+                    ? 'border-brand-mojeeb bg-brand-mojeeb/5'
+                    : 'border-neutral-200 hover:bg-neutral-50'
+                )}
+              >
+                <div className="flex items-center gap-2">
+                  <Icon className={cn('h-4 w-4', isActive ? 'text-brand-mojeeb' : 'text-neutral-500')} />
+                  <span className="text-sm font-medium text-neutral-900">{t(`routing_policy.mode_${value}`)}</span>
+                </div>
+                <p className="text-xs text-neutral-500 mt-1.5">{t(`routing_policy.mode_${value}_description`)}</p>
+              </button>
+            );
+          })}
+        </div>
+
+        {isAutomatic && (
+          <>
+            {/* Triggers */}
+            <div className="space-y-3">
+              <h4 className="text-xs font-medium text-neutral-500 uppercase tracking-wider">
+                {t('routing_policy.triggers')}
+              </h4>
+              <label className="flex items-center justify-between gap-4">
+                <span className="text-sm text-neutral-700">{t('routing_policy.trigger_human_attention')}</span>
+                <Switch
+                  checked={draft.assignOnHumanAttention}
+                  onChange={(checked) => setDraft((prev) => ({ ...prev, assignOnHumanAttention: checked }))}
+                  disabled={disabled}
+                />
+              </label>
+              <label className="flex items-center justify-between gap-4">
+                <span className="text-sm text-neutral-700">{t('routing_policy.trigger_ai_handoff')}</span>
+                <Switch
+                  checked={draft.assignOnAiHandoff}
+                  onChange={(checked) => setDraft((prev) => ({ ...prev, assignOnAiHandoff: checked }))}
+                  disabled={disabled}
+                />
+              </label>
+              {noTrigger && (
+                <p className="text-xs text-amber-700">{t('routing_policy.no_trigger_warning')}</p>
+              )}
+            </div>
+
+            {/* Eligible members */}
+            <div className="space-y-2">
+              <h4 className="text-xs font-medium text-neutral-500 uppercase tracking-wider">
+                {t('routing_policy.eligible_members')}
+              </h4>
+              <p className="text-xs text-neutral-500">
+                {allEligible
+                  ? t('routing_policy.eligible_all')
+                  : t('routing_policy.eligible_count', { count: draft.eligibleUserIds.length, total: members.length })}
+              </p>
+              <div className="grid grid-cols-1 sm:grid-cols-2 gap-1">
+                {members.map((member) => {
+                  const isChecked = allEligible || draft.eligibleUserIds.includes(member.userId);
+                  return (
+                    <button
+                      key={member.userId}
+                      type="button"
+                      disabled={disabled}
+                      onClick={() => toggleMember(member.userId)}
+                      className="flex items-center gap-2.5 px-2 py-1.5 rounded-md text-sm text-neutral-700 hover:bg-neutral-50 disabled:cursor-not-allowed"
+                    >
+                      <div
+                        className={cn(
+                          'w-4 h-4 rounded border flex items-center justify-center flex-shrink-0',
+                          isChecked ? 'bg-brand-mojeeb border-brand-mojeeb' : 'border-neutral-300'
+                        )}
+                      >
+                        {isChecked && <Check className="w-3 h-3 text-white" />}
+                      </div>
+                      <span className="truncate">{getMemberDisplayName(member)}</span>
+                    </button>
+                  );
+                })}
+              </div>
+            </div>
+          </>
+        )}
+
+        {canEdit && (
+          <div className="flex justify-end">
+            <Button size="sm" onClick={handleSave} disabled={!isDirty} isLoading={updateMutation.isPending}>
+              {t('common.save')}
+            </Button>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
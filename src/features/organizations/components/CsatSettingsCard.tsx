@@ -0,0 +1,205 @@
+/**
+ * CSAT Settings Card
+ * Organization-level customer satisfaction survey sent when a conversation is
+ * marked resolved. Rendered on the Team page next to SLA policies; read-only
+ * for plain members. The preview shows the prompt in each channel's format.
+ */
+
+import { useEffect, useMemo, useState } from 'react';
+import { useTranslation } from 'react-i18next';
+import { Star } from 'lucide-react';
+import { Button } from '@/components/ui/Button';
+import { Switch } from '@/components/ui/Switch';
+import { cn } from '@/lib/utils';
+import { CSAT_SCORES, CSAT_WHATSAPP_BUTTON_SCORES } from '@/features/conversations/utils/csat';
+import type { CsatSurveyFormat } from '@/features/conversations/types';
+import { useCsatSettings, useUpdateCsatSettings } from '../hooks/useCsatSettings';
+import type { UpdateCsatSettingsRequest } from '../types';
+
+interface CsatSettingsCardProps {
+  organizationId: string;
+  canEdit: boolean;
+}
+
+const FORMATS: CsatSurveyFormat[] = ['whatsapp_buttons', 'widget_stars', 'text'];
+
+const MAX_QUESTION_LENGTH = 200;
+const MAX_THANK_YOU_LENGTH = 300;
+
+export function CsatSettingsCard({ organizationId, canEdit }: CsatSettingsCardProps) {
+  const { t } = useTranslation();
+  const { data: settings, isLoading } = useCsatSettings(organizationId);
+  const updateMutation = useUpdateCsatSettings(organizationId);
+  const [draft, setDraft] = useState<UpdateCsatSettingsRequest>({
+    enabled: false,
+    question: '',
+    thankYouMessage: '',
+  });
+  const [previewFormat, setPreviewFormat] = useState<CsatSurveyFormat>('whatsapp_buttons');
+
+  // Reset the draft whenever the saved settings change (load, save, org switch)
+  useEffect(() => {
+    if (!settings) return;
+    setDraft({
+      enabled: settings.enabled,
+      question: settings.question,
+      thankYouMessage: settings.thankYouMessage,
+    });
+  }, [settings]);
+
+  const isDirty = useMemo(() => {
+    if (!settings) return false;
+    return (
+      draft.enabled !== settings.enabled ||
+      draft.question !== settings.question ||
+      draft.thankYouMessage !== settings.thankYouMessage
+    );
+  }, [draft, settings]);
+
+  const isQuestionMissing = draft.enabled && !draft.question.trim();
+  const disabled = !canEdit || updateMutation.isPending;
+
+  const handleSave = () => {
+    updateMutation.mutate({
+      enabled: draft.enabled,
+      question: draft.question.trim(),
+      thankYouMessage: draft.thankYouMessage.trim(),
+    });
+  };
+
+  if (isLoading) {
+    return <div className="h-48 bg-white border border-neutral-200 rounded-lg animate-pulse" />;
+  }
+
+  return (
+    <div className="bg-white border border-neutral-200 rounded-lg overflow-hidden">
+      <div className="px-6 py-4 border-b border-neutral-200 flex items-start justify-between gap-4">
+        <div>
+          <h3 className="text-sm font-medium text-neutral-700 flex items-center gap-2">
+            <Star className="h-4 w-4" />
+            {t('csat.title')}
+          </h3>
+          <p className="text-xs text-neutral-500 mt-1">{t('csat.subtitle')}</p>
+        </div>
+        <Switch
+          checked={draft.enabled}
+          onChange={(checked) => setDraft((prev) => ({ ...prev, enabled: checked }))}
+          disabled={disabled}
+        />
+      </div>
+
+      {draft.enabled && (
+        <div className="p-6 grid grid-cols-1 lg:grid-cols-2 gap-6">
+          <div className="space-y-4">
+            <label className="block space-y-1">
+              <span className="block text-sm text-neutral-700">{t('csat.question')}</span>
+              <textarea
+                value={draft.question}
+                onChange={(e) => setDraft((prev) => ({ ...prev, question: e.target.value }))}
+                placeholder={t('csat.question_placeholder')}
+                disabled={disabled}
+                maxLength={MAX_QUESTION_LENGTH}
+                rows={2}
+                className="w-full px-3 py-1.5 text-sm border border-neutral-200 rounded-md resize-none focus:outline-none focus:ring-1 focus:ring-brand-mojeeb focus:border-brand-mojeeb disabled:bg-neutral-50"
+              />
+            </label>
+            <label className="block space-y-1">
+              <span className="block text-sm text-neutral-700">{t('csat.thank_you')}</span>
+              <span className="block text-xs text-neutral-500">{t('csat.thank_you_hint')}</span>
+              <textarea
+                value={draft.thankYouMessage}
+                onChange={(e) => setDraft((prev) => ({ ...prev, thankYouMessage: e.target.value }))}
+                placeholder={t('csat.thank_you_placeholder')}
+                disabled={disabled}
+                maxLength={MAX_THANK_YOU_LENGTH}
+                rows={2}
+                className="w-full px-3 py-1.5 text-sm border border-neutral-200 rounded-md resize-none focus:outline-none focus:ring-1 focus:ring-brand-mojeeb focus:border-brand-mojeeb disabled:bg-neutral-50"
+              />
+            </label>
+          </div>
+
+          {/* Preview per channel format */}
+          <div className="space-y-3">
+            <div className="flex flex-wrap gap-1.5">
+              {FORMATS.map((format) => (
+                <button
+                  key={format}
+                  type="button"
+                  onClick={() => setPreviewFormat(format)}
+                  className={cn(
+                    'px-2 py-1 rounded-md text-xs border transition-colors',
+                    previewFormat === format
+                      ? 'bg-brand-mojeeb/10 border-brand-mojeeb text-brand-mojeeb'
+                      : 'bg-white border-neutral-200 text-neutral-600 hover:bg-neutral-50'
+                  )}
+                >
+                  {t(`csat.format_${format}`)}
+                </button>
+              ))}
+            </div>
+            <CsatPreview
+              format={previewFormat}
+              question={draft.question.trim() || t('csat.question_placeholder')}
+            />
+          </div>
+        </div>
+      )}
+
+      {canEdit && (
+        <div className={cn('px-6 pb-6 flex items-center justify-end gap-3', !draft.enabled && 'pt-4')}>
+          {isQuestionMissing && isDirty && (
+            <p className="text-xs text-red-600">{t('csat.question_required')}</p>
+          )}
+          <Button
+            size="sm"
+            onClick={handleSave}
+            disabled={!isDirty || isQuestionMissing}
+            isLoading={updateMutation.isPending}
+          >
+            {t('common.save')}
+          </Button>
+        </div>
+      )}
+    </div>
+  );
+}
+
+// --- Helper Components ---
+
+interface CsatPreviewProps {
+  format: CsatSurveyFormat;
+  question: string;
+}
+
+function CsatPreview({ format, question }: CsatPreviewProps) {
+  const { t } = useTranslation();
+  return (
+    <div className="rounded-lg bg-neutral-50 border border-neutral-200 p-4">
+      <div className="max-w-[85%] rounded-lg bg-white border border-neutral-200 px-3 py-2 text-sm text-neutral-800 shadow-sm">
+        <p className="whitespace-pre-wrap">{question}</p>
+        {format === 'text' && (
+          <p className="mt-1 text-neutral-500">{t('csat.text_instructions')}</p>
+        )}
+        {format === 'widget_stars' && (
+          <div className="mt-2 flex gap-1 text-amber-400">
+            {CSAT_SCORES.map((score) => (
+              <Star key={score} className="w-5 h-5" />
+            ))}
+          </div>
+        )}
+      </div>
+      {format === 'whatsapp_buttons' && (
+        <div className="mt-1 max-w-[85%] space-y-1">
+          {CSAT_WHATSAPP_BUTTON_SCORES.map((score) => (
+            <div
+              key={score}
+              className="rounded-lg bg-white border border-neutral-200 py-1.5 text-center text-sm text-sky-600"
+            >
+              {t(`csat.whatsapp_button_${score}`)}
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
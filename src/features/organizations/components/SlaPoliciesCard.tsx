@@ -0,0 +1,339 @@
+/**
+ * SLA Policies Card
+ * Organization-level first-response and resolution targets for conversations
+ * that need a human. Rendered on the Team page next to conversation routing;
+ * read-only for plain members.
+ */
+
+import { useEffect, useMemo, useState } from 'react';
+import { useTranslation } from 'react-i18next';
+import { ArrowDown, ArrowUp, Plus, Timer, Trash2 } from 'lucide-react';
+import { Button } from '@/components/ui/Button';
+import { Switch } from '@/components/ui/Switch';
+import { cn } from '@/lib/utils';
+import { FILTERABLE_PLATFORMS } from '@/features/conversations/constants/chatConstants';
+import { formatSourceLabel } from '@/features/conversations/utils/textFormatters';
+import { useSlaSettings, useUpdateSlaSettings } from '../hooks/useSlaSettings';
+import type { SlaPolicy, SlaUrgency, UpdateSlaSettingsRequest } from '../types';
+
+interface SlaPoliciesCardProps {
+  organizationId: string;
+  canEdit: boolean;
+}
+
+const CHANNELS = FILTERABLE_PLATFORMS.filter((source) => source !== 'test');
+
+const URGENCIES: SlaUrgency[] = ['any', 'urgent', 'normal'];
+
+const DEFAULT_DRAFT: UpdateSlaSettingsRequest = {
+  enabled: false,
+  atRiskMinutes: 15,
+  policies: [],
+};
+
+type SlaSettingsError = 'name_required' | 'invalid_minutes' | 'resolution_before_response';
+
+/** First problem in the draft, keyed for `sla.errors.*` */
+function validateDraft(draft: UpdateSlaSettingsRequest): SlaSettingsError | null {
+  if (!Number.isInteger(draft.atRiskMinutes) || draft.atRiskMinutes < 1) return 'invalid_minutes';
+  for (const policy of draft.policies) {
+    if (!policy.name.trim()) return 'name_required';
+    if (
+      !Number.isInteger(policy.firstResponseMinutes) || policy.firstResponseMinutes < 1 ||
+      !Number.isInteger(policy.resolutionMinutes) || policy.resolutionMinutes < 1
+    ) {
+      return 'invalid_minutes';
+    }
+    if (policy.resolutionMinutes < policy.firstResponseMinutes) return 'resolution_before_response';
+  }
+  return null;
+}
+
+export function SlaPoliciesCard({ organizationId, canEdit }: SlaPoliciesCardProps) {
+  const { t } = useTranslation();
+  const { data: settings, isLoading } = useSlaSettings(organizationId);
+  const updateMutation = useUpdateSlaSettings(organizationId);
+  const [draft, setDraft] = useState<UpdateSlaSettingsRequest>(DEFAULT_DRAFT);
+
+  // Reset the draft whenever the saved settings change (load, save, org switch)
+  useEffect(() => {
+    if (!settings) return;
+    setDraft({
+      enabled: settings.enabled,
+      atRiskMinutes: settings.atRiskMinutes,
+      policies: settings.policies,
+    });
+  }, [settings]);
+
+  const isDirty = useMemo(() => {
+    if (!settings) return false;
+    return (
+      draft.enabled !== settings.enabled ||
+      draft.atRiskMinutes !== settings.atRiskMinutes ||
+      JSON.stringify(draft.policies) !== JSON.stringify(settings.policies)
+    );
+  }, [draft, settings]);
+
+  const validationError = validateDraft(draft);
+  const disabled = !canEdit || updateMutation.isPending;
+
+  const updatePolicy = (id: string, patch: Partial<SlaPolicy>) => {
+    setDraft((prev) => ({
+      ...prev,
+      policies: prev.policies.map((policy) => (policy.id === id ? { ...policy, ...patch } : policy)),
+    }));
+  };
+
+  const toggleChannel = (policy: SlaPolicy, channel: string) => {
+    const channels = policy.channels.includes(channel)
+      ? policy.channels.filter((c) => c !== channel)
+      : [...policy.channels, channel];
+    // Every channel checked collapses back to "all channels"
+    updatePolicy(policy.id, { channels: channels.length === CHANNELS.length ? [] : channels });
+  };
+
+  // Policies match top to bottom, so order is part of the configuration
+  const movePolicy = (index: number, delta: -1 | 1) => {
+    setDraft((prev) => {
+      const policies = [...prev.policies];
+      [policies[index], policies[index + delta]] = [policies[index + delta], policies[index]];
+      return { ...prev, policies };
+    });
+  };
+
+  const addPolicy = () => {
+    setDraft((prev) => ({
+      ...prev,
+      policies: [
+        ...prev.policies,
+        {
+          id: crypto.randomUUID(),
+          name: '',
+          channels: [],
+          urgency: 'any',
+          firstResponseMinutes: 60,
+          resolutionMinutes: 24 * 60,
+        },
+      ],
+    }));
+  };
+
+  const removePolicy = (id: string) => {
+    setDraft((prev) => ({ ...prev, policies: prev.policies.filter((policy) => policy.id !== id) }));
+  };
+
+  const handleSave = () => {
+    updateMutation.mutate({
+      ...draft,
+      policies: draft.policies.map((policy) => ({ ...policy, name: policy.name.trim() })),
+    });
+  };
+
+  if (isLoading) {
+    return <div className="h-48 bg-white border border-neutral-200 rounded-lg animate-pulse" />;
+  }
+
+  return (
+    <div className="bg-white border border-neutral-200 rounded-lg overflow-hidden">
+      <div className="px-6 py-4 border-b border-neutral-200 flex items-start justify-between gap-4">
+        <div>
+          <h3 className="text-sm font-medium text-neutral-700 flex items-center gap-2">
+            <Timer className="h-4 w-4" />
+            {t('sla.title')}
+          </h3>
+          <p className="text-xs text-neutral-500 mt-1">{t('sla.subtitle')}</p>
+        </div>
+        <Switch
+          checked={draft.enabled}
+          onChange={(checked) => setDraft((prev) => ({ ...prev, enabled: checked }))}
+          disabled={disabled}
+        />
+      </div>
+
+      {draft.enabled && (
+        <div className="p-6 space-y-6">
+          {/* Breaching-soon threshold */}
+          <label className="flex items-center justify-between gap-4">
+            <span>
+              <span className="block text-sm text-neutral-700">{t('sla.at_risk_minutes')}</span>
+              <span className="block text-xs text-neutral-500">{t('sla.at_risk_minutes_hint')}</span>
+            </span>
+            <MinutesInput
+              value={draft.atRiskMinutes}
+              onChange={(atRiskMinutes) => setDraft((prev) => ({ ...prev, atRiskMinutes }))}
+              disabled={disabled}
+            />
+          </label>
+
+          {/* Policies */}
+          <div className="space-y-3">
+            <div>
+              <h4 className="text-xs font-medium text-neutral-500 uppercase tracking-wider">
+                {t('sla.policies')}
+              </h4>
+              <p className="text-xs text-neutral-500 mt-1">{t('sla.policies_hint')}</p>
+            </div>
+
+            {draft.policies.length === 0 && (
+              <p className="text-sm text-neutral-400 text-center py-4">{t('sla.no_policies')}</p>
+            )}
+
+            {draft.policies.map((policy, index) => (
+              <div key={policy.id} className="border border-neutral-200 rounded-lg p-4 space-y-3">
+                <div className="flex items-center gap-2">
+                  <input
+                    type="text"
+                    value={policy.name}
+                    onChange={(e) => updatePolicy(policy.id, { name: e.target.value })}
+                    placeholder={t('sla.policy_name_placeholder')}
+                    disabled={disabled}
+                    maxLength={80}
+                    className="flex-1 px-3 py-1.5 text-sm border border-neutral-200 rounded-md focus:outline-none focus:ring-1 focus:ring-brand-mojeeb focus:border-brand-mojeeb disabled:bg-neutral-50"
+                  />
+                  {canEdit && (
+                    <>
+                      <button
+                        type="button"
+                        onClick={() => movePolicy(index, -1)}
+                        disabled={disabled || index === 0}
+                        className="p-1.5 text-neutral-500 hover:text-neutral-900 disabled:opacity-30"
+                        aria-label={t('sla.move_up')}
+                      >
+                        <ArrowUp className="h-4 w-4" />
+                      </button>
+                      <button
+                        type="button"
+                        onClick={() => movePolicy(index, 1)}
+                        disabled={disabled || index === draft.policies.length - 1}
+                        className="p-1.5 text-neutral-500 hover:text-neutral-900 disabled:opacity-30"
+                        aria-label={t('sla.move_down')}
+                      >
+                        <ArrowDown className="h-4 w-4" />
+                      </button>
+                      <button
+                        type="button"
+                        onClick={() => removePolicy(policy.id)}
+                        disabled={disabled}
+                        className="p-1.5 text-neutral-500 hover:text-red-600"
+                        aria-label={t('sla.remove_policy')}
+                      >
+                        <Trash2 className="h-4 w-4" />
+                      </button>
+                    </>
+                  )}
+                </div>
+
+                {/* Channels — none checked = every channel */}
+                <div className="flex flex-wrap items-center gap-1.5">
+                  <span className="text-xs text-neutral-500 me-1">{t('sla.channels')}</span>
+                  {CHANNELS.map((channel) => {
+                    const isActive = policy.channels.length === 0 || policy.channels.includes(channel);
+                    return (
+                      <button
+                        key={channel}
+                        type="button"
+                        disabled={disabled}
+                        onClick={() => toggleChannel(policy, channel)}
+                        className={cn(
+                          'px-2 py-1 rounded-md text-xs border transition-colors disabled:cursor-not-allowed',
+                          isActive
+                            ? 'bg-brand-mojeeb/10 border-brand-mojeeb text-brand-mojeeb'
+                            : 'bg-white border-neutral-200 text-neutral-600 hover:bg-neutral-50'
+                        )}
+                      >
+                        {t(`conversations.filters.platform_${channel}`, formatSourceLabel(channel))}
+                      </button>
+                    );
+                  })}
+                </div>
+
+                <div className="grid grid-cols-1 sm:grid-cols-3 gap-3">
+                  <label className="space-y-1">
+                    <span className="block text-xs text-neutral-500">{t('sla.urgency')}</span>
+                    <select
+                      value={policy.urgency}
+                      onChange={(e) => updatePolicy(policy.id, { urgency: e.target.value as SlaUrgency })}
+                      disabled={disabled}
+                      className="w-full px-2 py-1.5 text-sm border border-neutral-200 rounded-md bg-white disabled:bg-neutral-50"
+                    >
+                      {URGENCIES.map((urgency) => (
+                        <option key={urgency} value={urgency}>
+                          {t(`sla.urgency_${urgency}`)}
+                        </option>
+                      ))}
+                    </select>
+                  </label>
+                  <label className="space-y-1">
+                    <span className="block text-xs text-neutral-500">{t('sla.first_response')}</span>
+                    <MinutesInput
+                      value={policy.firstResponseMinutes}
+                      onChange={(firstResponseMinutes) => updatePolicy(policy.id, { firstResponseMinutes })}
+                      disabled={disabled}
+                    />
+                  </label>
+                  <label className="space-y-1">
+                    <span className="block text-xs text-neutral-500">{t('sla.resolution')}</span>
+                    <MinutesInput
+                      value={policy.resolutionMinutes}
+                      onChange={(resolutionMinutes) => updatePolicy(policy.id, { resolutionMinutes })}
+                      disabled={disabled}
+                    />
+                  </label>
+                </div>
+              </div>
+            ))}
+
+            {canEdit && (
+              <Button variant="secondary" size="sm" onClick={addPolicy} disabled={disabled}>
+                <Plus className="h-4 w-4 me-1.5" />
+                {t('sla.add_policy')}
+              </Button>
+            )}
+          </div>
+        </div>
+      )}
+
+      {canEdit && (
+        <div className={cn('px-6 pb-6 flex items-center justify-end gap-3', !draft.enabled && 'pt-4')}>
+          {validationError && isDirty && (
+            <p className="text-xs text-red-600">{t(`sla.errors.${validationError}`)}</p>
+          )}
+          <Button
+            size="sm"
+            onClick={handleSave}
+            disabled={!isDirty || !!validationError}
+            isLoading={updateMutation.isPending}
+          >
+            {t('common.save')}
+          </Button>
+        </div>
+      )}
+    </div>
+  );
+}
+
+// --- Helper Components ---
+
+interface MinutesInputProps {
+  value: number;
+  onChange: (value: number) => void;
+  disabled?: boolean;
+}
+
+function MinutesInput({ value, onChange, disabled }: MinutesInputProps) {
+  const { t } = useTranslation();
+  return (
+    <div className="flex items-center gap-1.5">
+      <input
+        type="number"
+        min={1}
+        step={1}
+        value={Number.isNaN(value) ? '' : value}
+        onChange={(e) => onChange(e.target.valueAsNumber)}
+        disabled={disabled}
+        className="w-24 px-2 py-1.5 text-sm border border-neutral-200 rounded-md focus:outline-none focus:ring-1 focus:ring-brand-mojeeb focus:border-brand-mojeeb disabled:bg-neutral-50"
+      />
+      <span className="text-xs text-neutral-500">{t('sla.minutes')}</span>
+    </div>
+  );
+}
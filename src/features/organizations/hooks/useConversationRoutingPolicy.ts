@@ -0,0 +1,48 @@
+/**
+ * useConversationRoutingPolicy
+ *
+ * Read / replace the organization's conversation routing policy. The policy
+ * itself is applied server-side; the inbox only sees the resulting
+ * `assigned_to` changes through conversation realtime.
+ */
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { toast } from 'sonner';
+import { useTranslation } from 'react-i18next';
+import { queryKeys } from '@/lib/queryKeys';
+import { isToastHandled } from '@/lib/errors';
+import { logger } from '@/lib/logger';
+import { organizationService } from '../services/organizationService';
+import type { UpdateConversationRoutingPolicyRequest } from '../types';
+
+export function useConversationRoutingPolicy(organizationId: string | undefined) {
+  return useQuery({
+    queryKey: queryKeys.conversationRoutingPolicy(organizationId),
+    queryFn: () => organizationService.getConversationRoutingPolicy(organizationId!),
+    enabled: !!organizationId,
+    staleTime: 5 * 60 * 1000,
+  });
+}
+
+export function useUpdateConversationRoutingPolicy(organizationId: string | undefined) {
+  const queryClient = useQueryClient();
+  const { t } = useTranslation();
+
+  return useMutation({
+    mutationFn: (data: UpdateConversationRoutingPolicyRequest) =>
+      organizationService.updateConversationRoutingPolicy(organizationId!, data),
+
+    onSuccess: (policy) => {
+      queryClient.setQueryData(queryKeys.conversationRoutingPolicy(organizationId), policy);
+      toast.success(t('routing_policy.save_success'));
+    },
+
+    onError: (error: Error) => {
+      logger.error('[useUpdateConversationRoutingPolicy]', 'Failed to save routing policy', error, {
+        organizationId,
+      });
+      if (!isToastHandled(error)) {
+        toast.error(t('routing_policy.save_error'));
+      }
+    },
+  });
+}
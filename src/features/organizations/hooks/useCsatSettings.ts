@@ -0,0 +1,48 @@
+/**
+ * useCsatSettings
+ *
+ * Read / replace the organization's CSAT survey settings. Surveys are sent
+ * server-side when a conversation is marked resolved; the answer is read
+ * back from `conversation.csat`.
+ */
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { toast } from 'sonner';
+import { useTranslation } from 'react-i18next';
+import { queryKeys } from '@/lib/queryKeys';
+import { isToastHandled } from '@/lib/errors';
+import { logger } from '@/lib/logger';
+import { organizationService } from '../services/organizationService';
+import type { UpdateCsatSettingsRequest } from '../types';
+
+export function useCsatSettings(organizationId: string | undefined) {
+  return useQuery({
+    queryKey: queryKeys.csatSettings(organizationId),
+    queryFn: () => organizationService.getCsatSettings(organizationId!),
+    enabled: !!organizationId,
+    staleTime: 5 * 60 * 1000,
+  });
+}
+
+export function useUpdateCsatSettings(organizationId: string | undefined) {
+  const queryClient = useQueryClient();
+  const { t } = useTranslation();
+
+  return useMutation({
+    mutationFn: (data: UpdateCsatSettingsRequest) =>
+      organizationService.updateCsatSettings(organizationId!, data),
+
+    onSuccess: (settings) => {
+      queryClient.setQueryData(queryKeys.csatSettings(organizationId), settings);
+      toast.success(t('csat.save_success'));
+    },
+
+    onError: (error: Error) => {
+      logger.error('[useUpdateCsatSettings]', 'Failed to save CSAT settings', error, {
+        organizationId,
+      });
+      if (!isToastHandled(error)) {
+        toast.error(t('csat.save_error'));
+      }
+    },
+  });
+}
@@ -48,3 +48,11 @@ export function buildMemberLookup(
   for (const m of members) map.set(m.userId, m);
   return map;
 }
+
+/**
+ * Label for a member in pickers and badges: name, then email, then a short
+ * user-id prefix so a member without an enriched profile is never blank.
+ */
+export function getMemberDisplayName(member: OrganizationMember): string {
+  return member.user?.name?.trim() || member.user?.email?.trim() || member.userId.slice(0, 6);
+}
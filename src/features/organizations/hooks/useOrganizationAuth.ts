@@ -60,6 +60,7 @@ export function useOrganizationAuth() {
     const canAssignOwner = isSuperAdmin || isOwner;
     const canInviteMembers = isSuperAdmin || isOwner || isAdmin;
     const canRemoveMembers = isSuperAdmin || isOwner;
+    const canManageRouting = isSuperAdmin || isOwner || isAdmin;
 
     /**
      * Check if current user can edit a specific member's role
@@ -113,6 +114,7 @@ export function useOrganizationAuth() {
       canAssignOwner,
       canInviteMembers,
       canRemoveMembers,
+      canManageRouting,
 
       // Computed helpers
       canEditMember,
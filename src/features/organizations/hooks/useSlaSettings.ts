@@ -0,0 +1,48 @@
+/**
+ * useSlaSettings
+ *
+ * Read / replace the organization's SLA settings. Timers are started and
+ * stopped server-side; the inbox reads the resulting `conversation.sla`
+ * snapshot and counts down locally.
+ */
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { toast } from 'sonner';
+import { useTranslation } from 'react-i18next';
+import { queryKeys } from '@/lib/queryKeys';
+import { isToastHandled } from '@/lib/errors';
+import { logger } from '@/lib/logger';
+import { organizationService } from '../services/organizationService';
+import type { UpdateSlaSettingsRequest } from '../types';
+
+export function useSlaSettings(organizationId: string | undefined) {
+  return useQuery({
+    queryKey: queryKeys.slaSettings(organizationId),
+    queryFn: () => organizationService.getSlaSettings(organizationId!),
+    enabled: !!organizationId,
+    staleTime: 5 * 60 * 1000,
+  });
+}
+
+export function useUpdateSlaSettings(organizationId: string | undefined) {
+  const queryClient = useQueryClient();
+  const { t } = useTranslation();
+
+  return useMutation({
+    mutationFn: (data: UpdateSlaSettingsRequest) =>
+      organizationService.updateSlaSettings(organizationId!, data),
+
+    onSuccess: (settings) => {
+      queryClient.setQueryData(queryKeys.slaSettings(organizationId), settings);
+      toast.success(t('sla.save_success'));
+    },
+
+    onError: (error: Error) => {
+      logger.error('[useUpdateSlaSettings]', 'Failed to save SLA settings', error, {
+        organizationId,
+      });
+      if (!isToastHandled(error)) {
+        toast.error(t('sla.save_error'));
+      }
+    },
+  });
+}
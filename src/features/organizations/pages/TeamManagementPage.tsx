@@ -1,6 +1,7 @@
 /**
  * Team Management Page
  * Manage organization members and their roles
+ * plus the conversation routing policy for human hand-offs
  * Shows organization members based on global selected agent
  */
 
@@ -20,6 +21,10 @@ import InvitationSentModal from '../components/InvitationSentModal';
 import EditMemberRoleModal from '../components/EditMemberRoleModal';
 import { ConfirmDialog } from '@/components/ui/ConfirmDialog';
 import { TeamTableSkeleton } from '../components/TeamTableSkeleton';
+import { ConversationRoutingCard } from '../components/ConversationRoutingCard';
+import { SlaPoliciesCard } from '../components/SlaPoliciesCard';
+import { ConversationLabelsCard } from '../components/ConversationLabelsCard';
+import { CsatSettingsCard } from '../components/CsatSettingsCard';
 import { BaseHeader } from '@/components/ui/BaseHeader';
 import { PhoneNumber } from '@/components/ui/PhoneNumber';
 import type { OrganizationMember, PendingInvitation } from '../types';
@@ -31,7 +36,7 @@ export default function TeamManagementPage() {
   const { agent } = useAgentContext();
   const user = useAuthStore((state) => state.user);
   const isSuperAdmin = user?.role === Role.SuperAdmin;
-  const { canEditMember } = useOrganizationAuth();
+  const { canEditMember, canManageRouting } = useOrganizationAuth();
 
   const [isAssignModalOpen, setIsAssignModalOpen] = useState(false);
   const [isEditRoleModalOpen, setIsEditRoleModalOpen] = useState(false);
@@ -291,6 +296,30 @@ export default function TeamManagementPage() {
         </div>
       )}
 
+      {/* Conversation routing policy */}
+      {agent.organizationId && members.length > 0 && (
+        <ConversationRoutingCard
+          organizationId={agent.organizationId}
+          members={members}
+          canEdit={canManageRouting}
+        />
+      )}
+
+      {/* SLA policies */}
+      {agent.organizationId && (
+        <SlaPoliciesCard organizationId={agent.organizationId} canEdit={canManageRouting} />
+      )}
+
+      {/* Customer satisfaction survey */}
+      {agent.organizationId && (
+        <CsatSettingsCard organizationId={agent.organizationId} canEdit={canManageRouting} />
+      )}
+
+      {/* Conversation labels */}
+      {agent.organizationId && (
+        <ConversationLabelsCard organizationId={agent.organizationId} canEdit={canManageRouting} />
+      )}
+
       {/* Pending Invitations */}
       {!isLoadingInvitations && pendingInvitations.length > 0 && (
         <div className="bg-white border border-neutral-200 rounded-lg overflow-hidden">
@@ -12,7 +12,16 @@ import type {
   UserSearchResult,
   AssignUserToOrganizationRequest,
   OrganizationMember,
-  PendingInvitation
+  PendingInvitation,
+  ConversationRoutingPolicy,
+  ConversationRoutingMode,
+  UpdateConversationRoutingPolicyRequest,
+  CsatSettings,
+  SlaPolicy,
+  SlaSettings,
+  SlaUrgency,
+  UpdateCsatSettingsRequest,
+  UpdateSlaSettingsRequest
 } from '../types';
 import type { ApiResponse } from '@/types/api';
 import { logger } from '@/lib/logger';
@@ -57,6 +66,40 @@ interface ApiOrganizationMember {
   };
 }
 
+interface ApiConversationRoutingPolicy {
+  organization_id: string;
+  mode: string;
+  eligible_user_ids: string[] | null;
+  assign_on_human_attention: boolean;
+  assign_on_ai_handoff: boolean;
+  updated_at: string | null;
+}
+
+interface ApiSlaPolicy {
+  id: string;
+  name: string;
+  channels: string[] | null;
+  urgency: string;
+  first_response_minutes: number;
+  resolution_minutes: number;
+}
+
+interface ApiSlaSettings {
+  organization_id: string;
+  enabled: boolean;
+  at_risk_minutes: number;
+  policies: ApiSlaPolicy[] | null;
+  updated_at: string | null;
+}
+
+interface ApiCsatSettings {
+  organization_id: string;
+  enabled: boolean;
+  question: string;
+  thank_you_message: string | null;
+  updated_at: string | null;
+}
+
 /**
  * Transform API response from snake_case to camelCase
  * Follows agentService.ts pattern
@@ -112,6 +155,53 @@ function transformOrganizationMember(apiMember: ApiOrganizationMember): Organiza
   };
 }
 
+/**
+ * Transform routing policy from snake_case to camelCase
+ */
+function transformRoutingPolicy(apiPolicy: ApiConversationRoutingPolicy): ConversationRoutingPolicy {
+  return {
+    organizationId: apiPolicy.organization_id,
+    mode: apiPolicy.mode as ConversationRoutingMode,
+    eligibleUserIds: apiPolicy.eligible_user_ids ?? [],
+    assignOnHumanAttention: apiPolicy.assign_on_human_attention,
+    assignOnAiHandoff: apiPolicy.assign_on_ai_handoff,
+    updatedAt: apiPolicy.updated_at
+  };
+}
+
+/**
+ * Transform SLA settings from snake_case to camelCase
+ */
+function transformSlaSettings(apiSettings: ApiSlaSettings): SlaSettings {
+  return {
+    organizationId: apiSettings.organization_id,
+    enabled: apiSettings.enabled,
+    atRiskMinutes: apiSettings.at_risk_minutes,
+    policies: (apiSettings.policies ?? []).map((policy): SlaPolicy => ({
+      id: policy.id,
+      name: policy.name,
+      channels: policy.channels ?? [],
+      urgency: policy.urgency as SlaUrgency,
+      firstResponseMinutes: policy.first_response_minutes,
+      resolutionMinutes: policy.resolution_minutes
+    })),
+    updatedAt: apiSettings.updated_at
+  };
+}
+
+/**
+ * Transform CSAT settings from snake_case to camelCase
+ */
+function transformCsatSettings(apiSettings: ApiCsatSettings): CsatSettings {
+  return {
+    organizationId: apiSettings.organization_id,
+    enabled: apiSettings.enabled,
+    question: apiSettings.question,
+    thankYouMessage: apiSettings.thank_you_message ?? '',
+    updatedAt: apiSettings.updated_at
+  };
+}
+
 export const organizationService = {
   /**
    * Get all organizations (SuperAdmin only)
@@ -526,4 +616,165 @@ export const organizationService = {
       throw error;
     }
   },
+
+  /**
+   * Get the organization's conversation routing policy
+   * Organizations that never saved one get the backend default (manual)
+   */
+  async getConversationRoutingPolicy(organizationId: string): Promise<ConversationRoutingPolicy> {
+    try {
+      const response = await api.get<ApiResponse<ApiConversationRoutingPolicy>>(
+        `/api/organization/${organizationId}/routing-policy`
+      );
+      return transformRoutingPolicy(response.data.data);
+    } catch (error) {
+      logger.error('[organizationService]', 'Failed to fetch routing policy', error, {
+        organizationId
+      });
+      throw error;
+    }
+  },
+
+  /**
+   * Replace the organization's conversation routing policy
+   * Authorization: SuperAdmin, Organization Owner, or Admin
+   */
+  async updateConversationRoutingPolicy(
+    organizationId: string,
+    data: UpdateConversationRoutingPolicyRequest
+  ): Promise<ConversationRoutingPolicy> {
+    try {
+      // Transform camelCase to snake_case for backend
+      const snakeCaseData = {
+        mode: data.mode,
+        eligible_user_ids: data.eligibleUserIds,
+        assign_on_human_attention: data.assignOnHumanAttention,
+        assign_on_ai_handoff: data.assignOnAiHandoff
+      };
+
+      const response = await api.put<ApiResponse<ApiConversationRoutingPolicy>>(
+        `/api/organization/${organizationId}/routing-policy`,
+        snakeCaseData
+      );
+      logger.info('[organizationService]', 'Updated routing policy', {
+        organizationId,
+        mode: data.mode
+      });
+      return transformRoutingPolicy(response.data.data);
+    } catch (error) {
+      logger.error('[organizationService]', 'Failed to update routing policy', error, {
+        organizationId,
+        mode: data.mode
+      });
+      throw error;
+    }
+  },
+
+  /**
+   * Get the organization's SLA settings and policies
+   * Organizations that never saved any get the backend default (disabled, no policies)
+   */
+  async getSlaSettings(organizationId: string): Promise<SlaSettings> {
+    try {
+      const response = await api.get<ApiResponse<ApiSlaSettings>>(
+        `/api/organization/${organizationId}/sla-policies`
+      );
+      return transformSlaSettings(response.data.data);
+    } catch (error) {
+      logger.error('[organizationService]', 'Failed to fetch SLA settings', error, {
+        organizationId
+      });
+      throw error;
+    }
+  },
+
+  /**
+   * Replace the organization's SLA settings and policies
+   * Running timers keep the targets they started with; changes apply to new timers.
+   * Authorization: SuperAdmin, Organization Owner, or Admin
+   */
+  async updateSlaSettings(
+    organizationId: string,
+    data: UpdateSlaSettingsRequest
+  ): Promise<SlaSettings> {
+    try {
+      // Transform camelCase to snake_case for backend
+      const snakeCaseData = {
+        enabled: data.enabled,
+        at_risk_minutes: data.atRiskMinutes,
+        policies: data.policies.map((policy) => ({
+          id: policy.id,
+          name: policy.name,
+          channels: policy.channels,
+          urgency: policy.urgency,
+          first_response_minutes: policy.firstResponseMinutes,
+          resolution_minutes: policy.resolutionMinutes
+        }))
+      };
+
+      const response = await api.put<ApiResponse<ApiSlaSettings>>(
+        `/api/organization/${organizationId}/sla-policies`,
+        snakeCaseData
+      );
+      logger.info('[organizationService]', 'Updated SLA settings', {
+        organizationId,
+        policyCount: data.policies.length
+      });
+      return transformSlaSettings(response.data.data);
+    } catch (error) {
+      logger.error('[organizationService]', 'Failed to update SLA settings', error, {
+        organizationId
+      });
+      throw error;
+    }
+  },
+
+  /**
+   * Get the organization's CSAT survey settings
+   * Organizations that never saved any get the backend default (disabled, default question)
+   */
+  async getCsatSettings(organizationId: string): Promise<CsatSettings> {
+    try {
+      const response = await api.get<ApiResponse<ApiCsatSettings>>(
+        `/api/organization/${organizationId}/csat-settings`
+      );
+      return transformCsatSettings(response.data.data);
+    } catch (error) {
+      logger.error('[organizationService]', 'Failed to fetch CSAT settings', error, {
+        organizationId
+      });
+      throw error;
+    }
+  },
+
+  /**
+   * Replace the organization's CSAT survey settings
+   * Surveys already sent keep their wording; changes apply to the next resolution.
+   * Authorization: SuperAdmin, Organization Owner, or Admin
+   */
+  async updateCsatSettings(
+    organizationId: string,
+    data: UpdateCsatSettingsRequest
+  ): Promise<CsatSettings> {
+    try {
+      const response = await api.put<ApiResponse<ApiCsatSettings>>(
+        `/api/organization/${organizationId}/csat-settings`,
+        {
+          enabled: data.enabled,
+          question: data.question,
+          thank_you_message: data.thankYouMessage || null
+        }
+      );
+      logger.info('[organizationService]', 'Updated CSAT settings', {
+        organizationId,
+        enabled: data.enabled
+      });
+      return transformCsatSettings(response.data.data);
+    } catch (error) {
+      logger.error('[organizationService]', 'Failed to update CSAT settings', error, {
+        organizationId
+      });
+      throw error;
+    }
+  },
 };
@@ -123,3 +123,95 @@ export interface PendingInvitation {
   createdAt: string;
   updatedAt: string;
 }
+
+/**
+ * How conversations needing a human are distributed across teammates
+ * - manual      → nobody is auto-assigned; agents pick from the inbox
+ * - round_robin → rotate through eligible members in a fixed order
+ * - least_busy  → member with the fewest open assigned conversations
+ */
+export type ConversationRoutingMode = 'manual' | 'round_robin' | 'least_busy';
+
+/**
+ * Organization-level conversation routing policy
+ * Applied by the backend when a conversation starts requiring human attention
+ * or the AI hands off. Conversations that already have an assignee are left alone.
+ */
+export interface ConversationRoutingPolicy {
+  organizationId: string;
+  mode: ConversationRoutingMode;
+  /** Members eligible for automatic assignment. Empty = every member. */
+  eligibleUserIds: string[];
+  assignOnHumanAttention: boolean;
+  assignOnAiHandoff: boolean;
+  updatedAt: string | null;
+}
+
+/**
+ * DTO for updating the routing policy (full replace)
+ */
+export type UpdateConversationRoutingPolicyRequest = Omit<
+  ConversationRoutingPolicy,
+  'organizationId' | 'updatedAt'
+>;
+
+/**
+ * Which conversations an SLA policy covers, by the AI `urgent` flag
+ */
+export type SlaUrgency = 'any' | 'urgent' | 'normal';
+
+/**
+ * One SLA target set. The backend picks the first policy (in list order)
+ * matching the conversation's channel and urgency when its timer starts.
+ */
+export interface SlaPolicy {
+  id: string;
+  name: string;
+  /** Conversation sources this policy applies to. Empty = every channel. */
+  channels: string[];
+  urgency: SlaUrgency;
+  /** Minutes from timer start until the first human reply is due */
+  firstResponseMinutes: number;
+  /** Minutes from timer start until the conversation must be closed */
+  resolutionMinutes: number;
+}
+
+/**
+ * Organization-level SLA settings
+ * Timers start when a conversation starts requiring human attention or the AI
+ * is paused by a handoff window (`ai_handoff_until`); the matched policy is
+ * snapshotted onto the conversation as `sla`.
+ */
+export interface SlaSettings {
+  organizationId: string;
+  enabled: boolean;
+  /** A running timer within this many minutes of its due time is "breaching soon" */
+  atRiskMinutes: number;
+  policies: SlaPolicy[];
+  updatedAt: string | null;
+}
+
+/**
+ * DTO for updating the SLA settings (full replace)
+ */
+export type UpdateSlaSettingsRequest = Omit<SlaSettings, 'organizationId' | 'updatedAt'>;
+
+/**
+ * Organization-level CSAT survey settings
+ * When enabled, resolving a conversation sends the customer a 1-5 rating
+ * prompt in the channel's native format; the answer lands on `conversation.csat`.
+ */
+export interface CsatSettings {
+  organizationId: string;
+  enabled: boolean;
+  /** Rating prompt shown to the customer */
+  question: string;
+  /** Sent after the customer answers; empty = no follow-up message */
+  thankYouMessage: string;
+  updatedAt: string | null;
+}
+
+/**
+ * DTO for updating the CSAT settings (full replace)
+ */
+export type UpdateCsatSettingsRequest = Omit<CsatSettings, 'organizationId' | 'updatedAt'>;
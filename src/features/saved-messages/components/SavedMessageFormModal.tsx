@@ -1,16 +1,28 @@
 /**
  * SavedMessageFormModal
- * Create/edit form for a quick-reply template.
+ * Create/edit form for a quick-reply template: shortcut, category, scope,
+ * default text plus optional English/Arabic variants. Variable chips insert
+ * `{{placeholders}}` at the caret of the text field last focused.
  */
 
-import { useEffect, useState } from 'react';
+import { useEffect, useMemo, useRef, useState } from 'react';
 import { useTranslation } from 'react-i18next';
+import { Lock, Users } from 'lucide-react';
 import { BaseModal } from '@/components/ui/BaseModal';
+import { cn } from '@/lib/utils';
+import { useCustomFieldSchemas } from '@/features/leads/hooks/useCustomFieldSchemas';
 import {
   useCreateSavedMessage,
+  useSavedMessages,
   useUpdateSavedMessage,
 } from '../hooks/useSavedMessages';
-import type { SavedMessage } from '../types/savedMessages.types';
+import type {
+  SavedMessage,
+  SavedMessageLanguage,
+  SavedMessageScope,
+  SavedMessageVariants,
+} from '../types/savedMessages.types';
+import { BUILT_IN_VARIABLES, LEAD_BASE_FIELDS } from '../utils/savedMessageTemplate';
 
 interface SavedMessageFormModalProps {
   isOpen: boolean;
@@ -23,6 +35,17 @@ interface SavedMessageFormModalProps {
 const TITLE_MAX = 100;
 const SHORTCUT_MAX = 30;
 const CONTENT_MAX = 5000;
+const CATEGORY_MAX = 50;
+
+const LANGUAGES: SavedMessageLanguage[] = ['en', 'ar'];
+
+const SCOPES: { value: SavedMessageScope; icon: typeof Lock }[] = [
+  { value: 'shared', icon: Users },
+  { value: 'personal', icon: Lock },
+];
+
+/** Which text field a variable chip inserts into */
+type TextField = 'content' | SavedMessageLanguage;
 
 export function SavedMessageFormModal({
   isOpen,
@@ -39,16 +62,66 @@ export function SavedMessageFormModal({
 
   const [shortcut, setShortcut] = useState('');
   const [content, setContent] = useState('');
+  const [variants, setVariants] = useState<SavedMessageVariants>({});
+  const [category, setCategory] = useState('');
+  const [scope, setScope] = useState<SavedMessageScope>('shared');
   const [error, setError] = useState<string | null>(null);
 
+  const textareaRefs = useRef<Partial<Record<TextField, HTMLTextAreaElement | null>>>({});
+  const lastFocusedField = useRef<TextField>('content');
+
+  const { data: messages = [] } = useSavedMessages(agentId);
+  const existingCategories = useMemo(
+    () => [...new Set(messages.map((m) => m.category).filter((c): c is string => !!c))].sort(),
+    [messages]
+  );
+
+  const { data: fieldSchemas = [] } = useCustomFieldSchemas();
+  const variables = useMemo(
+    () => [
+      ...BUILT_IN_VARIABLES,
+      ...LEAD_BASE_FIELDS.map((key) => `lead.${key}`),
+      ...fieldSchemas.filter((schema) => !schema.is_system).map((schema) => `lead.${schema.field_key}`),
+    ],
+    [fieldSchemas]
+  );
+
   useEffect(() => {
     if (isOpen) {
       setShortcut(message?.shortcut ?? '');
       setContent(message?.content ?? '');
+      setVariants(message?.variants ?? {});
+      setCategory(message?.category ?? '');
+      setScope(message?.scope ?? 'shared');
       setError(null);
+      lastFocusedField.current = 'content';
     }
   }, [isOpen, message]);
 
+  const getFieldValue = (field: TextField) => (field === 'content' ? content : variants[field] ?? '');
+  const setFieldValue = (field: TextField, value: string) => {
+    if (field === 'content') {
+      setContent(value);
+    } else {
+      setVariants((prev) => ({ ...prev, [field]: value }));
+    }
+  };
+
+  const insertVariable = (variable: string) => {
+    const field = lastFocusedField.current;
+    const textarea = textareaRefs.current[field];
+    const value = getFieldValue(field);
+    const placeholder = `{{${variable}}}`;
+    const start = textarea?.selectionStart ?? value.length;
+    const end = textarea?.selectionEnd ?? value.length;
+    setFieldValue(field, value.slice(0, start) + placeholder + value.slice(end));
+    // Put the caret after the inserted placeholder once React has re-rendered
+    setTimeout(() => {
+      textarea?.focus();
+      textarea?.setSelectionRange(start + placeholder.length, start + placeholder.length);
+    }, 0);
+  };
+
   const normalizedShortcut = shortcut.trim().replace(/^\//, '').toLowerCase();
 
   const validate = (): string | null => {
@@ -58,7 +131,7 @@ export function SavedMessageFormModal({
     if (/\s/.test(normalizedShortcut))
       return t('saved_messages.errors.shortcut_no_spaces');
     if (!content.trim()) return t('saved_messages.errors.content_required');
-    if (content.length > CONTENT_MAX)
+    if (content.length > CONTENT_MAX || LANGUAGES.some((lang) => (variants[lang]?.length ?? 0) > CONTENT_MAX))
       return t('saved_messages.errors.content_too_long', { max: CONTENT_MAX });
     return null;
   };
@@ -75,10 +148,20 @@ export function SavedMessageFormModal({
     // contract unchanged). Cap to TITLE_MAX defensively.
     const derivedTitle = normalizedShortcut.slice(0, TITLE_MAX);
 
+    // Empty variants are dropped so the default text is used for that language
+    const trimmedVariants: SavedMessageVariants = {};
+    LANGUAGES.forEach((lang) => {
+      const text = variants[lang]?.trim();
+      if (text) trimmedVariants[lang] = text;
+    });
+
     const payload = {
       title: derivedTitle,
       shortcut: normalizedShortcut,
       content: content.trim(),
+      variants: trimmedVariants,
+      category: category.trim().slice(0, CATEGORY_MAX) || null,
+      scope,
     };
 
     try {
@@ -127,13 +210,64 @@ export function SavedMessageFormModal({
           </p>
         </div>
 
+        <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+          <div>
+            <label className="block text-sm font-medium text-neutral-700 mb-1">
+              {t('saved_messages.field_category')}
+            </label>
+            <input
+              type="text"
+              value={category}
+              onChange={(e) => setCategory(e.target.value)}
+              maxLength={CATEGORY_MAX}
+              list="saved-message-categories"
+              placeholder={t('saved_messages.field_category_placeholder')}
+              className="w-full px-3 py-2 border border-neutral-300 rounded-lg outline-none focus:border-neutral-500 text-sm"
+              disabled={isPending}
+            />
+            <datalist id="saved-message-categories">
+              {existingCategories.map((c) => (
+                <option key={c} value={c} />
+              ))}
+            </datalist>
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-neutral-700 mb-1">
+              {t('saved_messages.field_scope')}
+            </label>
+            <div className="flex rounded-lg border border-neutral-300 p-0.5">
+              {SCOPES.map(({ value, icon: Icon }) => (
+                <button
+                  key={value}
+                  type="button"
+                  onClick={() => setScope(value)}
+                  disabled={isPending}
+                  className={cn(
+                    'flex-1 inline-flex items-center justify-center gap-1.5 px-2 py-1.5 rounded-md text-xs font-medium transition-colors',
+                    scope === value ? 'bg-neutral-900 text-white' : 'text-neutral-600 hover:bg-neutral-100'
+                  )}
+                >
+                  <Icon className="w-3.5 h-3.5" />
+                  {t(`saved_messages.scope_${value}`)}
+                </button>
+              ))}
+            </div>
+          </div>
+        </div>
+
         <div>
           <label className="block text-sm font-medium text-neutral-700 mb-1">
             {t('saved_messages.field_content')}
           </label>
           <textarea
+            ref={(el) => {
+              textareaRefs.current.content = el;
+            }}
             value={content}
             onChange={(e) => setContent(e.target.value)}
+            onFocus={() => {
+              lastFocusedField.current = 'content';
+            }}
             maxLength={CONTENT_MAX}
             rows={5}
             placeholder={t('saved_messages.field_content_placeholder')}
@@ -145,6 +279,54 @@ export function SavedMessageFormModal({
           </div>
         </div>
 
+        {/* Variables — inserted into whichever text field was focused last */}
+        <div>
+          <p className="text-xs font-medium text-neutral-700 mb-1.5">{t('saved_messages.variables')}</p>
+          <div className="flex flex-wrap gap-1">
+            {variables.map((variable) => (
+              <button
+                key={variable}
+                type="button"
+                onMouseDown={(e) => e.preventDefault()}
+                onClick={() => insertVariable(variable)}
+                disabled={isPending}
+                className="px-1.5 py-0.5 rounded bg-neutral-100 hover:bg-neutral-200 text-[11px] font-mono text-neutral-700 transition-colors"
+              >
+                {`{{${variable}}}`}
+              </button>
+            ))}
+          </div>
+          <p className="mt-1 text-xs text-neutral-500">{t('saved_messages.variables_help')}</p>
+        </div>
+
+        {/* Language variants */}
+        <div className="space-y-3">
+          <div>
+            <p className="text-xs font-medium text-neutral-700">{t('saved_messages.variants')}</p>
+            <p className="text-xs text-neutral-500">{t('saved_messages.variants_help')}</p>
+          </div>
+          {LANGUAGES.map((lang) => (
+            <div key={lang}>
+              <label className="block text-xs text-neutral-600 mb-1">{t(`saved_messages.variant_${lang}`)}</label>
+              <textarea
+                ref={(el) => {
+                  textareaRefs.current[lang] = el;
+                }}
+                value={variants[lang] ?? ''}
+                onChange={(e) => setFieldValue(lang, e.target.value)}
+                onFocus={() => {
+                  lastFocusedField.current = lang;
+                }}
+                dir={lang === 'ar' ? 'rtl' : 'ltr'}
+                maxLength={CONTENT_MAX}
+                rows={3}
+                className="w-full px-3 py-2 border border-neutral-300 rounded-lg outline-none focus:border-neutral-500 text-sm resize-y"
+                disabled={isPending}
+              />
+            </div>
+          ))}
+        </div>
+
         {error && (
           <div className="p-3 rounded-lg bg-red-50 border border-red-200 text-sm text-red-700">
             {error}
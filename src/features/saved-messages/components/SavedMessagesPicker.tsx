@@ -1,27 +1,31 @@
 /**
  * SavedMessagesPicker
  * Popover anchored to the message composer.
- * - Lists agent's saved messages (title + shortcut chip + content preview)
- * - Filter is driven by the composer text after `/` (no search input here)
+ * - Lists agent's saved messages (title + shortcut chip + content preview),
+ *   grouped by category; personal messages carry a lock icon
+ * - Filter is driven by the composer text after `/` (no search input here) and
+ *   ranks fuzzily — best match first, categories flattened
+ * - Button mode adds category chips to narrow the list
  * - Hover row → edit/delete icons
  * - Last row is always "Create new shortcut" — opens the form modal
- * - Click row inserts content into composer via onSelect
+ * - Click row hands the message to onSelect (the composer resolves variables)
  * - Keyboard: Up/Down navigate, Enter selects (insert OR open create modal), Esc closes
  */
 
-import { useEffect, useMemo, useRef, useState } from 'react';
+import { Fragment, useEffect, useMemo, useRef, useState } from 'react';
 import { useTranslation } from 'react-i18next';
-import { Loader2, Pencil, Plus, Trash2 } from 'lucide-react';
+import { Loader2, Lock, Pencil, Plus, Trash2 } from 'lucide-react';
 import { cn } from '@/lib/utils';
 import { useSavedMessages } from '../hooks/useSavedMessages';
 import type { SavedMessage } from '../types/savedMessages.types';
+import { rankSavedMessages } from '../utils/savedMessageTemplate';
 import { SavedMessageFormModal } from './SavedMessageFormModal';
 import { DeleteSavedMessageModal } from './DeleteSavedMessageModal';
 
 interface SavedMessagesPickerProps {
   agentId: string;
-  /** Called with content to insert into composer */
-  onSelect: (content: string) => void;
+  /** Called with the picked message; the composer resolves its text */
+  onSelect: (message: SavedMessage) => void;
   /** Close the popover */
   onClose: () => void;
   /** Filter from the composer (text typed after `/`). Updates live. */
@@ -38,6 +42,15 @@ interface SavedMessagesPickerProps {
 // Sentinel index that means the "create" row is highlighted
 const CREATE_INDEX = -1;
 
+/** Categories alphabetically, uncategorized last; order inside a category is kept */
+const groupByCategory = (messages: SavedMessage[]) =>
+  [...messages].sort((a, b) => {
+    if (a.category === b.category) return 0;
+    if (!a.category) return 1;
+    if (!b.category) return -1;
+    return a.category.localeCompare(b.category);
+  });
+
 export function SavedMessagesPicker({
   agentId,
   onSelect,
@@ -54,19 +67,20 @@ export function SavedMessagesPicker({
   const [editing, setEditing] = useState<SavedMessage | null>(null);
   const [deleting, setDeleting] = useState<SavedMessage | null>(null);
   const [showCreate, setShowCreate] = useState(false);
+  const [category, setCategory] = useState<string | null>(null);
 
   const { data: messages = [], isLoading } = useSavedMessages(agentId);
 
+  const categories = useMemo(
+    () => [...new Set(messages.map((m) => m.category).filter((c): c is string => !!c))].sort((a, b) => a.localeCompare(b)),
+    [messages]
+  );
+
+  const isSearching = !!initialFilter.trim();
   const filtered = useMemo(() => {
-    const q = initialFilter.trim().toLowerCase();
-    if (!q) return messages;
-    return messages.filter(
-      (m) =>
-        m.title.toLowerCase().includes(q) ||
-        m.shortcut.toLowerCase().includes(q) ||
-        m.content.toLowerCase().includes(q)
-    );
-  }, [messages, initialFilter]);
+    const inCategory = category ? messages.filter((m) => m.category === category) : messages;
+    return isSearching ? rankSavedMessages(inCategory, initialFilter) : groupByCategory(inCategory);
+  }, [messages, category, initialFilter, isSearching]);
 
   // Keep highlight in range when filtered changes; clamp into the message list,
   // or fall back to the "create" row when in button mode and there are no messages.
@@ -93,7 +107,7 @@ export function SavedMessagesPicker({
   }, [onClose, showCreate, editing, deleting]);
 
   const handleSelect = (m: SavedMessage) => {
-    onSelect(m.content);
+    onSelect(m);
     onClose();
   };
 
@@ -161,6 +175,26 @@ export function SavedMessagesPicker({
           anchorClassName ?? 'bottom-full ltr:left-0 rtl:right-0 mb-2'
         )}
       >
+        {/* Category chips — button mode only; slash mode keeps typing in the composer */}
+        {!isSlashMode && categories.length > 0 && (
+          <div className="flex gap-1 px-3 py-2 border-b border-neutral-100 overflow-x-auto">
+            {[null, ...categories].map((c) => (
+              <button
+                key={c ?? 'all'}
+                type="button"
+                onClick={() => setCategory(c)}
+                className={cn(
+                  'px-2 py-0.5 rounded-full text-[11px] font-medium whitespace-nowrap border transition-colors',
+                  category === c
+                    ? 'bg-neutral-900 border-neutral-900 text-white'
+                    : 'bg-white border-neutral-200 text-neutral-600 hover:bg-neutral-50'
+                )}
+              >
+                {c ?? t('saved_messages.all_categories')}
+              </button>
+            ))}
+          </div>
+        )}
         <div className="max-h-[320px] overflow-y-auto">
           {isLoading ? (
             <div className="flex items-center justify-center py-8">
@@ -175,59 +209,95 @@ export function SavedMessagesPicker({
                     : t('saved_messages.no_results')}
                 </li>
               ) : (
-                filtered.map((m, idx) => (
-                  <li
-                    key={m.id}
-                    role="option"
-                    aria-selected={idx === highlightedIndex}
-                    onMouseEnter={() => setHighlightedIndex(idx)}
-                    onClick={() => handleSelect(m)}
-                    className={cn(
-                      'group px-4 py-2.5 cursor-pointer flex items-start gap-2 transition-colors',
-                      idx > 0 && 'border-t border-neutral-100',
-                      idx === highlightedIndex
-                        ? 'bg-neutral-50'
-                        : 'hover:bg-neutral-50'
-                    )}
-                  >
-                    <div className="flex-1 min-w-0">
-                      <div className="text-xs font-semibold text-neutral-900 font-mono truncate">
-                        /{m.shortcut}
-                      </div>
-                      <div className="text-xs text-neutral-500 truncate mt-0.5">
-                        {m.content}
-                      </div>
-                    </div>
-                    {!isSlashMode && (
-                      <div className="flex items-center gap-0.5 opacity-0 group-hover:opacity-100 transition-opacity shrink-0">
-                        <button
-                          type="button"
-                          onClick={(e) => {
-                            e.stopPropagation();
-                            setEditing(m);
-                          }}
-                          className="p-1 rounded text-neutral-500 hover:text-neutral-900 hover:bg-neutral-200"
-                          title={t('common.edit')}
-                          aria-label={t('common.edit')}
-                        >
-                          <Pencil className="w-3.5 h-3.5" />
-                        </button>
-                        <button
-                          type="button"
-                          onClick={(e) => {
-                            e.stopPropagation();
-                            setDeleting(m);
-                          }}
-                          className="p-1 rounded text-neutral-500 hover:text-red-600 hover:bg-red-50"
-                          title={t('common.delete')}
-                          aria-label={t('common.delete')}
+                filtered.map((m, idx) => {
+                  // Category header before the first message of each group (not while ranking)
+                  const showCategoryHeader =
+                    !isSearching && !category && categories.length > 0 &&
+                    (idx === 0 || filtered[idx - 1].category !== m.category);
+                  return (
+                    <Fragment key={m.id}>
+                      {showCategoryHeader && (
+                        <li
+                          role="presentation"
+                          className={cn(
+                            'px-4 pt-2 pb-1 text-[10px] font-medium uppercase tracking-wider text-neutral-400',
+                            idx > 0 && 'border-t border-neutral-100'
+                          )}
                         >
-                          <Trash2 className="w-3.5 h-3.5" />
-                        </button>
-                      </div>
-                    )}
-                  </li>
-                ))
+                          {m.category ?? t('saved_messages.uncategorized')}
+                        </li>
+                      )}
+                      <li
+                        role="option"
+                        aria-selected={idx === highlightedIndex}
+                        onMouseEnter={() => setHighlightedIndex(idx)}
+                        onClick={() => handleSelect(m)}
+                        className={cn(
+                          'group px-4 py-2.5 cursor-pointer flex items-start gap-2 transition-colors',
+                          idx > 0 && !showCategoryHeader && 'border-t border-neutral-100',
+                          idx === highlightedIndex
+                            ? 'bg-neutral-50'
+                            : 'hover:bg-neutral-50'
+                        )}
+                      >
+                        <div className="flex-1 min-w-0">
+                          <div className="flex items-center gap-1.5 min-w-0">
+                            <span className="text-xs font-semibold text-neutral-900 font-mono truncate">
+                              /{m.shortcut}
+                            </span>
+                            {m.scope === 'personal' && (
+                              <Lock
+                                className="w-3 h-3 text-neutral-400 shrink-0"
+                                aria-label={t('saved_messages.scope_personal')}
+                              />
+                            )}
+                            {(Object.keys(m.variants) as (keyof typeof m.variants)[])
+                              .filter((lang) => m.variants[lang]?.trim())
+                              .map((lang) => (
+                                <span
+                                  key={lang}
+                                  className="px-1 rounded bg-neutral-100 text-[9px] font-medium uppercase text-neutral-500 shrink-0"
+                                >
+                                  {lang}
+                                </span>
+                              ))}
+                          </div>
+                          <div className="text-xs text-neutral-500 truncate mt-0.5">
+                            {m.content}
+                          </div>
+                        </div>
+                        {!isSlashMode && (
+                          <div className="flex items-center gap-0.5 opacity-0 group-hover:opacity-100 transition-opacity shrink-0">
+                            <button
+                              type="button"
+                              onClick={(e) => {
+                                e.stopPropagation();
+                                setEditing(m);
+                              }}
+                              className="p-1 rounded text-neutral-500 hover:text-neutral-900 hover:bg-neutral-200"
+                              title={t('common.edit')}
+                              aria-label={t('common.edit')}
+                            >
+                              <Pencil className="w-3.5 h-3.5" />
+                            </button>
+                            <button
+                              type="button"
+                              onClick={(e) => {
+                                e.stopPropagation();
+                                setDeleting(m);
+                              }}
+                              className="p-1 rounded text-neutral-500 hover:text-red-600 hover:bg-red-50"
+                              title={t('common.delete')}
+                              aria-label={t('common.delete')}
+                            >
+                              <Trash2 className="w-3.5 h-3.5" />
+                            </button>
+                          </div>
+                        )}
+                      </li>
+                    </Fragment>
+                  );
+                })
               )}
 
               {/* Pinned create row — only in button mode */}
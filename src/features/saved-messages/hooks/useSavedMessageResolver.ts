@@ -0,0 +1,64 @@
+/**
+ * useSavedMessageResolver
+ *
+ * Turns a saved message into composer text for one conversation: picks the
+ * variant for the customer's language, then fills `{{variables}}` from the
+ * conversation, its lead and the current teammate. Reads the same React Query
+ * entries ChatPanel already has, so resolving doesn't trigger extra requests.
+ */
+import { useCallback, useMemo } from 'react';
+import { useAuthStore } from '@/features/auth/stores/authStore';
+import { useConversation } from '@/features/conversations/hooks/useConversation';
+import { useLeadByConversation } from '@/features/leads/hooks/useLeads';
+import { useDateLocale } from '@/lib/dateConfig';
+import type { SavedMessage } from '../types/savedMessages.types';
+import {
+  detectTextLanguage,
+  pickSavedMessageText,
+  resolveSavedMessageTemplate,
+  type ResolvedSavedMessage,
+  type SavedMessageContext,
+} from '../utils/savedMessageTemplate';
+
+/**
+ * Values `{{variables}}` resolve to in one conversation, plus the customer's
+ * language. Also used to pre-fill WhatsApp template parameters.
+ */
+export function useSavedMessageContext(conversationId: string | undefined, agentId: string | undefined) {
+  const { data: conversation } = useConversation(conversationId);
+  // Same gate as ChatPanel — only conversations with a captured lead have one
+  const hasLeadCapture = useMemo(
+    () => (conversation?.triggered_actions ?? []).some((a) => a.operation_id === 'lead_capture'),
+    [conversation?.triggered_actions]
+  );
+  const { data: lead } = useLeadByConversation(conversationId, agentId, hasLeadCapture);
+  const agentName = useAuthStore((state) => state.user?.name ?? null);
+  const { formatInUserTimezone } = useDateLocale();
+
+  const getContext = useCallback(
+    (): SavedMessageContext => ({
+      customerName: conversation?.customer_name ?? null,
+      agentName,
+      today: formatInUserTimezone(new Date(), 'PPP'),
+      lead: lead
+        ? { name: lead.name, phone: lead.phone, customFields: lead.customFields ?? {} }
+        : null,
+    }),
+    [conversation?.customer_name, agentName, lead, formatInUserTimezone]
+  );
+
+  return {
+    getContext,
+    language: detectTextLanguage(conversation?.last_message),
+  };
+}
+
+export function useSavedMessageResolver(conversationId: string | undefined, agentId: string | undefined) {
+  const { getContext, language } = useSavedMessageContext(conversationId, agentId);
+
+  return useCallback(
+    (message: SavedMessage): ResolvedSavedMessage =>
+      resolveSavedMessageTemplate(pickSavedMessageText(message, language), getContext()),
+    [getContext, language]
+  );
+}
@@ -1,6 +1,7 @@
 /**
  * Saved Messages — API service
  * snake_case (wire) <-> camelCase (frontend) transformation.
+ * The list endpoint returns shared messages plus the caller's personal ones.
  */
 
 import api from '@/lib/api';
@@ -25,6 +26,11 @@ const transform = (api: ApiSavedMessage): SavedMessage => ({
   title: api.title,
   shortcut: api.shortcut,
   content: api.content,
+  variants: api.variants ?? {},
+  category: api.category || null,
+  // Messages created before scopes existed were visible to the whole team
+  scope: api.scope ?? 'shared',
+  createdBy: api.created_by ?? null,
   sortOrder: api.sort_order,
   isActive: api.is_active,
   createdAt: api.created_at,
@@ -1,15 +1,36 @@
 /**
  * Saved Messages — types
  * Quick-reply templates an operator can insert into the composer.
- * Plain text only in v1; attachment fields are reserved for v2.
+ * Text may contain `{{variable}}` placeholders (see utils/savedMessageTemplate.ts)
+ * that are resolved from the open conversation and its lead at insert time.
+ * Attachment fields are reserved for a later version.
  */
 
+/**
+ * - personal → only visible to the teammate who created it
+ * - shared   → visible to everyone working on the agent
+ */
+export type SavedMessageScope = 'personal' | 'shared';
+
+/** Languages a saved message can carry a dedicated variant for */
+export type SavedMessageLanguage = 'en' | 'ar';
+
+/** Per-language text. A missing language falls back to `content`. */
+export type SavedMessageVariants = Partial<Record<SavedMessageLanguage, string>>;
+
 export interface SavedMessage {
   id: string;
   agentId: string;
   title: string;
   shortcut: string;
+  /** Default text, used when there's no variant for the customer's language */
   content: string;
+  variants: SavedMessageVariants;
+  /** Folder the message is grouped under in the picker; null = uncategorized */
+  category: string | null;
+  scope: SavedMessageScope;
+  /** User id of the creator; null for messages created before scopes existed */
+  createdBy: string | null;
   sortOrder: number;
   isActive: boolean;
   createdAt: string;
@@ -23,6 +44,10 @@ export interface ApiSavedMessage {
   title: string;
   shortcut: string;
   content: string;
+  variants?: SavedMessageVariants | null;
+  category?: string | null;
+  scope?: SavedMessageScope | null;
+  created_by?: string | null;
   sort_order: number;
   is_active: boolean;
   created_at: string;
@@ -33,6 +58,9 @@ export interface CreateSavedMessageRequest {
   title: string;
   shortcut: string;
   content: string;
+  variants?: SavedMessageVariants;
+  category?: string | null;
+  scope?: SavedMessageScope;
   sort_order?: number;
 }
 
@@ -40,6 +68,9 @@ export interface UpdateSavedMessageRequest {
   title: string;
   shortcut: string;
   content: string;
+  variants?: SavedMessageVariants;
+  category?: string | null;
+  scope?: SavedMessageScope;
   sort_order?: number;
   is_active?: boolean;
 }
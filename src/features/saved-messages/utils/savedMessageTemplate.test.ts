@@ -0,0 +1,95 @@
+import { describe, it, expect } from 'vitest';
+import type { SavedMessage } from '../types/savedMessages.types';
+import {
+  detectTextLanguage,
+  extractVariables,
+  fuzzyScore,
+  pickSavedMessageText,
+  rankSavedMessages,
+  resolveSavedMessageTemplate,
+  type SavedMessageContext,
+} from './savedMessageTemplate';
+
+const context = (overrides: Partial<SavedMessageContext> = {}): SavedMessageContext => ({
+  customerName: 'Sara Ahmed',
+  agentName: 'Omar',
+  today: 'March 1, 2026',
+  lead: { name: 'Sara A.', phone: '+966500000000', customFields: { order_id: 'A-1001', sizes: ['S', 'M'] } },
+  ...overrides,
+});
+
+const message = (overrides: Partial<SavedMessage> = {}): SavedMessage => ({
+  id: 'm-1',
+  agentId: 'agent-1',
+  title: 'greeting',
+  shortcut: 'greeting',
+  content: 'Hello!',
+  variants: {},
+  category: null,
+  scope: 'shared',
+  createdBy: null,
+  sortOrder: 0,
+  isActive: true,
+  createdAt: '2026-01-01T00:00:00.000Z',
+  updatedAt: '2026-01-01T00:00:00.000Z',
+  ...overrides,
+});
+
+describe('resolveSavedMessageTemplate', () => {
+  it('fills built-in and lead placeholders', () => {
+    const { text, unresolved } = resolveSavedMessageTemplate(
+      'Hi {{customer_first_name}}, {{ agent_name }} here. Order {{lead.order_id}} ({{lead.sizes}}) on {{today}}.',
+      context()
+    );
+    expect(text).toBe('Hi Sara, Omar here. Order A-1001 (S, M) on March 1, 2026.');
+    expect(unresolved).toEqual([]);
+  });
+
+  it('keeps placeholders it cannot fill and reports them', () => {
+    const { text, unresolved } = resolveSavedMessageTemplate(
+      'Hi {{customer_name}}, ref {{lead.order_id}} {{unknown}}',
+      context({ lead: null })
+    );
+    expect(text).toBe('Hi Sara Ahmed, ref {{lead.order_id}} {{unknown}}');
+    expect(unresolved).toEqual(['lead.order_id', 'unknown']);
+  });
+
+  it('lists the placeholders in a template once each', () => {
+    expect(extractVariables('{{customer_name}} {{lead.city}} {{customer_name}}')).toEqual([
+      'customer_name',
+      'lead.city',
+    ]);
+  });
+});
+
+describe('language variants', () => {
+  it('detects Arabic and English text', () => {
+    expect(detectTextLanguage('مرحبا، عندي سؤال')).toBe('ar');
+    expect(detectTextLanguage('Hi there')).toBe('en');
+    expect(detectTextLanguage('👍 123')).toBeNull();
+  });
+
+  it('falls back to the default text when a variant is missing', () => {
+    const m = message({ variants: { ar: 'أهلاً!' } });
+    expect(pickSavedMessageText(m, 'ar')).toBe('أهلاً!');
+    expect(pickSavedMessageText(m, 'en')).toBe('Hello!');
+    expect(pickSavedMessageText(m, null)).toBe('Hello!');
+  });
+});
+
+describe('fuzzy ranking', () => {
+  it('matches subsequences and rewards word starts', () => {
+    expect(fuzzyScore('ordst', 'order_status')).not.toBeNull();
+    expect(fuzzyScore('xyz', 'order_status')).toBeNull();
+    expect(fuzzyScore('os', 'order_status')!).toBeGreaterThan(fuzzyScore('os', 'cost')!);
+  });
+
+  it('ranks shortcut matches above text matches', () => {
+    const messages = [
+      message({ id: 'text', shortcut: 'thanks', title: 'thanks', content: 'Your refund is on its way' }),
+      message({ id: 'shortcut', shortcut: 'refund', title: 'refund', content: 'We are sorry' }),
+      message({ id: 'none', shortcut: 'hours', title: 'hours', content: 'We open at 9' }),
+    ];
+    expect(rankSavedMessages(messages, 'refund').map((m) => m.id)).toEqual(['shortcut', 'text']);
+  });
+});
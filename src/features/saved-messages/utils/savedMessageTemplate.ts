@@ -0,0 +1,169 @@
+/**
+ * Saved message templates
+ * `{{variable}}` placeholders, language variants and fuzzy ranking for the
+ * picker. Pure functions — the composer gathers the context (see
+ * hooks/useSavedMessageResolver.ts).
+ *
+ * Supported placeholders:
+ *   {{customer_name}}, {{customer_first_name}}, {{agent_name}}, {{today}}
+ *   {{lead.name}}, {{lead.phone}}, {{lead.<custom_field_key>}}
+ */
+
+import type { SavedMessage, SavedMessageLanguage } from '../types/savedMessages.types';
+
+export const BUILT_IN_VARIABLES = ['customer_name', 'customer_first_name', 'agent_name', 'today'] as const;
+
+export type BuiltInVariable = (typeof BUILT_IN_VARIABLES)[number];
+
+/** Lead fields that aren't custom fields */
+export const LEAD_BASE_FIELDS = ['name', 'phone'] as const;
+
+const VARIABLE_PATTERN = /\{\{\s*([a-z_][\w]*(?:\.[\w-]+)?)\s*\}\}/gi;
+
+export interface SavedMessageContext {
+  customerName: string | null;
+  /** Teammate inserting the message */
+  agentName: string | null;
+  /** Already formatted for the viewer's locale and timezone */
+  today: string;
+  lead: {
+    name: string | null;
+    phone: string | null;
+    customFields: Record<string, unknown>;
+  } | null;
+}
+
+export interface ResolvedSavedMessage {
+  text: string;
+  /** Placeholders with no value — left in the text for the operator to fill */
+  unresolved: string[];
+}
+
+const toDisplayValue = (value: unknown): string | null => {
+  if (value === null || value === undefined) return null;
+  if (Array.isArray(value)) {
+    const parts = value.map(toDisplayValue).filter((v): v is string => !!v);
+    return parts.length > 0 ? parts.join(', ') : null;
+  }
+  if (typeof value === 'object') return null;
+  const text = String(value).trim();
+  return text || null;
+};
+
+function lookupVariable(name: string, context: SavedMessageContext): string | null {
+  if (name.startsWith('lead.')) {
+    if (!context.lead) return null;
+    const key = name.slice('lead.'.length);
+    if (key === 'name') return toDisplayValue(context.lead.name);
+    if (key === 'phone') return toDisplayValue(context.lead.phone);
+    return toDisplayValue(context.lead.customFields[key]);
+  }
+
+  switch (name as BuiltInVariable) {
+    case 'customer_name':
+      return toDisplayValue(context.customerName);
+    case 'customer_first_name':
+      return toDisplayValue(context.customerName?.trim().split(/\s+/)[0]);
+    case 'agent_name':
+      return toDisplayValue(context.agentName);
+    case 'today':
+      return context.today;
+    default:
+      return null;
+  }
+}
+
+/** Placeholder names used in a template, in order of first appearance */
+export function extractVariables(template: string): string[] {
+  const names = new Set<string>();
+  for (const match of template.matchAll(VARIABLE_PATTERN)) {
+    names.add(match[1].toLowerCase());
+  }
+  return [...names];
+}
+
+/**
+ * Replace every placeholder that has a value. Unknown or empty ones stay as
+ * written so nothing silently disappears from the reply.
+ */
+export function resolveSavedMessageTemplate(template: string, context: SavedMessageContext): ResolvedSavedMessage {
+  const unresolved = new Set<string>();
+  const text = template.replace(VARIABLE_PATTERN, (placeholder, rawName: string) => {
+    const name = rawName.toLowerCase();
+    const value = lookupVariable(name, context);
+    if (value === null) {
+      unresolved.add(name);
+      return placeholder;
+    }
+    return value;
+  });
+  return { text, unresolved: [...unresolved] };
+}
+
+/**
+ * Rough language of a customer message: any Arabic letter means Arabic,
+ * otherwise any Latin letter means English. Null when there's nothing to go on.
+ */
+export function detectTextLanguage(text: string | null | undefined): SavedMessageLanguage | null {
+  if (!text) return null;
+  if (/[\u0600-\u06FF]/.test(text)) return 'ar';
+  if (/[a-z]/i.test(text)) return 'en';
+  return null;
+}
+
+/** Variant for the language if the message has one, otherwise the default text */
+export function pickSavedMessageText(message: SavedMessage, language: SavedMessageLanguage | null): string {
+  const variant = language ? message.variants[language]?.trim() : undefined;
+  return variant || message.content;
+}
+
+/**
+ * Subsequence match score, higher is better; null when `query` isn't a
+ * subsequence of `target`. Consecutive characters and word starts score extra
+ * so "ordst" ranks "order_status" above "our delivery times".
+ */
+export function fuzzyScore(query: string, target: string): number | null {
+  const q = query.toLowerCase();
+  const s = target.toLowerCase();
+  if (!q) return 0;
+
+  let score = 0;
+  let qi = 0;
+  let previous = -2;
+  for (let i = 0; i < s.length && qi < q.length; i++) {
+    if (s[i] !== q[qi]) continue;
+    score += 1;
+    if (i === previous + 1) score += 2;
+    if (i === 0 || /[\s_\-./]/.test(s[i - 1])) score += 3;
+    previous = i;
+    qi++;
+  }
+  return qi === q.length ? score : null;
+}
+
+/**
+ * Messages matching `query`, best first. Shortcuts and titles match fuzzily;
+ * message text only by substring (long text would match almost any query).
+ */
+export function rankSavedMessages(messages: SavedMessage[], query: string): SavedMessage[] {
+  const q = query.trim().toLowerCase();
+  if (!q) return messages;
+
+  return messages
+    .map((message) => {
+      const shortcut = fuzzyScore(q, message.shortcut);
+      const title = fuzzyScore(q, message.title);
+      const inText = [message.content, ...Object.values(message.variants)].some((text) =>
+        text?.toLowerCase().includes(q)
+      );
+      const score = Math.max(
+        shortcut !== null ? shortcut * 3 : -1,
+        title !== null ? title * 2 : -1,
+        inText ? q.length : -1
+      );
+      return { message, score };
+    })
+    .filter((entry) => entry.score >= 0)
+    .sort((a, b) => b.score - a.score || a.message.sortOrder - b.message.sortOrder)
+    .map((entry) => entry.message);
+}
@@ -0,0 +1,72 @@
+import { describe, it, expect } from 'vitest';
+import type { SavedMessageContext } from '@/features/saved-messages/utils/savedMessageTemplate';
+import type { MessageTemplate } from '../types/whatsapp.types';
+import { extractTemplatePlaceholders, prefillTemplateParameters, suggestTemplatesForDraft } from './templateSuggestions';
+
+const template = (
+  name: string,
+  body: string,
+  overrides: Partial<MessageTemplate> = {}
+): MessageTemplate => ({
+  id: name,
+  name,
+  status: 'APPROVED',
+  category: 'UTILITY',
+  language: 'en_US',
+  components: [{ type: 'BODY', text: body }],
+  ...overrides,
+});
+
+const context: SavedMessageContext = {
+  customerName: 'Sara Ahmed',
+  agentName: 'Omar',
+  today: 'March 1st, 2026',
+  lead: { name: 'Sara Ahmed', phone: '+966500000000', customFields: { order_number: 'A-1042' } },
+};
+
+describe('suggestTemplatesForDraft', () => {
+  const templates = [
+    template('order_update', 'Hi {{1}}, your order {{2}} has shipped and will arrive soon.'),
+    template('appointment_reminder', 'Reminder: your appointment is on {{1}}.'),
+    template('order_update_ar', 'مرحبا {{1}}، تم شحن طلبك {{2}}.', { language: 'ar' }),
+    template('order_delayed', 'Your order is delayed.', { status: 'PENDING' }),
+  ];
+
+  it('ranks approved templates by shared words and skips unrelated ones', () => {
+    const suggestions = suggestTemplatesForDraft(templates, 'Your order shipped today', 'en');
+    expect(suggestions.map((s) => s.template.name)).toEqual(['order_update', 'order_update_ar']);
+    expect(suggestions[0].score).toBeCloseTo(2 / 3);
+  });
+
+  it('prefers the customer language on ties', () => {
+    const suggestions = suggestTemplatesForDraft(templates, 'order', 'ar');
+    expect(suggestions[0].template.name).toBe('order_update_ar');
+  });
+
+  it('suggests nothing for an empty or stop-word-only draft', () => {
+    expect(suggestTemplatesForDraft(templates, '  ', 'en')).toEqual([]);
+    expect(suggestTemplatesForDraft(templates, 'thank you', 'en')).toEqual([]);
+  });
+});
+
+describe('prefillTemplateParameters', () => {
+  it('fills parameters from the words before each placeholder', () => {
+    const tpl = template('order_update', 'Hi {{1}}, this is {{2}}. Your order number {{3}} is ready.');
+    expect(extractTemplatePlaceholders(tpl)).toEqual(['1', '2', '3']);
+    expect(prefillTemplateParameters(tpl, context, '')).toEqual({ '1': 'Sara', '2': 'Omar', '3': 'A-1042' });
+  });
+
+  it('puts the draft into the first parameter nothing matched', () => {
+    const tpl = template('follow_up', 'Hello {{1}}, following up: {{2}}');
+    expect(prefillTemplateParameters(tpl, context, ' Your refund was approved ')).toEqual({
+      '1': 'Sara',
+      '2': 'Your refund was approved',
+    });
+  });
+
+  it('leaves parameters empty when the context has no value', () => {
+    const tpl = template('welcome', 'مرحبا {{1}}، رقم الجوال {{2}}');
+    const params = prefillTemplateParameters(tpl, { ...context, customerName: null, lead: null }, '');
+    expect(params).toEqual({});
+  });
+});
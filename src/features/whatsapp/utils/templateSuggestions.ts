@@ -0,0 +1,157 @@
+/**
+ * Template suggestions
+ * When the 24-hour window is closed the agent can only send approved
+ * templates. These helpers pick the templates closest to what the agent was
+ * typing and pre-fill their `{{1}}`, `{{2}}` parameters from the conversation
+ * and lead. Pure functions — the composer gathers the context.
+ */
+
+import type { SavedMessageContext } from '@/features/saved-messages/utils/savedMessageTemplate';
+import type { MessageTemplate } from '../types/whatsapp.types';
+
+export interface TemplateSuggestion {
+  template: MessageTemplate;
+  /** Share of the draft's words found in the template, 0–1 */
+  score: number;
+}
+
+const PLACEHOLDER_PATTERN = /\{\{(\d+)\}\}/g;
+
+const STOP_WORDS = new Set([
+  'the', 'and', 'you', 'your', 'for', 'with', 'this', 'that', 'are', 'was', 'have', 'has',
+  'will', 'can', 'our', 'from', 'not', 'but', 'please', 'thanks', 'thank',
+  'علي', 'الي', 'هذا', 'هذه', 'التي', 'الذي', 'لكم', 'لك', 'شكرا',
+]);
+
+export function getTemplateBody(template: MessageTemplate): string {
+  return template.components?.find((c) => c.type === 'BODY')?.text || '';
+}
+
+/** Positional placeholders in the body ("1", "2", …), sorted */
+export function extractTemplatePlaceholders(template: MessageTemplate): string[] {
+  const matches = getTemplateBody(template).match(PLACEHOLDER_PATTERN);
+  if (!matches) return [];
+  const unique = [...new Set(matches.map((m) => m.replace(/[{}]/g, '')))];
+  unique.sort((a, b) => Number(a) - Number(b));
+  return unique;
+}
+
+/** Lowercase, drop Arabic diacritics and unify letter variants so spellings match */
+function normalize(text: string): string {
+  return text
+    .toLowerCase()
+    .replace(/[\u064B-\u0652\u0640]/g, '')
+    .replace(/[أإآ]/g, 'ا')
+    .replace(/ة/g, 'ه')
+    .replace(/ى/g, 'ي');
+}
+
+function tokenize(text: string): string[] {
+  return normalize(text.replace(PLACEHOLDER_PATTERN, ' '))
+    .split(/[^\p{L}\p{N}]+/u)
+    .filter((word) => word.length >= 3 && !STOP_WORDS.has(word));
+}
+
+/** Same word, or one is a prefix of the other ("order" / "orders") */
+const wordsMatch = (a: string, b: string) =>
+  a === b || (a.length >= 4 && b.length >= 4 && (a.startsWith(b) || b.startsWith(a)));
+
+/**
+ * Approved templates that share words with the draft, best first. Templates
+ * in the customer's language win ties.
+ */
+export function suggestTemplatesForDraft(
+  templates: MessageTemplate[],
+  draft: string,
+  language: string | null,
+  limit = 3
+): TemplateSuggestion[] {
+  const draftWords = [...new Set(tokenize(draft))];
+  if (draftWords.length === 0) return [];
+
+  return templates
+    .filter((template) => template.status === 'APPROVED')
+    .map((template) => {
+      const templateWords = tokenize(`${template.name.replace(/_/g, ' ')} ${getTemplateBody(template)}`);
+      const matched = draftWords.filter((word) => templateWords.some((other) => wordsMatch(word, other)));
+      const inLanguage = !!language && template.language.toLowerCase().startsWith(language);
+      return { template, score: matched.length / draftWords.length, inLanguage };
+    })
+    .filter((entry) => entry.score > 0)
+    .sort((a, b) => b.score - a.score || Number(b.inLanguage) - Number(a.inLanguage))
+    .slice(0, limit)
+    .map(({ template, score }) => ({ template, score }));
+}
+
+/** Words right before a placeholder that say what belongs in it */
+const PARAMETER_CUES: { pattern: RegExp; value: (context: SavedMessageContext) => string | null | undefined }[] = [
+  {
+    pattern: /\b(hi|hello|hey|dear)\s*,?\s*$|(مرحبا|اهلا|عزيزي|عزيزتي)\s*,?\s*$/,
+    value: (context) => (context.customerName ?? context.lead?.name)?.trim().split(/\s+/)[0],
+  },
+  {
+    pattern: /\b(name|customer)\s*(is)?\s*:?\s*$|(الاسم|اسم|السيد|السيده)\s*:?\s*$/,
+    value: (context) => context.customerName ?? context.lead?.name,
+  },
+  {
+    pattern: /\b(phone|mobile|whatsapp)\s*(number)?\s*(is)?\s*:?\s*$|(رقم الجوال|رقم الهاتف|جوال|هاتف)\s*:?\s*$/,
+    value: (context) => context.lead?.phone,
+  },
+  {
+    pattern: /\b(this is|i'm|i am|agent)\s*$|(معك|موظف)\s*$/,
+    value: (context) => context.agentName,
+  },
+  {
+    pattern: /\btoday\s*(is)?\s*:?\s*$|اليوم\s*:?\s*$/,
+    value: (context) => context.today,
+  },
+];
+
+const toText = (value: unknown): string | null => {
+  if (value === null || value === undefined || typeof value === 'object') return null;
+  const text = String(value).trim();
+  return text || null;
+};
+
+/**
+ * Starting values for a template's parameters. Each placeholder is matched
+ * on the words just before it ("Hi {{1}}" → customer's first name, "order
+ * number {{2}}" → the lead's `order_number` field). The first placeholder
+ * nothing matched gets the agent's draft, so what they typed isn't lost.
+ */
+export function prefillTemplateParameters(
+  template: MessageTemplate,
+  context: SavedMessageContext,
+  draft: string
+): Record<string, string> {
+  const body = getTemplateBody(template);
+  const params: Record<string, string> = {};
+
+  for (const key of extractTemplatePlaceholders(template)) {
+    const index = body.indexOf(`{{${key}}}`);
+    const before = normalize(body.slice(Math.max(0, index - 40), index)).split(/[.!?\n]/).pop() ?? '';
+
+    // Lead fields first — "order number {{2}}" names the field more precisely than any generic cue
+    let value: string | null = null;
+    for (const [fieldKey, fieldValue] of Object.entries(context.lead?.customFields ?? {})) {
+      const label = normalize(fieldKey.replace(/[_-]+/g, ' ')).replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+      if (label && new RegExp(`${label}\\s*:?\\s*$`).test(before)) {
+        value = toText(fieldValue);
+        break;
+      }
+    }
+
+    if (!value) {
+      const cue = PARAMETER_CUES.find((c) => c.pattern.test(before));
+      value = cue ? toText(cue.value(context)) : null;
+    }
+
+    if (value) params[key] = value;
+  }
+
+  const text = draft.trim();
+  const firstEmpty = extractTemplatePlaceholders(template).find((key) => !params[key]);
+  if (text && firstEmpty) params[firstEmpty] = text;
+
+  return params;
+}
@@ -0,0 +1,35 @@
+import { useEffect, useLayoutEffect, useRef } from 'react';
+import { useAppVisibility } from '@/contexts/AppLifecycleContext';
+
+/**
+ * Hook to run a callback when connectivity comes back (offline → online)
+ *
+ * @param callback - Function to execute when the browser reports `online`
+ *   after having been offline
+ *
+ * @example
+ * ```tsx
+ * useOnReconnect(() => {
+ *   // Replay queued requests
+ * });
+ * ```
+ */
+export function useOnReconnect(callback: () => void | Promise<void>) {
+  const { isOnline } = useAppVisibility();
+  const callbackRef = useRef(callback);
+  const prevOnlineRef = useRef(isOnline);
+
+  useLayoutEffect(() => {
+    callbackRef.current = callback;
+  });
+
+  useEffect(() => {
+    if (!prevOnlineRef.current && isOnline) {
+      if (import.meta.env.DEV) {
+        console.log('[useOnReconnect] Connection restored - executing callback');
+      }
+      callbackRef.current();
+    }
+    prevOnlineRef.current = isOnline;
+  }, [isOnline]);
+}
@@ -69,9 +69,92 @@ export const queryKeys = {
     source?: string[];
     isRead?: boolean;
     urgent?: boolean;
+    viewId?: string;
+    assignedTo?: string;
+    slaAtRisk?: boolean;
+    labelIds?: string[];
   }) =>
     ['conversations', agentId, filters] as const,
 
+  /**
+   * Query key for saved conversation views (own + organization-shared) by agent
+   * @param {string | undefined} agentId - The agent ID
+   * @returns {readonly ['conversation-views', string | undefined]} Query key tuple
+   */
+  conversationViews: (agentId: string | undefined) => ['conversation-views', agentId] as const,
+
+  /**
+   * Query key for unread counts of pinned conversation views. Realtime invalidates
+   * this alongside the list key so sidebar badges stay live.
+   * @param {string | undefined} agentId - The agent ID
+   * @returns {readonly ['conversation-view-counts', string | undefined]} Query key tuple
+   */
+  conversationViewCounts: (agentId: string | undefined) =>
+    ['conversation-view-counts', agentId] as const,
+
+  /**
+   * Query key for the organization's conversation labels
+   * @param {string | undefined} organizationId - The organization ID
+   * @returns {readonly ['conversation-labels', string | undefined]} Query key tuple
+   */
+  conversationLabels: (organizationId: string | undefined) =>
+    ['conversation-labels', organizationId] as const,
+
+  /**
+   * Query key for the organization's conversation routing policy (manual / round-robin / least-busy)
+   * @param {string | undefined} organizationId - The organization ID
+   * @returns {readonly ['conversation-routing-policy', string | undefined]} Query key tuple
+   */
+  conversationRoutingPolicy: (organizationId: string | undefined) =>
+    ['conversation-routing-policy', organizationId] as const,
+
+  /**
+   * Query key for the organization's SLA settings (first-response / resolution targets)
+   * @param {string | undefined} organizationId - The organization ID
+   * @returns {readonly ['sla-settings', string | undefined]} Query key tuple
+   */
+  slaSettings: (organizationId: string | undefined) =>
+    ['sla-settings', organizationId] as const,
+
+  /**
+   * Query key for the organization's CSAT survey settings
+   * @param {string | undefined} organizationId - The organization ID
+   * @returns {readonly ['csat-settings', string | undefined]} Query key tuple
+   */
+  csatSettings: (organizationId: string | undefined) =>
+    ['csat-settings', organizationId] as const,
+
+  /**
+   * Query key for internal team notes on a conversation (never sent to the customer)
+   * @param {string | undefined} conversationId - The conversation ID
+   * @returns {readonly ['conversation-notes', string | undefined]} Query key tuple
+   */
+  conversationNotes: (conversationId: string | undefined) =>
+    ['conversation-notes', conversationId] as const,
+
+  /**
+   * Base query key for every cached contact profile
+   * @returns {readonly ['contact-profile']} Query key tuple
+   */
+  contactProfiles: () => ['contact-profile'] as const,
+
+  /**
+   * Query key for the cross-channel contact profile a conversation belongs to
+   * @param {string | undefined} conversationId - The conversation ID
+   * @returns {readonly ['contact-profile', string | undefined]} Query key tuple
+   */
+  contactProfile: (conversationId: string | undefined) =>
+    ['contact-profile', conversationId] as const,
+
+  /**
+   * Query key for full-text message search across an agent's conversations
+   * @param {string | undefined} agentId - The agent ID
+   * @param {object} filters - Query text plus sender/type/source/date filters
+   * @returns {readonly ['message-search', string | undefined, object]} Query key tuple
+   */
+  messageSearch: (agentId: string | undefined, filters: object) =>
+    ['message-search', agentId, filters] as const,
+
   /**
    * Query key for fetching messages in a conversation
    * @param {string | undefined} conversationId - The conversation ID
@@ -81,6 +164,15 @@ export const queryKeys = {
   messages: (conversationId: string | undefined, agentId: string | undefined) =>
     ['messages', conversationId, agentId] as const,
 
+  /**
+   * Query key for a stored message's translation
+   * @param {string} messageId - The message ID
+   * @param {string} targetLanguage - Language translated into ('en' | 'ar')
+   * @returns {readonly ['message-translation', string, string]} Query key tuple
+   */
+  messageTranslation: (messageId: string, targetLanguage: string) =>
+    ['message-translation', messageId, targetLanguage] as const,
+
   // ==================== Knowledge Base Queries ====================
 
   /**
@@ -126,6 +218,39 @@ export const queryKeys = {
    */
   documentJob: (jobId: string | undefined) => ['document-job', jobId] as const,
 
+  /**
+   * Query key for fetching an agent's saved website crawl sources
+   * @param {string | undefined} agentId - The agent ID
+   * @returns {readonly ['crawl-sources', string | undefined]} Query key tuple
+   */
+  crawlSources: (agentId: string | undefined) => ['crawl-sources', agentId] as const,
+
+  /**
+   * Query key for fetching a knowledge base entry's revisions
+   * @param {string | undefined} knowledgeBaseId - The knowledge base ID
+   * @returns {readonly ['knowledge-base-revisions', string | undefined]} Query key tuple
+   */
+  knowledgeBaseRevisions: (knowledgeBaseId: string | undefined) =>
+    ['knowledge-base-revisions', knowledgeBaseId] as const,
+
+  /**
+   * Base query key for an agent's knowledge health reports, whatever the threshold.
+   * Invalidate this one; knowledgeHealth() extends it.
+   * @param {string | undefined} agentId - The agent ID
+   * @returns {readonly ['knowledge-health', string | undefined]} Query key tuple
+   */
+  knowledgeHealthRoot: (agentId: string | undefined) => ['knowledge-health', agentId] as const,
+
+  /**
+   * Query key for fetching an agent's knowledge health (stale content) report.
+   * Extends the base knowledge health key so invalidation still matches it.
+   * @param {string | undefined} agentId - The agent ID
+   * @param {number | undefined} staleAfterDays - Optional "not updated in N days" threshold
+   * @returns {readonly ['knowledge-health', string | undefined, number | undefined]} Query key tuple
+   */
+  knowledgeHealth: (agentId: string | undefined, staleAfterDays?: number) =>
+    ['knowledge-health', agentId, staleAfterDays] as const,
+
   // ==================== Team Queries ====================
 
   /**
@@ -190,6 +315,43 @@ export const queryKeys = {
   funnelRecentEvents: (startDate: string, endDate: string) =>
     ['funnel-recent-events', startDate, endDate] as const,
 
+  /**
+   * Query key for conversation insights (sentiment, topics, AI-not-sure rate)
+   * @param {string} startDate - Range start (ISO)
+   * @param {string} endDate - Range end (ISO)
+   * @returns {readonly ['conversation-insights', string, string]} Query key tuple
+   */
+  conversationInsights: (startDate: string, endDate: string) =>
+    ['conversation-insights', startDate, endDate] as const,
+
+  /**
+   * Query key for the conversations behind one insights topic (drill-down)
+   * @param {string | null} topic - The topic
+   * @param {string} startDate - Range start (ISO)
+   * @param {string} endDate - Range end (ISO)
+   * @returns {readonly ['conversation-insights', 'topic', string | null, string, string]} Query key tuple
+   */
+  conversationInsightsTopic: (topic: string | null, startDate: string, endDate: string) =>
+    ['conversation-insights', 'topic', topic, startDate, endDate] as const,
+
+  /**
+   * Query key for the SLA compliance report
+   * @param {string} startDate - Range start (ISO)
+   * @param {string} endDate - Range end (ISO)
+   * @returns {readonly ['sla-compliance', string, string]} Query key tuple
+   */
+  slaCompliance: (startDate: string, endDate: string) =>
+    ['sla-compliance', startDate, endDate] as const,
+
+  /**
+   * Query key for the CSAT report
+   * @param {string} startDate - Range start (ISO)
+   * @param {string} endDate - Range end (ISO)
+   * @returns {readonly ['csat-report', string, string]} Query key tuple
+   */
+  csatReport: (startDate: string, endDate: string) =>
+    ['csat-report', startDate, endDate] as const,
+
   /**
    * Query key for fetching insights by agent
    * @param {string | undefined} agentId - The agent ID
@@ -276,6 +438,24 @@ export const queryKeys = {
    */
   followUpSteps: (agentId: string | undefined) => ['followUpSteps', agentId] as const,
 
+  // ==================== Prompt Version Queries ====================
+
+  /**
+   * Query key for fetching an agent's prompt versions
+   * @param {string | undefined} agentId - The agent ID
+   * @returns {readonly ['promptVersions', string | undefined]} Query key tuple
+   */
+  promptVersions: (agentId: string | undefined) => ['promptVersions', agentId] as const,
+
+  // ==================== Test Suite Queries ====================
+
+  /**
+   * Query key for fetching an agent's regression test cases
+   * @param {string | undefined} agentId - The agent ID
+   * @returns {readonly ['testCases', string | undefined]} Query key tuple
+   */
+  testCases: (agentId: string | undefined) => ['testCases', agentId] as const,
+
   // ==================== Billing & Stripe Queries ====================
 
   /**
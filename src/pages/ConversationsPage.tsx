@@ -6,6 +6,7 @@
 
 import { useEffect, useState } from 'react';
 import { useTranslation } from 'react-i18next';
+import { useSearchParams } from 'react-router-dom';
 import { Panel, PanelGroup, PanelResizeHandle } from 'react-resizable-panels';
 import { useAgentContext } from '@/hooks/useAgentContext';
 import { useConversationStore } from '@/features/conversations/stores/conversationStore';
@@ -15,9 +16,14 @@ import { useIsMobile } from '@/hooks/useMediaQuery';
 import NoAgentEmptyState from '@/features/agents/components/NoAgentEmptyState';
 import ConversationList from '@/features/conversations/components/ConversationList/ConversationList';
 import ChatPanel from '@/features/conversations/components/Chat/ChatPanel';
+import { ContactProfilePanel } from '@/features/conversations/components/ContactProfile/ContactProfilePanel';
 import ConversationEmptyState from '@/features/conversations/components/shared/ConversationEmptyState';
 import { useDocumentTitle } from '@/hooks/useDocumentTitle';
 import { useMarkConversationAsRead } from '@/features/conversations/hooks/useMarkConversationAsRead';
+import {
+  OPEN_CONVERSATION_SEARCH_PARAM,
+  OPEN_MESSAGE_SEARCH_PARAM,
+} from '@/features/conversations/constants/chatConstants';
 
 export const ConversationsPage = () => {
   const { t } = useTranslation();
@@ -25,10 +31,12 @@ export const ConversationsPage = () => {
   const isMobile = useIsMobile();
   const { agent: globalSelectedAgent, agentId } = useAgentContext();
   const clearSelection = useConversationStore((state) => state.clearSelection);
+  const selectConversationId = useConversationStore((state) => state.selectConversationId);
   const selectedConversation = useSelectedConversation();
   const { mutate: markAsRead } = useMarkConversationAsRead();
 
   const [showChat, setShowChat] = useState(false);
+  const [showContactPanel, setShowContactPanel] = useState(false);
 
   // Reset conversation selection when agent changes
   useEffect(() => {
@@ -36,6 +44,26 @@ export const ConversationsPage = () => {
     setShowChat(false);
   }, [agentId, clearSelection]);
 
+  // Open a conversation linked from elsewhere (e.g. a note mention toast), optionally
+  // scrolled to one message. Declared after the reset above so it wins on first mount.
+  const [searchParams, setSearchParams] = useSearchParams();
+  const openConversationId = searchParams.get(OPEN_CONVERSATION_SEARCH_PARAM);
+  const openMessageId = searchParams.get(OPEN_MESSAGE_SEARCH_PARAM);
+  useEffect(() => {
+    if (!openConversationId) return;
+    if (openMessageId) {
+      useChatStore.getState().requestJump(openConversationId, openMessageId);
+    }
+    selectConversationId(openConversationId);
+    setShowChat(true);
+    setSearchParams((prev) => {
+      const next = new URLSearchParams(prev);
+      next.delete(OPEN_CONVERSATION_SEARCH_PARAM);
+      next.delete(OPEN_MESSAGE_SEARCH_PARAM);
+      return next;
+    }, { replace: true });
+  }, [openConversationId, openMessageId, selectConversationId, setSearchParams]);
+
   // Smart read logic: Mark as read when conversation is selected OR when becomes unread while selected
   // This ensures conversations stay read while user is viewing them, even if new messages arrive
   useEffect(() => {
@@ -92,7 +120,7 @@ export const ConversationsPage = () => {
     <div className="h-full overflow-hidden">
       <PanelGroup direction="horizontal">
         {/* Left Panel: Conversation List */}
-        <Panel defaultSize={35} minSize={25} maxSize={50}>
+        <Panel id="conversation-list" order={1} defaultSize={35} minSize={25} maxSize={50}>
           <ConversationList
             agentId={globalSelectedAgent.id}
             onConversationSelect={handleConversationSelect}
@@ -102,13 +130,31 @@ export const ConversationsPage = () => {
         <PanelResizeHandle className="w-px bg-neutral-200 hover:bg-brand-mojeeb transition-colors" />
 
         {/* Right Panel: Chat Messages */}
-        <Panel defaultSize={65}>
+        <Panel id="conversation-chat" order={2} defaultSize={65}>
           {selectedConversation ? (
-            <ChatPanel conversation={selectedConversation} />
+            <ChatPanel
+              conversation={selectedConversation}
+              isContactPanelOpen={showContactPanel}
+              onToggleContactPanel={() => setShowContactPanel((open) => !open)}
+            />
           ) : (
             <ConversationEmptyState />
           )}
         </Panel>
+
+        {/* Contact profile sidebar: the customer across all channels */}
+        {showContactPanel && selectedConversation && (
+          <>
+            <PanelResizeHandle className="w-px bg-neutral-200 hover:bg-brand-mojeeb transition-colors" />
+            <Panel id="conversation-contact" order={3} defaultSize={25} minSize={20} maxSize={35}>
+              <ContactProfilePanel
+                conversation={selectedConversation}
+                onOpenConversation={selectConversationId}
+                onClose={() => setShowContactPanel(false)}
+              />
+            </Panel>
+          </>
+        )}
       </PanelGroup>
     </div>
   );
@@ -30,6 +30,9 @@ const ToolsPage = lazy(() => import('./features/actions/pages/ToolsPage').then(m
 const ActionExecutionsPage = lazy(() => import('./features/actions/pages/ActionExecutionsPage').then(m => ({ default: m.ActionExecutionsPage })));
 const FunnelDashboardPage = lazy(() => import('./features/analytics/pages/FunnelDashboardPage'));
 const AgentAnalyticsPage = lazy(() => import('./features/analytics/pages/AgentAnalyticsPage'));
+const ConversationInsightsPage = lazy(() => import('./features/analytics/pages/ConversationInsightsPage'));
+const SlaCompliancePage = lazy(() => import('./features/analytics/pages/SlaCompliancePage'));
+const CsatReportPage = lazy(() => import('./features/analytics/pages/CsatReportPage'));
 const AttachmentsPage = lazy(() => import('./features/attachments/pages/AttachmentsPage').then(m => ({ default: m.AttachmentsPage })));
 const IntegrationsPage = lazy(() => import('./features/integrations/pages/IntegrationsPage'));
 const WhatsAppManagementPage = lazy(() => import('./features/whatsapp/pages/WhatsAppManagementPage'));
@@ -329,6 +332,30 @@ export const router = createBrowserRouter([
           </SuperAdminRoute>
         ),
       },
+      {
+        path: 'sla-compliance',
+        element: (
+          <SuperAdminRoute>
+            <SlaCompliancePage />
+          </SuperAdminRoute>
+        ),
+      },
+      {
+        path: 'csat',
+        element: (
+          <SuperAdminRoute>
+            <CsatReportPage />
+          </SuperAdminRoute>
+        ),
+      },
+      {
+        path: 'conversation-insights',
+        element: (
+          <SuperAdminRoute>
+            <ConversationInsightsPage />
+          </SuperAdminRoute>
+        ),
+      },
       {
         path: 'action-executions',
         element: (